@@ -1,11 +1,11 @@
 import React, { useState, useEffect } from 'react'
-import { Outlet, Route, Routes, Link, useLocation, Navigate } from 'react-router-dom'
+import { Outlet, Route, Routes, Link, useLocation, useNavigate, Navigate } from 'react-router-dom'
 import { ThemeProvider } from './components/theme/ThemeProvider'
 import { ThemeToggle } from './components/theme/ThemeToggle'
 import { NavigationMenu, NavigationMenuContent, NavigationMenuItem, NavigationMenuLink, NavigationMenuList, NavigationMenuTrigger } from "@/components/ui/navigation-menu"
 import { cn } from "@/lib/utils"
 import { Button } from '@/components/ui/button'
-import { Code, Books, PuzzlePiece, Plugs, StackSimple, Brain, Robot, Article, Users, GithubLogo, Path, GraduationCap } from '@phosphor-icons/react'
+import { Code, Books, PuzzlePiece, Plugs, StackSimple, Brain, Robot, Article, Users, GithubLogo, Path, GraduationCap, Cpu, Package, MagnifyingGlass } from '@phosphor-icons/react'
 import PatternExplorer from './components/patterns/PatternExplorer'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import ConceptsExplorer from './components/concepts/ConceptsExplorer'
@@ -21,6 +21,12 @@ import { setupSimulationButtonHandlers } from './lib/utils/flows/visualizationFi
 import LearningJourneyMap from './components/tutorial/LearningJourneyMap';
 import { EnlightenMeProvider } from './components/enlighten/EnlightenMeProvider';
 import { Toaster } from '@/components/ui/toaster';
+import { LLMSettingsProvider } from './contexts/LLMContext';
+import LLMSettingsDialog from './components/settings/LLMSettingsDialog';
+import { ContentPackProvider } from './contexts/ContentPackContext';
+import ContentPacksDialog from './components/settings/ContentPacksDialog';
+import CommandPalette from './components/search/CommandPalette';
+import PwaStatus from './components/pwa/PwaStatus';
 
 // Placeholder component (disabled)
 const AppTutorialButton = () => null;
@@ -28,10 +34,15 @@ const AppTutorialButton = () => null;
 function App() {
   const [mounted, setMounted] = useState(false)
   const [showJourneyMap, setShowJourneyMap] = useState(false)
+  const [showLLMSettings, setShowLLMSettings] = useState(false)
+  const [showContentPacks, setShowContentPacks] = useState(false)
+  const [showCommandPalette, setShowCommandPalette] = useState(false)
   const location = useLocation()
+  const navigate = useNavigate()
   
   // Get current page for journey map
   const getCurrentPage = () => {
+    if (location.pathname.startsWith('/patterns/')) return 'agent-patterns';
     switch (location.pathname) {
       case '/': return 'core-concepts';
       case '/patterns': return 'agent-patterns';
@@ -45,10 +56,22 @@ function App() {
 
   const handleNavigate = (path: string) => {
     setShowJourneyMap(false);
-    // Navigate to the path
-    window.location.href = path;
+    // Client-side navigation keeps app state and works with the hash router
+    navigate(path);
   };
   
+  // Ctrl+K / Cmd+K toggles the command palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setShowCommandPalette(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [])
+  
   // Fix hydration issues and set up error handling
   useEffect(() => {
     setMounted(true)
@@ -187,6 +210,8 @@ function App() {
 
   return (
     <ThemeProvider defaultTheme="light" storageKey="azure-ai-agent-theme">
+      <LLMSettingsProvider>
+      <ContentPackProvider>
       <EnlightenMeProvider>
         <div className="min-h-screen bg-background text-foreground flex flex-col">
           <header className="border-b border-border sticky top-0 z-10 bg-background">
@@ -197,6 +222,18 @@ function App() {
               </div>
               
               <div className="flex items-center space-x-4">
+                <PwaStatus />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowCommandPalette(true)}
+                  className="flex items-center gap-2 text-muted-foreground"
+                  title="Search everything (Ctrl+K)"
+                >
+                  <MagnifyingGlass size={16} />
+                  <span className="hidden sm:inline">Search</span>
+                  <kbd className="hidden md:inline-flex h-5 items-center rounded border bg-muted px-1.5 font-mono text-[10px]">Ctrl K</kbd>
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -207,6 +244,26 @@ function App() {
                   <span className="hidden sm:inline">Journey Map</span>
                 </Button>
                 <AppTutorialButton />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowLLMSettings(true)}
+                  className="flex items-center gap-2"
+                  title="AI model settings"
+                >
+                  <Cpu size={16} />
+                  <span className="hidden sm:inline">AI Model</span>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowContentPacks(true)}
+                  className="flex items-center gap-2"
+                  title="Content packs"
+                >
+                  <Package size={16} />
+                  <span className="hidden sm:inline">Content</span>
+                </Button>
                 <div className="flex items-center gap-2">
                   <ThemeToggle />
                   <span className="text-xs text-muted-foreground hidden md:inline-block">Theme</span>
@@ -268,7 +325,7 @@ function App() {
           <main className="flex-1 container mx-auto px-4 py-6">
             <Routes>
               <Route path="/" element={<ConceptsExplorer />} />
-              <Route path="/patterns" element={<PatternExplorer />} />
+              <Route path="/patterns/:patternId?" element={<PatternExplorer />} />
               <Route path="/azure-services" element={<AzureServicesOverview />} />
               <Route path="/quiz" element={<QuizSection />} />
               <Route path="/references" element={<ReferencesSection />} />
@@ -293,17 +350,28 @@ function App() {
             onNavigate={handleNavigate}
           />
 
+          {/* AI model provider settings */}
+          <LLMSettingsDialog open={showLLMSettings} onOpenChange={setShowLLMSettings} />
+
+          {/* External content packs */}
+          <ContentPacksDialog open={showContentPacks} onOpenChange={setShowContentPacks} />
+
+          {/* Ctrl+K search */}
+          <CommandPalette open={showCommandPalette} onOpenChange={setShowCommandPalette} />
+
           {/* Toast notifications */}
           <Toaster />
         </div>
       </EnlightenMeProvider>
+      </ContentPackProvider>
+      </LLMSettingsProvider>
     </ThemeProvider>
   );
 }
 
 const TabLink = React.memo(function TabLink({ to, icon, label }: { to: string, icon: React.ReactNode, label: string }) {
   const location = useLocation();
-  const isActive = location.pathname === to;
+  const isActive = location.pathname === to || (to !== '/' && location.pathname.startsWith(`${to}/`));
   
   return (
     <Button
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { azureAIServices } from '@/lib/data/azureAiServices';
+import { useContentPacks } from '@/contexts/ContentPackContext';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
@@ -17,6 +17,7 @@ import { EnhancedTutorialButton, pagesSynopsis } from '../tutorial/EnhancedTutor
 import EnlightenMeButton from '../concepts/EnlightenMeButton';
 
 const AzureServicesOverview = () => {
+  const { content: { azureServices: azureAIServices } } = useContentPacks();
   const [searchTerm, setSearchTerm] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [filter, setFilter] = useState<string | null>(null);
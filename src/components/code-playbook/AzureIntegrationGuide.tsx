@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Cloud, Stack, Lightning, Database, LineSegments, ShieldCheck, Article } from '@phosphor-icons/react';
 import { AzureAIService, azureAIServices, AzureServicePatternMapping, azureServicePatternMappings } from '@/lib/data/azureAiServices';
+import { resolvePatternId } from '@/lib/data/patternRegistry';
 import EnlightenMeButton from '../concepts/EnlightenMeButton';
 
 interface AzureIntegrationGuideProps {
@@ -18,7 +19,7 @@ const AzureIntegrationGuide: React.FC<AzureIntegrationGuideProps> = ({ patternId
 
   // Get relevant Azure services for this pattern
   const patternServices = azureServicePatternMappings
-    .filter(mapping => mapping.patternId === patternId)
+    .filter(mapping => resolvePatternId(mapping.patternId) === resolvePatternId(patternId))
     .map(mapping => {
       const service = azureAIServices.find(s => s.id === mapping.serviceId);
       return {
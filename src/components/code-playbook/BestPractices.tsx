@@ -5,6 +5,7 @@ import { InfoCircle, CaretDoubleRight, Warning, Code, SmileyWink, Cloud, Databas
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { azureAIServices, azureServicePatternMappings } from "@/lib/data/azureAiServices";
+import { resolvePatternId } from "@/lib/data/patternRegistry";
 import { Button } from "@/components/ui/button";
 import AzureIntegrationGuide from "./AzureIntegrationGuide";
 import AzureServicesBestPractices from "./AzureServicesBestPractices";
@@ -32,7 +33,9 @@ const BestPractices: React.FC<BestPracticesProps> = ({ patternId, patternName })
   const generalPractices = getGeneralBestPracticesForPattern(patternId);
   
   // Get Azure service mappings
-  const serviceMappings = azureServicePatternMappings.filter(mapping => mapping.patternId === patternId);
+  const serviceMappings = azureServicePatternMappings.filter(
+    mapping => resolvePatternId(mapping.patternId) === resolvePatternId(patternId)
+  );
   
   // Find the most important Azure services for this pattern (top 2)
   const keyServices = serviceMappings
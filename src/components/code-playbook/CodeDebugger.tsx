@@ -1,16 +1,30 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-import { Play, Pause, ArrowRight, ArrowsClockwise, Bug, Terminal } from '@phosphor-icons/react';
+import { Play, Pause, ArrowRight, ArrowLeft, ArrowsClockwise, Bug, Terminal, CircleNotch, ArrowUUpLeft, FastForward, Rewind, Eye, Stack, Plus, X } from '@phosphor-icons/react';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { runPython, PythonOutputChunk, PythonRunResult } from '@/lib/pyodide';
+import { extractScopes, CodeScope } from '@/lib/stepExtraction';
+import {
+  variablesAt,
+  consoleAt,
+  hitsBreakpoint,
+  nextBreakpointIndex,
+  previousBreakpointIndex,
+  evaluateWatch,
+  callStackAt
+} from '@/lib/utils/debuggerState';
 
-interface DebuggerStep {
+export interface DebuggerStep {
   lineNumbers: number[];
   variables: Record<string, any>;
   output?: string;
   explanation: string;
+  // Active calls, outermost first; inferred from the code when a step has none
+  callStack?: string[];
 }
 
 interface CodeDebuggerProps {
@@ -18,48 +32,143 @@ interface CodeDebuggerProps {
   language: string;
   steps: DebuggerStep[];
   title?: string;
+  // Full Python source of the pattern class; enables running it in Pyodide
+  pythonSource?: string;
+  // Step to open at, e.g. from a shared link, and a callback to keep that link current
+  initialStepIndex?: number;
+  onStepChange?: (index: number) => void;
 }
 
+type LiveRunState = 'idle' | 'loading' | 'running' | 'done';
+type DebugTab = 'console' | 'variables' | 'watch' | 'stack';
+
+const outputClassName = (stream: PythonOutputChunk['stream']) =>
+  stream === 'stderr' ? 'text-red-400' : stream === 'llm' ? 'text-sky-400' : '';
+
+const liveStatusText = (state: LiveRunState, result: PythonRunResult | null) => {
+  if (state === 'loading') return 'Loading the Python runtime (first run only)...';
+  if (state === 'running') return 'Running the pattern class with a stubbed openai client...';
+  if (!result) return 'Run the full Python class in Pyodide. Output streams into the console; the openai client is stubbed.';
+  if (result.status === 'success') return `${result.entry ?? 'The run'} returned in ${result.durationMs} ms.`;
+  if (result.status === 'timeout') return result.error;
+  const location = result.errorLine !== undefined ? ` on line ${result.errorLine + 1}` : '';
+  return `${result.errorType ?? 'Error'}${location}: ${result.error}`;
+};
+
 /**
  * Interactive code debugger that shows execution with variable state and console output
  */
-const CodeDebugger = ({ code, language, steps, title = "Code Debugging" }: CodeDebuggerProps) => {
-  const [currentStepIndex, setCurrentStepIndex] = useState(0);
+const CodeDebugger = ({
+  code,
+  language,
+  steps,
+  title = "Code Debugging",
+  pythonSource,
+  initialStepIndex = 0,
+  onStepChange
+}: CodeDebuggerProps) => {
+  const [currentStepIndex, setCurrentStepIndex] = useState(() => Math.max(0, Math.min(initialStepIndex, steps.length - 1)));
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
-  const [activeTab, setActiveTab] = useState<'console' | 'variables'>('console');
-  const [consoleOutput, setConsoleOutput] = useState<string[]>([]);
+  const [activeTab, setActiveTab] = useState<DebugTab>('console');
+  // 0-based line numbers of the walkthrough code
+  const [breakpoints, setBreakpoints] = useState<Set<number>>(new Set());
+  const [watches, setWatches] = useState<string[]>([]);
+  const [newWatch, setNewWatch] = useState('');
+  const [scopes, setScopes] = useState<CodeScope[]>([]);
+  // Live mode shows the Pyodide run of pythonSource instead of the recorded walkthrough
+  const [liveMode, setLiveMode] = useState(steps.length === 0);
+  const [liveState, setLiveState] = useState<LiveRunState>('idle');
+  const [liveOutput, setLiveOutput] = useState<PythonOutputChunk[]>([]);
+  const [liveResult, setLiveResult] = useState<PythonRunResult | null>(null);
   
-  const codeLines = code.split('\n');
+  const canRunLive = language === 'python' && Boolean(pythonSource);
+  const showLive = liveMode && canRunLive;
+  const codeLines = (showLive ? pythonSource : code).split('\n');
+  const isLiveRunning = liveState === 'loading' || liveState === 'running';
+  const liveErrorLine = showLive && liveResult?.status === 'error' ? liveResult.errorLine : undefined;
   const codeContainerRef = useRef<HTMLDivElement>(null);
   const activeLineRef = useRef<HTMLDivElement>(null);
   
   const currentStep = steps[currentStepIndex];
+  // Console and variables are derived from the steps so far, which rewinds them on step back
+  const consoleOutput = useMemo(() => consoleAt(steps, currentStepIndex), [steps, currentStepIndex]);
+  const variables = useMemo(() => variablesAt(steps, currentStepIndex), [steps, currentStepIndex]);
+  const callStack = useMemo(() => callStackAt(currentStep, scopes, code), [currentStep, scopes, code]);
+
+  // Function and class spans back the call stack for steps that don't record one
+  useEffect(() => {
+    let cancelled = false;
+    extractScopes(code, language)
+      .then(result => {
+        if (!cancelled) setScopes(result);
+      })
+      .catch(error => console.warn('Failed to extract scopes from code:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [code, language]);
+
+  useEffect(() => {
+    onStepChange?.(currentStepIndex);
+  }, [currentStepIndex]);
 
   // Toggle play/pause
   const togglePlay = () => {
     setIsPlaying(!isPlaying);
   };
 
-  // Move to next step
+  // Move to next step, pausing playback when it lands on a breakpoint
   const nextStep = () => {
     if (currentStepIndex < steps.length - 1) {
       setCurrentStepIndex(currentStepIndex + 1);
-      
-      // Add any console output from this step
-      if (steps[currentStepIndex + 1].output) {
-        setConsoleOutput(prev => [...prev, steps[currentStepIndex + 1].output || '']);
+      if (hitsBreakpoint(steps[currentStepIndex + 1], breakpoints)) {
+        setIsPlaying(false);
       }
     } else {
       setIsPlaying(false);
     }
   };
 
+  const previousStep = () => {
+    setIsPlaying(false);
+    setCurrentStepIndex(Math.max(0, currentStepIndex - 1));
+  };
+
+  // Run to the next breakpoint, or to the end when there is none
+  const continueToBreakpoint = () => {
+    setIsPlaying(false);
+    setCurrentStepIndex(nextBreakpointIndex(steps, currentStepIndex, breakpoints));
+  };
+
+  const reverseToBreakpoint = () => {
+    setIsPlaying(false);
+    setCurrentStepIndex(previousBreakpointIndex(steps, currentStepIndex, breakpoints));
+  };
+
+  const toggleBreakpoint = (line: number) => {
+    setBreakpoints(prev => {
+      const next = new Set(prev);
+      if (next.has(line)) {
+        next.delete(line);
+      } else {
+        next.add(line);
+      }
+      return next;
+    });
+  };
+
+  const addWatch = () => {
+    const expression = newWatch.trim();
+    if (!expression) return;
+    setWatches(prev => (prev.includes(expression) ? prev : [...prev, expression]));
+    setNewWatch('');
+  };
+
   // Reset to beginning
   const resetDebugger = () => {
     setCurrentStepIndex(0);
     setIsPlaying(false);
-    setConsoleOutput([]);
   };
 
   // Auto-advance when playing
@@ -91,17 +200,34 @@ const CodeDebugger = ({ code, language, steps, title = "Code Debugging" }: CodeD
         activeLine.scrollIntoView({ behavior: 'smooth', block: 'center' });
       }
     }
-  }, [currentStepIndex]);
+  }, [currentStepIndex, liveErrorLine]);
 
-  // Initialize with first step's output if available
-  useEffect(() => {
-    if (steps[0]?.output) {
-      setConsoleOutput([steps[0].output]);
+  // Run the pattern class in Pyodide, streaming its output into the console tab
+  const runLive = async () => {
+    setIsPlaying(false);
+    setLiveMode(true);
+    setActiveTab('console');
+    setLiveOutput([]);
+    setLiveResult(null);
+    setLiveState('running');
+    const result = await runPython(pythonSource, {}, {
+      onLoading: () => setLiveState('loading'),
+      onStarted: () => setLiveState('running'),
+      onOutput: chunk => setLiveOutput(prev => [...prev, chunk])
+    });
+    if (result.traceback) {
+      setLiveOutput(prev => [...prev, { stream: 'stderr', text: result.traceback }]);
+    } else if (result.status !== 'success') {
+      setLiveOutput(prev => [...prev, { stream: 'stderr', text: result.error }]);
     }
-  }, []);
+    setLiveResult(result);
+    setLiveState('done');
+  };
 
   // Calculate progress percentage
-  const progressPercentage = (currentStepIndex + 1) / steps.length * 100;
+  const progressPercentage = showLive
+    ? (liveState === 'done' ? 100 : 0)
+    : (currentStepIndex + 1) / steps.length * 100;
 
   return (
     <div className="border rounded-md overflow-hidden">
@@ -134,49 +260,127 @@ const CodeDebugger = ({ code, language, steps, title = "Code Debugging" }: CodeD
               size="sm"
               variant="outline"
               onClick={togglePlay}
+              disabled={showLive}
               className="flex items-center gap-1"
             >
               {isPlaying ? <Pause size={14} /> : <Play size={14} />}
               {isPlaying ? 'Pause' : 'Run'}
             </Button>
             
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={previousStep}
+              disabled={showLive || currentStepIndex === 0}
+              className="flex items-center gap-1"
+              title="Step back"
+            >
+              <ArrowLeft size={14} />
+              Back
+            </Button>
+
             <Button
               size="sm"
               variant="ghost"
               onClick={nextStep}
-              disabled={isPlaying || currentStepIndex >= steps.length - 1}
+              disabled={showLive || isPlaying || currentStepIndex >= steps.length - 1}
               className="flex items-center gap-1"
             >
               <ArrowRight size={14} />
               Step
             </Button>
+
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={reverseToBreakpoint}
+              disabled={showLive || currentStepIndex === 0}
+              className="flex items-center gap-1"
+              title="Back to the previous breakpoint"
+            >
+              <Rewind size={14} />
+            </Button>
+
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={continueToBreakpoint}
+              disabled={showLive || currentStepIndex >= steps.length - 1}
+              className="flex items-center gap-1"
+              title="Run to the next breakpoint"
+            >
+              <FastForward size={14} />
+              Continue
+            </Button>
             
             <Button
               size="sm"
               variant="ghost"
               onClick={resetDebugger}
-              disabled={currentStepIndex === 0 && consoleOutput.length === 0}
+              disabled={showLive || currentStepIndex === 0}
               className="flex items-center gap-1"
             >
               <ArrowsClockwise size={14} />
               Reset
             </Button>
+
+            {canRunLive && (
+              <Button
+                size="sm"
+                variant={showLive ? 'default' : 'outline'}
+                onClick={runLive}
+                disabled={isLiveRunning}
+                className="flex items-center gap-1"
+              >
+                {isLiveRunning ? <CircleNotch size={14} className="animate-spin" /> : <Terminal size={14} />}
+                {isLiveRunning ? 'Running...' : 'Run in Pyodide'}
+              </Button>
+            )}
+
+            {showLive && steps.length > 0 && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setLiveMode(false)}
+                disabled={isLiveRunning}
+                className="flex items-center gap-1"
+              >
+                <ArrowUUpLeft size={14} />
+                Walkthrough
+              </Button>
+            )}
           </div>
           
           <div className="text-xs text-muted-foreground">
-            Step {currentStepIndex + 1} of {steps.length}
+            {showLive
+              ? (liveResult ? `Pyodide · ${liveResult.status}` : 'Pyodide')
+              : `Step ${currentStepIndex + 1} of ${steps.length}`}
           </div>
         </div>
         
-        {/* Progress bar */}
-        <div className="mt-3 h-1 bg-muted-foreground/10 rounded-full overflow-hidden">
-          <motion.div
-            className="h-full bg-primary"
-            initial={{ width: 0 }}
-            animate={{ width: `${progressPercentage}%` }}
-            transition={{ duration: 0.3 }}
+        {/* Progress bar, or a timeline to jump to any step of the walkthrough */}
+        {showLive || steps.length < 2 ? (
+          <div className="mt-3 h-1 bg-muted-foreground/10 rounded-full overflow-hidden">
+            <motion.div
+              className="h-full bg-primary"
+              initial={{ width: 0 }}
+              animate={{ width: `${progressPercentage}%` }}
+              transition={{ duration: 0.3 }}
+            />
+          </div>
+        ) : (
+          <Slider
+            value={[currentStepIndex]}
+            min={0}
+            max={steps.length - 1}
+            step={1}
+            onValueChange={(values) => {
+              setIsPlaying(false);
+              setCurrentStepIndex(values[0]);
+            }}
+            className="mt-3"
           />
-        </div>
+        )}
       </div>
       
       {/* Main content */}
@@ -188,21 +392,36 @@ const CodeDebugger = ({ code, language, steps, title = "Code Debugging" }: CodeD
             className="h-[400px] overflow-auto p-4 font-mono text-sm"
           >
             {codeLines.map((line, idx) => {
-              const isActiveLine = currentStep?.lineNumbers.includes(idx);
+              const isErrorLine = liveErrorLine === idx;
+              const isActiveLine = showLive ? isErrorLine : currentStep?.lineNumbers.includes(idx);
+              const hasBreakpoint = !showLive && breakpoints.has(idx);
               
               return (
                 <div
                   key={idx}
                   ref={isActiveLine ? activeLineRef : null}
                   className={`flex px-2 py-0.5 rounded ${
-                    isActiveLine
+                    isErrorLine
+                      ? 'bg-destructive/10 border-l-2 border-destructive'
+                      : isActiveLine
                       ? 'bg-primary/10 border-l-2 border-primary'
                       : ''
                   }`}
                 >
-                  <div className="w-8 text-muted-foreground text-right mr-4">
+                  <button
+                    type="button"
+                    onClick={() => toggleBreakpoint(idx)}
+                    disabled={showLive}
+                    title={hasBreakpoint ? 'Remove breakpoint' : 'Add breakpoint'}
+                    className="group flex items-center justify-end gap-1 w-12 text-muted-foreground text-right mr-4 disabled:cursor-default"
+                  >
+                    <span
+                      className={`w-2 h-2 rounded-full ${
+                        hasBreakpoint ? 'bg-red-500' : showLive ? '' : 'group-hover:bg-red-500/40'
+                      }`}
+                    />
                     {idx + 1}
-                  </div>
+                  </button>
                   <div className="flex-1">
                     <pre className="whitespace-pre-wrap break-all">{line || ' '}</pre>
                   </div>
@@ -218,33 +437,51 @@ const CodeDebugger = ({ code, language, steps, title = "Code Debugging" }: CodeD
           <div className="p-4 border-b">
             <AnimatePresence mode="wait">
               <motion.div
-                key={currentStepIndex}
+                key={showLive ? `live-${liveState}` : currentStepIndex}
                 initial={{ opacity: 0, y: 5 }}
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -5 }}
                 transition={{ duration: 0.2 }}
                 className="mb-2"
               >
-                <h4 className="text-sm font-medium mb-1">Current Operation:</h4>
-                <p>{currentStep?.explanation}</p>
+                <h4 className="text-sm font-medium mb-1">{showLive ? 'Pyodide Run:' : 'Current Operation:'}</h4>
+                <p className={liveErrorLine !== undefined ? 'text-destructive' : ''}>
+                  {showLive ? liveStatusText(liveState, liveResult) : currentStep?.explanation}
+                </p>
               </motion.div>
             </AnimatePresence>
           </div>
           
           {/* Console and variables tabs */}
-          <Tabs defaultValue="console" value={activeTab} onValueChange={(v) => setActiveTab(v as 'console' | 'variables')}>
-            <TabsList className="grid grid-cols-2 w-full rounded-none border-b">
+          <Tabs defaultValue="console" value={activeTab} onValueChange={(v) => setActiveTab(v as DebugTab)}>
+            <TabsList className="grid grid-cols-4 w-full rounded-none border-b">
               <TabsTrigger value="console" className="flex items-center gap-1">
                 <Terminal size={14} /> Console
               </TabsTrigger>
               <TabsTrigger value="variables" className="flex items-center gap-1">
                 <Bug size={14} /> Variables
               </TabsTrigger>
+              <TabsTrigger value="watch" disabled={showLive} className="flex items-center gap-1">
+                <Eye size={14} /> Watch
+              </TabsTrigger>
+              <TabsTrigger value="stack" disabled={showLive} className="flex items-center gap-1">
+                <Stack size={14} /> Call stack
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="console" className="p-0 border-none m-0">
               <div className="h-[204px] bg-black text-green-400 font-mono p-4 overflow-auto">
-                {consoleOutput.length === 0 ? (
+                {showLive ? (
+                  liveOutput.length === 0 ? (
+                    <div className="text-gray-500"># Python output will appear here</div>
+                  ) : (
+                    liveOutput.map((chunk, idx) => (
+                      <pre key={idx} className={`whitespace-pre-wrap break-all ${outputClassName(chunk.stream)}`}>
+                        {chunk.text}
+                      </pre>
+                    ))
+                  )
+                ) : consoleOutput.length === 0 ? (
                   <div className="text-gray-500">// Console output will appear here</div>
                 ) : (
                   consoleOutput.map((output, idx) => (
@@ -267,15 +504,28 @@ const CodeDebugger = ({ code, language, steps, title = "Code Debugging" }: CodeD
             
             <TabsContent value="variables" className="p-0 border-none m-0">
               <div className="h-[204px] p-4 overflow-auto">
-                {currentStep?.variables && Object.keys(currentStep.variables).length > 0 ? (
+                {showLive ? (
+                  liveResult?.returnValue ? (
+                    <div className="bg-card border rounded-md p-2">
+                      <span className="text-primary font-medium">Returned:</span>
+                      <pre className="text-sm font-mono whitespace-pre-wrap break-all mt-1">{liveResult.returnValue}</pre>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-center h-full text-muted-foreground">
+                      The returned value appears here after a successful run
+                    </div>
+                  )
+                ) : Object.keys(variables).length > 0 ? (
                   <div className="space-y-3">
-                    {Object.entries(currentStep.variables).map(([key, value], idx) => (
+                    {Object.entries(variables).map(([key, value], idx) => (
                       <motion.div
                         key={key}
                         initial={{ opacity: 0, y: 5 }}
                         animate={{ opacity: 1, y: 0 }}
                         transition={{ delay: idx * 0.05 }}
-                        className="bg-card border rounded-md p-2"
+                        className={`bg-card border rounded-md p-2 ${
+                          currentStep && key in currentStep.variables ? 'border-primary' : ''
+                        }`}
                       >
                         <div className="flex items-start">
                           <span className="text-primary font-medium mr-2">{key}:</span>
@@ -295,6 +545,84 @@ const CodeDebugger = ({ code, language, steps, title = "Code Debugging" }: CodeD
                 )}
               </div>
             </TabsContent>
+
+            <TabsContent value="watch" className="p-0 border-none m-0">
+              <div className="h-[204px] p-4 overflow-auto space-y-3">
+                <form
+                  className="flex gap-2"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    addWatch();
+                  }}
+                >
+                  <Input
+                    value={newWatch}
+                    onChange={(event) => setNewWatch(event.target.value)}
+                    placeholder="e.g. contextHistory.length"
+                    className="h-8 font-mono text-sm"
+                  />
+                  <Button type="submit" size="sm" variant="outline" disabled={!newWatch.trim()} className="flex items-center gap-1">
+                    <Plus size={14} /> Add
+                  </Button>
+                </form>
+                {watches.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">
+                    Watch a variable, a property path or len(x) as you step through the code
+                  </div>
+                ) : (
+                  watches.map(expression => {
+                    const result = evaluateWatch(expression, variables);
+                    return (
+                      <div key={expression} className="flex items-start gap-2 bg-card border rounded-md p-2">
+                        <div className="flex-1 min-w-0">
+                          <span className="text-primary font-medium font-mono mr-2">{expression}:</span>
+                          <code className={`text-sm font-mono break-all ${result.error ? 'text-muted-foreground italic' : ''}`}>
+                            {result.error ?? result.value}
+                          </code>
+                        </div>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-6 w-6"
+                          onClick={() => setWatches(prev => prev.filter(watch => watch !== expression))}
+                          title="Remove watch"
+                        >
+                          <X size={12} />
+                        </Button>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="stack" className="p-0 border-none m-0">
+              <div className="h-[204px] p-4 overflow-auto">
+                {callStack.frames.length === 0 ? (
+                  <div className="flex items-center justify-center h-full text-muted-foreground">
+                    This step runs at the top level
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {[...callStack.frames].reverse().map((frame, idx) => (
+                      <div
+                        key={`${frame}-${idx}`}
+                        className={`font-mono text-sm border rounded-md px-2 py-1 ${
+                          idx === 0 ? 'border-primary bg-primary/5' : 'bg-card'
+                        }`}
+                      >
+                        {frame}
+                      </div>
+                    ))}
+                    {callStack.inferred && (
+                      <p className="text-xs text-muted-foreground">
+                        Inferred from the function the step runs in and the calls on its lines
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -11,31 +11,48 @@ import PatternSecurityControls from './PatternSecurityControls'
 import CodeBlock from '@/components/ui/CodeBlock'
 import { Button } from '@/components/ui/button'
 import { pythonPatterns } from '@/lib/pythonPatterns'
+import { lookupByPatternId } from '@/lib/data/patternRegistry'
 import CodeStepVisualizer from './CodeStepVisualizer'
 import EnhancedCodeVisualizer from './EnhancedCodeVisualizer'
 import AlgorithmVisualizer from './AlgorithmVisualizer'
 import CodeDebugger from './CodeDebugger'
+import CodePracticeEditor from './CodePracticeEditor'
 import { getCodeExecutionSteps } from '@/lib/utils/codeExecutionSteps'
 import InteractiveCodeExecution from './InteractiveCodeExecution'
+import SandboxRunner from './SandboxRunner'
 import { getCodeExecutionExample } from '@/lib/data/codeExamples'
-import { getAlgorithmVisualization, AlgorithmVisualizationData } from '@/lib/utils/algorithmVisualization'
+import { getAlgorithmVisualization, AlgorithmVisualizationData, patternAlgorithmIds } from '@/lib/utils/algorithmVisualization'
 import { getDebugExample } from '@/lib/utils/codeDebugExamples'
 import { useSidebarCollapse } from '@/hooks/use-sidebar-collapse'
 import { cn } from '@/lib/utils'
 import { EnhancedTutorialButton, pagesSynopsis } from '../tutorial/EnhancedTutorialButton'
 import { useTutorialContext } from '../tutorial/TutorialProvider'
 import { codePlaybookTutorial } from '@/lib/tutorial'
+import { useUrlState, URL_PARAMS, parseStepParam } from '@/lib/hooks/useUrlState'
 
 interface CodePlaybookProps {
   patternData: PatternData
 }
 
+type PlaybookLanguage = 'python' | 'typescript'
+
 const CodePlaybook = ({ patternData }: CodePlaybookProps) => {
-  const [currentStep, setCurrentStep] = useState(0)
-  const [language, setLanguage] = useState<'python' | 'typescript'>('python')
+  // Tab, language and step are kept in the URL so a copied link reopens the same view
+  const { params, update } = useUrlState()
+  const activeTab = params.get(URL_PARAMS.tab) ?? 'general'
+  const language: PlaybookLanguage = params.get(URL_PARAMS.lang) === 'typescript' ? 'typescript' : 'python'
+  const urlStep = parseStepParam(params.get(URL_PARAMS.step))
+  const currentStep = activeTab === 'steps' ? urlStep ?? 0 : 0
   const [visualizationMode, setVisualizationMode] = useState<'static' | 'interactive'>('static')
+  const [codeMode, setCodeMode] = useState<'read' | 'practice'>('read')
   const { isCollapsed } = useSidebarCollapse();
   
+  // Steps differ per language, so switching language starts from the first one
+  const setLanguage = (next: PlaybookLanguage) =>
+    update({ [URL_PARAMS.lang]: next === 'python' ? null : next, [URL_PARAMS.step]: null })
+  
+  const setCurrentStep = (step: number) => update({ [URL_PARAMS.step]: step > 0 ? step + 1 : null })
+  
   const { startTutorial, registerTutorial, hasCompletedTutorial } = useTutorialContext();
   
   // Register the code playbook tutorial
@@ -80,11 +97,19 @@ const CodePlaybook = ({ patternData }: CodePlaybookProps) => {
     };
   }, [isCollapsed]);
   
+  // The canonical implementation for the current language, if there is one
+  const getReferenceCode = (): string | undefined => {
+    if (language === 'python') {
+      return lookupByPatternId(pythonPatterns, patternData.id) || patternData.pythonCodeExample || undefined
+    }
+    return patternData.codeExample || undefined
+  }
+
   const getCodeExample = () => {
     if (language === 'python') {
-      return (pythonPatterns[patternData.id] || patternData.pythonCodeExample || "# Python implementation not available for this pattern")
+      return getReferenceCode() || "# Python implementation not available for this pattern"
     }
-    return patternData.codeExample || "// TypeScript implementation not available for this pattern"
+    return getReferenceCode() || "// TypeScript implementation not available for this pattern"
   }
   
   // Get execution steps for the current pattern and language if available
@@ -94,7 +119,10 @@ const CodePlaybook = ({ patternData }: CodePlaybookProps) => {
   const interactiveExecution = getCodeExecutionExample(patternData.id, language)
   
   // Get algorithm visualization steps if available
-  const algorithmVisData: AlgorithmVisualizationData | null = getAlgorithmVisualization(patternData.id, patternData.id)
+  const algorithmVisData: AlgorithmVisualizationData | null = getAlgorithmVisualization(
+    lookupByPatternId(patternAlgorithmIds, patternData.id) ?? patternData.id,
+    patternData.id
+  )
   
   // Get debug example if available
   const debugExample = getDebugExample(patternData.id, language)
@@ -145,7 +173,12 @@ const CodePlaybook = ({ patternData }: CodePlaybookProps) => {
           </CardDescription>
         </CardHeader>
         <CardContent className="p-4 sm:p-6">
-          <Tabs defaultValue="general" className="w-full" data-section="code-playbook">
+          <Tabs
+            value={activeTab}
+            onValueChange={(value) => update({ [URL_PARAMS.tab]: value, [URL_PARAMS.step]: null }, { push: true })}
+            className="w-full"
+            data-section="code-playbook"
+          >
             <div className="overflow-x-auto pb-2 w-full">
               <TabsList className="flex w-full flex-nowrap gap-0.5" role="tablist">
                 <TabsTrigger value="general" className="flex items-center gap-1 h-10 px-3 py-2 text-sm">
@@ -262,22 +295,58 @@ const CodePlaybook = ({ patternData }: CodePlaybookProps) => {
             <TabsContent value="code" className="py-4">
               <LanguageSelector />
               
-              <div className="relative">
-                <CodeBlock
+              {getReferenceCode() && (
+                <div className="flex items-center mb-4 space-x-2 justify-between sm:justify-end">
+                  <span className="text-sm text-muted-foreground">Mode:</span>
+                  <div className="space-x-1">
+                    <Button
+                      size="sm"
+                      variant={codeMode === 'read' ? 'default' : 'outline'}
+                      onClick={() => setCodeMode('read')}
+                      className="px-2 sm:px-3"
+                    >
+                      Read
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={codeMode === 'practice' ? 'default' : 'outline'}
+                      onClick={() => setCodeMode('practice')}
+                      className="px-2 sm:px-3"
+                    >
+                      Practice
+                    </Button>
+                  </div>
+                </div>
+              )}
+              
+              {codeMode === 'practice' && getReferenceCode() ? (
+                <CodePracticeEditor
+                  key={`${patternData.id}-${language}`}
+                  patternId={patternData.id}
+                  patternName={patternData.name}
                   language={language}
-                  customStyle={{
-                    marginBottom: '1rem',
-                    maxHeight: '500px',
-                    overflow: 'auto'
-                  }}
-                >
-                  {getCodeExample()}
-                </CodeBlock>
-              </div>
+                  reference={getReferenceCode()}
+                />
+              ) : (
+                <div className="relative">
+                  <CodeBlock
+                    language={language}
+                    customStyle={{
+                      marginBottom: '1rem',
+                      maxHeight: '500px',
+                      overflow: 'auto'
+                    }}
+                  >
+                    {getCodeExample()}
+                  </CodeBlock>
+                </div>
+              )}
               
               <Alert className="mt-6">
                 <AlertDescription>
-                  This code demonstrates a basic implementation of the pattern. You may need to adapt it to your specific use case.
+                  {codeMode === 'practice'
+                    ? `Edit the ${patternData.name} implementation, compare it with the reference and save your variants to practise the pattern.`
+                    : 'This code demonstrates a basic implementation of the pattern. You may need to adapt it to your specific use case.'}
                 </AlertDescription>
               </Alert>
             </TabsContent>
@@ -285,8 +354,34 @@ const CodePlaybook = ({ patternData }: CodePlaybookProps) => {
             <TabsContent value="visualizer" className="py-4">
               <LanguageSelector />
               
+              {language === 'typescript' && patternData.codeExample && (
+                <div className="flex items-center mb-4 space-x-2 justify-between sm:justify-end">
+                  <span className="text-sm text-muted-foreground">Mode:</span>
+                  <div className="space-x-1">
+                    <Button
+                      size="sm"
+                      variant={visualizationMode === 'static' ? 'default' : 'outline'}
+                      onClick={() => setVisualizationMode('static')}
+                      className="px-2 sm:px-3"
+                    >
+                      Walkthrough
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={visualizationMode === 'interactive' ? 'default' : 'outline'}
+                      onClick={() => setVisualizationMode('interactive')}
+                      className="px-2 sm:px-3"
+                    >
+                      Run the code
+                    </Button>
+                  </div>
+                </div>
+              )}
+              
               <div data-section="visualizer">
-                {executionSteps ? (
+                {language === 'typescript' && patternData.codeExample && visualizationMode === 'interactive' ? (
+                  <SandboxRunner code={patternData.codeExample} patternName={patternData.name} />
+                ) : executionSteps ? (
                   <EnhancedCodeVisualizer 
                     code={getCodeExample()} 
                     language={language}
@@ -299,6 +394,14 @@ const CodePlaybook = ({ patternData }: CodePlaybookProps) => {
                     description={interactiveExecution.description}
                     showConsole={true}
                   />
+                ) : getReferenceCode() ? (
+                  // No hand-written walkthrough: steps are extracted from the source
+                  <EnhancedCodeVisualizer
+                    key={`${patternData.id}-${language}`}
+                    code={getReferenceCode()}
+                    language={language}
+                    title={`${patternData.name} Pattern Execution`}
+                  />
                 ) : (
                   <div className="border rounded-md p-6 text-center text-muted-foreground">
                     <FileCode size={32} className="mx-auto mb-2" />
@@ -375,12 +478,18 @@ const CodePlaybook = ({ patternData }: CodePlaybookProps) => {
               
               {(() => {
                 const debugExample = getDebugExample(patternData.id, language);
-                return debugExample ? (
+                // Python classes without a recorded walkthrough can still be run in Pyodide
+                const pythonSource = language === 'python' ? lookupByPatternId(pythonPatterns, patternData.id) : undefined;
+                return debugExample || pythonSource ? (
                   <CodeDebugger
-                    code={debugExample.code}
+                    key={`${patternData.id}-${language}`}
+                    code={debugExample?.code ?? pythonSource}
                     language={language}
-                    steps={debugExample.steps}
+                    steps={debugExample?.steps ?? []}
                     title={`${patternData.name} Pattern Debug Mode`}
+                    pythonSource={pythonSource}
+                    initialStepIndex={activeTab === 'debugger' ? urlStep : undefined}
+                    onStepChange={setCurrentStep}
                   />
                 ) : (
                   <div className="border rounded-md p-6 text-center text-muted-foreground">
@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from 'react';
+import CodeMirror from '@uiw/react-codemirror';
+import CodeMirrorMerge from 'react-codemirror-merge';
+import { EditorView } from '@codemirror/view';
+import { EditorState } from '@codemirror/state';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowCounterClockwise, FloppyDisk, Copy, Trash, GitDiff, CheckCircle, WarningCircle } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { useTheme } from '@/components/theme/ThemeProvider';
+import { checkSyntax, languageExtension, syntaxLinter, SyntaxIssue } from '@/lib/codeEditor';
+import {
+  CodeVariant,
+  CodeVariantLanguage,
+  createVariantId,
+  loadCodeVariants,
+  nextVariantName,
+  saveCodeVariants,
+  upsertVariant,
+  variantsFor
+} from '@/lib/data/codeVariants';
+
+interface CodePracticeEditorProps {
+  patternId: string;
+  patternName: string;
+  language: CodeVariantLanguage;
+  // The canonical implementation the edits start from and are compared against
+  reference: string;
+}
+
+const REFERENCE_OPTION = 'reference';
+const SYNTAX_CHECK_DELAY_MS = 400;
+const EDITOR_HEIGHT = '500px';
+
+/**
+ * Editable copy of a pattern's code example with syntax checking, a diff against the
+ * reference and named variants saved in this browser
+ */
+const CodePracticeEditor = ({ patternId, patternName, language, reference }: CodePracticeEditorProps) => {
+  const { isDarkMode } = useTheme();
+  const [variants, setVariants] = useState<CodeVariant[]>(loadCodeVariants);
+  // null while editing an unsaved copy of the reference
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [code, setCode] = useState(reference);
+  const [name, setName] = useState('');
+  const [showDiff, setShowDiff] = useState(false);
+  const [issues, setIssues] = useState<SyntaxIssue[] | null>(null);
+
+  const patternVariants = useMemo(() => variantsFor(variants, patternId, language), [variants, patternId, language]);
+  const activeVariant = patternVariants.find(variant => variant.id === activeId);
+  const savedCode = activeVariant?.code ?? reference;
+  const isDirty = code !== savedCode || (activeVariant !== undefined && name !== activeVariant.name);
+  const matchesReference = code === reference;
+
+  const extensions = useMemo(() => [languageExtension(language), ...syntaxLinter(language)], [language]);
+  const readOnlyExtensions = useMemo(
+    () => [languageExtension(language), EditorView.editable.of(false), EditorState.readOnly.of(true)],
+    [language]
+  );
+  const theme = isDarkMode ? 'dark' : 'light';
+
+  useEffect(() => {
+    let cancelled = false;
+    setIssues(null);
+    const timer = setTimeout(() => {
+      checkSyntax(code, language)
+        .then(found => {
+          if (!cancelled) setIssues(found);
+        })
+        .catch(error => console.warn('Syntax check failed:', error));
+    }, SYNTAX_CHECK_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, language]);
+
+  const persist = (next: CodeVariant[]) => {
+    setVariants(next);
+    saveCodeVariants(next);
+  };
+
+  const openVariant = (id: string) => {
+    const variant = patternVariants.find(item => item.id === id);
+    setActiveId(variant ? variant.id : null);
+    setCode(variant ? variant.code : reference);
+    setName(variant ? variant.name : '');
+  };
+
+  const saveVariant = (asNew: boolean) => {
+    const existing = asNew ? undefined : activeVariant;
+    const variantName = (asNew ? '' : name.trim()) || nextVariantName(patternVariants);
+    const variant: CodeVariant = {
+      id: existing?.id ?? createVariantId(),
+      patternId,
+      language,
+      name: variantName,
+      code,
+      updatedAt: new Date().toISOString()
+    };
+    persist(upsertVariant(variants, variant));
+    setActiveId(variant.id);
+    setName(variant.name);
+    toast.success(`Saved "${variant.name}" to this browser`);
+  };
+
+  const deleteVariant = () => {
+    if (!activeVariant) return;
+    persist(variants.filter(variant => variant.id !== activeVariant.id));
+    openVariant(REFERENCE_OPTION);
+    toast.success(`Deleted "${activeVariant.name}"`);
+  };
+
+  const resetToReference = () => {
+    setCode(reference);
+    if (activeVariant) toast.info('Reset to the reference implementation; save to keep the change');
+  };
+
+  const syntaxStatus = issues === null ? (
+    <span className="text-xs text-muted-foreground">Checking syntax...</span>
+  ) : issues.length === 0 ? (
+    <span className="text-xs text-green-600 dark:text-green-400 flex items-center gap-1">
+      <CheckCircle size={14} /> No syntax errors
+    </span>
+  ) : (
+    <span className="text-xs text-destructive flex items-center gap-1">
+      <WarningCircle size={14} />
+      {issues.length} syntax {issues.length === 1 ? 'error' : 'errors'}, first on line {issues[0].line + 1}: {issues[0].message}
+    </span>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={activeId ?? REFERENCE_OPTION} onValueChange={openVariant}>
+          <SelectTrigger className="w-[220px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={REFERENCE_OPTION}>New copy of the reference</SelectItem>
+            {patternVariants.map(variant => (
+              <SelectItem key={variant.id} value={variant.id}>{variant.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={name}
+          onChange={event => setName(event.target.value)}
+          placeholder={activeVariant ? 'Variant name' : nextVariantName(patternVariants)}
+          className="w-[180px] h-8"
+          aria-label="Variant name"
+        />
+        <Button size="sm" onClick={() => saveVariant(false)} disabled={!isDirty && activeVariant !== undefined} className="flex items-center gap-1">
+          <FloppyDisk size={14} /> Save
+        </Button>
+        {activeVariant && (
+          <>
+            <Button size="sm" variant="outline" onClick={() => saveVariant(true)} className="flex items-center gap-1">
+              <Copy size={14} /> Save as new
+            </Button>
+            <Button size="sm" variant="ghost" onClick={deleteVariant} className="flex items-center gap-1">
+              <Trash size={14} /> Delete
+            </Button>
+          </>
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          <Button size="sm" variant="outline" onClick={resetToReference} disabled={matchesReference} className="flex items-center gap-1">
+            <ArrowCounterClockwise size={14} /> Reset to reference
+          </Button>
+          <Button
+            size="sm"
+            variant={showDiff ? 'default' : 'outline'}
+            onClick={() => setShowDiff(!showDiff)}
+            className="flex items-center gap-1"
+          >
+            <GitDiff size={14} /> Diff
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {syntaxStatus}
+        {isDirty && <Badge variant="outline" className="text-xs">Unsaved changes</Badge>}
+        {!matchesReference && !isDirty && <Badge variant="secondary" className="text-xs">Differs from the reference</Badge>}
+      </div>
+
+      <div className="border rounded-md overflow-hidden text-sm">
+        {showDiff ? (
+          <>
+            <div className="grid grid-cols-2 text-xs text-muted-foreground bg-muted border-b">
+              <span className="px-3 py-1">Reference {patternName} implementation</span>
+              <span className="px-3 py-1 border-l">{activeVariant?.name ?? 'Your copy'}</span>
+            </div>
+            <CodeMirrorMerge theme={theme} orientation="a-b" style={{ maxHeight: EDITOR_HEIGHT, overflow: 'auto' }}>
+              <CodeMirrorMerge.Original value={reference} extensions={readOnlyExtensions} />
+              <CodeMirrorMerge.Modified value={code} extensions={extensions} onChange={setCode} />
+            </CodeMirrorMerge>
+          </>
+        ) : (
+          <CodeMirror value={code} height={EDITOR_HEIGHT} theme={theme} extensions={extensions} onChange={setCode} />
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Variants are saved in this browser only. The check covers syntax; imports such as the LLM SDK aren't resolved.
+      </p>
+    </div>
+  );
+};
+
+export default CodePracticeEditor;
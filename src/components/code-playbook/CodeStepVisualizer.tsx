@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Play, Pause, ArrowRight, ArrowsClockwise } from '@phosphor-icons/react';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
+import { useExtractedSteps } from '@/lib/hooks/useExtractedSteps';
 
 interface CodeStepVisualizerProps {
   code: string;
@@ -27,12 +28,14 @@ const CodeStepVisualizer = ({ code, language, steps }: CodeStepVisualizerProps)
   const containerRef = useRef<HTMLDivElement>(null);
   const activeLineRef = useRef<HTMLDivElement>(null);
 
-  // If no steps are provided, generate basic ones based on line count
-  const executionSteps = steps || codeLines.map((_, index) => ({
-    lineStart: index,
-    lineEnd: index,
-    description: `Line ${index + 1} execution`,
-  }));
+  // If no steps are provided, derive them from the source
+  const { steps: executionSteps } = useExtractedSteps(code, language, steps);
+
+  // Extracted steps replace the per-line placeholder once ready, so start over
+  useEffect(() => {
+    setCurrentStep(-1);
+    setIsPlaying(false);
+  }, [executionSteps]);
 
   const togglePlay = () => {
     setIsPlaying(!isPlaying);
@@ -8,6 +8,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { CodeExecutionStep } from './CodeStepVisualizer';
+import { useExtractedSteps } from '@/lib/hooks/useExtractedSteps';
 
 interface EnhancedCodeVisualizerProps {
   code: string;
@@ -34,12 +35,15 @@ const EnhancedCodeVisualizer = ({ code, language, steps, title = "Code Execution
   const containerRef = useRef<HTMLDivElement>(null);
   const activeLineRef = useRef<HTMLDivElement>(null);
 
-  // If no steps are provided, generate basic ones based on line count
-  const executionSteps = steps || codeLines.map((_, index) => ({
-    lineStart: index,
-    lineEnd: index,
-    description: `Line ${index + 1} execution`,
-  }));
+  // If no steps are provided, derive them from the source
+  const { steps: executionSteps, isExtracted } = useExtractedSteps(code, language, steps);
+
+  // Extracted steps replace the per-line placeholder once ready, so start over
+  useEffect(() => {
+    setCurrentStep(-1);
+    setIsPlaying(false);
+    setExecutionHistory([]);
+  }, [executionSteps]);
 
   // Toggle play/pause state
   const togglePlay = () => {
@@ -219,7 +223,10 @@ const EnhancedCodeVisualizer = ({ code, language, steps, title = "Code Execution
       <div className="p-3 bg-muted border-b">
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
           <div>
-            <h3 className="font-medium">{title}</h3>
+            <h3 className="font-medium flex items-center gap-2">
+              {title}
+              {isExtracted && <Badge variant="outline" className="text-xs font-normal">Steps generated from the source</Badge>}
+            </h3>
             {activeStep && (
               <div className="text-xs text-muted-foreground">
                 Step {currentStep + 1} of {executionSteps.length}
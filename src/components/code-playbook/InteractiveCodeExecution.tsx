@@ -11,7 +11,7 @@ interface InteractiveCodeExecutionProps {
   showConsole?: boolean;
 }
 
-interface ExecutionBlock {
+export interface ExecutionBlock {
   code: string;
   explanation: string;
   output?: string;
@@ -0,0 +1,156 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Play, CircleNotch, Terminal } from '@phosphor-icons/react';
+import CodeStepVisualizer from './CodeStepVisualizer';
+import InteractiveCodeExecution from './InteractiveCodeExecution';
+import {
+  runInSandbox,
+  toExecutionSteps,
+  toExecutionBlocks,
+  SandboxRunResult,
+  DEFAULT_SANDBOX_INPUT
+} from '@/lib/sandbox';
+
+interface SandboxRunnerProps {
+  code: string;
+  patternName: string;
+}
+
+// Scripted llm() replies are separated by lines containing only ---
+const parseScriptedReplies = (text: string): string[] =>
+  text.split(/^\s*---\s*$/m).map(reply => reply.trim()).filter(Boolean);
+
+const statusVariant = (status: SandboxRunResult['status']) => (status === 'success' ? 'default' : 'destructive');
+
+/**
+ * Runs a pattern's TypeScript example in a Web Worker with mocked llm() and tools,
+ * then replays the recorded trace in the step visualizers
+ */
+const SandboxRunner = ({ code, patternName }: SandboxRunnerProps) => {
+  const [input, setInput] = useState(DEFAULT_SANDBOX_INPUT);
+  const [scriptedReplies, setScriptedReplies] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<SandboxRunResult | null>(null);
+  const [runCount, setRunCount] = useState(0);
+  const [view, setView] = useState<'lines' | 'snippets'>('lines');
+
+  const steps = useMemo(() => (result ? toExecutionSteps(result, code) : []), [result, code]);
+  const blocks = useMemo(() => (result ? toExecutionBlocks(result, code) : []), [result, code]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    const runResult = await runInSandbox(code, { input, llmResponses: parseScriptedReplies(scriptedReplies) });
+    setResult(runResult);
+    setRunCount(count => count + 1);
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-md p-4 space-y-3 bg-muted/30">
+        <div className="space-y-1">
+          <Label htmlFor="sandbox-input">Input passed to the example</Label>
+          <Input id="sandbox-input" value={input} onChange={event => setInput(event.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="sandbox-replies">Scripted llm() replies (optional, separate with a line of ---)</Label>
+          <Textarea
+            id="sandbox-replies"
+            value={scriptedReplies}
+            onChange={event => setScriptedReplies(event.target.value)}
+            placeholder="Leave empty to let the mock answer each prompt"
+            className="font-mono text-xs min-h-[72px]"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={handleRun} disabled={isRunning} className="flex items-center gap-1">
+            {isRunning ? <CircleNotch size={14} className="animate-spin" /> : <Play size={14} />}
+            {isRunning ? 'Running...' : 'Run in sandbox'}
+          </Button>
+          {result && (
+            <>
+              <Badge variant={statusVariant(result.status)}>{result.status}</Badge>
+              <span className="text-xs text-muted-foreground">
+                {result.entry && <>{result.entry}() · </>}
+                {result.trace.length} steps · {result.llmCalls.length} llm() calls · {result.durationMs} ms
+                {result.truncated && ' · stopped at the step limit'}
+              </span>
+            </>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The code runs in a Web Worker. llm(), tools, fetch and imports are mocked, so nothing leaves the browser.
+        </p>
+      </div>
+
+      {result?.error && (
+        <Alert variant="destructive">
+          <AlertDescription className="font-mono text-xs whitespace-pre-wrap">
+            {result.errorLine !== undefined && `Line ${result.errorLine + 1}: `}{result.error}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {result && steps.length > 0 && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">View:</span>
+            <Button size="sm" variant={view === 'lines' ? 'default' : 'outline'} onClick={() => setView('lines')}>
+              Source lines
+            </Button>
+            <Button size="sm" variant={view === 'snippets' ? 'default' : 'outline'} onClick={() => setView('snippets')}>
+              Snippets
+            </Button>
+          </div>
+          {view === 'lines' ? (
+            <CodeStepVisualizer key={runCount} code={code} language="typescript" steps={steps} />
+          ) : (
+            <InteractiveCodeExecution
+              key={runCount}
+              codeBlocks={blocks}
+              description={`Recorded run of the ${patternName} example`}
+              showConsole={true}
+            />
+          )}
+        </>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium flex items-center gap-1">
+            <Terminal size={14} /> Console
+          </h4>
+          <div className="bg-black text-green-400 font-mono text-xs p-4 rounded-md max-h-[220px] overflow-auto">
+            {result.logs.length === 0 ? (
+              <span className="text-gray-500">// No console output</span>
+            ) : (
+              result.logs.map((entry, index) => (
+                <div
+                  key={index}
+                  className={entry.level === 'error' ? 'text-red-400' : entry.level === 'warn' ? 'text-yellow-400' : entry.level === 'llm' ? 'text-sky-400' : ''}
+                >
+                  {entry.text}
+                </div>
+              ))
+            )}
+          </div>
+          {result.returnValue && (
+            <>
+              <h4 className="text-sm font-medium">Returned</h4>
+              <pre className="bg-muted p-3 rounded font-mono text-xs whitespace-pre-wrap max-h-[220px] overflow-auto">
+                {result.returnValue}
+              </pre>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SandboxRunner;
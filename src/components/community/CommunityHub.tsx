@@ -16,13 +16,19 @@ import {
   ThumbsUp
 } from '@phosphor-icons/react';
 import { PatternType } from '@/lib/data/patterns';
+import { resolvePatternId } from '@/lib/data/patternRegistry';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useKV } from '@github/spark/hooks';
 import { toast } from 'sonner';
+import { loadCommunityOutbox, saveCommunityOutbox } from '@/lib/data/communityOutbox';
+import { useOnlineStatus } from '@/lib/hooks/useOnlineStatus';
 
 export default function CommunityHub() {
   // Get the patterns from the KV store, with initial data from communityPatterns
   const [storedPatterns, setStoredPatterns, deleteStoredPatterns] = useKV<CommunityPattern[]>('community-patterns', communityPatterns);
+  // Submissions made offline wait here and are shared once the browser reconnects
+  const [outbox, setOutbox] = useState<CommunityPattern[]>(loadCommunityOutbox);
+  const isOnline = useOnlineStatus();
   
   const [view, setView] = useState<'list' | 'details' | 'form'>('list');
   const [selectedPattern, setSelectedPattern] = useState<CommunityPattern | null>(null);
@@ -30,6 +36,17 @@ export default function CommunityHub() {
   const [filterType, setFilterType] = useState<PatternType | 'all'>('all');
   const [sortMethod, setSortMethod] = useState<'newest' | 'popular'>('newest');
   
+  useEffect(() => {
+    if (!isOnline || outbox.length === 0) return;
+    setStoredPatterns(current => [
+      ...current,
+      ...outbox.filter(pattern => !current.some(existing => existing.id === pattern.id))
+    ]);
+    setOutbox([]);
+    saveCommunityOutbox([]);
+    toast.success(`Shared ${outbox.length} pattern${outbox.length === 1 ? '' : 's'} submitted while offline`);
+  }, [isOnline, outbox]);
+  
   const filteredPatterns = storedPatterns
     .filter(pattern => {
       // Filter by search term
@@ -40,7 +57,8 @@ export default function CommunityHub() {
       }
       
       // Filter by pattern type
-      if (filterType !== 'all' && pattern.patternType !== filterType) {
+      // Older submissions may still use short aliases such as "react"
+      if (filterType !== 'all' && resolvePatternId(pattern.patternType) !== filterType) {
         return false;
       }
       
@@ -70,6 +88,15 @@ export default function CommunityHub() {
       createdAt: new Date().toISOString().split('T')[0]
     };
     
+    if (!isOnline) {
+      const queued = [...outbox, newPattern];
+      setOutbox(queued);
+      saveCommunityOutbox(queued);
+      setView('list');
+      toast.info("You're offline. Your pattern will be shared when you reconnect.");
+      return;
+    }
+    
     // Add to the patterns list
     setStoredPatterns([...storedPatterns, newPattern]);
     setView('list');
@@ -97,6 +124,18 @@ export default function CommunityHub() {
       
       {view === 'list' && (
         <>
+          {outbox.length > 0 && (
+            <Alert>
+              <ClockCounterClockwise className="h-4 w-4" />
+              <AlertTitle>
+                {outbox.length} pattern{outbox.length === 1 ? '' : 's'} waiting to be shared
+              </AlertTitle>
+              <AlertDescription>
+                {outbox.map(pattern => pattern.title).join(', ')}. They will be shared automatically when you're back online.
+              </AlertDescription>
+            </Alert>
+          )}
+          
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="col-span-2">
               <div className="relative">
@@ -117,10 +156,10 @@ export default function CommunityHub() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="react">ReAct</SelectItem>
-                  <SelectItem value="codeact">CodeAct</SelectItem>
+                  <SelectItem value="react-agent">ReAct</SelectItem>
+                  <SelectItem value="codeact-agent">CodeAct</SelectItem>
                   <SelectItem value="reflexion">Reflexion</SelectItem>
-                  <SelectItem value="rag">RAG</SelectItem>
+                  <SelectItem value="agentic-rag">RAG</SelectItem>
                   <SelectItem value="plan-and-execute">Plan & Execute</SelectItem>
                   <SelectItem value="orchestrator-worker">Orchestrator</SelectItem>
                   <SelectItem value="evaluator-optimizer">Evaluator</SelectItem>
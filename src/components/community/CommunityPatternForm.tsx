@@ -16,10 +16,10 @@ interface CommunityPatternFormProps {
 }
 
 const patternTypes: PatternType[] = [
-  "react",
-  "codeact",
+  "react-agent",
+  "codeact-agent",
   "reflexion",
-  "rag",
+  "agentic-rag",
   "plan-and-execute",
   "orchestrator-worker",
   "evaluator-optimizer",
@@ -31,7 +31,7 @@ export default function CommunityPatternForm({ onSubmit, onCancel }: CommunityPa
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [author, setAuthor] = useState('');
-  const [patternType, setPatternType] = useState<PatternType>("react");
+  const [patternType, setPatternType] = useState<PatternType>("react-agent");
   const [codeSnippet, setCodeSnippet] = useState('');
   const [tagInput, setTagInput] = useState('');
   const [tags, setTags] = useState<string[]>([]);
@@ -2,57 +2,19 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { useTheme } from '@/components/theme/ThemeProvider';
 import { Play, Pause, ArrowClockwise, Gear } from '@phosphor-icons/react';
+import CommunicationDiagram, { CommunicationLegend, CommunicationMessage, CommunicationNode, messagePath } from './CommunicationDiagram';
 
-interface Message {
-  id: string;
-  from: string;
-  to: string;
-  content: string;
-  type: 'query' | 'response' | 'tool_call' | 'data' | 'protocol_handshake';
-  timestamp: number;
-  path: { x: number; y: number }[];
-}
-
-interface ComponentState {
-  id: string;
-  label: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  type: 'user' | 'agent' | 'mcp_server' | 'tool' | 'database' | 'api';
-  status: 'idle' | 'processing' | 'responding' | 'error';
-  description: string;
-}
+type Message = CommunicationMessage;
+type ComponentState = CommunicationNode;
 
 const AgentCommunicationPlayground: React.FC = () => {
-  const { theme } = useTheme();
-  const isDarkMode = theme === 'dark';
-  
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
   const [messages, setMessages] = useState<Message[]>([]);
   const [components, setComponents] = useState<ComponentState[]>([]);
   const [selectedScenario, setSelectedScenario] = useState<'mcp' | 'a2a' | 'acp'>('mcp');
 
-  const colors = {
-    background: isDarkMode ? '#1f2937' : '#ffffff',
-    border: isDarkMode ? '#374151' : '#d1d5db',
-    text: isDarkMode ? '#f9fafb' : '#111827',
-    primary: isDarkMode ? '#3b82f6' : '#2563eb',
-    secondary: isDarkMode ? '#6b7280' : '#6b7280',
-    accent: isDarkMode ? '#10b981' : '#059669',
-    user: isDarkMode ? '#8b5cf6' : '#7c3aed',
-    agent: isDarkMode ? '#06b6d4' : '#0891b2',
-    tool: isDarkMode ? '#f59e0b' : '#d97706',
-    data: isDarkMode ? '#ef4444' : '#dc2626',
-    success: isDarkMode ? '#22c55e' : '#16a34a',
-    warning: isDarkMode ? '#f59e0b' : '#d97706',
-    error: isDarkMode ? '#ef4444' : '#dc2626'
-  };
-
   // Define different scenarios based on your hand-drawn diagram
   const scenarios = {
     mcp: {
@@ -163,10 +125,7 @@ const AgentCommunicationPlayground: React.FC = () => {
         
         if (fromComponent && toComponent) {
           // Create message path
-          const path = [
-            { x: fromComponent.x + fromComponent.width / 2, y: fromComponent.y + fromComponent.height / 2 },
-            { x: toComponent.x + toComponent.width / 2, y: toComponent.y + toComponent.height / 2 }
-          ];
+          const path = messagePath(fromComponent, toComponent);
           
           const newMessage: Message = {
             id: `msg-${currentStep}`,
@@ -218,38 +177,6 @@ const AgentCommunicationPlayground: React.FC = () => {
     setComponents(prev => prev.map(comp => ({ ...comp, status: 'idle' })));
   };
 
-  const getStatusColor = (status: ComponentState['status']) => {
-    switch (status) {
-      case 'processing': return colors.warning;
-      case 'responding': return colors.success;
-      case 'error': return colors.error;
-      default: return colors.border;
-    }
-  };
-
-  const getTypeColor = (type: ComponentState['type']) => {
-    switch (type) {
-      case 'user': return colors.user;
-      case 'agent': return colors.agent;
-      case 'mcp_server': return colors.primary;
-      case 'tool': return colors.tool;
-      case 'database': return colors.data;
-      case 'api': return colors.accent;
-      default: return colors.secondary;
-    }
-  };
-
-  const getMessageColor = (type: Message['type']) => {
-    switch (type) {
-      case 'query': return colors.user;
-      case 'response': return colors.success;
-      case 'tool_call': return colors.tool;
-      case 'data': return colors.data;
-      case 'protocol_handshake': return colors.primary;
-      default: return colors.secondary;
-    }
-  };
-
   const currentScenario = scenarios[selectedScenario];
 
   return (
@@ -299,145 +226,7 @@ const AgentCommunicationPlayground: React.FC = () => {
           </div>
 
           {/* Main Visualization */}
-          <div className="w-full overflow-x-auto">
-            <svg
-              width="850"
-              height="480"
-              viewBox="0 0 850 480"
-              className="w-full h-auto border rounded-lg"
-              style={{ backgroundColor: colors.background }}
-            >
-              {/* Background grid */}
-              <defs>
-                <pattern id="grid" width="20" height="20" patternUnits="userSpaceOnUse">
-                  <path d="M 20 0 L 0 0 0 20" fill="none" stroke={colors.border} strokeWidth="0.5" opacity="0.3"/>
-                </pattern>
-              </defs>
-              <rect width="100%" height="100%" fill="url(#grid)" />
-
-              {/* Message paths */}
-              {messages.map((message, index) => {
-                // Calculate label position with offset to avoid overlapping
-                const centerX = (message.path[0].x + message.path[1].x) / 2;
-                const centerY = (message.path[0].y + message.path[1].y) / 2;
-                
-                // Check for overlapping messages and create offset
-                const overlappingMessages = messages.filter((m, i) => {
-                  if (i >= index) return false;
-                  const mCenterX = (m.path[0].x + m.path[1].x) / 2;
-                  const mCenterY = (m.path[0].y + m.path[1].y) / 2;
-                  const distance = Math.sqrt(Math.pow(mCenterX - centerX, 2) + Math.pow(mCenterY - centerY, 2));
-                  return distance < 80; // Messages within 80px are considered overlapping
-                });
-                
-                // Create alternating offsets (up and down) for better distribution
-                const offsetIndex = overlappingMessages.length;
-                const isEven = offsetIndex % 2 === 0;
-                const offsetDirection = isEven ? 1 : -1;
-                const offsetMagnitude = Math.ceil(offsetIndex / 2) * 18; // 18px offset per level
-                const yOffset = offsetDirection * offsetMagnitude;
-                const labelY = centerY - 5 + yOffset;
-                
-                return (
-                  <g key={message.id}>
-                    <line
-                      x1={message.path[0].x}
-                      y1={message.path[0].y}
-                      x2={message.path[1].x}
-                      y2={message.path[1].y}
-                      stroke={getMessageColor(message.type)}
-                      strokeWidth="2"
-                      strokeDasharray="5,5"
-                      opacity="0.7"
-                    >
-                      <animate
-                        attributeName="stroke-dashoffset"
-                        values="0;-10"
-                        dur="1s"
-                        repeatCount="indefinite"
-                      />
-                    </line>
-                    
-                    {/* Message label with background for better readability */}
-                    <rect
-                      x={centerX - (message.content.length * 3.5)}
-                      y={labelY - 8}
-                      width={message.content.length * 7}
-                      height="16"
-                      fill={colors.background}
-                      stroke={getMessageColor(message.type)}
-                      strokeWidth="1"
-                      rx="3"
-                      opacity="0.95"
-                    />
-                    <text
-                      x={centerX}
-                      y={labelY}
-                      fill={getMessageColor(message.type)}
-                      fontSize="10"
-                      textAnchor="middle"
-                      fontWeight="bold"
-                      dominantBaseline="middle"
-                    >
-                      {message.content}
-                    </text>
-                  </g>
-                );
-              })}
-
-              {/* Components */}
-              {components.map((component) => (
-                <g key={component.id}>
-                  {/* Component background */}
-                  <rect
-                    x={component.x}
-                    y={component.y}
-                    width={component.width}
-                    height={component.height}
-                    fill={getTypeColor(component.type)}
-                    stroke={getStatusColor(component.status)}
-                    strokeWidth="2"
-                    rx="8"
-                    opacity="0.8"
-                  />
-                  
-                  {/* Component label */}
-                  <text
-                    x={component.x + component.width / 2}
-                    y={component.y + component.height / 2}
-                    fill={colors.text}
-                    fontSize="12"
-                    textAnchor="middle"
-                    dominantBaseline="middle"
-                    fontWeight="bold"
-                  >
-                    {component.label.split('\n').map((line, i) => (
-                      <tspan key={i} x={component.x + component.width / 2} dy={i === 0 ? 0 : 14}>
-                        {line}
-                      </tspan>
-                    ))}
-                  </text>
-                  
-                  {/* Status indicator */}
-                  {component.status !== 'idle' && (
-                    <circle
-                      cx={component.x + component.width - 8}
-                      cy={component.y + 8}
-                      r="4"
-                      fill={getStatusColor(component.status)}
-                    >
-                      <animate
-                        attributeName="r"
-                        values="4;6;4"
-                        dur="1s"
-                        repeatCount="indefinite"
-                      />
-                    </circle>
-                  )}
-                </g>
-              ))}
-            </svg>
-          </div>
+          <CommunicationDiagram nodes={components} messages={messages} />
 
           {/* Step Description */}
           {currentStep > 0 && currentStep <= currentScenario.steps.length && (
@@ -449,43 +238,7 @@ const AgentCommunicationPlayground: React.FC = () => {
           )}
 
           {/* Legend */}
-          <div className="mt-4 p-4 bg-muted rounded-md">
-            <h4 className="font-medium mb-2">Legend</h4>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: colors.user }}></div>
-                <span>User/Client</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: colors.agent }}></div>
-                <span>Agent</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: colors.primary }}></div>
-                <span>MCP Server</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: colors.tool }}></div>
-                <span>Tool/Service</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: colors.data }}></div>
-                <span>Database</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: colors.accent }}></div>
-                <span>API</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: colors.warning }}></div>
-                <span>Processing</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: colors.success }}></div>
-                <span>Responding</span>
-              </div>
-            </div>
-          </div>
+          <CommunicationLegend />
         </div>
       </CardContent>
     </Card>
@@ -1,7 +1,7 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
-import { conceptContents } from '@/lib/data/conceptContent';
+import { useContentPacks } from '@/contexts/ContentPackContext';
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ListBullets, Code, Cpu, Toolbox, Globe, LightbulbFilament } from "@phosphor-icons/react";
 import CodeBlock from '@/components/ui/CodeBlock';
@@ -12,7 +12,8 @@ interface ConceptDetailsProps {
 }
 
 const ConceptDetails: React.FC<ConceptDetailsProps> = ({ conceptId }) => {
-  const content = conceptContents.find(c => c.id === conceptId);
+  const { content: { concepts } } = useContentPacks();
+  const content = concepts.find(c => c.id === conceptId);
   
   if (!content) return null;
   
@@ -6,9 +6,12 @@ import { Separator } from "@/components/ui/separator"
 import A2ADemo from "../interactive-demos/A2ADemo"
 import MCPDemo from "../interactive-demos/MCPDemo"
 import MCPVisualDemo from "../interactive-demos/MCPVisualDemo"
+import MCPPlayground from "../interactive-demos/MCPPlayground"
 import SimpleACPDemo from "../interactive-demos/SimpleACPDemo"
 import ACPMCPComparison from "../interactive-demos/ACPMCPComparison"
+import ACPPlayground from "../interactive-demos/ACPPlayground"
 import Agent2AgentProtocolDemo from "../interactive-demos/Agent2AgentProtocolDemo"
+import A2ASimulator from "../interactive-demos/A2ASimulator"
 import Agent2AgentProtocolExplainer from "./Agent2AgentProtocolExplainer"
 import ConceptDetails from "./ConceptDetails"
 import { BookOpen, BookmarkSimple, ArrowsHorizontal, Palette, MagicWand } from "@phosphor-icons/react"
@@ -31,6 +34,9 @@ import CodeToVisualMapper from "./CodeToVisualMapper"
 import MCPxA2AIntegrationFlow from "../visualization/MCPxA2AIntegrationFlow"
 import ChatbotToAgentTransition from "./ChatbotToAgentTransition"
 import EnlightenMeButton from "./EnlightenMeButton"
+import { useContentPacks } from "@/contexts/ContentPackContext"
+import { conceptContents } from "@/lib/data/conceptContent"
+import { useUrlState, URL_PARAMS } from "@/lib/hooks/useUrlState"
 
 const ConceptsExplorer = () => {
   const [showDetails, setShowDetails] = useState({
@@ -41,6 +47,11 @@ const ConceptsExplorer = () => {
   })
 
   const { startTutorial, registerTutorial, hasCompletedTutorial } = useTutorialContext();
+  const { content } = useContentPacks();
+  const { params, update } = useUrlState();
+  const activeConcept = params.get(URL_PARAMS.concept) ?? "agents";
+  // Concepts added by content packs have no hand-built tab, so they share one
+  const packConcepts = content.concepts.filter(concept => !conceptContents.some(builtIn => builtIn.id === concept.id));
   const { isVisible, hideHelp, showHelp, toggleHelp } = useFloatingContextualHelp('core-concepts', 15000);
 
   // Register the concepts tutorial
@@ -67,8 +78,12 @@ const ConceptsExplorer = () => {
         />
       </div>
 
-      <Tabs defaultValue="agents" className="w-full">
-        <TabsList className="grid w-full grid-cols-7">
+      <Tabs
+        value={activeConcept}
+        onValueChange={(value) => update({ [URL_PARAMS.concept]: value === "agents" ? null : value }, { push: true })}
+        className="w-full"
+      >
+        <TabsList className={`grid w-full ${packConcepts.length > 0 ? 'grid-cols-8' : 'grid-cols-7'}`}>
           <TabsTrigger value="agents">AI Agents</TabsTrigger>
           <TabsTrigger value="a2a">Agent-to-Agent (A2A)</TabsTrigger>
           <TabsTrigger value="mcp">ModelContextProtocol (MCP)</TabsTrigger>
@@ -76,6 +91,7 @@ const ConceptsExplorer = () => {
           <TabsTrigger value="mcpxa2a">MCP×A2A Integration</TabsTrigger>
           <TabsTrigger value="visualization">Flow Visualization</TabsTrigger>
           <TabsTrigger value="transformation">Data Transformation</TabsTrigger>
+          {packConcepts.length > 0 && <TabsTrigger value="pack-concepts">More Concepts</TabsTrigger>}
         </TabsList>
         <TabsContent value="agents" className="space-y-6 pt-6" data-section="agents-lifecycle">
           <Card className="relative">
@@ -348,6 +364,13 @@ const ConceptsExplorer = () => {
           
           <Agent2AgentProtocolExplainer />
           
+          <h3 className="text-xl font-semibold tracking-tight mb-4 mt-8">Try the Protocol</h3>
+          <p className="text-muted-foreground mb-6">
+            Run real A2A requests against mock agents that enforce the spec, and see the errors when a request breaks it.
+          </p>
+          
+          <A2ASimulator />
+          
           <Separator className="my-6" />
           
           <h2 className="text-2xl font-semibold tracking-tight mb-4">Interactive A2A Protocol Visualization</h2>
@@ -508,6 +531,9 @@ const ConceptsExplorer = () => {
           
           <MCPVisualDemo />
           
+          {/* Real JSON-RPC client talking to sample servers in workers */}
+          <MCPPlayground />
+          
           {/* Interactive Agent Communication Playground */}
           <AgentCommunicationPlayground />
           
@@ -586,6 +612,13 @@ const ConceptsExplorer = () => {
           
           <SimpleACPDemo />
           
+          <h3 className="text-xl font-semibold tracking-tight mb-4 mt-8">Build and Check ACP Requests</h3>
+          <p className="text-muted-foreground mb-6">
+            Compose runs against a mock ACP server, or check any ACP endpoint against the spec and get a pass/fail report.
+          </p>
+          
+          <ACPPlayground />
+          
           <Separator className="my-6" />
           
           <h2 className="text-2xl font-semibold tracking-tight mb-4">
@@ -969,6 +1002,17 @@ const ConceptsExplorer = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {packConcepts.length > 0 && (
+          <TabsContent value="pack-concepts" className="space-y-6 pt-6">
+            {packConcepts.map(concept => (
+              <div key={concept.id}>
+                <ConceptDetails conceptId={concept.id} />
+                <ReferenceSection type="concept" itemId={concept.id} />
+              </div>
+            ))}
+          </TabsContent>
+        )}
       </Tabs>
 
       {/* Floating Contextual Help */}
@@ -12,7 +12,8 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useEnlightenMe } from '../enlighten/EnlightenMeProvider';
-import { useKV } from '@github/spark/hooks';
+import { useMirroredKV } from '@/lib/hooks/useMirroredKV';
+import { useLLM } from '@/contexts/LLMContext';
 import ReactMarkdown from 'react-markdown';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
@@ -35,8 +36,9 @@ const EnlightenMeButton: React.FC<EnlightenMeButtonProps> = ({
   variant = 'floating', // Default to floating for backward compatibility
   size = 'md' // Default size
 }) => {
-  // Get previously saved insights from KV store if available
-  const [savedInsights, setSavedInsights] = useKV<Record<string, string>>('enlighten-insights', {});
+  // Get previously saved insights from KV store if available (kept locally for offline use)
+  const [savedInsights, setSavedInsights] = useMirroredKV('enlighten-insights');
+  const { complete } = useLLM();
   
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -85,11 +87,8 @@ Please provide:
     setShowResponse(true);
     
     try {
-      // Create the LLM prompt using the spark API
-      const generatedPrompt = window.spark.llmPrompt`${prompt}`;
-      
-      // Call the LLM
-      const result = await window.spark.llm(generatedPrompt);
+      // Call the configured LLM provider
+      const { text: result } = await complete(prompt);
       
       // Update the response and save it to KV store
       setResponse(result);
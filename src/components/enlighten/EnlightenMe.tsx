@@ -15,6 +15,7 @@ import ReactMarkdown from 'react-markdown';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import remarkGfm from 'remark-gfm';
+import { useLLM } from '@/contexts/LLMContext';
 
 interface EnlightenMeProps {
   title: string;
@@ -28,6 +29,7 @@ export function EnlightenMe({ title, defaultPrompt, isOpen, onOpenChange }: Enli
   const [response, setResponse] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  const { complete } = useLLM();
   
   // State for tracking copied code blocks
   const [copiedStates, setCopiedStates] = useState<Record<string, boolean>>({});
@@ -125,11 +127,8 @@ export function EnlightenMe({ title, defaultPrompt, isOpen, onOpenChange }: Enli
       setIsLoading(true);
       setSubmitted(true);
 
-      // Create the LLM prompt using the spark API
-      const generatedPrompt = window.spark.llmPrompt`${prompt}`;
-      
-      // Call the LLM
-      const result = await window.spark.llm(generatedPrompt);
+      // Call the configured LLM provider
+      const { text: result } = await complete(prompt);
       
       // Update the response
       setResponse(result);
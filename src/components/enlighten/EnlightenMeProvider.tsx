@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { useKV } from '@github/spark/hooks';
+import { useMirroredKV } from '@/lib/hooks/useMirroredKV';
 
 interface EnlightenMeContextType {
   getInsight: (conceptId: string) => string | null;
@@ -24,11 +24,8 @@ interface EnlightenMeProviderProps {
 }
 
 export const EnlightenMeProvider: React.FC<EnlightenMeProviderProps> = ({ children }) => {
-  // Use KV store for persistence
-  const [recentInsights, setRecentInsights] = useKV<Record<string, string>>(
-    'enlighten-me-insights',
-    {}
-  );
+  // Use KV store for persistence, with a local copy so insights stay readable offline
+  const [recentInsights, setRecentInsights] = useMirroredKV('enlighten-me-insights');
 
   // Get an insight for a specific concept
   const getInsight = (conceptId: string): string | null => {
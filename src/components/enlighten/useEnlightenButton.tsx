@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useEnlightenMe } from './EnlightenMeProvider';
+import { useLLM } from '@/contexts/LLMContext';
 
 interface UseEnlightenButtonProps {
   conceptId: string;
@@ -30,6 +31,7 @@ export const useEnlightenButton = ({
   const [showResponse, setShowResponse] = useState(false);
   
   const { getInsight, saveInsight } = useEnlightenMe();
+  const { complete } = useLLM();
   
   // Generate a default prompt based on the conceptId
   const generateDefaultPrompt = () => {
@@ -74,16 +76,8 @@ export const useEnlightenButton = ({
     
     setIsLoading(true);
     try {
-      // Ensure window.spark is defined
-      if (!window.spark || typeof window.spark.llmPrompt !== 'function') {
-        throw new Error('Spark API is not available');
-      }
-      
-      // Create a prompt using the spark.llmPrompt template format
-      const llmPrompt = window.spark.llmPrompt`${prompt}`;
-      
-      // Call the LLM with the prompt
-      const result = await window.spark.llm(llmPrompt, "gpt-4o");
+      // Call the configured LLM provider
+      const { text: result } = await complete(prompt);
       
       setResponse(result);
       setShowResponse(true);
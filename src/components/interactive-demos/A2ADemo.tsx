@@ -1,12 +1,14 @@
-import { useState } from 'react'
+import { useState, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { ScrollArea } from '@/components/ui/scroll-area'
 import { ArrowsClockwise, Robot, ArrowRight } from "@phosphor-icons/react"
+import ProtocolInspector from './ProtocolInspector'
+import { ScriptedFrame, TraceParticipants, scriptHttpExchange, traceScript } from '@/lib/protocolTrace'
+import { TaskState, textMessage } from '@/lib/a2a'
 
 interface Agent {
   id: string;
@@ -16,14 +18,6 @@ interface Agent {
   icon: React.ReactNode;
 }
 
-interface Message {
-  id: string;
-  from: string;
-  to: string;
-  content: string;
-  timestamp: number;
-}
-
 const agents: Agent[] = [
   {
     id: 'manager',
@@ -63,17 +57,54 @@ const tasks = [
   "Prepare an executive brief on renewable energy technologies"
 ];
 
+const agentName = (agentId: string): string => agents.find(a => a.id === agentId)?.name ?? agentId;
+
+// Each agent serves A2A at its own endpoint; the one delegating is the client
+const connection = (from: string, to: string): TraceParticipants => ({
+  client: agentName(from),
+  server: agentName(to),
+  endpoint: `https://${to}.agents.local/a2a`
+});
+
+/**
+ * One delegated task as A2A frames: the tasks/sendSubscribe request, the stream it
+ * opens and a status update event per entry of updates, the last one final
+ */
+const streamTask = (from: string, to: string, exchange: number, sessionId: string, instruction: string, updates: [TaskState, string][]) => {
+  const taskId = `${sessionId}-${exchange}`;
+  return scriptHttpExchange('A2A', connection(from, to), exchange, {
+    method: 'POST',
+    path: '',
+    body: { jsonrpc: '2.0', id: exchange, method: 'tasks/sendSubscribe', params: { id: taskId, sessionId, message: textMessage('user', instruction) } }
+  }, {
+    status: 200,
+    events: updates.map(([state, text], index) => ({
+      jsonrpc: '2.0',
+      id: exchange,
+      result: {
+        id: taskId,
+        status: { state, message: textMessage('agent', text), timestamp: new Date().toISOString() },
+        final: index === updates.length - 1
+      }
+    }))
+  });
+};
+
 const A2ADemo = () => {
   const [selectedTask, setSelectedTask] = useState('');
   const [customTask, setCustomTask] = useState('');
   const [isRunning, setIsRunning] = useState(false);
   const [activeAgents, setActiveAgents] = useState<string[]>([]);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [script, setScript] = useState<ScriptedFrame[]>([]);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
   const [finalOutput, setFinalOutput] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<string>("messages");
   
+  const frames = useMemo(() => traceScript(script, startedAt), [script, startedAt]);
+  
   const resetDemo = () => {
-    setMessages([]);
+    setScript([]);
+    setStartedAt(Date.now());
     setActiveAgents([]);
     setFinalOutput(null);
     setIsRunning(false);
@@ -90,131 +121,85 @@ const A2ADemo = () => {
       // Activate manager agent
       await activateAgent('manager');
       
-      // Manager agent starts the process
-      await sendMessage({
-        from: 'manager',
-        to: 'system',
-        content: `Initiating task processing for: ${task}`
-      });
+      const sessionId = `session-${Date.now()}`;
+      const research = streamTask('manager', 'research', 1, sessionId, `Please research information related to: ${task}`, [
+        ['working', `Researching "${task}". Gathering relevant data and analyzing trends.`],
+        ['completed', `Research complete. Found 5 key insights and 3 relevant statistics about "${task.split(' ').slice(0, 3).join(' ')}..."`]
+      ]);
+      const writing = streamTask('manager', 'writer', 2, sessionId, `Using the research results, please generate content for: ${task}`, [
+        ['working', 'Beginning content creation based on research results.'],
+        ['completed', `Draft complete. Created comprehensive content addressing all aspects of "${task}".`]
+      ]);
+      const review = streamTask('manager', 'critic', 3, sessionId, `Please review and evaluate the content for: ${task}`, [
+        ['working', 'Evaluating content quality, accuracy, and relevance.'],
+        ['working', 'Evaluation complete. Content is high quality with some minor improvement suggestions.'],
+        ['completed', 'Final review complete. Content now meets all quality standards.']
+      ]);
+      // The critic asks the writer for revisions directly, without the manager
+      const revision = streamTask('critic', 'writer', 4, sessionId, 'Please add more concrete examples and improve the conclusion section.', [
+        ['working', 'Implementing suggested changes to examples and conclusion.'],
+        ['completed', 'Revisions complete. Added three specific examples and expanded the conclusion with future implications.']
+      ]);
       
       // Manager delegates to research agent
-      await sendMessage({
-        from: 'manager',
-        to: 'research',
-        content: `Please research information related to: ${task}`
-      });
+      await sendFrames(research.slice(0, 2));
       
       // Activate research agent
       await activateAgent('research');
       
       // Research agent works
-      await sendMessage({
-        from: 'research',
-        to: 'manager',
-        content: `Researching "${task}". Gathering relevant data and analyzing trends.`
-      });
+      await sendFrames(research.slice(2, 3));
       
       // Short delay to simulate research
       await new Promise(resolve => setTimeout(resolve, 2000));
       
       // Research agent returns results
-      await sendMessage({
-        from: 'research',
-        to: 'manager',
-        content: `Research complete. Found 5 key insights and 3 relevant statistics about "${task.split(' ').slice(0, 3).join(' ')}..."`
-      });
+      await sendFrames(research.slice(3));
       
       // Manager delegates to writer agent
-      await sendMessage({
-        from: 'manager',
-        to: 'writer',
-        content: `Using the research results, please generate content for: ${task}`
-      });
+      await sendFrames(writing.slice(0, 2));
       
       // Activate writer agent
       await activateAgent('writer');
       
       // Writer agent acknowledges
-      await sendMessage({
-        from: 'writer',
-        to: 'manager',
-        content: `Beginning content creation based on research results.`
-      });
+      await sendFrames(writing.slice(2, 3));
       
       // Short delay to simulate writing
       await new Promise(resolve => setTimeout(resolve, 2500));
       
       // Writer provides draft
-      await sendMessage({
-        from: 'writer',
-        to: 'manager',
-        content: `Draft complete. Created comprehensive content addressing all aspects of "${task}".`
-      });
+      await sendFrames(writing.slice(3));
       
       // Manager delegates to critic agent
-      await sendMessage({
-        from: 'manager',
-        to: 'critic',
-        content: `Please review and evaluate the content for: ${task}`
-      });
+      await sendFrames(review.slice(0, 2));
       
       // Activate critic agent
       await activateAgent('critic');
       
       // Critic agent evaluates
-      await sendMessage({
-        from: 'critic',
-        to: 'manager',
-        content: `Evaluating content quality, accuracy, and relevance.`
-      });
+      await sendFrames(review.slice(2, 3));
       
       // Short delay to simulate evaluation
       await new Promise(resolve => setTimeout(resolve, 1800));
       
       // Critic provides feedback
-      await sendMessage({
-        from: 'critic',
-        to: 'manager',
-        content: `Evaluation complete. Content is high quality with some minor improvement suggestions.`
-      });
+      await sendFrames(review.slice(3, 4));
       
       // Critic communicates with writer directly
-      await sendMessage({
-        from: 'critic',
-        to: 'writer',
-        content: `Please add more concrete examples and improve the conclusion section.`
-      });
+      await sendFrames(revision.slice(0, 2));
       
       // Writer makes revisions
-      await sendMessage({
-        from: 'writer',
-        to: 'critic',
-        content: `Implementing suggested changes to examples and conclusion.`
-      });
+      await sendFrames(revision.slice(2, 3));
       
       // Short delay for revisions
       await new Promise(resolve => setTimeout(resolve, 1500));
       
       // Writer informs completion
-      await sendMessage({
-        from: 'writer',
-        to: 'critic',
-        content: `Revisions complete. Added three specific examples and expanded the conclusion with future implications.`
-      });
+      await sendFrames(revision.slice(3));
       
       // Critic approves
-      await sendMessage({
-        from: 'critic',
-        to: 'manager',
-        content: `Final review complete. Content now meets all quality standards.`
-      });
-      
-      // Manager finalizes task
-      await sendMessage({
-        from: 'manager',
-        to: 'system',
-        content: `Task completed successfully through agent collaboration. Final output ready.`
-      });
+      await sendFrames(review.slice(4));
       
       // Generate final output for display - use a functional update to avoid closure issues
       setFinalOutput(`Completed task: "${task}"\n\nThis demonstrates A2A collaboration between ${activeAgents.length} specialized agents:\n- Manager orchestrated the workflow\n- Research gathered key information\n- Writer created content\n- Critic ensured quality\n\nThe agents communicated directly when needed and coordinated through the manager when appropriate, showing different A2A communication patterns.`);
@@ -234,36 +219,13 @@ const A2ADemo = () => {
     }
   };
   
-  const sendMessage = async (message: Omit<Message, 'id' | 'timestamp'>) => {
-    const newMessage: Message = {
-      ...message,
-      id: `msg-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
-      timestamp: Date.now()
-    };
-    
-    setMessages(prev => [...prev, newMessage]);
+  const sendFrames = async (batch: ScriptedFrame[]) => {
+    setScript(prev => [...prev, ...batch]);
     
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 800));
   };
   
-  const getAgentName = (agentId: string): string => {
-    if (agentId === 'system') return 'System';
-    const agent = agents.find(a => a.id === agentId);
-    return agent ? agent.name : agentId;
-  };
-  
-  const getAgentColor = (agentId: string): string => {
-    switch (agentId) {
-      case 'manager': return 'bg-primary/10 text-primary';
-      case 'research': return 'bg-secondary/10 text-secondary';
-      case 'writer': return 'bg-accent/10 text-accent-foreground';
-      case 'critic': return 'bg-blue-500/10 text-blue-600';
-      case 'system': return 'bg-muted text-muted-foreground';
-      default: return 'bg-muted text-muted-foreground';
-    }
-  };
-  
   return (
     <Card className="mb-6">
       <CardHeader>
@@ -379,37 +341,14 @@ const A2ADemo = () => {
                 <TabsContent value="messages">
                   <Card>
                     <CardContent className="p-3">
-                      <ScrollArea className="h-[400px] pr-4">
-                        {messages.length === 0 ? (
-                          <div className="h-full flex items-center justify-center text-center p-6">
-                            <div className="text-muted-foreground">
-                              <p>Run the demo to see agent communication</p>
-                              <p className="text-sm mt-1">Messages will appear here as agents collaborate</p>
-                            </div>
-                          </div>
-                        ) : (
-                          <div className="space-y-3">
-                            {messages.map((message) => (
-                              <div 
-                                key={message.id}
-                                className={`p-3 rounded-md ${getAgentColor(message.from)}`}
-                              >
-                                <div className="flex items-center justify-between mb-1">
-                                  <div className="flex items-center gap-1">
-                                    <span className="font-medium">{getAgentName(message.from)}</span>
-                                    <ArrowRight size={12} />
-                                    <span>{getAgentName(message.to)}</span>
-                                  </div>
-                                  <span className="text-xs text-muted-foreground">
-                                    {new Date(message.timestamp).toLocaleTimeString()}
-                                  </span>
-                                </div>
-                                <p className="text-sm">{message.content}</p>
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </ScrollArea>
+                      <ProtocolInspector
+                        frames={frames}
+                        participants={{ client: agentName('manager'), server: 'Agent team' }}
+                        title="A2A traffic"
+                        exportName="a2a-demo"
+                        emptyText="Run the demo to see the A2A requests and stream events between the agents"
+                        height={340}
+                      />
                     </CardContent>
                   </Card>
                 </TabsContent>
@@ -0,0 +1,406 @@
+import { useState, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import CodeBlock from '@/components/ui/CodeBlock'
+import { MagnifyingGlass, PaperPlaneRight, Broadcast, ArrowsClockwise, XCircle, Plus } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import ProtocolInspector from './ProtocolInspector'
+import {
+  createA2AClient,
+  createMockA2ANetwork,
+  mockA2AAgents,
+  messageText,
+  TASK_TRANSITIONS,
+  A2AWireMessage,
+  AgentCard,
+  Artifact,
+  Part,
+  Task,
+  TaskState,
+  TaskStreamEvent
+} from '@/lib/a2a'
+import { traceA2AWire } from '@/lib/protocolTrace'
+
+type PartKind = 'text' | 'data' | 'file'
+
+interface TimelineEntry {
+  state: TaskState
+  text: string
+  at: string
+  // How the client learned about it
+  via: string
+}
+
+// Drawing order of the state machine: the happy path first, then the other endings
+const STATE_ORDER: TaskState[] = ['submitted', 'working', 'input-required', 'completed', 'canceled', 'failed']
+
+const stateStyles: Record<TaskState, string> = {
+  submitted: 'border-slate-400',
+  working: 'border-blue-500',
+  'input-required': 'border-amber-500',
+  completed: 'border-green-600',
+  canceled: 'border-zinc-500',
+  failed: 'border-red-600',
+  unknown: 'border-muted'
+}
+
+const pretty = (value: unknown) => JSON.stringify(value, null, 2)
+
+const newTaskId = () => `task-${Math.random().toString(36).slice(2, 8)}`
+
+// Merge a streamed artifact chunk into the artifacts received so far
+const mergeArtifact = (artifacts: Artifact[], chunk: Artifact): Artifact[] => {
+  const existing = artifacts.find(artifact => artifact.index === chunk.index)
+  if (!existing || !chunk.append) return [...artifacts.filter(artifact => artifact.index !== chunk.index), chunk]
+  return artifacts.map(artifact => artifact === existing
+    ? { ...existing, parts: [...existing.parts, ...chunk.parts], lastChunk: chunk.lastChunk }
+    : artifact)
+}
+
+const renderPart = (part: Part, key: number) => {
+  switch (part.type) {
+    case 'text':
+      return <pre key={key} className="text-xs whitespace-pre-wrap">{part.text}</pre>
+    case 'data':
+      return <pre key={key} className="text-xs whitespace-pre-wrap bg-muted/40 rounded p-2">{pretty(part.data)}</pre>
+    default:
+      return <div key={key} className="text-xs">File: {part.file.name ?? part.file.uri ?? 'inline bytes'} ({part.file.mimeType ?? 'unknown type'})</div>
+  }
+}
+
+/**
+ * Agent2Agent protocol running between this page and in-browser mock agents: Agent Card
+ * discovery, tasks/send, tasks/sendSubscribe, tasks/get and tasks/cancel over a fetch
+ * that returns real HTTP responses. The agents enforce the spec, so malformed requests,
+ * illegal state changes and unsupported features come back as A2A errors.
+ */
+const A2ASimulator = () => {
+  const [network] = useState(() => createMockA2ANetwork(mockA2AAgents))
+  const [agentUrl, setAgentUrl] = useState(network.cards[0].url)
+  const [card, setCard] = useState<AgentCard | null>(null)
+  const [wire, setWire] = useState<A2AWireMessage[]>([])
+
+  const [taskId, setTaskId] = useState(newTaskId)
+  const [partKind, setPartKind] = useState<PartKind>('text')
+  const [messageInput, setMessageInput] = useState('Convert 100 USD')
+  const [dataInput, setDataInput] = useState(pretty({ amount: 250, from: 'GBP', to: 'JPY' }))
+  const [fileUri, setFileUri] = useState('https://example.com/receipt.png')
+  const [fileMimeType, setFileMimeType] = useState('image/png')
+  const [rawRequest, setRawRequest] = useState(pretty({ jsonrpc: '2.0', id: 'raw-1', method: 'tasks/get', params: { id: 'missing-task' } }))
+
+  const [task, setTask] = useState<Task | null>(null)
+  const [artifacts, setArtifacts] = useState<Artifact[]>([])
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([])
+  const [busy, setBusy] = useState(false)
+
+  const client = useMemo(
+    () => createA2AClient(agentUrl, { fetch: network.fetch, onWire: frame => setWire(current => [...current, frame]) }),
+    [agentUrl, network]
+  )
+  const agentCard = network.cards.find(entry => entry.url === agentUrl)!
+  const participants = useMemo(() => ({ client: 'Client', server: agentCard.name }), [agentCard])
+  const frames = useMemo(() => traceA2AWire(wire, participants), [wire, participants])
+
+  const recordStatus = (status: Task['status'], via: string) => {
+    setTimeline(current => [...current, { state: status.state, text: messageText(status.message), at: status.timestamp, via }])
+  }
+
+  const applyTask = (result: Task, via: string) => {
+    setTask(result)
+    setArtifacts(result.artifacts ?? [])
+    recordStatus(result.status, via)
+  }
+
+  const applyEvent = (event: TaskStreamEvent) => {
+    if ('status' in event) {
+      setTask(current => ({ ...(current ?? { id: event.id }), status: event.status }))
+      recordStatus(event.status, event.final ? 'stream (final)' : 'stream')
+    } else {
+      setArtifacts(current => mergeArtifact(current, event.artifact))
+    }
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await action()
+    } catch (error) {
+      console.warn('A2A request failed:', error)
+      const code = (error as { code?: number }).code
+      toast.error(`${code !== undefined ? `${code}: ` : ''}${error instanceof Error ? error.message : 'A2A request failed'}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const buildMessage = () => {
+    if (partKind === 'data') return { role: 'user' as const, parts: [{ type: 'data' as const, data: JSON.parse(dataInput) }] }
+    if (partKind === 'file') return { role: 'user' as const, parts: [{ type: 'file' as const, file: { uri: fileUri, mimeType: fileMimeType } }] }
+    return { role: 'user' as const, parts: [{ type: 'text' as const, text: messageInput }] }
+  }
+
+  const startNewTask = () => {
+    setTaskId(newTaskId())
+    setTask(null)
+    setArtifacts([])
+    setTimeline([])
+  }
+
+  const selectAgent = (url: string) => {
+    setAgentUrl(url)
+    setCard(null)
+    startNewTask()
+    const selected = network.cards.find(entry => entry.url === url)
+    setMessageInput(selected?.skills[0]?.examples?.[0] ?? '')
+  }
+
+  const discover = () => run(async () => {
+    setCard(await client.getAgentCard())
+  })
+
+  const sendTask = () => run(async () => {
+    const params = { id: taskId, sessionId: task?.sessionId, message: buildMessage(), historyLength: 10 }
+    applyTask(await client.sendTask(params), 'tasks/send')
+  })
+
+  const sendSubscribe = () => run(async () => {
+    const params = { id: taskId, sessionId: task?.sessionId, message: buildMessage() }
+    if (!task) setArtifacts([])
+    await client.sendTaskSubscribe(params, applyEvent)
+  })
+
+  const getTask = () => run(async () => {
+    applyTask(await client.getTask({ id: taskId, historyLength: 10 }), 'tasks/get')
+  })
+
+  const cancelTask = () => run(async () => {
+    applyTask(await client.cancelTask(taskId), 'tasks/cancel')
+  })
+
+  const sendRaw = () => run(async () => {
+    await client.sendRaw(rawRequest)
+  })
+
+  const currentState = task?.status.state
+  const visited = new Set(timeline.map(entry => entry.state))
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Broadcast size={20} /> A2A Protocol Simulator
+        </CardTitle>
+        <CardDescription>
+          Discover mock agents by their Agent Card and run tasks over JSON-RPC. The agents enforce the
+          task state machine and the spec's error codes: cancel a finished task, send to a completed one,
+          stream from an agent that can't, or hand-write a broken request to see what a real agent answers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Agent</Label>
+            <Select value={agentUrl} onValueChange={selectAgent}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {network.cards.map(entry => (
+                  <SelectItem key={entry.url} value={entry.url}>{entry.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={discover} disabled={busy} className="flex items-center gap-1">
+            <MagnifyingGlass size={16} /> GET /.well-known/agent.json
+          </Button>
+          <code className="text-xs text-muted-foreground">{agentCard.url}</code>
+        </div>
+
+        {card && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 text-sm">
+              <div className="font-medium">{card.name} <span className="text-muted-foreground">v{card.version}</span></div>
+              <p className="text-muted-foreground">{card.description}</p>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(card.capabilities).map(([capability, enabled]) => (
+                  <Badge key={capability} variant={enabled ? 'default' : 'outline'}>
+                    {capability}: {enabled ? 'yes' : 'no'}
+                  </Badge>
+                ))}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Input modes: {card.defaultInputModes.join(', ')} · Output modes: {card.defaultOutputModes.join(', ')}
+              </div>
+              {card.skills.map(skill => (
+                <div key={skill.id} className="rounded border p-2 space-y-1">
+                  <div className="font-medium">{skill.name} <code className="text-xs">{skill.id}</code></div>
+                  <p className="text-xs text-muted-foreground">{skill.description}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {skill.examples?.map(example => (
+                      <Button
+                        key={example}
+                        variant="secondary"
+                        size="sm"
+                        className="h-6 text-xs"
+                        onClick={() => {
+                          setPartKind('text')
+                          setMessageInput(example)
+                        }}
+                      >
+                        {example}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <CodeBlock language="json" customStyle={{ maxHeight: 320, fontSize: 12 }}>{pretty(card)}</CodeBlock>
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-4">
+            <Tabs defaultValue="compose">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="compose">Compose task</TabsTrigger>
+                <TabsTrigger value="raw">Raw JSON-RPC</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="compose" className="space-y-3 pt-3">
+                <div className="flex items-end gap-2">
+                  <div className="space-y-1 flex-1">
+                    <Label htmlFor="a2a-task-id">Task id</Label>
+                    <Input id="a2a-task-id" value={taskId} onChange={(e) => setTaskId(e.target.value)} />
+                  </div>
+                  <Button variant="outline" size="sm" onClick={startNewTask} className="flex items-center gap-1">
+                    <Plus size={14} /> New task
+                  </Button>
+                </div>
+                {task?.sessionId && <div className="text-xs text-muted-foreground">Session {task.sessionId}</div>}
+                <div className="space-y-1">
+                  <Label>Message part</Label>
+                  <Select value={partKind} onValueChange={(value) => setPartKind(value as PartKind)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="text">Text part</SelectItem>
+                      <SelectItem value="data">Data part (JSON)</SelectItem>
+                      <SelectItem value="file">File part (URI)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {partKind === 'text' && (
+                  <Textarea value={messageInput} onChange={(e) => setMessageInput(e.target.value)} className="min-h-[70px]" />
+                )}
+                {partKind === 'data' && (
+                  <Textarea value={dataInput} onChange={(e) => setDataInput(e.target.value)} className="font-mono text-xs min-h-[90px]" />
+                )}
+                {partKind === 'file' && (
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input className="col-span-2" value={fileUri} onChange={(e) => setFileUri(e.target.value)} />
+                    <Input value={fileMimeType} onChange={(e) => setFileMimeType(e.target.value)} />
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={sendTask} disabled={busy} className="flex items-center gap-1">
+                    <PaperPlaneRight size={14} /> tasks/send
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={sendSubscribe} disabled={busy} className="flex items-center gap-1">
+                    <Broadcast size={14} /> tasks/sendSubscribe
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={getTask} className="flex items-center gap-1">
+                    <ArrowsClockwise size={14} /> tasks/get
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={cancelTask} className="flex items-center gap-1">
+                    <XCircle size={14} /> tasks/cancel
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  tasks/send waits for the task to settle and returns it once; tasks/sendSubscribe streams every
+                  status change and artifact chunk as server-sent events. Cancel works while a stream is running.
+                </p>
+              </TabsContent>
+
+              <TabsContent value="raw" className="space-y-3 pt-3">
+                <Textarea
+                  value={rawRequest}
+                  onChange={(e) => setRawRequest(e.target.value)}
+                  className="font-mono text-xs min-h-[180px]"
+                />
+                <Button size="sm" variant="outline" onClick={sendRaw} disabled={busy} className="flex items-center gap-1">
+                  <PaperPlaneRight size={14} /> POST {new URL(agentUrl).pathname}
+                </Button>
+              </TabsContent>
+            </Tabs>
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Task state machine</h4>
+              <div className="flex flex-wrap gap-2">
+                {STATE_ORDER.map(state => (
+                  <div
+                    key={state}
+                    className={`rounded-md border-2 px-2 py-1 text-xs ${stateStyles[state]} ${currentState === state ? 'bg-primary/10 font-semibold' : visited.has(state) ? '' : 'opacity-40'}`}
+                  >
+                    {state}
+                    {TASK_TRANSITIONS[state].length === 0 && <span className="text-muted-foreground"> (final)</span>}
+                  </div>
+                ))}
+              </div>
+              {currentState && (
+                <p className="text-xs text-muted-foreground">
+                  From <strong>{currentState}</strong> the agent may move to{' '}
+                  {TASK_TRANSITIONS[currentState].length > 0 ? TASK_TRANSITIONS[currentState].join(', ') : 'nothing; start a new task to continue'}.
+                </p>
+              )}
+              <div className="space-y-1">
+                {timeline.map((entry, index) => (
+                  <div key={index} className="flex items-start gap-2 text-xs">
+                    <Badge variant="outline" className={stateStyles[entry.state]}>{entry.state}</Badge>
+                    <span className="flex-1">{entry.text}</span>
+                    <span className="text-muted-foreground">{entry.via}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {artifacts.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Artifacts</h4>
+                {artifacts.map(artifact => (
+                  <div key={artifact.index} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="font-medium">{artifact.name ?? `artifact ${artifact.index}`}</span>
+                      {artifact.lastChunk === false && <Badge variant="outline">streaming…</Badge>}
+                      <span className="text-muted-foreground">{artifact.parts.length} part{artifact.parts.length === 1 ? '' : 's'}</span>
+                    </div>
+                    {artifact.parts.map(renderPart)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <ProtocolInspector
+            frames={frames}
+            participants={participants}
+            title="HTTP exchange"
+            exportName="a2a-session"
+            emptyText="Fetch the Agent Card or send a task to see the traffic."
+            onClear={() => setWire([])}
+            height={520}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default A2ASimulator
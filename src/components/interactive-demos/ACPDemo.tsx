@@ -1,10 +1,13 @@
-import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Play, ArrowsCounterClockwise } from "@phosphor-icons/react";
 import { resetReactFlowRendering } from '@/lib/utils/visualizationUtils';
 // import { fixReactFlowRendering } from '@/lib/utils/flows/visualizationFix'; // No longer needed
+import { ScriptedFrame, TraceParticipants, scriptHttpExchange, traceScript } from '@/lib/protocolTrace';
+import { userMessage, textPart } from '@/lib/acp';
+import ProtocolInspector from './ProtocolInspector';
 
 // Import the StandardFlowVisualizer
 import StandardFlowVisualizerWithProvider, { StandardFlowMessage } from '../visualization/StandardFlowVisualizer';
@@ -30,15 +33,55 @@ interface Message {
   to: string;
   content: string;
   timestamp: string;
+  // ACP traffic behind the message; hand-offs inside the server have none
+  frames?: ScriptedFrame[];
 }
 
+const ENDPOINT = 'https://acp.example.com';
+const client: TraceParticipants = { client: 'ACP Client', server: 'ACP Server', endpoint: ENDPOINT };
+
+// An agent calling another agent on the same server is a client of that server
+const agentClient = (name: string): TraceParticipants => ({ client: name, server: 'ACP Server', endpoint: ENDPOINT });
+
+/**
+ * A sync run: POST /runs for the agent, answered with the completed run and its output
+ */
+const syncRun = (participants: TraceParticipants, exchange: number, agent: string, input: string, output: string) =>
+  scriptHttpExchange('ACP', participants, exchange, {
+    method: 'POST',
+    path: '/runs',
+    body: { agent_name: agent, input: [userMessage(input)], mode: 'sync' }
+  }, {
+    status: 200,
+    body: {
+      agent_name: agent,
+      run_id: `run-${exchange}`,
+      status: 'completed',
+      output: [{ role: `agent/${agent}`, parts: [textPart(output)] }],
+      created_at: '2025-06-02T09:00:00Z',
+      finished_at: '2025-06-02T09:00:03Z'
+    }
+  });
+
+const summaryRun = syncRun(client, 1, 'summarizer', 'Generate a summary of the quarterly report',
+  'The quarterly report shows a 15% revenue increase with expanded market share in the Asia-Pacific region...');
+
+const reportRun = syncRun(client, 1, 'agent-1', 'Analyze market trends and prepare a report',
+  'Market Analysis Report: 3 key trends identified with supporting data and visualizations...');
+const dataRun = syncRun(agentClient('Agent 1'), 2, 'agent-2', 'Retrieve recent market data for analysis', 'Market data retrieved');
+const analysisRun = syncRun(agentClient('Agent 2'), 3, 'agent-3', 'Market data retrieved, requesting detailed analysis', 'Detailed analysis ready');
+const finalReportRun = syncRun(agentClient('Agent 1'), 4, 'agent-3', 'Generate final report with visualizations',
+  'Report generated with 3 key insights and 2 visualizations');
+
 const ACPDemo = () => {
   const [activeDemo, setActiveDemo] = useState<'single' | 'multi'>('single');
   const [isSimulationRunning, setIsSimulationRunning] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
   const [messages, setMessages] = useState<Message[]>([]);
   const [flowMessages, setFlowMessages] = useState<StandardFlowMessage[]>([]);
-  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  
+  const frames = useMemo(() => traceScript(messages.flatMap(message => message.frames ?? []), startedAt), [messages, startedAt]);
   
   // Function to convert messages to flow messages
   const convertToFlowMessages = (messages: Message[], nodeMap: Record<string, string>) => {
@@ -339,7 +382,8 @@ const ACPDemo = () => {
       from: "client",
       to: "server",
       content: "Request: \"Generate a summary of the quarterly report\"",
-      timestamp: "00:00"
+      timestamp: "00:00",
+      frames: summaryRun.slice(0, 1)
     },
     {
       id: "2", 
@@ -360,7 +404,8 @@ const ACPDemo = () => {
       from: "server",
       to: "client",
       content: "HTTP 200 OK\nResponse: \"The quarterly report shows a 15% revenue increase with expanded market share in the Asia-Pacific region...\"",
-      timestamp: "00:03"
+      timestamp: "00:03",
+      frames: summaryRun.slice(1)
     }
   ];
 
@@ -371,7 +416,8 @@ const ACPDemo = () => {
       from: "client",
       to: "server",
       content: "Request: \"Analyze market trends and prepare a report\"",
-      timestamp: "00:00"
+      timestamp: "00:00",
+      frames: reportRun.slice(0, 1)
     },
     {
       id: "2",
@@ -385,28 +431,32 @@ const ACPDemo = () => {
       from: "agent1",
       to: "agent2",
       content: "Request data: \"Retrieve recent market data for analysis\"",
-      timestamp: "00:02"
+      timestamp: "00:02",
+      frames: dataRun.slice(0, 1)
     },
     {
       id: "4",
       from: "agent2",
       to: "agent3",
       content: "Forward data: \"Market data retrieved, requesting detailed analysis\"",
-      timestamp: "00:03"
+      timestamp: "00:03",
+      frames: [...analysisRun, ...dataRun.slice(1)]
     },
     {
       id: "5",
       from: "agent1",
       to: "agent3",
       content: "Request: \"Generate final report with visualizations\"",
-      timestamp: "00:04"
+      timestamp: "00:04",
+      frames: finalReportRun.slice(0, 1)
     },
     {
       id: "6",
       from: "agent3",
       to: "agent1",
       content: "Response: \"Report generated with 3 key insights and 2 visualizations\"",
-      timestamp: "00:05"
+      timestamp: "00:05",
+      frames: finalReportRun.slice(1)
     },
     {
       id: "7",
@@ -420,7 +470,8 @@ const ACPDemo = () => {
       from: "server",
       to: "client",
       content: "HTTP 200 OK\nResponse: \"Market Analysis Report: 3 key trends identified with supporting data and visualizations...\"",
-      timestamp: "00:07"
+      timestamp: "00:07",
+      frames: reportRun.slice(1)
     }
   ];
 
@@ -429,6 +480,7 @@ const ACPDemo = () => {
     setIsSimulationRunning(true);
     setCurrentStep(0);
     setMessages([]);
+    setStartedAt(Date.now());
     
     // Removed ReactFlow rendering fixes - StableFlowContainer handles this properly
     // setTimeout(() => {
@@ -515,11 +567,6 @@ const ACPDemo = () => {
     setFlowMessages([]);
   };
 
-  // Handle node click (memoized)
-  const onNodeClick = useCallback((_: any, node: Node) => {
-    setSelectedNode(node.id === selectedNode ? null : node.id);
-  }, [selectedNode]);
-
   return (
     <div className="space-y-6">
       <Tabs 
@@ -572,7 +619,6 @@ const ACPDemo = () => {
                 <ReactFlow
                   nodes={singleAgentNodes}
                   edges={singleAgentEdges}
-                  onNodeClick={onNodeClick}
                   fitView={false}
                   preventScrolling={true}
                   panOnDrag={false}
@@ -595,38 +641,15 @@ const ACPDemo = () => {
               </ReactFlowProvider>
             </div>
             
-            <div className="border rounded-md overflow-hidden">
-              <div className="bg-muted py-2 px-4 border-b">
-                <h3 className="text-sm font-medium">Message Log</h3>
-              </div>
-              <div className="h-[458px] overflow-y-auto p-2">
-                {messages.map((message) => (
-                  <div 
-                    key={message.id}
-                    className="mb-2"
-                  >
-                    <Card className={`overflow-hidden ${message.from === selectedNode || message.to === selectedNode ? 'border-primary' : ''}`}>
-                      <CardContent className="p-3">
-                        <div className="flex items-center justify-between mb-1">
-                          <div className="flex items-center gap-1">
-                            <span className="text-xs font-semibold">{message.from}</span>
-                            <span className="text-xs">→</span>
-                            <span className="text-xs font-semibold">{message.to}</span>
-                          </div>
-                          <span className="text-xs text-muted-foreground">{message.timestamp}</span>
-                        </div>
-                        <p className="text-xs whitespace-pre-wrap">{message.content}</p>
-                      </CardContent>
-                    </Card>
-                  </div>
-                ))}
-                
-                {messages.length === 0 && (
-                  <div className="flex items-center justify-center h-full">
-                    <p className="text-sm text-muted-foreground">Run the simulation to see messages</p>
-                  </div>
-                )}
-              </div>
+            <div className="border rounded-md p-3">
+              <ProtocolInspector
+                frames={frames}
+                participants={client}
+                title="Single-agent run"
+                exportName="acp-single-agent"
+                emptyText="Run the simulation to see the ACP requests and responses"
+                height={400}
+              />
             </div>
           </div>
           
@@ -688,7 +711,6 @@ const ACPDemo = () => {
                 <ReactFlow
                   nodes={multiAgentNodes}
                   edges={multiAgentEdges}
-                  onNodeClick={onNodeClick}
                   fitView={false}
                   preventScrolling={true}
                   panOnDrag={false}
@@ -711,38 +733,15 @@ const ACPDemo = () => {
               </ReactFlowProvider>
             </div>
             
-            <div className="border rounded-md overflow-hidden">
-              <div className="bg-muted py-2 px-4 border-b">
-                <h3 className="text-sm font-medium">Message Log</h3>
-              </div>
-              <div className="h-[458px] overflow-y-auto p-2">
-                {messages.map((message) => (
-                  <div 
-                    key={message.id}
-                    className="mb-2"
-                  >
-                    <Card className={`overflow-hidden ${message.from === selectedNode || message.to === selectedNode ? 'border-primary' : ''}`}>
-                      <CardContent className="p-3">
-                        <div className="flex items-center justify-between mb-1">
-                          <div className="flex items-center gap-1">
-                            <span className="text-xs font-semibold">{message.from}</span>
-                            <span className="text-xs">→</span>
-                            <span className="text-xs font-semibold">{message.to}</span>
-                          </div>
-                          <span className="text-xs text-muted-foreground">{message.timestamp}</span>
-                        </div>
-                        <p className="text-xs whitespace-pre-wrap">{message.content}</p>
-                      </CardContent>
-                    </Card>
-                  </div>
-                ))}
-                
-                {messages.length === 0 && (
-                  <div className="flex items-center justify-center h-full">
-                    <p className="text-sm text-muted-foreground">Run the simulation to see messages</p>
-                  </div>
-                )}
-              </div>
+            <div className="border rounded-md p-3">
+              <ProtocolInspector
+                frames={frames}
+                participants={client}
+                title="Multi-agent runs"
+                exportName="acp-multi-agent"
+                emptyText="Run the simulation to see the ACP requests and responses"
+                height={400}
+              />
             </div>
           </div>
           
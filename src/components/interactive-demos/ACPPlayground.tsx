@@ -0,0 +1,487 @@
+import { useState, useMemo, ReactNode } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import CodeBlock from '@/components/ui/CodeBlock'
+import {
+  MagnifyingGlass,
+  PaperPlaneRight,
+  ArrowsClockwise,
+  XCircle,
+  Trash,
+  Plus,
+  ListChecks,
+  CheckCircle,
+  MinusCircle,
+  Plugs
+} from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import ProtocolInspector from './ProtocolInspector'
+import {
+  checkACPConformance,
+  createACPClient,
+  createMockACPNetwork,
+  mockACPAgents,
+  ACPWireMessage,
+  AgentManifest,
+  ConformanceCheck,
+  ConformanceReport,
+  MessagePart,
+  Run,
+  RunEvent,
+  RunCreateRequest,
+  RunMode,
+  RunStatus
+} from '@/lib/acp'
+import { traceACPWire } from '@/lib/protocolTrace'
+
+// Hosts the playground can talk to; 'custom' is a server the user runs
+const CUSTOM_HOST = 'custom'
+
+interface PartDraft {
+  name: string
+  contentType: string
+  // Inline content or a URL the agent fetches itself
+  source: 'inline' | 'url'
+  value: string
+}
+
+const statusStyles: Record<RunStatus, string> = {
+  created: 'border-slate-400',
+  'in-progress': 'border-blue-500',
+  awaiting: 'border-amber-500',
+  cancelling: 'border-zinc-400',
+  cancelled: 'border-zinc-500',
+  completed: 'border-green-600',
+  failed: 'border-red-600'
+}
+
+const checkIcons: Record<ConformanceCheck['status'], ReactNode> = {
+  pass: <CheckCircle size={16} className="text-green-600 shrink-0" />,
+  fail: <XCircle size={16} className="text-destructive shrink-0" />,
+  skip: <MinusCircle size={16} className="text-muted-foreground shrink-0" />
+}
+
+const pretty = (value: unknown) => JSON.stringify(value, null, 2)
+
+const textDraft = (value: string): PartDraft => ({ name: '', contentType: 'text/plain', source: 'inline', value })
+
+const toPart = (draft: PartDraft): MessagePart => ({
+  ...(draft.name ? { name: draft.name } : {}),
+  content_type: draft.contentType,
+  ...(draft.source === 'url' ? { content_url: draft.value } : { content: draft.value, content_encoding: 'plain' as const })
+})
+
+const examples: Record<string, string> = {
+  summarizer: 'ACP gives every agent the same REST interface. Clients discover agents with GET /agents. They start runs with POST /runs and pick sync, async or stream mode. Runs can pause and wait for the client. That is how an agent asks a follow-up question.',
+  translator: 'Translate "thank you"',
+  echo: 'Echo this back'
+}
+
+const renderPart = (part: MessagePart, key: number) => (
+  <div key={key} className="space-y-1">
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <code>{part.content_type}</code>
+      {part.name && <span>{part.name}</span>}
+    </div>
+    {part.content_url
+      ? <a href={part.content_url} className="text-xs underline break-all" target="_blank" rel="noreferrer">{part.content_url}</a>
+      : <pre className="text-xs whitespace-pre-wrap bg-muted/40 rounded p-2">{part.content}</pre>}
+  </div>
+)
+
+/**
+ * Agent Communication Protocol against a bundled mock server, or any server that
+ * allows the page's origin: discover agents, build runs with multipart input in sync,
+ * async or stream mode, resume awaiting runs, and run a conformance check that
+ * validates every response against the ACP schemas.
+ */
+const ACPPlayground = () => {
+  const [network] = useState(() => createMockACPNetwork(mockACPAgents))
+  const [host, setHost] = useState(network.hosts[0].baseUrl)
+  const [customUrl, setCustomUrl] = useState('http://localhost:8000')
+  const [agents, setAgents] = useState<AgentManifest[]>([])
+  const [agentName, setAgentName] = useState('summarizer')
+  const [wire, setWire] = useState<ACPWireMessage[]>([])
+
+  const [mode, setMode] = useState<RunMode>('stream')
+  const [sessionId, setSessionId] = useState('')
+  const [parts, setParts] = useState<PartDraft[]>([textDraft(examples.summarizer)])
+  const [resumeText, setResumeText] = useState('French')
+
+  const [run, setRun] = useState<Run | null>(null)
+  const [events, setEvents] = useState<RunEvent[]>([])
+  const [report, setReport] = useState<ConformanceReport | null>(null)
+  const [liveChecks, setLiveChecks] = useState<ConformanceCheck[]>([])
+  const [busy, setBusy] = useState(false)
+
+  const baseUrl = host === CUSTOM_HOST ? customUrl : host
+  const fetchImpl = host === CUSTOM_HOST ? undefined : network.fetch
+  const onWire = (frame: ACPWireMessage) => setWire(current => [...current, frame])
+  const client = useMemo(
+    () => createACPClient(baseUrl, { fetch: fetchImpl, onWire }),
+    [baseUrl, fetchImpl]
+  )
+  const participants = useMemo(() => ({
+    client: 'Client',
+    server: network.hosts.find(entry => entry.baseUrl === host)?.name ?? baseUrl,
+    endpoint: baseUrl
+  }), [network, host, baseUrl])
+  const frames = useMemo(() => traceACPWire(wire, participants), [wire, participants])
+
+  const requestBody: RunCreateRequest = {
+    agent_name: agentName,
+    input: [{ role: 'user', parts: parts.map(toPart) }],
+    ...(sessionId ? { session_id: sessionId } : {}),
+    mode
+  }
+
+  const execute = async (action: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await action()
+    } catch (error) {
+      console.warn('ACP request failed:', error)
+      const code = (error as { code?: string }).code
+      toast.error(`${code ? `${code}: ` : ''}${error instanceof Error ? error.message : 'ACP request failed'}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const applyEvent = (event: RunEvent) => {
+    setEvents(current => [...current, event])
+    if ('run' in event) setRun(event.run)
+  }
+
+  const applyRun = (result: Run) => {
+    setRun(result)
+    if (result.session_id) setSessionId(result.session_id)
+  }
+
+  const selectAgent = (name: string) => {
+    setAgentName(name)
+    if (examples[name]) setParts([textDraft(examples[name])])
+  }
+
+  const selectHost = (value: string) => {
+    setHost(value)
+    setAgents([])
+    setRun(null)
+    setEvents([])
+    setReport(null)
+    setLiveChecks([])
+    setSessionId('')
+  }
+
+  const updatePart = (index: number, change: Partial<PartDraft>) => {
+    setParts(current => current.map((part, position) => (position === index ? { ...part, ...change } : part)))
+  }
+
+  const discover = () => execute(async () => {
+    const listed = await client.listAgents()
+    setAgents(listed)
+    if (listed.length > 0 && !listed.some(agent => agent.name === agentName)) selectAgent(listed[0].name)
+  })
+
+  const createRun = () => execute(async () => {
+    setEvents([])
+    applyRun(await client.createRun(requestBody, applyEvent))
+  })
+
+  const resumeRun = () => execute(async () => {
+    if (!run) return
+    const resumed = await client.resumeRun(
+      run.run_id,
+      { type: 'message', message: { role: 'user', parts: [toPart(textDraft(resumeText))] } },
+      mode,
+      applyEvent
+    )
+    applyRun(resumed)
+  })
+
+  const getRun = () => execute(async () => {
+    if (run) applyRun(await client.getRun(run.run_id))
+  })
+
+  const cancelRun = () => execute(async () => {
+    if (run) applyRun(await client.cancelRun(run.run_id))
+  })
+
+  const loadEvents = () => execute(async () => {
+    if (run) setEvents(await client.getRunEvents(run.run_id))
+  })
+
+  const runConformance = () => execute(async () => {
+    setReport(null)
+    setLiveChecks([])
+    const result = await checkACPConformance(baseUrl, {
+      fetch: fetchImpl,
+      onWire,
+      agentName: agentName || undefined,
+      onCheck: entry => setLiveChecks(current => [...current, entry])
+    })
+    setReport(result)
+    if (result.failed > 0) toast.error(`${result.failed} of ${result.checks.length} conformance checks failed`)
+    else toast.success(`All ${result.passed} conformance checks that ran passed`)
+  })
+
+  const manifest = agents.find(agent => agent.name === agentName)
+  const checks = report?.checks ?? liveChecks
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Plugs size={20} /> ACP Request Builder and Conformance Checker
+        </CardTitle>
+        <CardDescription>
+          Compose Agent Communication Protocol runs against a bundled mock server and watch the REST
+          exchange, or point the conformance checker at any ACP endpoint for a pass/fail report. The legacy
+          mock server breaks a few rules on purpose so you can see what failures look like.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Server</Label>
+            <Select value={host} onValueChange={selectHost}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {network.hosts.map(entry => (
+                  <SelectItem key={entry.baseUrl} value={entry.baseUrl}>{entry.name}</SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_HOST}>Your server</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {host === CUSTOM_HOST ? (
+            <div className="space-y-2 flex-1 min-w-[240px]">
+              <Label htmlFor="acp-base-url">Base URL</Label>
+              <Input id="acp-base-url" value={customUrl} onChange={(e) => setCustomUrl(e.target.value)} />
+            </div>
+          ) : (
+            <span className="text-xs text-muted-foreground">
+              {network.hosts.find(entry => entry.baseUrl === host)?.description} · <code>{host}</code>
+            </span>
+          )}
+          <Button variant="outline" onClick={discover} disabled={busy} className="flex items-center gap-1">
+            <MagnifyingGlass size={16} /> GET /agents
+          </Button>
+        </div>
+        {host === CUSTOM_HOST && (
+          <p className="text-xs text-muted-foreground">
+            Requests go straight from your browser, so the server must allow this page's origin (CORS).
+          </p>
+        )}
+
+        {agents.length > 0 && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              {agents.map(agent => (
+                <button
+                  key={agent.name}
+                  type="button"
+                  onClick={() => selectAgent(agent.name)}
+                  className={`w-full rounded border p-2 text-left text-sm space-y-1 hover:bg-muted/50 ${agent.name === agentName ? 'border-primary bg-primary/5' : ''}`}
+                >
+                  <div className="font-medium"><code>{agent.name}</code></div>
+                  <p className="text-xs text-muted-foreground">{agent.description}</p>
+                  <div className="text-xs text-muted-foreground">
+                    In: {agent.input_content_types.join(', ')} · Out: {agent.output_content_types.join(', ')}
+                  </div>
+                </button>
+              ))}
+            </div>
+            {manifest && <CodeBlock language="json" customStyle={{ maxHeight: 320, fontSize: 12 }}>{pretty(manifest)}</CodeBlock>}
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-4">
+            <Tabs defaultValue="builder">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="builder">Request builder</TabsTrigger>
+                <TabsTrigger value="conformance">Conformance</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="builder" className="space-y-3 pt-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="acp-agent-name">Agent</Label>
+                    <Input id="acp-agent-name" value={agentName} onChange={(e) => setAgentName(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Mode</Label>
+                    <Select value={mode} onValueChange={(value) => setMode(value as RunMode)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="sync">sync (wait for the result)</SelectItem>
+                        <SelectItem value="async">async (202, then poll)</SelectItem>
+                        <SelectItem value="stream">stream (server-sent events)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="acp-session-id">Session id (optional)</Label>
+                  <Input id="acp-session-id" value={sessionId} onChange={(e) => setSessionId(e.target.value)} placeholder="Assigned by the server" />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Message parts</Label>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setParts(current => [...current, { name: '', contentType: 'image/png', source: 'url', value: 'https://example.com/chart.png' }])}
+                      className="flex items-center gap-1"
+                    >
+                      <Plus size={14} /> Add part
+                    </Button>
+                  </div>
+                  {parts.map((part, index) => (
+                    <div key={index} className="rounded border p-2 space-y-2">
+                      <div className="grid grid-cols-[1fr_1fr_120px_auto] gap-2">
+                        <Input value={part.contentType} onChange={(e) => updatePart(index, { contentType: e.target.value })} placeholder="content_type" />
+                        <Input value={part.name} onChange={(e) => updatePart(index, { name: e.target.value })} placeholder="name (optional)" />
+                        <Select value={part.source} onValueChange={(value) => updatePart(index, { source: value as PartDraft['source'] })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="inline">content</SelectItem>
+                            <SelectItem value="url">content_url</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={parts.length === 1}
+                          onClick={() => setParts(current => current.filter((_, position) => position !== index))}
+                        >
+                          <Trash size={14} />
+                        </Button>
+                      </div>
+                      {part.source === 'url'
+                        ? <Input value={part.value} onChange={(e) => updatePart(index, { value: e.target.value })} />
+                        : <Textarea value={part.value} onChange={(e) => updatePart(index, { value: e.target.value })} className="min-h-[70px] text-xs" />}
+                    </div>
+                  ))}
+                </div>
+
+                <CodeBlock language="json" customStyle={{ maxHeight: 220, fontSize: 12 }}>{`POST /runs\n${pretty(requestBody)}`}</CodeBlock>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={createRun} disabled={busy || !agentName} className="flex items-center gap-1">
+                    <PaperPlaneRight size={14} /> POST /runs
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={getRun} disabled={!run} className="flex items-center gap-1">
+                    <ArrowsClockwise size={14} /> GET /runs/{'{id}'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={cancelRun} disabled={!run} className="flex items-center gap-1">
+                    <XCircle size={14} /> Cancel
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={loadEvents} disabled={busy || !run} className="flex items-center gap-1">
+                    <ListChecks size={14} /> Events
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Cancel and GET work while a stream or async run is in progress. The translator pauses in the
+                  awaiting state when the target language is missing; answer below to resume it.
+                </p>
+              </TabsContent>
+
+              <TabsContent value="conformance" className="space-y-3 pt-3">
+                <p className="text-sm text-muted-foreground">
+                  Runs discovery, sync, async and stream runs, the event log, cancellation and error responses
+                  against <code>{baseUrl}</code> with agent <code>{agentName || 'the first listed'}</code>, and
+                  validates every body against the ACP schemas.
+                </p>
+                <Button size="sm" onClick={runConformance} disabled={busy} className="flex items-center gap-1">
+                  <ListChecks size={14} /> Run conformance checks
+                </Button>
+                {report && (
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <Badge variant="outline" className="border-green-600">{report.passed} passed</Badge>
+                    <Badge variant="outline" className="border-red-600">{report.failed} failed</Badge>
+                    <Badge variant="outline">{report.skipped} skipped</Badge>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  {checks.map(entry => (
+                    <div key={entry.id} className="rounded border p-2 text-sm space-y-1">
+                      <div className="flex items-center gap-2">
+                        {checkIcons[entry.status]}
+                        <span className="font-medium">{entry.title}</span>
+                        <span className="ml-auto text-xs text-muted-foreground">{entry.durationMs} ms</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">{entry.rule}</p>
+                      {entry.errors.map((error, index) => (
+                        <p key={index} className={`text-xs ${entry.status === 'fail' ? 'text-destructive' : 'text-muted-foreground'}`}>{error}</p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </TabsContent>
+            </Tabs>
+
+            {run && (
+              <div className="space-y-3 rounded-md border p-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <Badge variant="outline" className={statusStyles[run.status] ?? ''}>{run.status}</Badge>
+                  <code className="truncate">{run.run_id}</code>
+                  <span className="text-muted-foreground">{run.agent_name}</span>
+                </div>
+                {run.await_request && (
+                  <div className="space-y-2">
+                    {run.await_request.message.parts.map(renderPart)}
+                    <div className="flex gap-2">
+                      <Input value={resumeText} onChange={(e) => setResumeText(e.target.value)} />
+                      <Button size="sm" onClick={resumeRun} disabled={busy} className="flex items-center gap-1">
+                        <PaperPlaneRight size={14} /> Resume
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                {run.error && <p className="text-xs text-destructive">{run.error.code}: {run.error.message}</p>}
+                {run.output.map((message, index) => (
+                  <div key={index} className="space-y-2">
+                    <div className="text-xs font-medium">{message.role}</div>
+                    {message.parts.map(renderPart)}
+                  </div>
+                ))}
+                {events.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {events.map((event, index) => <Badge key={index} variant="secondary" className="text-[10px]">{event.type}</Badge>)}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <ProtocolInspector
+            frames={frames}
+            participants={participants}
+            title="HTTP exchange"
+            exportName="acp-session"
+            emptyText="List the agents or create a run to see the traffic."
+            onClear={() => setWire([])}
+            height={620}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ACPPlayground
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -20,6 +20,9 @@ import {
 import { motion, AnimatePresence } from 'framer-motion';
 import CodeBlock from '@/components/ui/CodeBlock';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import ProtocolInspector from './ProtocolInspector';
+import { ScriptedFrame, TraceParticipants, scriptHttpExchange, scriptMcpCall, traceScript } from '@/lib/protocolTrace';
+import { textMessage } from '@/lib/a2a';
 
 interface Step {
   id: number;
@@ -31,13 +34,66 @@ interface Step {
   protocolType: 'A2A' | 'MCP';
   codeExample?: string;
   explanation?: string;
+  // Frames the step puts on the wire; steps inside one agent or with the user have none
+  frames?: ScriptedFrame[];
 }
 
+const a2a: TraceParticipants = { client: 'Host Agent', server: 'Stock Info Agent', endpoint: 'https://stocks.agents.local' };
+const mcp: TraceParticipants = { client: 'Stock Info Agent', server: 'MCP Stock Price Server', endpoint: 'https://prices.example.com/mcp' };
+
+const TASK_ID = 'task-googl-price';
+const ANSWER = 'Google stock is 174.92 USD';
+
+const statusEvent = (state: string, text: string, final: boolean) => ({
+  jsonrpc: '2.0',
+  id: 1,
+  result: { id: TASK_ID, status: { state, message: textMessage('agent', text), timestamp: '2025-06-02T09:00:00Z' }, final }
+});
+
+// How the Host Agent finds out what the Stock Info Agent can do
+const discovery = scriptHttpExchange('A2A', a2a, 1, { method: 'GET', path: '/.well-known/agent.json' }, {
+  status: 200,
+  body: {
+    name: 'Stock Info Agent',
+    url: 'https://stocks.agents.local/a2a',
+    version: '1.0.0',
+    capabilities: { streaming: true },
+    defaultInputModes: ['text'],
+    defaultOutputModes: ['text'],
+    skills: [{ id: 'stock_price', name: 'Stock price', tags: ['finance'] }]
+  }
+});
+
+// The delegated task, streamed: request, opened stream, then its status and artifact events
+const task = scriptHttpExchange('A2A', a2a, 2, {
+  method: 'POST',
+  path: '/a2a',
+  body: {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'tasks/sendSubscribe',
+    params: { id: TASK_ID, message: textMessage('user', "Please get Google's current stock price!") }
+  }
+}, {
+  status: 200,
+  events: [
+    statusEvent('working', 'Hold on a sec, I know a place to get this information...', false),
+    { jsonrpc: '2.0', id: 1, result: { id: TASK_ID, artifact: { name: 'quote', index: 0, parts: [{ type: 'text', text: ANSWER }] } } },
+    statusEvent('completed', ANSWER, true)
+  ]
+});
+
+const priceCall = scriptMcpCall(mcp, 2, 'tools/call', { name: 'get_stock_price', arguments: { symbol: 'GOOGL' } }, {
+  content: [{ type: 'text', text: '174.92 USD' }],
+  structuredContent: { price: '174.92', currency: 'USD', symbol: 'GOOGL' }
+});
+
 const Agent2AgentProtocolDemo = () => {
   const [currentStep, setCurrentStep] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [completedSteps, setCompletedSteps] = useState<number[]>([]);
   const [activeTab, setActiveTab] = useState<'visual' | 'code'>('visual');
+  const [startedAt, setStartedAt] = useState(() => Date.now());
   
   const steps: Step[] = [
     {
@@ -89,7 +145,8 @@ async function processQuery(query) {
   
   // Other intent handling...
 }`,
-      explanation: "The Host Agent analyzes the user's query and determines it needs to delegate to a specialized agent. It consults its agent registry to find an agent with stock information capabilities."
+      explanation: "The Host Agent analyzes the user's query and determines it needs to delegate to a specialized agent. It consults its agent registry to find an agent with stock information capabilities.",
+      frames: discovery
     },
     {
       id: 3,
@@ -112,7 +169,8 @@ const task = await a2a.createTask({
 
 // A2A task has unique ID for tracking and state management
 console.log(\`Task created with ID: \${task.id}, status: \${task.status}\`);`,
-      explanation: "The Host Agent uses the A2A protocol to create a new task and delegate it to the Stock Info Agent. The A2A task includes the instruction, any necessary context, and metadata to help the specialist agent understand what's needed."
+      explanation: "The Host Agent uses the A2A protocol to create a new task and delegate it to the Stock Info Agent. The A2A task includes the instruction, any necessary context, and metadata to help the specialist agent understand what's needed.",
+      frames: task.slice(0, 2)
     },
     {
       id: 4,
@@ -135,7 +193,8 @@ async function processStockPriceRequest(request) {
     dataSource
   };
 }`,
-      explanation: "The Stock Info Agent processes the request and determines it needs to call an external tool to get the current stock price. It identifies which data source to use and prepares to make the call."
+      explanation: "The Stock Info Agent processes the request and determines it needs to call an external tool to get the current stock price. It identifies which data source to use and prepares to make the call.",
+      frames: task.slice(2, 3)
     },
     {
       id: 5,
@@ -156,7 +215,20 @@ const stockData = await mcp.callTool({
     timeout: 5000
   }
 });`,
-      explanation: "The Stock Info Agent uses the Model Context Protocol (MCP) to make a function call to a stock price data provider. MCP provides a standardized way to call external tools and functions."
+      explanation: "The Stock Info Agent uses the Model Context Protocol (MCP) to make a function call to a stock price data provider. MCP provides a standardized way to call external tools and functions.",
+      frames: [
+        ...scriptMcpCall(mcp, 1, 'initialize', {
+          protocolVersion: '2025-06-18',
+          capabilities: {},
+          clientInfo: { name: 'stock-info-agent', version: '1.0.0' }
+        }, {
+          protocolVersion: '2025-06-18',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'stock-price-server', version: '1.0.0' }
+        }),
+        { protocol: 'MCP', participants: mcp, direction: 'outgoing', body: { jsonrpc: '2.0', method: 'notifications/initialized' } },
+        priceCall[0]
+      ]
     },
     {
       id: 6,
@@ -186,7 +258,8 @@ function handleStockPriceResponse(response) {
   const { price, currency, symbol } = response;
   return \`Current price for \${symbol}: \${price} \${currency}\`;
 }`,
-      explanation: "The MCP Server processes the function call, retrieves the requested stock price data, and returns a structured response to the Stock Info Agent. The MCP protocol ensures the response is in a predictable format that the agent can easily parse."
+      explanation: "The MCP Server processes the function call, retrieves the requested stock price data, and returns a structured response to the Stock Info Agent. The MCP protocol ensures the response is in a predictable format that the agent can easily parse.",
+      frames: priceCall.slice(1)
     },
     {
       id: 7,
@@ -205,7 +278,8 @@ await a2a.completeTask(task.id, {
     timestamp: new Date().toISOString()
   }
 });`,
-      explanation: "Once the Stock Info Agent has the data it needs, it marks the A2A task as complete and sends the result back to the Host Agent. The A2A protocol handles this message routing and ensures the response gets back to the requesting agent."
+      explanation: "Once the Stock Info Agent has the data it needs, it marks the A2A task as complete and sends the result back to the Host Agent. The A2A protocol handles this message routing and ensures the response gets back to the requesting agent.",
+      frames: task.slice(3)
     },
     {
       id: 8,
@@ -254,10 +328,17 @@ app.post('/query/response', (req, res) => {
     };
   }, [isPlaying, currentStep, steps.length]);
 
+  // Frames of every step up to the current one
+  const frames = useMemo(
+    () => traceScript(steps.slice(0, currentStep + 1).flatMap(step => step.frames ?? []), startedAt),
+    [currentStep, startedAt]
+  );
+
   const resetDemo = () => {
     setCurrentStep(0);
     setCompletedSteps([]);
     setIsPlaying(false);
+    setStartedAt(Date.now());
   };
 
   const goToStep = (stepIndex: number) => {
@@ -531,6 +612,17 @@ app.post('/query/response', (req, res) => {
               </Card>
             </div>
           </div>
+          
+          <div className="mt-6">
+            <ProtocolInspector
+              frames={frames}
+              participants={a2a}
+              title="A2A and MCP traffic"
+              exportName="a2a-stock-demo"
+              emptyText="Frames appear once the Host Agent contacts the Stock Info Agent"
+              height={280}
+            />
+          </div>
         </TabsContent>
         
         <TabsContent value="code" className="pt-6">
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react'
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { JsonSchema, primaryType } from '@/lib/mcp'
+
+interface JsonSchemaFormProps {
+  schema: JsonSchema
+  value: Record<string, unknown>
+  onChange: (value: Record<string, unknown>) => void
+  disabled?: boolean
+  idPrefix?: string
+}
+
+interface FieldProps {
+  id: string
+  schema: JsonSchema
+  value: unknown
+  onChange: (value: unknown) => void
+  disabled?: boolean
+}
+
+// Arrays and nested objects are edited as JSON; the text is kept while it doesn't parse
+const JsonField = ({ id, value, onChange, disabled }: FieldProps) => {
+  const [text, setText] = useState(() => (value === undefined ? '' : JSON.stringify(value, null, 2)))
+  const [invalid, setInvalid] = useState(false)
+
+  useEffect(() => {
+    setText(current => {
+      try {
+        if (JSON.stringify(JSON.parse(current)) === JSON.stringify(value)) return current
+      } catch {
+        // Replace text that doesn't parse when the value changes from outside
+      }
+      return value === undefined ? '' : JSON.stringify(value, null, 2)
+    })
+  }, [value])
+
+  return (
+    <Textarea
+      id={id}
+      className="font-mono text-xs min-h-[70px]"
+      aria-invalid={invalid}
+      value={text}
+      disabled={disabled}
+      onChange={(e) => {
+        setText(e.target.value)
+        if (!e.target.value.trim()) {
+          setInvalid(false)
+          onChange(undefined)
+          return
+        }
+        try {
+          onChange(JSON.parse(e.target.value))
+          setInvalid(false)
+        } catch {
+          setInvalid(true)
+        }
+      }}
+    />
+  )
+}
+
+const SchemaField = (props: FieldProps) => {
+  const { id, schema, value, onChange, disabled } = props
+
+  if (schema.enum?.length) {
+    const index = schema.enum.findIndex(option => option === value)
+    return (
+      <Select
+        value={index >= 0 ? String(index) : undefined}
+        onValueChange={(selected) => onChange(schema.enum![Number(selected)])}
+        disabled={disabled}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Choose a value" />
+        </SelectTrigger>
+        <SelectContent>
+          {schema.enum.map((option, optionIndex) => (
+            <SelectItem key={optionIndex} value={String(optionIndex)}>{String(option)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  switch (primaryType(schema)) {
+    case 'boolean':
+      return <Switch id={id} checked={value === true} onCheckedChange={onChange} disabled={disabled} />
+    case 'number':
+    case 'integer':
+      return (
+        <Input
+          id={id}
+          type="number"
+          step={primaryType(schema) === 'integer' ? 1 : 'any'}
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          disabled={disabled}
+        />
+      )
+    case 'string':
+    case undefined:
+      return (
+        <Input
+          id={id}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+        />
+      )
+    default:
+      return <JsonField {...props} />
+  }
+}
+
+/**
+ * Inputs for the properties of an object schema, such as an MCP tool's inputSchema.
+ * Scalars and enums get their own controls; arrays and nested objects take JSON.
+ */
+const JsonSchemaForm = ({ schema, value, onChange, disabled, idPrefix = 'schema' }: JsonSchemaFormProps) => {
+  const properties = Object.entries(schema.properties ?? {})
+
+  if (properties.length === 0) {
+    return <p className="text-sm text-muted-foreground">No arguments.</p>
+  }
+
+  const setProperty = (key: string, propertyValue: unknown) => {
+    const next = { ...value }
+    if (propertyValue === undefined) delete next[key]
+    else next[key] = propertyValue
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      {properties.map(([key, property]) => {
+        const id = `${idPrefix}-${key}`
+        const required = schema.required?.includes(key)
+        return (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={id} className="flex items-center gap-2">
+              <span className="font-mono">{key}{required ? ' *' : ''}</span>
+              <span className="text-xs font-normal text-muted-foreground">
+                {Array.isArray(property.type) ? property.type.join(' | ') : property.type ?? 'any'}
+              </span>
+            </Label>
+            <SchemaField
+              id={id}
+              schema={property}
+              value={value[key]}
+              onChange={(propertyValue) => setProperty(key, propertyValue)}
+              disabled={disabled}
+            />
+            {property.description && <p className="text-xs text-muted-foreground">{property.description}</p>}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default JsonSchemaForm
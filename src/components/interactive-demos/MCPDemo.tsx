@@ -1,33 +1,39 @@
-import { useState } from 'react'
+import { useState, useRef, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { ArrowsClockwise, ArrowRight, User, Robot } from "@phosphor-icons/react"
+import ProtocolInspector from './ProtocolInspector'
+import { ScriptedFrame, TraceParticipants, scriptMcpCall, traceScript } from '@/lib/protocolTrace'
 
 interface Message {
   id: string;
   role: 'user' | 'agent1' | 'agent2';
   content: string;
-  metadata?: {
-    protocol?: string;
-    contextId?: string;
-    intent?: string;
-    [key: string]: any;
-  };
   timestamp: number;
 }
 
+// The general agent is the MCP client; the expert serves its knowledge as a tool
+const participants: TraceParticipants = { client: 'General Agent', server: 'Expert Agent', endpoint: 'https://expert-agent.example.com/mcp' };
+
 const MCPDemo = () => {
   const [userInput, setUserInput] = useState('');
   const [isRunning, setIsRunning] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [contextId, setContextId] = useState<string | null>(null);
+  const [script, setScript] = useState<ScriptedFrame[]>([]);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  // JSON-RPC id of the next request on the session
+  const nextId = useRef(1);
+
+  const frames = useMemo(() => traceScript(script, startedAt), [script, startedAt]);
   
   const resetDemo = () => {
     setMessages([]);
-    setContextId(null);
+    setScript([]);
+    setStartedAt(Date.now());
+    nextId.current = 1;
     setIsRunning(false);
   };
 
@@ -36,9 +42,21 @@ const MCPDemo = () => {
     
     setIsRunning(true);
     
-    // Generate a context ID if one doesn't exist yet
-    const currentContextId = contextId || `ctx-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
-    if (!contextId) setContextId(currentContextId);
+    // The first message opens the session; later ones reuse it
+    if (script.length === 0) {
+      setScript([
+        ...scriptMcpCall(participants, nextId.current++, 'initialize', {
+          protocolVersion: '2025-06-18',
+          capabilities: {},
+          clientInfo: { name: 'general-agent', version: '1.0.0' }
+        }, {
+          protocolVersion: '2025-06-18',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'expert-agent', version: '1.0.0' }
+        }),
+        { protocol: 'MCP', participants, direction: 'outgoing', body: { jsonrpc: '2.0', method: 'notifications/initialized' } }
+      ]);
+    }
     
     // Add user message
     const userMessage: Message = {
@@ -54,18 +72,11 @@ const MCPDemo = () => {
     // Simulate processing delay
     await new Promise(resolve => setTimeout(resolve, 800));
     
-    // Create first agent response with MCP protocol
+    // Create first agent response
     const agent1Message: Message = {
       id: `msg-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
       role: 'agent1',
       content: `Processing your request regarding "${userInput}"`,
-      metadata: {
-        protocol: 'MCP/1.0',
-        contextId: currentContextId,
-        intent: 'process_user_input',
-        confidence: 0.85,
-        requiresExpertise: true
-      },
       timestamp: Date.now(),
     };
     
@@ -74,45 +85,42 @@ const MCPDemo = () => {
     // Simulate processing delay
     await new Promise(resolve => setTimeout(resolve, 1200));
     
+    // Save input to use in closure
+    const inputValue = userInput;
+    const answer = `As the specialized expert agent, I can provide detailed information on your request about "${inputValue}". This shows how the ModelContextProtocol allows agents to maintain context across handoffs and collaborate effectively.`;
+    
+    // The handoff is a tools/call on the expert's server; its result carries the answer
+    const [call, result] = scriptMcpCall(participants, nextId.current++, 'tools/call', {
+      name: 'ask_expert',
+      arguments: { question: inputValue }
+    }, {
+      content: [{ type: 'text', text: answer }]
+    });
+    
     // Create handoff to second agent
     const handoffMessage: Message = {
       id: `msg-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
       role: 'agent1',
       content: `Delegating to specialized expert agent for domain-specific knowledge`,
-      metadata: {
-        protocol: 'MCP/1.0',
-        contextId: currentContextId,
-        intent: 'delegate',
-        targetAgent: 'expert-agent',
-        handoffReason: 'specialized_knowledge_required'
-      },
       timestamp: Date.now(),
     };
     
     setMessages(prev => [...prev, handoffMessage]);
+    setScript(prev => [...prev, call]);
     
     // Simulate processing delay
     await new Promise(resolve => setTimeout(resolve, 1500));
     
-    // Save input to use in closure
-    const inputValue = userInput;
-    
     // Create second agent response
     const agent2Message: Message = {
       id: `msg-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
       role: 'agent2',
-      content: `As the specialized expert agent, I can provide detailed information on your request about "${inputValue}". This shows how the ModelContextProtocol allows agents to maintain context across handoffs and collaborate effectively.`,
-      metadata: {
-        protocol: 'MCP/1.0',
-        contextId: currentContextId,
-        intent: 'provide_expert_response',
-        sourceContext: userMessage.id,
-        confidenceScore: 0.92
-      },
+      content: answer,
       timestamp: Date.now(),
     };
     
     setMessages(prev => [...prev, agent2Message]);
+    setScript(prev => [...prev, result]);
     
     setIsRunning(false);
   };
@@ -166,19 +174,6 @@ const MCPDemo = () => {
                         <p>{message.content}</p>
                       </div>
                     </div>
-                    
-                    {message.metadata && (
-                      <div className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                        <div className="max-w-[80%] rounded border border-border bg-muted/50 p-2 text-xs text-muted-foreground font-mono">
-                          <details>
-                            <summary className="cursor-pointer">MCP Metadata</summary>
-                            <pre className="mt-2 whitespace-pre-wrap">
-                              {JSON.stringify(message.metadata, null, 2)}
-                            </pre>
-                          </details>
-                        </div>
-                      </div>
-                    )}
                   </div>
                 ))}
               </div>
@@ -213,14 +208,23 @@ const MCPDemo = () => {
             </Button>
           </div>
           
+          <ProtocolInspector
+            frames={frames}
+            participants={participants}
+            title="MCP session"
+            exportName="mcp-demo"
+            emptyText="The MCP frames between the two agents appear here"
+            height={260}
+          />
+          
           <Separator />
           
           <div>
             <h3 className="text-lg font-medium mb-2">About MCP</h3>
             <p className="text-sm text-muted-foreground">
               ModelContextProtocol (MCP) provides a structured format for agent communication. 
-              The demo above shows how agents maintain conversation context, include metadata for 
-              coordination, and perform handoffs while preserving the full interaction history.
+              The demo above shows the general agent handing a question to an expert agent over an
+              MCP session: one initialize handshake, then a tools/call for each handoff.
             </p>
             <p className="text-sm text-muted-foreground mt-2">
               Learn more at <a href="https://modelcontextprotocol.io/introduction" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">modelcontextprotocol.io</a> and explore the <a href="https://github.com/microsoft/mcp" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">Microsoft MCP GitHub repository</a>.
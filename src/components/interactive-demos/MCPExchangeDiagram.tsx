@@ -0,0 +1,107 @@
+import { useMemo } from 'react'
+import CommunicationDiagram, { CommunicationMessage, CommunicationNode, messagePath } from '../concepts/CommunicationDiagram'
+import { isRequest, isResponse, McpWireMessage } from '@/lib/mcp'
+
+interface MCPExchangeDiagramProps {
+  wire: McpWireMessage[]
+  serverName: string
+  toolCount: number
+  resourceCount: number
+  promptCount: number
+}
+
+// Frames drawn at once; older ones only stay in the wire log
+const VISIBLE_FRAMES = 6
+
+// Methods that reach into one of the server's capabilities, and the argument naming the item
+const capabilityMethods: Record<string, { nodeId: string; param: string }> = {
+  'tools/call': { nodeId: 'tools', param: 'name' },
+  'resources/read': { nodeId: 'resources', param: 'uri' },
+  'prompts/get': { nodeId: 'prompts', param: 'name' }
+}
+
+const shorten = (text: string, length = 18) => (text.length > length ? `${text.slice(0, length - 1)}…` : text)
+
+/**
+ * The client, the server and its tools, resources and prompts drawn like the Agent
+ * Communication Playground, with the latest JSON-RPC frames as messages between them
+ */
+const MCPExchangeDiagram = ({ wire, serverName, toolCount, resourceCount, promptCount }: MCPExchangeDiagramProps) => {
+  const { nodes, messages } = useMemo(() => {
+    // Request id -> method and capability item, to route responses back through the capability
+    const requests = new Map<string, { method: string; item?: string }>()
+    const lastItem: Record<string, string> = {}
+    const flows: Omit<CommunicationMessage, 'path'>[] = []
+    const statuses: Record<string, CommunicationNode['status']> = {}
+
+    wire.forEach(frame => {
+      const message = frame.message
+      const base = { timestamp: frame.timestamp }
+      if (!message) {
+        flows.push({ ...base, id: `frame-${frame.seq}`, from: 'client', to: 'server', content: 'invalid JSON', type: 'data' })
+        return
+      }
+      if (frame.direction === 'outgoing' && 'method' in message) {
+        const capability = capabilityMethods[message.method]
+        const item = capability ? String(message.params?.[capability.param] ?? '') : undefined
+        if (isRequest(message)) requests.set(String(message.id), { method: message.method, item })
+        const handshake = message.method === 'initialize' || message.method.startsWith('notifications/')
+        flows.push({ ...base, id: `frame-${frame.seq}`, from: 'client', to: 'server', content: shorten(message.method), type: handshake ? 'protocol_handshake' : 'query' })
+        if (capability) {
+          lastItem[capability.nodeId] = item ?? ''
+          flows.push({ ...base, id: `frame-${frame.seq}-call`, from: 'server', to: capability.nodeId, content: shorten(item || message.method), type: 'tool_call' })
+        }
+        return
+      }
+      if (frame.direction === 'incoming' && isResponse(message)) {
+        const request = message.id === null ? undefined : requests.get(String(message.id))
+        const capability = request ? capabilityMethods[request.method] : undefined
+        const failed = 'error' in message
+        if (capability && !failed) {
+          flows.push({ ...base, id: `frame-${frame.seq}-data`, from: capability.nodeId, to: 'server', content: 'data', type: 'data' })
+        }
+        flows.push({
+          ...base,
+          id: `frame-${frame.seq}`,
+          from: 'server',
+          to: 'client',
+          content: failed ? `error ${message.error.code}` : `result #${message.id}`,
+          type: failed ? 'data' : 'response'
+        })
+        return
+      }
+      // Notifications and requests the server starts on its own
+      flows.push({ ...base, id: `frame-${frame.seq}`, from: 'server', to: 'client', content: shorten('method' in message ? message.method : 'frame'), type: 'protocol_handshake' })
+    })
+
+    const latest = flows.slice(-VISIBLE_FRAMES)
+    const last = latest[latest.length - 1]
+    if (last) {
+      statuses[last.from] = 'responding'
+      statuses[last.to] = 'processing'
+      // Error responses are the only data flowing from the server to the client
+      if (last.from === 'server' && last.to === 'client' && last.type === 'data') statuses.server = 'error'
+    }
+
+    const capabilityLabel = (name: string, nodeId: string, count: number) =>
+      `${name} (${count})${lastItem[nodeId] ? `\n${shorten(lastItem[nodeId].split('/').pop() ?? '', 12)}` : ''}`
+
+    const layout: CommunicationNode[] = [
+      { id: 'client', label: 'MCP\nClient', x: 60, y: 150, width: 100, height: 60, type: 'user', status: 'idle', description: 'The JSON-RPC client running in this page' },
+      { id: 'server', label: `MCP Server\n${shorten(serverName, 16)}`, x: 340, y: 140, width: 140, height: 80, type: 'mcp_server', status: 'idle', description: serverName },
+      { id: 'tools', label: capabilityLabel('Tools', 'tools', toolCount), x: 650, y: 40, width: 120, height: 60, type: 'tool', status: 'idle', description: 'Tools the server exposes' },
+      { id: 'resources', label: capabilityLabel('Resources', 'resources', resourceCount), x: 650, y: 150, width: 120, height: 60, type: 'database', status: 'idle', description: 'Resources the server exposes' },
+      { id: 'prompts', label: capabilityLabel('Prompts', 'prompts', promptCount), x: 650, y: 260, width: 120, height: 60, type: 'api', status: 'idle', description: 'Prompts the server exposes' }
+    ]
+    const nodeMap = new Map(layout.map(node => [node.id, node]))
+
+    return {
+      nodes: layout.map(node => ({ ...node, status: statuses[node.id] ?? 'idle' })),
+      messages: latest.map(flow => ({ ...flow, path: messagePath(nodeMap.get(flow.from)!, nodeMap.get(flow.to)!) }))
+    }
+  }, [wire, serverName, toolCount, resourceCount, promptCount])
+
+  return <CommunicationDiagram nodes={nodes} messages={messages} height={360} />
+}
+
+export default MCPExchangeDiagram
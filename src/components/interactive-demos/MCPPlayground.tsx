@@ -0,0 +1,541 @@
+import { useState, useEffect, useRef, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Plug, PlugsConnected, Wrench, FileText, ChatText, PaperPlaneRight } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import JsonSchemaForm from './JsonSchemaForm'
+import MCPExchangeDiagram from './MCPExchangeDiagram'
+import ProtocolInspector from './ProtocolInspector'
+import {
+  createMcpClient,
+  createRemoteTransport,
+  createWorkerTransport,
+  remoteTransportKinds,
+  sampleFromSchema,
+  sampleMcpServers,
+  validateArguments,
+  McpClient,
+  McpTransport,
+  McpInitializeResult,
+  McpTool,
+  McpResource,
+  McpPrompt,
+  McpCallToolResult,
+  McpResourceContents,
+  McpGetPromptResult,
+  McpWireMessage,
+  RemoteTransportKind,
+  SampleMcpServer
+} from '@/lib/mcp'
+import { traceMcpWire } from '@/lib/protocolTrace'
+
+type ConnectionStatus = 'disconnected' | 'connecting' | 'connected'
+
+// A bundled sample server, or a server the user runs reached over the network
+type ServerSource =
+  | { type: 'sample'; id: SampleMcpServer['id'] }
+  | { type: 'remote'; kind: RemoteTransportKind }
+
+const sourceKey = (source: ServerSource) => (source.type === 'sample' ? `sample:${source.id}` : `remote:${source.kind}`)
+
+const sourceFromKey = (key: string): ServerSource => {
+  const [type, value] = key.split(':')
+  return type === 'remote'
+    ? { type: 'remote', kind: value as RemoteTransportKind }
+    : { type: 'sample', id: value as SampleMcpServer['id'] }
+}
+
+// "Name: value" per line
+const parseHeaders = (text: string): Record<string, string> =>
+  Object.fromEntries(text
+    .split('\n')
+    .map(line => line.split(':'))
+    .filter(([name, ...value]) => name.trim() && value.length > 0)
+    .map(([name, ...value]) => [name.trim(), value.join(':').trim()]))
+
+const pretty = (value: unknown) => JSON.stringify(value, null, 2)
+
+const defaultToolArgs = (tool?: McpTool) =>
+  (tool ? sampleFromSchema(tool.inputSchema) : {}) as Record<string, unknown>
+
+const rawExample = pretty({ jsonrpc: '2.0', id: 'raw-1', method: 'tools/list' })
+
+/**
+ * A real MCP client talking JSON-RPC 2.0 to sample servers that run in web workers, or
+ * to the user's own server over Streamable HTTP, HTTP + SSE or WebSocket. Every frame
+ * that crosses the transport is shown as it was sent.
+ */
+const MCPPlayground = () => {
+  const [source, setSource] = useState<ServerSource>({ type: 'sample', id: 'filesystem' })
+  const [remoteUrl, setRemoteUrl] = useState('')
+  const [remoteHeaders, setRemoteHeaders] = useState('')
+  const [status, setStatus] = useState<ConnectionStatus>('disconnected')
+  const [session, setSession] = useState<McpInitializeResult | null>(null)
+  const [tools, setTools] = useState<McpTool[]>([])
+  const [resources, setResources] = useState<McpResource[]>([])
+  const [prompts, setPrompts] = useState<McpPrompt[]>([])
+  const [wire, setWire] = useState<McpWireMessage[]>([])
+
+  const [toolName, setToolName] = useState('')
+  const [toolArgs, setToolArgs] = useState<Record<string, unknown>>({})
+  const [toolArgsText, setToolArgsText] = useState('{}')
+  const [editArgsAsJson, setEditArgsAsJson] = useState(false)
+  const [toolResult, setToolResult] = useState<McpCallToolResult | null>(null)
+  const [resourceUri, setResourceUri] = useState('')
+  const [resourceContents, setResourceContents] = useState<McpResourceContents[]>([])
+  const [promptName, setPromptName] = useState('')
+  const [promptArgs, setPromptArgs] = useState<Record<string, string>>({})
+  const [promptResult, setPromptResult] = useState<McpGetPromptResult | null>(null)
+  const [rawMessage, setRawMessage] = useState(rawExample)
+  const [busy, setBusy] = useState(false)
+
+  const clientRef = useRef<McpClient | null>(null)
+
+  useEffect(() => () => clientRef.current?.close(), [])
+
+  const selectedTool = tools.find(tool => tool.name === toolName)
+  const selectedPrompt = prompts.find(prompt => prompt.name === promptName)
+  const argumentErrors = useMemo(() => {
+    if (!selectedTool) return []
+    if (!editArgsAsJson) return validateArguments(selectedTool.inputSchema, toolArgs)
+    try {
+      return validateArguments(selectedTool.inputSchema, JSON.parse(toolArgsText))
+    } catch {
+      return ['Arguments are not valid JSON']
+    }
+  }, [selectedTool, toolArgs, toolArgsText, editArgsAsJson])
+
+  const run = async (action: (client: McpClient) => Promise<void>) => {
+    const client = clientRef.current
+    if (!client) return
+    setBusy(true)
+    try {
+      await action(client)
+    } catch (error) {
+      console.error('MCP request failed:', error)
+      toast.error(error instanceof Error ? error.message : 'MCP request failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const disconnect = () => {
+    clientRef.current?.close()
+    clientRef.current = null
+    setStatus('disconnected')
+    setSession(null)
+    setTools([])
+    setResources([])
+    setPrompts([])
+    setToolResult(null)
+    setResourceContents([])
+    setPromptResult(null)
+  }
+
+  const selectTool = (tool?: McpTool) => {
+    const args = defaultToolArgs(tool)
+    setToolName(tool?.name ?? '')
+    setToolArgs(args)
+    setToolArgsText(pretty(args))
+    setToolResult(null)
+  }
+
+  const openTransport = (): McpTransport => {
+    if (source.type === 'sample') return createWorkerTransport(source.id)
+    const url = remoteUrl.trim()
+    try {
+      new URL(url)
+    } catch {
+      throw new Error(`"${url}" is not a valid URL`)
+    }
+    return createRemoteTransport(source.kind, url, { headers: parseHeaders(remoteHeaders) })
+  }
+
+  const connect = async () => {
+    disconnect()
+    setWire([])
+    let transport: McpTransport
+    try {
+      transport = openTransport()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not open the connection')
+      return
+    }
+    setStatus('connecting')
+    const client = createMcpClient(transport, {
+      onWire: frame => setWire(current => [...current, frame]),
+      // Servers announce changed lists; fetch them again so the tabs stay current
+      onNotification: notification => {
+        if (clientRef.current !== client) return
+        if (notification.method === 'notifications/tools/list_changed') client.listTools().then(setTools).catch(console.warn)
+        if (notification.method === 'notifications/resources/list_changed') client.listResources().then(setResources).catch(console.warn)
+        if (notification.method === 'notifications/prompts/list_changed') client.listPrompts().then(setPrompts).catch(console.warn)
+      }
+    })
+    clientRef.current = client
+    try {
+      const result = await client.initialize()
+      const [toolList, resourceList, promptList] = await Promise.all([
+        result.capabilities.tools ? client.listTools() : [],
+        result.capabilities.resources ? client.listResources() : [],
+        result.capabilities.prompts ? client.listPrompts() : []
+      ])
+      if (clientRef.current !== client) return
+      setSession(result)
+      setTools(toolList)
+      setResources(resourceList)
+      setPrompts(promptList)
+      selectTool(toolList[0])
+      setResourceUri(resourceList[0]?.uri ?? '')
+      setPromptName(promptList[0]?.name ?? '')
+      setPromptArgs({})
+      setStatus('connected')
+    } catch (error) {
+      console.error('Failed to connect to MCP server:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to connect to MCP server')
+      disconnect()
+    }
+  }
+
+  const callTool = () => run(async client => {
+    let args = toolArgs
+    if (editArgsAsJson) {
+      try {
+        args = JSON.parse(toolArgsText)
+      } catch {
+        toast.error('Tool arguments must be valid JSON')
+        return
+      }
+    }
+    setToolResult(await client.callTool(toolName, args))
+  })
+
+  const readResource = () => run(async client => {
+    setResourceContents(await client.readResource(resourceUri))
+  })
+
+  const getPrompt = () => run(async client => {
+    setPromptResult(await client.getPrompt(promptName, promptArgs))
+  })
+
+  const refreshResources = () => run(async client => {
+    setResources(await client.listResources())
+  })
+
+  const toggleJsonArgs = (asJson: boolean) => {
+    if (asJson) {
+      setToolArgsText(pretty(toolArgs))
+    } else {
+      try {
+        setToolArgs(JSON.parse(toolArgsText))
+      } catch {
+        toast.error('Fix the JSON before switching back to the form')
+        return
+      }
+    }
+    setEditArgsAsJson(asJson)
+  }
+
+  const sendRaw = () => {
+    if (!clientRef.current || !rawMessage.trim()) return
+    clientRef.current.sendRaw(rawMessage.trim()).catch(error => {
+      toast.error(error instanceof Error ? error.message : 'Failed to send frame')
+    })
+  }
+
+  const sample = source.type === 'sample' ? sampleMcpServers.find(entry => entry.id === source.id) : undefined
+  const remoteKind = source.type === 'remote' ? remoteTransportKinds.find(entry => entry.kind === source.kind) : undefined
+  const serverName = session?.serverInfo.title ?? session?.serverInfo.name ?? sample?.name ?? (remoteUrl || 'Your server')
+  const participants = useMemo(
+    () => ({ client: 'Client', server: serverName, endpoint: source.type === 'sample' ? `worker://${source.id}` : remoteUrl }),
+    [serverName, source, remoteUrl]
+  )
+  const frames = useMemo(() => traceMcpWire(wire, participants), [wire, participants])
+  const connected = status === 'connected'
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PlugsConnected size={20} /> Live MCP Playground
+        </CardTitle>
+        <CardDescription>
+          A working MCP client speaking JSON-RPC 2.0 to a sample server in a web worker, or to
+          your own server by URL. Each connection runs the real <code>initialize</code> handshake;
+          the wire log shows every frame and checks it against the MCP schema.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Server</Label>
+            <Select
+              value={sourceKey(source)}
+              onValueChange={(value) => setSource(sourceFromKey(value))}
+              disabled={status !== 'disconnected'}
+            >
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Sample servers</SelectLabel>
+                  {sampleMcpServers.map(entry => (
+                    <SelectItem key={entry.id} value={sourceKey({ type: 'sample', id: entry.id })}>{entry.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+                <SelectGroup>
+                  <SelectLabel>Your server</SelectLabel>
+                  {remoteTransportKinds.map(entry => (
+                    <SelectItem key={entry.kind} value={sourceKey({ type: 'remote', kind: entry.kind })}>{entry.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+          {remoteKind && (
+            <div className="space-y-2 flex-1 min-w-[240px]">
+              <Label htmlFor="mcp-remote-url">Server URL</Label>
+              <Input
+                id="mcp-remote-url"
+                placeholder={remoteKind.placeholder}
+                value={remoteUrl}
+                onChange={(e) => setRemoteUrl(e.target.value)}
+                disabled={status !== 'disconnected'}
+              />
+            </div>
+          )}
+          {status === 'disconnected' ? (
+            <Button onClick={connect} className="flex items-center gap-1">
+              <Plug size={16} /> Connect
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={disconnect} className="flex items-center gap-1">
+              <Plug size={16} /> Disconnect
+            </Button>
+          )}
+          <Badge variant={connected ? 'default' : 'outline'}>{status}</Badge>
+          {sample && <p className="text-sm text-muted-foreground basis-full">{sample.description}</p>}
+        </div>
+
+        {remoteKind && status === 'disconnected' && (
+          <div className="space-y-2">
+            <Label htmlFor="mcp-remote-headers">HTTP headers (one "Name: value" per line)</Label>
+            <Textarea
+              id="mcp-remote-headers"
+              className="font-mono text-xs min-h-[50px]"
+              placeholder="Authorization: Bearer <token>"
+              value={remoteHeaders}
+              onChange={(e) => setRemoteHeaders(e.target.value)}
+              disabled={source.type === 'remote' && source.kind === 'websocket'}
+            />
+            <p className="text-xs text-muted-foreground">
+              The server must allow this page's origin with CORS. Browsers can't add headers to
+              WebSocket handshakes or SSE streams, and Streamable HTTP servers need to expose the
+              Mcp-Session-Id header for sessions to work.
+            </p>
+          </div>
+        )}
+
+        {session && (
+          <div className="rounded-lg border p-3 text-sm space-y-1">
+            <div>
+              <span className="font-medium">{session.serverInfo.title ?? session.serverInfo.name}</span>{' '}
+              <span className="text-muted-foreground">v{session.serverInfo.version} · protocol {session.protocolVersion}</span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {Object.keys(session.capabilities).map(capability => (
+                <Badge key={capability} variant="secondary">{capability}</Badge>
+              ))}
+            </div>
+            {session.instructions && <p className="text-muted-foreground">{session.instructions}</p>}
+          </div>
+        )}
+
+        {status !== 'disconnected' && (
+          <MCPExchangeDiagram
+            wire={wire}
+            serverName={serverName}
+            toolCount={tools.length}
+            resourceCount={resources.length}
+            promptCount={prompts.length}
+          />
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Tabs defaultValue="tools">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="tools" className="flex items-center gap-1"><Wrench size={14} /> Tools</TabsTrigger>
+              <TabsTrigger value="resources" className="flex items-center gap-1"><FileText size={14} /> Resources</TabsTrigger>
+              <TabsTrigger value="prompts" className="flex items-center gap-1"><ChatText size={14} /> Prompts</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="tools" className="space-y-3 pt-3">
+              <Select
+                value={toolName}
+                onValueChange={(value) => selectTool(tools.find(tool => tool.name === value))}
+                disabled={!connected}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Connect to list tools" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tools.map(tool => <SelectItem key={tool.name} value={tool.name}>{tool.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              {selectedTool && <p className="text-sm text-muted-foreground">{selectedTool.description}</p>}
+              <div className="flex items-center justify-between">
+                <Label>Arguments</Label>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="mcp-args-json" className="text-xs font-normal">Edit as JSON</Label>
+                  <Switch id="mcp-args-json" checked={editArgsAsJson} onCheckedChange={toggleJsonArgs} />
+                </div>
+              </div>
+              {editArgsAsJson ? (
+                <Textarea
+                  className="font-mono text-xs min-h-[120px]"
+                  value={toolArgsText}
+                  onChange={(e) => setToolArgsText(e.target.value)}
+                  disabled={!connected}
+                />
+              ) : selectedTool && (
+                <JsonSchemaForm
+                  key={selectedTool.name}
+                  schema={selectedTool.inputSchema}
+                  value={toolArgs}
+                  onChange={setToolArgs}
+                  disabled={!connected}
+                  idPrefix="mcp-tool-arg"
+                />
+              )}
+              {argumentErrors.length > 0 && (
+                <ul className="text-xs text-amber-600 dark:text-amber-400 list-disc pl-4">
+                  {argumentErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+              <Button size="sm" onClick={callTool} disabled={!connected || busy || !toolName}>
+                tools/call
+              </Button>
+              {toolResult && (
+                <div className={`rounded-md border p-3 ${toolResult.isError ? 'border-destructive text-destructive' : ''}`}>
+                  {toolResult.content.map((item, index) => (
+                    <pre key={index} className="text-xs whitespace-pre-wrap">
+                      {item.type === 'text' ? item.text : item.resource.text}
+                    </pre>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="resources" className="space-y-3 pt-3">
+              <div className="flex gap-2">
+                <Select value={resourceUri} onValueChange={setResourceUri} disabled={!connected}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Connect to list resources" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {resources.map(resource => (
+                      <SelectItem key={resource.uri} value={resource.uri}>{resource.uri}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" variant="outline" onClick={refreshResources} disabled={!connected || busy}>
+                  resources/list
+                </Button>
+              </div>
+              <Button size="sm" onClick={readResource} disabled={!connected || busy || !resourceUri}>
+                resources/read
+              </Button>
+              {resourceContents.map(contents => (
+                <div key={contents.uri} className="rounded-md border p-3 space-y-1">
+                  <div className="text-xs text-muted-foreground">{contents.uri} · {contents.mimeType}</div>
+                  <pre className="text-xs whitespace-pre-wrap">{contents.text}</pre>
+                </div>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="prompts" className="space-y-3 pt-3">
+              <Select
+                value={promptName}
+                onValueChange={(value) => {
+                  setPromptName(value)
+                  setPromptArgs({})
+                  setPromptResult(null)
+                }}
+                disabled={!connected}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Connect to list prompts" />
+                </SelectTrigger>
+                <SelectContent>
+                  {prompts.map(prompt => <SelectItem key={prompt.name} value={prompt.name}>{prompt.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              {selectedPrompt && <p className="text-sm text-muted-foreground">{selectedPrompt.description}</p>}
+              {selectedPrompt?.arguments?.map(argument => (
+                <div key={argument.name} className="space-y-1">
+                  <Label htmlFor={`mcp-prompt-${argument.name}`}>
+                    {argument.name}{argument.required ? ' *' : ''}
+                  </Label>
+                  <Input
+                    id={`mcp-prompt-${argument.name}`}
+                    placeholder={argument.description}
+                    value={promptArgs[argument.name] ?? ''}
+                    onChange={(e) => setPromptArgs(current => ({ ...current, [argument.name]: e.target.value }))}
+                  />
+                </div>
+              ))}
+              <Button size="sm" onClick={getPrompt} disabled={!connected || busy || !promptName}>
+                prompts/get
+              </Button>
+              {promptResult && (
+                <div className="space-y-2">
+                  {promptResult.messages.map((message, index) => (
+                    <div key={index} className="rounded-md border p-3">
+                      <Badge variant="outline" className="mb-1">{message.role}</Badge>
+                      <pre className="text-xs whitespace-pre-wrap">
+                        {message.content.type === 'text' ? message.content.text : message.content.resource.text}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+
+          <div className="space-y-3">
+            <ProtocolInspector
+              frames={frames}
+              participants={participants}
+              title="Wire log"
+              exportName="mcp-session"
+              emptyText="Connect to a server to see the JSON-RPC traffic."
+              onClear={() => setWire([])}
+              height={360}
+            />
+            <Label htmlFor="mcp-raw">Send a raw frame</Label>
+            <Textarea
+              id="mcp-raw"
+              className="font-mono text-xs min-h-[90px]"
+              value={rawMessage}
+              onChange={(e) => setRawMessage(e.target.value)}
+              disabled={!connected}
+            />
+            <Button size="sm" variant="outline" onClick={sendRaw} disabled={!connected} className="flex items-center gap-1">
+              <PaperPlaneRight size={14} /> Send
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default MCPPlayground
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -9,6 +9,8 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { motion, AnimatePresence } from "framer-motion";
 import { ScrollArea } from '@/components/ui/scroll-area';
 import MCPArchitectureDiagram from '@/components/concepts/MCPArchitectureDiagram';
+import ProtocolInspector from './ProtocolInspector';
+import { ScriptedFrame, TraceParticipants, scriptMcpCall, traceScript } from '@/lib/protocolTrace';
 
 // Simplified version without ReactFlow to avoid rendering issues
 
@@ -21,16 +23,39 @@ interface SimulationStep {
     from: string;
     to: string;
     content: string;
-    metadata?: Record<string, any>;
   }[];
+  // MCP frames the step sends; hops inside the host or to the weather API have none
+  frames?: ScriptedFrame[];
 }
 
+const participants: TraceParticipants = { client: 'MCP Client', server: 'MCP Server', endpoint: 'https://weather.example.com/mcp' };
+
+const weatherTool = {
+  name: 'weather',
+  description: 'Get weather information',
+  inputSchema: { type: 'object', properties: { location: { type: 'string' } }, required: ['location'] }
+};
+
+const listTools = scriptMcpCall(participants, 2, 'tools/list', {}, {
+  tools: [
+    weatherTool,
+    { name: 'calculator', description: 'Perform calculations', inputSchema: { type: 'object', properties: { expression: { type: 'string' } } } },
+    { name: 'search', description: 'Search for information', inputSchema: { type: 'object', properties: { query: { type: 'string' } } } }
+  ]
+});
+
+const callWeather = scriptMcpCall(participants, 3, 'tools/call', { name: 'weather', arguments: { location: 'Seattle' } }, {
+  content: [{ type: 'text', text: 'Weather in Seattle: 65°F, Cloudy, 72% humidity' }],
+  structuredContent: { temperature: 65, condition: 'Cloudy', humidity: 72 }
+});
+
 const MCPVisualDemo = () => {
   const [isRunning, setIsRunning] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [currentStep, setCurrentStep] = useState<number | null>(null);
   const [selectedTab, setSelectedTab] = useState('messages');
   const [autoPlay, setAutoPlay] = useState(true);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
   
   // Simulation steps that will be played
   const simulationSteps: SimulationStep[] = [
@@ -84,18 +109,27 @@ const MCPVisualDemo = () => {
     },
     {
       id: 5,
-      description: "MCP Client requests available tools from MCP Server",
+      description: "MCP Client opens a session with the MCP Server and requests its tools",
       nodeHighlights: ['mcp_client', 'mcp_server'],
       messages: [
         {
           from: "MCP Client",
           to: "MCP Server",
-          content: "List available tools",
-          metadata: {
-            "protocol": "MCP/1.0",
-            "request_type": "list_tools"
-          }
+          content: "List available tools"
         }
+      ],
+      frames: [
+        ...scriptMcpCall(participants, 1, 'initialize', {
+          protocolVersion: '2025-06-18',
+          capabilities: {},
+          clientInfo: { name: 'weather-agent', version: '1.0.0' }
+        }, {
+          protocolVersion: '2025-06-18',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'weather-server', version: '1.0.0' }
+        }),
+        { protocol: 'MCP', participants, direction: 'outgoing', body: { jsonrpc: '2.0', method: 'notifications/initialized' } },
+        listTools[0]
       ]
     },
     {
@@ -106,18 +140,10 @@ const MCPVisualDemo = () => {
         {
           from: "MCP Server",
           to: "MCP Client",
-          content: "Available tools: weather, calculator, search",
-          metadata: {
-            "protocol": "MCP/1.0",
-            "response_type": "tool_list",
-            "tools": [
-              {"name": "weather", "description": "Get weather information"},
-              {"name": "calculator", "description": "Perform calculations"},
-              {"name": "search", "description": "Search for information"}
-            ]
-          }
+          content: "Available tools: weather, calculator, search"
         }
-      ]
+      ],
+      frames: [listTools[1]]
     },
     {
       id: 7,
@@ -127,15 +153,10 @@ const MCPVisualDemo = () => {
         {
           from: "MCP Client",
           to: "MCP Server",
-          content: "Execute weather tool for Seattle",
-          metadata: {
-            "protocol": "MCP/1.0",
-            "request_type": "execute_tool",
-            "tool_name": "weather",
-            "parameters": {"location": "Seattle"}
-          }
+          content: "Execute weather tool for Seattle"
         }
-      ]
+      ],
+      frames: [callWeather[0]]
     },
     {
       id: 8,
@@ -169,19 +190,10 @@ const MCPVisualDemo = () => {
         {
           from: "MCP Server",
           to: "MCP Client",
-          content: "Weather in Seattle: 65°F, Cloudy, 72% humidity",
-          metadata: {
-            "protocol": "MCP/1.0",
-            "response_type": "tool_result",
-            "tool_name": "weather",
-            "result": {
-              "temperature": 65,
-              "condition": "Cloudy",
-              "humidity": 72
-            }
-          }
+          content: "Weather in Seattle: 65°F, Cloudy, 72% humidity"
         }
-      ]
+      ],
+      frames: [callWeather[1]]
     },
     {
       id: 11,
@@ -233,6 +245,12 @@ const MCPVisualDemo = () => {
     }
   ];
   
+  // MCP frames of every step shown so far
+  const frames = useMemo(() => traceScript(
+    currentStep === null ? [] : simulationSteps.slice(0, currentStep + 1).flatMap(step => step.frames ?? []),
+    startedAt
+  ), [currentStep, startedAt]);
+  
   // Reset the simulation
   const resetSimulation = () => {
     setIsRunning(false);
@@ -245,6 +263,7 @@ const MCPVisualDemo = () => {
     setIsRunning(true);
     setIsPaused(false);
     setCurrentStep(0);
+    setStartedAt(Date.now());
     
     if (autoPlay) {
       advanceSimulation();
@@ -373,15 +392,6 @@ const MCPVisualDemo = () => {
                             
                             <div className="p-3">
                               <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                              
-                              {message.metadata && (
-                                <div className="mt-3 pt-3 border-t border-border">
-                                  <div className="text-xs font-medium text-muted-foreground mb-1">MCP Metadata:</div>
-                                  <pre className="text-xs bg-muted/50 p-2 rounded overflow-x-auto">
-                                    {JSON.stringify(message.metadata, null, 2)}
-                                  </pre>
-                                </div>
-                              )}
                             </div>
                           </motion.div>
                         ))}
@@ -465,6 +475,15 @@ const MCPVisualDemo = () => {
                 </label>
               </div>
             </div>
+            
+            <ProtocolInspector
+              frames={frames}
+              participants={participants}
+              title="MCP session"
+              exportName="mcp-weather-demo"
+              emptyText="MCP frames appear once the MCP Client contacts the server"
+              height={260}
+            />
           </TabsContent>
         </Tabs>
         
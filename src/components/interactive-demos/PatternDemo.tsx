@@ -5,9 +5,13 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { PatternData } from '@/lib/data/patterns';
-import { Play, ArrowsClockwise, CheckCircle, Clock, WarningCircle, ArrowBendDownRight } from "@phosphor-icons/react";
+import { Play, ArrowsClockwise, CheckCircle, Clock, WarningCircle, ArrowBendDownRight, Lightning } from "@phosphor-icons/react";
 import { useTheme } from '@/components/theme/ThemeProvider';
+import { useLLM } from '@/contexts/LLMContext';
+import { runLivePattern, LiveNodeTrace } from '@/lib/simulation';
 import StandardFlowVisualizerWithProvider from '../visualization/StandardFlowVisualizer';
 import { createStableNodes, createStableEdges } from '@/lib/utils/flows/StableFlowUtils';
 
@@ -241,6 +245,11 @@ interface StepState {
   result?: string;
   startTime?: number;
   endTime?: number;
+  // Live mode only: the real prompt, usage and latency of the latest visit
+  prompt?: string;
+  tokens?: number;
+  latencyMs?: number;
+  visits?: number;
 }
 
 interface DataFlowMessage {
@@ -356,6 +365,9 @@ const CustomDemoNode = React.memo(({ data, id }: { data: any, id: string }) => {
   const resultText = data.result ? 
     (data.result.length > 40 ? `${data.result.substring(0, 40)}...` : data.result) : 
     null;
+  const metricsText = typeof data.tokens === 'number'
+    ? `${data.tokens} tokens · ${data.latencyMs ?? 0} ms`
+    : null;
 
   return (
     <div style={getNodeStyle()}>
@@ -372,6 +384,10 @@ const CustomDemoNode = React.memo(({ data, id }: { data: any, id: string }) => {
             {resultText}
           </div>
         )}
+
+        {metricsText && (
+          <div className="mt-1 text-[10px] text-muted-foreground">{metricsText}</div>
+        )}
       </div>
     </div>
   );
@@ -413,6 +429,13 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
   const [animationSpeed, setAnimationSpeed] = useState<number>(1); // Default to normal speed (1x)
   const [animationMode, setAnimationMode] = useState<'auto' | 'step-by-step'>('auto'); 
   
+  // Live mode runs the pattern against the configured model instead of canned steps
+  const { provider, complete } = useLLM();
+  const [liveMode, setLiveMode] = useState(false);
+  const [liveTraces, setLiveTraces] = useState<LiveNodeTrace[]>([]);
+  const [runOutputs, setRunOutputs] = useState<{ canned?: string; live?: string }>({});
+  const liveAbortRef = useRef<AbortController | null>(null);
+  
   // Prepare nodes and edges for visualization with state
   const initialNodes = useMemo(() => createStableNodes(patternData.nodes?.map(node => ({
     ...node,
@@ -461,6 +484,7 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
   // Sync demoNodes with initialNodes when pattern changes
   useEffect(() => {
     setDemoNodes(initialNodes);
+    setRunOutputs({});
   }, [initialNodes]);
   
   // Flow container ref (simple version without useReactFlow dependency)
@@ -472,6 +496,8 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
   
   // Reset the demo state
   const resetDemo = useCallback(() => {
+    liveAbortRef.current?.abort();
+    liveAbortRef.current = null;
     setIsRunning(false);
     setOutput(null);
     setSteps({});
@@ -479,13 +505,14 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
     setDataFlows([]);
     setIterations(0);
     setWaitingForNextStep(false);
+    setLiveTraces([]);
     
     // Reset nodes to idle state while preserving positions
     setDemoNodes(prev => prev.map(node => ({
       ...node,
       // Preserve the position explicitly
       position: node.position,
-      data: { ...node.data, status: 'idle', result: undefined }
+      data: { ...node.data, status: 'idle', result: undefined, tokens: undefined, latencyMs: undefined }
     })));
     
     // Reset flow visualization
@@ -605,6 +632,7 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
       // If output node, set final output
       if (node.data.nodeType === 'output') {
         setOutput(result);
+        setRunOutputs(prev => ({ ...prev, canned: result }));
         return;
       }
       
@@ -640,6 +668,85 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
     }
   };
 
+  // Record a live trace against its node in the log and the visualizer
+  const applyLiveTrace = useCallback((trace: LiveNodeTrace) => {
+    setDemoNodes(prev => prev.map(node =>
+      node.id === trace.nodeId
+        ? {
+            ...node,
+            position: node.position,
+            data: {
+              ...node.data,
+              status: trace.status,
+              result: trace.error || trace.response,
+              tokens: trace.usage?.totalTokens,
+              latencyMs: trace.latencyMs
+            }
+          }
+        : node
+    ));
+
+    setSteps(prev => ({
+      ...prev,
+      [trace.nodeId]: {
+        ...prev[trace.nodeId],
+        status: trace.status,
+        result: trace.error || trace.response,
+        prompt: trace.prompt,
+        tokens: trace.usage?.totalTokens,
+        latencyMs: trace.latencyMs,
+        visits: trace.visit,
+        endTime: trace.status === 'running' ? undefined : Date.now()
+      }
+    }));
+  }, []);
+
+  // Execute the pattern for real, streaming every node's response as it arrives
+  const runLiveDemo = async () => {
+    const controller = new AbortController();
+    liveAbortRef.current = controller;
+
+    try {
+      const result = await runLivePattern(patternData, userInput, complete, {
+        beforeNode: async () => {
+          if (animationMode === 'step-by-step' && stepControllerRef.current) {
+            await waitForNextStep();
+          }
+        },
+        onNodeStart: (trace) => {
+          setCurrentNodeId(trace.nodeId);
+          setIterations(prev => prev + 1);
+          setSteps(prev => ({
+            ...prev,
+            [trace.nodeId]: { ...prev[trace.nodeId], status: 'running', startTime: Date.now() }
+          }));
+          applyLiveTrace(trace);
+        },
+        onNodeToken: applyLiveTrace,
+        onNodeComplete: (trace) => {
+          applyLiveTrace(trace);
+          setLiveTraces(prev => [...prev, trace]);
+        },
+        onMessage: (edge, content) => {
+          const sourceType = patternData.nodes.find(node => node.id === edge.source)?.data?.nodeType;
+          createDataFlow(edge.source, edge.target, content, sourceType === 'llm' ? 'response' : 'message');
+        }
+      }, {
+        patternName: patternData.name,
+        patternDescription: patternData.description,
+        signal: controller.signal
+      });
+
+      const finalOutput = result.truncated
+        ? `${result.output}\n\n(Stopped after the maximum number of steps.)`
+        : result.output;
+      setOutput(finalOutput);
+      setRunOutputs(prev => ({ ...prev, live: finalOutput }));
+    } finally {
+      if (liveAbortRef.current === controller) liveAbortRef.current = null;
+    }
+  };
+
   // Run the demo
   const runDemo = async () => {
     if (!userInput.trim() || isRunning || !patternData || !Array.isArray(patternData.nodes)) return;
@@ -662,12 +769,17 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
       // Apply a small delay to ensure UI is ready
       await new Promise(resolve => setTimeout(resolve, 400));
       
-      // Process input node
-      await processNode(inputNode.id);
+      if (liveMode) {
+        await runLiveDemo();
+      } else {
+        // Process input node
+        await processNode(inputNode.id);
+      }
       
       setIsRunning(false);
       setWaitingForNextStep(false);
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
       console.error('Error in demo:', error);
       setIsRunning(false);
       setWaitingForNextStep(false);
@@ -746,6 +858,26 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
             </Button>
           </div>
           
+          <div className="flex justify-between items-center">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="pattern-demo-live-mode"
+                checked={liveMode}
+                onCheckedChange={setLiveMode}
+                disabled={isRunning}
+              />
+              <Label htmlFor="pattern-demo-live-mode" className="text-sm font-medium flex items-center gap-1">
+                <Lightning size={14} />
+                Live mode
+              </Label>
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {liveMode
+                ? `Runs each step against ${provider.label}${provider.isAvailable() ? '' : ' (unavailable)'}`
+                : 'Plays a canned walkthrough of the pattern'}
+            </span>
+          </div>
+          
           <div className="flex justify-between items-center">
             <div className="text-sm font-medium">Animation Mode:</div>
             <div className="flex items-center gap-2">
@@ -884,7 +1016,10 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
                           
                           {step.status !== 'idle' && (
                             <span className="text-xs text-muted-foreground">
-                              {getExecutionTime(step)}
+                              {typeof step.tokens === 'number'
+                                ? `${step.tokens} tokens · ${step.latencyMs ?? 0} ms`
+                                : getExecutionTime(step)}
+                              {step.visits && step.visits > 1 ? ` · visit ${step.visits}` : ''}
                             </span>
                           )}
                         </div>
@@ -893,10 +1028,17 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
                           <div className="text-sm mt-1">
                             <div className="flex items-start gap-1 text-muted-foreground">
                               <ArrowBendDownRight size={14} className="mt-1" />
-                              <span>{step.result}</span>
+                              <span className="whitespace-pre-wrap">{step.result}</span>
                             </div>
                           </div>
                         )}
+                        
+                        {step.prompt && (
+                          <details className="mt-2 text-xs">
+                            <summary className="cursor-pointer text-muted-foreground">Prompt sent to the model</summary>
+                            <pre className="mt-1 p-2 rounded bg-muted/50 whitespace-pre-wrap font-mono">{step.prompt}</pre>
+                          </details>
+                        )}
                       </div>
                     );
                   })}
@@ -912,10 +1054,35 @@ const PatternDemo = React.memo(({ patternData }: PatternDemoProps) => {
               <div className="space-y-2">
                 <h3 className="text-lg font-medium">Final Output</h3>
                 <Alert>
-                  <AlertDescription>
+                  <AlertDescription className="whitespace-pre-wrap">
                     {output}
                   </AlertDescription>
                 </Alert>
+                {liveTraces.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {liveTraces.length} steps · {liveTraces.reduce((sum, trace) => sum + (trace.usage?.totalTokens ?? 0), 0)} tokens · {liveTraces.reduce((sum, trace) => sum + (trace.latencyMs ?? 0), 0)} ms of model time
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+          
+          {runOutputs.canned && runOutputs.live && (
+            <>
+              <Separator />
+              
+              <div className="space-y-2">
+                <h3 className="text-lg font-medium">Canned vs. Live</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="p-3 rounded-md border border-border">
+                    <Badge variant="outline" className="mb-2">Canned walkthrough</Badge>
+                    <p className="text-sm whitespace-pre-wrap">{runOutputs.canned}</p>
+                  </div>
+                  <div className="p-3 rounded-md border border-primary/30 bg-primary/5">
+                    <Badge className="mb-2">Live trace</Badge>
+                    <p className="text-sm whitespace-pre-wrap">{runOutputs.live}</p>
+                  </div>
+                </div>
               </div>
             </>
           )}
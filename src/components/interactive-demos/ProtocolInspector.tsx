@@ -0,0 +1,210 @@
+import { useState, useMemo } from 'react'
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { ScrollArea } from '@/components/ui/scroll-area'
+import CodeBlock from '@/components/ui/CodeBlock'
+import { ArrowRight, ArrowLeft, Trash, DownloadSimple, TreeStructure, WarningCircle } from "@phosphor-icons/react"
+import { toast } from 'sonner'
+import { toHar, toMermaid, TraceFrame, TraceParticipants } from '@/lib/protocolTrace'
+
+interface ProtocolInspectorProps {
+  frames: TraceFrame[]
+  participants: TraceParticipants
+  // Heading, also used as the title of exported diagrams
+  title: string
+  // File name of exports, without extension
+  exportName: string
+  emptyText: string
+  onClear?: () => void
+  height?: number
+}
+
+const pretty = (value: unknown) => JSON.stringify(value, null, 2)
+
+const download = (data: string, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// The envelope fields worth a row: who, what kind, which exchange and the HTTP line
+const envelopeRows = (frame: TraceFrame): [string, string][] => [
+  ['From → to', `${frame.from} → ${frame.to}`],
+  ['Kind', frame.kind],
+  ...(frame.correlationId !== undefined ? [['Correlation', frame.correlationId] as [string, string]] : []),
+  ...(frame.http ? [['HTTP', `${frame.http.method} ${frame.http.url}`] as [string, string]] : []),
+  ...(frame.http?.status !== undefined ? [['Status', `${frame.http.status}${frame.http.contentType ? ` · ${frame.http.contentType}` : ''}`] as [string, string]] : []),
+  ['Time', new Date(frame.timestamp).toISOString()],
+  ...(frame.latencyMs !== undefined ? [['Since request', `${frame.latencyMs} ms`] as [string, string]] : [])
+]
+
+/**
+ * Shared inspector for protocol traffic in the MCP, A2A and ACP demos. Shows each
+ * frame's full envelope with its schema errors inline, highlights every frame of the
+ * same request/response exchange, and exports the session as HAR-like JSON or as a
+ * Mermaid sequence diagram.
+ */
+const ProtocolInspector = ({ frames, participants, title, exportName, emptyText, onClear, height = 420 }: ProtocolInspectorProps) => {
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [selectedCorrelation, setSelectedCorrelation] = useState<string | null>(null)
+  const [invalidOnly, setInvalidOnly] = useState(false)
+  const [showDiagram, setShowDiagram] = useState(false)
+
+  const invalidCount = frames.filter(frame => frame.errors.length > 0).length
+  const visible = invalidOnly ? frames.filter(frame => frame.errors.length > 0) : frames
+  const mermaid = useMemo(() => (showDiagram ? toMermaid(frames, title) : ''), [showDiagram, frames, title])
+
+  const exportHar = () => {
+    download(pretty(toHar(frames, participants)), 'application/json', `${exportName}.har`)
+  }
+
+  const exportMermaid = () => {
+    download(toMermaid(frames, title), 'text/plain', `${exportName}.mmd`)
+  }
+
+  const copyMermaid = async () => {
+    try {
+      await navigator.clipboard.writeText(mermaid)
+      toast.success('Copied the sequence diagram')
+    } catch (error) {
+      console.error('Failed to copy the diagram:', error)
+      toast.error('Could not copy; use Download instead')
+    }
+  }
+
+  const clear = () => {
+    setExpanded(null)
+    setSelectedCorrelation(null)
+    onClear?.()
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h4 className="font-medium">{title} ({frames.length})</h4>
+        {invalidCount > 0 && (
+          <Badge variant="destructive" className="flex items-center gap-1">
+            <WarningCircle size={12} /> {invalidCount} invalid
+          </Badge>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={exportHar} disabled={frames.length === 0} className="flex items-center gap-1">
+            <DownloadSimple size={14} /> HAR
+          </Button>
+          <Button
+            variant={showDiagram ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setShowDiagram(current => !current)}
+            disabled={frames.length === 0}
+            className="flex items-center gap-1"
+          >
+            <TreeStructure size={14} /> Mermaid
+          </Button>
+          {onClear && (
+            <Button variant="ghost" size="sm" onClick={clear} className="flex items-center gap-1">
+              <Trash size={14} /> Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch id={`${exportName}-invalid-only`} checked={invalidOnly} onCheckedChange={setInvalidOnly} />
+        <Label htmlFor={`${exportName}-invalid-only`} className="text-xs">Only frames with schema errors</Label>
+        {selectedCorrelation !== null && (
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setSelectedCorrelation(null)}>
+            Stop highlighting exchange {selectedCorrelation}
+          </Button>
+        )}
+      </div>
+
+      {showDiagram && frames.length > 0 && (
+        <div className="space-y-2">
+          <CodeBlock language="text" customStyle={{ maxHeight: 260, fontSize: 12 }}>{mermaid}</CodeBlock>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={copyMermaid}>Copy</Button>
+            <Button size="sm" variant="outline" onClick={exportMermaid} className="flex items-center gap-1">
+              <DownloadSimple size={14} /> Download .mmd
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Paste into any Markdown that renders Mermaid, inside a <code>```mermaid</code> block.
+          </p>
+        </div>
+      )}
+
+      <ScrollArea className="rounded-md border" style={{ height }}>
+        <div className="p-2 space-y-1">
+          {visible.length === 0 && (
+            <p className="text-sm text-muted-foreground p-2">{frames.length === 0 ? emptyText : 'No frame has schema errors.'}</p>
+          )}
+          {visible.map(frame => {
+            const related = selectedCorrelation !== null && frame.correlationId === selectedCorrelation
+            return (
+              <div key={frame.seq} className={`rounded border text-xs ${related ? 'border-primary bg-primary/5' : ''}`}>
+                <div className="flex w-full items-center gap-2 p-2">
+                  <button
+                    type="button"
+                    className="flex min-w-0 flex-1 items-center gap-2 text-left hover:opacity-80"
+                    onClick={() => setExpanded(current => (current === frame.seq ? null : frame.seq))}
+                  >
+                    {frame.direction === 'outgoing'
+                      ? <ArrowRight size={12} className="text-primary shrink-0" />
+                      : <ArrowLeft size={12} className="text-green-600 shrink-0" />}
+                    <span className={`font-mono truncate ${frame.failed ? 'text-destructive' : ''}`}>{frame.label}</span>
+                    {frame.kind === 'event' && <Badge variant="secondary">event</Badge>}
+                  </button>
+                  {frame.errors.length > 0 && (
+                    <Badge variant="destructive" title={frame.errors.join('\n')}>
+                      {frame.errors.length} schema error{frame.errors.length === 1 ? '' : 's'}
+                    </Badge>
+                  )}
+                  {frame.latencyMs !== undefined && frame.kind === 'response' && (
+                    <Badge variant="outline">{frame.latencyMs} ms</Badge>
+                  )}
+                  {frame.correlationId !== undefined && (
+                    <button
+                      type="button"
+                      className="rounded border px-1.5 font-mono text-muted-foreground hover:bg-muted"
+                      title="Highlight the request and everything that answered it"
+                      onClick={() => setSelectedCorrelation(current => (current === frame.correlationId ? null : frame.correlationId!))}
+                    >
+                      #{frame.correlationId}
+                    </button>
+                  )}
+                </div>
+                {frame.errors.length > 0 && (
+                  <ul className="border-t px-2 py-1 text-destructive list-disc list-inside">
+                    {frame.errors.map((error, index) => <li key={index}>{error}</li>)}
+                  </ul>
+                )}
+                {expanded === frame.seq && (
+                  <div className="border-t bg-muted/30 p-2 space-y-2">
+                    <dl className="grid grid-cols-[110px_1fr] gap-x-2 gap-y-0.5">
+                      {envelopeRows(frame).map(([name, value]) => (
+                        <div key={name} className="contents">
+                          <dt className="text-muted-foreground">{name}</dt>
+                          <dd className="font-mono break-all">{value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                    {frame.text && (
+                      <pre className="whitespace-pre-wrap break-all">{frame.body !== undefined ? pretty(frame.body) : frame.text}</pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
+
+export default ProtocolInspector
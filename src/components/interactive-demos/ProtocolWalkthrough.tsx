@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -12,139 +12,132 @@ import {
   ArrowRight
 } from "@phosphor-icons/react";
 import { motion, AnimatePresence } from "framer-motion";
+import ProtocolInspector from "./ProtocolInspector";
+import { ScriptedFrame, TraceParticipants, scriptHttpExchange, scriptMcpCall, traceScript } from "@/lib/protocolTrace";
 
 // Simple implementation without ReactFlow to avoid rendering issues
 
-interface ProtocolMessage {
-  id: string;
-  from: string;
-  to: string;
-  content: string;
-  protocolType: 'ACP' | 'MCP';
-  timestamp: number;
-}
-
 interface ProtocolStep {
   id: string;
   title: string;
   description: string;
-  messages: ProtocolMessage[];
+  // What the step puts on the wire
+  frames: ScriptedFrame[];
   participants: string[];
 }
 
+const acp: TraceParticipants = { client: "Client", server: "ACP Server", endpoint: "https://acp.example.com" };
+const mcp: TraceParticipants = { client: "Coordinator Agent", server: "Specialist Agent", endpoint: "https://specialist.example.com/mcp" };
+
+const RUN_ID = "8d1f0c52-4d1e-4a6b-9a57-2f0c1b7e4a10";
+const CREATED_AT = "2025-06-02T09:00:00Z";
+const REPORT = "Sales grew 12% quarter over quarter, led by the EMEA region.";
+
+const agentMessage = (text: string) => ({
+  role: "agent/coordinator",
+  parts: [{ content_type: "text/plain", content: text }]
+});
+
+const run = (status: string, output: unknown[] = []) => ({
+  agent_name: "coordinator",
+  run_id: RUN_ID,
+  status,
+  output,
+  created_at: CREATED_AT,
+  finished_at: status === "completed" ? "2025-06-02T09:00:06Z" : null
+});
+
+// One streamed ACP run, told across the steps: the request, then its events
+const acpRun = scriptHttpExchange("ACP", acp, 1, {
+  method: "POST",
+  path: "/runs",
+  body: {
+    agent_name: "coordinator",
+    input: [{ role: "user", parts: [{ content_type: "text/plain", content: "Generate a report on sales trends" }] }],
+    mode: "stream"
+  }
+}, {
+  status: 200,
+  events: [
+    { type: "run.created", run: run("created") },
+    { type: "run.in-progress", run: run("in-progress") },
+    { type: "message.completed", message: agentMessage(REPORT) },
+    { type: "run.completed", run: run("completed", [agentMessage(REPORT)]) }
+  ]
+});
+
+// The specialist's tool call, request in one step and result in the next
+const delegation = scriptMcpCall(mcp, 2, "tools/call", {
+  name: "analyze_sales",
+  arguments: { period: "last_quarter", groupBy: "region" }
+}, {
+  content: [{ type: "text", text: REPORT }],
+  structuredContent: { growth: 0.12, leadingRegion: "EMEA" }
+});
+
+const steps: ProtocolStep[] = [
+  {
+    id: "request_init",
+    title: "1. Request Initiation",
+    description: "Client creates a run on the ACP server and asks for a stream of its events",
+    frames: acpRun.slice(0, 3),
+    participants: ["Client", "ACP Server"]
+  },
+  {
+    id: "acp_routing",
+    title: "2. ACP Server Routing",
+    description: "ACP server routes the run to the coordinator agent named in the request",
+    frames: acpRun.slice(3, 4),
+    participants: ["ACP Server", "Coordinator Agent"]
+  },
+  {
+    id: "mcp_context",
+    title: "3. MCP Context Management",
+    description: "Coordinator opens an MCP session with the specialist, which serves its skills as tools",
+    frames: scriptMcpCall(mcp, 1, "initialize", {
+      protocolVersion: "2025-06-18",
+      capabilities: {},
+      clientInfo: { name: "coordinator", version: "1.0.0" }
+    }, {
+      protocolVersion: "2025-06-18",
+      capabilities: { tools: {} },
+      serverInfo: { name: "sales-specialist", version: "1.0.0" }
+    }).concat({ protocol: "MCP", participants: mcp, direction: "outgoing", body: { jsonrpc: "2.0", method: "notifications/initialized" } }),
+    participants: ["Coordinator Agent", "Specialist Agent"]
+  },
+  {
+    id: "agent_delegation",
+    title: "4. Agent Delegation",
+    description: "Coordinator delegates the analysis as a tool call, passing the context it needs",
+    frames: delegation.slice(0, 1),
+    participants: ["Coordinator Agent", "Specialist Agent"]
+  },
+  {
+    id: "agent_response",
+    title: "5. Agent Response",
+    description: "Specialist answers the tool call with its results",
+    frames: delegation.slice(1),
+    participants: ["Specialist Agent", "Coordinator Agent"]
+  },
+  {
+    id: "acp_response",
+    title: "6. ACP Response",
+    description: "Coordinator's answer reaches the client as the last events of the run's stream",
+    frames: acpRun.slice(4),
+    participants: ["Coordinator Agent", "ACP Server", "Client"]
+  }
+];
+
 const ProtocolWalkthrough = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [currentMessageIndex, setCurrentMessageIndex] = useState(0);
-  const [displayedMessages, setDisplayedMessages] = useState<ProtocolMessage[]>([]);
+  const [displayedFrames, setDisplayedFrames] = useState<ScriptedFrame[]>([]);
   const [activeParticipants, setActiveParticipants] = useState<string[]>([]);
-  
-  const steps: ProtocolStep[] = [
-    {
-      id: "request_init",
-      title: "1. Request Initiation",
-      description: "Client initiates a request to the agent system",
-      messages: [
-        {
-          id: "msg-1",
-          from: "Client",
-          to: "ACP Server",
-          content: "Request: Generate a report on sales trends",
-          protocolType: 'ACP',
-          timestamp: 0
-        }
-      ],
-      participants: ["Client", "ACP Server"]
-    },
-    {
-      id: "acp_routing",
-      title: "2. ACP Server Routing",
-      description: "ACP server routes the request to appropriate agent",
-      messages: [
-        {
-          id: "msg-2",
-          from: "ACP Server",
-          to: "Coordinator Agent",
-          content: "Request forwarded with ACP metadata",
-          protocolType: 'ACP',
-          timestamp: 1000
-        }
-      ],
-      participants: ["ACP Server", "Coordinator Agent"]
-    },
-    {
-      id: "mcp_context",
-      title: "3. MCP Context Management",
-      description: "Agent processes request within MCP context framework",
-      messages: [
-        {
-          id: "msg-3",
-          from: "Coordinator Agent",
-          to: "Coordinator Agent",
-          content: "Processing with MCP context tracking",
-          protocolType: 'MCP',
-          timestamp: 2000
-        }
-      ],
-      participants: ["Coordinator Agent"]
-    },
-    {
-      id: "agent_delegation",
-      title: "4. Agent Delegation",
-      description: "Agent delegates subtask with MCP metadata",
-      messages: [
-        {
-          id: "msg-4",
-          from: "Coordinator Agent",
-          to: "Specialist Agent",
-          content: "Delegated task with preserved context",
-          protocolType: 'MCP',
-          timestamp: 3000
-        }
-      ],
-      participants: ["Coordinator Agent", "Specialist Agent"]
-    },
-    {
-      id: "agent_response",
-      title: "5. Agent Response",
-      description: "Second agent responds with results",
-      messages: [
-        {
-          id: "msg-5",
-          from: "Specialist Agent",
-          to: "Coordinator Agent",
-          content: "Task results with maintained context",
-          protocolType: 'MCP',
-          timestamp: 4000
-        }
-      ],
-      participants: ["Specialist Agent", "Coordinator Agent"]
-    },
-    {
-      id: "acp_response",
-      title: "6. ACP Response",
-      description: "Response returned via ACP server",
-      messages: [
-        {
-          id: "msg-6",
-          from: "Coordinator Agent",
-          to: "ACP Server",
-          content: "Final result compiled",
-          protocolType: 'ACP',
-          timestamp: 5000
-        },
-        {
-          id: "msg-7",
-          from: "ACP Server",
-          to: "Client",
-          content: "HTTP response with results",
-          protocolType: 'ACP',
-          timestamp: 6000
-        }
-      ],
-      participants: ["Coordinator Agent", "ACP Server", "Client"]
-    }
-  ];
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+
+  const frames = useMemo(() => traceScript(displayedFrames, startedAt), [displayedFrames, startedAt]);
+  const lastFrame = frames[frames.length - 1];
   
   // Handle step transition
   useEffect(() => {
@@ -154,15 +147,15 @@ const ProtocolWalkthrough = () => {
     if (isPlaying) {
       const currentStep = steps[currentStepIndex];
       
-      if (currentMessageIndex < currentStep.messages.length) {
+      if (currentMessageIndex < currentStep.frames.length) {
         messageTimerId = setTimeout(() => {
-          const message = currentStep.messages[currentMessageIndex];
+          const frame = currentStep.frames[currentMessageIndex];
           
-          // Add message to display
-          setDisplayedMessages(prev => [...prev, message]);
+          // Add frame to display
+          setDisplayedFrames(prev => [...prev, frame]);
           
-          // Highlight active participants
-          setActiveParticipants([message.from, message.to]);
+          // Highlight the step's participants
+          setActiveParticipants(currentStep.participants);
           
           // Advance to next message
           setCurrentMessageIndex(prev => prev + 1);
@@ -198,21 +191,20 @@ const ProtocolWalkthrough = () => {
     setIsPlaying(false);
     setCurrentStepIndex(0);
     setCurrentMessageIndex(0);
-    setDisplayedMessages([]);
+    setDisplayedFrames([]);
     setActiveParticipants([]);
+    setStartedAt(Date.now());
   };
   
   const handlePreviousStep = () => {
     if (currentStepIndex > 0) {
       setIsPlaying(false);
       
-      // Calculate messages to keep
-      const messagesFromPreviousSteps = steps
-        .slice(0, currentStepIndex)
-        .reduce((acc, step) => acc + step.messages.length, 0);
-      
-      // Keep only messages from steps before the previous step
-      setDisplayedMessages(prev => prev.slice(0, messagesFromPreviousSteps));
+      // Keep only frames from steps before the previous step
+      const framesFromEarlierSteps = steps
+        .slice(0, currentStepIndex - 1)
+        .reduce((acc, step) => acc + step.frames.length, 0);
+      setDisplayedFrames(prev => prev.slice(0, framesFromEarlierSteps));
       
       // Go to previous step
       setCurrentStepIndex(prev => prev - 1);
@@ -228,12 +220,12 @@ const ProtocolWalkthrough = () => {
     if (currentStepIndex < steps.length - 1) {
       setIsPlaying(false);
       
-      // Skip any remaining messages in current step
+      // Skip any remaining frames in current step
       const currentStep = steps[currentStepIndex];
       
-      if (currentMessageIndex < currentStep.messages.length) {
-        const remainingMessages = currentStep.messages.slice(currentMessageIndex);
-        setDisplayedMessages(prev => [...prev, ...remainingMessages]);
+      if (currentMessageIndex < currentStep.frames.length) {
+        const remainingFrames = currentStep.frames.slice(currentMessageIndex);
+        setDisplayedFrames(prev => [...prev, ...remainingFrames]);
       }
       
       // Move to next step
@@ -301,7 +293,7 @@ const ProtocolWalkthrough = () => {
             </div>
             
             {/* Simple animation for active message */}
-            {displayedMessages.length > 0 && (
+            {lastFrame && (
               <div className="mt-8 flex justify-center">
                 <AnimatePresence mode="wait">
                   {isPlaying && (
@@ -309,19 +301,19 @@ const ProtocolWalkthrough = () => {
                       initial={{ opacity: 0 }}
                       animate={{ opacity: 1 }}
                       exit={{ opacity: 0 }}
-                      key={displayedMessages.length}
+                      key={frames.length}
                       className={`flex items-center gap-2 px-4 py-2 rounded-md ${
-                        displayedMessages[displayedMessages.length - 1].protocolType === 'ACP' 
+                        lastFrame.protocol === 'ACP' 
                           ? 'bg-primary/10' 
                           : 'bg-secondary/10'
                       }`}
                     >
                       <div className="font-medium text-sm">
-                        {displayedMessages[displayedMessages.length - 1].from}
+                        {lastFrame.from}
                       </div>
                       <ArrowRight size={16} />
                       <div className="font-medium text-sm">
-                        {displayedMessages[displayedMessages.length - 1].to}
+                        {lastFrame.to}
                       </div>
                     </motion.div>
                   )}
@@ -375,7 +367,7 @@ const ProtocolWalkthrough = () => {
               variant="ghost"
               size="sm"
               onClick={handleReset}
-              disabled={displayedMessages.length === 0}
+              disabled={displayedFrames.length === 0}
             >
               <ArrowsCounterClockwise className="mr-1" size={14} />
               Reset
@@ -384,41 +376,14 @@ const ProtocolWalkthrough = () => {
           
           <Separator />
           
-          <div className="space-y-2">
-            <h4 className="font-medium">Message Log</h4>
-            
-            <div className="border rounded-md p-3 h-[200px] overflow-y-auto">
-              {displayedMessages.length === 0 ? (
-                <div className="flex items-center justify-center h-full">
-                  <p className="text-muted-foreground text-sm">Press Play to start the protocol walkthrough</p>
-                </div>
-              ) : (
-                <div className="space-y-2">
-                  {displayedMessages.map((message) => (
-                    <motion.div
-                      key={message.id}
-                      initial={{ opacity: 0, x: -10 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      transition={{ duration: 0.3 }}
-                      className="flex items-center gap-2 p-2 bg-muted/50 rounded-md"
-                    >
-                      <Badge variant="outline" className={message.protocolType === 'ACP' ? 'bg-primary/10' : 'bg-secondary/10'}>
-                        {message.protocolType}
-                      </Badge>
-                      <div>
-                        <div className="text-xs">
-                          <span className="font-medium">{message.from}</span>
-                          <span className="px-2">→</span>
-                          <span className="font-medium">{message.to}</span>
-                        </div>
-                        <p className="text-sm">{message.content}</p>
-                      </div>
-                    </motion.div>
-                  ))}
-                </div>
-              )}
-            </div>
-          </div>
+          <ProtocolInspector
+            frames={frames}
+            participants={acp}
+            title="ACP and MCP walkthrough"
+            exportName="protocol-walkthrough"
+            emptyText="Press Play to start the protocol walkthrough"
+            height={260}
+          />
           
           <div className="flex items-center gap-3 text-sm">
             <div className="flex items-center gap-1">
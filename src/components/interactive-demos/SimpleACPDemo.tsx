@@ -6,6 +6,9 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Play, ArrowsCounterClockwise, FastForward, Rewind, User, Users } from "@phosphor-icons/react";
 import { useTheme } from '@/components/theme/ThemeProvider';
+import { ScriptedFrame, TraceParticipants, scriptHttpExchange, traceScript } from '@/lib/protocolTrace';
+import { textPart, userMessage } from '@/lib/acp';
+import ProtocolInspector from './ProtocolInspector';
 
 interface Message {
   id: string;
@@ -14,6 +17,8 @@ interface Message {
   content: string;
   timestamp: string;
   type: 'query' | 'response' | 'reflection' | 'tool_call';
+  // ACP traffic of the step; calls to the model and the tools aren't ACP and have none
+  frames?: ScriptedFrame[];
 }
 
 interface ACPNode {
@@ -35,6 +40,44 @@ interface ACPEdge {
   progress?: number;
 }
 
+const ENDPOINT = 'https://acp.example.com';
+const user: TraceParticipants = { client: 'User', server: 'ACP Server', endpoint: ENDPOINT };
+const coordinator: TraceParticipants = { client: 'Coordinator', server: 'ACP Server', endpoint: ENDPOINT };
+
+const CREATED_AT = '2025-06-02T09:00:00Z';
+
+const agentOutput = (agent: string, text: string) => [{ role: `agent/${agent}`, parts: [textPart(text)] }];
+
+const run = (agent: string, exchange: number, status: string, output: unknown[] = []) => ({
+  agent_name: agent,
+  run_id: `run-${exchange}`,
+  status,
+  output,
+  created_at: CREATED_AT,
+  finished_at: status === 'completed' ? '2025-06-02T09:00:08Z' : null
+});
+
+/**
+ * A run created with POST /runs in the given mode: sync answers with the completed run,
+ * stream with the run's events
+ */
+const scriptRun = (participants: TraceParticipants, exchange: number, agent: string, mode: 'sync' | 'stream', input: string, output: string) =>
+  scriptHttpExchange('ACP', participants, exchange, {
+    method: 'POST',
+    path: '/runs',
+    body: { agent_name: agent, input: [userMessage(input)], mode }
+  }, mode === 'sync'
+    ? { status: 200, body: run(agent, exchange, 'completed', agentOutput(agent, output)) }
+    : {
+      status: 200,
+      events: [
+        { type: 'run.created', run: run(agent, exchange, 'created') },
+        { type: 'run.in-progress', run: run(agent, exchange, 'in-progress') },
+        { type: 'message.completed', message: agentOutput(agent, output)[0] },
+        { type: 'run.completed', run: run(agent, exchange, 'completed', agentOutput(agent, output)) }
+      ]
+    });
+
 const SimpleACPDemo = () => {
   const { theme } = useTheme();
   const [activeDemo, setActiveDemo] = useState<'single' | 'multi'>('single');
@@ -45,6 +88,7 @@ const SimpleACPDemo = () => {
   const [speed, setSpeed] = useState(1);
   const [activeNodes, setActiveNodes] = useState<Set<string>>(new Set());
   const [animatedEdges, setAnimatedEdges] = useState<ACPEdge[]>([]);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
 
   // Single agent configuration - improved node sizes
   const singleAgentNodes: ACPNode[] = useMemo(() => [
@@ -96,28 +140,38 @@ const SimpleACPDemo = () => {
     let stepId = 0;
 
     if (activeDemo === 'single') {
+      const report = 'Here\'s your tech trends analysis with market insights and future predictions';
+      const react = scriptRun(user, 1, 'react-agent', 'stream', userInput, report);
       steps.push(
-        { id: `msg-${stepId++}`, from: 'user', to: 'agent', content: userInput, timestamp: new Date().toISOString(), type: 'query' },
+        { id: `msg-${stepId++}`, from: 'user', to: 'agent', content: userInput, timestamp: new Date().toISOString(), type: 'query', frames: react.slice(0, 4) },
         { id: `msg-${stepId++}`, from: 'agent', to: 'model', content: 'I need to analyze tech trends. Let me think about this step by step.', timestamp: new Date().toISOString(), type: 'query' },
         { id: `msg-${stepId++}`, from: 'model', to: 'agent', content: 'I should gather recent tech news and market data to analyze trends.', timestamp: new Date().toISOString(), type: 'response' },
         { id: `msg-${stepId++}`, from: 'agent', to: 'tool', content: 'Search for recent tech industry news and market reports', timestamp: new Date().toISOString(), type: 'tool_call' },
         { id: `msg-${stepId++}`, from: 'tool', to: 'agent', content: 'Found 15 articles about AI, cloud computing, and cybersecurity trends', timestamp: new Date().toISOString(), type: 'response' },
         { id: `msg-${stepId++}`, from: 'agent', to: 'model', content: 'Based on the data, analyze key trends and create a structured report', timestamp: new Date().toISOString(), type: 'query' },
         { id: `msg-${stepId++}`, from: 'model', to: 'agent', content: 'Generated comprehensive market analysis with trend predictions', timestamp: new Date().toISOString(), type: 'response' },
-        { id: `msg-${stepId++}`, from: 'agent', to: 'user', content: 'Here\'s your tech trends analysis with market insights and future predictions', timestamp: new Date().toISOString(), type: 'response' }
+        { id: `msg-${stepId++}`, from: 'agent', to: 'user', content: report, timestamp: new Date().toISOString(), type: 'response', frames: react.slice(4) }
       );
     } else {
+      // The user's run goes to the coordinator, which runs the other agents on the same server
+      const request = scriptRun(user, 1, 'coordinator', 'sync', userInput, 'Comprehensive tech trends report delivered with actionable insights');
+      const research = scriptRun(coordinator, 2, 'researcher', 'sync', 'Research recent tech developments and market data',
+        'Research complete: AI adoption up 40%, cloud spending increased');
+      const analysis = scriptRun(coordinator, 3, 'analyst', 'sync', 'Prepare to analyze market trends and patterns',
+        'Analysis ready: Identified 5 key growth areas and market opportunities');
+      const writing = scriptRun(coordinator, 4, 'writer', 'sync', 'Create market report combining research and analysis findings',
+        'Draft report completed with executive summary and recommendations');
       steps.push(
-        { id: `msg-${stepId++}`, from: 'user', to: 'coordinator', content: userInput, timestamp: new Date().toISOString(), type: 'query' },
-        { id: `msg-${stepId++}`, from: 'coordinator', to: 'researcher', content: 'Research recent tech developments and market data', timestamp: new Date().toISOString(), type: 'query' },
-        { id: `msg-${stepId++}`, from: 'coordinator', to: 'analyst', content: 'Prepare to analyze market trends and patterns', timestamp: new Date().toISOString(), type: 'query' },
+        { id: `msg-${stepId++}`, from: 'user', to: 'coordinator', content: userInput, timestamp: new Date().toISOString(), type: 'query', frames: request.slice(0, 1) },
+        { id: `msg-${stepId++}`, from: 'coordinator', to: 'researcher', content: 'Research recent tech developments and market data', timestamp: new Date().toISOString(), type: 'query', frames: research.slice(0, 1) },
+        { id: `msg-${stepId++}`, from: 'coordinator', to: 'analyst', content: 'Prepare to analyze market trends and patterns', timestamp: new Date().toISOString(), type: 'query', frames: analysis.slice(0, 1) },
         { id: `msg-${stepId++}`, from: 'researcher', to: 'tools', content: 'Query tech news APIs and market databases', timestamp: new Date().toISOString(), type: 'tool_call' },
         { id: `msg-${stepId++}`, from: 'tools', to: 'researcher', content: 'Retrieved comprehensive tech industry data', timestamp: new Date().toISOString(), type: 'response' },
-        { id: `msg-${stepId++}`, from: 'researcher', to: 'coordinator', content: 'Research complete: AI adoption up 40%, cloud spending increased', timestamp: new Date().toISOString(), type: 'response' },
-        { id: `msg-${stepId++}`, from: 'analyst', to: 'coordinator', content: 'Analysis ready: Identified 5 key growth areas and market opportunities', timestamp: new Date().toISOString(), type: 'response' },
-        { id: `msg-${stepId++}`, from: 'coordinator', to: 'writer', content: 'Create market report combining research and analysis findings', timestamp: new Date().toISOString(), type: 'query' },
-        { id: `msg-${stepId++}`, from: 'writer', to: 'coordinator', content: 'Draft report completed with executive summary and recommendations', timestamp: new Date().toISOString(), type: 'response' },
-        { id: `msg-${stepId++}`, from: 'coordinator', to: 'user', content: 'Comprehensive tech trends report delivered with actionable insights', timestamp: new Date().toISOString(), type: 'response' }
+        { id: `msg-${stepId++}`, from: 'researcher', to: 'coordinator', content: 'Research complete: AI adoption up 40%, cloud spending increased', timestamp: new Date().toISOString(), type: 'response', frames: research.slice(1) },
+        { id: `msg-${stepId++}`, from: 'analyst', to: 'coordinator', content: 'Analysis ready: Identified 5 key growth areas and market opportunities', timestamp: new Date().toISOString(), type: 'response', frames: analysis.slice(1) },
+        { id: `msg-${stepId++}`, from: 'coordinator', to: 'writer', content: 'Create market report combining research and analysis findings', timestamp: new Date().toISOString(), type: 'query', frames: writing.slice(0, 1) },
+        { id: `msg-${stepId++}`, from: 'writer', to: 'coordinator', content: 'Draft report completed with executive summary and recommendations', timestamp: new Date().toISOString(), type: 'response', frames: writing.slice(1) },
+        { id: `msg-${stepId++}`, from: 'coordinator', to: 'user', content: 'Comprehensive tech trends report delivered with actionable insights', timestamp: new Date().toISOString(), type: 'response', frames: request.slice(1) }
       );
     }
 
@@ -128,6 +182,7 @@ const SimpleACPDemo = () => {
   const startSimulation = useCallback(() => {
     setIsSimulationRunning(true);
     setCurrentStep(0);
+    setStartedAt(Date.now());
     setActiveNodes(new Set());
     setAnimatedEdges(currentEdges.map(edge => ({ ...edge, active: false, progress: 0 })));
     
@@ -190,6 +245,12 @@ const SimpleACPDemo = () => {
     setAnimatedEdges(currentEdges.map(edge => ({ ...edge, active: false, progress: 0 })));
   }, [currentEdges]);
 
+  // ACP frames of every step shown so far
+  const frames = useMemo(
+    () => traceScript(messages.slice(0, currentStep + 1).flatMap(message => message.frames ?? []), startedAt),
+    [messages, currentStep, startedAt]
+  );
+
   // Create SVG path for edges
   const createEdgePath = (from: string, to: string) => {
     const fromNode = currentNodes.find(n => n.id === from);
@@ -406,32 +467,31 @@ const SimpleACPDemo = () => {
             })}
           </div>
 
-          {/* Message log */}
+          {/* Current step and the ACP traffic so far */}
           {messages.length > 0 && (
-            <div className="space-y-2">
-              <h4 className="font-medium">Communication Log:</h4>
-              <div className="max-h-40 overflow-y-auto space-y-2">
-                {messages.slice(0, currentStep + 1).map((message, index) => (
-                  <div 
-                    key={message.id}
-                    className={`text-sm p-3 rounded-lg flex items-start gap-3 ${
-                      index === currentStep 
-                        ? (theme === 'dark' ? 'bg-blue-900/30 border border-blue-500/30' : 'bg-blue-50 border border-blue-200')
-                        : (theme === 'dark' ? 'bg-gray-800' : 'bg-gray-50')
-                    }`}
-                  >
-                    <Badge variant="outline" className="text-xs shrink-0">
-                      {message.from} → {message.to}
-                    </Badge>
-                    <span className="flex-1">{message.content}</span>
-                    <Badge variant="secondary" className="text-xs shrink-0">
-                      {message.type}
-                    </Badge>
-                  </div>
-                ))}
-              </div>
+            <div
+              className={`text-sm p-3 rounded-lg flex items-start gap-3 ${
+                theme === 'dark' ? 'bg-blue-900/30 border border-blue-500/30' : 'bg-blue-50 border border-blue-200'
+              }`}
+            >
+              <Badge variant="outline" className="text-xs shrink-0">
+                {messages[currentStep].from} → {messages[currentStep].to}
+              </Badge>
+              <span className="flex-1">{messages[currentStep].content}</span>
+              <Badge variant="secondary" className="text-xs shrink-0">
+                {messages[currentStep].type}
+              </Badge>
             </div>
           )}
+
+          <ProtocolInspector
+            frames={frames}
+            participants={user}
+            title="ACP traffic"
+            exportName="acp-demo"
+            emptyText="Start the demo to see the ACP runs between the user and the agents"
+            height={260}
+          />
         </div>
       </CardContent>
     </Card>
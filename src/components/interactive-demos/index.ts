@@ -12,4 +12,8 @@ export { default as PatternDemoSVG } from './PatternDemoSVG';
 export { default as SimpleACPDemo } from './SimpleACPDemo';
 export { default as SimplePatternFlow } from './SimplePatternFlow';
 export { default as MCPDemo } from './MCPDemo';
-export { default as ACPMCPComparison } from './ACPMCPComparison';
\ No newline at end of file
+export { default as MCPPlayground } from './MCPPlayground';
+export { default as A2ASimulator } from './A2ASimulator';
+export { default as ACPMCPComparison } from './ACPMCPComparison';
+export { default as ACPPlayground } from './ACPPlayground';
+export { default as ProtocolInspector } from './ProtocolInspector';
\ No newline at end of file
@@ -0,0 +1,300 @@
+import React, { useState, useMemo, useEffect } from 'react'
+import { PatternData } from '@/lib/data/patterns'
+import {
+  CostEstimatorSettings,
+  ModelPricing,
+  NodeTokenProfile,
+  PatternNodeType,
+  createDefaultCostEstimatorSettings,
+  loadCostEstimatorSettings,
+  saveCostEstimatorSettings
+} from '@/lib/data/modelPricing'
+import { patternNodeTypes } from '@/lib/data/customPatterns'
+import { estimatePattern, getSelectedPricing, formatCost, formatLatency, formatTokens } from '@/lib/estimation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { CurrencyDollar, Timer, CaretDown, CaretUp, Plus, Trash, ArrowCounterClockwise } from '@phosphor-icons/react'
+
+interface CostLatencyEstimatorProps {
+  patternData: PatternData
+}
+
+const pricingFields: { key: keyof Omit<ModelPricing, 'id' | 'name'>; label: string }[] = [
+  { key: 'inputPerMillion', label: 'Input $/1M' },
+  { key: 'outputPerMillion', label: 'Output $/1M' },
+  { key: 'timeToFirstTokenMs', label: 'First token (ms)' },
+  { key: 'outputTokensPerSecond', label: 'Tokens/s' }
+]
+
+const profileFields: { key: keyof NodeTokenProfile; label: string }[] = [
+  { key: 'inputTokens', label: 'Input tokens' },
+  { key: 'outputTokens', label: 'Output tokens' },
+  { key: 'overheadMs', label: 'Overhead (ms)' }
+]
+
+const toNumber = (value: string) => Math.max(0, Number(value) || 0)
+
+/**
+ * Expected tokens, cost and p50/p95 latency of one request through a pattern, for an
+ * editable Azure OpenAI pricing table and token sizes per node type
+ */
+const CostLatencyEstimator: React.FC<CostLatencyEstimatorProps> = ({ patternData }) => {
+  const [settings, setSettings] = useState<CostEstimatorSettings>(loadCostEstimatorSettings)
+  const [showPricing, setShowPricing] = useState(false)
+  const [showProfiles, setShowProfiles] = useState(false)
+
+  useEffect(() => {
+    saveCostEstimatorSettings(settings)
+  }, [settings])
+
+  const estimate = useMemo(() => estimatePattern(patternData, settings), [patternData, settings])
+  const pricing = getSelectedPricing(settings)
+
+  const updatePricing = (id: string, changes: Partial<ModelPricing>) => {
+    setSettings(current => ({
+      ...current,
+      pricing: current.pricing.map(entry => entry.id === id ? { ...entry, ...changes } : entry)
+    }))
+  }
+
+  const addDeployment = () => {
+    setSettings(current => {
+      let index = 1
+      while (current.pricing.some(entry => entry.id === `custom-${index}`)) index++
+      const id = `custom-${index}`
+      return {
+        ...current,
+        deploymentId: id,
+        pricing: [...current.pricing, { ...pricing, id, name: `Custom deployment ${index}` }]
+      }
+    })
+  }
+
+  const removeDeployment = (id: string) => {
+    setSettings(current => {
+      const remaining = current.pricing.filter(entry => entry.id !== id)
+      return {
+        ...current,
+        pricing: remaining,
+        deploymentId: current.deploymentId === id ? remaining[0]?.id ?? '' : current.deploymentId
+      }
+    })
+  }
+
+  const updateProfile = (nodeType: PatternNodeType, changes: Partial<NodeTokenProfile>) => {
+    setSettings(current => ({
+      ...current,
+      tokenProfiles: { ...current.tokenProfiles, [nodeType]: { ...current.tokenProfiles[nodeType], ...changes } }
+    }))
+  }
+
+  const summary = [
+    { label: 'Cost per request', value: formatCost(estimate.cost), detail: `${formatCost(estimate.cost * 1000)} per 1K requests` },
+    { label: 'Tokens per request', value: formatTokens(estimate.inputTokens + estimate.outputTokens), detail: `${formatTokens(estimate.inputTokens)} in · ${formatTokens(estimate.outputTokens)} out` },
+    { label: 'Model calls', value: String(estimate.modelCalls), detail: pricing.name },
+    { label: 'Latency p50', value: formatLatency(estimate.latency.p50), detail: 'Median request' },
+    { label: 'Latency p95', value: formatLatency(estimate.latency.p95), detail: '1 in 20 requests is slower' }
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CurrencyDollar size={20} /> Cost &amp; Latency Estimate
+        </CardTitle>
+        <CardDescription>
+          Expected spend and response time of one request through {patternData.name}. Loops run the
+          configured number of times and routers take their first branch.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Deployment</Label>
+            <Select
+              value={pricing.id}
+              onValueChange={(value) => setSettings(current => ({ ...current, deploymentId: value }))}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {settings.pricing.map(entry => (
+                  <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="estimator-loops">Loop iterations</Label>
+            <Input
+              id="estimator-loops"
+              type="number"
+              min={0}
+              max={20}
+              className="w-[120px]"
+              value={settings.loopIterations}
+              onChange={(e) => setSettings(current => ({ ...current, loopIterations: Math.min(20, toNumber(e.target.value)) }))}
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSettings(createDefaultCostEstimatorSettings())}
+            className="flex items-center gap-1"
+          >
+            <ArrowCounterClockwise size={14} /> Reset to presets
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {summary.map(item => (
+            <div key={item.label} className="rounded-lg border p-3">
+              <div className="text-xs text-muted-foreground">{item.label}</div>
+              <div className="text-xl font-semibold">{item.value}</div>
+              <div className="text-xs text-muted-foreground truncate">{item.detail}</div>
+            </div>
+          ))}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Node</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Runs</TableHead>
+              <TableHead className="text-right">Tokens in</TableHead>
+              <TableHead className="text-right">Tokens out</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead className="text-right">Time per run</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {estimate.nodes.map(node => (
+              <TableRow key={node.nodeId} className={node.visits === 0 ? 'opacity-50' : ''}>
+                <TableCell className="font-medium">{node.label}</TableCell>
+                <TableCell><Badge variant="outline">{node.nodeType ?? 'node'}</Badge></TableCell>
+                <TableCell className="text-right">{node.visits}</TableCell>
+                <TableCell className="text-right">{formatTokens(node.inputTokens)}</TableCell>
+                <TableCell className="text-right">{formatTokens(node.outputTokens)}</TableCell>
+                <TableCell className="text-right">{formatCost(node.cost)}</TableCell>
+                <TableCell className="text-right">{formatLatency(node.latencyMs)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Collapsible open={showPricing} onOpenChange={setShowPricing}>
+          <CollapsibleTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-1">
+              <CurrencyDollar size={14} /> Pricing table
+              {showPricing ? <CaretUp size={14} /> : <CaretDown size={14} />}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-3 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Presets are Azure OpenAI Global Standard list prices and typical speeds; edit them to match your region and agreement.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Deployment</TableHead>
+                  {pricingFields.map(field => <TableHead key={field.key}>{field.label}</TableHead>)}
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {settings.pricing.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      <Input
+                        className="h-8 min-w-[140px]"
+                        value={entry.name}
+                        onChange={(e) => updatePricing(entry.id, { name: e.target.value })}
+                      />
+                    </TableCell>
+                    {pricingFields.map(field => (
+                      <TableCell key={field.key}>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          className="h-8 w-24"
+                          value={entry[field.key]}
+                          onChange={(e) => updatePricing(entry.id, { [field.key]: toNumber(e.target.value) })}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => removeDeployment(entry.id)}
+                        disabled={settings.pricing.length === 1}
+                        title="Remove deployment"
+                      >
+                        <Trash size={14} />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button variant="outline" size="sm" onClick={addDeployment} className="flex items-center gap-1">
+              <Plus size={14} /> Add deployment
+            </Button>
+          </CollapsibleContent>
+        </Collapsible>
+
+        <Collapsible open={showProfiles} onOpenChange={setShowProfiles}>
+          <CollapsibleTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-1">
+              <Timer size={14} /> Token sizes per node type
+              {showProfiles ? <CaretUp size={14} /> : <CaretDown size={14} />}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-3 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Tokens sent and generated each time a node runs. Node types without tokens don't call the model and only take their overhead.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Node type</TableHead>
+                  {profileFields.map(field => <TableHead key={field.key}>{field.label}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {patternNodeTypes.map(nodeType => (
+                  <TableRow key={nodeType}>
+                    <TableCell className="capitalize">{nodeType}</TableCell>
+                    {profileFields.map(field => (
+                      <TableCell key={field.key}>
+                        <Input
+                          type="number"
+                          min={0}
+                          className="h-8 w-28"
+                          value={settings.tokenProfiles[nodeType][field.key]}
+                          onChange={(e) => updateProfile(nodeType, { [field.key]: toNumber(e.target.value) })}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default CostLatencyEstimator
@@ -0,0 +1,519 @@
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react'
+import { PatternData } from '@/lib/data/patterns'
+import {
+  composePatterns,
+  layoutComposedGraph,
+  setCompositionSlot,
+  createComposition,
+  isPluggableNode,
+  exampleComposition,
+  PatternComposition,
+  ComposedGraph,
+  COMPOSITION_PATH_SEPARATOR,
+  MAX_COMPOSITION_DEPTH
+} from '@/lib/composition'
+import { simulatePattern, playSimulation, SimulationPlayback } from '@/lib/simulation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Play, Stop, ArrowsClockwise, CornersIn, CornersOut, TreeStructure, WarningCircle } from '@phosphor-icons/react'
+
+interface PatternComposerProps {
+  patterns: PatternData[]
+}
+
+interface LogEntry {
+  id: string
+  time: number
+  message: string
+}
+
+const NOT_COMPOSED = '__none__'
+const NODE_WIDTH = 170
+const NODE_HEIGHT = 60
+const GROUP_PADDING = 14
+// Room above a group's nodes for its title
+const GROUP_HEADER = 22
+
+const nodeTypeBorders: Record<string, string> = {
+  input: 'border-sky-500',
+  llm: 'border-purple-500',
+  tool: 'border-amber-500',
+  router: 'border-emerald-500',
+  planner: 'border-indigo-500',
+  executor: 'border-teal-500',
+  evaluator: 'border-red-500',
+  aggregator: 'border-cyan-500',
+  output: 'border-pink-500'
+}
+
+const groupColors = ['border-blue-400/70 bg-blue-500/5', 'border-orange-400/70 bg-orange-500/5', 'border-green-400/70 bg-green-500/5']
+
+interface SlotTreeProps {
+  composition: PatternComposition
+  patterns: PatternData[]
+  path: string[]
+  collapsed: Set<string>
+  onPlug: (path: string[], patternId: string | null) => void
+  onToggle: (groupId: string) => void
+}
+
+// One row per pluggable node of a pattern, with the sub-agents plugged into it nested below
+const SlotTree: React.FC<SlotTreeProps> = ({ composition, patterns, path, collapsed, onPlug, onToggle }) => {
+  const pattern = patterns.find(p => p.id === composition.patternId)
+  if (!pattern) return null
+
+  return (
+    <div className="space-y-2">
+      {pattern.nodes.filter(isPluggableNode).map(node => {
+        const slotPath = [...path, node.id]
+        const groupId = slotPath.join(COMPOSITION_PATH_SEPARATOR)
+        const slot = composition.slots[node.id]
+        return (
+          <div key={node.id} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm w-28 truncate" title={node.data.label}>{node.data.label}</span>
+              <Select
+                value={slot?.patternId ?? NOT_COMPOSED}
+                onValueChange={(value) => onPlug(slotPath, value === NOT_COMPOSED ? null : value)}
+              >
+                <SelectTrigger className="h-8 flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_COMPOSED}>Not composed</SelectItem>
+                  {patterns.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {slot && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => onToggle(groupId)}
+                  title={collapsed.has(groupId) ? 'Expand sub-agent' : 'Collapse sub-agent'}
+                >
+                  {collapsed.has(groupId) ? <CornersOut size={14} /> : <CornersIn size={14} />}
+                </Button>
+              )}
+            </div>
+            {slot && slotPath.length < MAX_COMPOSITION_DEPTH && (
+              <div className="ml-3 pl-3 border-l">
+                <SlotTree
+                  composition={slot}
+                  patterns={patterns}
+                  path={slotPath}
+                  collapsed={collapsed}
+                  onPlug={onPlug}
+                  onToggle={onToggle}
+                />
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// Label of a composed node, prefixed with the sub-agent it belongs to
+const describeNode = (graph: ComposedGraph, nodeId: string): string => {
+  const node = graph.nodes.find(n => n.id === nodeId)
+  if (!node) return nodeId
+  const group = graph.groups.find(g => g.id === node.groupId)
+  return group ? `${group.pattern.name} › ${node.data.label}` : node.data.label
+}
+
+/**
+ * Plug patterns into the nodes of another pattern, e.g. a Routing pattern whose
+ * branches are ReAct and Agentic RAG sub-agents, and simulate the compound graph
+ */
+const PatternComposer: React.FC<PatternComposerProps> = ({ patterns }) => {
+  const [composition, setComposition] = useState<PatternComposition>(() =>
+    patterns.some(p => p.id === exampleComposition.patternId)
+      ? exampleComposition
+      : createComposition(patterns[0]?.id ?? '')
+  )
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [query, setQuery] = useState('Why was I charged twice this month?')
+  const [routes, setRoutes] = useState<Record<string, string>>({})
+  const [isRunning, setIsRunning] = useState(false)
+  const [activeNodes, setActiveNodes] = useState<Set<string>>(new Set())
+  const [activeEdges, setActiveEdges] = useState<Set<string>>(new Set())
+  const [log, setLog] = useState<LogEntry[]>([])
+  const playbackRef = useRef<SimulationPlayback | null>(null)
+
+  const graph = useMemo(() => composePatterns(composition, patterns, collapsed), [composition, patterns, collapsed])
+  const positions = useMemo(() => layoutComposedGraph(graph), [graph])
+  const width = Math.max(0, ...Object.values(positions).map(p => p.x)) + NODE_WIDTH + GROUP_PADDING * 2
+  const height = Math.max(0, ...Object.values(positions).map(p => p.y)) + NODE_HEIGHT + GROUP_PADDING * 2 + GROUP_HEADER
+  // Shift everything so the outermost group frames fit
+  const offset = { x: GROUP_PADDING * 2, y: GROUP_PADDING * 2 + GROUP_HEADER }
+
+  // Routers that have a choice to make in the composed graph
+  const routers = useMemo(() => graph.nodes
+    .filter(node => node.data.nodeType === 'router')
+    .map(node => ({ node, targets: graph.edges.filter(edge => edge.source === node.id).map(edge => edge.target) }))
+    .filter(({ targets }) => targets.length > 1), [graph])
+
+  const resetPlayback = useCallback(() => {
+    playbackRef.current?.cleanup()
+    playbackRef.current = null
+    setIsRunning(false)
+    setActiveNodes(new Set())
+    setActiveEdges(new Set())
+  }, [])
+
+  // Any change to the composition invalidates a running simulation
+  useEffect(() => {
+    resetPlayback()
+    setLog([])
+  }, [graph, resetPlayback])
+
+  useEffect(() => () => playbackRef.current?.cleanup(), [])
+
+  const plug = (path: string[], patternId: string | null) => {
+    setComposition(current => setCompositionSlot(current, path, patternId ? createComposition(patternId) : null))
+  }
+
+  const toggleGroup = (groupId: string) => {
+    setCollapsed(current => {
+      const next = new Set(current)
+      if (next.has(groupId)) next.delete(groupId)
+      else next.add(groupId)
+      return next
+    })
+  }
+
+  const runSimulation = () => {
+    resetPlayback()
+    setLog([])
+    const events = simulatePattern(graph, {
+      query,
+      routes,
+      nodeDurations: graph.nodeDurations
+    })
+    setIsRunning(true)
+    playbackRef.current = playSimulation(events, event => {
+      switch (event.kind) {
+        case 'node_enter':
+          setActiveNodes(prev => new Set([...prev, event.nodeId]))
+          setLog(prev => [...prev, {
+            id: `log-${event.seq}`,
+            time: event.time,
+            message: graph.nodeDurations[event.nodeId] !== undefined
+              ? `${describeNode(graph, event.nodeId)} runs as one step`
+              : describeNode(graph, event.nodeId)
+          }])
+          break
+        case 'node_exit':
+          setActiveNodes(prev => {
+            const next = new Set(prev)
+            next.delete(event.nodeId)
+            return next
+          })
+          break
+        case 'message_send':
+          setActiveEdges(prev => new Set([...prev, event.edgeId]))
+          break
+        case 'message_deliver':
+          setActiveEdges(prev => {
+            const next = new Set(prev)
+            next.delete(event.edgeId)
+            return next
+          })
+          break
+        case 'branch_decision':
+          if (event.reason === 'route') {
+            const targets = event.chosenEdgeIds
+              .map(edgeId => graph.edges.find(edge => edge.id === edgeId)?.target)
+              .filter((target): target is string => !!target)
+            setLog(prev => [...prev, {
+              id: `log-${event.seq}`,
+              time: event.time,
+              message: `${describeNode(graph, event.nodeId)} routed to ${targets.map(target => describeNode(graph, target)).join(', ')}`
+            }])
+          }
+          break
+        case 'simulation_complete':
+          setIsRunning(false)
+          setLog(prev => [...prev, {
+            id: `log-${event.seq}`,
+            time: event.time,
+            message: `Completed in ${(event.time / 1000).toFixed(1)}s of simulated time`
+          }])
+          break
+      }
+    }, { speed: 2 })
+  }
+
+  const centerOf = (nodeId: string) => {
+    const position = positions[nodeId]
+    return position
+      ? { x: position.x + offset.x + NODE_WIDTH / 2, y: position.y + offset.y + NODE_HEIGHT / 2 }
+      : null
+  }
+
+  // Frame around the nodes of each expanded sub-agent, nested frames inside their parents
+  const groupFrames = graph.groups
+    .filter(group => group.expanded && group.nodeIds.some(id => positions[id]))
+    .map(group => {
+      const members = group.nodeIds.map(id => positions[id]).filter(Boolean)
+      const nesting = MAX_COMPOSITION_DEPTH - group.depth
+      const padding = GROUP_PADDING * (1 + nesting * 0.5)
+      const left = Math.min(...members.map(p => p.x)) + offset.x - padding
+      const top = Math.min(...members.map(p => p.y)) + offset.y - padding - GROUP_HEADER
+      return {
+        group,
+        left,
+        top,
+        width: Math.max(...members.map(p => p.x)) + offset.x + NODE_WIDTH + padding - left,
+        height: Math.max(...members.map(p => p.y)) + offset.y + NODE_HEIGHT + padding - top
+      }
+    })
+
+  const hostPattern = patterns.find(p => p.id === composition.patternId)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[340px_1fr] gap-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TreeStructure size={20} /> Composition
+          </CardTitle>
+          <CardDescription>
+            Pick a host pattern, then plug other patterns into its nodes as sub-agents.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Host pattern</Label>
+            <Select
+              value={composition.patternId}
+              onValueChange={(value) => setComposition(createComposition(value))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a pattern" />
+              </SelectTrigger>
+              <SelectContent>
+                {patterns.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {hostPattern && (
+            <div className="space-y-2">
+              <Label>Sub-agents</Label>
+              <SlotTree
+                composition={composition}
+                patterns={patterns}
+                path={[]}
+                collapsed={collapsed}
+                onPlug={plug}
+                onToggle={toggleGroup}
+              />
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => {
+              setComposition(exampleComposition)
+              setCollapsed(new Set())
+            }}
+            disabled={!patterns.some(p => p.id === exampleComposition.patternId)}
+          >
+            Load example: Routing → ReAct + Agentic RAG
+          </Button>
+
+          {routers.length > 0 && (
+            <div className="space-y-2">
+              <Label>Routing decisions</Label>
+              {routers.map(({ node, targets }) => (
+                <div key={node.id} className="space-y-1">
+                  <span className="text-xs text-muted-foreground">{describeNode(graph, node.id)}</span>
+                  <Select
+                    value={targets.includes(routes[node.id]) ? routes[node.id] : targets[0]}
+                    onValueChange={(value) => setRoutes(current => ({ ...current, [node.id]: value }))}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {targets.map(target => (
+                        <SelectItem key={target} value={target}>{describeNode(graph, target)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="min-w-0">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span>{hostPattern?.name ?? 'Compound agent'}</span>
+              <Badge variant="outline">{graph.nodes.length} nodes</Badge>
+              {graph.groups.length > 0 && (
+                <Badge variant="secondary">{graph.groups.length} sub-agents</Badge>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => { resetPlayback(); setLog([]) }} disabled={log.length === 0 && !isRunning}>
+                <ArrowsClockwise size={14} /> Reset
+              </Button>
+              {isRunning ? (
+                <Button size="sm" variant="destructive" onClick={resetPlayback}>
+                  <Stop size={14} /> Stop
+                </Button>
+              ) : (
+                <Button size="sm" onClick={runSimulation} disabled={graph.nodes.length === 0}>
+                  <Play size={14} /> Simulate
+                </Button>
+              )}
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Query sent into the compound agent..."
+            disabled={isRunning}
+          />
+
+          {graph.warnings.length > 0 && (
+            <Alert>
+              <WarningCircle size={16} />
+              <AlertDescription>{graph.warnings.join('. ')}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="border rounded-lg overflow-auto bg-muted/20">
+            <div
+              className="relative"
+              style={{ width: width + offset.x, height: height + offset.y, minWidth: '100%' }}
+            >
+              {groupFrames.map(({ group, left, top, width: frameWidth, height: frameHeight }) => (
+                <div
+                  key={group.id}
+                  className={`absolute rounded-lg border-2 border-dashed ${groupColors[(group.depth - 1) % groupColors.length]}`}
+                  style={{ left, top, width: frameWidth, height: frameHeight }}
+                >
+                  <div className="flex items-center justify-between px-2 text-xs font-medium" style={{ height: GROUP_HEADER }}>
+                    <span className="truncate">{group.label}: {group.pattern.name}</span>
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={() => toggleGroup(group.id)}
+                      title="Collapse sub-agent"
+                    >
+                      <CornersIn size={12} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              <svg className="absolute inset-0 pointer-events-none" width="100%" height="100%">
+                <defs>
+                  <marker id="composer-arrow" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+                    <polygon points="0 0, 10 3.5, 0 7" className="fill-muted-foreground" />
+                  </marker>
+                  <marker id="composer-arrow-active" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+                    <polygon points="0 0, 10 3.5, 0 7" fill="#3b82f6" />
+                  </marker>
+                </defs>
+                {graph.edges.map(edge => {
+                  const from = centerOf(edge.source)
+                  const to = centerOf(edge.target)
+                  if (!from || !to) return null
+                  const active = activeEdges.has(edge.id)
+                  // Edges going backwards (loops) bend below the nodes
+                  const bend = to.x <= from.x ? NODE_HEIGHT : -20
+                  const path = `M ${from.x + NODE_WIDTH / 2} ${from.y} C ${from.x + NODE_WIDTH / 2 + 40} ${from.y + bend}, ${to.x - NODE_WIDTH / 2 - 40} ${to.y + bend}, ${to.x - NODE_WIDTH / 2} ${to.y}`
+                  return (
+                    <path
+                      key={edge.id}
+                      d={path}
+                      fill="none"
+                      className={active ? '' : 'stroke-muted-foreground/50'}
+                      stroke={active ? '#3b82f6' : undefined}
+                      strokeWidth={active ? 3 : 1.5}
+                      strokeDasharray={active ? '8,4' : undefined}
+                      markerEnd={`url(#${active ? 'composer-arrow-active' : 'composer-arrow'})`}
+                    />
+                  )
+                })}
+              </svg>
+
+              {graph.nodes.map(node => {
+                const position = positions[node.id]
+                if (!position) return null
+                const active = activeNodes.has(node.id)
+                return (
+                  <div
+                    key={node.id}
+                    className={`absolute rounded-lg border-2 bg-card px-3 py-2 shadow-sm transition-all ${
+                      nodeTypeBorders[node.data.nodeType ?? ''] ?? 'border-border'
+                    } ${active ? 'ring-2 ring-blue-500 scale-105' : ''} ${node.collapsedGroupId ? 'border-double border-4' : ''}`}
+                    style={{ left: position.x + offset.x, top: position.y + offset.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                  >
+                    <div className="flex items-start justify-between gap-1">
+                      <span className="text-sm font-medium leading-tight line-clamp-2">{node.data.label}</span>
+                      {node.collapsedGroupId && (
+                        <button
+                          type="button"
+                          className="text-muted-foreground hover:text-foreground"
+                          onClick={() => toggleGroup(node.collapsedGroupId!)}
+                          title="Expand sub-agent"
+                        >
+                          <CornersOut size={12} />
+                        </button>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground capitalize">{node.data.nodeType ?? 'node'}</span>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          {log.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Execution Log:</h4>
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {log.map((entry, index) => (
+                  <div
+                    key={entry.id}
+                    className={`text-sm p-2 rounded flex items-center gap-2 ${
+                      index === log.length - 1 ? 'bg-blue-100 dark:bg-blue-900/20' : 'bg-muted'
+                    }`}
+                  >
+                    <Badge variant="outline" className="font-mono">{(entry.time / 1000).toFixed(1)}s</Badge>
+                    <span>{entry.message}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default PatternComposer
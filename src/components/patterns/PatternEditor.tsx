@@ -0,0 +1,436 @@
+import React, { useState, useMemo, useCallback, useRef } from 'react'
+import { Node, Edge, Connection } from 'reactflow'
+import { PatternData, PatternNode, agentPatterns } from '@/lib/data/patterns'
+import {
+  patternNodeTypes,
+  validatePatternData,
+  parsePatternJson,
+  serializePattern,
+  createEmptyPattern
+} from '@/lib/data/customPatterns'
+import StandardFlowVisualizerWithProvider from '@/components/visualization/StandardFlowVisualizer'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DownloadSimple, UploadSimple, FloppyDisk, Plus, Trash, FilePlus, WarningCircle, CheckCircle } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+
+interface PatternEditorProps {
+  // Patterns that can be opened as a starting point, in addition to the built-in ones
+  customPatterns?: PatternData[]
+  onSave: (pattern: PatternData) => void
+}
+
+type NodeType = NonNullable<PatternNode['data']['nodeType']>
+
+// Multi-line text fields are edited one entry per line
+const listFields = ['useCases', 'implementation', 'advantages'] as const
+
+const toLines = (items?: string[]) => (items ?? []).join('\n')
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean)
+
+const PatternEditor: React.FC<PatternEditorProps> = ({ customPatterns = [], onSave }) => {
+  const [pattern, setPattern] = useState<PatternData>(createEmptyPattern)
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null)
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null)
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const { errors } = useMemo(() => validatePatternData(pattern), [pattern])
+  const builtInIds = useMemo(() => new Set(agentPatterns.map(p => p.id)), [])
+  const selectedNode = pattern.nodes.find(node => node.id === selectedNodeId) ?? null
+  const selectedEdge = pattern.edges.find(edge => edge.id === selectedEdgeId) ?? null
+
+  const updatePattern = useCallback((changes: Partial<PatternData>) => {
+    setPattern(current => ({ ...current, ...changes }))
+  }, [])
+
+  // The canvas renders every node with the shared agent node type
+  const flowNodes: Node[] = useMemo(() => pattern.nodes.map(node => ({
+    id: node.id,
+    type: 'agent',
+    position: node.position,
+    selected: node.id === selectedNodeId,
+    data: { label: node.data.label, nodeType: node.data.nodeType, description: node.data.description }
+  })), [pattern.nodes, selectedNodeId])
+
+  const flowEdges: Edge[] = useMemo(() => pattern.edges.map(edge => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    label: edge.label,
+    animated: edge.animated,
+    style: edge.id === selectedEdgeId ? { stroke: 'var(--primary)', strokeWidth: 3 } : { strokeWidth: 2 }
+  })), [pattern.edges, selectedEdgeId])
+
+  const addNode = (nodeType: NodeType) => {
+    let index = pattern.nodes.length + 1
+    while (pattern.nodes.some(node => node.id === `${nodeType}-${index}`)) index++
+    const id = `${nodeType}-${index}`
+    const lastNode = pattern.nodes[pattern.nodes.length - 1]
+    const newNode: PatternNode = {
+      id,
+      type: 'default',
+      data: { label: nodeType === 'llm' ? 'LLM' : nodeType.charAt(0).toUpperCase() + nodeType.slice(1), nodeType },
+      position: lastNode
+        ? { x: lastNode.position.x + 40, y: lastNode.position.y + 80 }
+        : { x: 0, y: 0 }
+    }
+    setPattern(current => ({ ...current, nodes: [...current.nodes, newNode] }))
+    setSelectedNodeId(id)
+    setSelectedEdgeId(null)
+  }
+
+  const updateNode = (nodeId: string, changes: Partial<PatternNode['data']>) => {
+    setPattern(current => ({
+      ...current,
+      nodes: current.nodes.map(node => node.id === nodeId ? { ...node, data: { ...node.data, ...changes } } : node)
+    }))
+  }
+
+  const removeNode = (nodeId: string) => {
+    setPattern(current => ({
+      ...current,
+      nodes: current.nodes.filter(node => node.id !== nodeId),
+      edges: current.edges.filter(edge => edge.source !== nodeId && edge.target !== nodeId)
+    }))
+    setSelectedNodeId(null)
+  }
+
+  const removeEdge = (edgeId: string) => {
+    setPattern(current => ({ ...current, edges: current.edges.filter(edge => edge.id !== edgeId) }))
+    setSelectedEdgeId(null)
+  }
+
+  const handleConnect = useCallback((connection: Connection) => {
+    const { source, target } = connection
+    if (!source || !target) return
+    setPattern(current => {
+      let id = `e-${source}-${target}`
+      let suffix = 2
+      while (current.edges.some(edge => edge.id === id)) id = `e-${source}-${target}-${suffix++}`
+      return { ...current, edges: [...current.edges, { id, source, target, animated: true }] }
+    })
+  }, [])
+
+  const handleNodeDragStop = useCallback((_event: React.MouseEvent, node: Node) => {
+    setPattern(current => ({
+      ...current,
+      nodes: current.nodes.map(item => item.id === node.id ? { ...item, position: node.position } : item)
+    }))
+  }, [])
+
+  const handleNodeClick = useCallback((_event: React.MouseEvent, node: Node) => {
+    setSelectedNodeId(node.id)
+    setSelectedEdgeId(null)
+  }, [])
+
+  const handleEdgeClick = useCallback((_event: React.MouseEvent, edge: Edge) => {
+    setSelectedEdgeId(edge.id)
+    setSelectedNodeId(null)
+  }, [])
+
+  const handlePaneClick = useCallback(() => {
+    setSelectedNodeId(null)
+    setSelectedEdgeId(null)
+  }, [])
+
+  const openPattern = (patternId: string) => {
+    const source = [...customPatterns, ...agentPatterns].find(p => p.id === patternId)
+    if (!source) return
+    // Deep copy so edits never touch the built-in data
+    setPattern(JSON.parse(serializePattern(source)))
+    setSelectedNodeId(null)
+    setSelectedEdgeId(null)
+    setImportErrors([])
+  }
+
+  const startNewPattern = () => {
+    setPattern(createEmptyPattern())
+    setSelectedNodeId(null)
+    setSelectedEdgeId(null)
+    setImportErrors([])
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const result = parsePatternJson(await file.text())
+    if (result.pattern) {
+      setPattern(result.pattern)
+      setImportErrors([])
+      toast.success(`Imported "${result.pattern.name}"`)
+    } else {
+      setImportErrors(result.errors)
+    }
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([serializePattern(pattern)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${pattern.id || 'pattern'}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleSave = () => {
+    if (errors.length > 0) return
+    onSave(JSON.parse(serializePattern(pattern)))
+    toast.success(`Saved "${pattern.name}" to this browser`)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pattern Editor</CardTitle>
+        <CardDescription>
+          Design a pattern visually, then save it to this browser or export it as JSON in the same shape as the built-in patterns.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={startNewPattern}>
+            <FilePlus size={16} className="mr-1" /> New
+          </Button>
+          <Select value="" onValueChange={openPattern}>
+            <SelectTrigger className="w-[220px] h-9">
+              <SelectValue placeholder="Start from existing..." />
+            </SelectTrigger>
+            <SelectContent>
+              {[...customPatterns, ...agentPatterns].map(p => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <UploadSimple size={16} className="mr-1" /> Import JSON
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={errors.length > 0}>
+            <DownloadSimple size={16} className="mr-1" /> Export JSON
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={errors.length > 0} className="ml-auto">
+            <FloppyDisk size={16} className="mr-1" /> Save to browser
+          </Button>
+        </div>
+
+        {importErrors.length > 0 && (
+          <Alert variant="destructive">
+            <WarningCircle size={16} />
+            <AlertDescription>
+              <p className="font-medium">The file is not a valid pattern:</p>
+              <ul className="list-disc pl-5 text-xs">
+                {importErrors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs defaultValue="graph">
+          <TabsList>
+            <TabsTrigger value="graph">Graph</TabsTrigger>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="json">JSON</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="graph" className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">Add node:</span>
+              {patternNodeTypes.map(nodeType => (
+                <Button key={nodeType} variant="secondary" size="sm" onClick={() => addNode(nodeType)}>
+                  <Plus size={14} className="mr-1" /> {nodeType}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Drag nodes to position them and drag from a node's right handle to another node to connect them. Click a node or edge to edit it.
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-[1fr_280px] gap-3">
+              <div className="border border-border rounded-md overflow-hidden" style={{ height: '460px' }}>
+                <StandardFlowVisualizerWithProvider
+                  nodes={flowNodes}
+                  edges={flowEdges}
+                  onConnect={handleConnect}
+                  onNodeDragStop={handleNodeDragStop}
+                  onNodeClick={handleNodeClick}
+                  onEdgeClick={handleEdgeClick}
+                  onPaneClick={handlePaneClick}
+                  showControls={true}
+                  autoFitView={false}
+                />
+              </div>
+
+              <div className="space-y-3 rounded-md border border-border p-3">
+                {selectedNode ? (
+                  <>
+                    <h4 className="text-sm font-medium">Node <code className="text-xs">{selectedNode.id}</code></h4>
+                    <div className="space-y-1">
+                      <Label htmlFor="editor-node-label">Label</Label>
+                      <Input
+                        id="editor-node-label"
+                        value={selectedNode.data.label}
+                        onChange={(e) => updateNode(selectedNode.id, { label: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Node type</Label>
+                      <Select
+                        value={selectedNode.data.nodeType ?? 'llm'}
+                        onValueChange={(value) => updateNode(selectedNode.id, { nodeType: value as NodeType })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {patternNodeTypes.map(nodeType => (
+                            <SelectItem key={nodeType} value={nodeType}>{nodeType}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="editor-node-description">Description</Label>
+                      <Textarea
+                        id="editor-node-description"
+                        rows={3}
+                        value={selectedNode.data.description ?? ''}
+                        onChange={(e) => updateNode(selectedNode.id, { description: e.target.value || undefined })}
+                      />
+                    </div>
+                    <Button variant="destructive" size="sm" onClick={() => removeNode(selectedNode.id)}>
+                      <Trash size={14} className="mr-1" /> Delete node
+                    </Button>
+                  </>
+                ) : selectedEdge ? (
+                  <>
+                    <h4 className="text-sm font-medium">
+                      Edge <code className="text-xs">{selectedEdge.source} → {selectedEdge.target}</code>
+                    </h4>
+                    <div className="space-y-1">
+                      <Label htmlFor="editor-edge-label">Label</Label>
+                      <Input
+                        id="editor-edge-label"
+                        value={selectedEdge.label ?? ''}
+                        onChange={(e) => setPattern(current => ({
+                          ...current,
+                          edges: current.edges.map(edge => edge.id === selectedEdge.id
+                            ? { ...edge, label: e.target.value || undefined }
+                            : edge)
+                        }))}
+                      />
+                    </div>
+                    <Button variant="destructive" size="sm" onClick={() => removeEdge(selectedEdge.id)}>
+                      <Trash size={14} className="mr-1" /> Delete edge
+                    </Button>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Select a node or edge to edit it. {pattern.nodes.length} nodes, {pattern.edges.length} edges.
+                  </p>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="details" className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="editor-id">ID</Label>
+                <Input id="editor-id" value={pattern.id} onChange={(e) => updatePattern({ id: e.target.value })} />
+                {builtInIds.has(pattern.id) && (
+                  <p className="text-xs text-amber-600">Saving will shadow the built-in pattern with this ID.</p>
+                )}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="editor-name">Name</Label>
+                <Input id="editor-name" value={pattern.name} onChange={(e) => updatePattern({ name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="editor-category">Category</Label>
+                <Input id="editor-category" value={pattern.category ?? ''} onChange={(e) => updatePattern({ category: e.target.value || undefined })} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="editor-description">Description</Label>
+              <Textarea id="editor-description" rows={2} value={pattern.description} onChange={(e) => updatePattern({ description: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="editor-when-to-use">When to use</Label>
+              <Textarea id="editor-when-to-use" rows={2} value={pattern.whenToUse ?? ''} onChange={(e) => updatePattern({ whenToUse: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {listFields.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`editor-${field}`}>
+                    {field === 'useCases' ? 'Use cases' : field.charAt(0).toUpperCase() + field.slice(1)} (one per line)
+                  </Label>
+                  <Textarea
+                    id={`editor-${field}`}
+                    rows={5}
+                    value={toLines(pattern[field])}
+                    onChange={(e) => updatePattern({ [field]: fromLines(e.target.value) })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="editor-code">TypeScript example</Label>
+                <Textarea
+                  id="editor-code"
+                  rows={10}
+                  className="font-mono text-xs"
+                  value={pattern.codeExample}
+                  onChange={(e) => updatePattern({ codeExample: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="editor-python-code">Python example</Label>
+                <Textarea
+                  id="editor-python-code"
+                  rows={10}
+                  className="font-mono text-xs"
+                  value={pattern.pythonCodeExample ?? ''}
+                  onChange={(e) => updatePattern({ pythonCodeExample: e.target.value })}
+                />
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="json">
+            <Textarea readOnly rows={20} className="font-mono text-xs" value={serializePattern(pattern)} />
+          </TabsContent>
+        </Tabs>
+
+        {errors.length > 0 ? (
+          <div className="rounded-md border border-destructive/30 bg-destructive/5 p-3 text-sm">
+            <div className="flex items-center gap-2 font-medium text-destructive">
+              <WarningCircle size={16} /> {errors.length} issue{errors.length === 1 ? '' : 's'} to fix before saving
+            </div>
+            <ul className="list-disc pl-5 mt-1 text-xs text-muted-foreground">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle size={16} className="text-green-600" /> Valid pattern
+            <Badge variant="outline">{pattern.id}</Badge>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default PatternEditor
@@ -1,23 +1,46 @@
-import { useState, useEffect } from 'react'
-import { agentPatterns } from '@/lib/data/patterns'
+import { useState, useEffect, useMemo } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { agentPatterns, PatternData } from '@/lib/data/patterns'
+import { loadCustomPatterns, saveCustomPatterns } from '@/lib/data/customPatterns'
 import SimplePatternVisualizer from '@/components/visualization/SimplePatternVisualizer'
 import CodePlaybook from '@/components/code-playbook/CodePlaybook'
 import PatternDetails from './PatternDetails'
 import SimpleMultiPatternVisualizer from './SimpleMultiPatternVisualizer'
+import PatternEditor from './PatternEditor'
+import PatternComposer from './PatternComposer'
+import CostLatencyEstimator from './CostLatencyEstimator'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import { ChartLine, Code, Info, Swap } from '@phosphor-icons/react'
+import { ChartLine, Code, Info, Swap, PencilSimple, LinkSimple, Check, TreeStructure, CurrencyDollar } from '@phosphor-icons/react'
 import { Button } from '@/components/ui/button'
 import { PatternSidebar } from './PatternSidebar'
 import { EnhancedTutorialButton, pagesSynopsis } from '../tutorial/EnhancedTutorialButton'
 import { useTutorialContext } from '../tutorial/TutorialProvider'
 import { agentPatternsTutorial } from '@/lib/tutorial'
+import { useContentPacks } from '@/contexts/ContentPackContext'
 import { ErrorBoundary } from '@/components/ui/ErrorBoundary'
+import { useUrlState, URL_PARAMS } from '@/lib/hooks/useUrlState'
 
 const PatternExplorer = () => {
-  const [selectedPattern, setSelectedPattern] = useState(agentPatterns[0] || null)
-  const [viewMode, setViewMode] = useState<'single' | 'compare'>('single')
+  const { content } = useContentPacks()
+  const { patternId } = useParams()
+  const navigate = useNavigate()
+  const { params, update } = useUrlState()
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [viewMode, setViewMode] = useState<'single' | 'compare' | 'editor' | 'compose'>('single')
+  const [customPatterns, setCustomPatterns] = useState<PatternData[]>(loadCustomPatterns)
+  
+  // Custom patterns replace built-in and content pack ones with the same ID
+  const patterns = useMemo(() => {
+    const customIds = new Set(customPatterns.map(pattern => pattern.id))
+    return [...content.patterns.filter(pattern => !customIds.has(pattern.id)), ...customPatterns]
+  }, [content.patterns, customPatterns])
+  
+  // The selected pattern lives in the URL so links reopen it; unknown IDs fall back to the first pattern
+  const selectedPattern = patterns.find(pattern => pattern.id === patternId) ?? patterns[0] ?? null
+  // A link to a Code Playbook tab implies the Implementation section
+  const section = params.get(URL_PARAMS.section) ?? (params.has(URL_PARAMS.tab) ? 'implementation' : 'visualization')
   
   const { startTutorial, registerTutorial, hasCompletedTutorial } = useTutorialContext();
   
@@ -40,10 +63,27 @@ const PatternExplorer = () => {
     }
   }, []);
   
+  // Switching patterns keeps the open tabs and language but starts from the first step
+  const selectPattern = (id: string) => {
+    const search = new URLSearchParams(params);
+    search.delete(URL_PARAMS.step);
+    const query = search.toString();
+    navigate(`/patterns/${encodeURIComponent(id)}${query ? `?${query}` : ''}`);
+  };
+  
   const handlePatternSelect = (patternId: string) => {
-    const pattern = agentPatterns.find(p => p.id === patternId);
-    if (pattern) {
-      setSelectedPattern(pattern);
+    if (patterns.some(p => p.id === patternId)) {
+      selectPattern(patternId);
+    }
+  };
+  
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.warn('Failed to copy link:', error);
     }
   };
   
@@ -51,6 +91,13 @@ const PatternExplorer = () => {
     setViewMode(current => current === 'single' ? 'compare' : 'single');
   };
   
+  const handleSaveCustomPattern = (pattern: PatternData) => {
+    const updated = [...customPatterns.filter(p => p.id !== pattern.id), pattern];
+    setCustomPatterns(updated);
+    saveCustomPatterns(updated);
+    selectPattern(pattern.id);
+  };
+  
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center mb-4">
@@ -64,6 +111,34 @@ const PatternExplorer = () => {
             showDetailedView={true}
           />
           
+          <Button
+            variant="outline"
+            onClick={copyLink}
+            className="flex items-center gap-2"
+            title="Copy a link to this pattern, tab and step"
+          >
+            {linkCopied ? <Check size={16} /> : <LinkSimple size={16} />}
+            {linkCopied ? 'Link Copied' : 'Copy Link'}
+          </Button>
+          
+          <Button 
+            variant={viewMode === 'editor' ? 'default' : 'outline'}
+            onClick={() => setViewMode(current => current === 'editor' ? 'single' : 'editor')}
+            className="flex items-center gap-2"
+          >
+            <PencilSimple size={16} />
+            {viewMode === 'editor' ? 'Close Editor' : 'Pattern Editor'}
+          </Button>
+          
+          <Button 
+            variant={viewMode === 'compose' ? 'default' : 'outline'}
+            onClick={() => setViewMode(current => current === 'compose' ? 'single' : 'compose')}
+            className="flex items-center gap-2"
+          >
+            <TreeStructure size={16} />
+            {viewMode === 'compose' ? 'Close Composer' : 'Compose Patterns'}
+          </Button>
+          
           <Button 
             variant="outline" 
             onClick={toggleViewMode}
@@ -75,7 +150,15 @@ const PatternExplorer = () => {
         </div>
       </div>
       
-      {viewMode === 'single' ? (
+      {viewMode === 'editor' ? (
+        <ErrorBoundary>
+          <PatternEditor customPatterns={customPatterns} onSave={handleSaveCustomPattern} />
+        </ErrorBoundary>
+      ) : viewMode === 'compose' ? (
+        <ErrorBoundary>
+          <PatternComposer patterns={patterns} />
+        </ErrorBoundary>
+      ) : viewMode === 'single' ? (
         <div className="flex relative">
           {/* Sidebar */}
           {selectedPattern ? (
@@ -84,6 +167,7 @@ const PatternExplorer = () => {
                 <PatternSidebar 
                   activePatternId={selectedPattern.id} 
                   onPatternSelect={handlePatternSelect}
+                  patterns={patterns}
                 />
               </div>
               
@@ -95,7 +179,7 @@ const PatternExplorer = () => {
                 <CardContent className="py-2">
                   <ScrollArea className="h-[150px]">
                     <div className="space-y-2">
-                      {agentPatterns.map((pattern) => (
+                      {patterns.map((pattern) => (
                         <div
                           key={pattern.id}
                           className={`p-2 rounded-md cursor-pointer transition-colors ${
@@ -103,7 +187,7 @@ const PatternExplorer = () => {
                               ? 'bg-primary/10 border-l-2 border-primary'
                               : 'hover:bg-muted'
                           }`}
-                          onClick={() => setSelectedPattern(pattern)}
+                          onClick={() => selectPattern(pattern.id)}
                         >
                           <h3 className="text-sm font-medium">{pattern.name}</h3>
                         </div>
@@ -115,8 +199,12 @@ const PatternExplorer = () => {
               
               {/* Main Content Area */}
               <div className="flex-1 md:pl-[260px]">
-                <Tabs defaultValue="visualization" className="w-full">
-                  <TabsList className="grid w-full grid-cols-3" data-tab-list>
+                <Tabs
+                  value={section}
+                  onValueChange={(value) => update({ [URL_PARAMS.section]: value, [URL_PARAMS.step]: null }, { push: true })}
+                  className="w-full"
+                >
+                  <TabsList className="grid w-full grid-cols-4" data-tab-list>
                     <TabsTrigger value="visualization" className="flex items-center gap-2" data-tab="visualization">
                       <ChartLine size={16} /> Visualization
                     </TabsTrigger>
@@ -126,6 +214,9 @@ const PatternExplorer = () => {
                     <TabsTrigger value="implementation" className="flex items-center gap-2" data-tab="implementation">
                       <Code size={16} /> Implementation
                     </TabsTrigger>
+                    <TabsTrigger value="cost" className="flex items-center gap-2" data-tab="cost">
+                      <CurrencyDollar size={16} /> Cost &amp; Latency
+                    </TabsTrigger>
                   </TabsList>
                   
                   <TabsContent value="visualization">
@@ -145,6 +236,12 @@ const PatternExplorer = () => {
                   <TabsContent value="implementation">
                     <CodePlaybook patternData={selectedPattern} />
                   </TabsContent>
+                  
+                  <TabsContent value="cost">
+                    <ErrorBoundary>
+                      <CostLatencyEstimator patternData={selectedPattern} />
+                    </ErrorBoundary>
+                  </TabsContent>
                 </Tabs>
               </div>
             </>
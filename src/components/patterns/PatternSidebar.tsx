@@ -14,7 +14,7 @@ import {
   useSidebar
 } from "@/components/ui/sidebar";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { agentPatterns } from '@/lib/data/patterns';
+import { agentPatterns, PatternData } from '@/lib/data/patterns';
 import { BookmarkSimple, CaretRight, GraduationCap, Keyboard, Lightbulb, MagnifyingGlass, Robot, X } from '@phosphor-icons/react';
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
@@ -32,16 +32,18 @@ import EnlightenMeButton from '../concepts/EnlightenMeButton';
 interface PatternSidebarProps {
   activePatternId: string;
   onPatternSelect: (id: string) => void;
+  // Defaults to the built-in patterns
+  patterns?: PatternData[];
 }
 
-export function PatternSidebar({ activePatternId, onPatternSelect }: PatternSidebarProps) {
+export function PatternSidebar({ activePatternId, onPatternSelect, patterns = agentPatterns }: PatternSidebarProps) {
   const { 
     searchQuery, 
     setSearchQuery,
     filteredCategories,
     groupByCategory,
     categories
-  } = useSidebarSearch(agentPatterns);
+  } = useSidebarSearch(patterns);
   
   const { isCollapsed, toggleSidebar } = useSidebarCollapse();
   
@@ -65,10 +67,10 @@ export function PatternSidebar({ activePatternId, onPatternSelect }: PatternSide
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [isCollapsed, toggleSidebar]);
 
-  // Group patterns by category on component mount
+  // Group patterns by category, again whenever the pattern list changes
   useEffect(() => {
     groupByCategory();
-  }, []);
+  }, [groupByCategory]);
 
   // Get appropriate icon for pattern category
   const getCategoryIcon = (category: string) => {
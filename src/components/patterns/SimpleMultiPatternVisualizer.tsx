@@ -9,6 +9,8 @@ import { ArrowsCounterClockwise, Play, ArrowsHorizontal, ChartLine, Table, Plus,
 import { PatternData, agentPatterns } from '@/lib/data/patterns';
 import { useTheme } from '@/components/theme/ThemeProvider';
 import EnlightenMeButton from '../concepts/EnlightenMeButton';
+import { loadCostEstimatorSettings } from '@/lib/data/modelPricing';
+import { estimatePattern, getSelectedPricing, formatCost, formatLatency } from '@/lib/estimation';
 
 interface SimpleMultiPatternVisualizerProps {
   initialPatterns?: string[];
@@ -38,6 +40,12 @@ const SimpleMultiPatternVisualizer: React.FC<SimpleMultiPatternVisualizerProps>
   const selectedPatterns = agentPatterns.filter(pattern => 
     selectedPatternIds.includes(pattern.id)
   );
+  
+  // Estimated with the settings last used on a pattern's Cost & Latency tab
+  const costSettings = useMemo(() => loadCostEstimatorSettings(), []);
+  const estimates = useMemo(() => Object.fromEntries(
+    selectedPatterns.map(pattern => [pattern.id, estimatePattern(pattern, costSettings)])
+  ), [selectedPatternIds, costSettings]);
 
   // Create a clean flow-based layout for pattern visualization
   const createFlowLayout = (pattern: PatternData, containerWidth: number, containerHeight: number) => {
@@ -678,6 +686,41 @@ const SimpleMultiPatternVisualizer: React.FC<SimpleMultiPatternVisualizerProps>
                           
                           <Separator />
                           
+                          {/* Cost & Latency */}
+                          <div>
+                            <h4 className="font-medium text-sm mb-2">Cost &amp; Latency per Request</h4>
+                            <div className="text-xs text-muted-foreground mb-2">
+                              {getSelectedPricing(costSettings).name}, {costSettings.loopIterations} loop iterations
+                            </div>
+                            <div className="space-y-2">
+                              {selectedPatterns.map(pattern => {
+                                const estimate = estimates[pattern.id];
+                                if (!estimate) return null;
+                                return (
+                                  <div key={pattern.id} className="space-y-1">
+                                    <div className="flex items-center justify-between text-sm">
+                                      <div className="flex items-center gap-2">
+                                        <div 
+                                          className="w-2 h-2 rounded-full"
+                                          style={{ backgroundColor: getNodeColors(pattern.id, 'default', false).border }}
+                                        />
+                                        <span className="truncate">{pattern.name}</span>
+                                      </div>
+                                      <Badge variant="outline" className="text-xs">
+                                        {formatCost(estimate.cost)}
+                                      </Badge>
+                                    </div>
+                                    <div className="text-xs text-muted-foreground ml-4">
+                                      p50 {formatLatency(estimate.latency.p50)} • p95 {formatLatency(estimate.latency.p95)} • {estimate.modelCalls} model calls
+                                    </div>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          </div>
+                          
+                          <Separator />
+                          
                           {/* Performance Indicators */}
                           <div>
                             <h4 className="font-medium text-sm mb-2">Pattern Stats</h4>
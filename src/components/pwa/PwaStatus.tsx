@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { ArrowsClockwise, WifiSlash } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useOnlineStatus } from '@/lib/hooks/useOnlineStatus';
+
+/**
+ * Registers the service worker and shows the offline state and pending app updates.
+ * Updates wait for the user, so a workshop isn't reloaded mid-exercise.
+ */
+const PwaStatus = () => {
+  const isOnline = useOnlineStatus();
+  const {
+    offlineReady: [offlineReady, setOfflineReady],
+    needRefresh: [needRefresh],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisterError: error => console.warn('Service worker registration failed:', error)
+  });
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    toast.success('AI Agent School is ready to work offline');
+    setOfflineReady(false);
+  }, [offlineReady, setOfflineReady]);
+
+  return (
+    <>
+      {!isOnline && (
+        <Badge variant="outline" className="flex items-center gap-1" title="Cached content and AI responses are still available">
+          <WifiSlash size={14} />
+          <span className="hidden sm:inline">Offline</span>
+        </Badge>
+      )}
+      {needRefresh && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => updateServiceWorker(true)}
+          className="flex items-center gap-2"
+          title="A new version is available"
+        >
+          <ArrowsClockwise size={16} />
+          <span className="hidden sm:inline">Update</span>
+        </Button>
+      )}
+    </>
+  );
+};
+
+export default PwaStatus;
@@ -3,8 +3,6 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
@@ -17,25 +15,50 @@ import {
 import { cn } from "@/lib/utils";
 import CodeBlock from '@/components/ui/CodeBlock';
 import { 
-  QuizQuestion, QuizSession, QuizCategory, UserPersona, QuizFeedback,
-  quizCategories, userPersonas, getQuizzesByPersona, getQuizzesByCategory,
-  generateAdaptiveQuiz, calculateQuizScore, generateQuizFeedback
+  QuizQuestion, QuizSession, QuizCategory, UserPersona, QuizFeedback, QuizAnswer,
+  userPersonas, getQuizzesByPersona, getQuizzesByCategory,
+  generateAdaptiveQuiz, calculateQuizScore, generateQuizFeedback,
+  isAnswerComplete, isAnswerCorrect, formatAnswer, getCorrectAnswer, getQuestionType
 } from "@/lib/data/quizzes";
+import QuestionAnswerInput from './QuestionAnswerInput';
+import { useContentPacks } from '@/contexts/ContentPackContext';
+import {
+  QuestionReviewStates, loadReviewStates, recordQuizReview, getDueQuestions
+} from "@/lib/data/quizReview";
+import {
+  AbilityModel, loadAbilityModel, saveAbilityModel, recordAnswer, selectNextQuestion,
+  getQuestionCategoryId, difficultyPriors, abilityToScore, getAbilityLevel
+} from "@/lib/data/quizAbility";
 
 interface AdaptiveLearningQuizProps {
   onQuizComplete?: (session: QuizSession) => void;
+  // Quiz only the questions whose spaced-repetition review is due
+  reviewMode?: boolean;
 }
 
-const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizComplete }) => {
+const REVIEW_SESSION_SIZE = 10;
+const ADAPTIVE_SESSION_SIZE = 10;
+
+const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizComplete, reviewMode = false }) => {
+  const { content: { quizCategories } } = useContentPacks();
   const [selectedPersona, setSelectedPersona] = useState<UserPersona | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<QuizCategory | null>(null);
   const [selectedDifficulty, setSelectedDifficulty] = useState<'beginner' | 'intermediate' | 'advanced'>('beginner');
   const [currentSession, setCurrentSession] = useState<QuizSession | null>(null);
-  const [currentAnswer, setCurrentAnswer] = useState<string>('');
+  const [currentAnswer, setCurrentAnswer] = useState<QuizAnswer | undefined>(undefined);
   const [showResults, setShowResults] = useState(false);
   const [quizFeedback, setQuizFeedback] = useState<QuizFeedback[]>([]);
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
   const [quizStarted, setQuizStarted] = useState(false);
+  const [reviewStates, setReviewStates] = useState<QuestionReviewStates>(loadReviewStates);
+  const dueQuestions = getDueQuestions(quizCategories, reviewStates);
+  const [abilityModel, setAbilityModel] = useState<AbilityModel>(loadAbilityModel);
+  // Candidates the next question is picked from, the due reviews among them that are
+  // asked first, and how many questions the session runs for
+  const [questionPool, setQuestionPool] = useState<QuizQuestion[]>([]);
+  const [dueIds, setDueIds] = useState<string[]>([]);
+  const [sessionLength, setSessionLength] = useState(0);
+  const [startingAbility, setStartingAbility] = useState(0);
 
   // Save quiz progress to localStorage
   const saveQuizProgress = useCallback((completedSession: QuizSession) => {
@@ -92,138 +115,127 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
     };
     
     localStorage.setItem('page-analytics-quiz', JSON.stringify(pageAnalytics));
+
+    // Reschedule every question in the session for spaced repetition
+    setReviewStates(recordQuizReview(completedSession));
   }, []);
 
+  // Finish the session: score it, show results and persist progress
+  const completeSession = useCallback((session: QuizSession) => {
+    const completedSession = {
+      ...session,
+      currentQuestionIndex: session.questions.length,
+      completed: true,
+      endTime: new Date(),
+      timeSpent: Math.round((new Date().getTime() - session.startTime.getTime()) / 1000)
+    };
+
+    completedSession.score = calculateQuizScore(completedSession);
+    const feedback = generateQuizFeedback(completedSession);
+
+    setCurrentSession(completedSession);
+    setQuizFeedback(feedback);
+    setShowResults(true);
+    setTimeRemaining(0);
+    setCurrentAnswer(undefined);
+
+    // Save progress to localStorage
+    saveQuizProgress(completedSession);
+
+    if (onQuizComplete) {
+      onQuizComplete(completedSession);
+    }
+  }, [onQuizComplete, saveQuizProgress]);
+
+  // Score the current question, then move on: the next question is chosen from the pool
+  // against the updated ability estimate, so the session adapts as it goes
+  const advanceSession = useCallback((session: QuizSession) => {
+    const answeredQuestion = session.questions[session.currentQuestionIndex];
+    const categoryId = getQuestionCategoryId(quizCategories, answeredQuestion);
+    const updatedModel = recordAnswer(
+      abilityModel,
+      answeredQuestion,
+      categoryId,
+      isAnswerCorrect(answeredQuestion, session.answers[answeredQuestion.id]),
+      startingAbility
+    );
+    setAbilityModel(updatedModel);
+    saveAbilityModel(updatedModel);
+
+    const nextIndex = session.currentQuestionIndex + 1;
+    let questions = session.questions;
+    if (nextIndex >= questions.length && questions.length < sessionLength) {
+      const nextQuestion = selectNextQuestion(
+        questionPool,
+        questions.map(question => question.id),
+        updatedModel,
+        quizCategories,
+        startingAbility,
+        dueIds
+      );
+      if (nextQuestion) questions = [...questions, nextQuestion];
+    }
+
+    if (nextIndex >= questions.length) {
+      completeSession(session);
+      return;
+    }
+
+    const nextSession = {
+      ...session,
+      questions,
+      currentQuestionIndex: nextIndex
+    };
+    setCurrentSession(nextSession);
+    setCurrentAnswer(undefined);
+    setTimeRemaining(nextSession.questions[nextIndex].timeEstimate);
+  }, [abilityModel, questionPool, dueIds, sessionLength, startingAbility, quizCategories, completeSession]);
+
   // Timer effect for auto-advancing questions
   useEffect(() => {
     if (!currentSession || currentSession.completed || timeRemaining <= 0) return;
 
     const timer = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 1) {
-          // Auto-submit current question when time runs out
-          if (currentAnswer) {
-            // Call handleAnswerSubmit logic directly
-            const currentQuestion = currentSession.questions[currentSession.currentQuestionIndex];
-            const answerValue = parseInt(currentAnswer);
-            const updatedAnswers = {
-              ...currentSession.answers,
-              [currentQuestion.id]: answerValue
-            };
-
-            const updatedSession = {
-              ...currentSession,
-              answers: updatedAnswers
-            };
-
-            setCurrentAnswer('');
-            
-            // Move to next question or complete quiz
-            const nextIndex = currentSession.currentQuestionIndex + 1;
-            if (nextIndex >= currentSession.questions.length) {
-              const completedSession = {
-                ...updatedSession,
-                currentQuestionIndex: nextIndex,
-                completed: true,
-                endTime: new Date(),
-                timeSpent: Math.round((new Date().getTime() - currentSession.startTime.getTime()) / 1000)
-              };
-              
-              completedSession.score = calculateQuizScore(completedSession);
-              const feedback = generateQuizFeedback(completedSession);
-              
-              setCurrentSession(completedSession);
-              setQuizFeedback(feedback);
-              setShowResults(true);
-              setTimeRemaining(0);
-              
-              if (onQuizComplete) {
-                onQuizComplete(completedSession);
-              }
-            } else {
-              const nextSession = {
-                ...updatedSession,
-                currentQuestionIndex: nextIndex
-              };
-              setCurrentSession(nextSession);
-              setTimeRemaining(nextSession.questions[nextIndex].timeEstimate);
-            }            } else {
-            // No answer selected, just move to next question
-            const nextIndex = currentSession.currentQuestionIndex + 1;
-            if (nextIndex >= currentSession.questions.length) {
-              const completedSession = {
-                ...currentSession,
-                currentQuestionIndex: nextIndex,
-                completed: true,
-                endTime: new Date(),
-                timeSpent: Math.round((new Date().getTime() - currentSession.startTime.getTime()) / 1000)
-              };
-              
-              completedSession.score = calculateQuizScore(completedSession);
-              const feedback = generateQuizFeedback(completedSession);
-              
-              setCurrentSession(completedSession);
-              setQuizFeedback(feedback);
-              setShowResults(true);
-              setTimeRemaining(0);
-              
-              // Save progress to localStorage
-              saveQuizProgress(completedSession);
-              
-              if (onQuizComplete) {
-                onQuizComplete(completedSession);
-              }
-            } else {
-              const nextSession = {
-                ...currentSession,
-                currentQuestionIndex: nextIndex
-              };
-              setCurrentSession(nextSession);
-              setTimeRemaining(nextSession.questions[nextIndex].timeEstimate);
-            }
-          }
-          return 0;
-        }
-        return prev - 1;
-      });
+      setTimeRemaining(prev => prev - 1);
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [currentSession, timeRemaining, currentAnswer, onQuizComplete, calculateQuizScore, generateQuizFeedback]);
+  }, [currentSession, timeRemaining]);
+
+  // When time runs out, submit the selected answer (if any) and move on
+  useEffect(() => {
+    if (!currentSession || currentSession.completed || showResults || timeRemaining > 0) return;
+    if (!currentSession.questions[currentSession.currentQuestionIndex]) return;
+
+    const currentQuestion = currentSession.questions[currentSession.currentQuestionIndex];
+    advanceSession(isAnswerComplete(currentQuestion, currentAnswer) ? {
+      ...currentSession,
+      answers: { ...currentSession.answers, [currentQuestion.id]: currentAnswer }
+    } : currentSession);
+  }, [timeRemaining]);
 
   const startQuiz = useCallback(() => {
     if (!selectedPersona) return;
 
+    // The pool spans every difficulty; the selected level only sets the starting ability
     let questions: QuizQuestion[] = [];
     
     if (selectedCategory) {
-      // Category-specific quiz
-      questions = getQuizzesByCategory(selectedCategory.id, selectedDifficulty);
+      // Category-specific quiz, shuffled so ties in the adaptive pick vary between sessions
+      questions = getQuizzesByCategory(selectedCategory.id, undefined, quizCategories)
+        .sort(() => Math.random() - 0.5);
     } else {
-      // Persona-adaptive quiz
+      // Persona-adaptive quiz, ranked by relevance to the persona's focus areas; the
+      // ranking breaks ties in the adaptive pick
       questions = generateAdaptiveQuiz(
         selectedPersona.id, 
         selectedPersona.focusAreas, 
-        selectedDifficulty, 
-        15
+        undefined, 
+        30,
+        quizCategories
       );
     }
 
-    if (questions.length === 0) {
-      // If no questions found for the selected difficulty, try to get questions from all difficulty levels
-      if (selectedCategory) {
-        questions = getQuizzesByCategory(selectedCategory.id);
-      } else {
-        // For persona-based quiz, try without difficulty filter
-        questions = generateAdaptiveQuiz(
-          selectedPersona.id, 
-          selectedPersona.focusAreas, 
-          'beginner', // fallback to beginner
-          15
-        );
-      }
-    }
-
     if (questions.length === 0) {
       console.error('No questions found for selected criteria:', {
         persona: selectedPersona?.id,
@@ -233,15 +245,17 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
       return;
     }
 
-    // Shuffle questions
-    questions = questions.sort(() => Math.random() - 0.5);
+    // Due reviews in the pool are asked before anything else
+    const dueInPool = dueQuestions.filter(due => questions.some(question => question.id === due.id)).map(due => due.id);
+    const initialAbility = difficultyPriors[selectedDifficulty];
+    const firstQuestion = selectNextQuestion(questions, [], abilityModel, quizCategories, initialAbility, dueInPool);
 
     const session: QuizSession = {
       id: `quiz-${Date.now()}`,
       userId: 'current-user',
       categoryId: selectedCategory?.id || 'adaptive',
       difficulty: selectedDifficulty,
-      questions: questions.slice(0, 10), // Limit to 10 questions
+      questions: [firstQuestion],
       currentQuestionIndex: 0,
       answers: {},
       score: 0,
@@ -251,117 +265,86 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
       feedback: []
     };
 
+    setQuestionPool(questions);
+    setDueIds(dueInPool);
+    setSessionLength(Math.min(ADAPTIVE_SESSION_SIZE, questions.length));
+    setStartingAbility(initialAbility);
     setCurrentSession(session);
-    setCurrentAnswer('');
+    setCurrentAnswer(undefined);
     setShowResults(false);
     setQuizStarted(true);
     
     // Set timer for first question
-    if (session.questions.length > 0) {
-      setTimeRemaining(session.questions[0].timeEstimate);
-    }
-  }, [selectedPersona, selectedCategory, selectedDifficulty]);
+    setTimeRemaining(firstQuestion.timeEstimate);
+  }, [selectedPersona, selectedCategory, selectedDifficulty, quizCategories, reviewStates, abilityModel]);
 
-  const handleAnswerSubmit = useCallback(() => {
-    if (!currentSession || !currentAnswer) return;
+  const startReview = useCallback(() => {
+    const questions = getDueQuestions(quizCategories, loadReviewStates()).slice(0, REVIEW_SESSION_SIZE);
+    if (questions.length === 0) return;
 
-    const currentQuestion = currentSession.questions[currentSession.currentQuestionIndex];
-    const answerValue = parseInt(currentAnswer);
-    const updatedAnswers = {
-      ...currentSession.answers,
-      [currentQuestion.id]: answerValue
-    };
+    // A review mixes difficulties; label the session with the most common one
+    const difficultyCounts = questions.reduce<Record<string, number>>((counts, question) => ({
+      ...counts,
+      [question.difficulty]: (counts[question.difficulty] || 0) + 1
+    }), {});
+    const difficulty = (['beginner', 'intermediate', 'advanced'] as const)
+      .reduce((a, b) => (difficultyCounts[b] || 0) > (difficultyCounts[a] || 0) ? b : a);
 
-    // Update session with the new answer
-    const updatedSession = {
-      ...currentSession,
-      answers: updatedAnswers
+    const session: QuizSession = {
+      id: `review-${Date.now()}`,
+      userId: 'current-user',
+      categoryId: 'review',
+      difficulty,
+      questions,
+      currentQuestionIndex: 0,
+      answers: {},
+      score: 0,
+      startTime: new Date(),
+      timeSpent: 0,
+      completed: false,
+      feedback: []
     };
 
-    // Check if this is the last question
-    const isLastQuestion = currentSession.currentQuestionIndex + 1 >= currentSession.questions.length;
-    
-    if (isLastQuestion) {
-      // Complete the quiz immediately for the last question
-      const completedSession = {
-        ...updatedSession,
-        currentQuestionIndex: currentSession.currentQuestionIndex + 1,
-        completed: true,
-        endTime: new Date(),
-        timeSpent: Math.round((new Date().getTime() - currentSession.startTime.getTime()) / 1000)
-      };
-      
-      completedSession.score = calculateQuizScore(completedSession);
-      const feedback = generateQuizFeedback(completedSession);              setCurrentSession(completedSession);
-              setQuizFeedback(feedback);
-              setShowResults(true);
-              setTimeRemaining(0);
-              setCurrentAnswer(''); // Clear answer only after completion
-              
-              // Save progress to localStorage
-              saveQuizProgress(completedSession);
-              
-              if (onQuizComplete) {
-                onQuizComplete(completedSession);
-              }
-    } else {
-      // Move to next question immediately using the updated session
-      const nextIndex = currentSession.currentQuestionIndex + 1;
-      const nextSession = {
-        ...updatedSession,
-        currentQuestionIndex: nextIndex
-      };
-      
-      setCurrentSession(nextSession);
-      setCurrentAnswer(''); // Clear answer for next question
-      setTimeRemaining(nextSession.questions[nextIndex].timeEstimate);
-    }
-  }, [currentSession, currentAnswer, onQuizComplete]);
+    setSelectedDifficulty(difficulty);
+    // Reviews ask exactly the due questions, in order
+    setQuestionPool([]);
+    setSessionLength(questions.length);
+    setStartingAbility(0);
+    setCurrentSession(session);
+    setCurrentAnswer(undefined);
+    setShowResults(false);
+    setQuizStarted(true);
+    setTimeRemaining(session.questions[0].timeEstimate);
+  }, [quizCategories]);
 
-  const handleNextQuestion = useCallback(() => {
+  // Review mode starts straight away when something is due
+  useEffect(() => {
+    if (reviewMode) startReview();
+  }, [reviewMode]);
+
+  const handleAnswerSubmit = useCallback(() => {
     if (!currentSession) return;
 
-    const nextIndex = currentSession.currentQuestionIndex + 1;
-    
-    if (nextIndex >= currentSession.questions.length) {
-      // Quiz completed (this should now only be called by timer auto-advance)
-      const completedSession = {
-        ...currentSession,
-        currentQuestionIndex: nextIndex,
-        completed: true,
-        endTime: new Date(),
-        timeSpent: Math.round((new Date().getTime() - currentSession.startTime.getTime()) / 1000)
-      };
-      
-      completedSession.score = calculateQuizScore(completedSession);
-      const feedback = generateQuizFeedback(completedSession);
-      
-      setCurrentSession(completedSession);
-      setQuizFeedback(feedback);
-      setShowResults(true);
-      setTimeRemaining(0);
-      
-      // Save progress to localStorage
-      saveQuizProgress(completedSession);
-      
-      if (onQuizComplete) {
-        onQuizComplete(completedSession);
+    const currentQuestion = currentSession.questions[currentSession.currentQuestionIndex];
+    if (!isAnswerComplete(currentQuestion, currentAnswer)) return;
+
+    advanceSession({
+      ...currentSession,
+      answers: {
+        ...currentSession.answers,
+        [currentQuestion.id]: currentAnswer
       }
-    } else {
-      // Move to next question
-      const updatedSession = {
-        ...currentSession,
-        currentQuestionIndex: nextIndex
-      };
-      
-      setCurrentSession(updatedSession);
-      setTimeRemaining(updatedSession.questions[nextIndex].timeEstimate);
-    }
-  }, [currentSession, onQuizComplete]);
+    });
+  }, [currentSession, currentAnswer, advanceSession]);
+
+  const handleNextQuestion = useCallback(() => {
+    if (!currentSession) return;
+    advanceSession(currentSession);
+  }, [currentSession, advanceSession]);
 
   const resetQuiz = useCallback(() => {
     setCurrentSession(null);
-    setCurrentAnswer('');
+    setCurrentAnswer(undefined);
     setShowResults(false);
     setQuizFeedback([]);
     setTimeRemaining(0);
@@ -400,7 +383,9 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
   // If quiz is started and we have a session
   if (quizStarted && currentSession && !showResults) {
     const currentQuestion = currentSession.questions[currentSession.currentQuestionIndex];
-    const progress = ((currentSession.currentQuestionIndex + 1) / currentSession.questions.length) * 100;
+    // Adaptive sessions add questions as they go, so count against the planned length
+    const totalQuestions = Math.max(sessionLength, currentSession.questions.length);
+    const progress = ((currentSession.currentQuestionIndex + 1) / totalQuestions) * 100;
 
     // Check if currentQuestion exists - if not, there's an issue with question loading
     if (!currentQuestion) {
@@ -455,7 +440,7 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
           
           <div className="space-y-2">
             <div className="flex items-center justify-between text-sm">
-              <span>Question {currentSession.currentQuestionIndex + 1} of {currentSession.questions.length}</span>
+              <span>Question {currentSession.currentQuestionIndex + 1} of {totalQuestions}</span>
               <span>{Math.round(progress)}% Complete</span>
             </div>
             <Progress value={progress} className="w-full" />
@@ -489,23 +474,12 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
               </Card>
             )}
 
-            <RadioGroup
-              value={currentAnswer}
-              onValueChange={setCurrentAnswer}
-              className="space-y-3"
-            >
-              {currentQuestion.options.map((option, index) => (
-                <div key={index} className="flex items-center space-x-2 p-3 rounded-lg border hover:bg-muted/50 transition-colors">
-                  <RadioGroupItem value={index.toString()} id={`option-${index}`} />
-                  <Label 
-                    htmlFor={`option-${index}`} 
-                    className="flex-1 cursor-pointer text-sm leading-relaxed"
-                  >
-                    {option}
-                  </Label>
-                </div>
-              ))}
-            </RadioGroup>
+            <QuestionAnswerInput
+              key={currentQuestion.id}
+              question={currentQuestion}
+              answer={currentAnswer}
+              onAnswerChange={setCurrentAnswer}
+            />
           </div>
 
           <div className="flex items-center justify-between pt-4">
@@ -519,10 +493,10 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
               </Button>
               <Button 
                 onClick={handleAnswerSubmit} 
-                disabled={!currentAnswer}
+                disabled={!isAnswerComplete(currentQuestion, currentAnswer)}
                 className="min-w-24"
               >
-                {currentSession.currentQuestionIndex + 1 === currentSession.questions.length ? 'Finish' : 'Next'}
+                {currentSession.currentQuestionIndex + 1 === totalQuestions ? 'Finish' : 'Next'}
               </Button>
             </div>
           </div>
@@ -535,6 +509,7 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
   if (showResults && currentSession) {
     const correctAnswers = quizFeedback.filter(f => f.isCorrect).length;
     const scorePercentage = currentSession.score;
+    const sessionCategoryIds = [...new Set(currentSession.questions.map(q => getQuestionCategoryId(quizCategories, q)))];
     
     return (
       <Card className="w-full max-w-4xl mx-auto quiz-results-container">
@@ -553,7 +528,7 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
             <div className="space-y-2 text-sm">
               <p><strong>Date:</strong> {new Date().toLocaleDateString()}</p>
               <p><strong>Time:</strong> {new Date().toLocaleTimeString()}</p>
-              <p><strong>Quiz Type:</strong> {selectedPersona ? `Role-based (${selectedPersona.name})` : selectedCategory ? `Topic-based (${selectedCategory.name})` : 'Adaptive Quiz'}</p>
+              <p><strong>Quiz Type:</strong> {currentSession.categoryId === 'review' ? 'Spaced Repetition Review' : selectedPersona ? `Role-based (${selectedPersona.name})` : selectedCategory ? `Topic-based (${selectedCategory.name})` : 'Adaptive Quiz'}</p>
               <p><strong>Difficulty Level:</strong> {selectedDifficulty}</p>
               <p><strong>Total Questions:</strong> {currentSession.questions.length}</p>
               <p><strong>Time Spent:</strong> {formatTime(currentSession.timeSpent)}</p>
@@ -583,6 +558,34 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
             </Card>
           </div>
 
+          {/* Ability estimates for the categories this session covered */}
+          <Card className="p-4 print:hidden">
+            <div className="flex items-center gap-3 mb-3">
+              <Target size={20} className="text-primary" />
+              <h3 className="font-semibold">Ability Estimate</h3>
+            </div>
+            <div className="space-y-2">
+              {sessionCategoryIds.map(categoryId => {
+                const estimate = abilityModel.abilities[categoryId];
+                if (!estimate) return null;
+                const level = getAbilityLevel(estimate.ability);
+                return (
+                  <div key={categoryId} className="flex items-center justify-between text-sm">
+                    <span>{quizCategories.find(c => c.id === categoryId)?.name ?? categoryId}</span>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{abilityToScore(estimate.ability)}/100</span>
+                      <Badge className={cn("text-xs", getDifficultyColor(level))}>{level}</Badge>
+                      <span className="text-xs text-muted-foreground">{estimate.answered} answers</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3">
+              Estimated from all your answers so far, weighted by each question's calibrated difficulty.
+            </p>
+          </Card>
+
           {/* Performance Level */}
           <Card className="p-4">
             <div className="flex items-center gap-3 mb-3">
@@ -637,21 +640,24 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
                             <div className="print:block">
                               <p className="text-xs font-medium print:text-sm print:font-semibold mb-1">Your Answer:</p>
                               <p className="text-xs text-muted-foreground print:text-sm print:text-black">
-                                {currentSession.answers[question.id] !== undefined 
-                                  ? question.options[currentSession.answers[question.id]]
-                                  : 'Not answered'}
+                                {formatAnswer(question, currentSession.answers[question.id])}
                               </p>
                             </div>
                             <div className="print:block">
                               <p className="text-xs font-medium print:text-sm print:font-semibold mb-1">Correct Answer:</p>
                               <p className="text-xs text-muted-foreground print:text-sm print:text-black">
-                                {question.options[question.correctAnswer]}
+                                {formatAnswer(question, getCorrectAnswer(question))}
                               </p>
                             </div>
                             <div className="print:block">
                               <p className="text-xs font-medium print:text-sm print:font-semibold mb-1">Explanation:</p>
                               <p className="text-xs text-muted-foreground print:text-sm print:text-black mb-2">{feedback.explanation}</p>
                             </div>
+                            {reviewStates[question.id] && (
+                              <p className="text-xs text-muted-foreground print:hidden">
+                                Next review in {reviewStates[question.id].intervalDays} day{reviewStates[question.id].intervalDays === 1 ? '' : 's'}
+                              </p>
+                            )}
                             {!feedback.isCorrect && feedback.improvementSuggestions.length > 0 && (
                               <div className="space-y-1 print:space-y-2">
                                 <p className="text-xs font-medium text-orange-600 print:text-sm print:font-semibold print:text-black">Recommendations:</p>
@@ -695,25 +701,34 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
                         <p className="text-base font-bold mb-3">{question.question}</p>
                         
                         <div className="space-y-3">
-                          <div>
-                            <p className="font-semibold mb-1">All Options:</p>
-                            <ol className="list-decimal list-inside space-y-1">
-                              {question.options.map((option, optIndex) => (
-                                <li key={optIndex} className={`${
-                                  optIndex === question.correctAnswer ? 'font-bold text-green-600' : ''
-                                } ${
-                                  optIndex === currentSession.answers[question.id] ? 'bg-blue-100' : ''
-                                }`}>
-                                  {option} {optIndex === question.correctAnswer ? '(Correct)' : ''} {optIndex === currentSession.answers[question.id] ? '(Your Answer)' : ''}
-                                </li>
-                              ))}
-                            </ol>
-                          </div>
+                          {getQuestionType(question) === 'single-choice' ? (
+                            <div>
+                              <p className="font-semibold mb-1">All Options:</p>
+                              <ol className="list-decimal list-inside space-y-1">
+                                {question.options.map((option, optIndex) => (
+                                  <li key={optIndex} className={`${
+                                    optIndex === question.correctAnswer ? 'font-bold text-green-600' : ''
+                                  } ${
+                                    optIndex === currentSession.answers[question.id] ? 'bg-blue-100' : ''
+                                  }`}>
+                                    {option} {optIndex === question.correctAnswer ? '(Correct)' : ''} {optIndex === currentSession.answers[question.id] ? '(Your Answer)' : ''}
+                                  </li>
+                                ))}
+                              </ol>
+                            </div>
+                          ) : (
+                            <div>
+                              <p className="font-semibold mb-1">Your Answer:</p>
+                              <p className="text-black">{formatAnswer(question, currentSession.answers[question.id])}</p>
+                              <p className="font-semibold mb-1 mt-2">Correct Answer:</p>
+                              <p className="text-black">{formatAnswer(question, getCorrectAnswer(question))}</p>
+                            </div>
+                          )}
 
                           <div>
                             <p className="font-semibold mb-1">Result:</p>
                             <p className={`${feedback.isCorrect ? 'text-green-600' : 'text-red-600'} font-medium`}>
-                              {feedback.isCorrect ? 'Correct' : 'Incorrect'}
+                              {feedback.isCorrect ? 'Correct' : feedback.credit > 0 ? `Partly correct (${Math.round(feedback.credit * 100)}%)` : 'Incorrect'}
                             </p>
                           </div>
 
@@ -745,7 +760,7 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
           <div className="flex gap-2 justify-center print:hidden">
             <Button variant="outline" onClick={resetQuiz}>
               <ArrowCounterClockwise size={16} className="mr-1" />
-              Take Another Quiz
+              {reviewMode ? 'Back to Reviews' : 'Take Another Quiz'}
             </Button>
             <Button onClick={() => window.print()}>
               Save Results
@@ -756,6 +771,42 @@ const AdaptiveLearningQuiz: React.FC<AdaptiveLearningQuizProps> = ({ onQuizCompl
     );
   }
 
+  // Review mode has no setup; it shows what is left to review
+  if (reviewMode) {
+    return (
+      <Card className="w-full max-w-4xl mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowCounterClockwise size={24} className="text-primary" />
+            Spaced Repetition Review
+          </CardTitle>
+          <CardDescription>
+            Questions come back at growing intervals when you answer them correctly, and sooner when you miss them
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-center py-8 space-y-4">
+          {dueQuestions.length > 0 ? (
+            <>
+              <p className="text-lg">{dueQuestions.length} question{dueQuestions.length === 1 ? '' : 's'} due for review</p>
+              <Button onClick={startReview} size="lg" className="min-w-32">
+                <Play size={16} className="mr-2" />
+                Start Review
+              </Button>
+            </>
+          ) : (
+            <>
+              <CheckCircle size={48} className="mx-auto text-green-600" />
+              <p className="text-lg">You're all caught up</p>
+              <p className="text-sm text-muted-foreground">
+                Questions you answer in quizzes are scheduled here for review.
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
   // Setup screen
   return (
     <Card className="w-full max-w-4xl mx-auto">
@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo } from 'react';
+import { Node, Edge } from 'reactflow';
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ArrowUp, ArrowDown } from "@phosphor-icons/react";
+import StandardFlowVisualizerWithProvider from '@/components/visualization/StandardFlowVisualizer';
+import { QuizQuestion, QuizAnswer, getQuestionType } from "@/lib/data/quizzes";
+import { useContentPacks } from '@/contexts/ContentPackContext';
+import { resolvePatternId } from '@/lib/data/patternRegistry';
+
+interface QuestionAnswerInputProps {
+  question: QuizQuestion;
+  answer: QuizAnswer | undefined;
+  onAnswerChange: (answer: QuizAnswer) => void;
+}
+
+// Splits "{{blank-id}}" placeholders out of a code template
+const BLANK_PATTERN = /\{\{([\w-]+)\}\}/g;
+
+// A starting order that is never already correct, so the learner has to sort it
+const scrambledOrder = (length: number): number[] => {
+  const order = Array.from({ length }, (_, index) => index).sort(() => Math.random() - 0.5);
+  if (length > 1 && order.every((optionIndex, position) => optionIndex === position)) {
+    order.push(order.shift() as number);
+  }
+  return order;
+};
+
+const SingleChoiceInput: React.FC<QuestionAnswerInputProps> = ({ question, answer, onAnswerChange }) => (
+  <RadioGroup
+    value={answer === undefined ? '' : String(answer)}
+    onValueChange={value => onAnswerChange(parseInt(value))}
+    className="space-y-3"
+  >
+    {question.options.map((option, index) => (
+      <div key={index} className="flex items-center space-x-2 p-3 rounded-lg border hover:bg-muted/50 transition-colors">
+        <RadioGroupItem value={index.toString()} id={`option-${index}`} />
+        <Label
+          htmlFor={`option-${index}`}
+          className="flex-1 cursor-pointer text-sm leading-relaxed"
+        >
+          {option}
+        </Label>
+      </div>
+    ))}
+  </RadioGroup>
+);
+
+const MultiSelectInput: React.FC<QuestionAnswerInputProps> = ({ question, answer, onAnswerChange }) => {
+  const selected = Array.isArray(answer) ? answer as number[] : [];
+  const toggle = (index: number, checked: boolean) => {
+    onAnswerChange(checked ? [...selected, index].sort((a, b) => a - b) : selected.filter(i => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">Select all that apply</p>
+      {question.options.map((option, index) => (
+        <div key={index} className="flex items-center space-x-2 p-3 rounded-lg border hover:bg-muted/50 transition-colors">
+          <Checkbox
+            id={`option-${index}`}
+            checked={selected.includes(index)}
+            onCheckedChange={checked => toggle(index, checked === true)}
+          />
+          <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer text-sm leading-relaxed">
+            {option}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const OrderingInput: React.FC<QuestionAnswerInputProps> = ({ question, answer, onAnswerChange }) => {
+  const order = Array.isArray(answer) ? answer as number[] : [];
+
+  // Start from a scrambled order; it counts as the answer until the learner changes it
+  useEffect(() => {
+    if (order.length !== question.options.length) {
+      onAnswerChange(scrambledOrder(question.options.length));
+    }
+  }, [question.id]);
+
+  const move = (position: number, offset: number) => {
+    const target = position + offset;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[position], next[target]] = [next[target], next[position]];
+    onAnswerChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">Use the arrows to put the steps in order</p>
+      {order.map((optionIndex, position) => (
+        <div key={optionIndex} className="flex items-center gap-2 p-3 rounded-lg border">
+          <span className="w-6 text-sm font-medium text-muted-foreground">{position + 1}.</span>
+          <span className="flex-1 text-sm leading-relaxed">{question.options[optionIndex]}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => move(position, -1)}
+            disabled={position === 0}
+            aria-label="Move up"
+          >
+            <ArrowUp size={14} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => move(position, 1)}
+            disabled={position === order.length - 1}
+            aria-label="Move down"
+          >
+            <ArrowDown size={14} />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const CodeCompletionInput: React.FC<QuestionAnswerInputProps> = ({ question, answer, onAnswerChange }) => {
+  const filled = answer && typeof answer === 'object' && !Array.isArray(answer) ? answer as Record<string, string> : {};
+  const blanks = question.blanks ?? [];
+  const parts = (question.codeTemplate ?? '').split(BLANK_PATTERN);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">Fill in each blank</p>
+      <pre className="p-4 rounded-lg border bg-muted/50 text-sm font-mono whitespace-pre-wrap leading-loose">
+        {/* split() with a capture group alternates code and blank ids */}
+        {parts.map((part, index) => {
+          if (index % 2 === 0) return <span key={index}>{part}</span>;
+          const blank = blanks.find(b => b.id === part);
+          return (
+            <Input
+              key={index}
+              value={filled[part] ?? ''}
+              onChange={event => onAnswerChange({ ...filled, [part]: event.target.value })}
+              placeholder={blank?.hint ?? part}
+              aria-label={`Blank ${part}`}
+              className="inline-flex h-7 w-48 mx-1 px-2 py-0 font-mono text-sm align-middle"
+            />
+          );
+        })}
+      </pre>
+    </div>
+  );
+};
+
+const HotspotInput: React.FC<QuestionAnswerInputProps> = ({ question, answer, onAnswerChange }) => {
+  const { content } = useContentPacks();
+  // Aliases resolve to canonical ids; pack patterns may use ids outside the registry
+  const patternId = resolvePatternId(question.patternId ?? '') ?? question.patternId;
+  const pattern = content.patterns.find(p => p.id === patternId);
+
+  const nodes: Node[] = useMemo(() => (pattern?.nodes ?? []).map(node => ({
+    id: node.id,
+    type: 'agent',
+    position: node.position,
+    selected: node.id === answer,
+    data: { label: node.data.label, nodeType: node.data.nodeType, description: node.data.description }
+  })), [pattern, answer]);
+
+  const edges: Edge[] = useMemo(() => (pattern?.edges ?? []).map(edge => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    label: edge.label,
+    animated: edge.animated
+  })), [pattern]);
+
+  if (!pattern) {
+    return <p className="text-sm text-destructive">Pattern "{question.patternId}" is not available.</p>;
+  }
+
+  const selectedLabel = pattern.nodes.find(node => node.id === answer)?.data.label;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Click a node in the {pattern.name} diagram{selectedLabel ? ` — selected: ${selectedLabel}` : ''}
+      </p>
+      <div className="h-[360px] rounded-lg border">
+        <StandardFlowVisualizerWithProvider
+          nodes={nodes}
+          edges={edges}
+          onNodeClick={(_, node) => onAnswerChange(node.id)}
+          showControls={false}
+          autoFitView={true}
+        />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * The answer control for a quiz question, chosen by its type
+ */
+const QuestionAnswerInput: React.FC<QuestionAnswerInputProps> = props => {
+  switch (getQuestionType(props.question)) {
+    case 'multi-select':
+      return <MultiSelectInput {...props} />;
+    case 'ordering':
+      return <OrderingInput {...props} />;
+    case 'code-completion':
+      return <CodeCompletionInput {...props} />;
+    case 'hotspot':
+      return <HotspotInput {...props} />;
+    default:
+      return <SingleChoiceInput {...props} />;
+  }
+};
+
+export default QuestionAnswerInput;
@@ -0,0 +1,301 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Books, UploadSimple, DownloadSimple, WarningCircle, CheckCircle } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { useContentPacks } from '@/contexts/ContentPackContext';
+import { QuizQuestion, userPersonas } from '@/lib/data/quizzes';
+import {
+  ImportedQuestion,
+  ImportDefaults,
+  QuizFormat,
+  QuizFormatResult,
+  parseGift,
+  exportGift,
+  parseQtiItem,
+  parseQtiPackage,
+  exportQtiPackage,
+  validateImportedQuestions,
+  buildQuizCategories,
+  createQuestionBankPack
+} from '@/lib/quizFormats';
+
+interface QuestionBankDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// GIFT for text files, QTI for XML items and zipped content packages
+const parseQuestionBankFile = async (file: File): Promise<QuizFormatResult<ImportedQuestion[]>> => {
+  if (/\.zip$/i.test(file.name)) return parseQtiPackage(new Uint8Array(await file.arrayBuffer()));
+  if (/\.xml$/i.test(file.name)) return parseQtiItem(await file.text(), file.name);
+  return parseGift(await file.text());
+};
+
+const download = (data: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const QuestionBankDialog: React.FC<QuestionBankDialogProps> = ({ open, onOpenChange }) => {
+  const { content, addPack } = useContentPacks();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [imported, setImported] = useState<{ fileName: string; questions: ImportedQuestion[]; warnings: string[] } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [defaults, setDefaults] = useState<ImportDefaults>({ difficulty: 'intermediate', persona: [] });
+
+  const [exportCategory, setExportCategory] = useState('all');
+  const [exportFormat, setExportFormat] = useState<QuizFormat>('gift');
+  const [exportWarnings, setExportWarnings] = useState<string[]>([]);
+
+  const validated = useMemo(
+    () => (imported ? validateImportedQuestions(imported.questions, defaults) : []),
+    [imported, defaults]
+  );
+  const validQuestions = validated.flatMap(result => (result.question ? [result.question] : []));
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await parseQuestionBankFile(file);
+      setImported({ fileName: file.name, questions: result.value, warnings: result.warnings });
+      setImportError(null);
+    } catch (error) {
+      setImported(null);
+      setImportError(`${file.name}: ${error instanceof Error ? error.message : 'could not be read'}`);
+    }
+  };
+
+  const handleImport = () => {
+    if (!imported || validQuestions.length === 0) return;
+    const categories = buildQuizCategories(validQuestions, content.quizCategories);
+    addPack(createQuestionBankPack(categories, imported.fileName), imported.fileName);
+    toast.success(`Added ${validQuestions.length} questions from ${imported.fileName}`);
+    setImported(null);
+  };
+
+  const togglePersona = (personaId: string, checked: boolean) => {
+    const persona = defaults.persona ?? [];
+    setDefaults({ ...defaults, persona: checked ? [...persona, personaId] : persona.filter(id => id !== personaId) });
+  };
+
+  const handleExport = () => {
+    const categories = exportCategory === 'all'
+      ? content.quizCategories
+      : content.quizCategories.filter(category => category.id === exportCategory);
+    const questions: QuizQuestion[] = categories.flatMap(category =>
+      category.subCategories.flatMap(subCategory => subCategory.questions)
+    );
+    const baseName = exportCategory === 'all' ? 'quiz-questions' : exportCategory;
+
+    if (exportFormat === 'gift') {
+      const result = exportGift(questions);
+      download(result.value, 'text/plain', `${baseName}.gift`);
+      setExportWarnings(result.warnings);
+    } else {
+      const result = exportQtiPackage(questions, content.patterns);
+      download(result.value, 'application/zip', `${baseName}-qti.zip`);
+      setExportWarnings(result.warnings);
+    }
+    toast.success(`Exported ${questions.length} questions`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Books size={20} className="text-primary" />
+            Question Bank
+          </DialogTitle>
+          <DialogDescription>
+            Exchange questions with an LMS as Moodle GIFT or QTI 2.1. Imported questions are stored in this browser as a content pack.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="import">
+          <TabsList>
+            <TabsTrigger value="import">Import</TabsTrigger>
+            <TabsTrigger value="export">Export</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="import" className="space-y-4">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <UploadSimple size={16} className="mr-2" />
+              Choose GIFT or QTI file
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".gift,.txt,.xml,.zip"
+              className="hidden"
+              onChange={handleFile}
+            />
+
+            {importError && (
+              <div className="rounded-md bg-destructive/10 p-2 text-sm text-destructive">{importError}</div>
+            )}
+
+            {imported && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="default-category">Default category</Label>
+                    <Input
+                      id="default-category"
+                      list="quiz-category-ids"
+                      value={defaults.category ?? ''}
+                      onChange={event => setDefaults({ ...defaults, category: event.target.value })}
+                      placeholder="e.g. core-concepts"
+                    />
+                    <datalist id="quiz-category-ids">
+                      {content.quizCategories.map(category => <option key={category.id} value={category.id} />)}
+                    </datalist>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="default-subcategory">Default sub-category</Label>
+                    <Input
+                      id="default-subcategory"
+                      value={defaults.subCategory ?? ''}
+                      onChange={event => setDefaults({ ...defaults, subCategory: event.target.value })}
+                      placeholder="e.g. imported"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Default difficulty</Label>
+                    <Select
+                      value={defaults.difficulty}
+                      onValueChange={value => setDefaults({ ...defaults, difficulty: value as QuizQuestion['difficulty'] })}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="beginner">Beginner</SelectItem>
+                        <SelectItem value="intermediate">Intermediate</SelectItem>
+                        <SelectItem value="advanced">Advanced</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Default personas</Label>
+                    <div className="grid grid-cols-2 gap-1">
+                      {userPersonas.map(persona => (
+                        <div key={persona.id} className="flex items-center gap-1">
+                          <Checkbox
+                            id={`default-persona-${persona.id}`}
+                            checked={defaults.persona?.includes(persona.id)}
+                            onCheckedChange={checked => togglePersona(persona.id, checked === true)}
+                          />
+                          <Label htmlFor={`default-persona-${persona.id}`} className="text-xs font-normal">{persona.name}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                <p className="text-sm text-muted-foreground">
+                  {imported.fileName}: {validQuestions.length} of {validated.length} questions are ready to add.
+                  Defaults only fill fields a question leaves empty.
+                </p>
+
+                {imported.warnings.length > 0 && (
+                  <ul className="list-disc pl-6 text-xs text-muted-foreground">
+                    {imported.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                  </ul>
+                )}
+
+                <ScrollArea className="max-h-[240px]">
+                  <div className="space-y-2">
+                    {validated.map((result, index) => (
+                      <div key={`${result.source.id}-${index}`} className="rounded-md border p-2 text-sm">
+                        <div className="flex items-center gap-2">
+                          {result.question
+                            ? <CheckCircle size={16} className="text-green-600" />
+                            : <WarningCircle size={16} className="text-destructive" />}
+                          <span className="font-medium">{result.source.id}</span>
+                          {result.source.type && <Badge variant="outline">{result.source.type}</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground line-clamp-1">{result.source.question}</p>
+                        {result.errors.length > 0 && (
+                          <ul className="mt-1 list-disc pl-6 text-xs text-destructive">
+                            {result.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+
+                <Button onClick={handleImport} disabled={validQuestions.length === 0}>
+                  Add {validQuestions.length} valid questions
+                </Button>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="export" className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Category</Label>
+                <Select value={exportCategory} onValueChange={setExportCategory}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All categories</SelectItem>
+                    {content.quizCategories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Format</Label>
+                <Select value={exportFormat} onValueChange={value => setExportFormat(value as QuizFormat)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="gift">Moodle GIFT (.gift)</SelectItem>
+                    <SelectItem value="qti">QTI 2.1 content package (.zip)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <Button onClick={handleExport}>
+              <DownloadSimple size={16} className="mr-2" />
+              Download
+            </Button>
+
+            {exportWarnings.length > 0 && (
+              <ScrollArea className="max-h-[160px]">
+                <ul className="list-disc pl-6 text-xs text-muted-foreground">
+                  {exportWarnings.map(warning => <li key={warning}>{warning}</li>)}
+                </ul>
+              </ScrollArea>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionBankDialog;
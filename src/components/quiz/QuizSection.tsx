@@ -1,20 +1,50 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { 
   GraduationCap, Trophy, ChartLine, Target, BookOpen, 
-  Users, Brain, Clock, Star, TrendUp
+  Users, Brain, Clock, Star, TrendUp, ArrowCounterClockwise, Books
 } from "@phosphor-icons/react";
 import AdaptiveLearningQuiz from './AdaptiveLearningQuiz';
+import QuestionBankDialog from './QuestionBankDialog';
 import { QuizSession } from "@/lib/data/quizzes";
+import { loadReviewStates, getDueQuestions, getMasteryLevel, MasteryLevel } from "@/lib/data/quizReview";
+import { loadAbilityModel, abilityToScore, getAbilityLevel } from "@/lib/data/quizAbility";
+import { useContentPacks } from '@/contexts/ContentPackContext';
 
 interface QuizSectionProps {}
 
 const QuizSection: React.FC<QuizSectionProps> = () => {
   const [completedQuizzes, setCompletedQuizzes] = useState<QuizSession[]>([]);
   const [showQuiz, setShowQuiz] = useState(false);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [showQuestionBank, setShowQuestionBank] = useState(false);
+  const { content: { quizCategories } } = useContentPacks();
+
+  // Re-read the review schedule whenever the user comes back from a quiz
+  const review = useMemo(() => {
+    const states = loadReviewStates();
+    const mastery: Record<MasteryLevel, number> = { new: 0, learning: 0, reviewing: 0, mastered: 0 };
+    quizCategories.forEach(category => category.subCategories.forEach(subCategory =>
+      subCategory.questions.forEach(question => { mastery[getMasteryLevel(states[question.id])] += 1; })
+    ));
+    return { dueCount: getDueQuestions(quizCategories, states).length, mastery };
+  }, [quizCategories, showQuiz]);
+
+  // Ability estimate per quiz category, for categories with at least one answer
+  const abilities = useMemo(() => {
+    const model = loadAbilityModel();
+    return quizCategories
+      .filter(category => model.abilities[category.id])
+      .map(category => ({ category, estimate: model.abilities[category.id] }));
+  }, [quizCategories, showQuiz]);
+
+  const openQuiz = (asReview = false) => {
+    setReviewMode(asReview);
+    setShowQuiz(true);
+  };
 
   const handleQuizComplete = (session: QuizSession) => {
     setCompletedQuizzes(prev => [...prev, session]);
@@ -75,15 +105,15 @@ const QuizSection: React.FC<QuizSectionProps> = () => {
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-3xl font-bold">Knowledge Assessment</h1>
-            <p className="text-muted-foreground">Test your AI agent expertise</p>
+            <h1 className="text-3xl font-bold">{reviewMode ? 'Review Due' : 'Knowledge Assessment'}</h1>
+            <p className="text-muted-foreground">{reviewMode ? 'Revisit questions scheduled for review' : 'Test your AI agent expertise'}</p>
           </div>
           <Button variant="outline" onClick={() => setShowQuiz(false)}>
             ← Back to Overview
           </Button>
         </div>
         
-        <AdaptiveLearningQuiz onQuizComplete={handleQuizComplete} />
+        <AdaptiveLearningQuiz onQuizComplete={handleQuizComplete} reviewMode={reviewMode} />
       </div>
     );
   }
@@ -100,7 +130,19 @@ const QuizSection: React.FC<QuizSectionProps> = () => {
             Test your understanding of AI agent concepts with adaptive quizzes tailored to your role and experience level
           </p>
         </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setShowQuestionBank(true)} className="flex items-center gap-2">
+            <Books size={16} />
+            Import / Export
+          </Button>
+          <Button variant={review.dueCount > 0 ? 'default' : 'outline'} onClick={() => openQuiz(true)} className="flex items-center gap-2">
+            <ArrowCounterClockwise size={16} />
+            Review due
+            {review.dueCount > 0 && <Badge variant="secondary">{review.dueCount}</Badge>}
+          </Button>
+        </div>
       </div>
+      <QuestionBankDialog open={showQuestionBank} onOpenChange={setShowQuestionBank} />
 
       <Tabs defaultValue="overview" className="w-full">
         <TabsList>
@@ -139,7 +181,7 @@ const QuizSection: React.FC<QuizSectionProps> = () => {
                       <Badge variant="outline" className="text-xs">AI Engineer</Badge>
                     </div>
                   </div>
-                  <Button onClick={() => setShowQuiz(true)} className="w-full">
+                  <Button onClick={() => openQuiz()} className="w-full">
                     Start Adaptive Quiz
                   </Button>
                 </Card>
@@ -160,7 +202,7 @@ const QuizSection: React.FC<QuizSectionProps> = () => {
                       <Badge variant="outline" className="text-xs">Azure Services</Badge>
                     </div>
                   </div>
-                  <Button onClick={() => setShowQuiz(true)} variant="outline" className="w-full">
+                  <Button onClick={() => openQuiz()} variant="outline" className="w-full">
                     Choose Topic
                   </Button>
                 </Card>
@@ -294,6 +336,58 @@ const QuizSection: React.FC<QuizSectionProps> = () => {
                 </Card>
               </div>
 
+              {/* Ability by category */}
+              {abilities.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Ability by Category</CardTitle>
+                    <CardDescription>
+                      Estimated from your answers with an item-response model; 50 means an even chance on an intermediate question
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {abilities.map(({ category, estimate }) => (
+                        <div key={category.id} className="p-4 border rounded-lg">
+                          <div className="font-medium mb-1">{category.name}</div>
+                          <div className="text-2xl font-bold text-primary">{abilityToScore(estimate.ability)}</div>
+                          <div className="text-sm text-muted-foreground capitalize">
+                            {getAbilityLevel(estimate.ability)} • {estimate.correct}/{estimate.answered} correct
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Spaced repetition mastery */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Question Mastery</CardTitle>
+                  <CardDescription>
+                    Missed questions come back sooner; a question is mastered once its review interval reaches three weeks
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {(['new', 'learning', 'reviewing', 'mastered'] as const).map(level => (
+                      <div key={level} className="text-center p-4 border rounded-lg">
+                        <div className="text-2xl font-bold text-primary mb-2">{review.mastery[level]}</div>
+                        <div className="text-sm text-muted-foreground capitalize">{level}</div>
+                      </div>
+                    ))}
+                  </div>
+                  {review.dueCount > 0 && (
+                    <div className="text-center mt-4">
+                      <Button onClick={() => openQuiz(true)}>
+                        Review {review.dueCount} due question{review.dueCount === 1 ? '' : 's'}
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
               {/* Recent Quizzes */}
               <Card>
                 <CardHeader>
@@ -315,7 +409,7 @@ const QuizSection: React.FC<QuizSectionProps> = () => {
                             </div>
                             <div>
                               <div className="font-medium">
-                                {quiz.categoryId === 'adaptive' ? 'Adaptive Quiz' : quiz.categoryId}
+                                {quiz.categoryId === 'adaptive' ? 'Adaptive Quiz' : quiz.categoryId === 'review' ? 'Review' : quiz.categoryId}
                               </div>
                               <div className="text-sm text-muted-foreground">
                                 {quiz.difficulty} • {Math.floor(quiz.timeSpent / 60)}m {quiz.timeSpent % 60}s
@@ -377,7 +471,7 @@ const QuizSection: React.FC<QuizSectionProps> = () => {
               <p className="text-muted-foreground mb-4">
                 Take your first quiz to start tracking your learning progress
               </p>
-              <Button onClick={() => setShowQuiz(true)}>
+              <Button onClick={() => openQuiz()}>
                 Start Your First Quiz
               </Button>
             </Card>
@@ -455,7 +549,7 @@ const QuizSection: React.FC<QuizSectionProps> = () => {
                   <p className="text-sm text-muted-foreground mb-4">
                     Continue your learning journey with targeted assessments
                   </p>
-                  <Button onClick={() => setShowQuiz(true)}>
+                  <Button onClick={() => openQuiz()}>
                     Take Another Quiz
                   </Button>
                 </div>
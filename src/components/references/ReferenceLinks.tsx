@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { references, ReferenceCategory } from '@/lib/data/references';
+import { ReferenceCategory } from '@/lib/data/references';
+import { useContentPacks } from '@/contexts/ContentPackContext';
 import { ExternalLink } from '@phosphor-icons/react';
 
 type ReferenceLinksProps = {
@@ -10,6 +11,7 @@ type ReferenceLinksProps = {
 }
 
 export function ReferenceLinks({ section, itemId }: ReferenceLinksProps) {
+  const { content: { references } } = useContentPacks();
   const [categories, setCategories] = useState<ReferenceCategory[]>([]);
   const [activeTab, setActiveTab] = useState<string>("");
 
@@ -25,7 +27,7 @@ export function ReferenceLinks({ section, itemId }: ReferenceLinksProps) {
       setCategories([]);
       setActiveTab("");
     }
-  }, [section, itemId]);
+  }, [section, itemId, references]);
 
   if (categories.length === 0) {
     return (
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { references, ReferenceCategory, ReferenceItem } from '@/lib/data/references';
+import { ReferenceCategory, ReferenceItem } from '@/lib/data/references';
+import { useContentPacks } from '@/contexts/ContentPackContext';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { BookmarkSimple, Link, Plus, ExternalLink } from '@phosphor-icons/react';
@@ -14,6 +15,8 @@ interface ReferenceSectionProps {
 }
 
 const ReferenceSection: React.FC<ReferenceSectionProps> = ({ type, itemId }) => {
+  const { content: { references } } = useContentPacks();
+
   // Get references for this type & id
   let referenceData;
   
@@ -0,0 +1,151 @@
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useKV } from '@github/spark/hooks';
+import { Brain, Books, Code, GraduationCap, PuzzlePiece, StackSimple, Users } from '@phosphor-icons/react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { useContentPacks } from '@/contexts/ContentPackContext';
+import { communityPatterns, CommunityPattern } from '@/lib/data/communitySharing';
+import {
+  buildSearchDocuments,
+  createSearchIndex,
+  searchIndex,
+  SearchDocumentKind,
+  SearchIndex,
+  SearchResult
+} from '@/lib/search';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MAX_RESULTS = 40;
+
+const kindLabels: Record<SearchDocumentKind, { label: string; icon: ReactNode }> = {
+  pattern: { label: 'Agent Patterns', icon: <PuzzlePiece /> },
+  code: { label: 'Code Examples', icon: <Code /> },
+  concept: { label: 'Core Concepts', icon: <Brain /> },
+  quiz: { label: 'Quiz Questions', icon: <GraduationCap /> },
+  reference: { label: 'References', icon: <Books /> },
+  'azure-service': { label: 'Azure Services', icon: <StackSimple /> },
+  community: { label: 'Community', icon: <Users /> }
+};
+
+const pages = [
+  { path: '/', label: 'Core Concepts', icon: <Brain /> },
+  { path: '/patterns', label: 'Agent Patterns', icon: <PuzzlePiece /> },
+  { path: '/azure-services', label: 'Azure Services', icon: <StackSimple /> },
+  { path: '/quiz', label: 'Knowledge Quiz', icon: <GraduationCap /> },
+  { path: '/references', label: 'References', icon: <Books /> },
+  { path: '/community', label: 'Community', icon: <Users /> }
+];
+
+// Groups are ordered by their best result, results within a group by score
+const groupByKind = (results: SearchResult[]) => {
+  const groups = new Map<SearchDocumentKind, SearchResult[]>();
+  results.forEach(result => {
+    const group = groups.get(result.document.kind) ?? [];
+    group.push(result);
+    groups.set(result.document.kind, group);
+  });
+  return [...groups.entries()];
+};
+
+/**
+ * Ctrl+K / Cmd+K search over patterns, concepts, quiz questions, references, Azure services,
+ * community patterns and code examples. Selecting a result opens the view that shows it.
+ */
+const CommandPalette = ({ open, onOpenChange }: CommandPaletteProps) => {
+  const navigate = useNavigate();
+  const { content } = useContentPacks();
+  const [community] = useKV<CommunityPattern[]>('community-patterns', communityPatterns);
+  const [query, setQuery] = useState('');
+  // The index is built the first time the palette opens, then whenever content changes
+  const [wasOpened, setWasOpened] = useState(false);
+
+  useEffect(() => {
+    if (open) setWasOpened(true);
+  }, [open]);
+
+  const index = useMemo<SearchIndex | null>(
+    () => (wasOpened ? createSearchIndex(buildSearchDocuments(content, community ?? [])) : null),
+    [wasOpened, content, community]
+  );
+
+  const groups = useMemo(
+    () => (index && query.trim() ? groupByKind(searchIndex(index, query, MAX_RESULTS)) : []),
+    [index, query]
+  );
+
+  const go = (path: string) => {
+    onOpenChange(false);
+    setQuery('');
+    navigate(path);
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      shouldFilter={false}
+      title="Search"
+      description="Search patterns, concepts, quiz questions, references and code"
+    >
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder="Search patterns, concepts, quiz questions, code..."
+      />
+      <CommandList className="max-h-[420px]">
+        {query.trim() ? (
+          <>
+            <CommandEmpty>No results for "{query.trim()}"</CommandEmpty>
+            {groups.map(([kind, results]) => (
+              <CommandGroup key={kind} heading={kindLabels[kind].label}>
+                {results.map(({ document, snippet }) => (
+                  <CommandItem
+                    key={document.id}
+                    value={document.id}
+                    onSelect={() => go(document.path)}
+                    className="items-start"
+                  >
+                    <span className="mt-0.5">{kindLabels[kind].icon}</span>
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate font-medium">{document.title}</div>
+                      {document.subtitle && (
+                        <div className="truncate text-xs text-muted-foreground">{document.subtitle}</div>
+                      )}
+                      {snippet && (
+                        <div className={`truncate text-xs text-muted-foreground ${kind === 'code' ? 'font-mono' : ''}`}>
+                          {snippet}
+                        </div>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </>
+        ) : (
+          <CommandGroup heading="Go to">
+            {pages.map(page => (
+              <CommandItem key={page.path} value={page.path} onSelect={() => go(page.path)}>
+                {page.icon}
+                <span>{page.label}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,123 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Package, UploadSimple, Trash, WarningCircle } from '@phosphor-icons/react';
+import { useContentPacks } from '@/contexts/ContentPackContext';
+import { LoadedContentPack } from '@/lib/contentPacks';
+
+interface ContentPacksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const describeContent = ({ pack }: LoadedContentPack): string => {
+  const { patterns, concepts, quizCategories, references, azureServices } = pack.content;
+  const parts = [
+    patterns?.length ? `${patterns.length} patterns` : '',
+    concepts?.length ? `${concepts.length} concepts` : '',
+    quizCategories?.length ? `${quizCategories.length} quiz categories` : '',
+    references ? 'references' : '',
+    azureServices?.length ? `${azureServices.length} Azure services` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'no content';
+};
+
+const ContentPacksDialog: React.FC<ContentPacksDialogProps> = ({ open, onOpenChange }) => {
+  const { packs, errors, loading, addPackFromFile, removePack } = useContentPacks();
+  const [uploadErrors, setUploadErrors] = useState<{ fileName: string; errors: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = await addPackFromFile(file);
+    setUploadErrors(result.pack ? null : { fileName: file.name, errors: result.errors });
+  };
+
+  const allErrors = uploadErrors ? [...errors, uploadErrors] : errors;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package size={20} className="text-primary" />
+            Content Packs
+          </DialogTitle>
+          <DialogDescription>
+            Packs add or replace patterns, concepts, quiz questions, references and Azure services.
+            Site packs come from /content-packs; packs you add from a JSON or YAML file are stored in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ScrollArea className="max-h-[300px]">
+            <div className="space-y-2">
+              {loading && <p className="text-sm text-muted-foreground">Loading site packs...</p>}
+              {!loading && packs.length === 0 && (
+                <p className="text-sm text-muted-foreground">No content packs loaded. The built-in content is shown.</p>
+              )}
+              {packs.map(loaded => (
+                <div key={`${loaded.source}-${loaded.pack.id}`} className="flex items-start justify-between gap-2 rounded-md border p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{loaded.pack.name}</span>
+                      <Badge variant="outline">v{loaded.pack.version}</Badge>
+                      <Badge variant="secondary">{loaded.source === 'bundled' ? 'site' : 'browser'}</Badge>
+                    </div>
+                    {loaded.pack.description && (
+                      <p className="text-xs text-muted-foreground">{loaded.pack.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">{describeContent(loaded)} · {loaded.fileName}</p>
+                  </div>
+                  {loaded.source === 'file' && (
+                    <Button variant="ghost" size="sm" onClick={() => removePack(loaded.pack.id)} aria-label={`Remove ${loaded.pack.name}`}>
+                      <Trash size={16} />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {allErrors.map(error => (
+            <div key={error.fileName} className="rounded-md bg-destructive/10 p-2 text-sm text-destructive">
+              <div className="flex items-center gap-2 font-medium">
+                <WarningCircle size={16} />
+                {error.fileName} was not loaded
+              </div>
+              <ul className="mt-1 list-disc pl-6 text-xs">
+                {error.errors.slice(0, 8).map(message => <li key={message}>{message}</li>)}
+                {error.errors.length > 8 && <li>...and {error.errors.length - 8} more</li>}
+              </ul>
+            </div>
+          ))}
+
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <UploadSimple size={16} className="mr-2" />
+            Add pack from file
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.yaml,.yml,application/json"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContentPacksDialog;
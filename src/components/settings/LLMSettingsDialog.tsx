@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Cpu, CheckCircle, WarningCircle, SpinnerGap } from '@phosphor-icons/react';
+import { useLLM } from '@/contexts/LLMContext';
+import {
+  LLMSettings,
+  LLMProviderSelection,
+  OpenAICompatibleFlavor,
+  openAICompatiblePresets,
+  createLLMProvider
+} from '@/lib/llm';
+
+interface LLMSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const providerOptions: { value: LLMProviderSelection; label: string; description: string }[] = [
+  { value: 'auto', label: 'Automatic', description: 'GitHub Spark when hosted there, otherwise the offline mock' },
+  { value: 'spark', label: 'GitHub Spark', description: 'Uses the Spark host model (only inside Spark)' },
+  { value: 'openai-compatible', label: 'OpenAI-compatible endpoint', description: 'Azure OpenAI, OpenAI, Ollama, LM Studio or any compatible server' },
+  { value: 'mock', label: 'Offline mock', description: 'Deterministic placeholder answers, no network needed' }
+];
+
+const LLMSettingsDialog: React.FC<LLMSettingsDialogProps> = ({ open, onOpenChange }) => {
+  const { settings, updateSettings } = useLLM();
+  const [draft, setDraft] = useState<LLMSettings>(settings);
+  const [testState, setTestState] = useState<{ status: 'idle' | 'running' | 'ok' | 'error'; message?: string }>({ status: 'idle' });
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(settings);
+      setTestState({ status: 'idle' });
+    }
+  }, [open, settings]);
+
+  const updateOpenAI = (changes: Partial<LLMSettings['openai']>) => {
+    setDraft(current => ({ ...current, openai: { ...current.openai, ...changes } }));
+  };
+
+  const handleFlavorChange = (flavor: OpenAICompatibleFlavor) => {
+    updateOpenAI({ flavor, ...openAICompatiblePresets[flavor].settings });
+  };
+
+  const handleTest = async () => {
+    setTestState({ status: 'running' });
+    try {
+      const provider = createLLMProvider(draft);
+      const result = await provider.complete('Reply with the single word: ready', { maxTokens: 10 });
+      setTestState({
+        status: 'ok',
+        message: `${provider.label} answered in ${result.latencyMs} ms using ${result.model}`
+      });
+    } catch (error) {
+      setTestState({ status: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  };
+
+  const handleSave = () => {
+    updateSettings(draft);
+    onOpenChange(false);
+  };
+
+  const activeProvider = createLLMProvider(draft);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Cpu size={20} className="text-primary" />
+            AI Model Settings
+          </DialogTitle>
+          <DialogDescription>
+            Choose which model powers Enlighten Me and the AI-driven demos. Settings are stored in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select
+              value={draft.provider}
+              onValueChange={(value) => setDraft(current => ({ ...current, provider: value as LLMProviderSelection }))}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {providerOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {providerOptions.find(option => option.value === draft.provider)?.description}
+            </p>
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-muted-foreground">Active:</span>
+              <Badge variant={activeProvider.isAvailable() ? 'outline' : 'destructive'}>
+                {activeProvider.label}{activeProvider.isAvailable() ? '' : ' (unavailable)'}
+              </Badge>
+            </div>
+          </div>
+
+          {draft.provider === 'openai-compatible' && (
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="space-y-2">
+                <Label>Endpoint type</Label>
+                <Select value={draft.openai.flavor} onValueChange={(value) => handleFlavorChange(value as OpenAICompatibleFlavor)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(openAICompatiblePresets) as OpenAICompatibleFlavor[]).map(flavor => (
+                      <SelectItem key={flavor} value={flavor}>
+                        {openAICompatiblePresets[flavor].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="llm-base-url">Base URL</Label>
+                <Input
+                  id="llm-base-url"
+                  value={draft.openai.baseUrl}
+                  onChange={(e) => updateOpenAI({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="llm-model">
+                    {draft.openai.flavor === 'azure-openai' ? 'Deployment name' : 'Model'}
+                  </Label>
+                  <Input
+                    id="llm-model"
+                    value={draft.openai.model}
+                    onChange={(e) => updateOpenAI({ model: e.target.value })}
+                  />
+                </div>
+                {draft.openai.flavor === 'azure-openai' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="llm-api-version">API version</Label>
+                    <Input
+                      id="llm-api-version"
+                      value={draft.openai.apiVersion}
+                      onChange={(e) => updateOpenAI({ apiVersion: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="llm-api-key">API key</Label>
+                <Input
+                  id="llm-api-key"
+                  type="password"
+                  value={draft.openai.apiKey}
+                  onChange={(e) => updateOpenAI({ apiKey: e.target.value })}
+                  placeholder="Leave empty for local servers"
+                />
+                <p className="text-xs text-muted-foreground">
+                  The key is kept in this browser's local storage and sent only to the endpoint above.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {draft.provider === 'mock' && (
+            <div className="space-y-2 rounded-md border p-3">
+              <Label htmlFor="llm-mock-latency">Simulated latency (ms)</Label>
+              <Input
+                id="llm-mock-latency"
+                type="number"
+                min={0}
+                value={draft.mock.latencyMs}
+                onChange={(e) => setDraft(current => ({
+                  ...current,
+                  mock: { latencyMs: Math.max(0, Number(e.target.value) || 0) }
+                }))}
+              />
+            </div>
+          )}
+
+          {testState.status !== 'idle' && (
+            <div className={`flex items-start gap-2 rounded-md p-2 text-sm ${
+              testState.status === 'error'
+                ? 'bg-destructive/10 text-destructive'
+                : 'bg-muted text-muted-foreground'
+            }`}>
+              {testState.status === 'running' && <SpinnerGap size={16} className="animate-spin mt-0.5" />}
+              {testState.status === 'ok' && <CheckCircle size={16} className="text-green-600 mt-0.5" />}
+              {testState.status === 'error' && <WarningCircle size={16} className="mt-0.5" />}
+              <span className="break-all">{testState.status === 'running' ? 'Testing connection...' : testState.message}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleTest} disabled={testState.status === 'running'}>
+            Test connection
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LLMSettingsDialog;
@@ -12,6 +12,7 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { SpinnerGap } from '@phosphor-icons/react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { useLLM } from '@/contexts/LLMContext';
 
 interface EnlightenMeButtonProps {
   topic: string;
@@ -33,6 +34,7 @@ export function EnlightenMeButton({
   const [response, setResponse] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showResponse, setShowResponse] = useState(false);
+  const { complete } = useLLM();
 
   const handleSubmit = async () => {
     if (!prompt.trim()) return;
@@ -41,8 +43,7 @@ export function EnlightenMeButton({
     setShowResponse(true);
     
     try {
-      const generatedPrompt = window.spark.llmPrompt`${prompt}`;
-      const result = await window.spark.llm(generatedPrompt);
+      const { text: result } = await complete(prompt);
       setResponse(result);
     } catch (error) {
       console.error('Error in EnlightenMeButton:', error);
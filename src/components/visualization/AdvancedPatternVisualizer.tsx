@@ -184,13 +184,13 @@ const AdvancedPatternVisualizer = ({ patternData, onReady }: AdvancedPatternVisu
     setIsAnimating(false);
     setDataFlows([]); // Clear all data flows
     
-    // Reset animation state
-    setAnimationState({
-      speed: 'normal',
-      mode: 'auto',
+    // Reset animation state but keep the chosen speed and mode
+    setAnimationState(current => ({
+      speed: current.speed,
+      mode: current.mode,
       isPaused: false,
       step: 0
-    });
+    }));
     
     // Reset visualization mode
     setVisualizationMode('basic');
@@ -303,90 +303,35 @@ const AdvancedPatternVisualizer = ({ patternData, onReady }: AdvancedPatternVisu
       setDataFlows(currentFlows => [...currentFlows, flow]);
     };
     
-    // Create step handler for step-by-step mode
+    // In step-by-step mode every instant of the run waits for "Next Step"
     const handleAddStep = (stepFn: () => void) => {
-      if (animationState.mode === 'step-by-step') {
-        stepQueueRef.current.push(stepFn);
-      } else {
-        // In auto mode, execute based on speed factor
-        const timeoutId = setTimeout(() => {
-          if (!animationState.isPaused) {
-            stepFn();
-          }
-        }, 100 / speedFactor);
-        return timeoutId;
-      }
-      return null;
+      stepQueueRef.current.push(stepFn);
     };
     
-    // Start the simulation using our utility
+    // Run the pattern through the simulation engine
     const { cleanup } = simulatePatternFlow(
       nodes,
       edges,
       handleNodeStatus,
       handleEdgeStatus,
       handleDataFlow,
-      queryInput,
-      handleAddStep,
-      animationState.mode === 'auto' ? speedFactor : undefined
+      {
+        query: queryInput,
+        speedFactor,
+        stepMode: animationState.mode === 'step-by-step',
+        onAddStep: handleAddStep,
+        onComplete: () => setIsAnimating(false)
+      }
     );
     
     // Store the cleanup function
     simulationCleanupRef.current = cleanup;
     
-    // Actually start some flows to show animation
-    if (nodes.length > 0 && edges.length > 0) {
-      // Find the first few edges to animate
-      const edgesToAnimate = edges.slice(0, Math.min(edges.length, 3));
-      
-      edgesToAnimate.forEach((edge, index) => {
-        const delay = index * 1000 / speedFactor;
-        
-        setTimeout(() => {
-          // Activate source node
-          handleNodeStatus(edge.source, 'processing');
-          
-          // Animate the edge
-          handleEdgeStatus(edge.id, true);
-          
-          // Create a data flow
-          handleDataFlow({
-            id: `flow-${Date.now()}-${index}`,
-            edgeId: edge.id,
-            source: edge.source,
-            target: edge.target,
-            content: `Processing: ${queryInput || 'data'}`,
-            timestamp: Date.now(),
-            type: 'message',
-            progress: 0,
-            label: 'Processing...'
-          });
-          
-          // Activate target node after a delay
-          setTimeout(() => {
-            handleNodeStatus(edge.target, 'complete');
-            handleEdgeStatus(edge.id, false);
-          }, 2000 / speedFactor);
-          
-        }, delay);
-      });
-      
-      // Stop animation after all flows complete
-      setTimeout(() => {
-        setIsAnimating(false);
-      }, (edgesToAnimate.length * 1000 + 2000) / speedFactor);
-    }
-    
-    // In auto mode, start simulation immediately
-    if (animationState.mode === 'auto') {
-      simulationRef.current = setTimeout(() => {}, 100);
-    }
-    
     // Clean up the simulation when component unmounts or resets
     return () => {
       if (cleanup) cleanup();
     };
-  }, [nodes, edges, setNodes, setEdges, resetVisualization, animationState.mode, animationState.isPaused, speedFactor]);
+  }, [nodes, edges, setNodes, setEdges, resetVisualization, animationState.mode, speedFactor, queryInput]);
   
   const onInit = useCallback((instance: ReactFlowInstance) => {
     flowInstanceRef.current = instance;
@@ -74,6 +74,22 @@ const initialEdges = [
   { id: 'e2-4', source: 'agent', target: 'result', animated: false, label: 'Response' },
 ];
 
+// Engine node types for the demo's nodes, so each edge carries a different flow type
+const engineNodeTypes = { user: 'input', agent: 'llm', tool: 'tool', result: 'output' };
+
+const simulationNodes = initialNodes.map(node => ({
+  ...node,
+  data: { ...node.data, nodeType: engineNodeTypes[node.data.nodeType] }
+}));
+
+// Message shown on each edge during the simulation
+const simulationMessages = {
+  'e1-2': 'Hello, please help me with a task',
+  'e2-3': 'search_web("latest news")',
+  'e3-2': 'Found 10 recent articles',
+  'e2-4': 'Here are the latest news articles I found'
+};
+
 // Node types for customization
 const nodeTypes = ['user', 'agent', 'tool', 'result', 'planner', 'evaluator', 'environment', 'reflection'];
 
@@ -206,10 +222,10 @@ const CustomizableFlowDemo = () => {
     if (isSimulating) return;
     
     console.log('Starting simulation...'); // Debug log
-    setIsSimulating(true);
     
     // Reset first
     resetVisualization();
+    setIsSimulating(true);
     
     // Use a timeout to ensure state updates have been processed
     setTimeout(() => {
@@ -220,40 +236,22 @@ const CustomizableFlowDemo = () => {
           animationSpeed
         }); // Debug log
         
-        // Use the initial node and edge definitions to ensure consistency
-        const { createDataFlow, cleanup } = simulatePatternFlow(
-          initialNodes,
+        // Run the initial node and edge definitions through the simulation engine
+        const { cleanup } = simulatePatternFlow(
+          simulationNodes,
           initialEdges,
           updateNodeStatus,
           updateEdgeStatus,
           handleDataFlow,
-          "User query input",
-          null,
-          animationSpeed
+          {
+            scenario: { messages: simulationMessages },
+            speedFactor: animationSpeed,
+            onComplete: () => setIsSimulating(false)
+          }
         );
         
         cleanupRef.current = cleanup;
         
-        // Create sample flows to demonstrate the animation
-        if (createDataFlow) {
-          // Flow 1: User to Agent
-          createDataFlow('user', 'agent', 'Hello, please help me with a task', 'query', 1000, 'Query');
-          
-          // Flow 2: Agent to Tool  
-          createDataFlow('agent', 'tool', 'search_web("latest news")', 'tool_call', 3000, 'Tool Call');
-          
-          // Flow 3: Tool to Agent
-          createDataFlow('tool', 'agent', 'Found 10 recent articles', 'observation', 5000, 'Result');
-          
-          // Flow 4: Agent to Result
-          createDataFlow('agent', 'result', 'Here are the latest news articles I found', 'response', 7000, 'Response');
-          
-          // Auto-stop simulation after all flows complete
-          setTimeout(() => {
-            setIsSimulating(false);
-          }, (10000 / animationSpeed)); // Give some buffer time for the last flow to complete
-        }
-        
         console.log('Simulation started successfully'); // Debug log
       } catch (error) {
         console.error('Error starting simulation:', error);
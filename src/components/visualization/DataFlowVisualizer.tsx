@@ -1,7 +1,7 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import { Edge } from 'reactflow';
 import { motion } from 'framer-motion';
-import { getNodeDataFlowParams, getDataFlowAnimationStyle, simulatePatternFlow } from '@/lib/utils/dataFlowUtils';
+import { getNodeDataFlowParams, getDataFlowAnimationStyle } from '@/lib/utils/dataFlowUtils';
 import { useTheme } from '@/components/theme/ThemeProvider';
 import { useVisualizationTheme } from '@/lib/utils/visualizationTheme';
 
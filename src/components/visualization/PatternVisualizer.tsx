@@ -26,7 +26,6 @@ import {
   BaseDataFlow as DataFlowMessage,
   getDataFlowAnimationStyle,
   resetDataFlow,
-  createDataFlow,
   getSpeedMultiplier
 } from '@/lib/utils/dataFlowUtils'
 import visualizationUtils from '@/lib/utils/visualizationUtils'
@@ -372,17 +371,9 @@ const PatternVisualizer = ({ patternData }: PatternVisualizerProps) => {
       if (nextStep) {
         nextStep();
         setAnimationState(prev => ({ ...prev, step: prev.step + 1 }));
-        
-        // Immediately execute any non-visual steps that are just state updates
-        // This prevents the UI from getting stuck between node activations
-        setTimeout(() => {
-          if (stepQueueRef.current.length > 0 && !isAnimating) {
-            executeNextStep();
-          }
-        }, 50);
       }
     }
-  }, [isAnimating]);
+  }, []);
   
   const startSimulation = useCallback(() => {
     resetVisualization();
@@ -415,74 +406,29 @@ const PatternVisualizer = ({ patternData }: PatternVisualizerProps) => {
       setDataFlows(currentFlows => [...currentFlows, flow]);
     };
     
-    // Enhanced step handler with better timing and error handling
+    // In step-by-step mode every instant of the run waits for "Next Step"
     const handleAddStep = (stepFn: () => void) => {
-      if (animationState.mode === 'step-by-step') {
-        stepQueueRef.current.push(stepFn);
-        // If this is the first step, execute it immediately to start the visualization
-        if (stepQueueRef.current.length === 1) {
-          setTimeout(() => executeNextStep(), 100);
-        }
-        return null; // Return null for step-by-step mode as timeouts are not used
-      } else {
-        // In auto mode, execute based on speed factor with better timing
-        if (!animationState.isPaused) {
-          const timeoutId = setTimeout(() => {
-            try {
-              stepFn();
-            } catch (error) {
-              console.warn('Error in animation step (suppressed):', error);
-              // Try to keep animation going despite errors
-              setIsAnimating(true);
-            }
-          }, 100 / speedFactor);
-          return timeoutId;
-        }
-        return null;
+      stepQueueRef.current.push(stepFn);
+      // If this is the first step, execute it immediately to start the visualization
+      if (stepQueueRef.current.length === 1) {
+        setTimeout(() => executeNextStep(), 100);
       }
     };
     
-    // Generate some initial nodes, edges, and data flows to kick-start visualization
-    // This helps ensure ReactFlow is properly initialized
-    setTimeout(() => {
-      // Find input node
-      const inputNode = nodes.find(node => node.data.nodeType === 'input');
-      if (inputNode) {
-        // Activate the input node
-        handleNodeStatus(inputNode.id, 'processing');
-        
-        // Find connecting edges
-        const outgoingEdges = edges.filter(edge => edge.source === inputNode.id);
-        if (outgoingEdges.length > 0) {
-          // Activate the first edge
-          handleEdgeStatus(outgoingEdges[0].id, true);
-          
-          // Create a data flow
-          handleDataFlow({
-            id: `initial-flow-${Date.now()}`,
-            edgeId: outgoingEdges[0].id,
-            source: inputNode.id,
-            target: outgoingEdges[0].target,
-            content: `Processing input: "${queryInput || 'Tell me about agent patterns'}"`,
-            timestamp: Date.now(),
-            type: 'query',
-            progress: 0,
-            label: 'Starting...'
-          });
-        }
-      }
-    }, 100);
-    
-    // Start the simulation using our utility with proper parameters
+    // Run the pattern through the simulation engine
     const result = simulatePatternFlow(
       nodes,
       edges,
       handleNodeStatus,
       handleEdgeStatus,
       handleDataFlow,
-      queryInput,
-      handleAddStep,
-      speedFactor
+      {
+        query: queryInput,
+        speedFactor,
+        stepMode: animationState.mode === 'step-by-step',
+        onAddStep: handleAddStep,
+        onComplete: () => setIsAnimating(false)
+      }
     );
     
     // Force visibility of all ReactFlow elements after animation starts
@@ -503,54 +449,11 @@ const PatternVisualizer = ({ patternData }: PatternVisualizerProps) => {
       clearTimeout(forceVisibilityTimer);
     };
     
-    // Actually start some flows to show animation
-    if (nodes.length > 0 && edges.length > 0) {
-      // Find the first few edges to animate
-      const edgesToAnimate = edges.slice(0, Math.min(edges.length, 3));
-      
-      edgesToAnimate.forEach((edge, index) => {
-        const delay = index * 1000 / speedFactor;
-        
-        setTimeout(() => {
-          // Activate source node
-          handleNodeStatus(edge.source, 'processing');
-          
-          // Animate the edge
-          handleEdgeStatus(edge.id, true);
-          
-          // Create a data flow
-          handleDataFlow({
-            id: `flow-${Date.now()}-${index}`,
-            edgeId: edge.id,
-            source: edge.source,
-            target: edge.target,
-            content: `Processing: ${queryInput || 'data'}`,
-            timestamp: Date.now(),
-            type: 'message',
-            progress: 0,
-            label: 'Processing...'
-          });
-          
-          // Activate target node after a delay
-          setTimeout(() => {
-            handleNodeStatus(edge.target, 'complete');
-            handleEdgeStatus(edge.id, false);
-          }, 2000 / speedFactor);
-          
-        }, delay);
-      });
-      
-      // Stop animation after all flows complete
-      setTimeout(() => {
-        setIsAnimating(false);
-      }, (edgesToAnimate.length * 1000 + 2000) / speedFactor);
-    }
-    
     // Return cleanup function
     return () => {
       if (simulationCleanupRef.current) simulationCleanupRef.current();
     };
-  }, [nodes, edges, setNodes, setEdges, resetVisualization, animationState.mode, animationState.isPaused, speedFactor, executeNextStep, queryInput]);
+  }, [nodes, edges, setNodes, setEdges, resetVisualization, animationState.mode, speedFactor, executeNextStep, queryInput]);
   
   const onInit = useCallback((instance: ReactFlowInstance) => {
     flowInstanceRef.current = instance;
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -8,6 +8,7 @@ import { Play, ArrowsClockwise, Info, CaretDown, CaretUp, FastForward, Rewind, D
 import { PatternData } from '@/lib/data/patterns';
 import { patternContents } from '@/lib/data/patternContent';
 import { useTheme } from '@/components/theme/ThemeProvider';
+import { simulatePattern, playSimulation, SimulationEvent, SimulationPlayback } from '@/lib/simulation';
 
 interface SimplePatternVisualizerProps {
   patternData: PatternData;
@@ -70,82 +71,63 @@ const SimplePatternVisualizer: React.FC<SimplePatternVisualizerProps> = ({ patte
     return layout;
   }, [patternData.nodes]);
 
-  // Generate realistic flow steps
-  const generateFlowSteps = useCallback(() => {
+  const playbackRef = useRef<SimulationPlayback | null>(null);
+
+  // Stop any running playback when the pattern changes or the component unmounts
+  useEffect(() => {
+    return () => playbackRef.current?.cleanup();
+  }, [patternData.id]);
+
+  // Run the pattern through the simulation engine
+  const simulationEvents = useCallback((): SimulationEvent[] => {
     if (!patternData.nodes || !patternData.edges) return [];
-    
+    return simulatePattern(patternData, { query: queryInput });
+  }, [patternData, queryInput]);
+
+  // Turn the engine's event stream into log entries
+  const generateFlowSteps = useCallback((events: SimulationEvent[]) => {
     const steps: FlowStep[] = [];
-    let stepId = 0;
-    
-    // Find entry points (nodes with no incoming edges)
-    const entryNodes = patternData.nodes.filter(node => 
-      !patternData.edges.some(edge => edge.target === node.id)
-    );
-    
-    if (entryNodes.length === 0) {
-      // If no clear entry point, use the first node
-      entryNodes.push(patternData.nodes[0]);
-    }
-    
-    // Create a realistic flow simulation
-    const processedNodes = new Set<string>();
-    const queue = [...entryNodes];
-    
-    // Add initial input
-    entryNodes.forEach(node => {
-      steps.push({
-        id: `step-${stepId++}`,
-        nodeId: node.id,
-        message: `Input received: "${queryInput}"`,
-        type: 'input',
-        timestamp: Date.now() + stepId * 1000
-      });
-    });
-    
-    // Process nodes in order
-    while (queue.length > 0) {
-      const currentNode = queue.shift();
-      if (!currentNode || processedNodes.has(currentNode.id)) continue;
-      
-      processedNodes.add(currentNode.id);
-      
-      // Add processing step
-      const nodeType = currentNode.data?.nodeType || 'agent';
-      const processingMessage = getProcessingMessage(nodeType, currentNode.data?.label || currentNode.id);
-      
-      steps.push({
-        id: `step-${stepId++}`,
-        nodeId: currentNode.id,
-        message: processingMessage,
-        type: 'processing',
-        timestamp: Date.now() + stepId * 1000
-      });
-      
-      // Find connected nodes
-      const outgoingEdges = patternData.edges.filter(edge => edge.source === currentNode.id);
-      outgoingEdges.forEach(edge => {
-        const targetNode = patternData.nodes.find(n => n.id === edge.target);
-        if (targetNode && !processedNodes.has(targetNode.id)) {
-          queue.push(targetNode);
-        }
-      });
-    }
-    
-    // Add final output step
-    const outputNodes = patternData.nodes.filter(node => 
-      !patternData.edges.some(edge => edge.source === node.id)
-    );
-    
-    outputNodes.forEach(node => {
-      steps.push({
-        id: `step-${stepId++}`,
-        nodeId: node.id,
-        message: `Generated response based on ${patternData.name} pattern`,
-        type: 'output',
-        timestamp: Date.now() + stepId * 1000
-      });
+    const labelOf = (nodeId: string) =>
+      patternData.nodes.find(node => node.id === nodeId)?.data?.label || nodeId;
+
+    events.forEach(event => {
+      if (event.kind === 'node_enter') {
+        const nodeType = event.nodeType || 'agent';
+        const isEntry = nodeType === 'input' && event.visit === 1;
+        steps.push({
+          id: `step-${event.seq}`,
+          nodeId: event.nodeId,
+          message: isEntry
+            ? `Input received: "${queryInput}"`
+            : nodeType === 'output'
+              ? `Generated response based on ${patternData.name} pattern`
+              : getProcessingMessage(nodeType, labelOf(event.nodeId)),
+          type: isEntry ? 'input' : nodeType === 'output' ? 'output' : nodeType === 'tool' ? 'tool' : 'processing',
+          timestamp: event.time
+        });
+      } else if (event.kind === 'loop_iteration') {
+        steps.push({
+          id: `step-${event.seq}`,
+          nodeId: event.headerId,
+          message: `Loop back to ${labelOf(event.headerId)} (iteration ${event.iteration} of ${event.maxIterations})`,
+          type: 'reflection',
+          timestamp: event.time
+        });
+      } else if (event.kind === 'branch_decision' && event.reason === 'route') {
+        const targets = event.chosenEdgeIds
+          .map(edgeId => patternData.edges.find(edge => edge.id === edgeId)?.target)
+          .filter((target): target is string => !!target)
+          .map(labelOf);
+        steps.push({
+          id: `step-${event.seq}`,
+          nodeId: event.nodeId,
+          message: `${labelOf(event.nodeId)} routed to ${targets.join(', ')}`,
+          type: 'processing',
+          timestamp: event.time
+        });
+      }
     });
-    
+
     return steps;
   }, [patternData, queryInput]);
 
@@ -167,10 +149,12 @@ const SimplePatternVisualizer: React.FC<SimplePatternVisualizerProps> = ({ patte
 
   // Start simulation
   const startSimulation = useCallback(() => {
+    playbackRef.current?.cleanup();
     setIsAnimating(true);
     setCurrentStep(0);
     setActiveNodes(new Set());
-    const steps = generateFlowSteps();
+    const events = simulationEvents();
+    const steps = generateFlowSteps(events);
     setFlowSteps(steps);
     
     // Create animated edges
@@ -185,53 +169,54 @@ const SimplePatternVisualizer: React.FC<SimplePatternVisualizerProps> = ({ patte
     
     setAnimatedEdges(edges);
     
-    // Execute steps with timing
-    let stepIndex = 0;
-    const executeStep = () => {
-      if (stepIndex >= steps.length) {
-        setIsAnimating(false);
-        setActiveNodes(new Set());
-        return;
+    // Replay engine events in real time
+    playbackRef.current = playSimulation(events, event => {
+      switch (event.kind) {
+        case 'node_enter': {
+          const stepIndex = steps.findIndex(step => step.id === `step-${event.seq}`);
+          if (stepIndex !== -1) setCurrentStep(stepIndex);
+          setActiveNodes(prev => new Set([...prev, event.nodeId]));
+          break;
+        }
+        case 'loop_iteration':
+        case 'branch_decision': {
+          const stepIndex = steps.findIndex(step => step.id === `step-${event.seq}`);
+          if (stepIndex !== -1) setCurrentStep(stepIndex);
+          break;
+        }
+        case 'message_send':
+          setAnimatedEdges(prev => prev.map(e =>
+            e.id === event.edgeId ? { ...e, active: true, progress: 0, message: event.content } : e
+          ));
+          break;
+        case 'message_deliver':
+          setAnimatedEdges(prev => prev.map(e =>
+            e.id === event.edgeId ? { ...e, active: false, progress: 1 } : e
+          ));
+          break;
+        case 'simulation_complete':
+          setIsAnimating(false);
+          setActiveNodes(new Set());
+          break;
       }
-      
-      const step = steps[stepIndex];
-      setCurrentStep(stepIndex);
-      setActiveNodes(prev => new Set([...prev, step.nodeId]));
-      
-      // Animate edges from this node
-      const nodeEdges = edges.filter(edge => edge.from === step.nodeId);
-      nodeEdges.forEach(edge => {
-        setAnimatedEdges(prev => prev.map(e => 
-          e.id === edge.id ? { ...e, active: true, progress: 0 } : e
-        ));
-        
-        // Animate edge progress
-        let progress = 0;
-        const animateEdge = () => {
-          progress += 0.05;
-          if (progress <= 1) {
-            setAnimatedEdges(prev => prev.map(e => 
-              e.id === edge.id ? { ...e, progress } : e
-            ));
-            setTimeout(animateEdge, 30 / speed);
-          } else {
-            setAnimatedEdges(prev => prev.map(e => 
-              e.id === edge.id ? { ...e, active: false, progress: 1 } : e
-            ));
-          }
-        };
-        setTimeout(animateEdge, 200);
-      });
-      
-      stepIndex++;
-      setTimeout(executeStep, 2000 / speed);
-    };
-    
-    executeStep();
-  }, [patternData, generateFlowSteps, speed]);
+    }, { speed });
+  }, [patternData, simulationEvents, generateFlowSteps, speed]);
+
+  // Animate dash offset on edges that are carrying a message
+  useEffect(() => {
+    if (!animatedEdges.some(edge => edge.active)) return;
+    const timer = setTimeout(() => {
+      setAnimatedEdges(prev => prev.map(e =>
+        e.active ? { ...e, progress: (e.progress + 0.05) % 1 } : e
+      ));
+    }, 30 / speed);
+    return () => clearTimeout(timer);
+  }, [animatedEdges, speed]);
 
   // Reset simulation
   const resetVisualization = useCallback(() => {
+    playbackRef.current?.cleanup();
+    playbackRef.current = null;
     setIsAnimating(false);
     setCurrentStep(0);
     setFlowSteps([]);
@@ -7,6 +7,7 @@ import ReactFlow, {
   Node,
   Edge,
   NodeTypes,
+  Connection,
   useNodesState,
   useEdgesState,
   useReactFlow
@@ -50,6 +51,11 @@ interface StandardFlowVisualizerProps {
   onEdgesChange?: (edges: any) => void;
   onFlowComplete?: (flowId: string) => void;
   onNodeClick?: (event: React.MouseEvent, node: Node) => void;
+  // Editing hooks; the visualizer stays read-only unless these are provided
+  onConnect?: (connection: Connection) => void;
+  onNodeDragStop?: (event: React.MouseEvent, node: Node) => void;
+  onEdgeClick?: (event: React.MouseEvent, edge: Edge) => void;
+  onPaneClick?: (event: React.MouseEvent) => void;
   animationSpeed?: number;
   showLabels?: boolean;
   showControls?: boolean;
@@ -78,6 +84,10 @@ const StandardFlowVisualizerBase = (
     onEdgesChange,
     onFlowComplete,
     onNodeClick,
+    onConnect,
+    onNodeDragStop,
+    onEdgeClick,
+    onPaneClick,
     animationSpeed = 1,
     showLabels = true,
     showControls = true,
@@ -328,6 +338,10 @@ const StandardFlowVisualizerBase = (
           if (onEdgesChange) onEdgesChange(edges);
         }}
         onNodeClick={onNodeClick}
+        onConnect={onConnect}
+        onNodeDragStop={onNodeDragStop}
+        onEdgeClick={onEdgeClick}
+        onPaneClick={onPaneClick}
         nodeTypes={nodeTypes}
         fitView={autoFitView}
         fitViewOptions={{ padding: 0.2, duration: 800 }}
@@ -0,0 +1,98 @@
+import { createContext, useContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
+import {
+  ContentPack,
+  LoadedContentPack,
+  ContentPackError,
+  MergedContent,
+  mergeContentPacks,
+  parseContentPack,
+  loadBundledContentPacks,
+  loadUserContentPacks,
+  saveUserContentPacks
+} from '@/lib/contentPacks';
+
+type ContentPackContextType = {
+  // Built-in content merged with every loaded pack
+  content: MergedContent;
+  packs: LoadedContentPack[];
+  errors: ContentPackError[];
+  loading: boolean;
+  addPackFromFile: (file: File) => Promise<{ pack: LoadedContentPack | null; errors: string[] }>;
+  // Add an already-validated pack, e.g. one built from an imported question bank
+  addPack: (pack: ContentPack, fileName: string) => LoadedContentPack;
+  removePack: (packId: string) => void;
+};
+
+const builtInContent = mergeContentPacks([]);
+
+// Create the context with a default value so components work outside the provider
+const ContentPackContext = createContext<ContentPackContextType>({
+  content: builtInContent,
+  packs: [],
+  errors: [],
+  loading: false,
+  addPackFromFile: async () => ({ pack: null, errors: ['Content packs are not available here'] }),
+  addPack: (pack, fileName) => ({ pack, source: 'file', fileName }),
+  removePack: () => {}
+});
+
+// Provider component
+export const ContentPackProvider = ({ children }: { children: ReactNode }) => {
+  const [bundledPacks, setBundledPacks] = useState<LoadedContentPack[]>([]);
+  const [userPacks, setUserPacks] = useState<LoadedContentPack[]>(() => loadUserContentPacks());
+  const [errors, setErrors] = useState<ContentPackError[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBundledContentPacks().then(result => {
+      if (cancelled) return;
+      setBundledPacks(result.packs);
+      setErrors(result.errors);
+      setLoading(false);
+      result.errors.forEach(error => console.warn(`Content pack ${error.fileName} is invalid:`, error.errors));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // User packs load after bundled ones so they can override them
+  const packs = useMemo(() => [...bundledPacks, ...userPacks], [bundledPacks, userPacks]);
+  const content = useMemo(() => mergeContentPacks(packs), [packs]);
+
+  const addPack = useCallback((pack: ContentPack, fileName: string) => {
+    const loaded: LoadedContentPack = { pack, source: 'file', fileName };
+    setUserPacks(current => {
+      const next = [...current.filter(item => item.pack.id !== pack.id), loaded];
+      saveUserContentPacks(next);
+      return next;
+    });
+    return loaded;
+  }, []);
+
+  const addPackFromFile = useCallback(async (file: File) => {
+    const { pack, errors: packErrors } = parseContentPack(await file.text(), file.name);
+    if (!pack) return { pack: null, errors: packErrors };
+    return { pack: addPack(pack, file.name), errors: [] };
+  }, [addPack]);
+
+  const removePack = useCallback((packId: string) => {
+    setUserPacks(current => {
+      const next = current.filter(item => item.pack.id !== packId);
+      saveUserContentPacks(next);
+      return next;
+    });
+  }, []);
+
+  return (
+    <ContentPackContext.Provider value={{ content, packs, errors, loading, addPackFromFile, addPack, removePack }}>
+      {children}
+    </ContentPackContext.Provider>
+  );
+};
+
+// Custom hook to read merged content and manage packs
+export const useContentPacks = () => {
+  return useContext(ContentPackContext);
+};
@@ -0,0 +1,55 @@
+import { createContext, useContext, useState, useMemo, useCallback, ReactNode } from 'react';
+import {
+  LLMSettings,
+  LLMProvider,
+  LLMMessage,
+  LLMCompletionOptions,
+  LLMCompletion,
+  defaultLLMSettings,
+  loadLLMSettings,
+  saveLLMSettings,
+  createLLMProvider
+} from '@/lib/llm';
+
+type LLMContextType = {
+  settings: LLMSettings;
+  provider: LLMProvider;
+  updateSettings: (settings: LLMSettings) => void;
+  complete: (prompt: string | LLMMessage[], options?: LLMCompletionOptions) => Promise<LLMCompletion>;
+};
+
+// Create the context with a default value so components work outside the provider
+const LLMContext = createContext<LLMContextType>({
+  settings: defaultLLMSettings,
+  provider: createLLMProvider(defaultLLMSettings),
+  updateSettings: () => {},
+  complete: (prompt, options) => createLLMProvider(defaultLLMSettings).complete(prompt, options)
+});
+
+// Provider component
+export const LLMSettingsProvider = ({ children }: { children: ReactNode }) => {
+  const [settings, setSettings] = useState<LLMSettings>(() => loadLLMSettings());
+
+  const provider = useMemo(() => createLLMProvider(settings), [settings]);
+
+  const updateSettings = useCallback((next: LLMSettings) => {
+    setSettings(next);
+    saveLLMSettings(next);
+  }, []);
+
+  const complete = useCallback(
+    (prompt: string | LLMMessage[], options?: LLMCompletionOptions) => provider.complete(prompt, options),
+    [provider]
+  );
+
+  return (
+    <LLMContext.Provider value={{ settings, provider, updateSettings, complete }}>
+      {children}
+    </LLMContext.Provider>
+  );
+};
+
+// Custom hook to use the configured model
+export const useLLM = () => {
+  return useContext(LLMContext);
+};
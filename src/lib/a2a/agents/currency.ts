@@ -0,0 +1,106 @@
+import { messageText } from '../protocol';
+import { MockAgentDefinition } from '../server';
+import { DataPart } from '../types';
+
+// Units of each currency per US dollar; fixed so runs are repeatable
+const RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 151.4,
+  INR: 83.3,
+  CAD: 1.36,
+  AUD: 1.52,
+  CHF: 0.9
+};
+
+const CURRENCY_NAMES: Record<string, string> = {
+  dollar: 'USD', dollars: 'USD', euro: 'EUR', euros: 'EUR', pound: 'GBP', pounds: 'GBP',
+  yen: 'JPY', rupee: 'INR', rupees: 'INR', franc: 'CHF', francs: 'CHF'
+};
+
+// Currency codes and names in the order they appear
+const findCurrencies = (text: string): string[] =>
+  (text.match(/[a-z]+/gi) ?? []).flatMap(word => {
+    const named = CURRENCY_NAMES[word.toLowerCase()];
+    if (named) return [named];
+    const code = word.toUpperCase();
+    // Known codes in any case; unknown ones only when written like a code, e.g. "XYZ"
+    return RATES[code] !== undefined || /^[A-Z]{3}$/.test(word) ? [code] : [];
+  });
+
+/**
+ * The currency agent from the A2A samples: converts an amount between two currencies
+ * and asks for whatever the request leaves out
+ */
+export const currencyAgent: MockAgentDefinition = {
+  card: {
+    name: 'Currency Agent',
+    description: 'Converts amounts between currencies using daily exchange rates',
+    url: 'https://currency.agents.local/a2a',
+    provider: { organization: 'Agent Patterns Playground' },
+    version: '1.0.0',
+    capabilities: { streaming: true, pushNotifications: false, stateTransitionHistory: true },
+    authentication: { schemes: ['public'] },
+    defaultInputModes: ['text', 'data'],
+    defaultOutputModes: ['text', 'data'],
+    skills: [
+      {
+        id: 'convert_currency',
+        name: 'Currency conversion',
+        description: `Converts an amount from one currency to another. Knows ${Object.keys(RATES).join(', ')}.`,
+        tags: ['currency', 'finance', 'exchange rate'],
+        examples: ['Convert 100 USD to EUR', 'How many yen is 250 pounds?', 'Convert 40 CHF']
+      }
+    ]
+  },
+  run: async ({ history, setStatus, addArtifact, work }) => {
+    // The whole conversation counts, so an answer to a follow-up question fills the gap
+    const userText = history.filter(message => message.role === 'user').map(message => messageText(message)).join(' ');
+    // A data part such as { amount, from, to } overrides what the text says
+    const data = [...history].reverse().flatMap(message => message.parts)
+      .find((part): part is DataPart => part.type === 'data')?.data as { amount?: number; from?: string; to?: string } | undefined;
+
+    const amountMatch = userText.match(/\d+(?:[.,]\d+)?/);
+    const amount = data?.amount ?? (amountMatch ? Number(amountMatch[0].replace(',', '.')) : undefined);
+    const codes = findCurrencies(userText);
+    const from = data?.from?.toUpperCase() ?? codes[0];
+    const to = data?.to?.toUpperCase() ?? codes.find(code => code !== from);
+
+    setStatus('working', 'Reading the request');
+    await work(400);
+
+    if (amount === undefined) {
+      setStatus('input-required', 'How much would you like to convert?');
+      return;
+    }
+    if (!from) {
+      setStatus('input-required', `Which currency is ${amount} in?`);
+      return;
+    }
+    if (!to) {
+      setStatus('input-required', `Which currency should I convert ${amount} ${from} to?`);
+      return;
+    }
+    const unknown = [from, to].filter(code => RATES[code] === undefined);
+    if (unknown.length > 0) {
+      setStatus('failed', `I don't have rates for ${unknown.join(' and ')}`);
+      return;
+    }
+
+    setStatus('working', `Looking up the ${from}/${to} rate`);
+    await work(700);
+    const rate = RATES[to] / RATES[from];
+    const result = Math.round(amount * rate * 100) / 100;
+    addArtifact({
+      name: 'conversion',
+      description: 'Converted amount',
+      parts: [
+        { type: 'text', text: `${amount} ${from} = ${result} ${to}` },
+        { type: 'data', data: { amount, from, to, rate: Number(rate.toFixed(6)), result } }
+      ],
+      lastChunk: true
+    });
+    setStatus('completed', `${amount} ${from} is ${result} ${to} at ${rate.toFixed(4)}`);
+  }
+};
@@ -0,0 +1,8 @@
+import { MockAgentDefinition } from '../server';
+import { currencyAgent } from './currency';
+import { researchAgent } from './research';
+import { stockQuoteAgent } from './stockQuote';
+
+export const mockA2AAgents: MockAgentDefinition[] = [currencyAgent, researchAgent, stockQuoteAgent];
+
+export { currencyAgent, researchAgent, stockQuoteAgent };
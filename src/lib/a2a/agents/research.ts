@@ -0,0 +1,69 @@
+import { messageText } from '../protocol';
+import { MockAgentDefinition } from '../server';
+
+const SECTIONS = ['Summary', 'Key findings', 'Open questions'];
+
+const sectionText = (section: string, topic: string) => {
+  switch (section) {
+    case 'Summary':
+      return `## Summary\n\n${topic} is an active area with several competing approaches; this brief compares the most cited ones.\n`;
+    case 'Key findings':
+      return `## Key findings\n\n1. Most teams adopt ${topic} incrementally, starting with a single workflow.\n2. Evaluation and observability decide whether pilots reach production.\n3. Cost is driven by the number of model calls per request, not model size alone.\n`;
+    default:
+      return `## Open questions\n\n- How should ${topic} be evaluated beyond offline benchmarks?\n- Which parts need a human in the loop?\n`;
+  }
+};
+
+/**
+ * Writes a short research brief and streams it as one artifact in several chunks,
+ * so clients see `append` and `lastChunk` at work
+ */
+export const researchAgent: MockAgentDefinition = {
+  card: {
+    name: 'Research Brief Agent',
+    description: 'Researches a topic and writes a short brief, streamed section by section',
+    url: 'https://research.agents.local/a2a',
+    provider: { organization: 'Agent Patterns Playground' },
+    version: '0.3.0',
+    capabilities: { streaming: true, pushNotifications: false, stateTransitionHistory: true },
+    defaultInputModes: ['text'],
+    defaultOutputModes: ['text'],
+    skills: [
+      {
+        id: 'write_brief',
+        name: 'Research brief',
+        description: 'Searches sources on a topic and writes a three-section markdown brief',
+        tags: ['research', 'writing', 'summarization'],
+        examples: ['Write a brief on agentic RAG', 'Research multi-agent evaluation']
+      }
+    ]
+  },
+  run: async ({ history, setStatus, addArtifact, work }) => {
+    const request = history.filter(message => message.role === 'user').map(message => messageText(message)).join(' ');
+    const topic = request.replace(/^(please\s+)?(write|research|create)\s+(a\s+)?(brief|report)?\s*(on|about)?\s*/i, '').trim();
+
+    setStatus('working', 'Planning the brief');
+    await work(400);
+    if (topic.split(/\s+/).filter(Boolean).length < 2) {
+      setStatus('input-required', 'Which topic should the brief cover? A few words are enough.');
+      return;
+    }
+
+    setStatus('working', `Searching sources on "${topic}"`);
+    await work(900);
+    setStatus('working', 'Drafting sections');
+
+    for (const [index, section] of SECTIONS.entries()) {
+      await work(600);
+      addArtifact({
+        name: 'brief.md',
+        description: `Research brief on ${topic}`,
+        parts: [{ type: 'text', text: sectionText(section, topic) }],
+        index: 0,
+        append: index > 0,
+        lastChunk: index === SECTIONS.length - 1
+      });
+    }
+    setStatus('completed', `The brief on "${topic}" is ready`);
+  }
+};
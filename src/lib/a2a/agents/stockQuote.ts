@@ -0,0 +1,61 @@
+import { messageText } from '../protocol';
+import { MockAgentDefinition } from '../server';
+
+const QUOTES: Record<string, { name: string; price: number; change: number }> = {
+  GOOGL: { name: 'Alphabet Inc.', price: 171.25, change: 1.12 },
+  MSFT: { name: 'Microsoft Corporation', price: 428.9, change: -0.43 },
+  AAPL: { name: 'Apple Inc.', price: 226.47, change: 0.58 },
+  NVDA: { name: 'NVIDIA Corporation', price: 118.11, change: 2.31 },
+  AMZN: { name: 'Amazon.com, Inc.', price: 186.4, change: -1.05 }
+};
+
+const COMPANY_TICKERS: Record<string, string> = {
+  google: 'GOOGL', alphabet: 'GOOGL', microsoft: 'MSFT', apple: 'AAPL', nvidia: 'NVDA', amazon: 'AMZN'
+};
+
+/**
+ * The stock agent the A2A walkthrough delegates to. It doesn't stream and only reads
+ * text, so it is the one to try tasks/sendSubscribe or a file part against.
+ */
+export const stockQuoteAgent: MockAgentDefinition = {
+  card: {
+    name: 'Stock Quote Agent',
+    description: 'Returns the latest price of a listed stock',
+    url: 'https://stocks.agents.local/a2a',
+    provider: { organization: 'Agent Patterns Playground' },
+    version: '2.1.0',
+    capabilities: { streaming: false, pushNotifications: false, stateTransitionHistory: false },
+    defaultInputModes: ['text'],
+    defaultOutputModes: ['text', 'data'],
+    skills: [
+      {
+        id: 'get_quote',
+        name: 'Stock quote',
+        description: `Latest price and daily change for ${Object.keys(QUOTES).join(', ')}`,
+        tags: ['stocks', 'finance'],
+        examples: ["What's Google's stock price today?", 'Quote for MSFT'],
+        outputModes: ['data']
+      }
+    ]
+  },
+  run: async ({ message, setStatus, addArtifact, work }) => {
+    const text = messageText(message);
+    const words = text.match(/[a-z]+/gi) ?? [];
+    const ticker = words
+      .map(word => COMPANY_TICKERS[word.toLowerCase()] ?? word.toUpperCase())
+      .find(word => QUOTES[word] !== undefined);
+
+    setStatus('working', 'Fetching the quote');
+    await work(600);
+    if (!ticker) {
+      setStatus('failed', `No covered ticker in "${text}". Try one of ${Object.keys(QUOTES).join(', ')}.`);
+      return;
+    }
+    const quote = QUOTES[ticker];
+    addArtifact({
+      name: 'quote',
+      parts: [{ type: 'data', data: { ticker, ...quote, currency: 'USD' } }]
+    });
+    setStatus('completed', `${quote.name} (${ticker}) is at $${quote.price}, ${quote.change >= 0 ? 'up' : 'down'} ${Math.abs(quote.change)}% today`);
+  }
+};
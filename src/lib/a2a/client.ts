@@ -0,0 +1,115 @@
+import { JsonRpcError, JSON_RPC_ERRORS, createRequest, parseMessage, isResponse } from '../mcp/jsonRpc';
+import { readSseStream } from '../mcp/remoteTransport';
+import { AGENT_CARD_PATH } from './protocol';
+import { A2AWireMessage, AgentCard, Task, TaskQueryParams, TaskSendParams, TaskStreamEvent } from './types';
+
+// Numbers HTTP exchanges across clients, so frames from several stay distinguishable
+let nextExchange = 1;
+
+export interface A2AClientOptions {
+  // Defaults to window.fetch; the simulator passes the mock network's fetch
+  fetch?: typeof fetch;
+  onWire?: (message: A2AWireMessage) => void;
+}
+
+export interface A2AClient {
+  getAgentCard: () => Promise<AgentCard>;
+  sendTask: (params: TaskSendParams) => Promise<Task>;
+  // Resolves when the stream ends, after onEvent has seen every event
+  sendTaskSubscribe: (params: TaskSendParams, onEvent: (event: TaskStreamEvent) => void) => Promise<void>;
+  getTask: (params: TaskQueryParams) => Promise<Task>;
+  cancelTask: (id: string) => Promise<Task>;
+  // Post any text as-is; responses and stream events still reach onWire
+  sendRaw: (text: string) => Promise<void>;
+}
+
+/**
+ * A2A client for one agent. JSON-RPC errors, including those inside a stream,
+ * reject with a JsonRpcError carrying the agent's code.
+ */
+export const createA2AClient = (baseUrl: string, options: A2AClientOptions = {}): A2AClient => {
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  let nextId = 1;
+  let seq = 0;
+
+  const record = (
+    exchange: number,
+    http: A2AWireMessage['http'],
+    direction: A2AWireMessage['direction'],
+    kind: A2AWireMessage['kind'],
+    summary: string,
+    text: string
+  ) => {
+    options.onWire?.({ seq: seq++, direction, kind, summary, text, timestamp: Date.now(), exchange, http });
+  };
+
+  const exchange = async (method: 'GET' | 'POST', url: string, body?: string, onEvent?: (data: string) => void) => {
+    const exchangeId = nextExchange++;
+    const requestLine = { method, url };
+    record(exchangeId, requestLine, 'outgoing', 'request', `${method} ${url}`, body ?? '');
+    const response = await fetchImpl(url, {
+      method,
+      headers: method === 'POST' ? { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' } : {},
+      body
+    });
+    const contentType = response.headers.get('Content-Type') ?? '';
+    const http = { ...requestLine, status: response.status, contentType };
+    const summary = `${response.status} ${response.statusText || (response.ok ? 'OK' : 'Error')} (${contentType.split(';')[0] || 'no body'})`;
+    if (contentType.includes('text/event-stream') && response.body) {
+      record(exchangeId, http, 'incoming', 'response', summary, '');
+      await readSseStream(response.body, event => {
+        record(exchangeId, http, 'incoming', 'event', `SSE ${event.event}`, event.data);
+        onEvent?.(event.data);
+      });
+      return { response, text: '' };
+    }
+    const text = await response.text();
+    record(exchangeId, http, 'incoming', 'response', summary, text);
+    return { response, text };
+  };
+
+  // Result of a JSON-RPC response frame, or the error it carries
+  const unwrap = (text: string) => {
+    const message = parseMessage(text);
+    if (!message || !isResponse(message)) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.PARSE_ERROR, 'Agent did not answer with a JSON-RPC response');
+    }
+    if ('error' in message) throw new JsonRpcError(message.error.code, message.error.message, message.error.data);
+    return message.result;
+  };
+
+  const request = async (method: string, params: Record<string, any>) => {
+    const body = JSON.stringify(createRequest(nextId++, method, params));
+    const { response, text } = await exchange('POST', baseUrl, body);
+    if (!response.ok && !text.trim().startsWith('{')) throw new Error(`HTTP ${response.status}`);
+    return unwrap(text);
+  };
+
+  return {
+    getAgentCard: async () => {
+      const { response, text } = await exchange('GET', new URL(AGENT_CARD_PATH, baseUrl).toString());
+      if (!response.ok) throw new Error(`No Agent Card at ${AGENT_CARD_PATH} (HTTP ${response.status})`);
+      return JSON.parse(text);
+    },
+    sendTask: (params) => request('tasks/send', params),
+    sendTaskSubscribe: async (params, onEvent) => {
+      const body = JSON.stringify(createRequest(nextId++, 'tasks/sendSubscribe', params));
+      let streamError: JsonRpcError | null = null;
+      const { text } = await exchange('POST', baseUrl, body, data => {
+        try {
+          onEvent(unwrap(data));
+        } catch (error) {
+          streamError = error instanceof JsonRpcError ? error : new JsonRpcError(JSON_RPC_ERRORS.PARSE_ERROR, String(error));
+        }
+      });
+      if (streamError) throw streamError;
+      // Agents that refuse to stream answer with a plain JSON-RPC error
+      if (text) unwrap(text);
+    },
+    getTask: (params) => request('tasks/get', params),
+    cancelTask: (id) => request('tasks/cancel', { id }),
+    sendRaw: async (text) => {
+      await exchange('POST', baseUrl, text);
+    }
+  };
+};
@@ -0,0 +1,42 @@
+export { createA2AClient } from './client';
+export type { A2AClient, A2AClientOptions } from './client';
+export { createA2AAgentServer } from './server';
+export type { A2AAgentServer, AgentTaskContext, MockAgentDefinition } from './server';
+export { createMockA2ANetwork } from './network';
+export type { MockA2ANetwork } from './network';
+export { mockA2AAgents, currencyAgent, researchAgent, stockQuoteAgent } from './agents';
+export {
+  A2A_ERRORS,
+  AGENT_CARD_PATH,
+  TASK_TRANSITIONS,
+  TERMINAL_TASK_STATES,
+  canTransition,
+  isTerminalState,
+  validateParams,
+  validateResult,
+  resultSchemas,
+  methodParamSchemas,
+  messageText,
+  textMessage
+} from './protocol';
+export type {
+  AgentCard,
+  AgentSkill,
+  AgentCapabilities,
+  TaskState,
+  Part,
+  TextPart,
+  FilePart,
+  DataPart,
+  A2AMessage,
+  TaskStatus,
+  Artifact,
+  Task,
+  TaskSendParams,
+  TaskQueryParams,
+  TaskIdParams,
+  TaskStatusUpdateEvent,
+  TaskArtifactUpdateEvent,
+  TaskStreamEvent,
+  A2AWireMessage
+} from './types';
@@ -0,0 +1,30 @@
+import { createA2AAgentServer, MockAgentDefinition } from './server';
+import { AgentCard } from './types';
+
+// Round trip added to every mock request so the exchange can be followed
+const NETWORK_DELAY_MS = 120;
+
+export interface MockA2ANetwork {
+  cards: AgentCard[];
+  // Drop-in for window.fetch that only reaches the mock agents
+  fetch: typeof fetch;
+}
+
+/**
+ * Host mock agents at their card URLs. Requests to any other host fail the way an
+ * unreachable server does in the browser.
+ */
+export const createMockA2ANetwork = (definitions: MockAgentDefinition[]): MockA2ANetwork => {
+  const servers = definitions.map(createA2AAgentServer);
+
+  const mockFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const { origin } = new URL(request.url);
+    const server = servers.find(entry => new URL(entry.card.url).origin === origin);
+    await new Promise(resolve => setTimeout(resolve, NETWORK_DELAY_MS));
+    if (!server) throw new TypeError(`Failed to fetch ${request.url}`);
+    return server.handle(request);
+  };
+
+  return { cards: servers.map(server => server.card), fetch: mockFetch as typeof fetch };
+};
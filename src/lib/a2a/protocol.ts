@@ -0,0 +1,239 @@
+import { JsonRpcError, JSON_RPC_ERRORS } from '../mcp/jsonRpc';
+import { validateArguments } from '../mcp/schema';
+import { JsonSchema } from '../mcp/types';
+import { AgentCard, A2AMessage, TaskState } from './types';
+
+export const AGENT_CARD_PATH = '/.well-known/agent.json';
+
+// Error codes A2A adds to the JSON-RPC ones
+export const A2A_ERRORS = {
+  TASK_NOT_FOUND: -32001,
+  TASK_NOT_CANCELABLE: -32002,
+  PUSH_NOTIFICATION_NOT_SUPPORTED: -32003,
+  UNSUPPORTED_OPERATION: -32004,
+  CONTENT_TYPE_NOT_SUPPORTED: -32005
+} as const;
+
+export const TERMINAL_TASK_STATES: TaskState[] = ['completed', 'canceled', 'failed'];
+
+/**
+ * Every state change the spec allows. Terminal states have no way out; a follow-up
+ * has to start a new task, optionally in the same session.
+ */
+export const TASK_TRANSITIONS: Record<TaskState, TaskState[]> = {
+  submitted: ['working', 'canceled', 'failed'],
+  working: ['working', 'input-required', 'completed', 'canceled', 'failed'],
+  'input-required': ['working', 'canceled', 'failed'],
+  completed: [],
+  canceled: [],
+  failed: [],
+  unknown: ['submitted', 'working', 'failed']
+};
+
+export const isTerminalState = (state: TaskState) => TERMINAL_TASK_STATES.includes(state);
+
+export const canTransition = (from: TaskState, to: TaskState) => TASK_TRANSITIONS[from]?.includes(to) ?? false;
+
+const partSchema: JsonSchema = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    type: { type: 'string', enum: ['text', 'file', 'data'] },
+    text: { type: 'string' },
+    file: { type: 'object' },
+    data: { type: 'object' },
+    metadata: { type: 'object' }
+  }
+};
+
+const messageSchema: JsonSchema = {
+  type: 'object',
+  required: ['role', 'parts'],
+  properties: {
+    role: { type: 'string', enum: ['user', 'agent'] },
+    parts: { type: 'array', items: partSchema },
+    metadata: { type: 'object' }
+  }
+};
+
+/**
+ * Params of each method, checked before a request reaches the task store
+ */
+export const methodParamSchemas: Record<string, JsonSchema> = {
+  'tasks/send': {
+    type: 'object',
+    required: ['id', 'message'],
+    properties: {
+      id: { type: 'string' },
+      sessionId: { type: 'string' },
+      message: messageSchema,
+      historyLength: { type: 'integer' },
+      metadata: { type: 'object' }
+    }
+  },
+  'tasks/get': {
+    type: 'object',
+    required: ['id'],
+    properties: { id: { type: 'string' }, historyLength: { type: 'integer' } }
+  },
+  'tasks/cancel': {
+    type: 'object',
+    required: ['id'],
+    properties: { id: { type: 'string' } }
+  }
+};
+methodParamSchemas['tasks/sendSubscribe'] = methodParamSchemas['tasks/send'];
+
+/**
+ * Schema checks plus the rules a schema can't express: each part carries the field
+ * its type names, and messages from the client come from the user
+ */
+export const validateParams = (method: string, params: unknown): string[] => {
+  const schema = methodParamSchemas[method];
+  if (!schema) return [];
+  const errors = validateArguments(schema, params ?? undefined, 'params');
+  if (errors.length > 0 || !('message' in schema.properties!)) return errors;
+
+  const message = (params as { message: A2AMessage }).message;
+  if (message.parts.length === 0) errors.push('params.message.parts must not be empty');
+  message.parts.forEach((part, index) => {
+    const path = `params.message.parts[${index}]`;
+    if (part.type === 'text' && typeof part.text !== 'string') errors.push(`${path}.text is required for text parts`);
+    if (part.type === 'data' && (typeof part.data !== 'object' || part.data === null)) errors.push(`${path}.data is required for data parts`);
+    if (part.type === 'file' && !part.file?.bytes && !part.file?.uri) errors.push(`${path}.file needs bytes or a uri`);
+  });
+  if (message.role !== 'user') errors.push('params.message.role must be "user" for messages a client sends');
+  return errors;
+};
+
+const taskStatusSchema: JsonSchema = {
+  type: 'object',
+  required: ['state'],
+  properties: {
+    state: { type: 'string', enum: ['submitted', 'working', 'input-required', 'completed', 'canceled', 'failed', 'unknown'] },
+    message: messageSchema,
+    timestamp: { type: 'string' }
+  }
+};
+
+const artifactSchema: JsonSchema = {
+  type: 'object',
+  required: ['parts'],
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    parts: { type: 'array', items: partSchema },
+    index: { type: 'integer' },
+    append: { type: 'boolean' },
+    lastChunk: { type: 'boolean' }
+  }
+};
+
+/**
+ * Schemas of what agents send back: the Agent Card, tasks and stream events
+ */
+export const resultSchemas: Record<'agentCard' | 'task' | 'statusUpdate' | 'artifactUpdate', JsonSchema> = {
+  agentCard: {
+    type: 'object',
+    required: ['name', 'url', 'version', 'capabilities', 'defaultInputModes', 'defaultOutputModes', 'skills'],
+    properties: {
+      name: { type: 'string' },
+      description: { type: 'string' },
+      url: { type: 'string' },
+      version: { type: 'string' },
+      capabilities: {
+        type: 'object',
+        properties: {
+          streaming: { type: 'boolean' },
+          pushNotifications: { type: 'boolean' },
+          stateTransitionHistory: { type: 'boolean' }
+        }
+      },
+      defaultInputModes: { type: 'array', items: { type: 'string' } },
+      defaultOutputModes: { type: 'array', items: { type: 'string' } },
+      skills: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'name'],
+          properties: { id: { type: 'string' }, name: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } }
+        }
+      }
+    }
+  },
+  task: {
+    type: 'object',
+    required: ['id', 'status'],
+    properties: {
+      id: { type: 'string' },
+      sessionId: { type: 'string' },
+      status: taskStatusSchema,
+      artifacts: { type: 'array', items: artifactSchema },
+      history: { type: 'array', items: messageSchema }
+    }
+  },
+  statusUpdate: {
+    type: 'object',
+    required: ['id', 'status', 'final'],
+    properties: { id: { type: 'string' }, status: taskStatusSchema, final: { type: 'boolean' } }
+  },
+  artifactUpdate: {
+    type: 'object',
+    required: ['id', 'artifact'],
+    properties: { id: { type: 'string' }, artifact: artifactSchema }
+  }
+};
+
+/**
+ * Check the result of a response to the given method. Stream events are either a
+ * status or an artifact update, told apart by which field they carry.
+ */
+export const validateResult = (method: string, result: unknown): string[] => {
+  switch (method) {
+    case 'tasks/send':
+    case 'tasks/get':
+    case 'tasks/cancel':
+      return validateArguments(resultSchemas.task, result, 'result');
+    case 'tasks/sendSubscribe':
+    case 'tasks/resubscribe':
+      return typeof result === 'object' && result !== null && 'artifact' in result
+        ? validateArguments(resultSchemas.artifactUpdate, result, 'result')
+        : validateArguments(resultSchemas.statusUpdate, result, 'result');
+    default:
+      return [];
+  }
+};
+
+// Part types as the input and output modes in an Agent Card name them
+const modeOfPart = (part: { type: string; file?: { mimeType?: string } }) =>
+  part.type === 'file' ? part.file?.mimeType ?? 'file' : part.type;
+
+/**
+ * Reject parts the agent can't read, as listed in its default input modes
+ */
+export const assertSupportedParts = (card: AgentCard, message: A2AMessage) => {
+  const unsupported = message.parts.map(modeOfPart).filter(mode =>
+    !card.defaultInputModes.includes(mode) && !card.defaultInputModes.includes(mode.split('/')[0])
+  );
+  if (unsupported.length > 0) {
+    throw new JsonRpcError(
+      A2A_ERRORS.CONTENT_TYPE_NOT_SUPPORTED,
+      'Incompatible content types',
+      { unsupported, accepted: card.defaultInputModes }
+    );
+  }
+};
+
+export const invalidParams = (errors: string[]) =>
+  new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid parameters', { errors });
+
+/**
+ * Text of every text part in a message, joined with newlines
+ */
+export const messageText = (message?: A2AMessage) =>
+  (message?.parts ?? []).map(part => (part.type === 'text' ? part.text : '')).filter(Boolean).join('\n');
+
+export const textMessage = (role: A2AMessage['role'], text: string): A2AMessage => ({
+  role,
+  parts: [{ type: 'text', text }]
+});
@@ -0,0 +1,331 @@
+import { JSON_RPC_ERRORS, JsonRpcError, createError, createResult, isRequest } from '../mcp/jsonRpc';
+import { JsonRpcId, JsonRpcResponse } from '../mcp/types';
+import {
+  A2A_ERRORS,
+  AGENT_CARD_PATH,
+  assertSupportedParts,
+  canTransition,
+  invalidParams,
+  isTerminalState,
+  textMessage,
+  validateParams
+} from './protocol';
+import {
+  A2AMessage,
+  AgentCard,
+  Artifact,
+  Task,
+  TaskIdParams,
+  TaskQueryParams,
+  TaskSendParams,
+  TaskState,
+  TaskStreamEvent
+} from './types';
+
+/**
+ * What an agent's code can do while it works on a task. Every status change goes
+ * through the task state machine; an illegal one throws and fails the task.
+ */
+export interface AgentTaskContext {
+  task: Task;
+  // The message that started or resumed this run
+  message: A2AMessage;
+  // Every message so far, user and agent, oldest first
+  history: A2AMessage[];
+  signal: AbortSignal;
+  // Simulated work; rejects if the task is canceled meanwhile
+  work: (ms: number) => Promise<void>;
+  setStatus: (state: TaskState, text?: string) => void;
+  addArtifact: (artifact: Omit<Artifact, 'index'> & { index?: number }) => void;
+}
+
+/**
+ * A mock agent: its card and the code that runs when a task is sent or resumed.
+ * The run must leave the task input-required or finished; if it returns while the
+ * task is still working, the task completes.
+ */
+export interface MockAgentDefinition {
+  card: AgentCard;
+  run: (context: AgentTaskContext) => Promise<void>;
+}
+
+interface TaskRecord {
+  task: Task;
+  history: A2AMessage[];
+  listeners: Set<(event: TaskStreamEvent) => void>;
+  controller: AbortController;
+}
+
+export interface A2AAgentServer {
+  card: AgentCard;
+  handle: (request: Request) => Promise<Response>;
+}
+
+const now = () => new Date().toISOString();
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const isFinalState = (state: TaskState) => isTerminalState(state) || state === 'input-required';
+
+/**
+ * Serve one mock agent the way an A2A server would over HTTP: the Agent Card at
+ * /.well-known/agent.json and JSON-RPC on POST, with tasks/sendSubscribe answered
+ * as a text/event-stream.
+ */
+export const createA2AAgentServer = (definition: MockAgentDefinition): A2AAgentServer => {
+  const { card } = definition;
+  const tasks = new Map<string, TaskRecord>();
+
+  const emit = (record: TaskRecord, event: TaskStreamEvent) => {
+    record.listeners.forEach(listener => listener(clone(event)));
+  };
+
+  const setStatus = (record: TaskRecord, state: TaskState, text?: string) => {
+    const from = record.task.status.state;
+    if (!canTransition(from, state)) {
+      throw new Error(`Illegal task transition ${from} → ${state}`);
+    }
+    const message = text ? textMessage('agent', text) : undefined;
+    record.task.status = { state, message, timestamp: now() };
+    if (message) record.history.push(message);
+    emit(record, { id: record.task.id, status: record.task.status, final: isFinalState(state) });
+  };
+
+  const addArtifact = (record: TaskRecord, artifact: Omit<Artifact, 'index'> & { index?: number }) => {
+    const artifacts = record.task.artifacts ?? (record.task.artifacts = []);
+    const index = artifact.index ?? (artifact.append ? Math.max(0, artifacts.length - 1) : artifacts.length);
+    const chunk: Artifact = { ...artifact, index };
+    const existing = artifacts.find(entry => entry.index === index);
+    if (existing && artifact.append) {
+      existing.parts = [...existing.parts, ...artifact.parts];
+      existing.lastChunk = artifact.lastChunk;
+    } else {
+      artifacts.push(clone(chunk));
+    }
+    emit(record, { id: record.task.id, artifact: chunk });
+  };
+
+  // Run the agent's code; whatever happens, the task ends up settled
+  const run = async (record: TaskRecord, message: A2AMessage) => {
+    const { signal } = record.controller;
+    const context: AgentTaskContext = {
+      task: record.task,
+      message,
+      history: record.history,
+      signal,
+      work: (ms) => new Promise((resolve, reject) => {
+        if (signal.aborted) return reject(new Error('Task canceled'));
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('Task canceled'));
+        }, { once: true });
+      }),
+      setStatus: (state, text) => {
+        if (signal.aborted) throw new Error('Task canceled');
+        setStatus(record, state, text);
+      },
+      addArtifact: (artifact) => {
+        if (signal.aborted) throw new Error('Task canceled');
+        addArtifact(record, artifact);
+      }
+    };
+    try {
+      await definition.run(context);
+      if (!isFinalState(record.task.status.state)) setStatus(record, 'completed');
+    } catch (error) {
+      if (isTerminalState(record.task.status.state)) return;
+      console.warn(`${card.name} failed task ${record.task.id}:`, error);
+      setStatus(record, 'failed', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Create a task, or resume one waiting for input; the run starts on the next tick
+  // so stream subscribers attached now see every event
+  const startTask = (params: TaskSendParams): TaskRecord => {
+    assertSupportedParts(card, params.message);
+    let record = tasks.get(params.id);
+    if (record) {
+      const state = record.task.status.state;
+      if (params.sessionId && record.task.sessionId && params.sessionId !== record.task.sessionId) {
+        throw invalidParams([`params.sessionId does not match the session of task ${params.id}`]);
+      }
+      if (isTerminalState(state)) {
+        throw new JsonRpcError(A2A_ERRORS.UNSUPPORTED_OPERATION, `Task ${params.id} is ${state}; send a new task id to continue`, { state });
+      }
+      if (state !== 'input-required') {
+        throw new JsonRpcError(A2A_ERRORS.UNSUPPORTED_OPERATION, `Task ${params.id} is ${state} and not waiting for input`, { state });
+      }
+      record.history.push(params.message);
+      record.controller = new AbortController();
+      setStatus(record, 'working');
+    } else {
+      record = {
+        task: {
+          id: params.id,
+          sessionId: params.sessionId ?? crypto.randomUUID(),
+          status: { state: 'submitted', timestamp: now() },
+          artifacts: [],
+          metadata: params.metadata
+        },
+        history: [params.message],
+        listeners: new Set(),
+        controller: new AbortController()
+      };
+      tasks.set(params.id, record);
+    }
+    const started = record;
+    setTimeout(() => run(started, params.message), 0);
+    return record;
+  };
+
+  const snapshot = (record: TaskRecord, historyLength?: number): Task => {
+    const task = clone(record.task);
+    if (historyLength && historyLength > 0) task.history = clone(record.history.slice(-historyLength));
+    return task;
+  };
+
+  // Resolves at the next final status event; call it right after startTask
+  const settled = (record: TaskRecord) => new Promise<void>(resolve => {
+    const listener = (event: TaskStreamEvent) => {
+      if ('status' in event && event.final) {
+        record.listeners.delete(listener);
+        resolve();
+      }
+    };
+    record.listeners.add(listener);
+  });
+
+  const findTask = (id: string) => {
+    const record = tasks.get(id);
+    if (!record) throw new JsonRpcError(A2A_ERRORS.TASK_NOT_FOUND, 'Task not found', { id });
+    return record;
+  };
+
+  const stream = (id: JsonRpcId, record: TaskRecord, initial: TaskStreamEvent) => {
+    const encoder = new TextEncoder();
+    let listener: ((event: TaskStreamEvent) => void) | undefined;
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const send = (event: TaskStreamEvent) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(createResult(id, event))}\n\n`));
+          if ('status' in event && event.final) {
+            record.listeners.delete(listener!);
+            controller.close();
+          }
+        };
+        listener = send;
+        record.listeners.add(listener);
+        send(initial);
+      },
+      cancel: () => {
+        if (listener) record.listeners.delete(listener);
+      }
+    });
+    return new Response(body, {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+    });
+  };
+
+  const checkParams = (method: string, params: unknown) => {
+    const errors = validateParams(method, params);
+    if (errors.length > 0) throw invalidParams(errors);
+  };
+
+  const dispatch = async (id: JsonRpcId, method: string, params: any): Promise<Response | unknown> => {
+    switch (method) {
+      case 'tasks/send': {
+        checkParams(method, params);
+        const record = startTask(params as TaskSendParams);
+        await settled(record);
+        return snapshot(record, (params as TaskSendParams).historyLength);
+      }
+      case 'tasks/sendSubscribe': {
+        if (!card.capabilities.streaming) {
+          throw new JsonRpcError(A2A_ERRORS.UNSUPPORTED_OPERATION, `${card.name} does not support streaming; use tasks/send`);
+        }
+        checkParams(method, params);
+        const record = startTask(params as TaskSendParams);
+        return stream(id, record, { id: record.task.id, status: clone(record.task.status), final: false });
+      }
+      case 'tasks/resubscribe': {
+        if (!card.capabilities.streaming) {
+          throw new JsonRpcError(A2A_ERRORS.UNSUPPORTED_OPERATION, `${card.name} does not support streaming`);
+        }
+        checkParams('tasks/get', params);
+        const record = findTask((params as TaskIdParams).id);
+        const { state } = record.task.status;
+        return stream(id, record, { id: record.task.id, status: clone(record.task.status), final: isFinalState(state) });
+      }
+      case 'tasks/get': {
+        checkParams(method, params);
+        const { id: taskId, historyLength } = params as TaskQueryParams;
+        return snapshot(findTask(taskId), historyLength);
+      }
+      case 'tasks/cancel': {
+        checkParams(method, params);
+        const record = findTask((params as TaskIdParams).id);
+        const { state } = record.task.status;
+        if (isTerminalState(state)) {
+          throw new JsonRpcError(A2A_ERRORS.TASK_NOT_CANCELABLE, 'Task cannot be canceled', { state });
+        }
+        record.controller.abort();
+        setStatus(record, 'canceled');
+        return snapshot(record);
+      }
+      case 'tasks/pushNotification/set':
+      case 'tasks/pushNotification/get':
+        if (!card.capabilities.pushNotifications) {
+          throw new JsonRpcError(A2A_ERRORS.PUSH_NOTIFICATION_NOT_SUPPORTED, 'Push Notification is not supported');
+        }
+        throw new JsonRpcError(A2A_ERRORS.UNSUPPORTED_OPERATION, 'This operation is not supported');
+      default:
+        throw new JsonRpcError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  };
+
+  const handleRpc = async (text: string): Promise<Response> => {
+    let message: unknown;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return json(createError(null, { code: JSON_RPC_ERRORS.PARSE_ERROR, message: 'Parse error' }));
+    }
+    if (!isRequest(message) || (message as { jsonrpc?: string }).jsonrpc !== '2.0') {
+      const id = typeof message === 'object' && message !== null && 'id' in message ? (message as { id: JsonRpcId }).id : null;
+      return json(createError(id ?? null, { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Request payload validation error' }));
+    }
+    try {
+      const result = await dispatch(message.id, message.method, message.params);
+      if (result instanceof Response) return result;
+      return json(createResult(message.id, result) as JsonRpcResponse);
+    } catch (error) {
+      if (error instanceof JsonRpcError) return json(createError(message.id, error.toObject()));
+      console.error(`${card.name} failed to handle ${message.method}:`, error);
+      return json(createError(message.id, {
+        code: JSON_RPC_ERRORS.INTERNAL_ERROR,
+        message: error instanceof Error ? error.message : 'Internal error'
+      }));
+    }
+  };
+
+  return {
+    card,
+    handle: async (request) => {
+      const { pathname } = new URL(request.url);
+      if (pathname === AGENT_CARD_PATH) {
+        return request.method === 'GET' ? json(card) : json({ error: 'Method not allowed' }, 405);
+      }
+      if (pathname !== new URL(card.url).pathname) return json({ error: 'Not found' }, 404);
+      if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+      if (!(request.headers.get('Content-Type') ?? '').includes('application/json')) {
+        return json({ error: 'Content-Type must be application/json' }, 415);
+      }
+      return handleRpc(await request.text());
+    }
+  };
+};
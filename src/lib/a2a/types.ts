@@ -0,0 +1,149 @@
+/**
+ * Agent2Agent protocol types, following the JSON-RPC flavour of the spec with
+ * tasks/send, tasks/sendSubscribe, tasks/get and tasks/cancel
+ */
+
+export interface AgentSkill {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  examples?: string[];
+  inputModes?: string[];
+  outputModes?: string[];
+}
+
+export interface AgentCapabilities {
+  streaming?: boolean;
+  pushNotifications?: boolean;
+  stateTransitionHistory?: boolean;
+}
+
+/**
+ * Served at /.well-known/agent.json so clients can find out what an agent does
+ * and how to talk to it before sending any task
+ */
+export interface AgentCard {
+  name: string;
+  description: string;
+  url: string;
+  provider?: { organization: string; url?: string };
+  version: string;
+  documentationUrl?: string;
+  capabilities: AgentCapabilities;
+  authentication?: { schemes: string[]; credentials?: string };
+  defaultInputModes: string[];
+  defaultOutputModes: string[];
+  skills: AgentSkill[];
+}
+
+export type TaskState =
+  | 'submitted'
+  | 'working'
+  | 'input-required'
+  | 'completed'
+  | 'canceled'
+  | 'failed'
+  | 'unknown';
+
+export interface TextPart {
+  type: 'text';
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface FilePart {
+  type: 'file';
+  file: { name?: string; mimeType?: string; bytes?: string; uri?: string };
+  metadata?: Record<string, unknown>;
+}
+
+export interface DataPart {
+  type: 'data';
+  data: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+}
+
+export type Part = TextPart | FilePart | DataPart;
+
+export interface A2AMessage {
+  role: 'user' | 'agent';
+  parts: Part[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface TaskStatus {
+  state: TaskState;
+  message?: A2AMessage;
+  timestamp: string;
+}
+
+export interface Artifact {
+  name?: string;
+  description?: string;
+  parts: Part[];
+  index: number;
+  // Streamed artifacts arrive in chunks that extend the artifact with the same index
+  append?: boolean;
+  lastChunk?: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+export interface Task {
+  id: string;
+  sessionId?: string;
+  status: TaskStatus;
+  artifacts?: Artifact[];
+  history?: A2AMessage[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface TaskSendParams {
+  id: string;
+  sessionId?: string;
+  message: A2AMessage;
+  historyLength?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TaskQueryParams {
+  id: string;
+  historyLength?: number;
+}
+
+export interface TaskIdParams {
+  id: string;
+}
+
+export interface TaskStatusUpdateEvent {
+  id: string;
+  status: TaskStatus;
+  // True on the last event of the stream
+  final: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TaskArtifactUpdateEvent {
+  id: string;
+  artifact: Artifact;
+  final?: boolean;
+}
+
+export type TaskStreamEvent = TaskStatusUpdateEvent | TaskArtifactUpdateEvent;
+
+/**
+ * One HTTP exchange or stream event as seen by the client
+ */
+export interface A2AWireMessage {
+  seq: number;
+  direction: 'outgoing' | 'incoming';
+  kind: 'request' | 'response' | 'event';
+  // e.g. "GET https://currency.agents.local/.well-known/agent.json" or "200 OK"
+  summary: string;
+  text: string;
+  timestamp: number;
+  // Shared by a request, its response and the stream events that came with it
+  exchange: number;
+  // Request line of the exchange; incoming frames add the response status
+  http: { method: string; url: string; status?: number; contentType?: string };
+}
@@ -0,0 +1,24 @@
+import { MockACPAgentDefinition } from '../server';
+
+/**
+ * Sends every input part back unchanged, whatever its content type. The quickest way
+ * to check how a client builds multipart messages.
+ */
+export const echoAgent: MockACPAgentDefinition = {
+  manifest: {
+    name: 'echo',
+    description: 'Replies with the parts of the input messages, unchanged',
+    input_content_types: ['*/*'],
+    output_content_types: ['*/*'],
+    metadata: {
+      framework: 'Agent Patterns Playground',
+      programming_language: 'TypeScript',
+      tags: ['testing'],
+      capabilities: [{ name: 'Echo', description: 'Returns each part as received, including URLs and base64 content' }]
+    }
+  },
+  run: async ({ input, writeMessage, work }) => {
+    await work(200);
+    await writeMessage(input.flatMap(message => message.parts));
+  }
+};
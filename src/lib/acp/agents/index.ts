@@ -0,0 +1,8 @@
+import { MockACPAgentDefinition } from '../server';
+import { echoAgent } from './echo';
+import { summarizerAgent } from './summarizer';
+import { translatorAgent } from './translator';
+
+export const mockACPAgents: MockACPAgentDefinition[] = [summarizerAgent, translatorAgent, echoAgent];
+
+export { echoAgent, summarizerAgent, translatorAgent };
@@ -0,0 +1,47 @@
+import { messageText, textPart } from '../protocol';
+import { MockACPAgentDefinition } from '../server';
+
+/**
+ * Summarises text sentence by sentence, one message part per sentence, so stream
+ * mode shows message.part events arriving while the run is in progress
+ */
+export const summarizerAgent: MockACPAgentDefinition = {
+  manifest: {
+    name: 'summarizer',
+    description: 'Summarises plain text into a few short sentences and reports word counts',
+    input_content_types: ['text/plain', 'text/markdown'],
+    output_content_types: ['text/plain', 'application/json'],
+    metadata: {
+      framework: 'Agent Patterns Playground',
+      programming_language: 'TypeScript',
+      natural_languages: ['en'],
+      domains: ['writing'],
+      tags: ['summarization', 'streaming'],
+      capabilities: [{ name: 'Summary', description: 'Keeps the longest sentences, in their original order' }]
+    }
+  },
+  run: async ({ input, writeMessage, work }) => {
+    const text = messageText(input);
+    const sentences = text.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(Boolean);
+    if (sentences.length === 0) throw new Error('The input has no text/plain content to summarise');
+
+    await work(500);
+    const kept = sentences
+      .map((sentence, index) => ({ sentence, index }))
+      .sort((a, b) => b.sentence.length - a.sentence.length)
+      .slice(0, Math.min(3, Math.ceil(sentences.length / 2)))
+      .sort((a, b) => a.index - b.index);
+    const words = (value: string) => value.split(/\s+/).filter(Boolean).length;
+    const summary = kept.map(entry => entry.sentence).join(' ');
+
+    await writeMessage([
+      ...kept.map(entry => ({ ...textPart(entry.sentence), name: `sentence-${entry.index + 1}` })),
+      {
+        name: 'stats',
+        content_type: 'application/json',
+        content: JSON.stringify({ input_words: words(text), summary_words: words(summary), sentences_kept: kept.length }),
+        content_encoding: 'plain'
+      }
+    ], 400);
+  }
+};
@@ -0,0 +1,51 @@
+import { messageText, textPart } from '../protocol';
+import { MockACPAgentDefinition } from '../server';
+
+// A phrasebook rather than a model, so every run gives the same answer
+const PHRASES: Record<string, Record<string, string>> = {
+  'good morning': { french: 'bonjour', spanish: 'buenos días', german: 'guten Morgen', italian: 'buongiorno' },
+  'thank you': { french: 'merci', spanish: 'gracias', german: 'danke', italian: 'grazie' },
+  'see you tomorrow': { french: 'à demain', spanish: 'hasta mañana', german: 'bis morgen', italian: 'a domani' },
+  'where is the station': { french: 'où est la gare', spanish: 'dónde está la estación', german: 'wo ist der Bahnhof', italian: 'dov\'è la stazione' }
+};
+
+const LANGUAGES = ['french', 'spanish', 'german', 'italian'];
+
+const findLanguage = (text: string) => LANGUAGES.find(language => text.toLowerCase().includes(language));
+
+/**
+ * Translates a handful of phrases. A request without a target language pauses the
+ * run with an await_request, so the resume flow can be tried.
+ */
+export const translatorAgent: MockACPAgentDefinition = {
+  manifest: {
+    name: 'translator',
+    description: 'Translates short English phrases and asks for the target language when it is missing',
+    input_content_types: ['text/plain'],
+    output_content_types: ['text/plain'],
+    metadata: {
+      framework: 'Agent Patterns Playground',
+      programming_language: 'TypeScript',
+      natural_languages: ['en', 'fr', 'es', 'de', 'it'],
+      tags: ['translation', 'await'],
+      capabilities: [{ name: 'Phrase translation', description: `Knows ${Object.keys(PHRASES).map(phrase => `"${phrase}"`).join(', ')}` }]
+    }
+  },
+  run: async ({ input, resume, writeMessage, awaitInput, work }) => {
+    const request = messageText(input);
+    const phrase = Object.keys(PHRASES).find(entry => request.toLowerCase().includes(entry));
+    await work(300);
+    if (!phrase) throw new Error(`No known phrase in "${request}". Try ${Object.keys(PHRASES).join(', ')}.`);
+
+    const language = findLanguage(request) ?? findLanguage(messageText(resume?.message));
+    if (!language) {
+      awaitInput({
+        type: 'message',
+        message: { role: 'agent/translator', parts: [textPart(`Which language should "${phrase}" be translated to? I know ${LANGUAGES.join(', ')}.`)] }
+      });
+      return;
+    }
+    await work(300);
+    await writeMessage([textPart(PHRASES[phrase][language])]);
+  }
+};
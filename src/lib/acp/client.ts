@@ -0,0 +1,147 @@
+import { readSseStream } from '../mcp/remoteTransport';
+import { ACPError } from './protocol';
+import {
+  ACPErrorBody,
+  ACPWireMessage,
+  AgentManifest,
+  AwaitResume,
+  Run,
+  RunCreateRequest,
+  RunEvent,
+  RunMode
+} from './types';
+
+// Numbers HTTP exchanges across clients, so the builder's and the checker's frames stay apart
+let nextExchange = 1;
+
+export interface ACPClientOptions {
+  // Defaults to window.fetch; the playground passes the mock network's fetch
+  fetch?: typeof fetch;
+  onWire?: (message: ACPWireMessage) => void;
+}
+
+/**
+ * A response as received, before any interpretation; stream bodies are split into
+ * the data of each event
+ */
+export interface ACPRawResponse {
+  status: number;
+  contentType: string;
+  text: string;
+  events: string[];
+}
+
+export interface ACPClient {
+  ping: () => Promise<void>;
+  listAgents: () => Promise<AgentManifest[]>;
+  getAgent: (name: string) => Promise<AgentManifest>;
+  // In stream mode onEvent sees every event; resolves with the run as last reported
+  createRun: (request: RunCreateRequest, onEvent?: (event: RunEvent) => void) => Promise<Run>;
+  resumeRun: (runId: string, resume: AwaitResume, mode: RunMode, onEvent?: (event: RunEvent) => void) => Promise<Run>;
+  getRun: (runId: string) => Promise<Run>;
+  cancelRun: (runId: string) => Promise<Run>;
+  getRunEvents: (runId: string) => Promise<RunEvent[]>;
+  // Any request, answered without checks; the conformance checker builds on it
+  send: (method: 'GET' | 'POST', path: string, body?: string) => Promise<ACPRawResponse>;
+}
+
+/**
+ * ACP client for one server. Error bodies reject with an ACPError carrying the
+ * server's code; anything else that isn't a 2xx rejects with the HTTP status.
+ */
+export const createACPClient = (baseUrl: string, options: ACPClientOptions = {}): ACPClient => {
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  let seq = 0;
+
+  const record = (
+    exchange: number,
+    http: ACPWireMessage['http'],
+    direction: ACPWireMessage['direction'],
+    kind: ACPWireMessage['kind'],
+    summary: string,
+    text: string
+  ) => {
+    options.onWire?.({ seq: seq++, direction, kind, summary, text, timestamp: Date.now(), exchange, http });
+  };
+
+  const send = async (method: 'GET' | 'POST', path: string, body?: string, onEvent?: (data: string) => void) => {
+    const url = new URL(path, baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`).toString();
+    const exchangeId = nextExchange++;
+    const requestLine = { method, url };
+    record(exchangeId, requestLine, 'outgoing', 'request', `${method} ${url}`, body ?? '');
+    const response = await fetchImpl(url, {
+      method,
+      headers: body !== undefined ? { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' } : {},
+      body
+    });
+    const contentType = response.headers.get('Content-Type') ?? '';
+    const http = { ...requestLine, status: response.status, contentType };
+    const summary = `${response.status} ${response.statusText || (response.ok ? 'OK' : 'Error')} (${contentType.split(';')[0] || 'no body'})`;
+    const events: string[] = [];
+    if (contentType.includes('text/event-stream') && response.body) {
+      record(exchangeId, http, 'incoming', 'response', summary, '');
+      await readSseStream(response.body, event => {
+        const type = (() => {
+          try {
+            return JSON.parse(event.data).type ?? event.event;
+          } catch {
+            return event.event;
+          }
+        })();
+        record(exchangeId, http, 'incoming', 'event', `SSE ${type}`, event.data);
+        events.push(event.data);
+        onEvent?.(event.data);
+      });
+      return { status: response.status, contentType, text: '', events };
+    }
+    const text = await response.text();
+    record(exchangeId, http, 'incoming', 'response', summary, text);
+    return { status: response.status, contentType, text, events };
+  };
+
+  const unwrap = ({ status, contentType, text }: ACPRawResponse) => {
+    const body = contentType.includes('application/json') && text ? JSON.parse(text) : undefined;
+    if (status >= 200 && status < 300) return body;
+    if (body && typeof body.code === 'string' && typeof body.message === 'string') {
+      throw new ACPError(body.code, body.message, body.data);
+    }
+    throw new Error(`HTTP ${status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  };
+
+  // Post a run request; a stream is read to its end and the last run it reported returned
+  const postRun = async (path: string, payload: Record<string, unknown>, onEvent?: (event: RunEvent) => void): Promise<Run> => {
+    let latest: Run | undefined;
+    let streamError: ACPErrorBody | undefined;
+    const response = await send('POST', path, JSON.stringify(payload), data => {
+      const event: RunEvent = JSON.parse(data);
+      if ('run' in event) latest = event.run;
+      if (event.type === 'error') streamError = event.error;
+      onEvent?.(event);
+    });
+    if (streamError) throw new ACPError(streamError.code, streamError.message, streamError.data);
+    if (response.events.length > 0) {
+      if (!latest) throw new Error('The stream ended without reporting the run');
+      return latest;
+    }
+    return unwrap(response);
+  };
+
+  return {
+    ping: async () => {
+      unwrap(await send('GET', 'ping'));
+    },
+    listAgents: async () => {
+      const body = unwrap(await send('GET', 'agents'));
+      if (!Array.isArray(body?.agents)) throw new Error('GET /agents did not answer with { agents: [...] }');
+      return body.agents;
+    },
+    getAgent: async (name) => unwrap(await send('GET', `agents/${encodeURIComponent(name)}`)),
+    createRun: (request, onEvent) => postRun('runs', { ...request }, onEvent),
+    resumeRun: (runId, resume, mode, onEvent) =>
+      postRun(`runs/${encodeURIComponent(runId)}`, { run_id: runId, await_resume: resume, mode }, onEvent),
+    getRun: async (runId) => unwrap(await send('GET', `runs/${encodeURIComponent(runId)}`)),
+    cancelRun: async (runId) => unwrap(await send('POST', `runs/${encodeURIComponent(runId)}/cancel`)),
+    getRunEvents: async (runId) => unwrap(await send('GET', `runs/${encodeURIComponent(runId)}/events`)).events,
+    send: (method, path, body) => send(method, path, body)
+  };
+};
@@ -0,0 +1,229 @@
+import { createACPClient, ACPClientOptions, ACPRawResponse } from './client';
+import { isTerminalStatus, userMessage, validateError, validateEvent, validateManifest, validateRun } from './protocol';
+import { Message, Run, RunStatus } from './types';
+
+export type ConformanceStatus = 'pass' | 'fail' | 'skip';
+
+export interface ConformanceCheck {
+  id: string;
+  title: string;
+  // The rule of the spec being checked
+  rule: string;
+  status: ConformanceStatus;
+  // What went wrong, or why the check was skipped
+  errors: string[];
+  durationMs: number;
+}
+
+export interface ConformanceReport {
+  baseUrl: string;
+  agentName?: string;
+  startedAt: string;
+  checks: ConformanceCheck[];
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface ConformanceOptions extends ACPClientOptions {
+  // Agent to create runs with; defaults to the first one GET /agents lists
+  agentName?: string;
+  // Input of the test runs; defaults to a short text message
+  input?: Message[];
+  // Called as each check finishes, for a report that fills in live
+  onCheck?: (check: ConformanceCheck) => void;
+}
+
+// A check's outcome: the problems found, or a reason it could not run
+type CheckResult = string[] | { skip: string };
+
+const POLL_INTERVAL_MS = 300;
+const POLL_ATTEMPTS = 40;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isSettled = (status: RunStatus) => isTerminalStatus(status) || status === 'awaiting';
+
+// The JSON body of a response, or the problem that stops it being read
+const jsonBody = (response: ACPRawResponse): { body?: any; error?: string } => {
+  if (!response.contentType.includes('application/json')) {
+    return { error: `Content-Type is "${response.contentType || 'missing'}", expected application/json` };
+  }
+  try {
+    return { body: JSON.parse(response.text) };
+  } catch {
+    return { error: 'Body is not valid JSON' };
+  }
+};
+
+const expectStatus = (response: ACPRawResponse, expected: number[]) =>
+  expected.includes(response.status) ? [] : [`HTTP ${response.status}, expected ${expected.join(' or ')}`];
+
+// An error response: the expected status and an Error body with the expected code
+const expectError = (response: ACPRawResponse, status: number, code: string) => {
+  const errors = expectStatus(response, [status]);
+  const { body, error } = jsonBody(response);
+  if (error) return [...errors, `Error responses carry an Error body: ${error}`];
+  errors.push(...validateError(body, 'body'));
+  if (body?.code && body.code !== code) errors.push(`body.code is "${body.code}", expected "${code}"`);
+  return errors;
+};
+
+/**
+ * Run the conformance suite against any ACP server: discovery, the three run modes,
+ * the event log, cancellation and error responses. Every response body is validated
+ * against the ACP schemas; a check fails on the first response that breaks a rule.
+ */
+export const checkACPConformance = async (baseUrl: string, options: ConformanceOptions = {}): Promise<ConformanceReport> => {
+  const client = createACPClient(baseUrl, options);
+  const startedAt = new Date().toISOString();
+  const checks: ConformanceCheck[] = [];
+  let agentName = options.agentName;
+  let syncRun: Run | undefined;
+  const input = options.input ?? [userMessage('Agents that follow a shared protocol can be swapped without changing the client. That is the point of ACP.')];
+
+  const check = async (id: string, title: string, rule: string, body: () => Promise<CheckResult>) => {
+    const started = Date.now();
+    let status: ConformanceStatus;
+    let errors: string[];
+    try {
+      const result = await body();
+      status = Array.isArray(result) ? (result.length === 0 ? 'pass' : 'fail') : 'skip';
+      errors = Array.isArray(result) ? result : [result.skip];
+    } catch (error) {
+      status = 'fail';
+      errors = [error instanceof Error ? error.message : String(error)];
+    }
+    const entry = { id, title, rule, status, errors, durationMs: Date.now() - started };
+    checks.push(entry);
+    options.onCheck?.(entry);
+  };
+
+  const needsAgent = (run: () => Promise<CheckResult>) => async (): Promise<CheckResult> =>
+    agentName ? run() : { skip: 'No agent to run: GET /agents listed none and no agent name was given' };
+
+  const createRun = (mode: string) =>
+    client.send('POST', 'runs', JSON.stringify({ agent_name: agentName, input, mode }));
+
+  await check('ping', 'Server answers GET /ping', 'GET /ping returns 200 with a JSON body', async () => {
+    const response = await client.send('GET', 'ping');
+    const errors = expectStatus(response, [200]);
+    const { error } = jsonBody(response);
+    return error ? [...errors, error] : errors;
+  });
+
+  await check('agents-list', 'Agents are discoverable', 'GET /agents returns { agents: AgentManifest[] }', async () => {
+    const response = await client.send('GET', 'agents');
+    const { body, error } = jsonBody(response);
+    if (error) return [...expectStatus(response, [200]), error];
+    const errors = expectStatus(response, [200]);
+    if (!body || !Array.isArray(body.agents)) {
+      return [...errors, Array.isArray(body) ? 'Body is a bare array; it must be an object with an agents array' : 'body.agents must be an array'];
+    }
+    body.agents.forEach((manifest: unknown, index: number) => errors.push(...validateManifest(manifest, `body.agents[${index}]`)));
+    agentName = agentName ?? body.agents[0]?.name;
+    return errors;
+  });
+
+  await check('agent-detail', 'Agent manifest by name', 'GET /agents/{name} returns that agent\'s manifest', needsAgent(async () => {
+    const response = await client.send('GET', `agents/${encodeURIComponent(agentName!)}`);
+    const { body, error } = jsonBody(response);
+    const errors = expectStatus(response, [200]);
+    if (error) return [...errors, error];
+    errors.push(...validateManifest(body, 'body'));
+    if (body?.name !== agentName) errors.push(`body.name is "${body?.name}", expected "${agentName}"`);
+    return errors;
+  }));
+
+  await check('agent-not-found', 'Unknown agent', 'GET /agents/{name} for an unknown agent returns 404 with code not_found', async () =>
+    expectError(await client.send('GET', `agents/no-such-agent-${Date.now()}`), 404, 'not_found'));
+
+  await check('run-sync', 'Sync run', 'POST /runs with mode sync returns 200 with the run settled or awaiting', needsAgent(async () => {
+    const response = await createRun('sync');
+    const { body, error } = jsonBody(response);
+    const errors = expectStatus(response, [200]);
+    if (error) return [...errors, error];
+    errors.push(...validateRun(body, 'body'));
+    if (errors.length > 0) return errors;
+    syncRun = body;
+    if (body.agent_name !== agentName) errors.push(`body.agent_name is "${body.agent_name}", expected "${agentName}"`);
+    if (!isSettled(body.status)) errors.push(`body.status is "${body.status}"; a sync run returns once it is finished or awaiting`);
+    return errors;
+  }));
+
+  await check('run-async', 'Async run and polling', 'POST /runs with mode async returns 202 at once; GET /runs/{id} reports it until it settles', needsAgent(async () => {
+    const response = await createRun('async');
+    const { body, error } = jsonBody(response);
+    const errors = expectStatus(response, [202]);
+    if (error) return [...errors, error];
+    errors.push(...validateRun(body, 'body'));
+    if (errors.length > 0) return errors;
+    for (let attempt = 1; attempt <= POLL_ATTEMPTS; attempt++) {
+      await sleep(POLL_INTERVAL_MS);
+      const poll = await client.send('GET', `runs/${encodeURIComponent(body.run_id)}`);
+      const polled = jsonBody(poll);
+      const pollErrors = [...expectStatus(poll, [200]), ...(polled.error ? [polled.error] : validateRun(polled.body, `poll ${attempt}`))];
+      if (pollErrors.length > 0) return pollErrors;
+      if (polled.body.run_id !== body.run_id) return [`poll ${attempt}.run_id is "${polled.body.run_id}", expected "${body.run_id}"`];
+      if (isSettled(polled.body.status)) return [];
+    }
+    return [`The run had not settled after ${POLL_ATTEMPTS} polls`];
+  }));
+
+  await check('run-stream', 'Stream run', 'POST /runs with mode stream answers text/event-stream; events are valid and in order', needsAgent(async () => {
+    const response = await createRun('stream');
+    if (!response.contentType.includes('text/event-stream')) {
+      return [`Content-Type is "${response.contentType || 'missing'}", expected text/event-stream`];
+    }
+    const errors = expectStatus(response, [200]);
+    let openMessage = false;
+    const events = response.events.map(data => JSON.parse(data));
+    events.forEach((event, index) => {
+      const path = `event ${index + 1}`;
+      errors.push(...validateEvent(event, path));
+      if (event.type === 'message.created') openMessage = true;
+      if (event.type === 'message.part' && !openMessage) errors.push(`${path} is a message.part outside a message`);
+      if (event.type === 'message.completed') openMessage = false;
+    });
+    if (events.length === 0) return [...errors, 'The stream had no events'];
+    if (events[0].type !== 'run.created') errors.push(`The first event is ${events[0].type}, expected run.created`);
+    const last = events[events.length - 1];
+    if (!last.run || !isSettled(last.run.status)) errors.push(`The stream ended on ${last.type}; it should end when the run settles or awaits`);
+    return errors;
+  }));
+
+  await check('run-events', 'Run event log', 'GET /runs/{id}/events returns { events: Event[] } for a known run', async () => {
+    if (!syncRun) return { skip: 'Needs the run from the sync check' };
+    const response = await client.send('GET', `runs/${encodeURIComponent(syncRun.run_id)}/events`);
+    const { body, error } = jsonBody(response);
+    const errors = expectStatus(response, [200]);
+    if (error) return [...errors, error];
+    if (!Array.isArray(body?.events)) return [...errors, 'body.events must be an array'];
+    body.events.forEach((event: unknown, index: number) => errors.push(...validateEvent(event, `body.events[${index}]`)));
+    return errors;
+  });
+
+  await check('run-not-found', 'Unknown run', 'GET /runs/{id} for an unknown run returns 404 with code not_found', async () =>
+    expectError(await client.send('GET', `runs/${crypto.randomUUID()}`), 404, 'not_found'));
+
+  await check('invalid-input', 'Malformed run request', 'POST /runs with a body that breaks the schema returns 400 with code invalid_input', needsAgent(async () =>
+    expectError(await client.send('POST', 'runs', JSON.stringify({ agent_name: agentName, input: 'not a message list' })), 400, 'invalid_input')));
+
+  await check('run-cancel', 'Cancel a run', 'POST /runs/{id}/cancel returns 202 with the run cancelling or cancelled', needsAgent(async () => {
+    const created = jsonBody(await createRun('async'));
+    if (created.error || !created.body?.run_id) return { skip: 'Could not start an async run to cancel' };
+    const response = await client.send('POST', `runs/${encodeURIComponent(created.body.run_id)}/cancel`);
+    const { body, error } = jsonBody(response);
+    if (error) return [...expectStatus(response, [202]), error];
+    // A run that finished before the cancel arrived may be refused
+    if (response.status === 400 && body?.code === 'invalid_input') return { skip: `The run finished before it could be cancelled: ${body.message}` };
+    const errors = [...expectStatus(response, [202]), ...validateRun(body, 'body')];
+    if (errors.length === 0 && body.status !== 'cancelling' && body.status !== 'cancelled') {
+      errors.push(`body.status is "${body.status}", expected cancelling or cancelled`);
+    }
+    return errors;
+  }));
+
+  const count = (status: ConformanceStatus) => checks.filter(entry => entry.status === status).length;
+  return { baseUrl, agentName, startedAt, checks, passed: count('pass'), failed: count('fail'), skipped: count('skip') };
+};
@@ -0,0 +1,46 @@
+export { createACPClient } from './client';
+export type { ACPClient, ACPClientOptions, ACPRawResponse } from './client';
+export { createACPServer } from './server';
+export type { ACPServer, ACPRunContext, MockACPAgentDefinition } from './server';
+export { createMockACPNetwork } from './network';
+export type { MockACPHost, MockACPNetwork } from './network';
+export { checkACPConformance } from './conformance';
+export type { ConformanceCheck, ConformanceOptions, ConformanceReport, ConformanceStatus } from './conformance';
+export { mockACPAgents, echoAgent, summarizerAgent, translatorAgent } from './agents';
+export {
+  ACPError,
+  RUN_STATUSES,
+  RUN_EVENT_TYPES,
+  TERMINAL_RUN_STATUSES,
+  acpSchemas,
+  acceptsContentType,
+  isTerminalStatus,
+  validateError,
+  validateEvent,
+  validateManifest,
+  validateMessage,
+  validateRun,
+  validateRunCreateRequest,
+  validateRunResumeRequest,
+  messageText,
+  textPart,
+  userMessage
+} from './protocol';
+export type {
+  ACPErrorBody,
+  ACPErrorCode,
+  ACPWireMessage,
+  AgentManifest,
+  AgentMetadata,
+  AwaitRequest,
+  AwaitResume,
+  Message,
+  MessagePart,
+  Run,
+  RunCreateRequest,
+  RunEvent,
+  RunEventType,
+  RunMode,
+  RunResumeRequest,
+  RunStatus
+} from './types';
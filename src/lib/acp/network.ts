@@ -0,0 +1,71 @@
+import { createACPServer, MockACPAgentDefinition } from './server';
+
+// Round trip added to every mock request so the exchange can be followed
+const NETWORK_DELAY_MS = 120;
+
+export interface MockACPHost {
+  name: string;
+  baseUrl: string;
+  description: string;
+}
+
+export interface MockACPNetwork {
+  hosts: MockACPHost[];
+  // Drop-in for window.fetch that only reaches the mock hosts
+  fetch: typeof fetch;
+}
+
+/**
+ * The mistakes a hand-rolled ACP server tends to make, applied to JSON responses of a
+ * conformant one: a bare agent list, a made-up run status and plain-text errors
+ */
+const legacyResponse = async (response: Response): Promise<Response> => {
+  if (!(response.headers.get('Content-Type') ?? '').includes('application/json')) return response;
+  const body = await response.json();
+  if (!response.ok) {
+    return new Response(body.message ?? 'Error', { status: response.status, headers: { 'Content-Type': 'text/plain' } });
+  }
+  const rewritten = Array.isArray(body.agents)
+    ? body.agents
+    : body.status === 'in-progress' ? { ...body, status: 'running' } : body;
+  return new Response(JSON.stringify(rewritten), { status: response.status, headers: { 'Content-Type': 'application/json' } });
+};
+
+/**
+ * Host the mock agents twice: on a server that follows the spec and on a legacy one
+ * with a few deviations, so the conformance checker has something to flag. Requests
+ * to any other host fail the way an unreachable server does in the browser.
+ */
+export const createMockACPNetwork = (definitions: MockACPAgentDefinition[]): MockACPNetwork => {
+  const hosts = [
+    {
+      name: 'Playground ACP server',
+      baseUrl: 'https://acp.agents.local',
+      description: 'Follows the ACP REST spec',
+      handle: createACPServer(definitions).handle
+    },
+    {
+      name: 'Legacy ACP server',
+      baseUrl: 'https://legacy-acp.agents.local',
+      description: 'Deviates from the spec in a few common ways',
+      handle: (() => {
+        const server = createACPServer(definitions);
+        return async (request: Request) => legacyResponse(await server.handle(request));
+      })()
+    }
+  ];
+
+  const mockFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const { origin } = new URL(request.url);
+    const host = hosts.find(entry => new URL(entry.baseUrl).origin === origin);
+    await new Promise(resolve => setTimeout(resolve, NETWORK_DELAY_MS));
+    if (!host) throw new TypeError(`Failed to fetch ${request.url}`);
+    return host.handle(request);
+  };
+
+  return {
+    hosts: hosts.map(({ name, baseUrl, description }) => ({ name, baseUrl, description })),
+    fetch: mockFetch as typeof fetch
+  };
+};
@@ -0,0 +1,273 @@
+import { validateArguments } from '../mcp/schema';
+import { JsonSchema } from '../mcp/types';
+import { ACPErrorBody, ACPErrorCode, Message, MessagePart, RunEventType, RunStatus } from './types';
+
+export const RUN_STATUSES: RunStatus[] = ['created', 'in-progress', 'awaiting', 'cancelling', 'cancelled', 'completed', 'failed'];
+
+export const TERMINAL_RUN_STATUSES: RunStatus[] = ['completed', 'cancelled', 'failed'];
+
+export const RUN_EVENT_TYPES: RunEventType[] = [
+  'run.created',
+  'run.in-progress',
+  'run.awaiting',
+  'run.completed',
+  'run.cancelled',
+  'run.failed',
+  'message.created',
+  'message.part',
+  'message.completed',
+  'generic',
+  'error'
+];
+
+// HTTP status each error code is sent with
+export const ACP_ERROR_STATUS: Record<ACPErrorCode, number> = {
+  invalid_input: 400,
+  not_found: 404,
+  server_error: 500
+};
+
+// Agent names double as URL path segments, so the spec keeps them to DNS-label characters
+export const AGENT_NAME_PATTERN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+
+export const isTerminalStatus = (status: RunStatus) => TERMINAL_RUN_STATUSES.includes(status);
+
+/**
+ * An ACP error response, thrown by the server's handlers and rejected by client calls
+ */
+export class ACPError extends Error {
+  code: ACPErrorCode;
+  status: number;
+  data?: unknown;
+
+  constructor(code: ACPErrorCode, message: string, data?: unknown) {
+    super(message);
+    this.name = 'ACPError';
+    this.code = code;
+    this.status = ACP_ERROR_STATUS[code] ?? 500;
+    this.data = data;
+  }
+
+  toBody(): ACPErrorBody {
+    return this.data === undefined
+      ? { code: this.code, message: this.message }
+      : { code: this.code, message: this.message, data: this.data };
+  }
+}
+
+const messagePartSchema: JsonSchema = {
+  type: 'object',
+  required: ['content_type'],
+  properties: {
+    name: { type: ['string', 'null'] },
+    content_type: { type: 'string' },
+    content: { type: ['string', 'null'] },
+    content_encoding: { type: ['string', 'null'], enum: ['plain', 'base64', null] },
+    content_url: { type: ['string', 'null'] },
+    metadata: { type: ['object', 'null'] }
+  }
+};
+
+const messageSchema: JsonSchema = {
+  type: 'object',
+  required: ['role', 'parts'],
+  properties: {
+    role: { type: 'string' },
+    parts: { type: 'array', items: messagePartSchema },
+    created_at: { type: ['string', 'null'] },
+    completed_at: { type: ['string', 'null'] }
+  }
+};
+
+const errorSchema: JsonSchema = {
+  type: 'object',
+  required: ['code', 'message'],
+  properties: {
+    code: { type: 'string', enum: ['server_error', 'invalid_input', 'not_found'] },
+    message: { type: 'string' }
+  }
+};
+
+const awaitSchema: JsonSchema = {
+  type: 'object',
+  required: ['type', 'message'],
+  properties: { type: { type: 'string', enum: ['message'] }, message: messageSchema }
+};
+
+/**
+ * JSON Schemas for every body ACP defines, in the subset validateArguments reads.
+ * Rules a schema can't express are checked by the validate* functions below.
+ */
+export const acpSchemas: Record<string, JsonSchema> = {
+  messagePart: messagePartSchema,
+  message: messageSchema,
+  error: errorSchema,
+  agentManifest: {
+    type: 'object',
+    required: ['name', 'description', 'input_content_types', 'output_content_types'],
+    properties: {
+      name: { type: 'string' },
+      description: { type: 'string' },
+      input_content_types: { type: 'array', items: { type: 'string' } },
+      output_content_types: { type: 'array', items: { type: 'string' } },
+      metadata: { type: ['object', 'null'] }
+    }
+  },
+  run: {
+    type: 'object',
+    required: ['agent_name', 'run_id', 'status', 'output', 'created_at'],
+    properties: {
+      agent_name: { type: 'string' },
+      session_id: { type: ['string', 'null'] },
+      run_id: { type: 'string' },
+      status: { type: 'string', enum: RUN_STATUSES },
+      await_request: { type: ['object', 'null'] },
+      output: { type: 'array', items: messageSchema },
+      error: { type: ['object', 'null'] },
+      created_at: { type: 'string' },
+      finished_at: { type: ['string', 'null'] }
+    }
+  },
+  runCreateRequest: {
+    type: 'object',
+    required: ['agent_name', 'input'],
+    properties: {
+      agent_name: { type: 'string' },
+      input: { type: 'array', items: messageSchema },
+      session_id: { type: ['string', 'null'] },
+      mode: { type: 'string', enum: ['sync', 'async', 'stream'] }
+    }
+  },
+  runResumeRequest: {
+    type: 'object',
+    required: ['run_id', 'await_resume'],
+    properties: {
+      run_id: { type: 'string' },
+      await_resume: awaitSchema,
+      mode: { type: 'string', enum: ['sync', 'async', 'stream'] }
+    }
+  },
+  event: {
+    type: 'object',
+    required: ['type'],
+    properties: { type: { type: 'string', enum: RUN_EVENT_TYPES } }
+  }
+};
+
+const validatePart = (part: MessagePart, path: string): string[] => {
+  const errors: string[] = [];
+  const hasContent = typeof part.content === 'string';
+  const hasUrl = typeof part.content_url === 'string';
+  if (hasContent === hasUrl) errors.push(`${path} needs exactly one of content and content_url`);
+  if (hasUrl && !/^[a-z][a-z0-9+.-]*:/i.test(part.content_url!)) errors.push(`${path}.content_url must be an absolute URL`);
+  return errors;
+};
+
+/**
+ * Schema checks plus the part and role rules of a message
+ */
+export const validateMessage = (value: unknown, path = 'message'): string[] => {
+  const errors = validateArguments(messageSchema, value, path);
+  if (errors.length > 0) return errors;
+  const message = value as Message;
+  if (!/^(user|agent)(\/[a-z0-9]([-a-z0-9]*[a-z0-9])?)?$/.test(message.role)) {
+    errors.push(`${path}.role must be "user", "agent" or "agent/{name}"`);
+  }
+  message.parts.forEach((part, index) => errors.push(...validatePart(part, `${path}.parts[${index}]`)));
+  return errors;
+};
+
+export const validateManifest = (value: unknown, path = 'manifest'): string[] => {
+  const errors = validateArguments(acpSchemas.agentManifest, value, path);
+  if (errors.length > 0) return errors;
+  const { name } = value as { name: string };
+  if (!AGENT_NAME_PATTERN.test(name)) errors.push(`${path}.name "${name}" must be lowercase letters, digits and dashes`);
+  return errors;
+};
+
+export const validateError = (value: unknown, path = 'error'): string[] => validateArguments(errorSchema, value, path);
+
+/**
+ * A run is valid when its fields match the schema and agree with its status: an
+ * awaiting run says what it waits for and a failed one says why
+ */
+export const validateRun = (value: unknown, path = 'run'): string[] => {
+  const errors = validateArguments(acpSchemas.run, value, path);
+  if (errors.length > 0) return errors;
+  const run = value as { status: RunStatus; output: unknown[]; await_request?: unknown; error?: unknown };
+  run.output.forEach((message, index) => errors.push(...validateMessage(message, `${path}.output[${index}]`)));
+  if (run.status === 'awaiting') {
+    if (!run.await_request) errors.push(`${path}.await_request is required while the run is awaiting`);
+    else errors.push(...validateArguments(awaitSchema, run.await_request, `${path}.await_request`));
+  }
+  if (run.status === 'failed') {
+    if (!run.error) errors.push(`${path}.error is required when the run failed`);
+    else errors.push(...validateError(run.error, `${path}.error`));
+  }
+  return errors;
+};
+
+export const validateEvent = (value: unknown, path = 'event'): string[] => {
+  const errors = validateArguments(acpSchemas.event, value, path);
+  if (errors.length > 0) return errors;
+  const event = value as Record<string, unknown> & { type: RunEventType };
+  const [scope] = event.type.split('.');
+  if (scope === 'run') {
+    const runErrors = event.run === undefined ? [`${path}.run is required`] : validateRun(event.run, `${path}.run`);
+    const status = (event.run as { status?: string } | undefined)?.status;
+    if (runErrors.length === 0 && status !== event.type.slice(4)) {
+      runErrors.push(`${path}.run.status is "${status}" in a ${event.type} event`);
+    }
+    return runErrors;
+  }
+  switch (event.type) {
+    case 'message.created':
+    case 'message.completed':
+      return event.message === undefined ? [`${path}.message is required`] : validateMessage(event.message, `${path}.message`);
+    case 'message.part':
+      if (event.part === undefined) return [`${path}.part is required`];
+      return [...validateArguments(messagePartSchema, event.part, `${path}.part`), ...validatePart(event.part as MessagePart, `${path}.part`)];
+    case 'error':
+      return event.error === undefined ? [`${path}.error is required`] : validateError(event.error, `${path}.error`);
+    default:
+      return validateArguments({ type: 'object' }, event.generic, `${path}.generic`);
+  }
+};
+
+// Schema errors first; the message rules only make sense once the shape is right
+const validateRequestBody = (schema: JsonSchema, body: unknown, path: string, messages: (body: any) => [string, unknown][]) => {
+  const errors = validateArguments(schema, body, path);
+  if (errors.length > 0) return errors;
+  return messages(body).flatMap(([messagePath, message]) => validateMessage(message, messagePath));
+};
+
+export const validateRunCreateRequest = (body: unknown, path = 'body'): string[] =>
+  validateRequestBody(acpSchemas.runCreateRequest, body, path, (request: { input: unknown[] }) =>
+    request.input.map((message, index): [string, unknown] => [`${path}.input[${index}]`, message]));
+
+export const validateRunResumeRequest = (body: unknown, path = 'body'): string[] =>
+  validateRequestBody(acpSchemas.runResumeRequest, body, path, (request: { await_resume: { message: unknown } }) =>
+    [[`${path}.await_resume.message`, request.await_resume.message]]);
+
+/**
+ * Whether a content type is covered by a manifest's list, which may use wildcards
+ * such as text/* or *\/*
+ */
+export const acceptsContentType = (accepted: string[], contentType: string) => {
+  const [type] = contentType.split(';')[0].trim().split('/');
+  return accepted.some(entry => entry === '*/*' || entry === contentType || entry === `${type}/*`);
+};
+
+export const textPart = (content: string): MessagePart => ({ content_type: 'text/plain', content, content_encoding: 'plain' });
+
+export const userMessage = (text: string): Message => ({ role: 'user', parts: [textPart(text)] });
+
+/**
+ * Text of every plain text part in the messages, joined with newlines
+ */
+export const messageText = (messages: Message | Message[] | undefined) =>
+  ([] as Message[]).concat(messages ?? [])
+    .flatMap(message => message.parts)
+    .filter(part => part.content_type.startsWith('text/') && typeof part.content === 'string' && part.content_encoding !== 'base64')
+    .map(part => part.content)
+    .join('\n');
@@ -0,0 +1,327 @@
+import {
+  ACPError,
+  acceptsContentType,
+  isTerminalStatus,
+  validateRunCreateRequest,
+  validateRunResumeRequest
+} from './protocol';
+import {
+  AgentManifest,
+  AwaitRequest,
+  AwaitResume,
+  Message,
+  MessagePart,
+  Run,
+  RunCreateRequest,
+  RunEvent,
+  RunMode,
+  RunResumeRequest,
+  RunStatus
+} from './types';
+
+/**
+ * What an agent's code can do during a run. The run ends completed when the code
+ * returns, failed when it throws and awaiting when it called awaitInput.
+ */
+export interface ACPRunContext {
+  run: Run;
+  // The messages the run was created with
+  input: Message[];
+  // The client's answer when the run resumes after awaitInput
+  resume?: AwaitResume;
+  signal: AbortSignal;
+  // Simulated work; rejects if the run is cancelled meanwhile
+  work: (ms: number) => Promise<void>;
+  // Send one output message, one message.part event per part with a pause between them
+  writeMessage: (parts: MessagePart[], partDelayMs?: number) => Promise<void>;
+  // Pause the run until the client resumes it; return right after calling it
+  awaitInput: (request: AwaitRequest) => void;
+}
+
+/**
+ * A mock agent: its manifest and the code that runs when a run is created or resumed
+ */
+export interface MockACPAgentDefinition {
+  manifest: AgentManifest;
+  run: (context: ACPRunContext) => Promise<void>;
+}
+
+interface RunRecord {
+  run: Run;
+  agent: MockACPAgentDefinition;
+  input: Message[];
+  events: RunEvent[];
+  listeners: Set<(event: RunEvent) => void>;
+  controller: AbortController;
+}
+
+export interface ACPServer {
+  manifests: AgentManifest[];
+  handle: (request: Request) => Promise<Response>;
+}
+
+const now = () => new Date().toISOString();
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Where a run's event stream ends: the run settled or is waiting for the client
+const isStreamEnd = (status: RunStatus) => isTerminalStatus(status) || status === 'awaiting';
+
+/**
+ * Serve mock agents under one base URL the way an ACP server does: /ping, /agents
+ * for discovery and /runs in sync, async and stream mode, with the spec's error bodies.
+ */
+export const createACPServer = (agents: MockACPAgentDefinition[]): ACPServer => {
+  const runs = new Map<string, RunRecord>();
+
+  const emit = (record: RunRecord, event: RunEvent) => {
+    const copy = clone(event);
+    record.events.push(copy);
+    record.listeners.forEach(listener => listener(clone(copy)));
+  };
+
+  const setStatus = (record: RunRecord, status: RunStatus) => {
+    record.run.status = status;
+    if (isTerminalStatus(status)) record.run.finished_at = now();
+    if (status !== 'awaiting') record.run.await_request = null;
+    if (status !== 'cancelling') emit(record, { type: `run.${status}` as 'run.created', run: record.run });
+  };
+
+  const findAgent = (name: string) => {
+    const agent = agents.find(entry => entry.manifest.name === name);
+    if (!agent) throw new ACPError('not_found', `Agent ${name} not found`);
+    return agent;
+  };
+
+  const findRun = (id: string) => {
+    const record = runs.get(id);
+    if (!record) throw new ACPError('not_found', `Run ${id} not found`);
+    return record;
+  };
+
+  const checkBody = (errors: string[]) => {
+    if (errors.length > 0) throw new ACPError('invalid_input', errors[0], { errors });
+  };
+
+  const assertAccepted = (agent: MockACPAgentDefinition, messages: Message[]) => {
+    const accepted = agent.manifest.input_content_types;
+    const unsupported = messages.flatMap(message => message.parts)
+      .map(part => part.content_type)
+      .filter(type => !acceptsContentType(accepted, type));
+    if (unsupported.length > 0) {
+      throw new ACPError('invalid_input', `${agent.manifest.name} does not accept ${unsupported.join(', ')}`, { accepted });
+    }
+  };
+
+  // Run the agent's code once; whatever happens, the run ends up settled or awaiting
+  const execute = async (record: RunRecord, resume?: AwaitResume) => {
+    const { signal } = record.controller;
+    const work = (ms: number) => new Promise<void>((resolve, reject) => {
+      if (signal.aborted) return reject(new Error('Run cancelled'));
+      const timer = setTimeout(resolve, ms);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('Run cancelled'));
+      }, { once: true });
+    });
+    let awaiting = false;
+    const context: ACPRunContext = {
+      run: record.run,
+      input: record.input,
+      resume,
+      signal,
+      work,
+      writeMessage: async (parts, partDelayMs = 0) => {
+        const message: Message = { role: `agent/${record.agent.manifest.name}`, parts: [], created_at: now() };
+        emit(record, { type: 'message.created', message });
+        for (const part of parts) {
+          if (partDelayMs > 0) await work(partDelayMs);
+          if (signal.aborted) throw new Error('Run cancelled');
+          message.parts.push(part);
+          emit(record, { type: 'message.part', part });
+        }
+        message.completed_at = now();
+        record.run.output.push(message);
+        emit(record, { type: 'message.completed', message });
+      },
+      awaitInput: (request) => {
+        if (signal.aborted) throw new Error('Run cancelled');
+        awaiting = true;
+        record.run.await_request = request;
+        setStatus(record, 'awaiting');
+      }
+    };
+    // Cancelled before the code got to start
+    if (signal.aborted) return;
+    try {
+      setStatus(record, 'in-progress');
+      await record.agent.run(context);
+      if (signal.aborted) setStatus(record, 'cancelled');
+      else if (!awaiting) setStatus(record, 'completed');
+    } catch (error) {
+      if (signal.aborted) {
+        setStatus(record, 'cancelled');
+        return;
+      }
+      console.warn(`${record.agent.manifest.name} failed run ${record.run.run_id}:`, error);
+      record.run.error = { code: 'server_error', message: error instanceof Error ? error.message : String(error) };
+      setStatus(record, 'failed');
+    }
+  };
+
+  // Resolves when the run next settles or awaits; call it before the run can move on
+  const settled = (record: RunRecord) => new Promise<void>(resolve => {
+    const listener = (event: RunEvent) => {
+      if ('run' in event && isStreamEnd(event.run.status)) {
+        record.listeners.delete(listener);
+        resolve();
+      }
+    };
+    record.listeners.add(listener);
+  });
+
+  const stream = (record: RunRecord, backlog: RunEvent[]) => {
+    const encoder = new TextEncoder();
+    let listener: ((event: RunEvent) => void) | undefined;
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const send = (event: RunEvent) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+          if ('run' in event && isStreamEnd(event.run.status)) {
+            if (listener) record.listeners.delete(listener);
+            controller.close();
+            return true;
+          }
+          return false;
+        };
+        if (backlog.some(send)) return;
+        listener = send;
+        record.listeners.add(listener);
+      },
+      cancel: () => {
+        if (listener) record.listeners.delete(listener);
+      }
+    });
+    return new Response(body, {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+    });
+  };
+
+  // Answer a created or resumed run the way its mode asks for; the code starts on the
+  // next tick so a stream opened now sees every event
+  const respond = async (record: RunRecord, mode: RunMode, backlog: RunEvent[], resume?: AwaitResume) => {
+    const done = mode === 'sync' ? settled(record) : undefined;
+    const response = mode === 'stream' ? stream(record, backlog) : undefined;
+    setTimeout(() => execute(record, resume), 0);
+    if (response) return response;
+    if (done) {
+      await done;
+      return json(record.run);
+    }
+    return json(record.run, 202);
+  };
+
+  const createRun = async (body: RunCreateRequest) => {
+    checkBody(validateRunCreateRequest(body));
+    const agent = findAgent(body.agent_name);
+    assertAccepted(agent, body.input);
+    const record: RunRecord = {
+      run: {
+        agent_name: agent.manifest.name,
+        session_id: body.session_id ?? crypto.randomUUID(),
+        run_id: crypto.randomUUID(),
+        status: 'created',
+        await_request: null,
+        output: [],
+        error: null,
+        created_at: now(),
+        finished_at: null
+      },
+      agent,
+      input: body.input,
+      events: [],
+      listeners: new Set(),
+      controller: new AbortController()
+    };
+    runs.set(record.run.run_id, record);
+    emit(record, { type: 'run.created', run: record.run });
+    return respond(record, body.mode ?? 'sync', record.events.slice());
+  };
+
+  const resumeRun = async (id: string, body: RunResumeRequest) => {
+    checkBody(validateRunResumeRequest(body));
+    const record = findRun(id);
+    if (body.run_id !== id) throw new ACPError('invalid_input', `body.run_id must be ${id}, the run in the path`);
+    if (record.run.status !== 'awaiting') {
+      throw new ACPError('invalid_input', `Run ${id} is ${record.run.status} and not awaiting input`, { status: record.run.status });
+    }
+    assertAccepted(record.agent, [body.await_resume.message]);
+    return respond(record, body.mode ?? 'sync', [], body.await_resume);
+  };
+
+  const cancelRun = (id: string) => {
+    const record = findRun(id);
+    const { status } = record.run;
+    if (isTerminalStatus(status) || status === 'cancelling') {
+      throw new ACPError('invalid_input', `Run ${id} is ${status} and cannot be cancelled`, { status });
+    }
+    if (status === 'awaiting' || status === 'created') {
+      record.controller.abort();
+      setStatus(record, 'cancelled');
+    } else {
+      // The agent's code notices the abort and the run moves on to cancelled
+      setStatus(record, 'cancelling');
+      record.controller.abort();
+    }
+    return json(record.run, 202);
+  };
+
+  const readBody = async (request: Request) => {
+    if (!(request.headers.get('Content-Type') ?? '').includes('application/json')) {
+      throw new ACPError('invalid_input', 'Content-Type must be application/json');
+    }
+    try {
+      return JSON.parse(await request.text());
+    } catch {
+      throw new ACPError('invalid_input', 'Request body is not valid JSON');
+    }
+  };
+
+  const route = async (request: Request): Promise<Response> => {
+    const { pathname } = new URL(request.url);
+    const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const { method } = request;
+    const [resource, id, action] = segments;
+
+    if (resource === 'ping' && segments.length === 1 && method === 'GET') return json({});
+    if (resource === 'agents' && method === 'GET') {
+      if (segments.length === 1) return json({ agents: agents.map(agent => agent.manifest) });
+      if (segments.length === 2) return json(findAgent(id).manifest);
+    }
+    if (resource === 'runs') {
+      if (segments.length === 1 && method === 'POST') return createRun(await readBody(request));
+      if (segments.length === 2 && method === 'GET') return json(findRun(id).run);
+      if (segments.length === 2 && method === 'POST') return resumeRun(id, await readBody(request));
+      if (segments.length === 3 && action === 'cancel' && method === 'POST') return cancelRun(id);
+      if (segments.length === 3 && action === 'events' && method === 'GET') return json({ events: findRun(id).events });
+    }
+    throw new ACPError('not_found', `No route for ${method} ${pathname}`);
+  };
+
+  return {
+    manifests: agents.map(agent => agent.manifest),
+    handle: async (request) => {
+      try {
+        return await route(request);
+      } catch (error) {
+        if (error instanceof ACPError) return json(error.toBody(), error.status);
+        console.error(`ACP server failed to handle ${request.method} ${request.url}:`, error);
+        return json({ code: 'server_error', message: error instanceof Error ? error.message : 'Internal error' }, 500);
+      }
+    }
+  };
+};
@@ -0,0 +1,126 @@
+/**
+ * Agent Communication Protocol types, following the REST flavour of the spec:
+ * agent discovery under /agents and runs under /runs in sync, async or stream mode
+ */
+
+export interface MessagePart {
+  name?: string;
+  content_type: string;
+  // Exactly one of content and content_url is set
+  content?: string;
+  content_encoding?: 'plain' | 'base64';
+  content_url?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface Message {
+  // 'user', 'agent' or 'agent/{name}' for a named agent
+  role: string;
+  parts: MessagePart[];
+  created_at?: string;
+  completed_at?: string;
+}
+
+export interface AgentMetadata {
+  documentation?: string;
+  framework?: string;
+  programming_language?: string;
+  natural_languages?: string[];
+  license?: string;
+  domains?: string[];
+  tags?: string[];
+  capabilities?: { name: string; description: string }[];
+  author?: { name: string; email?: string };
+  recommended_models?: string[];
+}
+
+/**
+ * What GET /agents and GET /agents/{name} return about an agent
+ */
+export interface AgentManifest {
+  name: string;
+  description: string;
+  input_content_types: string[];
+  output_content_types: string[];
+  metadata?: AgentMetadata;
+}
+
+export type RunMode = 'sync' | 'async' | 'stream';
+
+export type RunStatus =
+  | 'created'
+  | 'in-progress'
+  | 'awaiting'
+  | 'cancelling'
+  | 'cancelled'
+  | 'completed'
+  | 'failed';
+
+export type ACPErrorCode = 'server_error' | 'invalid_input' | 'not_found';
+
+export interface ACPErrorBody {
+  code: ACPErrorCode;
+  message: string;
+  data?: unknown;
+}
+
+// What an awaiting run asks for, and what the client answers with
+export interface AwaitRequest {
+  type: 'message';
+  message: Message;
+}
+
+export interface AwaitResume {
+  type: 'message';
+  message: Message;
+}
+
+export interface Run {
+  agent_name: string;
+  session_id?: string;
+  run_id: string;
+  status: RunStatus;
+  await_request?: AwaitRequest | null;
+  output: Message[];
+  error?: ACPErrorBody | null;
+  created_at: string;
+  finished_at?: string | null;
+}
+
+export interface RunCreateRequest {
+  agent_name: string;
+  input: Message[];
+  session_id?: string;
+  mode?: RunMode;
+}
+
+export interface RunResumeRequest {
+  run_id: string;
+  await_resume: AwaitResume;
+  mode?: RunMode;
+}
+
+export type RunEvent =
+  | { type: 'run.created' | 'run.in-progress' | 'run.awaiting' | 'run.completed' | 'run.cancelled' | 'run.failed'; run: Run }
+  | { type: 'message.created' | 'message.completed'; message: Message }
+  | { type: 'message.part'; part: MessagePart }
+  | { type: 'generic'; generic: Record<string, unknown> }
+  | { type: 'error'; error: ACPErrorBody };
+
+export type RunEventType = RunEvent['type'];
+
+/**
+ * One HTTP exchange or stream event as seen by the client
+ */
+export interface ACPWireMessage {
+  seq: number;
+  direction: 'outgoing' | 'incoming';
+  kind: 'request' | 'response' | 'event';
+  summary: string;
+  text: string;
+  timestamp: number;
+  // Shared by a request, its response and the stream events that came with it
+  exchange: number;
+  // Request line of the exchange; incoming frames add the response status
+  http: { method: string; url: string; status?: number; contentType?: string };
+}
@@ -0,0 +1,23 @@
+import { Extension } from '@codemirror/state';
+import { javascript } from '@codemirror/lang-javascript';
+import { python } from '@codemirror/lang-python';
+import { linter, lintGutter } from '@codemirror/lint';
+import { CodeVariantLanguage } from '@/lib/data/codeVariants';
+import { checkSyntax } from './syntax';
+
+export const languageExtension = (language: CodeVariantLanguage): Extension =>
+  language === 'python' ? python() : javascript({ typescript: true });
+
+/**
+ * Underline syntax errors as the user types
+ */
+export const syntaxLinter = (language: CodeVariantLanguage): Extension[] => [
+  linter(
+    async view => {
+      const issues = await checkSyntax(view.state.doc.toString(), language);
+      return issues.map(issue => ({ from: issue.from, to: issue.to, severity: 'error' as const, message: issue.message }));
+    },
+    { delay: 500 }
+  ),
+  lintGutter()
+];
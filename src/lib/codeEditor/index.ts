@@ -0,0 +1,3 @@
+export { checkSyntax } from './syntax';
+export type { SyntaxIssue } from './syntax';
+export { languageExtension, syntaxLinter } from './extensions';
@@ -0,0 +1,59 @@
+import { pythonLanguage } from '@codemirror/lang-python';
+import { CodeVariantLanguage } from '@/lib/data/codeVariants';
+
+export interface SyntaxIssue {
+  // Character offsets into the checked code
+  from: number;
+  to: number;
+  // 0-based line of `from`
+  line: number;
+  message: string;
+}
+
+const MAX_ISSUES = 50;
+
+const lineAt = (code: string, offset: number) => code.slice(0, offset).split('\n').length - 1;
+
+// The compiler is large, so it is only fetched the first time TypeScript is checked
+const checkTypeScript = async (code: string): Promise<SyntaxIssue[]> => {
+  const ts = await import('typescript');
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: 'pattern.ts',
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.ES2020 }
+  });
+  return diagnostics.slice(0, MAX_ISSUES).map(diagnostic => {
+    const from = Math.min(diagnostic.start ?? 0, code.length);
+    return {
+      from,
+      to: Math.min(from + (diagnostic.length ?? 0), code.length),
+      line: lineAt(code, from),
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+    };
+  });
+};
+
+// The Lezer grammar recovers from errors by inserting error nodes, which mark where parsing failed
+const checkPython = (code: string): SyntaxIssue[] => {
+  const issues: SyntaxIssue[] = [];
+  pythonLanguage.parser.parse(code).iterate({
+    enter: node => {
+      if (!node.type.isError || issues.length >= MAX_ISSUES) return;
+      const near = code.slice(node.from, Math.max(node.to, node.from + 1)).split('\n')[0].trim();
+      issues.push({
+        from: node.from,
+        to: node.to,
+        line: lineAt(code, node.from),
+        message: near ? `Invalid syntax near "${near.slice(0, 30)}"` : 'Invalid syntax at the end of this line'
+      });
+    }
+  });
+  return issues;
+};
+
+/**
+ * Parse-level errors only: unresolved names and type errors aren't reported,
+ * since the examples reference SDKs that aren't available here
+ */
+export const checkSyntax = async (code: string, language: CodeVariantLanguage): Promise<SyntaxIssue[]> =>
+  language === 'python' ? checkPython(code) : checkTypeScript(code);
@@ -0,0 +1,267 @@
+import { PatternData, PatternEdge, PatternNode } from '../data/patterns';
+import { analyzePatternGraph, simulatePattern, SimulationGraph } from '../simulation';
+import { ComposedGraph, ComposedNode, CompositionGroup, PatternComposition } from './types';
+
+export const COMPOSITION_PATH_SEPARATOR = '/';
+// Sub-agents nested deeper than this are hard to follow on screen
+export const MAX_COMPOSITION_DEPTH = 3;
+
+const BOUNDARY_NODE_TYPES = ['input', 'output'];
+
+/**
+ * Input and output nodes are a pattern's boundary; every other node can host a sub-agent
+ */
+export const isPluggableNode = (node: PatternNode): boolean =>
+  !BOUNDARY_NODE_TYPES.includes(node.data?.nodeType ?? '');
+
+export const createComposition = (patternId: string): PatternComposition => ({ patternId, slots: {} });
+
+/**
+ * Plug a sub-agent into the node at `path` (host node ids from the root), or unplug it with null
+ */
+export const setCompositionSlot = (
+  composition: PatternComposition,
+  path: string[],
+  sub: PatternComposition | null
+): PatternComposition => {
+  const [hostNodeId, ...rest] = path;
+  if (hostNodeId === undefined) return sub ?? composition;
+  const slots = { ...composition.slots };
+  if (rest.length > 0) {
+    if (!slots[hostNodeId]) return composition;
+    slots[hostNodeId] = setCompositionSlot(slots[hostNodeId], rest, sub);
+  } else if (sub) {
+    slots[hostNodeId] = sub;
+  } else {
+    delete slots[hostNodeId];
+  }
+  return { ...composition, slots };
+};
+
+/**
+ * The example from the pattern docs: a router whose branches are a ReAct agent and an Agentic RAG agent
+ */
+export const exampleComposition: PatternComposition = {
+  patternId: 'routing',
+  slots: {
+    specialist1: createComposition('react-agent'),
+    specialist2: createComposition('agentic-rag')
+  }
+};
+
+interface FlatGraph {
+  nodes: ComposedNode[];
+  edges: PatternEdge[];
+}
+
+interface FlattenContext {
+  patterns: Map<string, PatternData>;
+  collapsed: Set<string>;
+  groups: CompositionGroup[];
+  nodeDurations: Record<string, number>;
+  warnings: string[];
+}
+
+const unique = (ids: string[]) => [...new Set(ids)];
+
+// Time a graph takes from its first node to its last, used as the duration of a collapsed sub-agent
+const runDuration = (graph: FlatGraph, nodeDurations: Record<string, number>): number => {
+  const events = simulatePattern(graph, { nodeDurations });
+  return events[events.length - 1]?.time ?? 0;
+};
+
+/**
+ * Drop the input and output nodes of an expanded sub-agent. Messages that entered the
+ * host node go to the nodes after the sub-agent's input, and messages that left the host
+ * node leave from the nodes that fed its output.
+ */
+const removeBoundary = (graph: FlatGraph, groupId: string) => {
+  const boundaryIds = (nodeType: string) => new Set(graph.nodes
+    .filter(node => node.groupId === groupId && node.data.nodeType === nodeType)
+    .map(node => node.id));
+  const inputIds = boundaryIds('input');
+  const outputIds = boundaryIds('output');
+  const isBoundary = (id: string) => inputIds.has(id) || outputIds.has(id);
+
+  const nodes = graph.nodes.filter(node => !isBoundary(node.id));
+  if (nodes.length === 0) return null;
+  const edges = graph.edges.filter(edge => !isBoundary(edge.source) && !isBoundary(edge.target));
+
+  // Without boundary nodes, the sub-agent starts at nodes nothing points to and ends at dead ends
+  let entries = inputIds.size > 0
+    ? graph.edges.filter(edge => inputIds.has(edge.source) && !isBoundary(edge.target)).map(edge => edge.target)
+    : nodes.filter(node => !edges.some(edge => edge.target === node.id)).map(node => node.id);
+  if (entries.length === 0) entries = [nodes[0].id];
+  const exits = outputIds.size > 0
+    ? graph.edges.filter(edge => outputIds.has(edge.target) && !isBoundary(edge.source)).map(edge => edge.source)
+    : nodes.filter(node => !edges.some(edge => edge.source === node.id)).map(node => node.id);
+
+  return { nodes, edges, entries: unique(entries), exits: unique(exits) };
+};
+
+const flatten = (
+  composition: PatternComposition,
+  pattern: PatternData,
+  groupId: string,
+  depth: number,
+  context: FlattenContext
+): FlatGraph => {
+  const prefixed = (id: string) => (groupId ? `${groupId}${COMPOSITION_PATH_SEPARATOR}${id}` : id);
+  const nodes: ComposedNode[] = [];
+  const edges: PatternEdge[] = [];
+  // Host node id -> composed node ids its incoming and outgoing edges attach to
+  const entries = new Map<string, string[]>();
+  const exits = new Map<string, string[]>();
+
+  pattern.nodes.forEach(node => {
+    const id = prefixed(node.id);
+    const slot = composition.slots[node.id];
+    const subPattern = slot ? context.patterns.get(slot.patternId) : undefined;
+    if (slot && !subPattern) {
+      context.warnings.push(`"${node.data.label}" uses unknown pattern "${slot.patternId}"`);
+    }
+    if (!slot || !subPattern || !isPluggableNode(node)) {
+      nodes.push({ ...node, id, groupId });
+      return;
+    }
+
+    const group: CompositionGroup = {
+      id,
+      parentId: groupId,
+      hostNodeId: node.id,
+      label: node.data.label,
+      pattern: subPattern,
+      depth,
+      expanded: !context.collapsed.has(id),
+      nodeIds: []
+    };
+    context.groups.push(group);
+
+    const inner = flatten(slot, subPattern, id, depth + 1, context);
+    const expanded = group.expanded ? removeBoundary(inner, id) : null;
+    if (expanded) {
+      nodes.push(...expanded.nodes);
+      edges.push(...expanded.edges);
+      entries.set(node.id, expanded.entries);
+      exits.set(node.id, expanded.exits);
+    } else {
+      if (group.expanded) {
+        context.warnings.push(`"${subPattern.name}" has no nodes besides its input and output`);
+        group.expanded = false;
+      }
+      nodes.push({
+        ...node,
+        id,
+        groupId,
+        collapsedGroupId: id,
+        data: { ...node.data, label: `${node.data.label}: ${subPattern.name}` }
+      });
+      context.nodeDurations[id] = runDuration(inner, context.nodeDurations);
+    }
+  });
+
+  pattern.edges.forEach(edge => {
+    const sources = exits.get(edge.source) ?? [prefixed(edge.source)];
+    const targets = entries.get(edge.target) ?? [prefixed(edge.target)];
+    const pairs = sources.flatMap(source => targets.map(target => [source, target]));
+    pairs.forEach(([source, target], index) => {
+      edges.push({
+        ...edge,
+        id: pairs.length === 1 ? prefixed(edge.id) : `${prefixed(edge.id)}~${index + 1}`,
+        source,
+        target
+      });
+    });
+  });
+
+  return { nodes, edges };
+};
+
+/**
+ * Flatten a composition into one graph. Expanded sub-agents are inlined with their node
+ * ids prefixed by the host node path; collapsed ones stay a single node whose simulated
+ * duration is the time the sub-agent takes on its own.
+ */
+export const composePatterns = (
+  composition: PatternComposition,
+  patterns: PatternData[],
+  collapsed: Set<string> = new Set()
+): ComposedGraph => {
+  const context: FlattenContext = {
+    patterns: new Map(patterns.map(pattern => [pattern.id, pattern])),
+    collapsed,
+    groups: [],
+    nodeDurations: {},
+    warnings: []
+  };
+  const root = context.patterns.get(composition.patternId);
+  if (!root) {
+    return { nodes: [], edges: [], groups: [], nodeDurations: {}, warnings: [`Unknown pattern "${composition.patternId}"`] };
+  }
+
+  const { nodes, edges } = flatten(composition, root, '', 1, context);
+  context.groups.forEach(group => {
+    group.nodeIds = nodes
+      .filter(node => node.groupId === group.id || node.groupId.startsWith(`${group.id}${COMPOSITION_PATH_SEPARATOR}`))
+      .map(node => node.id);
+  });
+
+  return {
+    nodes,
+    edges,
+    groups: context.groups,
+    nodeDurations: context.nodeDurations,
+    warnings: context.warnings
+  };
+};
+
+/**
+ * Left-to-right layered layout: each node sits one column after the furthest node that
+ * feeds it, ignoring loop back edges. Nodes of the same sub-agent stay next to each other
+ * within a column because flattening keeps them together. Returns top-left positions.
+ */
+export const layoutComposedGraph = (
+  graph: SimulationGraph,
+  spacing = { x: 220, y: 110 }
+): Record<string, { x: number; y: number }> => {
+  const analysis = analyzePatternGraph(graph);
+  const nodeIds = graph.nodes.map(node => node.id);
+  const forwardEdges = graph.edges.filter(edge =>
+    !analysis.backEdgeIds.has(edge.id) && nodeIds.includes(edge.source) && nodeIds.includes(edge.target)
+  );
+
+  const inDegree = new Map<string, number>(nodeIds.map(id => [id, 0]));
+  forwardEdges.forEach(edge => inDegree.set(edge.target, inDegree.get(edge.target)! + 1));
+  const columns = new Map<string, number>(nodeIds.map(id => [id, 0]));
+  const queue = nodeIds.filter(id => inDegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    forwardEdges.filter(edge => edge.source === id).forEach(edge => {
+      columns.set(edge.target, Math.max(columns.get(edge.target)!, columns.get(id)! + 1));
+      inDegree.set(edge.target, inDegree.get(edge.target)! - 1);
+      if (inDegree.get(edge.target) === 0) queue.push(edge.target);
+    });
+  }
+  // Outputs line up in the last column however long the branch before them is
+  const lastColumn = Math.max(0, ...columns.values());
+  graph.nodes
+    .filter(node => node.data?.nodeType === 'output')
+    .forEach(node => columns.set(node.id, lastColumn));
+
+  const byColumn = new Map<number, string[]>();
+  nodeIds.forEach(id => {
+    const column = columns.get(id)!;
+    byColumn.set(column, [...(byColumn.get(column) ?? []), id]);
+  });
+  const tallest = Math.max(0, ...[...byColumn.values()].map(ids => ids.length));
+
+  const positions: Record<string, { x: number; y: number }> = {};
+  byColumn.forEach((ids, column) => {
+    // Shorter columns are centred against the tallest one
+    const offset = (tallest - ids.length) / 2;
+    ids.forEach((id, row) => {
+      positions[id] = { x: column * spacing.x, y: (row + offset) * spacing.y };
+    });
+  });
+  return positions;
+};
@@ -0,0 +1,11 @@
+export {
+  composePatterns,
+  layoutComposedGraph,
+  setCompositionSlot,
+  createComposition,
+  isPluggableNode,
+  exampleComposition,
+  COMPOSITION_PATH_SEPARATOR,
+  MAX_COMPOSITION_DEPTH
+} from './compose';
+export type { PatternComposition, ComposedGraph, ComposedNode, CompositionGroup } from './types';
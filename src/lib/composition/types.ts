@@ -0,0 +1,48 @@
+import { PatternData, PatternEdge, PatternNode } from '../data/patterns';
+
+/**
+ * A pattern with sub-agents plugged into some of its nodes. Sub-agents can be
+ * compositions themselves, so a tree of these describes a compound agent graph.
+ */
+export interface PatternComposition {
+  patternId: string;
+  // Host node id -> sub-agent that replaces the node
+  slots: Record<string, PatternComposition>;
+}
+
+export interface ComposedNode extends PatternNode {
+  // Group the node belongs to; '' for nodes of the root pattern
+  groupId: string;
+  // Set when the node stands in for a collapsed sub-agent
+  collapsedGroupId?: string;
+}
+
+/**
+ * A sub-agent plugged into a host node. The id is the path of host node ids
+ * from the root, e.g. `specialist1/llm1` for a sub-agent nested two levels deep.
+ */
+export interface CompositionGroup {
+  id: string;
+  parentId: string;
+  hostNodeId: string;
+  // Label of the host node the sub-agent replaces
+  label: string;
+  pattern: PatternData;
+  depth: number;
+  expanded: boolean;
+  // Composed node ids inside the group, nested groups included
+  nodeIds: string[];
+}
+
+/**
+ * A composition flattened into a single graph the simulation engine can run
+ */
+export interface ComposedGraph {
+  nodes: ComposedNode[];
+  edges: PatternEdge[];
+  groups: CompositionGroup[];
+  // Processing time of collapsed sub-agents, taken from simulating them on their own
+  nodeDurations: Record<string, number>;
+  // Slots that could not be expanded, e.g. because the pattern no longer exists
+  warnings: string[];
+}
@@ -0,0 +1,22 @@
+export {
+  contentPackSchema,
+  patternDataSchema,
+  conceptContentSchema,
+  quizQuestionSchema,
+  quizCategorySchema,
+  referenceCategorySchema,
+  azureAIServiceSchema,
+  CONTENT_PACK_FORMAT_VERSION
+} from './schemas';
+export type { ContentPack } from './schemas';
+export {
+  parseContentPack,
+  loadBundledContentPacks,
+  loadUserContentPacks,
+  saveUserContentPacks,
+  CONTENT_PACKS_BASE_URL,
+  USER_CONTENT_PACKS_STORAGE_KEY
+} from './loader';
+export type { LoadedContentPack, ContentPackError, ContentPackLoadResult, ContentPackSource } from './loader';
+export { mergeContentPacks } from './merge';
+export type { MergedContent } from './merge';
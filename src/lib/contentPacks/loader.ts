@@ -0,0 +1,121 @@
+import { parse as parseYaml } from 'yaml';
+import { ContentPack, contentPackSchema } from './schemas';
+
+export type ContentPackSource = 'bundled' | 'file';
+
+export interface LoadedContentPack {
+  pack: ContentPack;
+  source: ContentPackSource;
+  fileName: string;
+}
+
+export interface ContentPackError {
+  fileName: string;
+  errors: string[];
+}
+
+export interface ContentPackLoadResult {
+  packs: LoadedContentPack[];
+  errors: ContentPackError[];
+}
+
+// Packs shipped with the site live in public/content-packs and are listed in its index.json
+export const CONTENT_PACKS_BASE_URL = `${import.meta.env.BASE_URL}content-packs/`;
+
+export const USER_CONTENT_PACKS_STORAGE_KEY = 'user-content-packs';
+
+const isYamlFile = (fileName: string) => /\.ya?ml$/i.test(fileName);
+
+/**
+ * Parse pack text as JSON or YAML (chosen by file extension) and validate it
+ */
+export const parseContentPack = (text: string, fileName: string): { pack: ContentPack | null; errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = isYamlFile(fileName) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    return {
+      pack: null,
+      errors: [`Could not parse ${isYamlFile(fileName) ? 'YAML' : 'JSON'}: ${error instanceof Error ? error.message : 'unknown error'}`]
+    };
+  }
+
+  const result = contentPackSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      pack: null,
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    };
+  }
+  return { pack: result.data as ContentPack, errors: [] };
+};
+
+/**
+ * Load every pack listed in public/content-packs/index.json; a missing index means no packs
+ */
+export const loadBundledContentPacks = async (): Promise<ContentPackLoadResult> => {
+  const result: ContentPackLoadResult = { packs: [], errors: [] };
+
+  let fileNames: string[] = [];
+  try {
+    const response = await fetch(`${CONTENT_PACKS_BASE_URL}index.json`);
+    if (!response.ok) return result;
+    const index = await response.json();
+    fileNames = Array.isArray(index?.packs) ? index.packs.filter((name: unknown) => typeof name === 'string') : [];
+  } catch (error) {
+    console.warn('Content pack index could not be read:', error);
+    return result;
+  }
+
+  await Promise.all(fileNames.map(async fileName => {
+    try {
+      const response = await fetch(`${CONTENT_PACKS_BASE_URL}${fileName}`);
+      if (!response.ok) {
+        result.errors.push({ fileName, errors: [`Request failed with ${response.status}`] });
+        return;
+      }
+      const { pack, errors } = parseContentPack(await response.text(), fileName);
+      if (pack) result.packs.push({ pack, source: 'bundled', fileName });
+      else result.errors.push({ fileName, errors });
+    } catch (error) {
+      result.errors.push({ fileName, errors: [error instanceof Error ? error.message : 'Failed to load'] });
+    }
+  }));
+
+  // Keep the order of the index so later packs predictably override earlier ones
+  result.packs.sort((a, b) => fileNames.indexOf(a.fileName) - fileNames.indexOf(b.fileName));
+  return result;
+};
+
+/**
+ * Packs the user added from a file, kept in this browser
+ */
+export const loadUserContentPacks = (): LoadedContentPack[] => {
+  try {
+    const stored = localStorage.getItem(USER_CONTENT_PACKS_STORAGE_KEY);
+    if (!stored) return [];
+    const entries: { fileName: string; pack: unknown }[] = JSON.parse(stored);
+    return entries.flatMap(entry => {
+      const result = contentPackSchema.safeParse(entry.pack);
+      if (!result.success) {
+        console.warn(`Dropping stored content pack ${entry.fileName}: no longer valid`);
+        return [];
+      }
+      return [{ pack: result.data as ContentPack, source: 'file' as const, fileName: entry.fileName }];
+    });
+  } catch (error) {
+    console.warn('Failed to load stored content packs:', error);
+    return [];
+  }
+};
+
+export const saveUserContentPacks = (packs: LoadedContentPack[]) => {
+  try {
+    localStorage.setItem(
+      USER_CONTENT_PACKS_STORAGE_KEY,
+      JSON.stringify(packs.map(({ fileName, pack }) => ({ fileName, pack })))
+    );
+  } catch (error) {
+    console.warn('Failed to save content packs:', error);
+  }
+};
@@ -0,0 +1,88 @@
+import { agentPatterns, PatternData } from '../data/patterns';
+import { conceptContents, ConceptContent } from '../data/conceptContent';
+import { quizCategories, QuizCategory, QuizSubCategory } from '../data/quizzes';
+import { references, ReferencesData, ReferenceCategory } from '../data/references';
+import { azureAIServices, AzureAIService } from '../data/azureAiServices';
+import { LoadedContentPack } from './loader';
+
+export interface MergedContent {
+  patterns: PatternData[];
+  concepts: ConceptContent[];
+  quizCategories: QuizCategory[];
+  references: ReferencesData;
+  azureServices: AzureAIService[];
+}
+
+// Later items replace earlier ones with the same id; new ids are appended in order
+const mergeById = <T extends { id: string }>(base: T[], additions: T[], combine: (existing: T, added: T) => T = (_, added) => added): T[] => {
+  const merged = [...base];
+  additions.forEach(item => {
+    const index = merged.findIndex(existing => existing.id === item.id);
+    if (index >= 0) merged[index] = combine(merged[index], item);
+    else merged.push(item);
+  });
+  return merged;
+};
+
+// A pack category with a built-in id extends it: its sub-categories are merged, not replaced
+const mergeQuizCategory = (existing: QuizCategory, added: QuizCategory): QuizCategory => {
+  const subCategories = mergeById<QuizSubCategory>(existing.subCategories, added.subCategories);
+  const totalQuestions = subCategories.reduce((sum, subCategory) => sum + subCategory.questions.length, 0);
+  return {
+    ...existing,
+    ...added,
+    subCategories,
+    totalQuestions,
+    estimatedTime: added.estimatedTime || existing.estimatedTime
+  };
+};
+
+const withQuestionCount = (category: QuizCategory): QuizCategory => ({
+  ...category,
+  totalQuestions: category.totalQuestions ||
+    category.subCategories.reduce((sum, subCategory) => sum + subCategory.questions.length, 0)
+});
+
+const mergeReferenceSection = (
+  base: Record<string, ReferenceCategory[]>,
+  added: Record<string, ReferenceCategory[]> = {}
+): Record<string, ReferenceCategory[]> => {
+  const merged = { ...base };
+  Object.entries(added).forEach(([itemId, categories]) => {
+    merged[itemId] = mergeById(merged[itemId] ?? [], categories, (existing, extra) => ({
+      ...existing,
+      references: [
+        ...existing.references,
+        ...extra.references.filter(reference => !existing.references.some(r => r.url === reference.url))
+      ]
+    }));
+  });
+  return merged;
+};
+
+/**
+ * Combine the built-in content with every loaded pack, in order
+ */
+export const mergeContentPacks = (packs: LoadedContentPack[]): MergedContent => {
+  return packs.reduce<MergedContent>((merged, { pack }) => ({
+    patterns: mergeById(merged.patterns, pack.content.patterns ?? []),
+    concepts: mergeById(merged.concepts, pack.content.concepts ?? []),
+    quizCategories: mergeById(
+      merged.quizCategories,
+      (pack.content.quizCategories ?? []).map(withQuestionCount),
+      mergeQuizCategory
+    ),
+    references: {
+      concepts: mergeReferenceSection(merged.references.concepts, pack.content.references?.concepts),
+      patterns: mergeReferenceSection(merged.references.patterns, pack.content.references?.patterns),
+      azureServices: mergeReferenceSection(merged.references.azureServices, pack.content.references?.azureServices)
+    },
+    azureServices: mergeById(merged.azureServices, pack.content.azureServices ?? [])
+  }), {
+    patterns: agentPatterns,
+    concepts: conceptContents,
+    quizCategories,
+    references,
+    azureServices: azureAIServices
+  });
+};
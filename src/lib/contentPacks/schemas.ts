@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { PatternData } from '../data/patterns';
+import { ConceptContent } from '../data/conceptContent';
+import { QuizCategory } from '../data/quizzes';
+import { ReferencesData } from '../data/references';
+import { AzureAIService } from '../data/azureAiServices';
+import { patternNodeTypes } from '../data/customPatterns';
+
+// Schemas mirror the interfaces in src/lib/data; keep them in step when those change.
+// Defaults fill in fields that packs may reasonably omit.
+
+type PatternNodeType = typeof patternNodeTypes[number];
+
+const difficultySchema = z.enum(['beginner', 'intermediate', 'advanced']);
+
+export const patternDataSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  category: z.string().optional(),
+  nodes: z.array(z.object({
+    id: z.string().min(1),
+    type: z.string().default('default'),
+    data: z.object({
+      label: z.string(),
+      description: z.string().optional(),
+      nodeType: z.enum(patternNodeTypes as [PatternNodeType, ...PatternNodeType[]]).optional()
+    }),
+    position: z.object({ x: z.number(), y: z.number() })
+  })).min(1),
+  edges: z.array(z.object({
+    id: z.string().min(1),
+    source: z.string(),
+    target: z.string(),
+    type: z.string().optional(),
+    label: z.string().optional(),
+    animated: z.boolean().optional(),
+    style: z.object({
+      stroke: z.string().optional(),
+      strokeWidth: z.number().optional(),
+      strokeDasharray: z.string().optional()
+    }).optional()
+  })),
+  useCases: z.array(z.string()),
+  codeExample: z.string().default(''),
+  pythonCodeExample: z.string().optional(),
+  implementation: z.array(z.string()),
+  whenToUse: z.string().optional(),
+  advantages: z.array(z.string()).optional()
+}).superRefine((pattern, ctx) => {
+  const nodeIds = new Set(pattern.nodes.map(node => node.id));
+  pattern.edges.forEach((edge, index) => {
+    [edge.source, edge.target].filter(end => !nodeIds.has(end)).forEach(end => {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['edges', index],
+        message: `Edge "${edge.id}" references unknown node "${end}"`
+      });
+    });
+  });
+});
+
+export const conceptContentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  keyFeatures: z.array(z.string()),
+  applicationAreas: z.array(z.string()),
+  technicalDetails: z.string(),
+  implementationConsiderations: z.array(z.string()),
+  examples: z.array(z.object({
+    title: z.string(),
+    description: z.string(),
+    codeSnippet: z.string().optional()
+  }))
+});
+
+export const quizQuestionSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['single-choice', 'multi-select', 'ordering', 'code-completion', 'hotspot']).optional(),
+  question: z.string().min(1),
+  options: z.array(z.string()).default([]),
+  correctAnswer: z.number().int().nonnegative().optional(),
+  correctAnswers: z.array(z.number().int().nonnegative()).optional(),
+  codeTemplate: z.string().optional(),
+  blanks: z.array(z.object({
+    id: z.string().min(1),
+    acceptedAnswers: z.array(z.string()).min(1),
+    tolerance: z.number().nonnegative().optional(),
+    hint: z.string().optional()
+  })).optional(),
+  patternId: z.string().optional(),
+  correctNodeIds: z.array(z.string()).optional(),
+  explanation: z.string(),
+  difficulty: difficultySchema,
+  category: z.string(),
+  subCategory: z.string(),
+  learningObjectives: z.array(z.string()),
+  relatedConcepts: z.array(z.string()),
+  persona: z.array(z.string()),
+  timeEstimate: z.number().nonnegative(),
+  codeExample: z.string().optional(),
+  visualAid: z.string().optional()
+}).superRefine((question, ctx) => {
+  // Each question type needs its own answer fields
+  const issue = (path: string, message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+  switch (question.type ?? 'single-choice') {
+    case 'single-choice':
+      if (question.options.length < 2) issue('options', 'Single-choice questions need at least two options');
+      if (question.correctAnswer === undefined || question.correctAnswer >= question.options.length) {
+        issue('correctAnswer', 'correctAnswer must be the index of one of the options');
+      }
+      break;
+    case 'multi-select':
+      if (question.options.length < 2) issue('options', 'Multi-select questions need at least two options');
+      if (!question.correctAnswers?.length || question.correctAnswers.some(index => index >= question.options.length)) {
+        issue('correctAnswers', 'correctAnswers must list indexes of the options');
+      }
+      break;
+    case 'ordering':
+      if (question.options.length < 2) issue('options', 'Ordering questions need at least two steps, listed in the correct order');
+      break;
+    case 'code-completion': {
+      const placeholders = [...(question.codeTemplate ?? '').matchAll(/\{\{([\w-]+)\}\}/g)].map(match => match[1]);
+      if (placeholders.length === 0) issue('codeTemplate', 'codeTemplate needs at least one {{blank-id}} placeholder');
+      placeholders
+        .filter(id => !question.blanks?.some(blank => blank.id === id))
+        .forEach(id => issue('blanks', `No blank defined for placeholder "${id}"`));
+      break;
+    }
+    case 'hotspot':
+      if (!question.patternId) issue('patternId', 'Hotspot questions need a patternId');
+      if (!question.correctNodeIds?.length) issue('correctNodeIds', 'Hotspot questions need at least one correct node id');
+      break;
+  }
+});
+
+export const quizSubCategorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  questions: z.array(quizQuestionSchema),
+  prerequisites: z.array(z.string()).default([])
+});
+
+export const quizCategorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  icon: z.string().default('BookOpen'),
+  subCategories: z.array(quizSubCategorySchema),
+  totalQuestions: z.number().default(0),
+  estimatedTime: z.number().default(0)
+});
+
+export const referenceCategorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  references: z.array(z.object({
+    title: z.string().min(1),
+    url: z.string().url(),
+    description: z.string().optional()
+  }))
+});
+
+const referenceSectionSchema = z.record(z.string(), z.array(referenceCategorySchema));
+
+export const azureAIServiceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  capabilities: z.array(z.string()),
+  useCases: z.array(z.string()),
+  bestPractices: z.array(z.string()),
+  documentation: z.string()
+});
+
+// Bumped when the pack layout changes incompatibly
+export const CONTENT_PACK_FORMAT_VERSION = 1;
+
+export const contentPackSchema = z.object({
+  formatVersion: z.literal(CONTENT_PACK_FORMAT_VERSION),
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Pack id must be lowercase kebab-case'),
+  name: z.string().min(1),
+  version: z.string().regex(/^\d+\.\d+\.\d+/, 'Pack version must be semver, e.g. 1.0.0'),
+  description: z.string().optional(),
+  author: z.string().optional(),
+  content: z.object({
+    patterns: z.array(patternDataSchema).optional(),
+    concepts: z.array(conceptContentSchema).optional(),
+    quizCategories: z.array(quizCategorySchema).optional(),
+    references: z.object({
+      concepts: referenceSectionSchema.optional(),
+      patterns: referenceSectionSchema.optional(),
+      azureServices: referenceSectionSchema.optional()
+    }).optional(),
+    azureServices: z.array(azureAIServiceSchema).optional()
+  })
+});
+
+export interface ContentPack {
+  formatVersion: typeof CONTENT_PACK_FORMAT_VERSION;
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  author?: string;
+  content: {
+    patterns?: PatternData[];
+    concepts?: ConceptContent[];
+    quizCategories?: QuizCategory[];
+    references?: Partial<ReferencesData>;
+    azureServices?: AzureAIService[];
+  };
+}
@@ -2,6 +2,7 @@
  * Collection of code execution examples for interactive demonstrations
  * These examples can be used with the InteractiveCodeExecution component
  */
+import { lookupByPatternId } from './patternRegistry';
 
 interface CodeBlockExecution {
   code: string;
@@ -1084,6 +1085,6 @@ These protocols are essential for creating complex systems where multiple agents
  * Get execution examples for a specific pattern and language
  */
 export function getCodeExecutionExample(patternId: string, language: 'python' | 'typescript') {
-  const example = codeExecutionExamples[patternId]?.[language];
+  const example = lookupByPatternId(codeExecutionExamples, patternId)?.[language];
   return example ?? null; // Return null instead of undefined
 }
\ No newline at end of file
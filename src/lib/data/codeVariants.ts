@@ -0,0 +1,67 @@
+// Edited versions of pattern code examples, saved from the Code Playbook's practice editor
+export const CODE_VARIANTS_STORAGE_KEY = 'code-playbook-variants';
+
+export type CodeVariantLanguage = 'typescript' | 'python';
+
+export interface CodeVariant {
+  id: string;
+  patternId: string;
+  language: CodeVariantLanguage;
+  name: string;
+  code: string;
+  updatedAt: string;
+}
+
+const isCodeVariant = (value: any): value is CodeVariant =>
+  typeof value === 'object' && value !== null
+  && ['id', 'patternId', 'name', 'code', 'updatedAt'].every(field => typeof value[field] === 'string')
+  && (value.language === 'typescript' || value.language === 'python');
+
+export const createVariantId = () => `variant-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Saved variants for one pattern and language, most recently edited first
+ */
+export const variantsFor = (variants: CodeVariant[], patternId: string, language: CodeVariantLanguage): CodeVariant[] =>
+  variants
+    .filter(variant => variant.patternId === patternId && variant.language === language)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+/**
+ * Replace the variant with the same id, or add it
+ */
+export const upsertVariant = (variants: CodeVariant[], variant: CodeVariant): CodeVariant[] =>
+  variants.some(existing => existing.id === variant.id)
+    ? variants.map(existing => (existing.id === variant.id ? variant : existing))
+    : [...variants, variant];
+
+export const nextVariantName = (existing: CodeVariant[]) => {
+  const names = new Set(existing.map(variant => variant.name));
+  let index = existing.length + 1;
+  while (names.has(`Variant ${index}`)) index++;
+  return `Variant ${index}`;
+};
+
+export const loadCodeVariants = (): CodeVariant[] => {
+  try {
+    const stored = localStorage.getItem(CODE_VARIANTS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(item => {
+      if (!isCodeVariant(item)) console.warn('Skipping invalid code variant:', item);
+      return isCodeVariant(item);
+    });
+  } catch (error) {
+    console.warn('Failed to load code variants:', error);
+    return [];
+  }
+};
+
+export const saveCodeVariants = (variants: CodeVariant[]) => {
+  try {
+    localStorage.setItem(CODE_VARIANTS_STORAGE_KEY, JSON.stringify(variants));
+  } catch (error) {
+    console.warn('Failed to save code variants:', error);
+  }
+};
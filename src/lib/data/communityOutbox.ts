@@ -0,0 +1,30 @@
+import { CommunityPattern } from './communitySharing';
+
+export const COMMUNITY_OUTBOX_STORAGE_KEY = 'community-outbox';
+
+/**
+ * Community patterns submitted while offline, waiting to be shared when the browser reconnects
+ */
+export const loadCommunityOutbox = (): CommunityPattern[] => {
+  try {
+    const stored = localStorage.getItem(COMMUNITY_OUTBOX_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Failed to load queued community submissions:', error);
+    return [];
+  }
+};
+
+export const saveCommunityOutbox = (patterns: CommunityPattern[]) => {
+  try {
+    if (patterns.length === 0) {
+      localStorage.removeItem(COMMUNITY_OUTBOX_STORAGE_KEY);
+    } else {
+      localStorage.setItem(COMMUNITY_OUTBOX_STORAGE_KEY, JSON.stringify(patterns));
+    }
+  } catch (error) {
+    console.warn('Failed to queue community submissions:', error);
+  }
+};
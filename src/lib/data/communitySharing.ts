@@ -28,7 +28,7 @@ export const communityPatterns: CommunityPattern[] = [
     title: "Enhanced ReAct Pattern with Azure Content Safety",
     author: "Sarah Chen",
     authorAvatar: "https://i.pravatar.cc/150?u=sarah.chen",
-    patternType: "react",
+    patternType: "react-agent",
     description: "A modified ReAct pattern that integrates Azure Content Safety checks at each reasoning step to ensure compliance with content policies.",
     codeSnippet: `// Enhanced ReAct Pattern with Azure Content Safety
 const enhancedReAct = async (query, maxSteps = 5) => {
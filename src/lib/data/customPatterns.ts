@@ -0,0 +1,185 @@
+import { PatternData, PatternNode, PatternEdge } from './patterns';
+
+export const CUSTOM_PATTERNS_STORAGE_KEY = 'custom-patterns';
+
+export const patternNodeTypes: NonNullable<PatternNode['data']['nodeType']>[] = [
+  'input',
+  'llm',
+  'tool',
+  'router',
+  'planner',
+  'executor',
+  'evaluator',
+  'aggregator',
+  'output'
+];
+
+export interface PatternValidationResult {
+  pattern: PatternData | null;
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Check that an unknown value (usually parsed JSON) has the PatternData shape
+ */
+export const validatePatternData = (value: unknown): PatternValidationResult => {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return { pattern: null, errors: ['Pattern must be a JSON object'] };
+  }
+
+  ['id', 'name', 'description', 'codeExample'].forEach(field => {
+    if (typeof value[field] !== 'string' || (field !== 'codeExample' && !value[field].trim())) {
+      errors.push(`"${field}" must be a non-empty string`);
+    }
+  });
+  if (typeof value.id === 'string' && !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(value.id)) {
+    errors.push('"id" must be lowercase kebab-case, e.g. "invoice-triage"');
+  }
+  ['useCases', 'implementation'].forEach(field => {
+    if (!isStringArray(value[field])) errors.push(`"${field}" must be an array of strings`);
+  });
+  if (value.advantages !== undefined && !isStringArray(value.advantages)) {
+    errors.push('"advantages" must be an array of strings');
+  }
+  ['category', 'pythonCodeExample', 'whenToUse'].forEach(field => {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      errors.push(`"${field}" must be a string`);
+    }
+  });
+
+  const nodeIds = new Set<string>();
+  if (!Array.isArray(value.nodes) || value.nodes.length === 0) {
+    errors.push('"nodes" must be a non-empty array');
+  } else {
+    value.nodes.forEach((node: unknown, index: number) => {
+      if (!isObject(node) || typeof node.id !== 'string' || !node.id) {
+        errors.push(`nodes[${index}] needs a string "id"`);
+        return;
+      }
+      if (nodeIds.has(node.id)) errors.push(`Duplicate node id "${node.id}"`);
+      nodeIds.add(node.id);
+      if (!isObject(node.data) || typeof node.data.label !== 'string') {
+        errors.push(`Node "${node.id}" needs data.label`);
+      } else if (node.data.nodeType !== undefined && !patternNodeTypes.includes(node.data.nodeType)) {
+        errors.push(`Node "${node.id}" has unknown nodeType "${node.data.nodeType}"`);
+      }
+      if (!isObject(node.position) || typeof node.position.x !== 'number' || typeof node.position.y !== 'number') {
+        errors.push(`Node "${node.id}" needs a numeric position { x, y }`);
+      }
+    });
+  }
+
+  if (!Array.isArray(value.edges)) {
+    errors.push('"edges" must be an array');
+  } else {
+    const edgeIds = new Set<string>();
+    value.edges.forEach((edge: unknown, index: number) => {
+      if (!isObject(edge) || typeof edge.id !== 'string' || !edge.id) {
+        errors.push(`edges[${index}] needs a string "id"`);
+        return;
+      }
+      if (edgeIds.has(edge.id)) errors.push(`Duplicate edge id "${edge.id}"`);
+      edgeIds.add(edge.id);
+      ['source', 'target'].forEach(end => {
+        if (typeof edge[end] !== 'string' || !nodeIds.has(edge[end])) {
+          errors.push(`Edge "${edge.id}" ${end} must reference an existing node`);
+        }
+      });
+    });
+  }
+
+  return { pattern: errors.length === 0 ? value as PatternData : null, errors };
+};
+
+/**
+ * Parse and validate pattern JSON, e.g. from an imported file
+ */
+export const parsePatternJson = (text: string): PatternValidationResult => {
+  try {
+    return validatePatternData(JSON.parse(text));
+  } catch (error) {
+    return { pattern: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`] };
+  }
+};
+
+/**
+ * Serialize a pattern in the same shape as the entries in patterns.ts,
+ * dropping any runtime-only fields ReactFlow adds to nodes and edges
+ */
+export const serializePattern = (pattern: PatternData): string => {
+  const nodes: PatternNode[] = pattern.nodes.map(node => ({
+    id: node.id,
+    type: node.type || 'default',
+    data: {
+      label: node.data.label,
+      ...(node.data.description ? { description: node.data.description } : {}),
+      ...(node.data.nodeType ? { nodeType: node.data.nodeType } : {})
+    },
+    position: { x: Math.round(node.position.x), y: Math.round(node.position.y) }
+  }));
+  const edges: PatternEdge[] = pattern.edges.map(edge => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    ...(edge.label ? { label: edge.label } : {}),
+    ...(edge.animated ? { animated: true } : {})
+  }));
+
+  return JSON.stringify({ ...pattern, nodes, edges }, null, 2);
+};
+
+export const createEmptyPattern = (): PatternData => ({
+  id: 'custom-pattern',
+  name: 'Custom Pattern',
+  description: '',
+  category: 'Custom',
+  nodes: [
+    { id: 'input', type: 'default', data: { label: 'User Input', nodeType: 'input' }, position: { x: 0, y: 100 } },
+    { id: 'llm', type: 'default', data: { label: 'LLM', nodeType: 'llm' }, position: { x: 250, y: 100 } },
+    { id: 'output', type: 'default', data: { label: 'Response', nodeType: 'output' }, position: { x: 500, y: 100 } }
+  ],
+  edges: [
+    { id: 'e-input-llm', source: 'input', target: 'llm', animated: true },
+    { id: 'e-llm-output', source: 'llm', target: 'output', animated: true }
+  ],
+  useCases: [],
+  implementation: [],
+  codeExample: '',
+  pythonCodeExample: '',
+  whenToUse: ''
+});
+
+/**
+ * Patterns authored in the editor and saved in this browser
+ */
+export const loadCustomPatterns = (): PatternData[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_PATTERNS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(item => {
+      const { pattern, errors } = validatePatternData(item);
+      if (!pattern) console.warn('Skipping invalid custom pattern:', errors);
+      return pattern !== null;
+    });
+  } catch (error) {
+    console.warn('Failed to load custom patterns:', error);
+    return [];
+  }
+};
+
+export const saveCustomPatterns = (patterns: PatternData[]) => {
+  try {
+    localStorage.setItem(CUSTOM_PATTERNS_STORAGE_KEY, JSON.stringify(patterns));
+  } catch (error) {
+    console.warn('Failed to save custom patterns:', error);
+  }
+};
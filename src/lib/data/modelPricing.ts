@@ -0,0 +1,102 @@
+import { PatternNode } from './patterns';
+
+export const COST_ESTIMATOR_STORAGE_KEY = 'cost-estimator-settings';
+
+export type PatternNodeType = NonNullable<PatternNode['data']['nodeType']>;
+
+/**
+ * Price and speed of one model deployment
+ */
+export interface ModelPricing {
+  id: string;
+  name: string;
+  // USD per million tokens
+  inputPerMillion: number;
+  outputPerMillion: number;
+  timeToFirstTokenMs: number;
+  outputTokensPerSecond: number;
+}
+
+/**
+ * Expected work done by one visit to a node of a given type. Node types without
+ * tokens don't call the model and only take `overheadMs`.
+ */
+export interface NodeTokenProfile {
+  inputTokens: number;
+  outputTokens: number;
+  // Time not spent generating tokens, e.g. a tool call or network round trip
+  overheadMs: number;
+}
+
+export interface CostEstimatorSettings {
+  pricing: ModelPricing[];
+  deploymentId: string;
+  // How often each loop in a pattern runs per request
+  loopIterations: number;
+  tokenProfiles: Record<PatternNodeType, NodeTokenProfile>;
+}
+
+/**
+ * List prices of Azure OpenAI Global Standard deployments, with typical speeds.
+ * Prices change and differ per region and agreement, so every value can be edited.
+ */
+export const azureOpenAIPricingPresets: ModelPricing[] = [
+  { id: 'gpt-4o', name: 'GPT-4o', inputPerMillion: 2.5, outputPerMillion: 10, timeToFirstTokenMs: 500, outputTokensPerSecond: 80 },
+  { id: 'gpt-4o-mini', name: 'GPT-4o mini', inputPerMillion: 0.15, outputPerMillion: 0.6, timeToFirstTokenMs: 350, outputTokensPerSecond: 110 },
+  { id: 'gpt-4.1', name: 'GPT-4.1', inputPerMillion: 2, outputPerMillion: 8, timeToFirstTokenMs: 500, outputTokensPerSecond: 75 },
+  { id: 'gpt-4.1-mini', name: 'GPT-4.1 mini', inputPerMillion: 0.4, outputPerMillion: 1.6, timeToFirstTokenMs: 400, outputTokensPerSecond: 100 },
+  { id: 'gpt-4.1-nano', name: 'GPT-4.1 nano', inputPerMillion: 0.1, outputPerMillion: 0.4, timeToFirstTokenMs: 300, outputTokensPerSecond: 150 },
+  // Reasoning models spend most of their time before the first visible token
+  { id: 'o3-mini', name: 'o3-mini', inputPerMillion: 1.1, outputPerMillion: 4.4, timeToFirstTokenMs: 2500, outputTokensPerSecond: 90 },
+  { id: 'o4-mini', name: 'o4-mini', inputPerMillion: 1.1, outputPerMillion: 4.4, timeToFirstTokenMs: 2500, outputTokensPerSecond: 95 }
+];
+
+export const defaultTokenProfiles: Record<PatternNodeType, NodeTokenProfile> = {
+  input: { inputTokens: 0, outputTokens: 0, overheadMs: 50 },
+  llm: { inputTokens: 1500, outputTokens: 300, overheadMs: 0 },
+  tool: { inputTokens: 0, outputTokens: 0, overheadMs: 1200 },
+  router: { inputTokens: 600, outputTokens: 20, overheadMs: 0 },
+  planner: { inputTokens: 1200, outputTokens: 500, overheadMs: 0 },
+  executor: { inputTokens: 0, outputTokens: 0, overheadMs: 800 },
+  evaluator: { inputTokens: 1800, outputTokens: 250, overheadMs: 0 },
+  aggregator: { inputTokens: 2000, outputTokens: 500, overheadMs: 0 },
+  output: { inputTokens: 0, outputTokens: 0, overheadMs: 50 }
+};
+
+export const createDefaultCostEstimatorSettings = (): CostEstimatorSettings => ({
+  pricing: azureOpenAIPricingPresets.map(preset => ({ ...preset })),
+  deploymentId: 'gpt-4o',
+  loopIterations: 2,
+  tokenProfiles: Object.fromEntries(
+    Object.entries(defaultTokenProfiles).map(([nodeType, profile]) => [nodeType, { ...profile }])
+  ) as Record<PatternNodeType, NodeTokenProfile>
+});
+
+/**
+ * Estimator settings saved in this browser; missing fields fall back to the defaults
+ */
+export const loadCostEstimatorSettings = (): CostEstimatorSettings => {
+  const defaults = createDefaultCostEstimatorSettings();
+  try {
+    const stored = localStorage.getItem(COST_ESTIMATOR_STORAGE_KEY);
+    if (!stored) return defaults;
+    const parsed = JSON.parse(stored);
+    return {
+      pricing: Array.isArray(parsed.pricing) && parsed.pricing.length > 0 ? parsed.pricing : defaults.pricing,
+      deploymentId: typeof parsed.deploymentId === 'string' ? parsed.deploymentId : defaults.deploymentId,
+      loopIterations: typeof parsed.loopIterations === 'number' ? parsed.loopIterations : defaults.loopIterations,
+      tokenProfiles: { ...defaults.tokenProfiles, ...parsed.tokenProfiles }
+    };
+  } catch (error) {
+    console.warn('Failed to load cost estimator settings:', error);
+    return defaults;
+  }
+};
+
+export const saveCostEstimatorSettings = (settings: CostEstimatorSettings) => {
+  try {
+    localStorage.setItem(COST_ESTIMATOR_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save cost estimator settings:', error);
+  }
+};
@@ -764,7 +764,7 @@ export const patternContents: PatternContent[] = [
     relatedPatterns: ["Autonomous Workflow", "Plan and Execute", "ReAct Agent"]
   },
   {
-    id: 'deep-researcher-agent',
+    id: 'deep-researcher',
     name: 'Deep Researcher Agent',
     longDescription: `
       The Deep Researcher pattern extends basic RAG capabilities into an advanced research assistant that can conduct 
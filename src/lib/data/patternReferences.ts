@@ -0,0 +1,96 @@
+import { agentPatterns } from './patterns';
+import { patternContents } from './patternContent';
+import { codeExecutionExamples } from './codeExamples';
+import { azureServicePatternMappings } from './azureAiServices';
+import { communityPatterns } from './communitySharing';
+import { patternIds, resolvePatternId } from './patternRegistry';
+import { codeExecutionSteps } from '../utils/codeExecutionSteps';
+import { debugExamples } from '../utils/codeDebugExamples';
+import { patternAlgorithmIds } from '../utils/algorithmVisualization';
+import { pythonPatterns } from '../pythonPatterns';
+
+export interface PatternReferenceIssue {
+  dataset: string;
+  // The entry's own key or ID inside the dataset
+  entry: string;
+  reference: string;
+  // unknown: not a registered ID or alias; missing: registered, but agentPatterns has no such pattern
+  problem: 'unknown' | 'missing';
+  message: string;
+}
+
+// Every dataset that points at patterns, as [entry, pattern reference] pairs
+const collectReferences = (): Record<string, [string, string][]> => {
+  const byKey = (record: Record<string, unknown>): [string, string][] =>
+    Object.keys(record).map(key => [key, key]);
+
+  return {
+    agentPatterns: agentPatterns.map(pattern => [pattern.id, pattern.id]),
+    patternContents: patternContents.map(content => [content.id, content.id]),
+    codeExecutionExamples: byKey(codeExecutionExamples),
+    codeExecutionSteps: byKey(codeExecutionSteps),
+    debugExamples: byKey(debugExamples),
+    pythonPatterns: byKey(pythonPatterns),
+    patternAlgorithmIds: byKey(patternAlgorithmIds),
+    azureServicePatternMappings: azureServicePatternMappings.map(mapping => [
+      `${mapping.patternId}/${mapping.serviceId}`,
+      mapping.patternId
+    ]),
+    communityPatterns: communityPatterns.map(pattern => [pattern.id, pattern.patternType])
+  };
+};
+
+/**
+ * Check every dataset entry against the pattern registry
+ */
+export const validatePatternReferences = (): PatternReferenceIssue[] => {
+  const issues: PatternReferenceIssue[] = [];
+  const definedPatterns = new Set(agentPatterns.map(pattern => pattern.id));
+
+  Object.entries(collectReferences()).forEach(([dataset, references]) => {
+    references.forEach(([entry, reference]) => {
+      const patternId = resolvePatternId(reference);
+      if (!patternId) {
+        issues.push({
+          dataset,
+          entry,
+          reference,
+          problem: 'unknown',
+          message: `${dataset} entry "${entry}" refers to unknown pattern "${reference}"`
+        });
+      } else if (!definedPatterns.has(patternId)) {
+        issues.push({
+          dataset,
+          entry,
+          reference,
+          problem: 'missing',
+          message: `${dataset} entry "${entry}" refers to "${patternId}", which has no pattern data`
+        });
+      }
+    });
+  });
+
+  patternIds
+    .filter(patternId => !definedPatterns.has(patternId))
+    .forEach(patternId => issues.push({
+      dataset: 'patternRegistry',
+      entry: patternId,
+      reference: patternId,
+      problem: 'missing',
+      message: `Registered pattern "${patternId}" has no entry in agentPatterns`
+    }));
+
+  return issues;
+};
+
+/**
+ * Log reference problems to the console; used during development
+ */
+export const reportPatternReferenceIssues = (): PatternReferenceIssue[] => {
+  const issues = validatePatternReferences();
+  if (issues.length > 0) {
+    console.warn(`Found ${issues.length} pattern reference issue(s):`);
+    issues.forEach(issue => console.warn(`- ${issue.message}`));
+  }
+  return issues;
+};
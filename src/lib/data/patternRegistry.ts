@@ -0,0 +1,75 @@
+/**
+ * Canonical pattern IDs shared by every dataset that refers to a pattern.
+ * The IDs match `agentPatterns` in patterns.ts.
+ */
+export const patternIds = [
+  'react-agent',
+  'codeact-agent',
+  'self-reflection',
+  'agentic-rag',
+  'modern-tool-use',
+  'model-context-protocol',
+  'agent-to-agent',
+  'prompt-chaining',
+  'parallelization',
+  'orchestrator-worker',
+  'evaluator-optimizer',
+  'routing',
+  'autonomous-workflow',
+  'reflexion',
+  'plan-and-execute',
+  'computer-using-agent',
+  'deep-researcher',
+  'voice-agent',
+  'agent-evaluation'
+] as const;
+
+export type PatternId = typeof patternIds[number];
+
+// Short keys used by the code example datasets and older community submissions
+export const patternAliases = {
+  'react': 'react-agent',
+  'codeact': 'codeact-agent',
+  'rag': 'agentic-rag',
+  'plan-execute': 'plan-and-execute'
+} as const satisfies Record<string, PatternId>;
+
+export type PatternAlias = keyof typeof patternAliases;
+
+// Anything a dataset may use to point at a pattern
+export type PatternReference = PatternId | PatternAlias;
+
+const patternIdSet = new Set<string>(patternIds);
+
+export const isPatternId = (value: string): value is PatternId => patternIdSet.has(value);
+
+/**
+ * Resolve a canonical ID or alias to the canonical ID; undefined when unknown
+ */
+export const resolvePatternId = (reference: string): PatternId | undefined => {
+  if (isPatternId(reference)) return reference;
+  return Object.prototype.hasOwnProperty.call(patternAliases, reference)
+    ? patternAliases[reference as PatternAlias]
+    : undefined;
+};
+
+/**
+ * All keys a dataset may use for a pattern, canonical ID first
+ */
+export const getPatternReferences = (patternId: PatternId): PatternReference[] => [
+  patternId,
+  ...(Object.keys(patternAliases) as PatternAlias[]).filter(alias => patternAliases[alias] === patternId)
+];
+
+/**
+ * Look up a dataset entry by pattern, whether the dataset is keyed by canonical ID or alias
+ */
+export const lookupByPatternId = <T>(record: Record<string, T | undefined>, reference: string): T | undefined => {
+  const patternId = resolvePatternId(reference);
+  if (!patternId) return record[reference];
+
+  for (const key of getPatternReferences(patternId)) {
+    if (record[key] !== undefined) return record[key];
+  }
+  return undefined;
+};
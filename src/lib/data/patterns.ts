@@ -1,3 +1,5 @@
+import type { PatternId } from './patternRegistry'
+
 export interface PatternNode {
   id: string
   type: string
@@ -38,6 +40,9 @@ export interface PatternData {
   advantages?: string[]
 }
 
+// Canonical pattern ID, used wherever other data refers to a pattern
+export type PatternType = PatternId
+
 export const agentPatterns: PatternData[] = [
   {
     id: 'react-agent',
@@ -0,0 +1,166 @@
+import { QuizQuestion, QuizCategory } from './quizzes';
+
+// Learner ability per category and calibrated question difficulty
+export const QUIZ_ABILITY_STORAGE_KEY = 'quiz-ability';
+
+/*
+ * A one-parameter (Rasch) IRT model fitted online, Elo style: every answer nudges the
+ * learner's ability and the question's difficulty toward what the answer implies.
+ * Both live on the same logit scale, so P(correct) = 1 / (1 + e^-(ability - difficulty)).
+ */
+
+// Starting difficulty for questions that have never been answered
+export const difficultyPriors: Record<QuizQuestion['difficulty'], number> = {
+  beginner: -1,
+  intermediate: 0,
+  advanced: 1
+};
+
+export interface AbilityEstimate {
+  ability: number;
+  answered: number;
+  correct: number;
+  updatedAt: string;
+}
+
+export interface DifficultyEstimate {
+  difficulty: number;
+  answered: number;
+  correct: number;
+}
+
+export interface AbilityModel {
+  // Keyed by QuizCategory id
+  abilities: Record<string, AbilityEstimate>;
+  // Keyed by QuizQuestion id
+  difficulties: Record<string, DifficultyEstimate>;
+}
+
+export const createAbilityModel = (): AbilityModel => ({ abilities: {}, difficulties: {} });
+
+// Step sizes shrink as evidence accumulates so estimates settle
+const learnerStep = (answered: number) => Math.max(0.15, 0.6 / (1 + 0.1 * answered));
+const questionStep = (answered: number) => Math.max(0.05, 0.3 / (1 + 0.05 * answered));
+
+export const probabilityCorrect = (ability: number, difficulty: number): number =>
+  1 / (1 + Math.exp(difficulty - ability));
+
+// defaultAbility seeds categories the learner has no estimate for yet
+export const getAbility = (model: AbilityModel, categoryId: string, defaultAbility = 0): number =>
+  model.abilities[categoryId]?.ability ?? defaultAbility;
+
+export const getQuestionDifficulty = (model: AbilityModel, question: QuizQuestion): number =>
+  model.difficulties[question.id]?.difficulty ?? difficultyPriors[question.difficulty] ?? 0;
+
+/**
+ * The QuizCategory a question belongs to; falls back to the question's own category label
+ */
+export const getQuestionCategoryId = (categories: QuizCategory[], question: QuizQuestion): string => {
+  const category = categories.find(c => c.subCategories.some(s => s.questions.some(q => q.id === question.id)));
+  return category?.id ?? question.category;
+};
+
+/**
+ * Update ability and difficulty after one answer. Returns a new model.
+ */
+export const recordAnswer = (
+  model: AbilityModel,
+  question: QuizQuestion,
+  categoryId: string,
+  correct: boolean,
+  defaultAbility = 0,
+  now: Date = new Date()
+): AbilityModel => {
+  const learner = model.abilities[categoryId] ?? { ability: defaultAbility, answered: 0, correct: 0, updatedAt: now.toISOString() };
+  const item = model.difficulties[question.id] ?? {
+    difficulty: difficultyPriors[question.difficulty] ?? 0,
+    answered: 0,
+    correct: 0
+  };
+
+  const surprise = (correct ? 1 : 0) - probabilityCorrect(learner.ability, item.difficulty);
+
+  return {
+    abilities: {
+      ...model.abilities,
+      [categoryId]: {
+        ability: learner.ability + learnerStep(learner.answered) * surprise,
+        answered: learner.answered + 1,
+        correct: learner.correct + (correct ? 1 : 0),
+        updatedAt: now.toISOString()
+      }
+    },
+    difficulties: {
+      ...model.difficulties,
+      [question.id]: {
+        difficulty: item.difficulty - questionStep(item.answered) * surprise,
+        answered: item.answered + 1,
+        correct: item.correct + (correct ? 1 : 0)
+      }
+    }
+  };
+};
+
+/**
+ * Pick the most informative remaining question: the one whose difficulty is closest to
+ * the learner's current ability. While any of dueIds (reviews that are due) remain
+ * unasked, the pick is made among them only. Ties keep pool order, so callers can pre-rank the pool.
+ */
+export const selectNextQuestion = (
+  pool: QuizQuestion[],
+  askedIds: string[],
+  model: AbilityModel,
+  categories: QuizCategory[],
+  defaultAbility = 0,
+  dueIds: string[] = []
+): QuizQuestion | undefined => {
+  const remaining = pool.filter(question => !askedIds.includes(question.id));
+  const due = remaining.filter(question => dueIds.includes(question.id));
+  let best: QuizQuestion | undefined;
+  let bestInformation = -1;
+  (due.length > 0 ? due : remaining).forEach(question => {
+    const p = probabilityCorrect(
+      getAbility(model, getQuestionCategoryId(categories, question), defaultAbility),
+      getQuestionDifficulty(model, question)
+    );
+    // Fisher information of a Rasch item
+    const information = p * (1 - p);
+    if (information > bestInformation + 1e-9) {
+      best = question;
+      bestInformation = information;
+    }
+  });
+  return best;
+};
+
+/**
+ * Ability as a 0-100 score: the chance of answering a typical intermediate question correctly
+ */
+export const abilityToScore = (ability: number): number =>
+  Math.round(probabilityCorrect(ability, difficultyPriors.intermediate) * 100);
+
+export const getAbilityLevel = (ability: number): QuizQuestion['difficulty'] => {
+  if (ability >= 0.5) return 'advanced';
+  if (ability >= -0.5) return 'intermediate';
+  return 'beginner';
+};
+
+export const loadAbilityModel = (): AbilityModel => {
+  try {
+    const stored = localStorage.getItem(QUIZ_ABILITY_STORAGE_KEY);
+    if (!stored) return createAbilityModel();
+    const parsed = JSON.parse(stored);
+    return { abilities: parsed.abilities ?? {}, difficulties: parsed.difficulties ?? {} };
+  } catch (error) {
+    console.warn('Failed to load quiz ability estimates:', error);
+    return createAbilityModel();
+  }
+};
+
+export const saveAbilityModel = (model: AbilityModel) => {
+  try {
+    localStorage.setItem(QUIZ_ABILITY_STORAGE_KEY, JSON.stringify(model));
+  } catch (error) {
+    console.warn('Failed to save quiz ability estimates:', error);
+  }
+};
@@ -0,0 +1,158 @@
+import { QuizQuestion, QuizSession, QuizCategory, QuizAnswer, scoreAnswer, isAnswerComplete } from './quizzes';
+
+// Per-question review schedule, keyed by question id
+export const QUIZ_REVIEW_STORAGE_KEY = 'quiz-review';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+const INITIAL_EASE_FACTOR = 2.5;
+// Interval (in days) from which a question counts as mastered
+const MASTERED_INTERVAL_DAYS = 21;
+
+export interface QuestionReviewState {
+  questionId: string;
+  // Consecutive correct reviews since the last miss
+  repetitions: number;
+  intervalDays: number;
+  easeFactor: number;
+  dueAt: string;
+  lastReviewedAt: string;
+  lastQuality: number;
+  correctCount: number;
+  incorrectCount: number;
+}
+
+export type QuestionReviewStates = Record<string, QuestionReviewState>;
+
+export type MasteryLevel = 'new' | 'learning' | 'reviewing' | 'mastered';
+
+/**
+ * Map a quiz answer onto the SM-2 quality scale (0-5).
+ * Only fully right answers pass; partly right ones fail with a milder grade.
+ */
+export const gradeAnswer = (selectedAnswer: QuizAnswer | undefined, question: QuizQuestion): number => {
+  if (!isAnswerComplete(question, selectedAnswer)) return 0;
+  const credit = scoreAnswer(question, selectedAnswer);
+  if (credit >= 1) return 4;
+  return credit >= 0.5 ? 2 : 1;
+};
+
+/**
+ * SM-2: a miss restarts the schedule; a correct answer grows the interval by the ease factor
+ */
+export const scheduleReview = (
+  previous: QuestionReviewState | undefined,
+  questionId: string,
+  quality: number,
+  now: Date = new Date()
+): QuestionReviewState => {
+  const state = previous ?? {
+    questionId,
+    repetitions: 0,
+    intervalDays: 0,
+    easeFactor: INITIAL_EASE_FACTOR,
+    dueAt: now.toISOString(),
+    lastReviewedAt: now.toISOString(),
+    lastQuality: quality,
+    correctCount: 0,
+    incorrectCount: 0
+  };
+  const correct = quality >= 3;
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions = 0;
+  let intervalDays = 1;
+  if (correct) {
+    repetitions = state.repetitions + 1;
+    if (repetitions === 1) intervalDays = 1;
+    else if (repetitions === 2) intervalDays = 6;
+    else intervalDays = Math.round(state.intervalDays * easeFactor);
+  }
+
+  return {
+    questionId,
+    repetitions,
+    intervalDays,
+    easeFactor,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+    lastQuality: quality,
+    correctCount: state.correctCount + (correct ? 1 : 0),
+    incorrectCount: state.incorrectCount + (correct ? 0 : 1)
+  };
+};
+
+export const isReviewDue = (state: QuestionReviewState | undefined, now: Date = new Date()): boolean =>
+  !!state && new Date(state.dueAt).getTime() <= now.getTime();
+
+export const getMasteryLevel = (state: QuestionReviewState | undefined): MasteryLevel => {
+  if (!state) return 'new';
+  if (state.repetitions === 0) return 'learning';
+  return state.intervalDays >= MASTERED_INTERVAL_DAYS ? 'mastered' : 'reviewing';
+};
+
+/**
+ * Update the schedule of every question in a completed session
+ */
+export const applySessionToReviewStates = (
+  states: QuestionReviewStates,
+  session: QuizSession,
+  now: Date = new Date()
+): QuestionReviewStates => {
+  const next = { ...states };
+  session.questions.forEach(question => {
+    const quality = gradeAnswer(session.answers[question.id], question);
+    next[question.id] = scheduleReview(next[question.id], question.id, quality, now);
+  });
+  return next;
+};
+
+/**
+ * Questions whose review is due, most overdue and hardest (lowest ease) first
+ */
+export const getDueQuestions = (
+  categories: QuizCategory[],
+  states: QuestionReviewStates,
+  now: Date = new Date()
+): QuizQuestion[] => {
+  const questions = categories.flatMap(category =>
+    category.subCategories.flatMap(subCategory => subCategory.questions)
+  );
+  return questions
+    .filter(question => isReviewDue(states[question.id], now))
+    .sort((a, b) => {
+      const dueDifference = new Date(states[a.id].dueAt).getTime() - new Date(states[b.id].dueAt).getTime();
+      return dueDifference !== 0 ? dueDifference : states[a.id].easeFactor - states[b.id].easeFactor;
+    });
+};
+
+export const loadReviewStates = (): QuestionReviewStates => {
+  try {
+    const stored = localStorage.getItem(QUIZ_REVIEW_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('Failed to load quiz review schedule:', error);
+    return {};
+  }
+};
+
+export const saveReviewStates = (states: QuestionReviewStates) => {
+  try {
+    localStorage.setItem(QUIZ_REVIEW_STORAGE_KEY, JSON.stringify(states));
+  } catch (error) {
+    console.warn('Failed to save quiz review schedule:', error);
+  }
+};
+
+/**
+ * Load, update and persist the schedule for a completed session
+ */
+export const recordQuizReview = (session: QuizSession, now: Date = new Date()): QuestionReviewStates => {
+  const states = applySessionToReviewStates(loadReviewStates(), session, now);
+  saveReviewStates(states);
+  return states;
+};
@@ -1,8 +1,39 @@
+export type QuizQuestionType = 'single-choice' | 'multi-select' | 'ordering' | 'code-completion' | 'hotspot';
+
+/**
+ * A learner's answer; its shape depends on the question type:
+ * single-choice: option index, multi-select: selected option indices,
+ * ordering: option indices in the chosen order, code-completion: text per blank id,
+ * hotspot: the clicked node id
+ */
+export type QuizAnswer = number | number[] | Record<string, string> | string;
+
+export interface CodeBlank {
+  id: string;
+  // Any of these, ignoring surrounding and repeated whitespace, is correct
+  acceptedAnswers: string[];
+  // Numeric blanks: any number within this distance of an accepted answer is correct
+  tolerance?: number;
+  hint?: string;
+}
+
 export interface QuizQuestion {
   id: string;
+  // Defaults to single-choice
+  type?: QuizQuestionType;
   question: string;
+  // Choices for single-choice and multi-select; the steps in their correct order for ordering
   options: string[];
-  correctAnswer: number;
+  // Index of the right option (single-choice)
+  correctAnswer?: number;
+  // Indices of every right option (multi-select)
+  correctAnswers?: number[];
+  // Code with {{blank-id}} placeholders (code-completion)
+  codeTemplate?: string;
+  blanks?: CodeBlank[];
+  // Pattern diagram to click on and the node ids that count as right (hotspot)
+  patternId?: string;
+  correctNodeIds?: string[];
   explanation: string;
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   category: string;
@@ -41,7 +72,7 @@ export interface QuizSession {
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   questions: QuizQuestion[];
   currentQuestionIndex: number;
-  answers: Record<string, number>;
+  answers: Record<string, QuizAnswer>;
   score: number;
   startTime: Date;
   endTime?: Date;
@@ -53,8 +84,10 @@ export interface QuizSession {
 export interface QuizFeedback {
   questionId: string;
   isCorrect: boolean;
-  selectedAnswer: number;
-  correctAnswer: number;
+  // Share of the question answered right, from 0 to 1
+  credit: number;
+  selectedAnswer: QuizAnswer | undefined;
+  correctAnswer: QuizAnswer;
   explanation: string;
   improvementSuggestions: string[];
 }
@@ -1122,10 +1155,10 @@ class SelfReflectingAgent:
 ];
 
 // Utility functions for quiz management
-export const getQuizzesByPersona = (persona: string, difficulty?: 'beginner' | 'intermediate' | 'advanced') => {
+export const getQuizzesByPersona = (persona: string, difficulty?: 'beginner' | 'intermediate' | 'advanced', categories: QuizCategory[] = quizCategories) => {
   const allQuestions: QuizQuestion[] = [];
   
-  quizCategories.forEach(category => {
+  categories.forEach(category => {
     category.subCategories.forEach(subCategory => {
       subCategory.questions.forEach(question => {
         if (question.persona.includes(persona)) {
@@ -1140,8 +1173,8 @@ export const getQuizzesByPersona = (persona: string, difficulty?: 'beginner' | '
   return allQuestions;
 };
 
-export const getQuizzesByCategory = (categoryId: string, difficulty?: 'beginner' | 'intermediate' | 'advanced') => {
-  const category = quizCategories.find(c => c.id === categoryId);
+export const getQuizzesByCategory = (categoryId: string, difficulty?: 'beginner' | 'intermediate' | 'advanced', categories: QuizCategory[] = quizCategories) => {
+  const category = categories.find(c => c.id === categoryId);
   if (!category) return [];
   
   const allQuestions: QuizQuestion[] = [];
@@ -1156,8 +1189,8 @@ export const getQuizzesByCategory = (categoryId: string, difficulty?: 'beginner'
   return allQuestions;
 };
 
-export const generateAdaptiveQuiz = (persona: string, focusAreas: string[], difficulty: 'beginner' | 'intermediate' | 'advanced', questionCount: number = 10) => {
-  const allQuestions = getQuizzesByPersona(persona, difficulty);
+export const generateAdaptiveQuiz = (persona: string, focusAreas: string[], difficulty: 'beginner' | 'intermediate' | 'advanced' | undefined, questionCount: number = 10, categories: QuizCategory[] = quizCategories) => {
+  const allQuestions = getQuizzesByPersona(persona, difficulty, categories);
   
   // Score questions based on relevance to focus areas
   const scoredQuestions = allQuestions.map(question => ({
@@ -1173,53 +1206,187 @@ export const generateAdaptiveQuiz = (persona: string, focusAreas: string[], diff
   return scoredQuestions.slice(0, questionCount);
 };
 
+export const getQuestionType = (question: QuizQuestion): QuizQuestionType => question.type ?? 'single-choice';
+
+// Ignore whitespace differences (including around punctuation) in typed code
+const normalizeCode = (code: string) => code.trim().replace(/\s+/g, ' ').replace(/\s*([^\w\s])\s*/g, '$1');
+
+const isBlankFilledCorrectly = (blank: CodeBlank, filled = ''): boolean => {
+  if (blank.tolerance !== undefined) {
+    const value = filled.trim() === '' ? NaN : Number(filled);
+    // The small margin keeps 3.15 within 0.01 of 3.14 despite floating point
+    return blank.acceptedAnswers.some(accepted => Math.abs(value - Number(accepted)) <= blank.tolerance! + 1e-9);
+  }
+  return blank.acceptedAnswers.some(accepted => normalizeCode(accepted) === normalizeCode(filled));
+};
+
+/**
+ * Whether an answer has enough in it to be submitted
+ */
+export const isAnswerComplete = (question: QuizQuestion, answer: QuizAnswer | undefined): boolean => {
+  if (answer === undefined || answer === null || answer === '') return false;
+  switch (getQuestionType(question)) {
+    case 'multi-select':
+      return Array.isArray(answer) && answer.length > 0;
+    case 'ordering':
+      return Array.isArray(answer) && answer.length === question.options.length;
+    case 'code-completion':
+      return typeof answer === 'object' && !Array.isArray(answer) &&
+        (question.blanks ?? []).every(blank => (answer[blank.id] ?? '').trim() !== '');
+    default:
+      return true;
+  }
+};
+
+/**
+ * Share of the question answered right, from 0 to 1. Multi-select loses credit for wrong
+ * picks, ordering scores steps in the right position and code completion scores each blank.
+ */
+export const scoreAnswer = (question: QuizQuestion, answer: QuizAnswer | undefined): number => {
+  if (answer === undefined || answer === null) return 0;
+
+  switch (getQuestionType(question)) {
+    case 'multi-select': {
+      if (!Array.isArray(answer)) return 0;
+      const correct = question.correctAnswers ?? [];
+      const selected = answer as number[];
+      const hits = selected.filter(index => correct.includes(index)).length;
+      const misses = selected.length - hits;
+      return correct.length > 0 ? Math.max(0, (hits - misses) / correct.length) : 0;
+    }
+    case 'ordering': {
+      if (!Array.isArray(answer) || question.options.length === 0) return 0;
+      const inPlace = (answer as number[]).filter((optionIndex, position) => optionIndex === position).length;
+      return inPlace / question.options.length;
+    }
+    case 'code-completion': {
+      const blanks = question.blanks ?? [];
+      if (typeof answer !== 'object' || Array.isArray(answer) || blanks.length === 0) return 0;
+      const filled = answer as Record<string, string>;
+      const right = blanks.filter(blank => isBlankFilledCorrectly(blank, filled[blank.id])).length;
+      return right / blanks.length;
+    }
+    case 'hotspot':
+      return typeof answer === 'string' && (question.correctNodeIds ?? []).includes(answer) ? 1 : 0;
+    default: {
+      // Older sessions stored single-choice answers as strings
+      const selected = typeof answer === 'string' ? parseInt(answer) : answer;
+      return selected === question.correctAnswer ? 1 : 0;
+    }
+  }
+};
+
+export const isAnswerCorrect = (question: QuizQuestion, answer: QuizAnswer | undefined): boolean =>
+  scoreAnswer(question, answer) >= 1;
+
+/**
+ * The right answer in the same shape as a learner's answer
+ */
+export const getCorrectAnswer = (question: QuizQuestion): QuizAnswer => {
+  switch (getQuestionType(question)) {
+    case 'multi-select':
+      return question.correctAnswers ?? [];
+    case 'ordering':
+      return question.options.map((_, index) => index);
+    case 'code-completion':
+      return Object.fromEntries((question.blanks ?? []).map(blank => [blank.id, blank.acceptedAnswers[0] ?? '']));
+    case 'hotspot':
+      return question.correctNodeIds?.[0] ?? '';
+    default:
+      return question.correctAnswer;
+  }
+};
+
+/**
+ * Human-readable form of an answer for results and print-outs
+ */
+export const formatAnswer = (question: QuizQuestion, answer: QuizAnswer | undefined): string => {
+  if (answer === undefined || answer === null || answer === '') return 'Not answered';
+
+  switch (getQuestionType(question)) {
+    case 'multi-select':
+    case 'ordering':
+      return Array.isArray(answer)
+        ? (answer as number[]).map(index => question.options[index]).join(getQuestionType(question) === 'ordering' ? ' → ' : ', ')
+        : 'Not answered';
+    case 'code-completion':
+      return typeof answer === 'object' && !Array.isArray(answer)
+        ? (question.blanks ?? []).map(blank => `${blank.id}: ${(answer as Record<string, string>)[blank.id] ?? ''}`).join('; ')
+        : 'Not answered';
+    case 'hotspot':
+      return String(answer);
+    default: {
+      const selected = typeof answer === 'string' ? parseInt(answer) : answer as number;
+      return question.options[selected] ?? 'Not answered';
+    }
+  }
+};
+
+const getImprovementSuggestions = (question: QuizQuestion, answer: QuizAnswer | undefined): string[] => {
+  const suggestions = [
+    `Review the ${question.subCategory} concepts`,
+    `Practice with ${question.relatedConcepts.join(', ')} topics`,
+    `Consider exploring the ${question.category} section in more detail`
+  ];
+
+  switch (getQuestionType(question)) {
+    case 'multi-select': {
+      const selected = Array.isArray(answer) ? answer as number[] : [];
+      const missed = (question.correctAnswers ?? []).filter(index => !selected.includes(index));
+      const wrong = selected.filter(index => !(question.correctAnswers ?? []).includes(index));
+      if (missed.length > 0) suggestions.unshift(`You missed: ${missed.map(index => question.options[index]).join(', ')}`);
+      if (wrong.length > 0) suggestions.unshift(`These don't apply: ${wrong.map(index => question.options[index]).join(', ')}`);
+      break;
+    }
+    case 'ordering': {
+      const order = Array.isArray(answer) ? answer as number[] : [];
+      const firstWrong = order.findIndex((optionIndex, position) => optionIndex !== position);
+      if (firstWrong >= 0) suggestions.unshift(`Step ${firstWrong + 1} should be "${question.options[firstWrong]}"`);
+      break;
+    }
+    case 'code-completion': {
+      const filled = answer && typeof answer === 'object' && !Array.isArray(answer) ? answer as Record<string, string> : {};
+      (question.blanks ?? [])
+        .filter(blank => !isBlankFilledCorrectly(blank, filled[blank.id]))
+        .forEach(blank => suggestions.unshift(
+          `Blank "${blank.id}" expects ${blank.acceptedAnswers[0]}${blank.tolerance ? ` ± ${blank.tolerance}` : ''}${blank.hint ? ` (${blank.hint})` : ''}`
+        ));
+      break;
+    }
+    case 'hotspot':
+      suggestions.unshift(`Open the ${question.patternId} pattern and trace which node does this job`);
+      break;
+  }
+  return suggestions;
+};
+
 export const calculateQuizScore = (session: QuizSession): number => {
   const totalQuestions = session.questions.length;
-  
-  // console.log('=== QUIZ SCORING DEBUG ===');
-  // console.log('Total questions:', totalQuestions);
-  // console.log('Session answers:', session.answers);
-  // console.log('Questions:', session.questions.map(q => ({ id: q.id, correctAnswer: q.correctAnswer })));
-  
-  const correctAnswers = session.questions.filter(question => {
-    const selectedAnswer = session.answers[question.id];
-    // Ensure both values are numbers for comparison
-    const selectedAnswerNum = typeof selectedAnswer === 'string' ? parseInt(selectedAnswer) : selectedAnswer;
-    // Both selectedAnswerNum and question.correctAnswer are 0-based
-    const isCorrect = selectedAnswerNum !== undefined ? selectedAnswerNum === question.correctAnswer : false;
-    
-    return isCorrect;
-  }).length;
-  
-  // console.log('Quiz score calculation:', {
-  //   totalQuestions,
-  //   correctAnswers,
-  //   percentage: Math.round((correctAnswers / totalQuestions) * 100)
-  // });
-  // console.log('=== END QUIZ SCORING DEBUG ===');
-  
-  return Math.round((correctAnswers / totalQuestions) * 100);
+  if (totalQuestions === 0) return 0;
+
+  // Partial credit counts, so a half-right ordering question adds half a point
+  const earned = session.questions.reduce(
+    (sum, question) => sum + scoreAnswer(question, session.answers[question.id]),
+    0
+  );
+
+  return Math.round((earned / totalQuestions) * 100);
 };
 
 export const generateQuizFeedback = (session: QuizSession): QuizFeedback[] => {
   return session.questions.map(question => {
     const selectedAnswer = session.answers[question.id];
-    // Ensure both values are numbers for comparison
-    const selectedAnswerNum = typeof selectedAnswer === 'string' ? parseInt(selectedAnswer) : selectedAnswer;
-    // Both selectedAnswerNum and question.correctAnswer are 0-based
-    const isCorrect = selectedAnswerNum !== undefined ? selectedAnswerNum === question.correctAnswer : false;
+    const credit = scoreAnswer(question, selectedAnswer);
+    const isCorrect = credit >= 1;
     
     return {
       questionId: question.id,
       isCorrect,
-      selectedAnswer: selectedAnswerNum,
-      correctAnswer: question.correctAnswer,
+      credit,
+      selectedAnswer,
+      correctAnswer: getCorrectAnswer(question),
       explanation: question.explanation,
-      improvementSuggestions: isCorrect ? [] : [
-        `Review the ${question.subCategory} concepts`,
-        `Practice with ${question.relatedConcepts.join(', ')} topics`,
-        `Consider exploring the ${question.category} section in more detail`
-      ]
+      improvementSuggestions: isCorrect ? [] : getImprovementSuggestions(question, selectedAnswer)
     };
   });
 };
@@ -1384,8 +1551,123 @@ class ResilientAgentFramework:
   }
 ];
 
+// Hands-on questions that go beyond single choice
+const buildingPatternsQuestions: QuizQuestion[] = [
+  {
+    id: 'building-react-multi',
+    type: 'multi-select',
+    question: 'Which of these does a ReAct agent need in its loop? Select all that apply.',
+    options: [
+      'A reasoning step that decides the next action',
+      'Tools the agent can call',
+      'Observations fed back into the next reasoning step',
+      'A fixed plan created before the first action',
+      'A vector database'
+    ],
+    correctAnswers: [0, 1, 2],
+    explanation: 'ReAct interleaves reasoning, tool calls and observations. It plans one step at a time, so it needs no up-front plan, and retrieval is optional.',
+    difficulty: 'intermediate',
+    category: 'agent-patterns',
+    subCategory: 'building-patterns',
+    learningObjectives: ['Identify the parts of a ReAct loop'],
+    relatedConcepts: ['react', 'tool-use', 'reasoning'],
+    persona: ['agent-designer', 'agent-developer', 'ai-engineer', 'agent-architect'],
+    timeEstimate: 60
+  },
+  {
+    id: 'building-react-order',
+    type: 'ordering',
+    question: 'Put the stages of one ReAct iteration in order.',
+    options: [
+      'Thought: reason about the task and what is known so far',
+      'Action: choose a tool and its input',
+      'Observation: read the tool result',
+      'Repeat or give the final answer'
+    ],
+    explanation: 'Each ReAct iteration reasons first, then acts, then observes the result before deciding whether to loop again or answer.',
+    difficulty: 'beginner',
+    category: 'agent-patterns',
+    subCategory: 'building-patterns',
+    learningObjectives: ['Sequence the ReAct loop'],
+    relatedConcepts: ['react', 'reasoning'],
+    persona: ['business-leader', 'no-code-engineer', 'agent-designer', 'agent-developer', 'ai-enthusiast', 'ai-engineer', 'agent-architect', 'ai-ops-engineer'],
+    timeEstimate: 60
+  },
+  {
+    id: 'building-react-code',
+    type: 'code-completion',
+    question: 'Complete the ReAct loop so it stops on a final answer and records each observation.',
+    options: [],
+    codeTemplate: `for (let step = 0; step < maxSteps; step++) {
+  const response = await llm(messages);
+  if (response.{{final-check}}) {
+    return response.finalAnswer;
+  }
+  const result = await tools[response.action](response.actionInput);
+  messages.push({ role: 'tool', content: {{observation}} });
+}`,
+    blanks: [
+      { id: 'final-check', acceptedAnswers: ['finalAnswer', 'isFinal'], hint: 'the field holding the answer' },
+      { id: 'observation', acceptedAnswers: ['result', 'JSON.stringify(result)', 'String(result)'], hint: 'what the tool returned' }
+    ],
+    explanation: 'The loop exits as soon as the model produces a final answer; otherwise the tool result goes back into the conversation as an observation.',
+    difficulty: 'advanced',
+    category: 'agent-patterns',
+    subCategory: 'building-patterns',
+    learningObjectives: ['Implement the ReAct control loop'],
+    relatedConcepts: ['react', 'tool-use', 'implementation'],
+    persona: ['agent-developer', 'ai-engineer'],
+    timeEstimate: 120
+  },
+  {
+    id: 'building-reflection-hotspot',
+    type: 'hotspot',
+    question: 'In the Self-Reflection pattern, click the node that reviews the first draft and says what to improve.',
+    options: [],
+    patternId: 'self-reflection',
+    correctNodeIds: ['critique'],
+    explanation: 'The Critique step reviews the first draft; the Generator then revises it using that critique.',
+    difficulty: 'intermediate',
+    category: 'agent-patterns',
+    subCategory: 'building-patterns',
+    learningObjectives: ['Locate the critique step in Self-Reflection'],
+    relatedConcepts: ['self-reflection', 'evaluation'],
+    persona: ['agent-designer', 'agent-developer', 'ai-enthusiast', 'ai-engineer', 'agent-architect'],
+    timeEstimate: 45
+  },
+  {
+    id: 'building-react-hotspot',
+    type: 'hotspot',
+    question: 'In the ReAct Agent pattern, click the node the agent calls to act on the world.',
+    options: [],
+    patternId: 'react-agent',
+    correctNodeIds: ['tools'],
+    explanation: 'The Tools node is where actions run; the LLM nodes only decide what to do and interpret the result.',
+    difficulty: 'beginner',
+    category: 'agent-patterns',
+    subCategory: 'building-patterns',
+    learningObjectives: ['Locate the acting step in ReAct'],
+    relatedConcepts: ['react', 'tool-use'],
+    persona: ['business-leader', 'no-code-engineer', 'agent-designer', 'agent-developer', 'ai-enthusiast', 'ai-engineer', 'agent-architect', 'ai-ops-engineer'],
+    timeEstimate: 30
+  }
+];
+
 // Add these questions to the main categories
 quizCategories.forEach(category => {
+  if (category.id === 'agent-patterns') {
+    if (!category.subCategories.find(sub => sub.id === 'building-patterns')) {
+      category.subCategories.push({
+        id: 'building-patterns',
+        name: 'Building Patterns',
+        description: 'Hands-on questions: select, order, complete code and find nodes in pattern diagrams',
+        questions: buildingPatternsQuestions,
+        prerequisites: ['react-pattern']
+      });
+      category.totalQuestions += buildingPatternsQuestions.length;
+    }
+  }
+
   if (category.id === 'business-strategy') {
     if (!category.subCategories.find(sub => sub.id === 'enterprise-implementation')) {
       category.subCategories.push({
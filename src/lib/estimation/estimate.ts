@@ -0,0 +1,142 @@
+import {
+  CostEstimatorSettings,
+  ModelPricing,
+  NodeTokenProfile,
+  PatternNodeType,
+  azureOpenAIPricingPresets
+} from '../data/modelPricing';
+import { simulatePattern, getSimulationNodeType, SimulationGraph, SimulationScenario } from '../simulation';
+import { EstimateOptions, NodeEstimate, PatternEstimate } from './types';
+
+const DEFAULT_SAMPLES = 200;
+const SAMPLE_SEED = 20240601;
+// Log-normal spread of a visit's latency around its median; tools vary more than the model
+const MODEL_LATENCY_SPREAD = 0.35;
+const OVERHEAD_LATENCY_SPREAD = 0.6;
+
+// Seeded generator (mulberry32), so the same pattern and settings always give the same percentiles
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal sample (Box-Muller)
+const sampleNormal = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+/**
+ * Linearly interpolated percentile, `fraction` between 0 and 1
+ */
+export const percentile = (values: number[], fraction: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * Token profile for a node type; unknown types are priced like an LLM call
+ */
+export const getTokenProfile = (settings: CostEstimatorSettings, nodeType?: string): NodeTokenProfile =>
+  settings.tokenProfiles[nodeType as PatternNodeType] ?? settings.tokenProfiles.llm;
+
+export const getSelectedPricing = (settings: CostEstimatorSettings): ModelPricing =>
+  settings.pricing.find(pricing => pricing.id === settings.deploymentId)
+    ?? settings.pricing[0]
+    ?? azureOpenAIPricingPresets[0];
+
+const callsModel = (profile: NodeTokenProfile) => profile.inputTokens + profile.outputTokens > 0;
+
+// Median time of one visit: fixed overhead plus, for model calls, waiting for and streaming the output
+const visitLatency = (profile: NodeTokenProfile, pricing: ModelPricing) =>
+  profile.overheadMs + (callsModel(profile)
+    ? pricing.timeToFirstTokenMs + (profile.outputTokens / Math.max(pricing.outputTokensPerSecond, 1)) * 1000
+    : 0);
+
+const endTime = (graph: SimulationGraph, scenario: SimulationScenario) => {
+  const events = simulatePattern(graph, scenario);
+  return events[events.length - 1]?.time ?? 0;
+};
+
+/**
+ * Estimate tokens, cost and latency of one request through a pattern graph.
+ *
+ * The simulation engine decides how often each node runs (loops run
+ * `settings.loopIterations` times, routers take one branch) and which nodes run in
+ * parallel. Latency percentiles come from re-running it with sampled node durations;
+ * a node keeps its sampled duration for every visit within a run.
+ */
+export const estimatePattern = (
+  graph: SimulationGraph,
+  settings: CostEstimatorSettings,
+  { routes, samples = DEFAULT_SAMPLES }: EstimateOptions = {}
+): PatternEstimate => {
+  const pricing = getSelectedPricing(settings);
+  const scenario: SimulationScenario = {
+    loopIterations: settings.loopIterations,
+    routes,
+    transitDuration: 0
+  };
+
+  const visits = new Map<string, number>();
+  simulatePattern(graph, scenario).forEach(event => {
+    if (event.kind === 'node_enter') visits.set(event.nodeId, (visits.get(event.nodeId) ?? 0) + 1);
+  });
+
+  const profiles = new Map(graph.nodes.map(node => [node.id, getTokenProfile(settings, getSimulationNodeType(node))]));
+  const nodes: NodeEstimate[] = graph.nodes.map(node => {
+    const profile = profiles.get(node.id)!;
+    const count = visits.get(node.id) ?? 0;
+    const inputTokens = profile.inputTokens * count;
+    const outputTokens = profile.outputTokens * count;
+    return {
+      nodeId: node.id,
+      label: node.data?.label ?? node.id,
+      nodeType: getSimulationNodeType(node),
+      visits: count,
+      inputTokens,
+      outputTokens,
+      cost: (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000,
+      latencyMs: visitLatency(profile, pricing)
+    };
+  });
+
+  const random = createRandom(SAMPLE_SEED);
+  const durations: number[] = [];
+  for (let i = 0; i < samples; i++) {
+    const nodeDurations = Object.fromEntries(nodes.map(node => {
+      const spread = callsModel(profiles.get(node.nodeId)!) ? MODEL_LATENCY_SPREAD : OVERHEAD_LATENCY_SPREAD;
+      return [node.nodeId, node.latencyMs * Math.exp(spread * sampleNormal(random))];
+    }));
+    durations.push(endTime(graph, { ...scenario, nodeDurations }));
+  }
+
+  return {
+    deploymentId: pricing.id,
+    modelCalls: nodes
+      .filter(node => callsModel(profiles.get(node.nodeId)!))
+      .reduce((sum, node) => sum + node.visits, 0),
+    inputTokens: nodes.reduce((sum, node) => sum + node.inputTokens, 0),
+    outputTokens: nodes.reduce((sum, node) => sum + node.outputTokens, 0),
+    cost: nodes.reduce((sum, node) => sum + node.cost, 0),
+    latency: { p50: percentile(durations, 0.5), p95: percentile(durations, 0.95) },
+    nodes
+  };
+};
+
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+export const formatLatency = (ms: number): string =>
+  ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${Math.round(tokens)}`;
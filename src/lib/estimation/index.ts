@@ -0,0 +1,10 @@
+export {
+  estimatePattern,
+  getTokenProfile,
+  getSelectedPricing,
+  percentile,
+  formatCost,
+  formatLatency,
+  formatTokens
+} from './estimate';
+export type { PatternEstimate, NodeEstimate, LatencyPercentiles, EstimateOptions } from './types';
@@ -0,0 +1,41 @@
+/**
+ * Expected work and spend of one node over a whole request
+ */
+export interface NodeEstimate {
+  nodeId: string;
+  label: string;
+  nodeType?: string;
+  // How often the node runs per request, loops included
+  visits: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  // Median time of a single visit
+  latencyMs: number;
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+}
+
+/**
+ * Expected tokens, cost and latency of one request through a pattern
+ */
+export interface PatternEstimate {
+  deploymentId: string;
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  // USD
+  cost: number;
+  latency: LatencyPercentiles;
+  nodes: NodeEstimate[];
+}
+
+export interface EstimateOptions {
+  // Router node id -> branch to price; routers follow their first branch otherwise
+  routes?: Record<string, string | string[]>;
+  // Number of sampled runs behind the latency percentiles
+  samples?: number;
+}
@@ -0,0 +1,39 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CodeExecutionStep } from '@/components/code-playbook/CodeStepVisualizer';
+import { extractSteps } from '@/lib/stepExtraction';
+
+const lineSteps = (code: string): CodeExecutionStep[] =>
+  code.split('\n').map((_, index) => ({
+    lineStart: index,
+    lineEnd: index,
+    description: `Line ${index + 1} execution`
+  }));
+
+/**
+ * Steps for a code visualizer: the hand-written ones when given, otherwise steps extracted
+ * from the source. One step per line is shown while extracting, or if extraction fails.
+ */
+export function useExtractedSteps(code: string, language: string, steps?: CodeExecutionStep[]) {
+  const [extracted, setExtracted] = useState<CodeExecutionStep[] | null>(null);
+
+  useEffect(() => {
+    if (steps) return;
+    let cancelled = false;
+    setExtracted(null);
+    extractSteps(code, language)
+      .then(result => {
+        if (!cancelled && result.length > 0) setExtracted(result);
+      })
+      .catch(error => console.warn('Failed to extract steps from code:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [code, language, steps]);
+
+  const fallback = useMemo(() => lineSteps(code), [code]);
+
+  return {
+    steps: steps ?? extracted ?? fallback,
+    isExtracted: !steps && extracted !== null
+  };
+}
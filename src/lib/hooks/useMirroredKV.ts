@@ -0,0 +1,42 @@
+import { useCallback, useMemo } from 'react';
+import { useKV } from '@github/spark/hooks';
+
+const mirrorKey = (key: string) => `kv-mirror:${key}`;
+
+const readMirror = (key: string): Record<string, string> => {
+  try {
+    const stored = localStorage.getItem(mirrorKey(key));
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn(`Failed to read the offline copy of ${key}:`, error);
+    return {};
+  }
+};
+
+const writeMirror = (key: string, value: Record<string, string>) => {
+  try {
+    localStorage.setItem(mirrorKey(key), JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save the offline copy of ${key}:`, error);
+  }
+};
+
+/**
+ * A string record in the KV store with a copy in localStorage. The KV store is a network
+ * service, so offline it can't load what was saved; the local copy fills in until it can.
+ */
+export function useMirroredKV(key: string) {
+  const [stored, setStored] = useKV<Record<string, string>>(key, {});
+  const value = useMemo(() => ({ ...readMirror(key), ...(stored ?? {}) }), [key, stored]);
+
+  const setValue = useCallback(
+    (next: Record<string, string> | ((current: Record<string, string>) => Record<string, string>)) => {
+      const resolved = typeof next === 'function' ? next({ ...readMirror(key), ...(stored ?? {}) }) : next;
+      writeMirror(key, resolved);
+      setStored(resolved);
+    },
+    [key, stored, setStored]
+  );
+
+  return [value, setValue] as const;
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Whether the browser reports a network connection, updated on online/offline events
+ */
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+}
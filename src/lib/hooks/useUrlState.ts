@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+
+/**
+ * Query parameters that make a view shareable. Together with the /patterns/:patternId route
+ * they reopen the exact pattern, tab, language and step a link was copied from.
+ */
+export const URL_PARAMS = {
+  // Pattern Explorer tab: visualization, details or implementation
+  section: 'section',
+  // Code Playbook tab, e.g. debugger
+  tab: 'tab',
+  lang: 'lang',
+  // 1-based step of the debugger or the implementation steps
+  step: 'step',
+  // Core Concepts tab, e.g. mcp
+  concept: 'concept'
+} as const;
+
+type ParamValue = string | number | null | undefined;
+
+/**
+ * Read and update query parameters of the current route. Several parameters can change in
+ * one update, and null, undefined or '' removes a parameter. Updates replace the history
+ * entry unless `push` is set, so stepping through a debugger doesn't flood the back button.
+ */
+export function useUrlState() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const params = useMemo(() => new URLSearchParams(location.search), [location.search]);
+
+  const update = useCallback((changes: Record<string, ParamValue>, options: { push?: boolean } = {}) => {
+    const next = new URLSearchParams(location.search);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null || value === undefined || value === '') {
+        next.delete(key);
+      } else {
+        next.set(key, String(value));
+      }
+    });
+    const search = next.toString();
+    if (search === location.search.replace(/^\?/, '')) return;
+    navigate({ pathname: location.pathname, search: search ? `?${search}` : '' }, { replace: !options.push });
+  }, [location.pathname, location.search, navigate]);
+
+  return { params, update };
+}
+
+/**
+ * Parse a 1-based step parameter into a 0-based index, or undefined when absent or invalid
+ */
+export const parseStepParam = (value: string | null): number | undefined => {
+  const step = Number(value);
+  return value && Number.isInteger(step) && step >= 1 ? step - 1 : undefined;
+};
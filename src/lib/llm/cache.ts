@@ -0,0 +1,82 @@
+import { LLMCompletion, LLMCompletionOptions, LLMMessage, LLMProvider } from './types';
+
+export const LLM_CACHE_STORAGE_KEY = 'llm-response-cache';
+
+// Oldest responses are dropped past this, keeping localStorage well under its quota
+const MAX_CACHED_RESPONSES = 200;
+
+interface CachedResponse {
+  key: string;
+  completion: LLMCompletion;
+  cachedAt: string;
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// The same prompt to the same model gets the same entry, whatever the call site
+const cacheKey = (providerId: string, prompt: string | LLMMessage[], options: LLMCompletionOptions) =>
+  JSON.stringify([
+    providerId,
+    options.model ?? '',
+    options.systemPrompt ?? '',
+    Boolean(options.jsonMode),
+    typeof prompt === 'string' ? prompt : prompt.map(message => [message.role, message.content])
+  ]);
+
+export const loadLLMCache = (): CachedResponse[] => {
+  try {
+    const saved = localStorage.getItem(LLM_CACHE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn('Failed to read cached LLM responses:', error);
+    return [];
+  }
+};
+
+export const saveLLMCache = (entries: CachedResponse[]): void => {
+  try {
+    localStorage.setItem(LLM_CACHE_STORAGE_KEY, JSON.stringify(entries.slice(-MAX_CACHED_RESPONSES)));
+  } catch (error) {
+    console.warn('Failed to cache LLM responses:', error);
+  }
+};
+
+export const clearLLMCache = (): void => {
+  localStorage.removeItem(LLM_CACHE_STORAGE_KEY);
+};
+
+/**
+ * Wrap a provider so every response is kept locally and replayed when the network is gone.
+ * Offline, cached responses are returned without a request; a failed request falls back to
+ * the cache too. The replayed completion has `cached` set.
+ */
+export const withResponseCache = (provider: LLMProvider): LLMProvider => ({
+  ...provider,
+  complete: async (prompt, options = {}) => {
+    const key = cacheKey(provider.id, prompt, options);
+    const replay = (): LLMCompletion | null => {
+      const entry = loadLLMCache().find(cached => cached.key === key);
+      if (!entry) return null;
+      options.onToken?.(entry.completion.text, entry.completion.text);
+      return { ...entry.completion, cached: true, latencyMs: 0 };
+    };
+
+    if (isOffline()) {
+      const cached = replay();
+      if (cached) return cached;
+      throw new Error("You're offline and this response hasn't been cached yet. Reconnect, or switch to the offline mock model in AI Model settings.");
+    }
+
+    try {
+      const completion = await provider.complete(prompt, options);
+      const entries = loadLLMCache().filter(cached => cached.key !== key);
+      saveLLMCache([...entries, { key, completion, cachedAt: new Date().toISOString() }]);
+      return completion;
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      const cached = replay();
+      if (cached) return cached;
+      throw error;
+    }
+  }
+});
@@ -0,0 +1,29 @@
+export {
+  createSparkProvider,
+  createOpenAICompatibleProvider,
+  createMockProvider,
+  getChatCompletionsUrl,
+  estimateTokens
+} from './providers';
+export {
+  LLM_SETTINGS_STORAGE_KEY,
+  defaultLLMSettings,
+  openAICompatiblePresets,
+  loadLLMSettings,
+  saveLLMSettings,
+  createLLMProvider
+} from './settings';
+export { LLM_CACHE_STORAGE_KEY, loadLLMCache, saveLLMCache, clearLLMCache, withResponseCache } from './cache';
+export type {
+  LLMProviderId,
+  LLMProviderSelection,
+  LLMMessage,
+  LLMCompletionOptions,
+  LLMUsage,
+  LLMCompletion,
+  LLMProvider,
+  OpenAICompatibleFlavor,
+  OpenAICompatibleSettings,
+  MockProviderSettings,
+  LLMSettings
+} from './types';
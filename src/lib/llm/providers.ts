@@ -0,0 +1,250 @@
+import {
+  LLMProvider,
+  LLMMessage,
+  LLMCompletionOptions,
+  LLMCompletion,
+  LLMUsage,
+  OpenAICompatibleSettings,
+  MockProviderSettings
+} from './types';
+
+/**
+ * Rough token estimate (~4 characters per token) for providers that do not report usage
+ */
+export const estimateTokens = (text: string): number => {
+  return text ? Math.max(1, Math.ceil(text.length / 4)) : 0;
+};
+
+const toMessages = (prompt: string | LLMMessage[], options: LLMCompletionOptions): LLMMessage[] => {
+  const messages: LLMMessage[] = typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : [...prompt];
+  if (options.systemPrompt && !messages.some(message => message.role === 'system')) {
+    messages.unshift({ role: 'system', content: options.systemPrompt });
+  }
+  return messages;
+};
+
+// Providers that only accept a single prompt string get the conversation flattened
+const flattenMessages = (messages: LLMMessage[]): string => {
+  if (messages.length === 1) return messages[0].content;
+  return messages.map(message => `${message.role.toUpperCase()}: ${message.content}`).join('\n\n');
+};
+
+const estimateUsage = (messages: LLMMessage[], text: string): LLMUsage => {
+  const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const completionTokens = estimateTokens(text);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+};
+
+/**
+ * Spark host LLM (window.spark.llm); only available when running inside GitHub Spark
+ */
+export const createSparkProvider = (): LLMProvider => ({
+  id: 'spark',
+  label: 'GitHub Spark',
+  isAvailable: () =>
+    typeof window !== 'undefined' &&
+    !!window.spark &&
+    typeof window.spark.llm === 'function' &&
+    typeof window.spark.llmPrompt === 'function',
+  complete: async (prompt, options = {}) => {
+    if (typeof window === 'undefined' || !window.spark || typeof window.spark.llm !== 'function') {
+      throw new Error('Spark API is not available. Choose another AI model provider in settings.');
+    }
+
+    const messages = toMessages(prompt, options);
+    const model = options.model || 'gpt-4o';
+    const startedAt = performance.now();
+    const sparkPrompt = window.spark.llmPrompt`${flattenMessages(messages)}`;
+    const text = await window.spark.llm(sparkPrompt, model, options.jsonMode);
+    options.onToken?.(text, text);
+
+    return {
+      text,
+      provider: 'spark',
+      model,
+      usage: estimateUsage(messages, text),
+      latencyMs: Math.round(performance.now() - startedAt)
+    };
+  }
+});
+
+/**
+ * Build the chat completions URL for an OpenAI-compatible endpoint
+ */
+export const getChatCompletionsUrl = (settings: OpenAICompatibleSettings): string => {
+  const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+  if (settings.flavor === 'azure-openai') {
+    const deployment = encodeURIComponent(settings.model);
+    return `${baseUrl}/openai/deployments/${deployment}/chat/completions?api-version=${encodeURIComponent(settings.apiVersion)}`;
+  }
+  return `${baseUrl}/chat/completions`;
+};
+
+/**
+ * Read a server-sent event stream of chat completion chunks into a non-streaming response shape
+ */
+const readChatCompletionStream = async (
+  body: ReadableStream<Uint8Array>,
+  onToken: (delta: string, textSoFar: string) => void
+): Promise<any> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let model: string | undefined;
+  let usage: any;
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return;
+    const payload = trimmed.slice(5).trim();
+    if (!payload || payload === '[DONE]') return;
+    try {
+      const chunk = JSON.parse(payload);
+      model = chunk.model || model;
+      usage = chunk.usage || usage;
+      const delta: string = chunk.choices?.[0]?.delta?.content ?? '';
+      if (delta) {
+        text += delta;
+        onToken(delta, text);
+      }
+    } catch (error) {
+      console.warn('Skipping malformed stream chunk:', payload);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  return { model, usage, choices: [{ message: { content: text } }] };
+};
+
+/**
+ * Any endpoint speaking the OpenAI chat completions API: OpenAI, Azure OpenAI, Ollama, LM Studio
+ */
+export const createOpenAICompatibleProvider = (settings: OpenAICompatibleSettings): LLMProvider => ({
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible endpoint',
+  isAvailable: () => settings.baseUrl.trim().length > 0 && settings.model.trim().length > 0,
+  complete: async (prompt, options = {}) => {
+    if (!settings.baseUrl.trim() || !settings.model.trim()) {
+      throw new Error('The OpenAI-compatible provider needs an endpoint URL and a model name.');
+    }
+
+    const messages = toMessages(prompt, options);
+    const model = options.model || settings.model;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      if (settings.flavor === 'azure-openai') headers['api-key'] = settings.apiKey;
+      else headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    const startedAt = performance.now();
+    const response = await fetch(getChatCompletionsUrl({ ...settings, model }), {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        response_format: options.jsonMode ? { type: 'json_object' } : undefined,
+        stream: options.onToken ? true : undefined
+      })
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Model endpoint returned ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+    }
+
+    const data = options.onToken && response.body
+      ? await readChatCompletionStream(response.body, options.onToken)
+      : await response.json();
+    const text: string = data?.choices?.[0]?.message?.content ?? '';
+    const usage: LLMUsage = data?.usage
+      ? {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+          totalTokens: data.usage.total_tokens ?? (data.usage.prompt_tokens ?? 0) + (data.usage.completion_tokens ?? 0),
+          estimated: false
+        }
+      : estimateUsage(messages, text);
+
+    return {
+      text,
+      provider: 'openai-compatible',
+      model: data?.model || model,
+      usage,
+      latencyMs: Math.round(performance.now() - startedAt)
+    };
+  }
+});
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+/**
+ * Deterministic offline responses so the app works without any model server
+ */
+export const createMockProvider = (settings: MockProviderSettings): LLMProvider => ({
+  id: 'mock',
+  label: 'Offline mock',
+  isAvailable: () => true,
+  complete: async (prompt, options = {}) => {
+    const messages = toMessages(prompt, options);
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user')?.content ?? '';
+    const firstLine = lastUserMessage.split('\n').map(line => line.trim()).find(line => line.length > 0) ?? '';
+    const topic = firstLine.length > 120 ? `${firstLine.slice(0, 117)}...` : firstLine;
+
+    const text = options.jsonMode
+      ? JSON.stringify({ mock: true, prompt: topic, answer: 'Offline mock response' })
+      : [
+          '## Offline response',
+          '',
+          'This answer comes from the offline mock provider, so it is a placeholder rather than real model output.',
+          '',
+          `**Your prompt:** ${topic || '(empty)'}`,
+          '',
+          'To get real answers, open **AI Model Settings** and choose GitHub Spark or an OpenAI-compatible endpoint such as Azure OpenAI, Ollama or LM Studio.'
+        ].join('\n');
+
+    if (options.onToken) {
+      // Spread the simulated latency over word-sized chunks
+      const chunks = text.match(/\S+\s*/g) ?? [text];
+      let textSoFar = '';
+      for (const chunk of chunks) {
+        await wait(settings.latencyMs / chunks.length, options.signal);
+        textSoFar += chunk;
+        options.onToken(chunk, textSoFar);
+      }
+    } else {
+      await wait(settings.latencyMs, options.signal);
+    }
+
+    return {
+      text,
+      provider: 'mock',
+      model: 'mock',
+      usage: estimateUsage(messages, text),
+      latencyMs: settings.latencyMs
+    };
+  }
+});
@@ -0,0 +1,91 @@
+import { LLMSettings, LLMProvider, OpenAICompatibleFlavor, OpenAICompatibleSettings } from './types';
+import { createSparkProvider, createOpenAICompatibleProvider, createMockProvider } from './providers';
+import { withResponseCache } from './cache';
+
+export const LLM_SETTINGS_STORAGE_KEY = 'llm-provider-settings';
+
+export const defaultLLMSettings: LLMSettings = {
+  provider: 'auto',
+  openai: {
+    flavor: 'ollama',
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    model: 'llama3.1',
+    apiVersion: '2024-10-21'
+  },
+  mock: {
+    latencyMs: 600
+  }
+};
+
+// Starting values offered when the user picks an endpoint flavor in the settings panel
+export const openAICompatiblePresets: Record<OpenAICompatibleFlavor, { label: string; settings: Partial<OpenAICompatibleSettings> }> = {
+  'openai': {
+    label: 'OpenAI',
+    settings: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' }
+  },
+  'azure-openai': {
+    label: 'Azure OpenAI',
+    settings: { baseUrl: 'https://<resource>.openai.azure.com', model: 'gpt-4o', apiVersion: '2024-10-21' }
+  },
+  'ollama': {
+    label: 'Ollama',
+    settings: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' }
+  },
+  'lm-studio': {
+    label: 'LM Studio',
+    settings: { baseUrl: 'http://localhost:1234/v1', model: 'local-model' }
+  },
+  'custom': {
+    label: 'Custom',
+    settings: {}
+  }
+};
+
+/**
+ * Read persisted settings, filling gaps from the defaults
+ */
+export const loadLLMSettings = (): LLMSettings => {
+  if (typeof window === 'undefined') return defaultLLMSettings;
+  try {
+    const saved = localStorage.getItem(LLM_SETTINGS_STORAGE_KEY);
+    if (!saved) return defaultLLMSettings;
+    const parsed = JSON.parse(saved) as Partial<LLMSettings>;
+    return {
+      provider: parsed.provider ?? defaultLLMSettings.provider,
+      openai: { ...defaultLLMSettings.openai, ...parsed.openai },
+      mock: { ...defaultLLMSettings.mock, ...parsed.mock }
+    };
+  } catch (error) {
+    console.warn('Failed to read LLM settings, using defaults:', error);
+    return defaultLLMSettings;
+  }
+};
+
+export const saveLLMSettings = (settings: LLMSettings): void => {
+  try {
+    localStorage.setItem(LLM_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save LLM settings:', error);
+  }
+};
+
+/**
+ * Build the provider described by the settings, resolving 'auto'. Network-backed providers
+ * keep their responses so they can be replayed offline; the mock needs no network.
+ */
+export const createLLMProvider = (settings: LLMSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'spark':
+      return withResponseCache(createSparkProvider());
+    case 'openai-compatible':
+      return withResponseCache(createOpenAICompatibleProvider(settings.openai));
+    case 'mock':
+      return createMockProvider(settings.mock);
+    case 'auto':
+    default: {
+      const spark = createSparkProvider();
+      return spark.isAvailable() ? withResponseCache(spark) : createMockProvider(settings.mock);
+    }
+  }
+};
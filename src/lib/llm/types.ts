@@ -0,0 +1,73 @@
+export type LLMProviderId = 'spark' | 'openai-compatible' | 'mock';
+
+// 'auto' uses Spark inside the Spark host and the offline mock everywhere else
+export type LLMProviderSelection = LLMProviderId | 'auto';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionOptions {
+  model?: string;
+  systemPrompt?: string;
+  jsonMode?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // Receive the response incrementally; providers without streaming call it once
+  onToken?: (delta: string, textSoFar: string) => void;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // True when counts were estimated locally because the provider did not report them
+  estimated: boolean;
+}
+
+export interface LLMCompletion {
+  text: string;
+  provider: LLMProviderId;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+  // Replayed from the local response cache instead of requested (see withResponseCache)
+  cached?: boolean;
+}
+
+/**
+ * Common surface every model backend implements
+ */
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  isAvailable: () => boolean;
+  complete: (prompt: string | LLMMessage[], options?: LLMCompletionOptions) => Promise<LLMCompletion>;
+}
+
+// Where an OpenAI-compatible endpoint is hosted; decides URL layout and auth header
+export type OpenAICompatibleFlavor = 'openai' | 'azure-openai' | 'ollama' | 'lm-studio' | 'custom';
+
+export interface OpenAICompatibleSettings {
+  flavor: OpenAICompatibleFlavor;
+  // e.g. http://localhost:11434/v1 or https://my-resource.openai.azure.com
+  baseUrl: string;
+  apiKey: string;
+  // Model name, or deployment name for Azure OpenAI
+  model: string;
+  // Only used by Azure OpenAI
+  apiVersion: string;
+}
+
+export interface MockProviderSettings {
+  // Simulated response time in ms
+  latencyMs: number;
+}
+
+export interface LLMSettings {
+  provider: LLMProviderSelection;
+  openai: OpenAICompatibleSettings;
+  mock: MockProviderSettings;
+}
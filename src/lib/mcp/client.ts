@@ -0,0 +1,203 @@
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcError,
+  createError,
+  createNotification,
+  createRequest,
+  createResult,
+  isRequest,
+  isResponse,
+  parseMessage
+} from './jsonRpc';
+import { LATEST_PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from './server';
+import {
+  JsonRpcId,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  McpCallToolResult,
+  McpGetPromptResult,
+  McpImplementation,
+  McpInitializeResult,
+  McpPrompt,
+  McpResource,
+  McpResourceContents,
+  McpTool,
+  McpTransport,
+  McpWireMessage
+} from './types';
+
+export const DEFAULT_MCP_REQUEST_TIMEOUT_MS = 15000;
+
+const CLIENT_INFO: McpImplementation = { name: 'agents-playground', title: 'Agent Patterns Playground', version: '1.0.0' };
+
+export interface McpClientOptions {
+  // Every frame sent or received, in order
+  onWire?: (message: McpWireMessage) => void;
+  // Notifications the server sends unprompted
+  onNotification?: (notification: JsonRpcNotification) => void;
+  timeoutMs?: number;
+}
+
+export interface McpClient {
+  initialize: () => Promise<McpInitializeResult>;
+  ping: () => Promise<void>;
+  listTools: () => Promise<McpTool[]>;
+  callTool: (name: string, args?: Record<string, unknown>) => Promise<McpCallToolResult>;
+  listResources: () => Promise<McpResource[]>;
+  readResource: (uri: string) => Promise<McpResourceContents[]>;
+  listPrompts: () => Promise<McpPrompt[]>;
+  getPrompt: (name: string, args?: Record<string, string>) => Promise<McpGetPromptResult>;
+  // Any method; resolves with the raw result
+  request: (method: string, params?: Record<string, any>) => Promise<any>;
+  // Send text as-is, for trying malformed or hand-written frames; replies still reach onWire
+  sendRaw: (text: string) => Promise<void>;
+  close: () => void;
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * MCP client over any string transport. Requests are correlated with responses by id and
+ * rejected with a JsonRpcError when the server answers with an error.
+ */
+export const createMcpClient = (transport: McpTransport, options: McpClientOptions = {}): McpClient => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_MCP_REQUEST_TIMEOUT_MS;
+  const pending = new Map<JsonRpcId, PendingRequest>();
+  let nextId = 1;
+  let seq = 0;
+
+  const record = (direction: McpWireMessage['direction'], text: string) => {
+    options.onWire?.({
+      seq: seq++,
+      direction,
+      transport: transport.kind,
+      text,
+      message: parseMessage(text),
+      timestamp: Date.now()
+    });
+  };
+
+  const send = (text: string): Promise<void> => {
+    record('outgoing', text);
+    return Promise.resolve().then(() => transport.send(text));
+  };
+
+  // The server can ask too: answer ping, and refuse the rest so the server isn't left waiting
+  const answer = (message: JsonRpcRequest) => {
+    const reply = message.method === 'ping'
+      ? createResult(message.id, {})
+      : createError(message.id, { code: JSON_RPC_ERRORS.METHOD_NOT_FOUND, message: `Method not found: ${message.method}` });
+    send(JSON.stringify(reply)).catch(error => {
+      console.warn(`Failed to answer ${message.method}:`, error);
+    });
+  };
+
+  const unsubscribe = transport.onMessage(text => {
+    record('incoming', text);
+    const message = parseMessage(text);
+    if (!message) return;
+    if (isResponse(message)) {
+      const request = message.id === null ? undefined : pending.get(message.id);
+      if (!request) return;
+      pending.delete(message.id!);
+      clearTimeout(request.timer);
+      if ('error' in message) {
+        request.reject(new JsonRpcError(message.error.code, message.error.message, message.error.data));
+      } else {
+        request.resolve(message.result);
+      }
+    } else if (isRequest(message)) {
+      answer(message);
+    } else {
+      options.onNotification?.(message);
+    }
+  });
+
+  const request = (method: string, params?: Record<string, any>): Promise<any> =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        notify('notifications/cancelled', { requestId: id, reason: 'Request timed out' });
+        reject(new JsonRpcError(JSON_RPC_ERRORS.INTERNAL_ERROR, `${method} timed out after ${timeoutMs} ms`));
+      }, timeoutMs);
+      pending.set(id, { resolve, reject, timer });
+      send(JSON.stringify(createRequest(id, method, params))).catch(error => {
+        if (!pending.has(id)) return;
+        pending.delete(id);
+        clearTimeout(timer);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+
+  const notify = (method: string, params?: Record<string, any>) => {
+    send(JSON.stringify(createNotification(method, params))).catch(error => {
+      console.warn(`Failed to send ${method}:`, error);
+    });
+  };
+
+  // Follow nextCursor until the server has sent every page of a list
+  const listAll = async <T>(method: string, key: string): Promise<T[]> => {
+    const items: T[] = [];
+    const seen = new Set<string>();
+    let cursor: string | undefined;
+    do {
+      const result = await request(method, cursor === undefined ? undefined : { cursor });
+      items.push(...(result?.[key] ?? []));
+      cursor = typeof result?.nextCursor === 'string' ? result.nextCursor : undefined;
+      if (cursor !== undefined && seen.has(cursor)) {
+        throw new JsonRpcError(JSON_RPC_ERRORS.INTERNAL_ERROR, `${method} returned cursor ${cursor} twice`);
+      }
+      if (cursor !== undefined) seen.add(cursor);
+    } while (cursor !== undefined);
+    return items;
+  };
+
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    unsubscribe();
+    pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error('Connection closed'));
+    });
+    pending.clear();
+    transport.close();
+  };
+
+  return {
+    initialize: async () => {
+      const result: McpInitializeResult = await request('initialize', {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: CLIENT_INFO
+      });
+      // The server picks the version; a session in one this client doesn't speak can't go on
+      if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result?.protocolVersion)) {
+        close();
+        throw new Error(
+          `Server wants MCP protocol version ${result?.protocolVersion ?? '(none)'}; this client supports ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`
+        );
+      }
+      notify('notifications/initialized');
+      return result;
+    },
+    ping: async () => {
+      await request('ping');
+    },
+    listTools: () => listAll<McpTool>('tools/list', 'tools'),
+    callTool: (name, args = {}) => request('tools/call', { name, arguments: args }),
+    listResources: () => listAll<McpResource>('resources/list', 'resources'),
+    readResource: async (uri) => (await request('resources/read', { uri })).contents,
+    listPrompts: () => listAll<McpPrompt>('prompts/list', 'prompts'),
+    getPrompt: (name, args = {}) => request('prompts/get', { name, arguments: args }),
+    request,
+    sendRaw: send,
+    close
+  };
+};
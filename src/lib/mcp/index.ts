@@ -0,0 +1,49 @@
+export { createMcpClient, DEFAULT_MCP_REQUEST_TIMEOUT_MS } from './client';
+export type { McpClient, McpClientOptions } from './client';
+export { createWorkerTransport } from './transport';
+export {
+  createRemoteTransport,
+  createStreamableHttpTransport,
+  createSseTransport,
+  createWebSocketTransport,
+  remoteTransportKinds
+} from './remoteTransport';
+export type { RemoteTransportKind, RemoteTransportOptions } from './remoteTransport';
+export { createMcpServer, textResult, LATEST_PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from './server';
+export type { McpServer, McpServerDefinition, McpToolDefinition, McpPromptDefinition } from './server';
+export {
+  JsonRpcError,
+  JSON_RPC_ERRORS,
+  parseMessage,
+  isRequest,
+  isNotification,
+  isResponse,
+  createRequest,
+  createNotification,
+  validateEnvelope
+} from './jsonRpc';
+export { mcpMethodSchemas, validateMcpFrame } from './messageSchemas';
+export { validateArguments, sampleFromSchema, primaryType } from './schema';
+export { sampleMcpServers } from './servers/catalog';
+export type { SampleMcpServer } from './servers/catalog';
+export type {
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcNotification,
+  JsonRpcResponse,
+  JsonRpcMessage,
+  JsonRpcErrorObject,
+  JsonSchema,
+  JsonSchemaType,
+  McpTransport,
+  McpWireMessage,
+  McpInitializeResult,
+  McpTool,
+  McpCallToolResult,
+  McpContent,
+  McpResource,
+  McpResourceContents,
+  McpPrompt,
+  McpPromptArgument,
+  McpGetPromptResult
+} from './types';
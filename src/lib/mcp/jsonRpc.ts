@@ -0,0 +1,107 @@
+import {
+  JsonRpcErrorObject,
+  JsonRpcFailure,
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse
+} from './types';
+
+// Error codes from the JSON-RPC 2.0 specification, plus the one MCP adds for resources
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  RESOURCE_NOT_FOUND: -32002
+} as const;
+
+/**
+ * A JSON-RPC error response, thrown by handlers and rejected by client requests
+ */
+export class JsonRpcError extends Error {
+  code: number;
+  data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+
+  toObject(): JsonRpcErrorObject {
+    return this.data === undefined
+      ? { code: this.code, message: this.message }
+      : { code: this.code, message: this.message, data: this.data };
+  }
+}
+
+export const createRequest = (id: JsonRpcId, method: string, params?: Record<string, any>): JsonRpcRequest =>
+  params === undefined ? { jsonrpc: '2.0', id, method } : { jsonrpc: '2.0', id, method, params };
+
+export const createNotification = (method: string, params?: Record<string, any>): JsonRpcNotification =>
+  params === undefined ? { jsonrpc: '2.0', method } : { jsonrpc: '2.0', method, params };
+
+export const createResult = (id: JsonRpcId, result: unknown): JsonRpcResponse => ({ jsonrpc: '2.0', id, result });
+
+export const createError = (id: JsonRpcId | null, error: JsonRpcErrorObject): JsonRpcFailure => ({
+  jsonrpc: '2.0',
+  id,
+  error
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isRequest = (message: unknown): message is JsonRpcRequest =>
+  isObject(message) && typeof message.method === 'string' && 'id' in message;
+
+export const isNotification = (message: unknown): message is JsonRpcNotification =>
+  isObject(message) && typeof message.method === 'string' && !('id' in message);
+
+export const isResponse = (message: unknown): message is JsonRpcResponse =>
+  isObject(message) && !('method' in message) && ('result' in message || 'error' in message);
+
+/**
+ * Parse one frame; null when it isn't JSON or isn't shaped like a JSON-RPC 2.0 message
+ */
+export const parseMessage = (text: string): JsonRpcMessage | null => {
+  try {
+    const message = JSON.parse(text);
+    if (!isObject(message) || message.jsonrpc !== '2.0') return null;
+    return isRequest(message) || isNotification(message) || isResponse(message) ? message : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * What makes a value an invalid JSON-RPC 2.0 frame, one message per problem. Unlike
+ * parseMessage this explains the rejection, for inspectors showing hand-written frames.
+ */
+export const validateEnvelope = (value: unknown): string[] => {
+  if (!isObject(value)) return ['A frame must be a JSON object'];
+  const errors: string[] = [];
+  if (value.jsonrpc !== '2.0') errors.push('jsonrpc must be "2.0"');
+  const validId = (id: unknown) => typeof id === 'string' || (typeof id === 'number' && Number.isInteger(id));
+  if ('method' in value) {
+    if (typeof value.method !== 'string') errors.push('method must be a string');
+    if ('id' in value && !validId(value.id)) errors.push('id of a request must be a string or an integer');
+    if (value.params !== undefined && typeof value.params !== 'object') errors.push('params must be an object or an array');
+    return errors;
+  }
+  if (!('id' in value)) errors.push('id is required in a response');
+  else if (value.id !== null && !validId(value.id)) errors.push('id of a response must be a string, an integer or null');
+  if (('result' in value) === ('error' in value)) errors.push('A response has exactly one of result and error');
+  if ('error' in value) {
+    if (!isObject(value.error)) errors.push('error must be an object');
+    else {
+      if (!Number.isInteger(value.error.code)) errors.push('error.code must be an integer');
+      if (typeof value.error.message !== 'string') errors.push('error.message must be a string');
+    }
+  }
+  return errors;
+};
@@ -0,0 +1,15 @@
+import { createMcpServer } from './server';
+import { createSampleServer } from './servers';
+import { SampleMcpServer } from './servers/catalog';
+
+/*
+ * Hosts one sample MCP server, chosen by the worker's name. Every message in either
+ * direction is a serialized JSON-RPC frame, like lines on a stdio transport.
+ */
+
+const server = createMcpServer(createSampleServer(self.name as SampleMcpServer['id']));
+
+self.onmessage = async (event: MessageEvent<string>) => {
+  const reply = await server.handle(event.data);
+  if (reply !== null) self.postMessage(reply);
+};
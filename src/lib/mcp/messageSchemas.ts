@@ -0,0 +1,159 @@
+import { isRequest, isResponse, isNotification, validateEnvelope } from './jsonRpc';
+import { validateArguments } from './schema';
+import { JsonSchema } from './types';
+
+const contentSchema: JsonSchema = {
+  type: 'object',
+  required: ['type'],
+  properties: { type: { type: 'string', enum: ['text', 'image', 'audio', 'resource', 'resource_link'] } }
+};
+
+const implementationSchema: JsonSchema = {
+  type: 'object',
+  required: ['name', 'version'],
+  properties: { name: { type: 'string' }, version: { type: 'string' }, title: { type: 'string' } }
+};
+
+const cursorParams: JsonSchema = { type: 'object', properties: { cursor: { type: 'string' } } };
+
+/**
+ * Params and result schemas of the MCP methods the playground uses, from the
+ * 2025-06-18 schema. Methods missing here are only checked as JSON-RPC frames.
+ */
+export const mcpMethodSchemas: Record<string, { params?: JsonSchema; result?: JsonSchema }> = {
+  initialize: {
+    params: {
+      type: 'object',
+      required: ['protocolVersion', 'capabilities', 'clientInfo'],
+      properties: { protocolVersion: { type: 'string' }, capabilities: { type: 'object' }, clientInfo: implementationSchema }
+    },
+    result: {
+      type: 'object',
+      required: ['protocolVersion', 'capabilities', 'serverInfo'],
+      properties: {
+        protocolVersion: { type: 'string' },
+        capabilities: { type: 'object' },
+        serverInfo: implementationSchema,
+        instructions: { type: 'string' }
+      }
+    }
+  },
+  ping: { result: { type: 'object' } },
+  'tools/list': {
+    params: cursorParams,
+    result: {
+      type: 'object',
+      required: ['tools'],
+      properties: {
+        tools: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'inputSchema'],
+            properties: { name: { type: 'string' }, description: { type: 'string' }, inputSchema: { type: 'object' } }
+          }
+        },
+        nextCursor: { type: 'string' }
+      }
+    }
+  },
+  'tools/call': {
+    params: {
+      type: 'object',
+      required: ['name'],
+      properties: { name: { type: 'string' }, arguments: { type: 'object' } }
+    },
+    result: {
+      type: 'object',
+      required: ['content'],
+      properties: {
+        content: { type: 'array', items: contentSchema },
+        structuredContent: { type: 'object' },
+        isError: { type: 'boolean' }
+      }
+    }
+  },
+  'resources/list': {
+    params: cursorParams,
+    result: {
+      type: 'object',
+      required: ['resources'],
+      properties: {
+        resources: {
+          type: 'array',
+          items: { type: 'object', required: ['uri', 'name'], properties: { uri: { type: 'string' }, name: { type: 'string' } } }
+        },
+        nextCursor: { type: 'string' }
+      }
+    }
+  },
+  'resources/read': {
+    params: { type: 'object', required: ['uri'], properties: { uri: { type: 'string' } } },
+    result: {
+      type: 'object',
+      required: ['contents'],
+      properties: {
+        contents: {
+          type: 'array',
+          items: { type: 'object', required: ['uri'], properties: { uri: { type: 'string' }, text: { type: 'string' }, blob: { type: 'string' } } }
+        }
+      }
+    }
+  },
+  'prompts/list': {
+    params: cursorParams,
+    result: {
+      type: 'object',
+      required: ['prompts'],
+      properties: {
+        prompts: { type: 'array', items: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } },
+        nextCursor: { type: 'string' }
+      }
+    }
+  },
+  'prompts/get': {
+    params: {
+      type: 'object',
+      required: ['name'],
+      properties: { name: { type: 'string' }, arguments: { type: 'object' } }
+    },
+    result: {
+      type: 'object',
+      required: ['messages'],
+      properties: {
+        description: { type: 'string' },
+        messages: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['role', 'content'],
+            properties: { role: { type: 'string', enum: ['user', 'assistant'] }, content: contentSchema }
+          }
+        }
+      }
+    }
+  },
+  'notifications/cancelled': {
+    params: { type: 'object', required: ['requestId'], properties: { requestId: { type: ['string', 'integer'] }, reason: { type: 'string' } } }
+  }
+};
+
+/**
+ * Check a parsed frame as JSON-RPC and, for known methods, its params or result.
+ * A response has no method of its own, so pass the method of the request it answers.
+ */
+export const validateMcpFrame = (value: unknown, requestMethod?: string): string[] => {
+  const errors = validateEnvelope(value);
+  if (errors.length > 0) return errors;
+  if (isRequest(value) || isNotification(value)) {
+    const schema = mcpMethodSchemas[value.method]?.params;
+    if (!schema) return errors;
+    if (value.params === undefined) return schema.required?.length ? ['params is required'] : errors;
+    return validateArguments(schema, value.params, 'params');
+  }
+  if (isResponse(value) && 'result' in value && requestMethod) {
+    const schema = mcpMethodSchemas[requestMethod]?.result;
+    if (schema) return validateArguments(schema, value.result, 'result');
+  }
+  return errors;
+};
@@ -0,0 +1,248 @@
+import { parseMessage, isResponse } from './jsonRpc';
+import { McpTransport } from './types';
+
+export type RemoteTransportKind = 'streamable-http' | 'sse' | 'websocket';
+
+export interface RemoteTransportOptions {
+  // Extra HTTP headers, e.g. Authorization. Browsers can't set headers on EventSource or WebSocket.
+  headers?: Record<string, string>;
+}
+
+export const remoteTransportKinds: { kind: RemoteTransportKind; name: string; placeholder: string }[] = [
+  { kind: 'streamable-http', name: 'Streamable HTTP', placeholder: 'http://localhost:3000/mcp' },
+  { kind: 'sse', name: 'HTTP + SSE (2024-11-05)', placeholder: 'http://localhost:3000/sse' },
+  { kind: 'websocket', name: 'WebSocket', placeholder: 'ws://localhost:3000/mcp' }
+];
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+const createListeners = () => {
+  const listeners = new Set<(message: string) => void>();
+  return {
+    emit: (message: string) => listeners.forEach(listener => listener(message)),
+    onMessage: (listener: (message: string) => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    clear: () => listeners.clear()
+  };
+};
+
+/**
+ * Read a text/event-stream body and call onEvent for every complete event
+ */
+export const readSseStream = async (body: ReadableStream<Uint8Array>, onEvent: (event: SseEvent) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (block: string) => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split(/\r?\n/).forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    });
+    if (data.length > 0) onEvent({ event, data: data.join('\n') });
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? '';
+    blocks.forEach(flush);
+  }
+  if (buffer.trim()) flush(buffer);
+};
+
+const httpError = async (response: Response, body?: string) => {
+  const text = body ?? await response.text().catch(() => '');
+  return new Error(`HTTP ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`);
+};
+
+// The frames of a JSON body, which may be a batch; a body that isn't JSON is one frame as is
+const splitJsonFrames = (text: string): string[] => {
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed.map(item => JSON.stringify(item)) : [text];
+  } catch {
+    return [text];
+  }
+};
+
+/**
+ * Streamable HTTP: every frame is a POST and the server answers with JSON or an SSE stream.
+ * The session id from initialize is sent back on later requests; the server must list
+ * Mcp-Session-Id in Access-Control-Expose-Headers for the browser to see it.
+ */
+export const createStreamableHttpTransport = (url: string, options: RemoteTransportOptions = {}): McpTransport => {
+  const listeners = createListeners();
+  const controllers = new Set<AbortController>();
+  let sessionId: string | null = null;
+  let protocolVersion: string | null = null;
+
+  const deliver = (text: string) => {
+    // The negotiated version goes on every request after initialize
+    const message = parseMessage(text);
+    if (message && isResponse(message) && 'result' in message && typeof message.result?.protocolVersion === 'string') {
+      protocolVersion = message.result.protocolVersion;
+    }
+    listeners.emit(text);
+  };
+
+  const sessionHeaders = () => ({
+    ...options.headers,
+    ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    ...(protocolVersion ? { 'MCP-Protocol-Version': protocolVersion } : {})
+  });
+
+  return {
+    kind: 'http',
+    send: async (message) => {
+      const controller = new AbortController();
+      controllers.add(controller);
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...sessionHeaders()
+          },
+          body: message,
+          signal: controller.signal
+        });
+        sessionId = response.headers.get('Mcp-Session-Id') ?? sessionId;
+
+        const contentType = response.headers.get('Content-Type') ?? '';
+        if (contentType.includes('text/event-stream') && response.body) {
+          await readSseStream(response.body, event => deliver(event.data));
+        } else if (contentType.includes('application/json')) {
+          // Error statuses can still carry a JSON-RPC error the client should see; any other
+          // error body fails the request now rather than leaving it to time out
+          const text = await response.text();
+          const frames = splitJsonFrames(text);
+          if (!response.ok && !frames.some(frame => parseMessage(frame))) throw await httpError(response, text);
+          frames.forEach(deliver);
+        } else if (!response.ok) {
+          throw await httpError(response);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        // fetch only says "Failed to fetch" for refused connections and CORS rejections alike
+        if (error instanceof TypeError) throw new Error(`Could not reach ${url} (is it running and allowing CORS?)`);
+        throw error;
+      } finally {
+        controllers.delete(controller);
+      }
+    },
+    onMessage: listeners.onMessage,
+    close: () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+      listeners.clear();
+      if (sessionId) {
+        // Ends the session on the server; servers that don't support it answer 405
+        fetch(url, { method: 'DELETE', headers: sessionHeaders() }).catch(() => undefined);
+      }
+    }
+  };
+};
+
+/**
+ * The older HTTP + SSE transport: a GET event stream for everything the server sends,
+ * and POSTs to the endpoint the stream announces for everything the client sends.
+ */
+export const createSseTransport = (url: string, options: RemoteTransportOptions = {}): McpTransport => {
+  const listeners = createListeners();
+  const source = new EventSource(url);
+  let closed = false;
+
+  const endpoint = new Promise<string>((resolve, reject) => {
+    source.addEventListener('endpoint', (event: MessageEvent<string>) => {
+      resolve(new URL(event.data, url).toString());
+    });
+    source.addEventListener('error', () => {
+      // EventSource retries on its own; only a stream that never opened is fatal
+      if (source.readyState === EventSource.CLOSED) reject(new Error(`Could not open event stream at ${url}`));
+    });
+  });
+  endpoint.catch(() => undefined);
+
+  source.addEventListener('message', (event: MessageEvent<string>) => listeners.emit(event.data));
+
+  return {
+    kind: 'sse',
+    send: async (message) => {
+      const postUrl = await endpoint;
+      if (closed) return;
+      const response = await fetch(postUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: message
+      });
+      if (!response.ok) throw await httpError(response);
+    },
+    onMessage: listeners.onMessage,
+    close: () => {
+      closed = true;
+      listeners.clear();
+      source.close();
+    }
+  };
+};
+
+/**
+ * One JSON-RPC frame per WebSocket text message, using the "mcp" subprotocol
+ */
+export const createWebSocketTransport = (url: string): McpTransport => {
+  const listeners = createListeners();
+  const socket = new WebSocket(url, 'mcp');
+
+  const opened = new Promise<void>((resolve, reject) => {
+    socket.addEventListener('open', () => resolve());
+    socket.addEventListener('error', () => reject(new Error(`Could not connect to ${url}`)));
+  });
+  opened.catch(() => undefined);
+
+  socket.addEventListener('message', (event: MessageEvent) => {
+    if (typeof event.data === 'string') listeners.emit(event.data);
+  });
+  socket.addEventListener('close', (event: CloseEvent) => {
+    if (!event.wasClean) console.warn(`MCP WebSocket closed (${event.code}) ${event.reason}`);
+  });
+
+  return {
+    kind: 'websocket',
+    send: async (message) => {
+      await opened;
+      if (socket.readyState !== WebSocket.OPEN) throw new Error('WebSocket is closed');
+      socket.send(message);
+    },
+    onMessage: listeners.onMessage,
+    close: () => {
+      listeners.clear();
+      socket.close();
+    }
+  };
+};
+
+export const createRemoteTransport = (
+  kind: RemoteTransportKind,
+  url: string,
+  options: RemoteTransportOptions = {}
+): McpTransport => {
+  switch (kind) {
+    case 'sse':
+      return createSseTransport(url, options);
+    case 'websocket':
+      return createWebSocketTransport(url);
+    default:
+      return createStreamableHttpTransport(url, options);
+  }
+};
@@ -0,0 +1,81 @@
+import { JsonSchema, JsonSchemaType } from './types';
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const typesOf = (schema: JsonSchema): JsonSchemaType[] =>
+  schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+const matchesType = (value: unknown, type: JsonSchemaType) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+/**
+ * The type a form should edit: the first one that isn't null
+ */
+export const primaryType = (schema: JsonSchema): JsonSchemaType | undefined => {
+  const types = typesOf(schema);
+  return types.find(type => type !== 'null') ?? types[0];
+};
+
+/**
+ * Check tool arguments against the parts of an input schema sample servers use:
+ * `type`, `required`, `properties`, `items` and `enum`. Returns one message per problem.
+ */
+export const validateArguments = (schema: JsonSchema, value: unknown, path = 'arguments'): string[] => {
+  const errors: string[] = [];
+  const types = typesOf(schema);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    const article = types[0] === 'integer' || types[0] === 'array' || types[0] === 'object' ? 'an' : 'a';
+    return [`${path} must be ${article} ${types.join(' or ')}`];
+  }
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    errors.push(`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    (schema.required ?? []).forEach(key => {
+      if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+    });
+    Object.entries(schema.properties ?? {}).forEach(([key, property]) => {
+      if (record[key] !== undefined) errors.push(...validateArguments(property, record[key], `${path}.${key}`));
+    });
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateArguments(schema.items!, item, `${path}[${index}]`)));
+  }
+  return errors;
+};
+
+/**
+ * Example value for a schema: its default or first example, otherwise a placeholder of the right type
+ */
+export const sampleFromSchema = (schema: JsonSchema): unknown => {
+  if (schema.default !== undefined) return schema.default;
+  if (schema.examples?.length) return schema.examples[0];
+  if (schema.enum?.length) return schema.enum[0];
+  switch (primaryType(schema)) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {})
+          .filter(([key]) => schema.required?.includes(key))
+          .map(([key, property]) => [key, sampleFromSchema(property)])
+      );
+    case 'array':
+      return schema.items ? [sampleFromSchema(schema.items)] : [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return '';
+  }
+};
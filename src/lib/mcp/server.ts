@@ -0,0 +1,169 @@
+import { JSON_RPC_ERRORS, JsonRpcError, createError, createResult, isNotification, isRequest, isResponse } from './jsonRpc';
+import { validateArguments } from './schema';
+import {
+  JsonRpcRequest,
+  McpCallToolResult,
+  McpGetPromptResult,
+  McpImplementation,
+  McpInitializeResult,
+  McpPrompt,
+  McpResource,
+  McpResourceContents,
+  McpServerCapabilities,
+  McpTool
+} from './types';
+
+export const LATEST_PROTOCOL_VERSION = '2025-06-18';
+export const SUPPORTED_PROTOCOL_VERSIONS = [LATEST_PROTOCOL_VERSION, '2025-03-26', '2024-11-05'];
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface McpToolDefinition extends McpTool {
+  // Throwing reports the message to the client as a failed tool result
+  handler: (args: Record<string, any>) => MaybePromise<McpCallToolResult>;
+}
+
+export interface McpPromptDefinition extends McpPrompt {
+  get: (args: Record<string, string>) => MaybePromise<McpGetPromptResult>;
+}
+
+export interface McpServerDefinition {
+  info: McpImplementation;
+  instructions?: string;
+  tools?: McpToolDefinition[];
+  // Resources are listed on every request, so servers can expose state that changes
+  listResources?: () => MaybePromise<McpResource[]>;
+  // null when no resource has the URI
+  readResource?: (uri: string) => MaybePromise<McpResourceContents | null>;
+  prompts?: McpPromptDefinition[];
+}
+
+export interface McpServer {
+  // Answer one serialized message; null for notifications and stray responses
+  handle: (message: string) => Promise<string | null>;
+}
+
+export const textResult = (text: string, structuredContent?: Record<string, unknown>): McpCallToolResult =>
+  structuredContent ? { content: [{ type: 'text', text }], structuredContent } : { content: [{ type: 'text', text }] };
+
+/**
+ * An MCP server over any string transport. It implements the lifecycle (initialize,
+ * notifications/initialized, ping) and tools, resources and prompts from a definition.
+ */
+export const createMcpServer = (definition: McpServerDefinition): McpServer => {
+  let initialized = false;
+  const tools = definition.tools ?? [];
+  const prompts = definition.prompts ?? [];
+
+  const capabilities: McpServerCapabilities = {
+    ...(tools.length > 0 ? { tools: { listChanged: false } } : {}),
+    ...(definition.listResources ? { resources: { subscribe: false, listChanged: false } } : {}),
+    ...(prompts.length > 0 ? { prompts: { listChanged: false } } : {})
+  };
+
+  const requireParam = (params: Record<string, any> | undefined, name: string, type: string) => {
+    if (typeof params?.[name] !== type) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Missing or invalid "${name}" parameter`);
+    }
+    return params[name];
+  };
+
+  const methods: Record<string, (params?: Record<string, any>) => MaybePromise<unknown>> = {
+    initialize: (params): McpInitializeResult => {
+      const requested = requireParam(params, 'protocolVersion', 'string');
+      initialized = true;
+      return {
+        // An unsupported version is answered with ours; the client decides whether to continue
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_PROTOCOL_VERSION,
+        capabilities,
+        serverInfo: definition.info,
+        ...(definition.instructions ? { instructions: definition.instructions } : {})
+      };
+    },
+    ping: () => ({}),
+    'tools/list': () => ({
+      tools: tools.map(({ handler, ...tool }) => tool)
+    }),
+    'tools/call': async (params) => {
+      const name = requireParam(params, 'name', 'string');
+      const tool = tools.find(candidate => candidate.name === name);
+      if (!tool) throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${name}`);
+      const args = params?.arguments ?? {};
+      const errors = validateArguments(tool.inputSchema, args);
+      if (errors.length > 0) {
+        throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Invalid arguments for ${name}`, { errors });
+      }
+      try {
+        return await tool.handler(args);
+      } catch (error) {
+        return { content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }], isError: true };
+      }
+    },
+    'resources/list': async () => ({
+      resources: definition.listResources ? await definition.listResources() : []
+    }),
+    'resources/read': async (params) => {
+      const uri = requireParam(params, 'uri', 'string');
+      const contents = definition.readResource ? await definition.readResource(uri) : null;
+      if (!contents) throw new JsonRpcError(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, 'Resource not found', { uri });
+      return { contents: [contents] };
+    },
+    'prompts/list': () => ({
+      prompts: prompts.map(({ get, ...prompt }) => prompt)
+    }),
+    'prompts/get': async (params) => {
+      const name = requireParam(params, 'name', 'string');
+      const prompt = prompts.find(candidate => candidate.name === name);
+      if (!prompt) throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown prompt: ${name}`);
+      const args: Record<string, string> = params?.arguments ?? {};
+      const missing = (prompt.arguments ?? []).filter(argument => argument.required && !args[argument.name]);
+      if (missing.length > 0) {
+        throw new JsonRpcError(
+          JSON_RPC_ERRORS.INVALID_PARAMS,
+          `Missing required arguments: ${missing.map(argument => argument.name).join(', ')}`
+        );
+      }
+      return prompt.get(args);
+    }
+  };
+
+  const dispatch = async (request: JsonRpcRequest) => {
+    if (!initialized && request.method !== 'initialize' && request.method !== 'ping') {
+      throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_REQUEST, 'Server not initialized; send initialize first');
+    }
+    const method = methods[request.method];
+    if (!method) throw new JsonRpcError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    return method(request.params);
+  };
+
+  return {
+    handle: async (text) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        return JSON.stringify(createError(null, { code: JSON_RPC_ERRORS.PARSE_ERROR, message: 'Parse error' }));
+      }
+
+      // Notifications (notifications/initialized, cancellations) and responses are never answered
+      if (isNotification(message) || isResponse(message)) return null;
+      const fields = (typeof message === 'object' && message !== null ? message : {}) as Record<string, any>;
+      if (!isRequest(message) || fields.jsonrpc !== '2.0') {
+        const id = typeof fields.id === 'string' || typeof fields.id === 'number' ? fields.id : null;
+        return JSON.stringify(createError(id, {
+          code: JSON_RPC_ERRORS.INVALID_REQUEST,
+          message: Array.isArray(message) ? 'Batch requests are not supported' : 'Invalid Request'
+        }));
+      }
+
+      try {
+        return JSON.stringify(createResult(message.id, await dispatch(message)));
+      } catch (error) {
+        const rpcError = error instanceof JsonRpcError
+          ? error
+          : new JsonRpcError(JSON_RPC_ERRORS.INTERNAL_ERROR, error instanceof Error ? error.message : 'Internal error');
+        return JSON.stringify(createError(message.id, rpcError.toObject()));
+      }
+    }
+  };
+};
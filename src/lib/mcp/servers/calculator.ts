@@ -0,0 +1,173 @@
+import { McpServerDefinition, textResult } from '../server';
+
+const constants: Record<string, number> = { pi: Math.PI, e: Math.E, tau: Math.PI * 2 };
+
+const functions: Record<string, (value: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil
+};
+
+/**
+ * Evaluate arithmetic with + - * / % ^, parentheses, the constants above and one-argument
+ * functions, by recursive descent. Nothing is passed to eval.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[A-Za-z_]\w*|[-+*/%^()]|\S/gi) ?? [];
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" at token ${position}`);
+  };
+
+  const primary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const value = sum();
+      expect(')');
+      return value;
+    }
+    if (token === '-') return -power();
+    if (token === '+') return power();
+    if (/^\d/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (functions[name]) {
+      expect('(');
+      const argument = sum();
+      expect(')');
+      return functions[name](argument);
+    }
+    if (name in constants) return constants[name];
+    throw new Error(`Unknown symbol "${token}"`);
+  };
+
+  // Right-associative, so 2^3^2 is 2^9
+  const power = (): number => {
+    const base = primary();
+    if (peek() === '^') {
+      next();
+      return base ** power();
+    }
+    return base;
+  };
+
+  const product = (): number => {
+    let value = power();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = power();
+      if (operator !== '*' && right === 0) throw new Error('Division by zero');
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  const result = sum();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}"`);
+  return result;
+};
+
+const median = (sorted: number[]) => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Calculator server: expression evaluation and descriptive statistics
+ */
+export const createCalculatorServer = (): McpServerDefinition => ({
+  info: { name: 'calculator', title: 'Calculator', version: '1.0.0' },
+  instructions: 'Use evaluate for arithmetic instead of computing results yourself.',
+  tools: [
+    {
+      name: 'evaluate',
+      description: 'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and functions such as sqrt, ln, log, sin',
+      inputSchema: {
+        type: 'object',
+        properties: { expression: { type: 'string', description: 'Expression to evaluate', examples: ['sqrt(3^2 + 4^2) * 2'] } },
+        required: ['expression']
+      },
+      handler: ({ expression }) => {
+        const value = evaluateExpression(expression);
+        if (!Number.isFinite(value)) throw new Error(`Result is not a finite number: ${value}`);
+        return textResult(String(value), { value });
+      }
+    },
+    {
+      name: 'statistics',
+      description: 'Count, sum, mean, median, min, max and standard deviation of a list of numbers',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          numbers: { type: 'array', items: { type: 'number' }, description: 'Values', examples: [[120000, 134000, 98000]] }
+        },
+        required: ['numbers']
+      },
+      handler: ({ numbers }) => {
+        if (numbers.length === 0) throw new Error('numbers must not be empty');
+        const sorted = [...numbers].sort((a: number, b: number) => a - b);
+        const total = sorted.reduce((sum: number, value: number) => sum + value, 0);
+        const mean = total / sorted.length;
+        const variance = sorted.reduce((sum: number, value: number) => sum + (value - mean) ** 2, 0) / sorted.length;
+        const stats = {
+          count: sorted.length,
+          sum: total,
+          mean,
+          median: median(sorted),
+          min: sorted[0],
+          max: sorted[sorted.length - 1],
+          stdDev: Math.sqrt(variance)
+        };
+        return textResult(Object.entries(stats).map(([key, value]) => `${key}: ${value}`).join('\n'), stats);
+      }
+    }
+  ],
+  listResources: () => [
+    { uri: 'calc://constants', name: 'constants', description: 'Named constants usable in expressions', mimeType: 'application/json' },
+    { uri: 'calc://functions', name: 'functions', description: 'Functions usable in expressions', mimeType: 'text/plain' }
+  ],
+  readResource: (uri) => {
+    if (uri === 'calc://constants') {
+      return { uri, mimeType: 'application/json', text: JSON.stringify(constants, null, 2) };
+    }
+    if (uri === 'calc://functions') {
+      return { uri, mimeType: 'text/plain', text: Object.keys(functions).map(name => `${name}(x)`).join('\n') };
+    }
+    return null;
+  },
+  prompts: [
+    {
+      name: 'explain_calculation',
+      description: 'Ask the model to walk through a calculation step by step',
+      arguments: [{ name: 'expression', description: 'Expression to explain', required: true }],
+      get: ({ expression }) => ({
+        description: 'Step-by-step explanation',
+        messages: [{
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `Explain step by step how to compute ${expression}. Check your final answer with the evaluate tool.`
+          }
+        }]
+      })
+    }
+  ]
+});
@@ -0,0 +1,27 @@
+/**
+ * Sample servers bundled with the playground. The servers themselves only load inside
+ * the MCP worker; this list is what the page needs to offer them.
+ */
+export interface SampleMcpServer {
+  id: 'filesystem' | 'calculator' | 'sqlite';
+  name: string;
+  description: string;
+}
+
+export const sampleMcpServers: SampleMcpServer[] = [
+  {
+    id: 'filesystem',
+    name: 'In-memory Filesystem',
+    description: 'Lists, reads, writes and searches a small project tree; files are also resources'
+  },
+  {
+    id: 'calculator',
+    name: 'Calculator',
+    description: 'Evaluates arithmetic expressions and computes statistics over lists of numbers'
+  },
+  {
+    id: 'sqlite',
+    name: 'SQLite (wasm)',
+    description: 'Runs SQL against a customers and orders database compiled to WebAssembly'
+  }
+];
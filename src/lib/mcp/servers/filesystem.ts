@@ -0,0 +1,144 @@
+import { JSON_RPC_ERRORS, JsonRpcError } from '../jsonRpc';
+import { McpServerDefinition, textResult } from '../server';
+
+const seedFiles: Record<string, string> = {
+  '/README.md': '# Project Atlas\n\nAn agent that answers questions about quarterly sales.\nSee notes/todo.md for open work and data/sales.csv for the numbers.\n',
+  '/notes/todo.md': '- [x] Load sales data\n- [ ] Add a chart of revenue per region\n- [ ] Ask the finance team about the Q3 dip\n',
+  '/data/sales.csv': 'quarter,region,revenue\nQ1,EMEA,120000\nQ1,Americas,185000\nQ2,EMEA,134000\nQ2,Americas,192000\nQ3,EMEA,98000\nQ3,Americas,201000\n'
+};
+
+const mimeTypeOf = (path: string) =>
+  path.endsWith('.md') ? 'text/markdown' : path.endsWith('.csv') ? 'text/csv' : 'text/plain';
+
+const normalizePath = (path: string) => {
+  const parts: string[] = [];
+  path.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return `/${parts.join('/')}`;
+};
+
+const toUri = (path: string) => `file://${path}`;
+
+/**
+ * Filesystem server over an in-memory tree, seeded with a few project files. Writes last
+ * until the worker is stopped.
+ */
+export const createFilesystemServer = (): McpServerDefinition => {
+  const files = new Map(Object.entries(seedFiles));
+
+  const readFile = (path: string) => {
+    const normalized = normalizePath(path);
+    const content = files.get(normalized);
+    if (content === undefined) throw new Error(`ENOENT: no such file: ${normalized}`);
+    return { path: normalized, content };
+  };
+
+  return {
+    info: { name: 'memory-filesystem', title: 'In-memory Filesystem', version: '1.0.0' },
+    instructions: 'Paths are absolute and use forward slashes. Files are also exposed as file:// resources.',
+    tools: [
+      {
+        name: 'list_directory',
+        description: 'List the files and folders directly inside a directory',
+        inputSchema: {
+          type: 'object',
+          properties: { path: { type: 'string', description: 'Directory path', default: '/' } },
+          required: ['path']
+        },
+        handler: ({ path }) => {
+          const directory = normalizePath(path);
+          const prefix = directory === '/' ? '/' : `${directory}/`;
+          const entries = new Set<string>();
+          [...files.keys()].filter(file => file.startsWith(prefix)).forEach(file => {
+            const [first, ...rest] = file.slice(prefix.length).split('/');
+            entries.add(rest.length > 0 ? `[DIR] ${first}` : `[FILE] ${first}`);
+          });
+          if (entries.size === 0 && directory !== '/') throw new Error(`ENOENT: no such directory: ${directory}`);
+          return textResult([...entries].sort().join('\n'), { entries: [...entries].sort() });
+        }
+      },
+      {
+        name: 'read_file',
+        description: 'Read the complete contents of a text file',
+        inputSchema: {
+          type: 'object',
+          properties: { path: { type: 'string', description: 'File path', examples: ['/README.md'] } },
+          required: ['path']
+        },
+        handler: ({ path }) => textResult(readFile(path).content)
+      },
+      {
+        name: 'write_file',
+        description: 'Create a file or replace its contents',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'File path', examples: ['/notes/ideas.md'] },
+            content: { type: 'string', description: 'New file contents', examples: ['Try a bar chart per region'] }
+          },
+          required: ['path', 'content']
+        },
+        handler: ({ path, content }) => {
+          const normalized = normalizePath(path);
+          if (normalized === '/') throw new Error('EISDIR: cannot write to the root directory');
+          files.set(normalized, content);
+          return textResult(`Wrote ${content.length} characters to ${normalized}`);
+        }
+      },
+      {
+        name: 'search_files',
+        description: 'Find files whose path or contents contain a text, case-insensitively',
+        inputSchema: {
+          type: 'object',
+          properties: { query: { type: 'string', description: 'Text to look for', examples: ['revenue'] } },
+          required: ['query']
+        },
+        handler: ({ query }) => {
+          const needle = query.toLowerCase();
+          const matches = [...files.entries()]
+            .filter(([path, content]) => path.toLowerCase().includes(needle) || content.toLowerCase().includes(needle))
+            .map(([path]) => path);
+          return textResult(matches.length > 0 ? matches.join('\n') : 'No matches', { matches });
+        }
+      }
+    ],
+    listResources: () => [...files.keys()].sort().map(path => ({
+      uri: toUri(path),
+      name: path.slice(path.lastIndexOf('/') + 1),
+      mimeType: mimeTypeOf(path)
+    })),
+    readResource: (uri) => {
+      if (!uri.startsWith('file://')) return null;
+      const path = normalizePath(uri.slice('file://'.length));
+      const content = files.get(path);
+      return content === undefined ? null : { uri: toUri(path), mimeType: mimeTypeOf(path), text: content };
+    },
+    prompts: [
+      {
+        name: 'summarize_file',
+        description: 'Ask the model for a short summary of one file',
+        arguments: [{ name: 'path', description: 'File to summarize', required: true }],
+        get: ({ path }) => {
+          let file: { path: string; content: string };
+          try {
+            file = readFile(path);
+          } catch (error) {
+            throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, (error as Error).message);
+          }
+          return {
+            description: `Summarize ${file.path}`,
+            messages: [
+              { role: 'user', content: { type: 'text', text: 'Summarize this file in three bullet points.' } },
+              {
+                role: 'user',
+                content: { type: 'resource', resource: { uri: toUri(file.path), mimeType: mimeTypeOf(file.path), text: file.content } }
+              }
+            ]
+          };
+        }
+      }
+    ]
+  };
+};
@@ -0,0 +1,18 @@
+import { McpServerDefinition } from '../server';
+import { SampleMcpServer } from './catalog';
+import { createCalculatorServer } from './calculator';
+import { createFilesystemServer } from './filesystem';
+import { createSqliteServer } from './sqlite';
+
+export const createSampleServer = (id: SampleMcpServer['id']): McpServerDefinition => {
+  switch (id) {
+    case 'filesystem':
+      return createFilesystemServer();
+    case 'calculator':
+      return createCalculatorServer();
+    case 'sqlite':
+      return createSqliteServer();
+    default:
+      throw new Error(`Unknown sample MCP server: ${id}`);
+  }
+};
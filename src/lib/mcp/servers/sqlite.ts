@@ -0,0 +1,202 @@
+import initSqlJs, { Database, QueryExecResult } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import { McpServerDefinition, textResult } from '../server';
+
+const SEED_SQL = `
+CREATE TABLE customers (id INTEGER PRIMARY KEY, name TEXT NOT NULL, region TEXT NOT NULL, tier TEXT NOT NULL);
+CREATE TABLE orders (id INTEGER PRIMARY KEY, customer_id INTEGER NOT NULL REFERENCES customers(id), product TEXT NOT NULL, amount REAL NOT NULL, ordered_at TEXT NOT NULL);
+INSERT INTO customers (name, region, tier) VALUES
+  ('Contoso', 'EMEA', 'enterprise'),
+  ('Fabrikam', 'Americas', 'enterprise'),
+  ('Northwind Traders', 'Americas', 'smb'),
+  ('Tailspin Toys', 'EMEA', 'smb'),
+  ('Wide World Importers', 'APAC', 'enterprise');
+INSERT INTO orders (customer_id, product, amount, ordered_at) VALUES
+  (1, 'Agent Platform', 48000, '2025-01-14'),
+  (1, 'Support Plan', 6000, '2025-02-02'),
+  (2, 'Agent Platform', 52000, '2025-01-29'),
+  (3, 'Starter Seats', 4200, '2025-03-11'),
+  (4, 'Starter Seats', 3900, '2025-03-18'),
+  (5, 'Agent Platform', 61000, '2025-04-07'),
+  (2, 'Support Plan', 7500, '2025-04-21');
+`;
+
+// Statements that look like reads; runReadOnly makes sure they don't write
+const READ_ONLY_STATEMENT = /^\s*(select|with|explain|pragma\s+table_info)\b/i;
+const MAX_ROWS = 200;
+
+const formatTable = ({ columns, values }: QueryExecResult) => {
+  const rows = values.slice(0, MAX_ROWS).map(row => row.map(value => (value === null ? 'NULL' : String(value))));
+  const widths = columns.map((column, index) => Math.max(column.length, ...rows.map(row => row[index].length)));
+  const line = (cells: string[]) => cells.map((cell, index) => cell.padEnd(widths[index])).join(' | ');
+  return [
+    line(columns),
+    widths.map(width => '-'.repeat(width)).join('-+-'),
+    ...rows.map(line),
+    ...(values.length > MAX_ROWS ? [`… ${values.length - MAX_ROWS} more rows`] : [])
+  ].join('\n');
+};
+
+/**
+ * Run one query with writes switched off. The statement check alone can't be trusted:
+ * "SELECT 1; DELETE ..." and "WITH x AS (...) DELETE ..." both start like a read.
+ */
+const runReadOnly = (db: Database, sql: string): QueryExecResult | undefined => {
+  let statements = 0;
+  for (const statement of db.iterateStatements(sql)) {
+    statement.free();
+    statements++;
+  }
+  if (statements !== 1) throw new Error('read_query runs exactly one statement');
+  db.run('PRAGMA query_only = ON');
+  try {
+    return db.exec(sql)[0];
+  } catch (error) {
+    if (error instanceof Error && /readonly/.test(error.message)) {
+      throw new Error('read_query can\'t change the database; use write_query for changes');
+    }
+    throw error;
+  } finally {
+    db.run('PRAGMA query_only = OFF');
+  }
+};
+
+const toObjects = ({ columns, values }: QueryExecResult) =>
+  values.slice(0, MAX_ROWS).map(row => Object.fromEntries(columns.map((column, index) => [column, row[index]])));
+
+/**
+ * SQLite server backed by sql.js (SQLite compiled to WebAssembly) with a small sales
+ * database. The wasm binary is bundled with the app, so the server works offline.
+ */
+export const createSqliteServer = (): McpServerDefinition => {
+  let database: Promise<Database> | null = null;
+  const getDatabase = () => {
+    if (!database) {
+      database = initSqlJs({ locateFile: () => sqlWasmUrl }).then(SQL => {
+        const db = new SQL.Database();
+        db.run(SEED_SQL);
+        return db;
+      });
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  const tableNames = async () => {
+    const db = await getDatabase();
+    const [result] = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name");
+    return (result?.values ?? []).map(([name]) => String(name));
+  };
+
+  const schemaOf = async (table: string) => {
+    const db = await getDatabase();
+    const [result] = db.exec('SELECT sql FROM sqlite_master WHERE type = ? AND name = ?', ['table', table]);
+    return result ? String(result.values[0][0]) : null;
+  };
+
+  return {
+    info: { name: 'sqlite', title: 'SQLite (wasm)', version: '1.0.0' },
+    instructions: 'A sales database with customers and orders. Use read_query for SELECT statements and write_query for changes.',
+    tools: [
+      {
+        name: 'list_tables',
+        description: 'List the tables in the database',
+        inputSchema: { type: 'object', properties: {} },
+        handler: async () => {
+          const tables = await tableNames();
+          return textResult(tables.join('\n'), { tables });
+        }
+      },
+      {
+        name: 'describe_table',
+        description: 'Show the columns of a table',
+        inputSchema: {
+          type: 'object',
+          properties: { table: { type: 'string', description: 'Table name', examples: ['orders'] } },
+          required: ['table']
+        },
+        handler: async ({ table }) => {
+          if (!(await tableNames()).includes(table)) throw new Error(`no such table: ${table}`);
+          const db = await getDatabase();
+          const [result] = db.exec(`PRAGMA table_info("${table.replace(/"/g, '""')}")`);
+          return textResult(formatTable(result), { columns: toObjects(result) });
+        }
+      },
+      {
+        name: 'read_query',
+        description: 'Run a SELECT query and return the rows',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sql: {
+              type: 'string',
+              description: 'SELECT statement',
+              examples: ['SELECT c.region, SUM(o.amount) AS revenue FROM orders o JOIN customers c ON c.id = o.customer_id GROUP BY c.region ORDER BY revenue DESC']
+            }
+          },
+          required: ['sql']
+        },
+        handler: async ({ sql }) => {
+          if (!READ_ONLY_STATEMENT.test(sql)) throw new Error('read_query only runs SELECT statements; use write_query for changes');
+          const result = runReadOnly(await getDatabase(), sql);
+          if (!result) return textResult('No rows', { rows: [] });
+          return textResult(formatTable(result), { rows: toObjects(result) });
+        }
+      },
+      {
+        name: 'write_query',
+        description: 'Run an INSERT, UPDATE, DELETE or CREATE statement',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sql: {
+              type: 'string',
+              description: 'Statement that changes the database',
+              examples: ["INSERT INTO orders (customer_id, product, amount, ordered_at) VALUES (3, 'Support Plan', 2500, '2025-05-02')"]
+            }
+          },
+          required: ['sql']
+        },
+        handler: async ({ sql }) => {
+          if (READ_ONLY_STATEMENT.test(sql)) throw new Error('write_query is for changes; use read_query for SELECT statements');
+          const db = await getDatabase();
+          db.run(sql);
+          const changes = db.getRowsModified();
+          return textResult(`${changes} row(s) affected`, { changes });
+        }
+      }
+    ],
+    listResources: async () => (await tableNames()).map(table => ({
+      uri: `sqlite:///tables/${table}/schema`,
+      name: `${table} schema`,
+      mimeType: 'text/x-sql'
+    })),
+    readResource: async (uri) => {
+      const match = uri.match(/^sqlite:\/\/\/tables\/([^/]+)\/schema$/);
+      const schema = match ? await schemaOf(decodeURIComponent(match[1])) : null;
+      return schema ? { uri, mimeType: 'text/x-sql', text: schema } : null;
+    },
+    prompts: [
+      {
+        name: 'answer_with_sql',
+        description: 'Ask the model to answer a business question by querying the database',
+        arguments: [{ name: 'question', description: 'Question about customers or orders', required: true }],
+        get: async ({ question }) => {
+          const schemas = await Promise.all((await tableNames()).map(schemaOf));
+          return {
+            description: 'Answer a question with read_query',
+            messages: [{
+              role: 'user',
+              content: {
+                type: 'text',
+                text: `The database has these tables:\n\n${schemas.join('\n')}\n\nWrite a SQLite query that answers: ${question}\nRun it with read_query and explain the result.`
+              }
+            }]
+          };
+        }
+      }
+    ]
+  };
+};
@@ -0,0 +1,32 @@
+import { SampleMcpServer } from './servers/catalog';
+import { McpTransport } from './types';
+
+/**
+ * Start a sample server in its own worker and talk to it with postMessage. Each
+ * connection gets a fresh worker, the way an MCP host spawns one process per server.
+ */
+export const createWorkerTransport = (serverId: SampleMcpServer['id']): McpTransport => {
+  const worker = new Worker(new URL('./mcp.worker.ts', import.meta.url), { type: 'module', name: serverId });
+  const listeners = new Set<(message: string) => void>();
+
+  worker.addEventListener('message', (event: MessageEvent<string>) => {
+    listeners.forEach(listener => listener(event.data));
+  });
+  worker.addEventListener('error', (event: ErrorEvent) => {
+    event.preventDefault();
+    console.error('MCP server worker crashed:', event.message);
+  });
+
+  return {
+    kind: 'worker',
+    send: (message) => worker.postMessage(message),
+    onMessage: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => {
+      listeners.clear();
+      worker.terminate();
+    }
+  };
+};
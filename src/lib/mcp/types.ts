@@ -0,0 +1,161 @@
+/*
+ * JSON-RPC 2.0 framing and the subset of the Model Context Protocol the playground
+ * speaks, following the 2025-06-18 revision of the MCP specification.
+ */
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+// A request without an id; the receiver never answers it
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcSuccess {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result: any;
+}
+
+export interface JsonRpcFailure {
+  jsonrpc: '2.0';
+  // null when the request was too broken to read its id
+  id: JsonRpcId | null;
+  error: JsonRpcErrorObject;
+}
+
+export type JsonRpcResponse = JsonRpcSuccess | JsonRpcFailure;
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * JSON Schema as used for tool input schemas. Only the keywords the playground
+ * understands are typed; anything else passes through.
+ */
+export type JsonSchemaType = 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'null';
+
+export interface JsonSchema {
+  // Several types mean any of them, e.g. ['string', 'null'] for an optional string
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  default?: unknown;
+  examples?: unknown[];
+  [keyword: string]: unknown;
+}
+
+export interface McpImplementation {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+export interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, never>;
+}
+
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: McpServerCapabilities;
+  serverInfo: McpImplementation;
+  instructions?: string;
+}
+
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: JsonSchema;
+}
+
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'resource'; resource: McpResourceContents };
+
+export interface McpCallToolResult {
+  content: McpContent[];
+  structuredContent?: Record<string, unknown>;
+  // Set when the tool ran but failed; protocol errors are JSON-RPC errors instead
+  isError?: boolean;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: McpContent;
+}
+
+export interface McpGetPromptResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+
+/**
+ * Moves serialized JSON-RPC messages between a client and a server. Messages stay
+ * strings so the frames on the wire are exactly what each side sent.
+ */
+export interface McpTransport {
+  // Short name shown with wire messages, e.g. 'worker'
+  kind: string;
+  // Network transports reject when the frame could not be delivered
+  send: (message: string) => void | Promise<void>;
+  // Returns a function that removes the listener
+  onMessage: (listener: (message: string) => void) => () => void;
+  close: () => void;
+}
+
+/**
+ * One frame as seen by the client
+ */
+export interface McpWireMessage {
+  seq: number;
+  direction: 'outgoing' | 'incoming';
+  transport: string;
+  text: string;
+  // Parsed frame, or null when the text isn't valid JSON
+  message: JsonRpcMessage | null;
+  timestamp: number;
+}
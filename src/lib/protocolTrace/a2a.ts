@@ -0,0 +1,86 @@
+import { isRequest, isResponse, validateEnvelope } from '../mcp/jsonRpc';
+import { validateArguments } from '../mcp/schema';
+import { AGENT_CARD_PATH, resultSchemas, validateParams, validateResult } from '../a2a/protocol';
+import { A2AWireMessage } from '../a2a/types';
+import { parseBody, pathOf, withLatencies } from './shared';
+import { TraceFrame, TraceParticipants } from './types';
+
+/**
+ * Trace frames for A2A traffic. Requests, responses and stream events are tied by
+ * their HTTP exchange, and a response must echo the JSON-RPC id of its request.
+ */
+export const traceA2AWire = (wire: A2AWireMessage[], participants: TraceParticipants): TraceFrame[] => {
+  // JSON-RPC method and id of each exchange's request
+  const requests = new Map<number, { method: string; id: unknown }>();
+  const frames = wire.map((frame, index): TraceFrame => {
+    const { body, errors } = parseBody(frame.text);
+    const outgoing = frame.direction === 'outgoing';
+    const path = pathOf(frame.http.url);
+    const base = {
+      seq: index,
+      protocol: 'A2A' as const,
+      direction: frame.direction,
+      from: outgoing ? participants.client : participants.server,
+      to: outgoing ? participants.server : participants.client,
+      correlationId: `${frame.exchange}`,
+      http: frame.http,
+      text: frame.text,
+      body,
+      timestamp: frame.timestamp
+    };
+
+    if (outgoing) {
+      if (frame.http.method === 'GET') return { ...base, kind: 'request', label: `GET ${path}`, failed: false, errors };
+      if (body === undefined) return { ...base, kind: 'request', label: `POST ${path}`, failed: false, errors };
+      const envelopeErrors = validateEnvelope(body);
+      if (!isRequest(body)) return { ...base, kind: 'request', label: `POST ${path}`, failed: false, errors: envelopeErrors };
+      requests.set(frame.exchange, { method: body.method, id: body.id });
+      return {
+        ...base,
+        kind: 'request',
+        label: `${body.method} #${body.id}`,
+        failed: false,
+        errors: [...envelopeErrors, ...validateParams(body.method, body.params)]
+      };
+    }
+
+    const status = frame.http.status ?? 0;
+    const httpFailed = status >= 400;
+    const kind = frame.kind === 'event' ? 'event' : 'response';
+    if (frame.kind === 'response' && !frame.text) {
+      return { ...base, kind, label: `${status} stream opened`, failed: httpFailed, errors };
+    }
+    if (path === AGENT_CARD_PATH) {
+      return {
+        ...base,
+        kind,
+        label: `${status} Agent Card`,
+        failed: httpFailed,
+        errors: httpFailed || body === undefined ? errors : validateArguments(resultSchemas.agentCard, body, 'card')
+      };
+    }
+    if (body === undefined) return { ...base, kind, label: `${status} ${frame.summary}`, failed: true, errors };
+
+    const request = requests.get(frame.exchange);
+    const responseErrors = validateEnvelope(body);
+    const failed = httpFailed || (isResponse(body) && 'error' in body);
+    if (isResponse(body)) {
+      if (request && body.id !== request.id && body.id !== null) {
+        responseErrors.push(`id ${JSON.stringify(body.id)} does not match the request's id ${JSON.stringify(request.id)}`);
+      }
+      if ('result' in body && request) responseErrors.push(...validateResult(request.method, body.result));
+    }
+    const outcome = isResponse(body) && 'error' in body ? `error ${body.error?.code}` : kind === 'event' ? 'event' : 'result';
+    // What the result is about: a task state or the artifact a stream event carries
+    const result = isResponse(body) && 'result' in body ? body.result : undefined;
+    const detail = result?.status?.state ?? (result?.artifact ? `artifact ${result.artifact.name ?? result.artifact.index}` : undefined);
+    return {
+      ...base,
+      kind,
+      label: `${outcome} #${isResponse(body) ? body.id : '?'}${detail ? ` (${detail})` : ''}`,
+      failed,
+      errors: responseErrors
+    };
+  });
+  return withLatencies(frames);
+};
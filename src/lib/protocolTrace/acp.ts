@@ -0,0 +1,91 @@
+import { validateArguments } from '../mcp/schema';
+import {
+  validateError,
+  validateEvent,
+  validateManifest,
+  validateRun,
+  validateRunCreateRequest,
+  validateRunResumeRequest
+} from '../acp/protocol';
+import { ACPWireMessage } from '../acp/types';
+import { parseBody, pathOf, withLatencies } from './shared';
+import { TraceFrame, TraceParticipants } from './types';
+
+// What the body of a 2xx response to each route must be
+const validateResponseBody = (segments: string[], body: unknown): string[] => {
+  const [resource, id, action] = segments;
+  if (resource === 'ping') return validateArguments({ type: 'object' }, body, 'body');
+  if (resource === 'agents') {
+    if (id) return validateManifest(body, 'body');
+    const agents = (body as { agents?: unknown })?.agents;
+    if (!Array.isArray(agents)) return ['body.agents must be an array'];
+    return agents.flatMap((manifest, index) => validateManifest(manifest, `body.agents[${index}]`));
+  }
+  if (resource === 'runs') {
+    if (action === 'events') {
+      const events = (body as { events?: unknown })?.events;
+      if (!Array.isArray(events)) return ['body.events must be an array'];
+      return events.flatMap((event, index) => validateEvent(event, `body.events[${index}]`));
+    }
+    return validateRun(body, 'body');
+  }
+  return [];
+};
+
+/**
+ * Trace frames for ACP traffic: request bodies, responses by route and stream events,
+ * each checked against the ACP schemas and tied together by HTTP exchange
+ */
+export const traceACPWire = (wire: ACPWireMessage[], participants: TraceParticipants): TraceFrame[] => {
+  const frames = wire.map((frame, index): TraceFrame => {
+    const { body, errors } = parseBody(frame.text);
+    const outgoing = frame.direction === 'outgoing';
+    const path = pathOf(frame.http.url);
+    const segments = path.split('/').filter(Boolean);
+    const base = {
+      seq: index,
+      protocol: 'ACP' as const,
+      direction: frame.direction,
+      from: outgoing ? participants.client : participants.server,
+      to: outgoing ? participants.server : participants.client,
+      correlationId: `${frame.exchange}`,
+      http: frame.http,
+      text: frame.text,
+      body,
+      timestamp: frame.timestamp
+    };
+
+    if (outgoing) {
+      const label = `${frame.http.method} ${path}`;
+      if (frame.http.method !== 'POST' || body === undefined || segments[0] !== 'runs' || segments[2] === 'cancel') {
+        return { ...base, kind: 'request', label, failed: false, errors };
+      }
+      const requestErrors = segments.length === 1 ? validateRunCreateRequest(body) : validateRunResumeRequest(body);
+      return { ...base, kind: 'request', label, failed: false, errors: requestErrors };
+    }
+
+    const status = frame.http.status ?? 0;
+    if (frame.kind === 'event') {
+      const type = (body as { type?: string } | undefined)?.type ?? 'event';
+      return {
+        ...base,
+        kind: 'event',
+        label: type,
+        failed: type === 'error' || type === 'run.failed',
+        errors: body === undefined ? errors : validateEvent(body, 'event')
+      };
+    }
+    if (!frame.text) return { ...base, kind: 'response', label: `${status} ${status < 300 ? 'stream opened' : ''}`.trim(), failed: status >= 400, errors };
+    const runStatus = (body as { status?: string } | undefined)?.status;
+    const label = `${status} ${path}${typeof runStatus === 'string' ? ` (${runStatus})` : ''}`;
+    if (status >= 400) {
+      const errorBody = body === undefined
+        ? [`Error responses carry an Error body; got ${frame.http.contentType || 'no content type'}`]
+        : validateError(body, 'body');
+      return { ...base, kind: 'response', label, failed: true, errors: errorBody };
+    }
+    if (body === undefined) return { ...base, kind: 'response', label, failed: false, errors };
+    return { ...base, kind: 'response', label, failed: false, errors: validateResponseBody(segments, body) };
+  });
+  return withLatencies(frames);
+};
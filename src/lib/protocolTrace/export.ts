@@ -0,0 +1,104 @@
+import { TraceFrame, TraceParticipants } from './types';
+
+const CREATOR = { name: 'Agent Patterns Playground', version: '1.0' };
+
+const isInitiating = (frame: TraceFrame) => frame.kind === 'request' || frame.kind === 'notification';
+
+const contentTypeOf = (frame: TraceFrame) => frame.http?.contentType || (frame.body !== undefined ? 'application/json' : 'text/plain');
+
+/**
+ * The session as HAR 1.2 JSON, one entry per request with its response. Fields HAR
+ * has no place for start with an underscore, as the format allows: the protocol, the
+ * participants, stream events and schema errors. Frames that answer nothing in the
+ * trace, such as server notifications, are listed under _messages.
+ */
+export const toHar = (frames: TraceFrame[], participants: TraceParticipants) => {
+  const claimed = new Set<TraceFrame>();
+  const entries = frames.filter(frame => isInitiating(frame) && frame.direction === 'outgoing').map(request => {
+    const answers = request.correlationId && request.kind === 'request'
+      ? frames.filter(frame => frame.seq > request.seq && !isInitiating(frame) && frame.correlationId === request.correlationId)
+      : [];
+    answers.forEach(frame => claimed.add(frame));
+    claimed.add(request);
+    const response = answers.find(frame => frame.kind === 'response');
+    const events = answers.filter(frame => frame.kind === 'event');
+    const last = answers[answers.length - 1];
+    const time = last ? last.timestamp - request.timestamp : -1;
+    return {
+      startedDateTime: new Date(request.timestamp).toISOString(),
+      time,
+      request: {
+        method: request.http?.method ?? 'POST',
+        url: request.http?.url ?? participants.endpoint ?? participants.server,
+        httpVersion: 'HTTP/1.1',
+        headers: request.text ? [{ name: 'Content-Type', value: 'application/json' }] : [],
+        queryString: [],
+        ...(request.text ? { postData: { mimeType: 'application/json', text: request.text } } : {}),
+        headersSize: -1,
+        bodySize: request.text.length
+      },
+      response: {
+        status: response?.http?.status ?? (response ? 200 : 0),
+        statusText: response ? '' : request.kind === 'notification' ? 'Notification, no response expected' : 'No response',
+        httpVersion: 'HTTP/1.1',
+        headers: response ? [{ name: 'Content-Type', value: contentTypeOf(response) }] : [],
+        content: {
+          size: response?.text.length ?? 0,
+          mimeType: response ? contentTypeOf(response) : '',
+          text: response?.text ?? ''
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: response?.text.length ?? 0
+      },
+      cache: {},
+      timings: { send: 0, wait: Math.max(time, 0), receive: 0 },
+      _protocol: request.protocol,
+      _label: request.label,
+      _from: request.from,
+      _to: request.to,
+      _correlationId: request.correlationId,
+      _events: events.map(event => ({ timestamp: new Date(event.timestamp).toISOString(), label: event.label, text: event.text })),
+      _errors: [request, ...answers].flatMap(frame => frame.errors.map(error => `${frame.label}: ${error}`))
+    };
+  });
+  const messages = frames.filter(frame => !claimed.has(frame)).map(frame => ({
+    timestamp: new Date(frame.timestamp).toISOString(),
+    direction: frame.direction,
+    kind: frame.kind,
+    label: frame.label,
+    from: frame.from,
+    to: frame.to,
+    text: frame.text,
+    errors: frame.errors
+  }));
+  return { log: { version: '1.2', creator: CREATOR, pages: [], entries, _messages: messages } };
+};
+
+// Mermaid treats semicolons and newlines as statement ends and angle brackets as HTML
+const mermaidText = (text: string) =>
+  text.replace(/[\r\n]+/g, ' ').replace(/;/g, ',').replace(/[<>]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100);
+
+/**
+ * The session as a Mermaid sequence diagram: solid arrows for requests and
+ * notifications, dashed ones for responses, open async arrows for stream events and
+ * crossed ones for errors. Frames that break the schema get a note with the first problem.
+ */
+export const toMermaid = (frames: TraceFrame[], title: string) => {
+  const names = Array.from(new Set(frames.flatMap(frame => [frame.from, frame.to])));
+  const alias = new Map(names.map((name, index) => [name, `P${index + 1}`]));
+  const lines = ['---', `title: ${mermaidText(title)}`, '---', 'sequenceDiagram'];
+  names.forEach(name => lines.push(`    participant ${alias.get(name)} as ${mermaidText(name)}`));
+  frames.forEach(frame => {
+    const arrow = frame.failed
+      ? (isInitiating(frame) ? '-x' : '--x')
+      : frame.kind === 'event' ? '--)' : isInitiating(frame) ? '->>' : '-->>';
+    const latency = frame.latencyMs !== undefined && frame.kind === 'response' ? ` (${frame.latencyMs} ms)` : '';
+    lines.push(`    ${alias.get(frame.from)}${arrow}${alias.get(frame.to)}: ${mermaidText(frame.label)}${latency}`);
+    if (frame.errors.length > 0) {
+      const more = frame.errors.length > 1 ? ` (+${frame.errors.length - 1} more)` : '';
+      lines.push(`    Note over ${alias.get(frame.to)}: schema - ${mermaidText(frame.errors[0])}${more}`);
+    }
+  });
+  return `${lines.join('\n')}\n`;
+};
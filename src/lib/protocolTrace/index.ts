@@ -0,0 +1,7 @@
+export { traceMcpWire } from './mcp';
+export { traceA2AWire } from './a2a';
+export { traceACPWire } from './acp';
+export { toHar, toMermaid } from './export';
+export { traceScript, scriptMcpCall, scriptHttpExchange } from './script';
+export type { ScriptedFrame } from './script';
+export type { TraceFrame, TraceParticipants, TraceProtocol } from './types';
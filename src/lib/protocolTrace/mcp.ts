@@ -0,0 +1,66 @@
+import { isRequest, isResponse, isNotification } from '../mcp/jsonRpc';
+import { validateMcpFrame } from '../mcp/messageSchemas';
+import { McpWireMessage } from '../mcp/types';
+import { parseBody, withLatencies } from './shared';
+import { TraceFrame, TraceParticipants } from './types';
+
+/**
+ * Trace frames for an MCP session. Responses are checked against the result schema of
+ * the request they answer, found by id.
+ */
+export const traceMcpWire = (wire: McpWireMessage[], participants: TraceParticipants): TraceFrame[] => {
+  // Method of each request by its correlation id, so a response knows what it answers
+  const methods = new Map<string, string>();
+  // Client and server number their requests independently
+  const correlationOf = (requestDirection: string, id: unknown) => (requestDirection === 'outgoing' ? `${id}` : `server ${id}`);
+  const frames = wire.map((frame, index): TraceFrame => {
+    const { body, errors } = parseBody(frame.text);
+    const outgoing = frame.direction === 'outgoing';
+    const base = {
+      seq: index,
+      protocol: 'MCP' as const,
+      direction: frame.direction,
+      from: outgoing ? participants.client : participants.server,
+      to: outgoing ? participants.server : participants.client,
+      text: frame.text,
+      body,
+      timestamp: frame.timestamp
+    };
+    if (body === undefined) {
+      return { ...base, kind: 'notification', label: 'unparseable frame', failed: true, errors };
+    }
+    if (isResponse(body)) {
+      const requestKey = correlationOf(outgoing ? 'incoming' : 'outgoing', body.id);
+      const method = methods.get(requestKey);
+      const failed = 'error' in body;
+      return {
+        ...base,
+        kind: 'response',
+        label: `${failed ? `error ${body.error?.code}` : 'result'} #${body.id ?? 'null'}${method ? ` (${method})` : ''}`,
+        correlationId: body.id === null ? undefined : requestKey,
+        failed,
+        errors: validateMcpFrame(body, method)
+      };
+    }
+    if (isRequest(body)) {
+      const requestKey = correlationOf(frame.direction, body.id);
+      methods.set(requestKey, body.method);
+      return {
+        ...base,
+        kind: 'request',
+        label: `${body.method} #${body.id}`,
+        correlationId: requestKey,
+        failed: false,
+        errors: validateMcpFrame(body)
+      };
+    }
+    return {
+      ...base,
+      kind: 'notification',
+      label: isNotification(body) ? body.method : 'invalid frame',
+      failed: false,
+      errors: validateMcpFrame(body)
+    };
+  });
+  return withLatencies(frames);
+};
@@ -0,0 +1,115 @@
+import { A2AWireMessage } from '../a2a/types';
+import { ACPWireMessage } from '../acp/types';
+import { parseMessage } from '../mcp/jsonRpc';
+import { McpWireMessage } from '../mcp/types';
+import { traceA2AWire } from './a2a';
+import { traceACPWire } from './acp';
+import { traceMcpWire } from './mcp';
+import { TraceFrame, TraceParticipants, TraceProtocol } from './types';
+
+type HttpLine = { method: string; url: string; status?: number; contentType?: string };
+
+/**
+ * One frame of the scripted traffic in the walkthrough demos. It goes through the
+ * same adapter as live traffic, so the inspector checks it against the protocol's schemas.
+ */
+export interface ScriptedFrame {
+  protocol: TraceProtocol;
+  // Client and server of the connection the frame travels on
+  participants: TraceParticipants;
+  direction: 'outgoing' | 'incoming';
+  // Sent as JSON; undefined for an empty body
+  body?: unknown;
+  // A2A and ACP only: what the frame is and the HTTP exchange it belongs to
+  kind?: 'request' | 'response' | 'event';
+  exchange?: number;
+  http?: HttpLine;
+}
+
+// Pretend time between two frames, so responses show a latency
+const FRAME_SPACING_MS = 40;
+
+const connectionOf = (frame: ScriptedFrame) =>
+  `${frame.protocol}\n${frame.participants.client}\n${frame.participants.server}`;
+
+/**
+ * Trace frames for a script, in script order. Frames on the same connection are traced
+ * together; when the script spans several connections, correlation ids are prefixed with
+ * the connection's number so exchanges on different connections stay apart.
+ */
+export const traceScript = (script: ScriptedFrame[], startedAt: number): TraceFrame[] => {
+  const connections = Array.from(new Set(script.map(connectionOf)));
+  const frames: TraceFrame[] = [];
+  connections.forEach((connection, connectionIndex) => {
+    const indexes = script.map((frame, index) => (connectionOf(frame) === connection ? index : -1)).filter(index => index >= 0);
+    const { protocol, participants } = script[indexes[0]];
+    const textOf = (frame: ScriptedFrame) => (frame.body === undefined ? '' : JSON.stringify(frame.body));
+    const timestampOf = (index: number) => startedAt + index * FRAME_SPACING_MS;
+    const mcpWire = (): McpWireMessage[] => indexes.map(index => {
+      const text = textOf(script[index]);
+      return { seq: index, direction: script[index].direction, transport: 'scripted', text, message: parseMessage(text), timestamp: timestampOf(index) };
+    });
+    const httpWire = (): (A2AWireMessage & ACPWireMessage)[] => indexes.map(index => {
+      const frame = script[index];
+      const http = frame.http ?? { method: 'POST', url: participants.endpoint ?? participants.server };
+      return {
+        seq: index,
+        direction: frame.direction,
+        kind: frame.kind ?? 'request',
+        summary: frame.direction === 'outgoing' ? `${http.method} ${http.url}` : `${http.status ?? 200}`,
+        text: textOf(frame),
+        timestamp: timestampOf(index),
+        exchange: frame.exchange ?? index,
+        http
+      };
+    });
+    const traced = protocol === 'MCP'
+      ? traceMcpWire(mcpWire(), participants)
+      : protocol === 'A2A' ? traceA2AWire(httpWire(), participants) : traceACPWire(httpWire(), participants);
+    traced.forEach((frame, position) => {
+      const correlationId = frame.correlationId !== undefined && connections.length > 1
+        ? `${connectionIndex + 1}.${frame.correlationId}`
+        : frame.correlationId;
+      frames[indexes[position]] = { ...frame, seq: indexes[position], correlationId };
+    });
+  });
+  return frames;
+};
+
+/**
+ * A JSON-RPC request and its result on an MCP connection
+ */
+export const scriptMcpCall = (participants: TraceParticipants, id: number, method: string, params: unknown, result: unknown): ScriptedFrame[] => [
+  { protocol: 'MCP', participants, direction: 'outgoing', body: { jsonrpc: '2.0', id, method, params } },
+  { protocol: 'MCP', participants, direction: 'incoming', body: { jsonrpc: '2.0', id, result } }
+];
+
+/**
+ * An HTTP request and its response on an A2A or ACP connection, with the stream events
+ * that followed when the response was an event stream
+ */
+export const scriptHttpExchange = (
+  protocol: 'A2A' | 'ACP',
+  participants: TraceParticipants,
+  exchange: number,
+  request: { method: string; path: string; body?: unknown },
+  response: { status: number; body?: unknown; events?: unknown[] }
+): ScriptedFrame[] => {
+  const url = `${participants.endpoint ?? ''}${request.path}`;
+  const streamed = response.events !== undefined;
+  const contentType = streamed ? 'text/event-stream' : 'application/json';
+  const http = { method: request.method, url };
+  return [
+    { protocol, participants, direction: 'outgoing', kind: 'request', exchange, http, body: request.body },
+    { protocol, participants, direction: 'incoming', kind: 'response', exchange, http: { ...http, status: response.status, contentType }, body: response.body },
+    ...(response.events ?? []).map((event): ScriptedFrame => ({
+      protocol,
+      participants,
+      direction: 'incoming',
+      kind: 'event',
+      exchange,
+      http: { ...http, status: response.status, contentType },
+      body: event
+    }))
+  ];
+};
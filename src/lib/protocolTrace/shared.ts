@@ -0,0 +1,32 @@
+import { TraceFrame } from './types';
+
+export const parseBody = (text: string): { body?: unknown; errors: string[] } => {
+  if (!text.trim()) return { errors: [] };
+  try {
+    return { body: JSON.parse(text), errors: [] };
+  } catch {
+    return { errors: ['Body is not valid JSON'] };
+  }
+};
+
+export const pathOf = (url: string) => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+};
+
+// Latency of every frame that answers an earlier one, from the first frame of its correlation
+export const withLatencies = (frames: TraceFrame[]): TraceFrame[] => {
+  const startedAt = new Map<string, number>();
+  return frames.map(frame => {
+    if (!frame.correlationId) return frame;
+    const started = startedAt.get(frame.correlationId);
+    if (started === undefined || frame.kind === 'request') {
+      startedAt.set(frame.correlationId, frame.timestamp);
+      return frame;
+    }
+    return { ...frame, latencyMs: frame.timestamp - started };
+  });
+};
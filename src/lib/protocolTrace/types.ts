@@ -0,0 +1,38 @@
+/**
+ * Protocol frames from MCP, A2A and ACP clients in one shape, for the shared
+ * inspector and the trace exports
+ */
+
+export type TraceProtocol = 'MCP' | 'A2A' | 'ACP';
+
+export interface TraceFrame {
+  // Position in the trace; wire sequence numbers restart per client
+  seq: number;
+  protocol: TraceProtocol;
+  direction: 'outgoing' | 'incoming';
+  kind: 'request' | 'response' | 'notification' | 'event';
+  // Participants as the sequence diagram names them, e.g. "Client" and "Currency Agent"
+  from: string;
+  to: string;
+  // One line, e.g. "tools/call #3" or "POST /runs"
+  label: string;
+  // Shared by a request and whatever answers it: the JSON-RPC id or the HTTP exchange
+  correlationId?: string;
+  // Time since the request this frame answers
+  latencyMs?: number;
+  http?: { method: string; url: string; status?: number; contentType?: string };
+  text: string;
+  // Parsed body; undefined when the text is empty or isn't JSON
+  body?: unknown;
+  failed: boolean;
+  // Schema violations, empty for a valid frame
+  errors: string[];
+  timestamp: number;
+}
+
+export interface TraceParticipants {
+  client: string;
+  server: string;
+  // Where the server was reached; used as the URL of frames that had no HTTP request
+  endpoint?: string;
+}
@@ -0,0 +1,175 @@
+/*
+ * Python sources loaded into Pyodide before a pattern runs. The pattern examples import the
+ * openai SDK, which isn't available in the browser, so a stand-in module answers every
+ * completion through the same mock replies the TypeScript sandbox uses.
+ */
+
+// Name of the JS module the worker registers; complete(prompt) returns the mock reply
+export const MOCK_LLM_MODULE = 'agent_school_mocks';
+
+// Pattern source is compiled under this name so traceback frames can be mapped back to it
+export const PATTERN_FILENAME = '<pattern>';
+
+export const OPENAI_STUB_SOURCE = `
+import json
+from ${MOCK_LLM_MODULE} import complete
+
+api_key = None
+
+class _Record(dict):
+    """Dict that also allows attribute access, like the SDK's response objects"""
+    def __getattr__(self, name):
+        try:
+            return self[name]
+        except KeyError:
+            raise AttributeError(name)
+
+def _prompt_text(messages, prompt):
+    if messages is None:
+        return str(prompt or '')
+    parts = []
+    for message in messages:
+        content = message.get('content', '') if isinstance(message, dict) else message
+        parts.append(content if isinstance(content, str) else json.dumps(content, default=str))
+    return '\\n'.join(parts)
+
+def _completion(model, messages=None, prompt=None):
+    text = _prompt_text(messages, prompt)
+    reply = complete(text)
+    message = _Record(role='assistant', content=reply, tool_calls=None)
+    return _Record(
+        id='mock-completion',
+        object='chat.completion',
+        model=model,
+        choices=[_Record(index=0, message=message, text=reply, finish_reason='stop')],
+        usage=_Record(
+            prompt_tokens=len(text.split()),
+            completion_tokens=len(reply.split()),
+            total_tokens=len(text.split()) + len(reply.split())
+        )
+    )
+
+class _Completions:
+    def create(self, model='gpt-4', messages=None, prompt=None, **kwargs):
+        return _completion(model, messages, prompt)
+
+class _AsyncCompletions:
+    async def create(self, model='gpt-4', messages=None, prompt=None, **kwargs):
+        return _completion(model, messages, prompt)
+
+class _Chat:
+    def __init__(self, completions):
+        self.completions = completions
+
+class OpenAI:
+    def __init__(self, *args, **kwargs):
+        self.chat = _Chat(_Completions())
+        self.completions = _Completions()
+
+class AsyncOpenAI:
+    def __init__(self, *args, **kwargs):
+        self.chat = _Chat(_AsyncCompletions())
+        self.completions = _AsyncCompletions()
+
+AzureOpenAI = OpenAI
+AsyncAzureOpenAI = AsyncOpenAI
+
+class ChatCompletion:
+    """Pre-1.0 module-level API"""
+    @staticmethod
+    def create(model='gpt-4', messages=None, **kwargs):
+        return _completion(model, messages)
+
+    @staticmethod
+    async def acreate(model='gpt-4', messages=None, **kwargs):
+        return _completion(model, messages)
+`;
+
+/**
+ * Defines run_pattern(source, class_name, query), which returns a JSON summary of the run.
+ * Exceptions are reported with the line in the pattern source and a traceback that leaves
+ * out the harness's own frames.
+ */
+export const HARNESS_SOURCE = `
+import sys, types, json, inspect, linecache, traceback
+
+PATTERN_FILENAME = '${PATTERN_FILENAME}'
+PATTERN_MODULE = '__pattern__'
+
+def install_openai_stub(source):
+    module = types.ModuleType('openai')
+    exec(source, module.__dict__)
+    sys.modules['openai'] = module
+    return module
+
+def _find_agent_class(namespace, class_name):
+    candidates = [
+        value for value in namespace.values()
+        if inspect.isclass(value) and value.__module__ == PATTERN_MODULE and callable(getattr(value, 'execute', None))
+    ]
+    for candidate in candidates:
+        if candidate.__name__ == class_name:
+            return candidate
+    if not candidates:
+        raise LookupError('No class with an execute() method was found in the pattern source')
+    return candidates[0]
+
+def _sample_argument(parameter, query):
+    annotation = parameter.annotation
+    if annotation in (int, float):
+        return 3
+    if annotation is bool:
+        return True
+    if 'response' in parameter.name or 'draft' in parameter.name:
+        return 'Draft answer to: ' + query
+    return query
+
+def _sample_arguments(method, query):
+    args = []
+    for index, parameter in enumerate(inspect.signature(method).parameters.values()):
+        if parameter.default is not inspect.Parameter.empty and index > 0:
+            break
+        if parameter.kind in (inspect.Parameter.VAR_POSITIONAL, inspect.Parameter.VAR_KEYWORD):
+            break
+        args.append(_sample_argument(parameter, query))
+    return args
+
+def _pattern_line(error):
+    if isinstance(error, SyntaxError) and error.filename == PATTERN_FILENAME:
+        return error.lineno
+    line = None
+    for frame in traceback.extract_tb(error.__traceback__):
+        if frame.filename == PATTERN_FILENAME:
+            line = frame.lineno
+    return line
+
+def _pattern_traceback(error):
+    frames = [frame for frame in traceback.extract_tb(error.__traceback__) if frame.filename == PATTERN_FILENAME]
+    lines = ['Traceback (most recent call last):\\n'] + traceback.format_list(frames) if frames else []
+    return ''.join(lines + traceback.format_exception_only(type(error), error))
+
+async def run_pattern(source, class_name, query):
+    linecache.cache[PATTERN_FILENAME] = (len(source), None, source.splitlines(True), PATTERN_FILENAME)
+    namespace = {'__name__': PATTERN_MODULE}
+    entry = None
+    try:
+        exec(compile(source, PATTERN_FILENAME, 'exec'), namespace)
+        agent_class = _find_agent_class(namespace, class_name)
+        agent = agent_class(sys.modules['openai'].AsyncOpenAI())
+        args = _sample_arguments(agent.execute, query)
+        entry = agent_class.__name__ + '(client).execute(' + ', '.join(repr(arg) for arg in args) + ')'
+        result = agent.execute(*args)
+        if inspect.isawaitable(result):
+            result = await result
+        return json.dumps({'status': 'success', 'entry': entry, 'returnValue': json.dumps(result, indent=2, default=str)})
+    except Exception as error:
+        line = _pattern_line(error)
+        return json.dumps({
+            'status': 'error',
+            'entry': entry,
+            'error': str(error) or type(error).__name__,
+            'errorType': type(error).__name__,
+            'errorLine': line - 1 if line else None,
+            'traceback': _pattern_traceback(error)
+        })
+`;
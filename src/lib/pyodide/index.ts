@@ -0,0 +1,8 @@
+// Pyodide itself only loads inside the worker, from the CDN, on the first run
+export { runPython, DEFAULT_PYTHON_TIMEOUT_MS } from './runner';
+export type {
+  PythonRunOptions,
+  PythonRunHandlers,
+  PythonRunResult,
+  PythonOutputChunk
+} from './types';
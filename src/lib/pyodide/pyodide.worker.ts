@@ -0,0 +1,126 @@
+import { generateMockReply } from '../sandbox/mocks';
+import { SandboxLlmCall } from '../sandbox/types';
+import { HARNESS_SOURCE, MOCK_LLM_MODULE, OPENAI_STUB_SOURCE } from './harness';
+import { PythonRunOptions, PythonWorkerRequest, PythonWorkerResponse } from './types';
+
+/*
+ * Runs pattern classes in Pyodide off the main thread. The interpreter is downloaded on the
+ * first run and kept for later ones; the page terminates the worker when a run times out,
+ * so the next run loads it again.
+ */
+
+const PYODIDE_VERSION = '0.26.4';
+const PYODIDE_INDEX_URL = `https://cdn.jsdelivr.net/pyodide/v${PYODIDE_VERSION}/full/`;
+
+// The parts of the Pyodide API the runner uses
+interface PyodideInterface {
+  runPython: (code: string) => unknown;
+  registerJsModule: (name: string, module: object) => void;
+  setStdout: (options: { batched: (text: string) => void }) => void;
+  setStderr: (options: { batched: (text: string) => void }) => void;
+  globals: { get: (name: string) => any };
+}
+
+interface ActiveRun {
+  id: number;
+  options: PythonRunOptions;
+  llmCalls: SandboxLlmCall[];
+}
+
+let runtime: Promise<PyodideInterface> | null = null;
+let activeRun: ActiveRun | null = null;
+
+const respond = (message: PythonWorkerResponse) => self.postMessage(message);
+
+// Called from the stub openai module for every completion
+const complete = (prompt: string): string => {
+  if (!activeRun) return generateMockReply(prompt);
+  const { options, llmCalls } = activeRun;
+  const response = options.llmResponses?.[llmCalls.length] ?? generateMockReply(prompt, options.input);
+  llmCalls.push({ prompt, response });
+  respond({ id: activeRun.id, type: 'output', chunk: { stream: 'llm', text: `llm> ${response}` } });
+  return response;
+};
+
+const loadRuntime = (): Promise<PyodideInterface> => {
+  if (!runtime) {
+    runtime = (async () => {
+      const { loadPyodide } = await import(/* @vite-ignore */ `${PYODIDE_INDEX_URL}pyodide.mjs`);
+      const pyodide: PyodideInterface = await loadPyodide({ indexURL: PYODIDE_INDEX_URL });
+      const stream = (name: 'stdout' | 'stderr') => (text: string) => {
+        if (activeRun) respond({ id: activeRun.id, type: 'output', chunk: { stream: name, text } });
+      };
+      pyodide.setStdout({ batched: stream('stdout') });
+      pyodide.setStderr({ batched: stream('stderr') });
+      pyodide.registerJsModule(MOCK_LLM_MODULE, { complete });
+      pyodide.runPython(HARNESS_SOURCE);
+      pyodide.globals.get('install_openai_stub')(OPENAI_STUB_SOURCE);
+      return pyodide;
+    })();
+    // A failed download shouldn't stick; the next run tries again
+    runtime.catch(() => {
+      runtime = null;
+    });
+  }
+  return runtime;
+};
+
+self.onmessage = async (event: MessageEvent<PythonWorkerRequest>) => {
+  const { id, code, options } = event.data;
+  const startedAt = Date.now();
+  let pyodide: PyodideInterface;
+  try {
+    if (!runtime) respond({ id, type: 'loading' });
+    pyodide = await loadRuntime();
+  } catch (error) {
+    respond({
+      id,
+      type: 'result',
+      result: {
+        status: 'error',
+        error: `Could not load Pyodide: ${error instanceof Error ? error.message : error}`,
+        llmCalls: [],
+        durationMs: Date.now() - startedAt
+      }
+    });
+    return;
+  }
+
+  activeRun = { id, options, llmCalls: [] };
+  respond({ id, type: 'started' });
+  const runStartedAt = Date.now();
+  const runPattern = pyodide.globals.get('run_pattern');
+  try {
+    const summary = JSON.parse(await runPattern(code, options.className ?? null, options.input ?? ''));
+    respond({
+      id,
+      type: 'result',
+      result: {
+        status: summary.status,
+        entry: summary.entry ?? undefined,
+        returnValue: summary.returnValue ?? undefined,
+        error: summary.error ?? undefined,
+        errorType: summary.errorType ?? undefined,
+        errorLine: summary.errorLine ?? undefined,
+        traceback: summary.traceback ?? undefined,
+        llmCalls: activeRun.llmCalls,
+        durationMs: Date.now() - runStartedAt
+      }
+    });
+  } catch (error) {
+    // Errors raised outside run_pattern's own handler, e.g. SystemExit or a harness fault
+    respond({
+      id,
+      type: 'result',
+      result: {
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+        llmCalls: activeRun.llmCalls,
+        durationMs: Date.now() - runStartedAt
+      }
+    });
+  } finally {
+    runPattern.destroy?.();
+    activeRun = null;
+  }
+};
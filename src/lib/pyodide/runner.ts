@@ -0,0 +1,109 @@
+import {
+  PythonOutputChunk,
+  PythonRunHandlers,
+  PythonRunOptions,
+  PythonRunResult,
+  PythonWorkerRequest,
+  PythonWorkerResponse
+} from './types';
+
+export const DEFAULT_PYTHON_TIMEOUT_MS = 10000;
+// The first run downloads the interpreter (around 10 MB) from the CDN
+const WORKER_START_TIMEOUT_MS = 120000;
+// Pyodide can't be interrupted from outside without cross-origin isolation, so the page kills the worker
+const TIMEOUT_GRACE_MS = 1000;
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+
+// One worker keeps the loaded interpreter across runs; it is replaced whenever a run has to be killed
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./pyodide.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+const discardWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+/**
+ * Run a pattern's Python class in Pyodide against a stubbed openai client. Output is streamed
+ * to handlers.onOutput as it is printed. Never rejects: failures, including runaway code,
+ * come back as an error or timeout result.
+ */
+export const runPython = (
+  code: string,
+  options: PythonRunOptions = {},
+  handlers: PythonRunHandlers = {}
+): Promise<PythonRunResult> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PYTHON_TIMEOUT_MS;
+  const id = nextRequestId++;
+  const startedAt = Date.now();
+  const output: PythonOutputChunk[] = [];
+
+  return new Promise(resolve => {
+    const fail = (status: PythonRunResult['status'], error: string) =>
+      resolve({ status, error, output, llmCalls: [], durationMs: Date.now() - startedAt });
+
+    let runtime: Worker;
+    try {
+      runtime = getWorker();
+    } catch (error) {
+      fail('error', `Could not start the Python worker: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout>;
+    const cleanUp = () => {
+      clearTimeout(timer);
+      runtime.removeEventListener('message', handleMessage);
+      runtime.removeEventListener('error', handleError);
+    };
+
+    const kill = (message: string, status: PythonRunResult['status']) => {
+      cleanUp();
+      discardWorker();
+      fail(status, message);
+    };
+
+    const handleMessage = (event: MessageEvent<PythonWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+      switch (message.type) {
+        case 'loading':
+          handlers.onLoading?.();
+          return;
+        case 'started':
+          clearTimeout(timer);
+          timer = setTimeout(
+            () => kill(`Still running after ${timeoutMs} ms; the Python worker was stopped`, 'timeout'),
+            timeoutMs + TIMEOUT_GRACE_MS
+          );
+          handlers.onStarted?.();
+          return;
+        case 'output':
+          output.push(message.chunk);
+          handlers.onOutput?.(message.chunk);
+          return;
+        case 'result':
+          cleanUp();
+          resolve({ ...message.result, output });
+      }
+    };
+
+    const handleError = (event: ErrorEvent) => {
+      event.preventDefault();
+      kill(`Python worker crashed: ${event.message || 'unknown error'}`, 'error');
+    };
+
+    runtime.addEventListener('message', handleMessage);
+    runtime.addEventListener('error', handleError);
+    timer = setTimeout(() => kill('Pyodide did not load in time', 'error'), WORKER_START_TIMEOUT_MS);
+
+    const request: PythonWorkerRequest = { id, code, options };
+    runtime.postMessage(request);
+  });
+};
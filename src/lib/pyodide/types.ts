@@ -0,0 +1,54 @@
+import { SandboxLlmCall } from '@/lib/sandbox';
+
+/**
+ * A chunk of output from the Python run; 'llm' lines record calls to the stubbed openai client
+ */
+export interface PythonOutputChunk {
+  stream: 'stdout' | 'stderr' | 'llm';
+  text: string;
+}
+
+export interface PythonRunOptions {
+  // Agent class to instantiate; defaults to the first class in the source with an execute method
+  className?: string;
+  // Text passed to execute() as the query
+  input?: string;
+  // Replies for chat.completions.create in call order; once used up, replies are generated from the prompt
+  llmResponses?: string[];
+  timeoutMs?: number;
+}
+
+/**
+ * Callbacks for a run in progress, kept out of PythonRunOptions because they can't be posted to the worker
+ */
+export interface PythonRunHandlers {
+  onOutput?: (chunk: PythonOutputChunk) => void;
+  // Called once the interpreter has to be downloaded, which only happens on the first run
+  onLoading?: () => void;
+  onStarted?: () => void;
+}
+
+export interface PythonRunResult {
+  status: 'success' | 'error' | 'timeout';
+  // The call that was made, e.g. ReActAgent(client).execute('...')
+  entry?: string;
+  returnValue?: string;
+  error?: string;
+  // Exception class name, e.g. KeyError
+  errorType?: string;
+  // 0-based line in the pattern source where the exception was raised, when known
+  errorLine?: number;
+  // Traceback restricted to frames in the pattern source
+  traceback?: string;
+  output: PythonOutputChunk[];
+  llmCalls: SandboxLlmCall[];
+  durationMs: number;
+}
+
+export type PythonWorkerRequest = { id: number; code: string; options: PythonRunOptions };
+// 'started' is sent once the interpreter is loaded, so the timeout covers only execution
+export type PythonWorkerResponse =
+  | { id: number; type: 'loading' }
+  | { id: number; type: 'started' }
+  | { id: number; type: 'output'; chunk: PythonOutputChunk }
+  | { id: number; type: 'result'; result: Omit<PythonRunResult, 'output'> };
@@ -0,0 +1,319 @@
+import { QuizQuestion, getQuestionType } from '../data/quizzes';
+import { ImportedQuestion, QuizFormatResult } from './types';
+
+/*
+ * Moodle GIFT (https://docs.moodle.org/en/GIFT_format).
+ * The portable part of each question goes in standard GIFT; fields GIFT has no place for
+ * (persona, learning objectives, blanks, diagram ids...) travel in "// @field: <json>"
+ * comment lines above the question, which other LMSs ignore.
+ */
+
+// Fields carried in metadata comments, in the order they are written
+const METADATA_FIELDS = [
+  'type', 'difficulty', 'persona', 'learningObjectives', 'relatedConcepts', 'timeEstimate',
+  'codeExample', 'visualAid', 'codeTemplate', 'blanks', 'patternId', 'correctNodeIds'
+] as const;
+
+const LIST_FIELDS = ['persona', 'learningObjectives', 'relatedConcepts', 'correctNodeIds'];
+
+const ORDERING_KEY = /^Step (\d+)$/;
+
+const escapeGift = (text: string) => text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\n/g, '\\n');
+
+const unescapeGift = (text: string) =>
+  text.replace(/\\n/g, '\n').replace(/\\([~=#{}:\\])/g, '$1').trim();
+
+// Index of the first occurrence of any of the characters that is not backslash-escaped
+const findUnescaped = (text: string, chars: string, from = 0): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (chars.includes(text[i])) return i;
+  }
+  return -1;
+};
+
+const exportAnswers = (question: QuizQuestion, warnings: string[]): string => {
+  switch (getQuestionType(question)) {
+    case 'multi-select': {
+      const correct = question.correctAnswers ?? [];
+      const weight = (100 / Math.max(1, correct.length)).toFixed(5).replace(/\.?0+$/, '');
+      return question.options
+        .map((option, index) => `~%${correct.includes(index) ? weight : '-100'}%${escapeGift(option)}`)
+        .join(' ');
+    }
+    case 'ordering':
+      // GIFT has no ordering type; a matching question pairing step numbers with steps is the closest
+      return question.options.map((option, index) => `=Step ${index + 1} -> ${escapeGift(option)}`).join(' ');
+    case 'code-completion': {
+      const blanks = question.blanks ?? [];
+      if (blanks.length > 1) {
+        warnings.push(`${question.id}: GIFT short answer holds one blank; other LMSs will only grade "${blanks[0].id}"`);
+      }
+      const [blank] = blanks;
+      if (blank?.tolerance !== undefined) {
+        return `#${blank.acceptedAnswers.map(answer => `=${answer}:${blank.tolerance}`).join(' ')}`;
+      }
+      return (blank?.acceptedAnswers ?? []).map(answer => `=${escapeGift(answer)}`).join(' ');
+    }
+    case 'hotspot':
+      warnings.push(
+        `${question.id}: exported as a short answer that takes any one correct node id typed as text; other LMSs won't show the diagram`
+      );
+      return (question.correctNodeIds ?? []).map(id => `=${escapeGift(id)}`).join(' ');
+    default:
+      return question.options
+        .map((option, index) => `${index === question.correctAnswer ? '=' : '~'}${escapeGift(option)}`)
+        .join(' ');
+  }
+};
+
+/**
+ * Write questions as GIFT, grouped under $CATEGORY lines of the form category/subCategory
+ */
+export const exportGift = (questions: QuizQuestion[]): QuizFormatResult<string> => {
+  const warnings: string[] = [];
+  const blocks: string[] = ['// Exported from AI Agent School'];
+  let currentCategory = '';
+
+  questions.forEach(question => {
+    const category = `${question.category}/${question.subCategory}`;
+    if (category !== currentCategory) {
+      blocks.push(`$CATEGORY: ${category}`);
+      currentCategory = category;
+    }
+
+    const metadata = METADATA_FIELDS
+      .filter(field => question[field] !== undefined)
+      .map(field => `// @${field}: ${JSON.stringify(question[field])}`);
+    const generalFeedback = question.explanation ? ` ####${escapeGift(question.explanation)}` : '';
+
+    blocks.push([
+      ...metadata,
+      `::${escapeGift(question.id)}:: ${escapeGift(question.question)} {${exportAnswers(question, warnings)}${generalFeedback}}`
+    ].join('\n'));
+  });
+
+  return { value: blocks.join('\n\n') + '\n', warnings };
+};
+
+interface GiftAnswer {
+  correct: boolean;
+  weight?: number;
+  text: string;
+}
+
+const parseAnswerBlock = (block: string): { answers: GiftAnswer[]; generalFeedback?: string } => {
+  let body = block;
+  let generalFeedback: string | undefined;
+  const generalIndex = body.indexOf('####');
+  if (generalIndex >= 0) {
+    generalFeedback = unescapeGift(body.slice(generalIndex + 4));
+    body = body.slice(0, generalIndex);
+  }
+
+  const answers: GiftAnswer[] = [];
+  let start = findUnescaped(body, '=~');
+  while (start >= 0) {
+    const next = findUnescaped(body, '=~', start + 1);
+    answers.push(toAnswer(body[start], body.slice(start + 1, next >= 0 ? next : undefined)));
+    start = next;
+  }
+  return { answers, generalFeedback };
+};
+
+const toAnswer = (marker: string, raw: string): GiftAnswer => {
+  let text = raw;
+  // Drop per-answer feedback
+  const feedbackIndex = findUnescaped(text, '#');
+  if (feedbackIndex >= 0) text = text.slice(0, feedbackIndex);
+
+  let weight: number | undefined;
+  const weightMatch = text.match(/^\s*%(-?[\d.]+)%/);
+  if (weightMatch) {
+    weight = parseFloat(weightMatch[1]);
+    text = text.slice(weightMatch[0].length);
+  }
+  return { correct: marker === '=' || (weight ?? 0) > 0, weight, text: unescapeGift(text) };
+};
+
+// A numeric GIFT answer: "value", "value:tolerance" or "min..max"
+const parseNumericAnswer = (text: string): { value: number; tolerance: number } | null => {
+  const range = text.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+  if (range) {
+    const [min, max] = [parseFloat(range[1]), parseFloat(range[2])];
+    return isNaN(min) || isNaN(max) ? null : { value: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+  }
+  const [value, tolerance = '0'] = text.split(':').map(part => part.trim());
+  const parsed = { value: Number(value), tolerance: Number(tolerance) };
+  return value === '' || isNaN(parsed.value) || isNaN(parsed.tolerance) ? null : parsed;
+};
+
+const parseMetadata = (lines: string[]): Partial<QuizQuestion> => {
+  const metadata: Record<string, unknown> = {};
+  lines.forEach(line => {
+    const match = line.match(/^\/\/\s*@(\w+):\s*(.*)$/);
+    if (!match) return;
+    const [, field, raw] = match;
+    try {
+      metadata[field] = JSON.parse(raw);
+    } catch {
+      // Hand-written metadata: lists may be comma-separated, everything else is text
+      metadata[field] = LIST_FIELDS.includes(field) ? raw.split(',').map(item => item.trim()).filter(Boolean) : raw.trim();
+    }
+  });
+  return metadata as Partial<QuizQuestion>;
+};
+
+const parseQuestion = (
+  text: string,
+  metadata: Partial<QuizQuestion>,
+  category: string[],
+  warnings: string[],
+  index: number
+): ImportedQuestion | null => {
+  let rest = text.trim();
+  let title: string | undefined;
+  const titleMatch = rest.match(/^::((?:\\.|[^:])*)::/);
+  if (titleMatch) {
+    title = unescapeGift(titleMatch[1]);
+    rest = rest.slice(titleMatch[0].length).trim();
+  }
+  // Text format markers such as [markdown]
+  rest = rest.replace(/^\[(html|moodle|plain|markdown)\]/, '');
+
+  const open = findUnescaped(rest, '{');
+  const close = open >= 0 ? findUnescaped(rest, '}', open) : -1;
+  if (open < 0 || close < 0) {
+    warnings.push(`Question ${index + 1}${title ? ` (${title})` : ''}: no answer block, skipped`);
+    return null;
+  }
+
+  const questionText = unescapeGift(`${rest.slice(0, open)} ${rest.slice(close + 1)}`.replace(/\s+/g, ' '));
+  const { answers, generalFeedback } = parseAnswerBlock(rest.slice(open + 1, close));
+  const answerBlock = rest.slice(open + 1, close).trim();
+
+  const question: ImportedQuestion = {
+    ...metadata,
+    id: title || metadata.id || `gift-${index + 1}`,
+    question: questionText,
+    explanation: generalFeedback ?? metadata.explanation ?? '',
+    category: category[0] ?? metadata.category,
+    subCategory: category[1] ?? metadata.subCategory,
+    options: metadata.options ?? []
+  };
+
+  // True/false
+  if (/^(T|TRUE|F|FALSE)\b/i.test(answerBlock)) {
+    question.type = 'single-choice';
+    question.options = ['True', 'False'];
+    question.correctAnswer = /^T/i.test(answerBlock) ? 0 : 1;
+    return question;
+  }
+
+  // Numeric: {#value:tolerance}, {#min..max} or {#=value:tolerance =%50%value:tolerance}
+  if (answerBlock.startsWith('#')) {
+    const numericBlock = answerBlock.slice(1);
+    const entries = findUnescaped(numericBlock, '=~') >= 0
+      ? parseAnswerBlock(numericBlock).answers
+      : [toAnswer('=', numericBlock.split('####')[0])];
+    const accepted = entries.filter(answer => answer.correct && (answer.weight === undefined || answer.weight >= 100));
+    if (accepted.length < entries.length) {
+      warnings.push(`${question.id}: partial-credit and wrong numeric answers are not supported, only full-credit ones are kept`);
+    }
+    const numbers = accepted.map(answer => parseNumericAnswer(answer.text));
+    if (numbers.length === 0 || numbers.some(number => number === null)) {
+      warnings.push(`${question.id}: numeric answer "${numericBlock}" could not be read, skipped`);
+      return null;
+    }
+    const tolerance = Math.max(...numbers.map(number => number.tolerance));
+    if (numbers.some(number => number.tolerance !== tolerance)) {
+      warnings.push(`${question.id}: numeric answers have different tolerances, all use ±${tolerance}`);
+    }
+    question.type = 'code-completion';
+    question.codeTemplate = metadata.codeTemplate ?? '{{answer}}';
+    question.blanks = metadata.blanks ?? [{
+      id: 'answer',
+      acceptedAnswers: numbers.map(number => String(number.value)),
+      // Set even when 0 so answers are compared as numbers: 3.0 counts for 3
+      tolerance
+    }];
+    return question;
+  }
+
+  const matching = answers.filter(answer => answer.text.includes('->'));
+  if (matching.length > 0 && matching.length === answers.length) {
+    const pairs = matching.map(answer => answer.text.split('->').map(part => part.trim()));
+    if (!pairs.every(([key]) => ORDERING_KEY.test(key))) {
+      warnings.push(`${question.id}: matching questions other than "Step N -> step" are not supported, skipped`);
+      return null;
+    }
+    question.type = 'ordering';
+    question.options = pairs
+      .sort(([a], [b]) => parseInt(a.match(ORDERING_KEY)[1]) - parseInt(b.match(ORDERING_KEY)[1]))
+      .map(([, step]) => step);
+    return question;
+  }
+
+  const correct = answers.filter(answer => answer.correct);
+  const hasWrong = answers.some(answer => !answer.correct);
+
+  if (metadata.type === 'hotspot') {
+    question.correctNodeIds = metadata.correctNodeIds ?? correct.map(answer => answer.text);
+    return question;
+  }
+
+  if (!hasWrong) {
+    // Short answer: every answer is accepted
+    question.type = 'code-completion';
+    question.codeTemplate = metadata.codeTemplate ?? '{{answer}}';
+    question.blanks = metadata.blanks ?? [{ id: 'answer', acceptedAnswers: correct.map(answer => answer.text) }];
+    return question;
+  }
+
+  question.options = answers.map(answer => answer.text);
+  if (correct.length > 1 || answers.some(answer => answer.weight !== undefined)) {
+    question.type = 'multi-select';
+    question.correctAnswers = answers.flatMap((answer, i) => (answer.correct ? [i] : []));
+  } else {
+    question.type = metadata.type ?? 'single-choice';
+    question.correctAnswer = answers.findIndex(answer => answer.correct);
+  }
+  return question;
+};
+
+/**
+ * Read GIFT text into questions. Fields GIFT can't express are taken from
+ * "// @field: value" comments when present and otherwise left for validation to report.
+ */
+export const parseGift = (text: string): QuizFormatResult<ImportedQuestion[]> => {
+  const warnings: string[] = [];
+  const questions: ImportedQuestion[] = [];
+  let category: string[] = [];
+
+  // Questions are separated by blank lines
+  const blocks = text.replace(/\r\n/g, '\n').split(/\n\s*\n/);
+  blocks.forEach(block => {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const commentLines = lines.filter(line => line.startsWith('//'));
+    const bodyLines = lines.filter(line => !line.startsWith('//'));
+
+    const categoryLine = bodyLines.find(line => line.startsWith('$CATEGORY:'));
+    if (categoryLine) {
+      // Moodle paths often start with $course$ or top; keep the last two segments
+      category = categoryLine.slice('$CATEGORY:'.length).trim().split('/')
+        .filter(segment => segment && !segment.startsWith('$') && segment !== 'top')
+        .slice(-2);
+    }
+
+    const body = bodyLines.filter(line => !line.startsWith('$CATEGORY:')).join('\n');
+    if (!body.trim()) return;
+
+    const question = parseQuestion(body, parseMetadata(commentLines), category, warnings, questions.length);
+    if (question) questions.push(question);
+  });
+
+  return { value: questions, warnings };
+};
@@ -0,0 +1,7 @@
+export { exportGift, parseGift } from './gift';
+export { exportQtiItem, exportQtiPackage, parseQtiItem, parseQtiPackage } from './qti';
+export { validateImportedQuestions, buildQuizCategories, createQuestionBankPack } from './validation';
+export type { ImportDefaults, ValidatedQuestion } from './validation';
+export { createZip, readZip } from './zip';
+export type { ZipEntry } from './zip';
+export type { ImportedQuestion, QuizFormatResult, QuizFormat } from './types';
@@ -0,0 +1,511 @@
+import { QuizQuestion, QuizQuestionType, getQuestionType } from '../data/quizzes';
+import { agentPatterns, PatternData } from '../data/patterns';
+import { resolvePatternId } from '../data/patternRegistry';
+import { ImportedQuestion, QuizFormatResult } from './types';
+import { createZip, readZip } from './zip';
+
+/*
+ * IMS QTI 2.1 (https://www.imsglobal.org/question/qtiv2p1/imsqti_infov2p1.html).
+ * Each question becomes one assessmentItem; a package is a zip of the items plus an
+ * imsmanifest.xml whose resource metadata carries what items have no place for:
+ * LOM for difficulty, timing, keywords and objectives, and a small quiz extension
+ * for persona and category.
+ */
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const CP_NS = 'http://www.imsglobal.org/xsd/imscp_v1p1';
+const LOM_NS = 'http://ltsc.ieee.org/xsd/LOM';
+const QUIZ_NS = 'urn:ai-agent-school:quiz';
+
+// Marks a choiceInteraction whose choices are nodes of a pattern diagram
+const HOTSPOT_CLASS = 'pattern-hotspot';
+const BLANK_RESPONSE_PREFIX = 'RESPONSE_';
+
+const lomDifficulty: Record<QuizQuestion['difficulty'], string> = {
+  beginner: 'easy',
+  intermediate: 'medium',
+  advanced: 'difficult'
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Minimal element builder; children are already-serialized XML
+const xml = (name: string, attributes: Record<string, string | number | undefined> = {}, ...children: string[]): string => {
+  const attrs = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('');
+  return children.length === 0 ? `<${name}${attrs}/>` : `<${name}${attrs}>${children.join('')}</${name}>`;
+};
+
+const text = (name: string, value: string, attributes: Record<string, string | number | undefined> = {}) =>
+  xml(name, attributes, escapeXml(value));
+
+const choiceId = (index: number) => `choice-${index}`;
+
+const responseDeclaration = (
+  identifier: string,
+  cardinality: 'single' | 'multiple' | 'ordered',
+  correct: string[],
+  mapping?: { key: string; value: number }[],
+  baseType = 'identifier'
+) => xml('responseDeclaration', { identifier, cardinality, baseType },
+  xml('correctResponse', {}, ...correct.map(value => text('value', value))),
+  ...(mapping ? [xml('mapping', { defaultValue: 0, lowerBound: 0 },
+    ...mapping.map(entry => xml('mapEntry', { mapKey: entry.key, mappedValue: entry.value }))
+  )] : [])
+);
+
+// SCORE := the given expression, and always show the explanation afterwards
+const responseProcessing = (scoreExpression: string) => xml('responseProcessing', {},
+  xml('setOutcomeValue', { identifier: 'SCORE' }, scoreExpression),
+  xml('setOutcomeValue', { identifier: 'FEEDBACK' }, text('baseValue', 'EXPLANATION', { baseType: 'identifier' }))
+);
+
+const matchCorrect = (identifier: string) => xml('responseCondition', {},
+  xml('responseIf', {},
+    xml('match', {}, xml('variable', { identifier }), xml('correct', { identifier })),
+    xml('setOutcomeValue', { identifier: 'SCORE' }, text('baseValue', '1', { baseType: 'float' }))
+  ),
+  xml('responseElse', {},
+    xml('setOutcomeValue', { identifier: 'SCORE' }, text('baseValue', '0', { baseType: 'float' }))
+  )
+);
+
+const simpleChoices = (options: string[], ids: string[] = options.map((_, index) => choiceId(index))) =>
+  options.map((option, index) => text('simpleChoice', option, { identifier: ids[index] }));
+
+const codeExampleBlock = (question: QuizQuestion) =>
+  question.codeExample ? [text('pre', question.codeExample, { class: 'code-example' })] : [];
+
+interface ItemParts {
+  declarations: string[];
+  body: string[];
+  processing: string;
+}
+
+const buildItemParts = (question: QuizQuestion, patterns: PatternData[], warnings: string[]): ItemParts => {
+  const prompt = text('prompt', question.question);
+
+  switch (getQuestionType(question)) {
+    case 'multi-select': {
+      const correct = question.correctAnswers ?? [];
+      // Right choices share a point, wrong ones take it back; the score never drops below 0
+      const share = 1 / Math.max(1, correct.length);
+      return {
+        declarations: [responseDeclaration('RESPONSE', 'multiple', correct.map(choiceId),
+          question.options.map((_, index) => ({ key: choiceId(index), value: correct.includes(index) ? share : -share }))
+        )],
+        body: [xml('choiceInteraction', { responseIdentifier: 'RESPONSE', shuffle: 'false', maxChoices: 0 },
+          prompt, ...simpleChoices(question.options))],
+        processing: responseProcessing(xml('mapResponse', { identifier: 'RESPONSE' }))
+      };
+    }
+    case 'ordering':
+      return {
+        declarations: [responseDeclaration('RESPONSE', 'ordered', question.options.map((_, index) => choiceId(index)))],
+        body: [xml('orderInteraction', { responseIdentifier: 'RESPONSE', shuffle: 'true' },
+          prompt, ...simpleChoices(question.options))],
+        processing: xml('responseProcessing', {},
+          matchCorrect('RESPONSE'),
+          xml('setOutcomeValue', { identifier: 'FEEDBACK' }, text('baseValue', 'EXPLANATION', { baseType: 'identifier' }))
+        )
+      };
+    case 'code-completion': {
+      const blanks = question.blanks ?? [];
+      if (blanks.some(blank => blank.tolerance)) {
+        warnings.push(`${question.id}: QTI text entries have no tolerance; other LMSs only accept the exact numbers`);
+      }
+      // Each blank is an inline text entry; the score is the share of blanks filled correctly
+      const code = (question.codeTemplate ?? '').split(/\{\{([\w-]+)\}\}/g).map((part, index) => {
+        if (index % 2 === 0) return escapeXml(part);
+        const hint = blanks.find(blank => blank.id === part)?.hint;
+        return xml('textEntryInteraction', { responseIdentifier: `${BLANK_RESPONSE_PREFIX}${part}`, placeholderText: hint });
+      }).join('');
+      const perBlank = blanks.map(blank => xml('mapResponse', { identifier: `${BLANK_RESPONSE_PREFIX}${blank.id}` }));
+      return {
+        declarations: blanks.map(blank => responseDeclaration(
+          `${BLANK_RESPONSE_PREFIX}${blank.id}`,
+          'single',
+          blank.acceptedAnswers.slice(0, 1),
+          blank.acceptedAnswers.map(answer => ({ key: answer, value: 1 })),
+          'string'
+        )),
+        body: [text('p', question.question), xml('pre', { class: 'code-template' }, code)],
+        processing: responseProcessing(xml('divide', {},
+          perBlank.length === 1 ? perBlank[0] : xml('sum', {}, ...perBlank),
+          text('baseValue', String(Math.max(1, blanks.length)), { baseType: 'float' })
+        ))
+      };
+    }
+    case 'hotspot': {
+      // The diagram itself can't travel; the nodes become choices any QTI player can show
+      warnings.push(`${question.id}: hotspot exported as a choice between diagram nodes; other LMSs won't show the diagram`);
+      const patternId = resolvePatternId(question.patternId ?? '') ?? question.patternId;
+      const nodes = patterns.find(pattern => pattern.id === patternId)?.nodes
+        ?? (question.correctNodeIds ?? []).map(id => ({ id, data: { label: id } }));
+      return {
+        declarations: [responseDeclaration('RESPONSE', 'single', (question.correctNodeIds ?? []).slice(0, 1),
+          (question.correctNodeIds ?? []).map(id => ({ key: id, value: 1 }))
+        )],
+        body: [xml('choiceInteraction', {
+          responseIdentifier: 'RESPONSE',
+          shuffle: 'false',
+          maxChoices: 1,
+          class: `${HOTSPOT_CLASS} pattern-${question.patternId}`
+        }, prompt, ...simpleChoices(nodes.map(node => node.data.label), nodes.map(node => node.id)))],
+        processing: responseProcessing(xml('mapResponse', { identifier: 'RESPONSE' }))
+      };
+    }
+    default:
+      return {
+        declarations: [responseDeclaration('RESPONSE', 'single', [choiceId(question.correctAnswer ?? 0)])],
+        body: [xml('choiceInteraction', { responseIdentifier: 'RESPONSE', shuffle: 'false', maxChoices: 1 },
+          prompt, ...simpleChoices(question.options))],
+        processing: xml('responseProcessing', {},
+          matchCorrect('RESPONSE'),
+          xml('setOutcomeValue', { identifier: 'FEEDBACK' }, text('baseValue', 'EXPLANATION', { baseType: 'identifier' }))
+        )
+      };
+  }
+};
+
+const buildItem = (question: QuizQuestion, patterns: PatternData[], warnings: string[]): string => {
+  const { declarations, body, processing } = buildItemParts(question, patterns, warnings);
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' + xml('assessmentItem', {
+    xmlns: QTI_NS,
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': `${QTI_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`,
+    identifier: question.id,
+    title: question.question.length > 80 ? `${question.question.slice(0, 77)}...` : question.question,
+    adaptive: 'false',
+    timeDependent: 'false'
+  },
+    ...declarations,
+    xml('outcomeDeclaration', { identifier: 'SCORE', cardinality: 'single', baseType: 'float' },
+      xml('defaultValue', {}, text('value', '0'))),
+    xml('outcomeDeclaration', { identifier: 'FEEDBACK', cardinality: 'single', baseType: 'identifier' }),
+    xml('itemBody', {}, ...codeExampleBlock(question), ...body),
+    processing,
+    ...(question.explanation ? [xml('modalFeedback', { outcomeIdentifier: 'FEEDBACK', identifier: 'EXPLANATION', showHide: 'show' },
+      escapeXml(question.explanation))] : [])
+  );
+};
+
+/**
+ * A single question as a QTI 2.1 assessmentItem. Patterns supply the node choices of hotspot questions.
+ */
+export const exportQtiItem = (question: QuizQuestion, patterns: PatternData[] = agentPatterns): QuizFormatResult<string> => {
+  const warnings: string[] = [];
+  return { value: buildItem(question, patterns, warnings), warnings };
+};
+
+const itemHref = (question: QuizQuestion) => `items/${question.id}.xml`;
+
+const lomString = (name: string, value: string) => xml(`imsmd:${name}`, {}, text('imsmd:string', value, { language: 'en' }));
+
+const lomVocabulary = (name: string, value: string) =>
+  xml(`imsmd:${name}`, {}, text('imsmd:source', 'LOMv1.0'), text('imsmd:value', value));
+
+const resourceMetadata = (question: QuizQuestion) => xml('metadata', {},
+  xml('imsmd:lom', {},
+    xml('imsmd:general', {},
+      xml('imsmd:identifier', {}, text('imsmd:entry', question.id)),
+      ...question.relatedConcepts.map(concept => lomString('keyword', concept))
+    ),
+    xml('imsmd:educational', {},
+      lomVocabulary('difficulty', lomDifficulty[question.difficulty]),
+      xml('imsmd:typicalLearningTime', {}, text('imsmd:duration', `PT${question.timeEstimate}S`))
+    ),
+    ...question.learningObjectives.map(objective => xml('imsmd:classification', {},
+      lomVocabulary('purpose', 'educational objective'),
+      lomString('description', objective)
+    ))
+  ),
+  xml('quiz:question', {
+    type: getQuestionType(question),
+    difficulty: question.difficulty,
+    category: question.category,
+    subCategory: question.subCategory,
+    patternId: question.patternId
+  },
+    ...question.persona.map(persona => text('quiz:persona', persona)),
+    ...(question.visualAid ? [text('quiz:visualAid', question.visualAid)] : [])
+  )
+);
+
+const buildManifest = (questions: QuizQuestion[]): string =>
+  '<?xml version="1.0" encoding="UTF-8"?>\n' + xml('manifest', {
+    xmlns: CP_NS,
+    'xmlns:imsmd': LOM_NS,
+    'xmlns:quiz': QUIZ_NS,
+    identifier: `manifest-${Date.now()}`
+  },
+    xml('organizations'),
+    xml('resources', {}, ...questions.map(question => xml('resource', {
+      identifier: `resource-${question.id}`,
+      type: 'imsqti_item_xmlv2p1',
+      href: itemHref(question)
+    },
+      resourceMetadata(question),
+      xml('file', { href: itemHref(question) })
+    )))
+  );
+
+/**
+ * Questions as a QTI 2.1 content package (zip with imsmanifest.xml and one file per item)
+ */
+export const exportQtiPackage = (
+  questions: QuizQuestion[],
+  patterns: PatternData[] = agentPatterns
+): QuizFormatResult<Uint8Array> => {
+  const warnings: string[] = [];
+  const encoder = new TextEncoder();
+  const entries = [
+    { name: 'imsmanifest.xml', data: encoder.encode(buildManifest(questions)) },
+    ...questions.map(question => ({ name: itemHref(question), data: encoder.encode(buildItem(question, patterns, warnings)) }))
+  ];
+  return { value: createZip(entries), warnings };
+};
+
+// Namespace-agnostic lookups: LMS exports vary in prefixes and default namespaces
+const descendants = (parent: Element | Document, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const first = (parent: Element | Document, localName: string): Element | undefined =>
+  descendants(parent, localName)[0];
+
+const textOf = (element: Element | undefined) => element?.textContent?.trim() ?? '';
+
+const parseXml = (source: string, fileName: string): Document => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`${fileName}: not well-formed XML`);
+  }
+  return doc;
+};
+
+interface ResponseInfo {
+  cardinality: string;
+  correct: string[];
+  mapping: { key: string; value: number }[];
+}
+
+const readResponses = (item: Element): Record<string, ResponseInfo> => {
+  const responses: Record<string, ResponseInfo> = {};
+  descendants(item, 'responseDeclaration').forEach(declaration => {
+    const correctResponse = first(declaration, 'correctResponse');
+    responses[declaration.getAttribute('identifier') ?? ''] = {
+      cardinality: declaration.getAttribute('cardinality') ?? 'single',
+      correct: correctResponse ? descendants(correctResponse, 'value').map(textOf) : [],
+      mapping: descendants(declaration, 'mapEntry').map(entry => ({
+        key: entry.getAttribute('mapKey') ?? '',
+        value: parseFloat(entry.getAttribute('mappedValue') ?? '0')
+      }))
+    };
+  });
+  return responses;
+};
+
+// Right answers: the correct response, plus anything the mapping scores above zero
+const correctValues = (response: ResponseInfo | undefined): string[] => {
+  if (!response) return [];
+  const mapped = response.mapping.filter(entry => entry.value > 0).map(entry => entry.key);
+  return [...new Set([...response.correct, ...mapped])];
+};
+
+const readChoices = (interaction: Element) => descendants(interaction, 'simpleChoice').map(choice => ({
+  id: choice.getAttribute('identifier') ?? '',
+  text: textOf(choice)
+}));
+
+/**
+ * Read one assessmentItem. Unsupported interactions are reported and skipped.
+ */
+const parseItem = (doc: Document, fileName: string, warnings: string[]): ImportedQuestion | null => {
+  const item = first(doc, 'assessmentItem');
+  if (!item) {
+    warnings.push(`${fileName}: no assessmentItem, skipped`);
+    return null;
+  }
+  const id = item.getAttribute('identifier') ?? fileName.replace(/\.xml$/, '');
+  const body = first(item, 'itemBody');
+  const responses = readResponses(item);
+  const feedback = descendants(item, 'modalFeedback').map(textOf).filter(Boolean).join('\n\n');
+
+  const codeExample = body ? descendants(body, 'pre').find(pre => pre.getAttribute('class')?.includes('code-example')) : undefined;
+  const question: ImportedQuestion = {
+    id,
+    explanation: feedback,
+    options: [],
+    ...(codeExample ? { codeExample: codeExample.textContent ?? '' } : {})
+  };
+
+  const order = body && first(body, 'orderInteraction');
+  const choice = body && first(body, 'choiceInteraction');
+  const textEntries = body ? descendants(body, 'textEntryInteraction') : [];
+  const withType = (type: QuizQuestionType) => ({ ...question, type });
+
+  if (order) {
+    const response = responses[order.getAttribute('responseIdentifier') ?? ''];
+    const choices = readChoices(order);
+    // Options are stored in their correct order
+    const correctOrder = response?.correct.length ? response.correct : choices.map(c => c.id);
+    return {
+      ...withType('ordering'),
+      question: textOf(first(order, 'prompt')) || textOf(item.querySelector('p')),
+      options: correctOrder.map(choiceIdentifier => choices.find(c => c.id === choiceIdentifier)?.text ?? choiceIdentifier)
+    };
+  }
+
+  if (choice) {
+    const response = responses[choice.getAttribute('responseIdentifier') ?? ''];
+    const choices = readChoices(choice);
+    const prompt = textOf(first(choice, 'prompt')) || textOf(item.querySelector('p'));
+    const correct = correctValues(response);
+    const classes = (choice.getAttribute('class') ?? '').split(/\s+/);
+
+    if (classes.includes(HOTSPOT_CLASS)) {
+      const patternClass = classes.find(c => c.startsWith('pattern-') && c !== HOTSPOT_CLASS);
+      return {
+        ...withType('hotspot'),
+        question: prompt,
+        patternId: patternClass?.slice('pattern-'.length),
+        correctNodeIds: correct
+      };
+    }
+
+    const indexes = correct.map(value => choices.findIndex(c => c.id === value)).filter(index => index >= 0);
+    const options = choices.map(c => c.text);
+    if (response?.cardinality === 'multiple' || indexes.length > 1) {
+      return { ...withType('multi-select'), question: prompt, options, correctAnswers: indexes.sort((a, b) => a - b) };
+    }
+    return { ...withType('single-choice'), question: prompt, options, correctAnswer: indexes[0] };
+  }
+
+  if (textEntries.length > 0) {
+    // Rebuild the template by swapping each text entry for a {{blank-id}} placeholder
+    const container = textEntries[0].parentElement ?? body;
+    const blanks = textEntries.map(entry => {
+      const responseId = entry.getAttribute('responseIdentifier') ?? '';
+      const blankId = responseId.startsWith(BLANK_RESPONSE_PREFIX) ? responseId.slice(BLANK_RESPONSE_PREFIX.length) : responseId;
+      entry.replaceWith(doc.createTextNode(`{{${blankId}}}`));
+      const hint = entry.getAttribute('placeholderText');
+      return { id: blankId, acceptedAnswers: correctValues(responses[responseId]), ...(hint ? { hint } : {}) };
+    });
+    const promptElement = body && Array.from(body.children).find(child => child.localName === 'p');
+    return {
+      ...withType('code-completion'),
+      question: textOf(promptElement) || textOf(first(item, 'prompt')),
+      codeTemplate: container?.textContent ?? '',
+      blanks
+    };
+  }
+
+  const interaction = body && Array.from(body.getElementsByTagName('*')).find(el => el.localName.endsWith('Interaction'));
+  warnings.push(`${id}: ${interaction ? interaction.localName : 'item without an interaction'} is not supported, skipped`);
+  return null;
+};
+
+const lomDifficultyToLevel = (value: string): QuizQuestion['difficulty'] | undefined => {
+  if (['very easy', 'easy'].includes(value)) return 'beginner';
+  if (value === 'medium') return 'intermediate';
+  if (['difficult', 'very difficult'].includes(value)) return 'advanced';
+  return undefined;
+};
+
+// ISO 8601 durations such as PT90S or PT1M30S, in seconds
+const parseDuration = (value: string): number | undefined => {
+  const match = value.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/);
+  if (!match) return undefined;
+  return (parseInt(match[1] ?? '0') * 3600) + (parseInt(match[2] ?? '0') * 60) + parseFloat(match[3] ?? '0');
+};
+
+const readResourceMetadata = (resource: Element): Partial<QuizQuestion> => {
+  const metadata: Partial<QuizQuestion> = {};
+
+  const general = first(resource, 'general');
+  if (general) metadata.relatedConcepts = descendants(general, 'keyword').map(textOf).filter(Boolean);
+
+  const objectives = descendants(resource, 'classification')
+    .filter(classification => textOf(first(first(classification, 'purpose') ?? classification, 'value')) === 'educational objective')
+    .map(classification => textOf(first(classification, 'description')))
+    .filter(Boolean);
+  if (objectives.length > 0) metadata.learningObjectives = objectives;
+
+  const educational = first(resource, 'educational');
+  if (educational) {
+    const difficulty = lomDifficultyToLevel(textOf(first(first(educational, 'difficulty') ?? educational, 'value')));
+    if (difficulty) metadata.difficulty = difficulty;
+    const duration = parseDuration(textOf(first(educational, 'duration')));
+    if (duration !== undefined) metadata.timeEstimate = duration;
+  }
+
+  // The quiz extension is exact where LOM is lossy, so it wins
+  const extension = descendants(resource, 'question').find(el => el.namespaceURI === QUIZ_NS);
+  if (extension) {
+    const difficulty = extension.getAttribute('difficulty');
+    if (difficulty) metadata.difficulty = difficulty as QuizQuestion['difficulty'];
+    ['category', 'subCategory', 'patternId'].forEach(attribute => {
+      const value = extension.getAttribute(attribute);
+      if (value) (metadata as Record<string, unknown>)[attribute] = value;
+    });
+    const personas = descendants(extension, 'persona').map(textOf).filter(Boolean);
+    if (personas.length > 0) metadata.persona = personas;
+    const visualAid = textOf(first(extension, 'visualAid'));
+    if (visualAid) metadata.visualAid = visualAid;
+  }
+  return metadata;
+};
+
+/**
+ * Read a single assessmentItem XML file
+ */
+export const parseQtiItem = (source: string, fileName = 'item.xml'): QuizFormatResult<ImportedQuestion[]> => {
+  const warnings: string[] = [];
+  const question = parseItem(parseXml(source, fileName), fileName, warnings);
+  return { value: question ? [question] : [], warnings };
+};
+
+/**
+ * Read a QTI 2.1 content package. Items listed in imsmanifest.xml pick up their resource
+ * metadata; without a manifest every XML file in the zip is tried as an item.
+ */
+export const parseQtiPackage = async (zip: Uint8Array): Promise<QuizFormatResult<ImportedQuestion[]>> => {
+  const warnings: string[] = [];
+  const decoder = new TextDecoder();
+  const files = new Map((await readZip(zip)).map(entry => [entry.name, decoder.decode(entry.data)]));
+  const questions: ImportedQuestion[] = [];
+
+  const manifestSource = files.get('imsmanifest.xml');
+  if (!manifestSource) {
+    warnings.push('No imsmanifest.xml; reading every XML file as an item');
+    files.forEach((source, name) => {
+      if (!name.endsWith('.xml')) return;
+      const question = parseItem(parseXml(source, name), name, warnings);
+      if (question) questions.push(question);
+    });
+    return { value: questions, warnings };
+  }
+
+  descendants(parseXml(manifestSource, 'imsmanifest.xml'), 'resource').forEach(resource => {
+    const type = resource.getAttribute('type') ?? '';
+    if (!type.startsWith('imsqti_item')) {
+      if (type.startsWith('imsqti_test')) warnings.push(`${resource.getAttribute('href')}: assessment tests are not imported, only their items`);
+      return;
+    }
+    const href = resource.getAttribute('href') ?? '';
+    const source = files.get(href);
+    if (!source) {
+      warnings.push(`${href}: listed in the manifest but missing from the package`);
+      return;
+    }
+    const question = parseItem(parseXml(source, href), href, warnings);
+    if (!question) return;
+    // Fields the item left undefined shouldn't mask the manifest's values
+    const defined = Object.fromEntries(Object.entries(question).filter(([, value]) => value !== undefined));
+    questions.push({ ...readResourceMetadata(resource), ...defined });
+  });
+  return { value: questions, warnings };
+};
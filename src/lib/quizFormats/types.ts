@@ -0,0 +1,12 @@
+import { QuizQuestion } from '../data/quizzes';
+
+// A question read from an external format; required fields may be missing until validated
+export type ImportedQuestion = Partial<QuizQuestion>;
+
+export interface QuizFormatResult<T> {
+  value: T;
+  // Things that didn't carry over exactly, for the user to review
+  warnings: string[];
+}
+
+export type QuizFormat = 'gift' | 'qti';
@@ -0,0 +1,150 @@
+import { QuizQuestion, QuizCategory, QuizSubCategory, userPersonas } from '../data/quizzes';
+import { quizQuestionSchema, ContentPack, CONTENT_PACK_FORMAT_VERSION } from '../contentPacks';
+import { ImportedQuestion } from './types';
+
+// Applied to imported questions that don't set the field themselves
+export interface ImportDefaults {
+  category?: string;
+  subCategory?: string;
+  persona?: string[];
+  difficulty?: QuizQuestion['difficulty'];
+  timeEstimate?: number;
+}
+
+export interface ValidatedQuestion {
+  source: ImportedQuestion;
+  // Null when the question has errors
+  question: QuizQuestion | null;
+  errors: string[];
+}
+
+const DEFAULT_TIME_ESTIMATE = 60;
+
+const titleize = (id: string) =>
+  id.split(/[-_\s]+/).filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+/**
+ * Check imported questions against the quiz schema plus the authoring rules the
+ * adaptive quiz relies on: every question targets known personas and states what it teaches.
+ */
+export const validateImportedQuestions = (
+  questions: ImportedQuestion[],
+  defaults: ImportDefaults = {},
+  personaIds: string[] = userPersonas.map(persona => persona.id)
+): ValidatedQuestion[] => {
+  const idCounts = new Map<string, number>();
+  questions.forEach(question => idCounts.set(question.id, (idCounts.get(question.id) ?? 0) + 1));
+
+  return questions.map(source => {
+    const candidate: ImportedQuestion = {
+      explanation: '',
+      relatedConcepts: [],
+      ...source,
+      category: source.category || defaults.category,
+      subCategory: source.subCategory || defaults.subCategory,
+      persona: source.persona?.length ? source.persona : defaults.persona,
+      difficulty: source.difficulty ?? defaults.difficulty,
+      timeEstimate: source.timeEstimate ?? defaults.timeEstimate ?? DEFAULT_TIME_ESTIMATE
+    };
+
+    const errors: string[] = [];
+    if (!candidate.id) errors.push('id: missing');
+    else if ((idCounts.get(candidate.id) ?? 0) > 1) errors.push(`id: "${candidate.id}" is used by more than one question in this file`);
+    if (!candidate.category) errors.push('category: missing');
+    if (!candidate.subCategory) errors.push('subCategory: missing');
+    if (!candidate.persona?.length) {
+      errors.push('persona: at least one persona is required');
+    } else {
+      candidate.persona
+        .filter(persona => !personaIds.includes(persona))
+        .forEach(persona => errors.push(`persona: unknown persona "${persona}"`));
+    }
+    if (!candidate.learningObjectives?.some(objective => objective.trim())) {
+      errors.push('learningObjectives: at least one learning objective is required');
+    }
+
+    const result = quizQuestionSchema.safeParse(candidate);
+    if (!result.success) {
+      result.error.issues
+        // Already reported above in friendlier terms
+        .filter(issue => !['id', 'category', 'subCategory', 'persona', 'learningObjectives'].includes(String(issue.path[0])))
+        .forEach(issue => errors.push(`${issue.path.join('.') || '(question)'}: ${issue.message}`));
+    }
+
+    return {
+      source,
+      question: errors.length === 0 && result.success ? result.data as QuizQuestion : null,
+      errors
+    };
+  });
+};
+
+/**
+ * Group questions into categories and sub-categories. Sub-categories that already exist keep
+ * their other questions; an imported question replaces the existing one with the same id.
+ */
+export const buildQuizCategories = (questions: QuizQuestion[], existing: QuizCategory[] = []): QuizCategory[] => {
+  const categories: QuizCategory[] = [];
+
+  questions.forEach(question => {
+    let category = categories.find(c => c.id === question.category);
+    if (!category) {
+      const current = existing.find(c => c.id === question.category);
+      category = {
+        id: question.category,
+        name: current?.name ?? titleize(question.category),
+        description: current?.description ?? 'Imported questions',
+        icon: current?.icon ?? 'BookOpen',
+        subCategories: [],
+        totalQuestions: 0,
+        estimatedTime: current?.estimatedTime ?? 0
+      };
+      categories.push(category);
+    }
+
+    let subCategory = category.subCategories.find(s => s.id === question.subCategory);
+    if (!subCategory) {
+      const current = existing
+        .find(c => c.id === question.category)?.subCategories
+        .find(s => s.id === question.subCategory);
+      subCategory = {
+        id: question.subCategory,
+        name: current?.name ?? titleize(question.subCategory),
+        description: current?.description ?? '',
+        questions: [...(current?.questions ?? [])],
+        prerequisites: current?.prerequisites ?? []
+      } as QuizSubCategory;
+      category.subCategories.push(subCategory);
+    }
+
+    const index = subCategory.questions.findIndex(q => q.id === question.id);
+    if (index >= 0) subCategory.questions[index] = question;
+    else subCategory.questions.push(question);
+  });
+
+  return categories.map(category => {
+    const questionsInCategory = category.subCategories.flatMap(subCategory => subCategory.questions);
+    return {
+      ...category,
+      totalQuestions: questionsInCategory.length,
+      // Minutes, as in the built-in categories
+      estimatedTime: category.estimatedTime ||
+        Math.ceil(questionsInCategory.reduce((sum, question) => sum + question.timeEstimate, 0) / 60)
+    };
+  });
+};
+
+/**
+ * Wrap imported categories as a content pack so they load, persist and merge like any other pack
+ */
+export const createQuestionBankPack = (categories: QuizCategory[], fileName: string): ContentPack => {
+  const slug = fileName.toLowerCase().replace(/\.[^.]+$/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'questions';
+  return {
+    formatVersion: CONTENT_PACK_FORMAT_VERSION,
+    id: `imported-${slug}`,
+    name: `Imported questions (${fileName})`,
+    version: '1.0.0',
+    description: `Question bank imported from ${fileName}`,
+    content: { quizCategories: categories }
+  };
+};
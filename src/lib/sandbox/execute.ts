@@ -0,0 +1,202 @@
+import { InstrumentedCode, TRACE_FUNCTION } from './instrument';
+import {
+  formatValue,
+  formatLogArgument,
+  createMockValue,
+  createMockLlm,
+  createMockTools,
+  createMockFetch
+} from './mocks';
+import {
+  SandboxRunOptions,
+  SandboxRunResult,
+  SandboxLogEntry,
+  SandboxTraceEvent,
+  SandboxLlmCall,
+  SandboxEntryPoint
+} from './types';
+
+export const DEFAULT_SANDBOX_TIMEOUT_MS = 5000;
+export const DEFAULT_MAX_TRACE_EVENTS = 2000;
+export const DEFAULT_SANDBOX_INPUT = 'What is the distance between the points (0,0) and (3,4)?';
+
+// Thrown from __trace once the step budget is spent; every later statement throws again,
+// so a catch block in the example can't swallow it for good
+class TraceLimitError extends Error {
+  constructor(limit: number) {
+    super(`Stopped after ${limit} steps; the code may be looping`);
+    this.name = 'TraceLimitError';
+  }
+}
+
+const pickEntry = (entryPoints: SandboxEntryPoint[], requested?: string): SandboxEntryPoint | undefined =>
+  entryPoints.find(entry => entry.name === requested)
+  ?? entryPoints.find(entry => /^(execute|run|main)/i.test(entry.name))
+  ?? entryPoints[0];
+
+// Sample arguments from parameter types; the user's input goes to anything text-like
+const sampleArgument = (type: string | undefined, input: string): unknown => {
+  const normalized = (type ?? '').trim();
+  if (normalized === 'number') return 3;
+  if (normalized === 'boolean') return true;
+  if (normalized.endsWith('[]') || normalized.startsWith('Array')) return [];
+  if (normalized.startsWith('{') || normalized.startsWith('Record') || normalized === 'object') return {};
+  return input;
+};
+
+/**
+ * Run instrumented code and collect its console output, trace and llm() calls.
+ * Unknown globals resolve to mocks instead of throwing, so snippets that lean on helpers
+ * they never define still run; each one is reported once as a warning.
+ */
+export const runInstrumented = async (
+  instrumented: InstrumentedCode,
+  options: SandboxRunOptions = {}
+): Promise<SandboxRunResult> => {
+  const startedAt = Date.now();
+  const input = options.input ?? DEFAULT_SANDBOX_INPUT;
+  const maxTraceEvents = options.maxTraceEvents ?? DEFAULT_MAX_TRACE_EVENTS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SANDBOX_TIMEOUT_MS;
+
+  const logs: SandboxLogEntry[] = [];
+  const trace: SandboxTraceEvent[] = [];
+  const llmCalls: SandboxLlmCall[] = [];
+  let truncated = false;
+
+  const lastLine = () => trace[trace.length - 1]?.lineStart;
+  const log = (level: SandboxLogEntry['level'], text: string) => logs.push({ level, text, traceIndex: trace.length - 1 });
+  const finish = (partial: Partial<SandboxRunResult>): SandboxRunResult => ({
+    status: 'success',
+    logs,
+    trace,
+    llmCalls,
+    truncated,
+    durationMs: Date.now() - startedAt,
+    ...partial
+  });
+
+  if (instrumented.diagnostics.length > 0) {
+    const first = instrumented.diagnostics[0];
+    return finish({
+      status: 'error',
+      error: instrumented.diagnostics.map(d => `Line ${d.line + 1}: ${d.message}`).join('\n'),
+      errorLine: first.line
+    });
+  }
+
+  const entry = pickEntry(instrumented.entryPoints, options.entry);
+
+  const traceStatement = (lineStart: number, lineEnd: number, depth: number, thunks: Record<string, () => unknown>) => {
+    if (trace.length >= maxTraceEvents) {
+      truncated = true;
+      throw new TraceLimitError(maxTraceEvents);
+    }
+    const variables: Record<string, string> = {};
+    Object.entries(thunks).forEach(([name, read]) => {
+      try {
+        const value = read();
+        // Functions are code, not state
+        if (typeof value !== 'function' || formatValue(value).startsWith('[mock')) variables[name] = formatValue(value);
+      } catch {
+        // Declared later in the scope (temporal dead zone)
+      }
+    });
+    trace.push({ lineStart, lineEnd, depth, variables });
+  };
+
+  const sandboxConsole = {
+    log: (...args: unknown[]) => log('log', args.map(formatLogArgument).join(' ')),
+    info: (...args: unknown[]) => log('info', args.map(formatLogArgument).join(' ')),
+    debug: (...args: unknown[]) => log('log', args.map(formatLogArgument).join(' ')),
+    warn: (...args: unknown[]) => log('warn', args.map(formatLogArgument).join(' ')),
+    error: (...args: unknown[]) => log('error', args.map(formatLogArgument).join(' ')),
+    table: (data: unknown) => log('log', formatValue(data, 2000))
+  };
+
+  const exportsObject: Record<string, unknown> = {};
+  const scope = new Map<PropertyKey, unknown>([
+    [TRACE_FUNCTION, traceStatement],
+    ['console', sandboxConsole],
+    ['llm', createMockLlm(options.llmResponses, input, (prompt, response) => {
+      llmCalls.push({ prompt, response });
+      log('llm', `llm() → ${formatValue(response, 200)}`);
+    })],
+    ['tools', createMockTools(name => log('info', `tools.${name}() called (mocked)`))],
+    ['fetch', createMockFetch(url => log('info', `fetch(${url}) (mocked)`))],
+    ['require', (name: string) => createMockValue(`require("${name}")`)],
+    ['exports', exportsObject],
+    ['module', { exports: exportsObject }],
+    ['process', { env: {} }]
+  ]);
+  const reportedMocks = new Set<PropertyKey>();
+
+  // The code runs inside `with (scope)`: declared names shadow it, real globals fall through,
+  // and anything else is looked up here
+  const scopeProxy = new Proxy({}, {
+    has: (_, key) => scope.has(key) || (typeof key === 'string' && !(key in globalThis)),
+    get: (_, key) => {
+      if (key === Symbol.unscopables) return undefined;
+      if (scope.has(key)) return scope.get(key);
+      if (!reportedMocks.has(key)) {
+        reportedMocks.add(key);
+        log('warn', `${String(key)} is not defined in the example; using a mock`);
+      }
+      return createMockValue(String(key));
+    },
+    set: (_, key, value) => {
+      scope.set(key, value);
+      return true;
+    }
+  });
+
+  const entryNames = instrumented.entryPoints.map(point => point.name);
+  let exported: Record<string, unknown>;
+  try {
+    const factory = new Function('__scope', `with (__scope) {\n${instrumented.code}\nreturn { ${entryNames.join(', ')} };\n}`);
+    exported = factory(scopeProxy);
+  } catch (error) {
+    return finish({ status: 'error', error: formatLogArgument(error instanceof Error ? error.message : error), errorLine: lastLine() });
+  }
+
+  if (!entry) {
+    return finish({ status: 'success', returnValue: 'No top-level function to call; ran the file once' });
+  }
+
+  const target = exported[entry.name];
+  if (typeof target !== 'function') {
+    return finish({ status: 'error', entry: entry.name, error: `${entry.name} is not a function` });
+  }
+
+  const args = entry.params.map(param => (param.optional ? undefined : sampleArgument(param.type, input)));
+  // Drop trailing optional parameters so the logged call reads like hand-written code
+  while (args.length > 0 && args[args.length - 1] === undefined) args.pop();
+  log('info', `Calling ${entry.name}(${args.map(arg => formatValue(arg, 60)).join(', ')})`);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<'timeout'>(resolve => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs);
+  });
+
+  try {
+    const outcome = await Promise.race([Promise.resolve(target(...args)).then(value => ({ value })), timedOut]);
+    if (outcome === 'timeout') {
+      return finish({ status: 'timeout', entry: entry.name, error: `Still running after ${timeoutMs} ms`, errorLine: lastLine() });
+    }
+    let returnValue: string;
+    try {
+      returnValue = typeof outcome.value === 'string' ? outcome.value : JSON.stringify(outcome.value, null, 2) ?? 'undefined';
+    } catch {
+      returnValue = formatValue(outcome.value, 4000);
+    }
+    return finish({ status: 'success', entry: entry.name, returnValue });
+  } catch (error) {
+    return finish({
+      status: 'error',
+      entry: entry.name,
+      error: error instanceof Error ? `${error.name}: ${error.message}` : formatLogArgument(error),
+      errorLine: lastLine()
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,13 @@
+// The compiler-backed instrumentation only loads inside the worker; import it directly if needed elsewhere
+export { runInSandbox } from './runner';
+export { toExecutionSteps, toExecutionBlocks } from './steps';
+export { DEFAULT_SANDBOX_INPUT, DEFAULT_SANDBOX_TIMEOUT_MS, DEFAULT_MAX_TRACE_EVENTS } from './execute';
+export { formatValue, generateMockReply } from './mocks';
+export type {
+  SandboxRunOptions,
+  SandboxRunResult,
+  SandboxLogEntry,
+  SandboxTraceEvent,
+  SandboxLlmCall,
+  SandboxEntryPoint
+} from './types';
@@ -0,0 +1,169 @@
+import * as ts from 'typescript';
+import { SandboxEntryPoint } from './types';
+
+/*
+ * Turns a TypeScript example into JavaScript that reports every statement it reaches.
+ * Before each statement a call like
+ *   __trace(lineStart, lineEnd, depth, { name: () => name, ... })
+ * is inserted, listing the variables declared so far in the enclosing scopes. The values are
+ * read through thunks, so the runtime decides what to snapshot and a variable still in its
+ * temporal dead zone only costs that one entry.
+ */
+
+export const TRACE_FUNCTION = '__trace';
+
+export interface InstrumentedCode {
+  code: string;
+  entryPoints: SandboxEntryPoint[];
+  // Syntax errors, with 0-based lines
+  diagnostics: Array<{ line: number; message: string }>;
+}
+
+// Statements that don't execute anything worth a step
+const UNTRACED_KINDS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.FunctionDeclaration,
+  ts.SyntaxKind.ClassDeclaration,
+  ts.SyntaxKind.InterfaceDeclaration,
+  ts.SyntaxKind.TypeAliasDeclaration,
+  ts.SyntaxKind.ImportDeclaration,
+  ts.SyntaxKind.ExportDeclaration,
+  ts.SyntaxKind.ModuleDeclaration,
+  ts.SyntaxKind.EmptyStatement,
+  ts.SyntaxKind.Block
+]);
+
+const bindingNames = (name: ts.BindingName): string[] => {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap(element => (ts.isOmittedExpression(element) ? [] : bindingNames(element.name)));
+};
+
+const declarationListNames = (node: ts.Node | undefined): string[] =>
+  node && ts.isVariableDeclarationList(node) ? node.declarations.flatMap(declaration => bindingNames(declaration.name)) : [];
+
+const declaredNames = (statement: ts.Statement): string[] =>
+  ts.isVariableStatement(statement) ? declarationListNames(statement.declarationList) : [];
+
+const createTracer = (): ts.TransformerFactory<ts.SourceFile> => context => sourceFile => {
+  const { factory } = context;
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line;
+
+  const traceCall = (statement: ts.Statement, visible: string[], depth: number): ts.Statement => {
+    // Inner declarations shadow outer ones with the same name
+    const names = [...new Set([...visible].reverse())].reverse();
+    return factory.createExpressionStatement(factory.createCallExpression(
+      factory.createIdentifier(TRACE_FUNCTION),
+      undefined,
+      [
+        factory.createNumericLiteral(lineOf(statement.getStart(sourceFile))),
+        factory.createNumericLiteral(lineOf(statement.getEnd())),
+        factory.createNumericLiteral(depth),
+        factory.createObjectLiteralExpression(names.map(name => factory.createPropertyAssignment(
+          factory.createStringLiteral(name),
+          factory.createArrowFunction(
+            undefined,
+            undefined,
+            [],
+            undefined,
+            factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+            factory.createIdentifier(name)
+          )
+        )))
+      ]
+    ));
+  };
+
+  const visitStatements = (statements: ts.NodeArray<ts.Statement>, inherited: string[], depth: number): ts.Statement[] => {
+    const visible = [...inherited];
+    return statements.flatMap(statement => {
+      const visited = visit(statement, visible, depth) as ts.Statement;
+      const result = UNTRACED_KINDS.has(statement.kind) ? [visited] : [traceCall(statement, visible, depth), visited];
+      visible.push(...declaredNames(statement));
+      return result;
+    });
+  };
+
+  const visit = (node: ts.Node, visible: string[], depth: number): ts.Node => {
+    if (ts.isBlock(node)) {
+      return factory.updateBlock(node, visitStatements(node.statements, visible, depth));
+    }
+    if (ts.isCaseClause(node)) {
+      return factory.updateCaseClause(
+        node,
+        ts.visitNode(node.expression, child => visit(child, visible, depth), ts.isExpression),
+        visitStatements(node.statements, visible, depth)
+      );
+    }
+    if (ts.isDefaultClause(node)) {
+      return factory.updateDefaultClause(node, visitStatements(node.statements, visible, depth));
+    }
+    if (ts.isFunctionLike(node)) {
+      const params = node.parameters.flatMap(parameter => bindingNames(parameter.name));
+      return ts.visitEachChild(node, child => visit(child, [...visible, ...params], depth + 1), context);
+    }
+    if (ts.isForStatement(node) || ts.isForOfStatement(node) || ts.isForInStatement(node)) {
+      const loopNames = declarationListNames(node.initializer);
+      return ts.visitEachChild(node, child => visit(child, [...visible, ...loopNames], depth), context);
+    }
+    if (ts.isCatchClause(node) && node.variableDeclaration) {
+      const errorNames = bindingNames(node.variableDeclaration.name);
+      return ts.visitEachChild(node, child => visit(child, [...visible, ...errorNames], depth), context);
+    }
+    return ts.visitEachChild(node, child => visit(child, visible, depth), context);
+  };
+
+  return factory.updateSourceFile(sourceFile, visitStatements(sourceFile.statements, [], 0));
+};
+
+const describeParams = (parameters: ts.NodeArray<ts.ParameterDeclaration>, sourceFile: ts.SourceFile) =>
+  parameters.map(parameter => ({
+    name: parameter.name.getText(sourceFile),
+    type: parameter.type?.getText(sourceFile),
+    optional: !!parameter.questionToken || !!parameter.initializer || !!parameter.dotDotDotToken
+  }));
+
+/**
+ * Top-level functions the sandbox can call, in source order
+ */
+export const findEntryPoints = (source: string): SandboxEntryPoint[] => {
+  const sourceFile = ts.createSourceFile('example.ts', source, ts.ScriptTarget.ES2020, true);
+  return sourceFile.statements.flatMap(statement => {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      return [{ name: statement.name.text, params: describeParams(statement.parameters, sourceFile) }];
+    }
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations.flatMap(declaration => {
+        const initializer = declaration.initializer;
+        if (!ts.isIdentifier(declaration.name) || !initializer) return [];
+        if (!ts.isArrowFunction(initializer) && !ts.isFunctionExpression(initializer)) return [];
+        return [{ name: declaration.name.text, params: describeParams(initializer.parameters, sourceFile) }];
+      });
+    }
+    return [];
+  });
+};
+
+/**
+ * Transpile TypeScript to tracing JavaScript. Imports become require() calls so the
+ * runtime can hand back mocks.
+ */
+export const instrumentCode = (source: string): InstrumentedCode => {
+  const output = ts.transpileModule(source, {
+    fileName: 'example.ts',
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      removeComments: true
+    },
+    transformers: { before: [createTracer()] }
+  });
+
+  const diagnostics = (output.diagnostics ?? []).map(diagnostic => ({
+    line: diagnostic.file && diagnostic.start !== undefined
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line
+      : 0,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+  }));
+
+  return { code: output.outputText, entryPoints: findEntryPoints(source), diagnostics };
+};
@@ -0,0 +1,163 @@
+/*
+ * Stand-ins for everything a pattern example reaches outside itself: llm(), tools, fetch,
+ * imported SDKs and helpers the snippet calls without defining. Replies are deterministic
+ * so a run can be repeated and compared.
+ */
+
+const MAX_VALUE_LENGTH = 160;
+
+const MOCK_MARKER = Symbol('sandbox-mock');
+
+const isMock = (value: unknown): boolean =>
+  (typeof value === 'object' || typeof value === 'function') && value !== null && (value as any)[MOCK_MARKER] === true;
+
+const truncate = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+
+/**
+ * Format any value for the variables panel or console
+ */
+export const formatValue = (value: unknown, maxLength = MAX_VALUE_LENGTH): string => {
+  if (value === undefined) return 'undefined';
+  if (value === null) return 'null';
+  if (typeof value === 'string') return truncate(JSON.stringify(value), maxLength);
+  if (isMock(value)) return String(value);
+  if (typeof value === 'function') return `ƒ ${value.name || 'anonymous'}()`;
+  if (typeof value !== 'object') return String(value);
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (value instanceof Promise) return 'Promise';
+  if (value instanceof Map) return `Map(${value.size})`;
+  if (value instanceof Set) return `Set(${value.size})`;
+
+  const seen = new WeakSet<object>();
+  try {
+    return truncate(JSON.stringify(value, (_, item) => {
+      if (typeof item === 'function') return `ƒ ${item.name || 'anonymous'}`;
+      if (item && typeof item === 'object') {
+        if (seen.has(item)) return '[Circular]';
+        seen.add(item);
+      }
+      return item;
+    }), maxLength);
+  } catch {
+    return Object.prototype.toString.call(value);
+  }
+};
+
+// Console arguments print strings bare, like the browser console
+export const formatLogArgument = (value: unknown): string =>
+  typeof value === 'string' ? value : formatValue(value, 2000);
+
+/**
+ * A value that can be called, constructed, awaited and read from at any depth, so code written
+ * against an SDK keeps running. Everything it returns is another mock named after the access path.
+ */
+export const createMockValue = (path: string): any => {
+  const target = function mock() {};
+  return new Proxy(target, {
+    get: (_, property) => {
+      if (property === MOCK_MARKER) return true;
+      // Not a thenable, so awaiting a mock resolves to the mock itself
+      if (property === 'then') return undefined;
+      if (property === Symbol.toPrimitive || property === 'toString' || property === 'toJSON') return () => `[mock ${path}]`;
+      if (typeof property === 'symbol') return undefined;
+      return createMockValue(`${path}.${property}`);
+    },
+    apply: () => createMockValue(`${path}()`),
+    construct: () => createMockValue(`new ${path}()`)
+  });
+};
+
+const promptToText = (prompt: unknown): string => {
+  if (typeof prompt === 'string') return prompt;
+  if (Array.isArray(prompt)) {
+    return prompt.map(message => (typeof message === 'string' ? message : message?.content ?? '')).join('\n');
+  }
+  if (prompt && typeof prompt === 'object' && 'messages' in prompt) return promptToText((prompt as any).messages);
+  return formatValue(prompt, 2000);
+};
+
+// A generic object covering the fields pattern examples most often parse out of JSON replies
+const MOCK_JSON_REPLY = {
+  result: 'Mock result',
+  answer: 'Mock answer',
+  score: 0.9,
+  overall_score: 0.9,
+  confidence: 0.9,
+  route: 'general',
+  category: 'general',
+  steps: ['Research the question', 'Summarize the findings'],
+  subtasks: ['Research the question', 'Summarize the findings'],
+  plan: ['Research the question', 'Summarize the findings'],
+  feedback: 'The response is accurate and complete.',
+  improvements: [],
+  needsReplanning: false,
+  complete: true,
+  done: true
+};
+
+const extractTask = (prompt: string, fallback: string): string => {
+  const match = prompt.match(/(?:Task|Question|Query|User query)\s*:\s*(.+)/i);
+  return (match?.[1] ?? fallback).trim();
+};
+
+/**
+ * Reply to a prompt the way the examples expect: ReAct-formatted prompts get one tool call and
+ * then a final answer, prompts asking for JSON get JSON, anything else gets a short echo.
+ */
+export const generateMockReply = (prompt: string, input = ''): string => {
+  const task = extractTask(prompt, input);
+  if (/Action Input/i.test(prompt) && /Final Answer/i.test(prompt)) {
+    return /Observation:/i.test(prompt)
+      ? `Thought: The observation gives me what I need.\nFinal Answer: Mock answer for "${task}" based on the observations.`
+      : `Thought: I should look this up before answering.\nAction: search\nAction Input: ${task}\n`;
+  }
+  if (/json/i.test(prompt)) return JSON.stringify(MOCK_JSON_REPLY);
+  const summary = prompt.replace(/\s+/g, ' ').trim();
+  return `Mock response to: "${truncate(summary, 80)}"`;
+};
+
+/**
+ * The llm() the examples call. Scripted replies are used first, in order.
+ */
+export const createMockLlm = (
+  scripted: string[] = [],
+  input = '',
+  onCall: (prompt: string, response: string) => void = () => {}
+) => {
+  let callIndex = 0;
+  return async function llm(prompt: unknown, ..._options: unknown[]): Promise<string> {
+    const text = promptToText(prompt);
+    const response = scripted[callIndex] ?? generateMockReply(text, input);
+    callIndex++;
+    onCall(text, response);
+    return response;
+  };
+};
+
+/**
+ * tools.anything(input) resolves to a canned observation
+ */
+export const createMockTools = (onCall: (name: string, input: unknown) => void = () => {}) =>
+  new Proxy({} as Record<string, (input: unknown) => Promise<string>>, {
+    get: (tools, name) => {
+      if (typeof name === 'symbol') return undefined;
+      return tools[name] ?? (async (input: unknown) => {
+        onCall(name, input);
+        return `[mock ${name}] result for ${formatValue(input)}`;
+      });
+    }
+  });
+
+/**
+ * fetch() that never touches the network
+ */
+export const createMockFetch = (onCall: (url: string) => void = () => {}) =>
+  async (resource: unknown): Promise<Response> => {
+    const url = typeof resource === 'string' ? resource : (resource as { url?: string })?.url ?? String(resource);
+    onCall(url);
+    return new Response(JSON.stringify({ mock: true, url, ...MOCK_JSON_REPLY }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
@@ -0,0 +1,90 @@
+import { DEFAULT_SANDBOX_TIMEOUT_MS } from './execute';
+import { SandboxRunOptions, SandboxRunResult, SandboxWorkerRequest, SandboxWorkerResponse } from './types';
+
+// Loading the TypeScript compiler in a fresh worker takes a while on slow devices
+const WORKER_START_TIMEOUT_MS = 30000;
+// Time for the result to arrive after the in-worker timeout has fired
+const TIMEOUT_GRACE_MS = 1000;
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+
+// One worker is reused across runs; it is replaced whenever a run has to be killed
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./sandbox.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+const discardWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+const failedResult = (status: SandboxRunResult['status'], error: string, durationMs: number): SandboxRunResult => ({
+  status,
+  error,
+  logs: [],
+  trace: [],
+  llmCalls: [],
+  truncated: false,
+  durationMs
+});
+
+/**
+ * Transpile and run TypeScript in a Web Worker against mocked llm(), tools and fetch.
+ * Never rejects: failures, including runaway code, come back as an error or timeout result.
+ */
+export const runInSandbox = (code: string, options: SandboxRunOptions = {}): Promise<SandboxRunResult> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SANDBOX_TIMEOUT_MS;
+  const id = nextRequestId++;
+  const startedAt = Date.now();
+
+  return new Promise(resolve => {
+    let sandbox: Worker;
+    try {
+      sandbox = getWorker();
+    } catch (error) {
+      resolve(failedResult('error', `Could not start the sandbox: ${error instanceof Error ? error.message : error}`, 0));
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout>;
+    const cleanUp = () => {
+      clearTimeout(timer);
+      sandbox.removeEventListener('message', handleMessage);
+      sandbox.removeEventListener('error', handleError);
+    };
+
+    // A synchronous loop never yields to the in-worker timeout, so the page enforces it too
+    const kill = (message: string, status: SandboxRunResult['status']) => {
+      cleanUp();
+      discardWorker();
+      resolve(failedResult(status, message, Date.now() - startedAt));
+    };
+
+    const handleMessage = (event: MessageEvent<SandboxWorkerResponse>) => {
+      if (event.data.id !== id) return;
+      if (event.data.type === 'started') {
+        clearTimeout(timer);
+        timer = setTimeout(() => kill(`Still running after ${timeoutMs} ms; the worker was stopped`, 'timeout'), timeoutMs + TIMEOUT_GRACE_MS);
+        return;
+      }
+      cleanUp();
+      resolve(event.data.result);
+    };
+
+    const handleError = (event: ErrorEvent) => {
+      event.preventDefault();
+      kill(`Sandbox crashed: ${event.message || 'unknown error'}`, 'error');
+    };
+
+    sandbox.addEventListener('message', handleMessage);
+    sandbox.addEventListener('error', handleError);
+    timer = setTimeout(() => kill('The sandbox did not start in time', 'error'), WORKER_START_TIMEOUT_MS);
+
+    const request: SandboxWorkerRequest = { id, code, options };
+    sandbox.postMessage(request);
+  });
+};
@@ -0,0 +1,17 @@
+import { instrumentCode } from './instrument';
+import { runInstrumented } from './execute';
+import { SandboxWorkerRequest, SandboxWorkerResponse } from './types';
+
+/*
+ * Runs pattern code off the main thread. The page terminates the worker on timeout,
+ * which is the only way to stop a synchronous infinite loop.
+ */
+
+const respond = (message: SandboxWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<SandboxWorkerRequest>) => {
+  const { id, code, options } = event.data;
+  const instrumented = instrumentCode(code);
+  respond({ id, type: 'started' });
+  respond({ id, type: 'result', result: await runInstrumented(instrumented, options) });
+};
@@ -0,0 +1,72 @@
+import { CodeExecutionStep } from '@/components/code-playbook/CodeStepVisualizer';
+import { ExecutionBlock } from '@/components/code-playbook/InteractiveCodeExecution';
+import { SandboxRunResult } from './types';
+
+// Keeps the step UI responsive for long loops; the full trace stays on the result
+const MAX_STEPS = 300;
+const MAX_BLOCK_LINES = 12;
+
+const statementPreview = (codeLines: string[], line: number) => (codeLines[line] ?? '').trim();
+
+// Console lines written while a trace event was current (lines before the first event go to it)
+const outputFor = (result: SandboxRunResult, index: number): string | undefined => {
+  const lines = result.logs
+    .filter(entry => entry.traceIndex === index || (index === 0 && entry.traceIndex < 0))
+    .map(entry => (entry.level === 'log' ? entry.text : `[${entry.level}] ${entry.text}`));
+  return lines.length > 0 ? lines.join('\n') : undefined;
+};
+
+const finalStep = (result: SandboxRunResult): CodeExecutionStep | null => {
+  const last = result.trace[result.trace.length - 1];
+  if (!last) return null;
+  if (result.status === 'success') {
+    return {
+      lineStart: last.lineStart,
+      lineEnd: last.lineEnd,
+      description: `${result.entry ?? 'The code'} returned`,
+      output: result.returnValue,
+      variableState: last.variables
+    };
+  }
+  const line = result.errorLine ?? last.lineStart;
+  return {
+    lineStart: line,
+    lineEnd: line,
+    description: result.status === 'timeout' ? 'Execution timed out' : 'Execution failed',
+    output: result.error,
+    variableState: last.variables
+  };
+};
+
+/**
+ * Turn a sandbox run into steps for CodeStepVisualizer / EnhancedCodeVisualizer:
+ * one step per statement reached, with the console output it produced
+ */
+export const toExecutionSteps = (result: SandboxRunResult, code: string): CodeExecutionStep[] => {
+  const codeLines = code.split('\n');
+  const steps: CodeExecutionStep[] = result.trace.slice(0, MAX_STEPS).map((event, index) => ({
+    lineStart: event.lineStart,
+    lineEnd: event.lineEnd,
+    description: `Line ${event.lineStart + 1}: ${statementPreview(codeLines, event.lineStart)}`,
+    output: outputFor(result, index),
+    variableState: event.variables
+  }));
+  const last = finalStep(result);
+  return last ? [...steps, last] : steps;
+};
+
+/**
+ * Turn a sandbox run into blocks for InteractiveCodeExecution, which shows code snippets
+ * rather than highlighting lines in the full source
+ */
+export const toExecutionBlocks = (result: SandboxRunResult, code: string): ExecutionBlock[] =>
+  toExecutionSteps(result, code).map(step => {
+    const lines = code.split('\n').slice(step.lineStart, step.lineEnd + 1);
+    return {
+      code: lines.length > MAX_BLOCK_LINES ? [...lines.slice(0, MAX_BLOCK_LINES), '  // ...'].join('\n') : lines.join('\n'),
+      explanation: step.description,
+      output: step.output,
+      variableState: step.variableState,
+      duration: 800
+    };
+  });
@@ -0,0 +1,64 @@
+/**
+ * One console line (or mocked llm() call) captured while the code ran
+ */
+export interface SandboxLogEntry {
+  level: 'log' | 'info' | 'warn' | 'error' | 'llm';
+  text: string;
+  // Index of the trace event that was current when the line was written (-1 before the first)
+  traceIndex: number;
+}
+
+/**
+ * Emitted each time execution reaches a statement
+ */
+export interface SandboxTraceEvent {
+  // 0-based lines in the original source, matching CodeExecutionStep
+  lineStart: number;
+  lineEnd: number;
+  // Variables in scope just before the statement ran, formatted for display
+  variables: Record<string, string>;
+  // Nesting depth of the function the statement belongs to
+  depth: number;
+}
+
+export interface SandboxLlmCall {
+  prompt: string;
+  response: string;
+}
+
+export interface SandboxRunOptions {
+  // Function to call; defaults to the first top-level function (preferring execute*)
+  entry?: string;
+  // Text passed to the entry function's string parameters
+  input?: string;
+  // Replies for llm() in call order; once used up, replies are generated from the prompt
+  llmResponses?: string[];
+  timeoutMs?: number;
+  maxTraceEvents?: number;
+}
+
+export interface SandboxRunResult {
+  status: 'success' | 'error' | 'timeout';
+  entry?: string;
+  returnValue?: string;
+  error?: string;
+  // 0-based source line the error was raised at, when known
+  errorLine?: number;
+  logs: SandboxLogEntry[];
+  trace: SandboxTraceEvent[];
+  llmCalls: SandboxLlmCall[];
+  // True when the trace hit maxTraceEvents and execution was stopped
+  truncated: boolean;
+  durationMs: number;
+}
+
+export interface SandboxEntryPoint {
+  name: string;
+  params: Array<{ name: string; type?: string; optional: boolean }>;
+}
+
+export type SandboxWorkerRequest = { id: number; code: string; options: SandboxRunOptions };
+// 'started' is sent once the code is transpiled, so the timeout covers only execution
+export type SandboxWorkerResponse =
+  | { id: number; type: 'started' }
+  | { id: number; type: 'result'; result: SandboxRunResult };
@@ -0,0 +1,184 @@
+import { MergedContent } from '@/lib/contentPacks';
+import { conceptContents } from '@/lib/data/conceptContent';
+import { CommunityPattern } from '@/lib/data/communitySharing';
+import { lookupByPatternId } from '@/lib/data/patternRegistry';
+import { ReferenceCategory } from '@/lib/data/references';
+import { URL_PARAMS } from '@/lib/hooks/useUrlState';
+import { pythonPatterns } from '@/lib/pythonPatterns';
+import { SearchDocument } from './types';
+
+const withParams = (pathname: string, params: Record<string, string | undefined>) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) search.set(key, value);
+  });
+  const query = search.toString();
+  return query ? `${pathname}?${query}` : pathname;
+};
+
+// "Model Context Protocol" is also found as "mcp"
+const acronym = (name: string): string[] => {
+  const words = name.match(/[A-Z][A-Za-z]*/g) ?? [];
+  return words.length >= 2 ? [words.map(word => word[0]).join('')] : [];
+};
+
+const patternPath = (patternId: string) => `/patterns/${encodeURIComponent(patternId)}`;
+
+// Built-in concepts have a tab of their own; concepts from content packs share one
+const conceptPath = (conceptId: string) => withParams('/', {
+  [URL_PARAMS.concept]: conceptContents.some(concept => concept.id === conceptId) ? conceptId : 'pack-concepts'
+});
+
+const patternDocuments = (content: MergedContent): SearchDocument[] =>
+  content.patterns.flatMap(pattern => {
+    const documents: SearchDocument[] = [{
+      id: `pattern:${pattern.id}`,
+      kind: 'pattern',
+      title: pattern.name,
+      boost: 1.3,
+      subtitle: pattern.category,
+      keywords: [...acronym(pattern.name), ...pattern.useCases],
+      body: [pattern.description, pattern.whenToUse, ...(pattern.advantages ?? []), ...pattern.implementation]
+        .filter(Boolean)
+        .join('\n'),
+      path: patternPath(pattern.id)
+    }];
+
+    const codePath = (lang: string) => withParams(patternPath(pattern.id), {
+      [URL_PARAMS.section]: 'implementation',
+      [URL_PARAMS.tab]: 'code',
+      [URL_PARAMS.lang]: lang === 'python' ? undefined : lang
+    });
+    const pythonCode = lookupByPatternId(pythonPatterns, pattern.id) || pattern.pythonCodeExample;
+    if (pythonCode) {
+      documents.push({
+        id: `code:${pattern.id}:python`,
+        kind: 'code',
+        title: `${pattern.name} in Python`,
+        subtitle: 'Complete code',
+        keywords: acronym(pattern.name),
+        body: pythonCode,
+        path: codePath('python')
+      });
+    }
+    if (pattern.codeExample) {
+      documents.push({
+        id: `code:${pattern.id}:typescript`,
+        kind: 'code',
+        title: `${pattern.name} in TypeScript`,
+        subtitle: 'Complete code',
+        keywords: acronym(pattern.name),
+        body: pattern.codeExample,
+        path: codePath('typescript')
+      });
+    }
+    return documents;
+  });
+
+const conceptDocuments = (content: MergedContent): SearchDocument[] =>
+  content.concepts.flatMap(concept => [
+    {
+      id: `concept:${concept.id}`,
+      kind: 'concept' as const,
+      title: concept.name,
+      boost: 1.3,
+      keywords: [...acronym(concept.name), ...concept.keyFeatures],
+      body: [
+        concept.description,
+        concept.technicalDetails,
+        ...concept.applicationAreas,
+        ...concept.implementationConsiderations
+      ].join('\n'),
+      path: conceptPath(concept.id)
+    },
+    ...concept.examples.map((example, index) => ({
+      id: `concept:${concept.id}:example:${index}`,
+      kind: example.codeSnippet ? 'code' as const : 'concept' as const,
+      title: example.title,
+      subtitle: `${concept.name} example`,
+      keywords: acronym(concept.name),
+      boost: 1.2,
+      body: [example.description, example.codeSnippet].filter(Boolean).join('\n'),
+      path: conceptPath(concept.id)
+    }))
+  ]);
+
+const quizDocuments = (content: MergedContent): SearchDocument[] =>
+  content.quizCategories.flatMap(category =>
+    category.subCategories.flatMap(subCategory =>
+      subCategory.questions.map(question => ({
+        id: `quiz:${question.id}`,
+        kind: 'quiz' as const,
+        title: question.question,
+        boost: 0.9,
+        subtitle: `${category.name} · ${subCategory.name}`,
+        keywords: [...question.relatedConcepts, ...question.learningObjectives],
+        body: [...question.options, question.explanation, question.codeExample].filter(Boolean).join('\n'),
+        path: '/quiz'
+      }))
+    )
+  );
+
+const referenceDocuments = (content: MergedContent): SearchDocument[] => {
+  const sections: Record<string, ReferenceCategory[]>[] = [
+    content.references.concepts,
+    content.references.patterns,
+    content.references.azureServices
+  ];
+  const seen = new Set<string>();
+  return sections.flatMap(section =>
+    Object.values(section).flatMap(categories =>
+      categories.flatMap(category =>
+        category.references
+          .filter(reference => {
+            if (seen.has(reference.url)) return false;
+            seen.add(reference.url);
+            return true;
+          })
+          .map(reference => ({
+            id: `reference:${reference.url}`,
+            kind: 'reference' as const,
+            title: reference.title,
+            boost: 0.8,
+            subtitle: category.name,
+            body: [reference.description, reference.url].filter(Boolean).join('\n'),
+            path: '/references'
+          }))
+      )
+    )
+  );
+};
+
+const azureServiceDocuments = (content: MergedContent): SearchDocument[] =>
+  content.azureServices.map(service => ({
+    id: `azure-service:${service.id}`,
+    kind: 'azure-service',
+    title: service.name,
+    keywords: service.capabilities,
+    body: [service.description, ...service.useCases, ...service.bestPractices].join('\n'),
+    path: '/azure-services'
+  }));
+
+const communityDocuments = (patterns: CommunityPattern[]): SearchDocument[] =>
+  patterns.map(pattern => ({
+    id: `community:${pattern.id}`,
+    kind: 'community',
+    title: pattern.title,
+    subtitle: `by ${pattern.author}`,
+    keywords: pattern.tags,
+    body: [pattern.description, ...pattern.useCases, ...pattern.bestPractices, pattern.codeSnippet].join('\n'),
+    path: '/community'
+  }));
+
+/**
+ * Every searchable item: patterns and their code, concepts and their examples, quiz
+ * questions, references, Azure services and community patterns
+ */
+export const buildSearchDocuments = (content: MergedContent, community: CommunityPattern[] = []): SearchDocument[] => [
+  ...patternDocuments(content),
+  ...conceptDocuments(content),
+  ...quizDocuments(content),
+  ...referenceDocuments(content),
+  ...azureServiceDocuments(content),
+  ...communityDocuments(community)
+];
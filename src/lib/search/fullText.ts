@@ -0,0 +1,159 @@
+import { SearchDocument, SearchIndex, SearchResult } from './types';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'where', 'which', 'with'
+]);
+
+const FIELD_WEIGHTS = { title: 4, keywords: 2, subtitle: 1.5, body: 1 };
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Prefix matches count for less than whole-word matches
+const PREFIX_WEIGHT = 0.6;
+const MAX_PREFIX_EXPANSIONS = 30;
+const SNIPPET_RADIUS = 60;
+// Documents whose title contains every query word rank above body-only matches
+const TITLE_MATCH_BOOST = 1.5;
+
+/**
+ * Lowercase words of a text. Identifiers are also split on camelCase, so `callTool` is found
+ * by "call tool" as well as "calltool".
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  const words: string[] = text.match(/[A-Za-z0-9]+/g) ?? [];
+  words.forEach(word => {
+    const lower = word.toLowerCase();
+    if (!STOP_WORDS.has(lower)) tokens.push(lower);
+    const parts = word.match(/[A-Z]?[a-z]+|[A-Z]+(?![a-z])|\d+/g);
+    if (parts && parts.length > 1) {
+      parts.forEach(part => {
+        const lowerPart = part.toLowerCase();
+        if (!STOP_WORDS.has(lowerPart)) tokens.push(lowerPart);
+      });
+    }
+  });
+  return tokens;
+};
+
+export const createSearchIndex = (documents: SearchDocument[]): SearchIndex => {
+  const postings = new Map<string, Map<number, number>>();
+  const lengths: number[] = [];
+
+  documents.forEach((document, index) => {
+    const fields: [string, number][] = [
+      [document.title, FIELD_WEIGHTS.title],
+      [(document.keywords ?? []).join(' '), FIELD_WEIGHTS.keywords],
+      [document.subtitle ?? '', FIELD_WEIGHTS.subtitle],
+      [document.body, FIELD_WEIGHTS.body]
+    ];
+    let length = 0;
+    fields.forEach(([text, weight]) => {
+      const tokens = tokenize(text);
+      // Only the body is length-normalized, so a long pattern isn't outranked on its own name
+      if (text === document.body) length = tokens.length;
+      tokens.forEach(token => {
+        let documentPostings = postings.get(token);
+        if (!documentPostings) {
+          documentPostings = new Map();
+          postings.set(token, documentPostings);
+        }
+        documentPostings.set(index, (documentPostings.get(index) ?? 0) + weight);
+      });
+    });
+    lengths.push(length);
+  });
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    documents,
+    postings,
+    terms: [...postings.keys()].sort(),
+    lengths,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0
+  };
+};
+
+// Terms starting with prefix, found by binary search in the sorted term list
+const expandPrefix = (index: SearchIndex, prefix: string): string[] => {
+  let low = 0;
+  let high = index.terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index.terms[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  const matches: string[] = [];
+  for (let i = low; i < index.terms.length && matches.length < MAX_PREFIX_EXPANSIONS; i++) {
+    if (!index.terms[i].startsWith(prefix)) break;
+    if (index.terms[i] !== prefix) matches.push(index.terms[i]);
+  }
+  return matches;
+};
+
+const termScores = (index: SearchIndex, term: string, weight: number, scores: Map<number, number>) => {
+  const documentPostings = index.postings.get(term);
+  if (!documentPostings) return;
+  const documentCount = index.documents.length;
+  const idf = Math.log(1 + (documentCount - documentPostings.size + 0.5) / (documentPostings.size + 0.5));
+  documentPostings.forEach((frequency, documentIndex) => {
+    const lengthNorm = 1 - B + B * (index.lengths[documentIndex] / (index.averageLength || 1));
+    const score = idf * (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm) * weight;
+    // A query term matched through several prefix expansions counts once, at its best
+    scores.set(documentIndex, Math.max(scores.get(documentIndex) ?? 0, score));
+  });
+};
+
+export const makeSnippet = (text: string, terms: string[]): string | undefined => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (!flat) return undefined;
+  const lower = flat.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(position => position >= 0);
+  if (positions.length === 0) {
+    return flat.length > SNIPPET_RADIUS * 2 ? `${flat.slice(0, SNIPPET_RADIUS * 2)}…` : flat;
+  }
+  const position = Math.min(...positions);
+  const start = Math.max(0, position - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, position + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+};
+
+/**
+ * Rank documents for a query with BM25 over field-weighted term frequencies. Every word also
+ * matches as a prefix, so results update while typing, and documents matching more of the
+ * query words rank above those matching a few of them many times.
+ */
+export const searchIndex = (index: SearchIndex, query: string, limit = 30): SearchResult[] => {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) return [];
+
+  const totals = new Map<number, number>();
+  const matchedTerms = new Map<number, number>();
+  queryTerms.forEach(term => {
+    const scores = new Map<number, number>();
+    termScores(index, term, 1, scores);
+    expandPrefix(index, term).forEach(expansion => termScores(index, expansion, PREFIX_WEIGHT, scores));
+    scores.forEach((score, documentIndex) => {
+      totals.set(documentIndex, (totals.get(documentIndex) ?? 0) + score);
+      matchedTerms.set(documentIndex, (matchedTerms.get(documentIndex) ?? 0) + 1);
+    });
+  });
+
+  return [...totals.entries()]
+    .map(([documentIndex, score]) => {
+      const coverage = matchedTerms.get(documentIndex) / queryTerms.length;
+      const document = index.documents[documentIndex];
+      const titleTokens = tokenize(document.title);
+      const inTitle = queryTerms.every(term => titleTokens.some(token => token.startsWith(term)));
+      return {
+        document,
+        score: score * coverage * coverage * (inTitle ? TITLE_MATCH_BOOST : 1) * (document.boost ?? 1),
+        snippet: makeSnippet(document.body, queryTerms)
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
@@ -0,0 +1,3 @@
+export type { SearchDocument, SearchDocumentKind, SearchResult, SearchIndex } from './types';
+export { tokenize, createSearchIndex, searchIndex, makeSnippet } from './fullText';
+export { buildSearchDocuments } from './documents';
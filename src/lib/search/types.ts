@@ -0,0 +1,43 @@
+export type SearchDocumentKind =
+  | 'pattern'
+  | 'code'
+  | 'concept'
+  | 'quiz'
+  | 'reference'
+  | 'azure-service'
+  | 'community';
+
+/**
+ * One searchable item and the view it opens. Text is split into fields so a match in the
+ * title ranks above the same match in the body.
+ */
+export interface SearchDocument {
+  id: string;
+  kind: SearchDocumentKind;
+  title: string;
+  // Shown under the title, e.g. the pattern or quiz category it belongs to
+  subtitle?: string;
+  keywords?: string[];
+  body: string;
+  // Ranking multiplier, so the app's own content ranks above external links
+  boost?: number;
+  // Route, with query parameters, that shows the item (see useUrlState)
+  path: string;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  // Excerpt of the body around the first matched term
+  snippet?: string;
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  // term -> document index -> field-weighted term frequency
+  postings: Map<string, Map<number, number>>;
+  // Sorted terms, for prefix lookups of the word being typed
+  terms: string[];
+  lengths: number[];
+  averageLength: number;
+}
@@ -0,0 +1,424 @@
+import { DataFlowType } from '../utils/dataFlowUtils';
+import {
+  SimulationGraph,
+  SimulationScenario,
+  SimulationEvent,
+  PatternGraphAnalysis
+} from './types';
+
+type GraphNode = SimulationGraph['nodes'][number];
+type GraphEdge = SimulationGraph['edges'][number];
+type UnsequencedEvent = SimulationEvent extends infer E ? (E extends SimulationEvent ? Omit<E, 'seq'> : never) : never;
+
+// Processing time per node type in ms
+export const DEFAULT_NODE_DURATIONS: Record<string, number> = {
+  llm: 2000,
+  tool: 1500,
+  evaluator: 1800,
+  router: 1000,
+  aggregator: 1500,
+  planner: 1800,
+  executor: 1500,
+  input: 500,
+  output: 500
+};
+
+export const DEFAULT_TRANSIT_DURATION = 1000;
+export const DEFAULT_LOOP_ITERATIONS = 1;
+const DEFAULT_MAX_EVENTS = 1000;
+// Gap between messages fanned out from the same node, for visual clarity
+const FAN_OUT_STAGGER = 300;
+
+/**
+ * Resolve the node type used for timing and message inference
+ */
+export const getSimulationNodeType = (node?: GraphNode): string | undefined => {
+  return node?.data?.nodeType || node?.type;
+};
+
+/**
+ * Infer the message type for an edge from the node types at either end
+ */
+export const inferMessageType = (
+  source?: GraphNode,
+  target?: GraphNode
+): DataFlowType => {
+  const sourceType = getSimulationNodeType(source);
+  const targetType = getSimulationNodeType(target);
+
+  if (sourceType === 'input') return 'query';
+  if (targetType === 'output') return 'response';
+  if (sourceType === 'llm' && targetType === 'tool') return 'tool_call';
+  if (sourceType === 'tool') return 'observation';
+  if (sourceType === 'evaluator' || targetType === 'evaluator') return 'reflection';
+  if (sourceType === 'planner') return 'plan';
+  return 'message';
+};
+
+/**
+ * Describe the payload of a message between two nodes
+ */
+export const describeMessage = (source?: GraphNode, target?: GraphNode): string => {
+  const sourceType = getSimulationNodeType(source);
+  const targetType = getSimulationNodeType(target);
+
+  if (sourceType === 'input' && targetType === 'llm') return 'User query';
+  if (sourceType === 'llm' && targetType === 'tool') return 'Tool request';
+  if (sourceType === 'tool' && targetType === 'llm') return 'Tool response';
+  if (sourceType === 'llm' && targetType === 'output') return 'Final response';
+  if (sourceType === 'router') return 'Routing decision';
+  if (targetType === 'evaluator') return 'Evaluation request';
+  if (sourceType === 'evaluator') return 'Evaluation result';
+  if (sourceType === 'planner' && targetType === 'executor') return 'Execution plan';
+  if (sourceType === 'executor') return 'Execution result';
+  return 'Data transfer';
+};
+
+/**
+ * Find entry/exit nodes, loops and reachability of a pattern graph
+ */
+export const analyzePatternGraph = (graph: SimulationGraph): PatternGraphAnalysis => {
+  const nodeIds = graph.nodes.map(node => node.id);
+  const knownIds = new Set(nodeIds);
+  const edges = graph.edges.filter(edge => knownIds.has(edge.source) && knownIds.has(edge.target));
+  const outgoing = new Map<string, GraphEdge[]>(nodeIds.map(id => [id, []]));
+  edges.forEach(edge => outgoing.get(edge.source)!.push(edge));
+
+  let entryNodeIds = graph.nodes
+    .filter(node => getSimulationNodeType(node) === 'input')
+    .map(node => node.id);
+  if (entryNodeIds.length === 0) {
+    entryNodeIds = nodeIds.filter(id => !edges.some(edge => edge.target === id));
+  }
+  if (entryNodeIds.length === 0 && nodeIds.length > 0) {
+    entryNodeIds = [nodeIds[0]];
+  }
+
+  const exitNodeIds = nodeIds.filter(id => outgoing.get(id)!.length === 0);
+
+  // Depth-first search: an edge pointing at a node still on the stack closes a loop
+  const backEdgeIds = new Set<string>();
+  const visited = new Set<string>();
+  const onStack = new Set<string>();
+  const visit = (id: string) => {
+    visited.add(id);
+    onStack.add(id);
+    outgoing.get(id)!.forEach(edge => {
+      if (onStack.has(edge.target)) {
+        backEdgeIds.add(edge.id);
+      } else if (!visited.has(edge.target)) {
+        visit(edge.target);
+      }
+    });
+    onStack.delete(id);
+  };
+  [...entryNodeIds, ...nodeIds].forEach(id => {
+    if (!visited.has(id)) visit(id);
+  });
+
+  const collectReachable = (start: string, followBackEdges: boolean): Set<string> => {
+    const seen = new Set<string>();
+    const stack = [start];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      outgoing.get(current)!.forEach(edge => {
+        if (!followBackEdges && backEdgeIds.has(edge.id)) return;
+        if (!seen.has(edge.target)) {
+          seen.add(edge.target);
+          stack.push(edge.target);
+        }
+      });
+    }
+    return seen;
+  };
+
+  const reachable = new Map<string, Set<string>>();
+  const forwardReachable = new Map<string, Set<string>>();
+  nodeIds.forEach(id => {
+    reachable.set(id, collectReachable(id, true));
+    forwardReachable.set(id, collectReachable(id, false));
+  });
+
+  // A loop body is every node on a forward path from the header to the latch
+  const loopBodies = new Map<string, Set<string>>();
+  edges.filter(edge => backEdgeIds.has(edge.id)).forEach(edge => {
+    const header = edge.target;
+    const latch = edge.source;
+    const body = new Set<string>([header, latch]);
+    forwardReachable.get(header)!.forEach(id => {
+      if (id === latch || forwardReachable.get(id)!.has(latch)) body.add(id);
+    });
+    loopBodies.set(edge.id, body);
+  });
+
+  return { entryNodeIds, exitNodeIds, backEdgeIds, loopBodies, reachable, forwardReachable };
+};
+
+export interface LoopEdgeClassification<E = GraphEdge> {
+  // Back edges of the loops that contain the node
+  loopEdgeIds: string[];
+  bodyEdges: E[];
+  // Edges to auxiliary sinks (memory, tools without a way back), followed on every pass
+  sideEdges: E[];
+  exitEdges: E[];
+  // True when a node further along the loop body can take the exit instead
+  laterExit: boolean;
+}
+
+/**
+ * Split the forward edges of a node inside a loop into body, side and exit edges.
+ * Returns null when the node has no choice between staying in and leaving a loop.
+ */
+export const classifyLoopEdges = <G extends SimulationGraph>(
+  graph: G,
+  analysis: PatternGraphAnalysis,
+  nodeId: string
+): LoopEdgeClassification<G['edges'][number]> | null => {
+  const enclosingLoops = [...analysis.loopBodies.entries()].filter(([, body]) => body.has(nodeId));
+  if (enclosingLoops.length === 0) return null;
+
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  const inBody = (id: string) => enclosingLoops.some(([, body]) => body.has(id));
+  const isSideSink = (id: string) =>
+    analysis.exitNodeIds.includes(id) && getSimulationNodeType(nodesById.get(id)) !== 'output';
+  const leavesLoop = (edge: GraphEdge) =>
+    !analysis.backEdgeIds.has(edge.id) && !inBody(edge.target) && !isSideSink(edge.target);
+
+  const forwardEdges = graph.edges.filter(edge => edge.source === nodeId && !analysis.backEdgeIds.has(edge.id));
+  const bodyEdges = forwardEdges.filter(edge => inBody(edge.target));
+  const sideEdges = forwardEdges.filter(edge => !inBody(edge.target) && isSideSink(edge.target));
+  const exitEdges = forwardEdges.filter(edge => !bodyEdges.includes(edge) && !sideEdges.includes(edge));
+  if (bodyEdges.length === 0 || exitEdges.length === 0) return null;
+
+  // The exit is taken by the last node before the latch that can leave the loop
+  const laterExit = [...(analysis.forwardReachable.get(nodeId) ?? [])].some(id =>
+    inBody(id) && graph.edges.some(edge => edge.source === id && leavesLoop(edge))
+  );
+
+  return {
+    loopEdgeIds: enclosingLoops.map(([edgeId]) => edgeId),
+    bodyEdges,
+    sideEdges,
+    exitEdges,
+    laterExit
+  };
+};
+
+interface PendingArrival {
+  time: number;
+  order: number;
+  nodeId: string;
+  message?: { id: string; edge: GraphEdge };
+}
+
+/**
+ * Run a pattern graph against a scenario and return the ordered event stream.
+ *
+ * The run is fully deterministic: the same graph and scenario always produce the
+ * same events with the same ids and timestamps, so visualizers can replay, seek
+ * or step through it freely.
+ */
+export const simulatePattern = (
+  graph: SimulationGraph,
+  scenario: SimulationScenario = {}
+): SimulationEvent[] => {
+  const analysis = analyzePatternGraph(graph);
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  const edges = graph.edges.filter(edge => nodesById.has(edge.source) && nodesById.has(edge.target));
+  const transit = scenario.transitDuration ?? DEFAULT_TRANSIT_DURATION;
+  const maxEvents = scenario.maxEvents ?? DEFAULT_MAX_EVENTS;
+
+  const events: SimulationEvent[] = [];
+  let truncated = false;
+  const emit = (event: UnsequencedEvent) => {
+    if (events.length >= maxEvents) {
+      truncated = true;
+      return;
+    }
+    events.push({ ...event, seq: events.length } as SimulationEvent);
+  };
+
+  const getDuration = (node: GraphNode): number => {
+    const nodeType = getSimulationNodeType(node);
+    return scenario.nodeDurations?.[node.id]
+      ?? (nodeType !== undefined ? scenario.nodeDurations?.[nodeType] : undefined)
+      ?? (nodeType !== undefined ? DEFAULT_NODE_DURATIONS[nodeType] : undefined)
+      ?? 800;
+  };
+
+  const getMaxIterations = (edgeId: string): number => {
+    const setting = scenario.loopIterations;
+    if (typeof setting === 'number') return setting;
+    return setting?.[edgeId] ?? DEFAULT_LOOP_ITERATIONS;
+  };
+
+  // Forward and loop-back fan-in are counted separately so a loop header joins its returning branches
+  const forwardInDegree = new Map<string, number>();
+  const backInDegree = new Map<string, number>();
+  edges.forEach(edge => {
+    const degrees = analysis.backEdgeIds.has(edge.id) ? backInDegree : forwardInDegree;
+    degrees.set(edge.target, (degrees.get(edge.target) ?? 0) + 1);
+  });
+
+  const visits = new Map<string, number>();
+  const loopCounts = new Map<string, number>();
+  const edgeMessageCounts = new Map<string, number>();
+  const queue: PendingArrival[] = [];
+  const pendingJoins = new Map<string, number>();
+  let arrivalOrder = 0;
+  let endTime = 0;
+
+  const enqueue = (arrival: Omit<PendingArrival, 'order'>) => {
+    const entry = { ...arrival, order: arrivalOrder++ };
+    const index = queue.findIndex(item =>
+      item.time > entry.time || (item.time === entry.time && item.order > entry.order)
+    );
+    if (index === -1) queue.push(entry);
+    else queue.splice(index, 0, entry);
+  };
+
+  const describe = (edge: GraphEdge, visit: number): string => {
+    const override = scenario.messages?.[edge.id];
+    if (override) return override;
+    if (scenario.query && analysis.entryNodeIds.includes(edge.source) && visit === 1) {
+      return scenario.query;
+    }
+    return describeMessage(nodesById.get(edge.source), nodesById.get(edge.target));
+  };
+
+  // Pick which outgoing edges a node follows on this visit
+  const chooseEdges = (node: GraphNode, time: number): GraphEdge[] => {
+    const outgoing = edges.filter(edge => edge.source === node.id);
+    const backEdges = outgoing.filter(edge => analysis.backEdgeIds.has(edge.id));
+    const forwardEdges = outgoing.filter(edge => !analysis.backEdgeIds.has(edge.id));
+    const decide = (chosen: GraphEdge[], reason: 'route' | 'loop-continue' | 'loop-exit') => {
+      emit({
+        kind: 'branch_decision',
+        time,
+        nodeId: node.id,
+        chosenEdgeIds: chosen.map(edge => edge.id),
+        skippedEdgeIds: outgoing.filter(edge => !chosen.includes(edge)).map(edge => edge.id),
+        reason
+      });
+      return chosen;
+    };
+
+    // Latch node: jump back while the loop still has iterations left
+    const openBackEdge = backEdges.find(edge => (loopCounts.get(edge.id) ?? 0) < getMaxIterations(edge.id));
+    if (openBackEdge) {
+      const iteration = (loopCounts.get(openBackEdge.id) ?? 0) + 1;
+      loopCounts.set(openBackEdge.id, iteration);
+      emit({
+        kind: 'loop_iteration',
+        time,
+        edgeId: openBackEdge.id,
+        headerId: openBackEdge.target,
+        iteration,
+        maxIterations: getMaxIterations(openBackEdge.id)
+      });
+      return forwardEdges.length > 0 ? decide([openBackEdge], 'loop-continue') : [openBackEdge];
+    }
+    if (backEdges.length > 0) {
+      return forwardEdges.length > 0 ? decide(forwardEdges, 'loop-exit') : [];
+    }
+
+    // Inside a loop: stay in the body while iterations remain, otherwise take the exit
+    const loopChoice = classifyLoopEdges(graph, analysis, node.id);
+    if (loopChoice) {
+      const loopOpen = loopChoice.loopEdgeIds.some(edgeId => (loopCounts.get(edgeId) ?? 0) < getMaxIterations(edgeId));
+      return loopOpen || loopChoice.laterExit
+        ? decide([...loopChoice.bodyEdges, ...loopChoice.sideEdges], 'loop-continue')
+        : decide([...loopChoice.exitEdges, ...loopChoice.sideEdges], 'loop-exit');
+    }
+
+    // Routers follow one branch; everything else fans out
+    if (getSimulationNodeType(node) === 'router' && forwardEdges.length > 1) {
+      const route = scenario.routes?.[node.id];
+      const targets = route === undefined ? [] : Array.isArray(route) ? route : [route];
+      const routed = forwardEdges.filter(edge => targets.includes(edge.target));
+      return decide(routed.length > 0 ? routed : [forwardEdges[0]], 'route');
+    }
+
+    return forwardEdges;
+  };
+
+  const processNode = (nodeId: string, time: number) => {
+    const node = nodesById.get(nodeId);
+    if (!node) return;
+    const nodeType = getSimulationNodeType(node);
+    const visit = (visits.get(nodeId) ?? 0) + 1;
+    visits.set(nodeId, visit);
+    emit({ kind: 'node_enter', time, nodeId, nodeType, visit });
+
+    const duration = getDuration(node);
+    const exitTime = time + duration;
+    emit({ kind: 'node_exit', time: exitTime, nodeId, nodeType, duration });
+    endTime = Math.max(endTime, exitTime);
+
+    chooseEdges(node, exitTime).forEach((edge, index) => {
+      const sendTime = exitTime + index * FAN_OUT_STAGGER;
+      const messageCount = (edgeMessageCounts.get(edge.id) ?? 0) + 1;
+      edgeMessageCounts.set(edge.id, messageCount);
+      const messageId = `${edge.id}#${messageCount}`;
+      emit({
+        kind: 'message_send',
+        time: sendTime,
+        messageId,
+        edgeId: edge.id,
+        source: edge.source,
+        target: edge.target,
+        content: describe(edge, visit),
+        messageType: inferMessageType(node, nodesById.get(edge.target))
+      });
+      enqueue({ time: sendTime + transit, nodeId: edge.target, message: { id: messageId, edge } });
+    });
+  };
+
+  // Joins wait until no in-flight message can still reach them
+  const releaseJoins = () => {
+    [...pendingJoins.entries()].forEach(([nodeId, time]) => {
+      const blocked = queue.some(item =>
+        item.nodeId === nodeId || analysis.reachable.get(item.nodeId)?.has(nodeId)
+      );
+      if (!blocked) {
+        pendingJoins.delete(nodeId);
+        processNode(nodeId, time);
+      }
+    });
+  };
+
+  analysis.entryNodeIds.forEach(nodeId => enqueue({ time: 0, nodeId }));
+
+  while ((queue.length > 0 || pendingJoins.size > 0) && !truncated) {
+    const arrival = queue.shift();
+    if (arrival) {
+      if (arrival.message) {
+        emit({
+          kind: 'message_deliver',
+          time: arrival.time,
+          messageId: arrival.message.id,
+          edgeId: arrival.message.edge.id,
+          source: arrival.message.edge.source,
+          target: arrival.message.edge.target
+        });
+      }
+      endTime = Math.max(endTime, arrival.time);
+
+      const inDegree = arrival.message && analysis.backEdgeIds.has(arrival.message.edge.id)
+        ? backInDegree
+        : forwardInDegree;
+      if (arrival.message && (inDegree.get(arrival.nodeId) ?? 0) > 1) {
+        pendingJoins.set(arrival.nodeId, Math.max(pendingJoins.get(arrival.nodeId) ?? 0, arrival.time));
+      } else {
+        processNode(arrival.nodeId, arrival.time);
+      }
+    }
+    releaseJoins();
+  }
+
+  const ordered = events
+    .sort((a, b) => a.time - b.time || a.seq - b.seq)
+    .map((event, index) => ({ ...event, seq: index }));
+  ordered.push({ kind: 'simulation_complete', seq: ordered.length, time: endTime, truncated });
+  return ordered;
+};
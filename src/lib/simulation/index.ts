@@ -0,0 +1,30 @@
+export {
+  simulatePattern,
+  analyzePatternGraph,
+  classifyLoopEdges,
+  inferMessageType,
+  describeMessage,
+  getSimulationNodeType,
+  DEFAULT_NODE_DURATIONS,
+  DEFAULT_TRANSIT_DURATION,
+  DEFAULT_LOOP_ITERATIONS
+} from './engine';
+export type { LoopEdgeClassification } from './engine';
+export { playSimulation, groupSimulationSteps } from './player';
+export type { SimulationPlayback, SimulationPlaybackOptions } from './player';
+export { runLivePattern } from './liveRunner';
+export type { LiveNodeTrace, LiveRunCallbacks, LiveRunOptions, LiveRunResult } from './liveRunner';
+export type {
+  SimulationGraph,
+  SimulationScenario,
+  SimulationEvent,
+  SimulationEventKind,
+  NodeEnterEvent,
+  NodeExitEvent,
+  MessageSendEvent,
+  MessageDeliverEvent,
+  LoopIterationEvent,
+  BranchDecisionEvent,
+  SimulationCompleteEvent,
+  PatternGraphAnalysis
+} from './types';
@@ -0,0 +1,271 @@
+import { LLMProvider, LLMUsage } from '../llm';
+import { analyzePatternGraph, classifyLoopEdges, getSimulationNodeType } from './engine';
+import { SimulationGraph } from './types';
+
+type GraphEdge = SimulationGraph['edges'][number];
+
+export interface LiveNodeTrace {
+  id: string;
+  nodeId: string;
+  label: string;
+  nodeType?: string;
+  visit: number;
+  status: 'running' | 'complete' | 'failed';
+  prompt?: string;
+  response: string;
+  model?: string;
+  usage?: LLMUsage;
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface LiveRunCallbacks {
+  onNodeStart?: (trace: LiveNodeTrace) => void;
+  onNodeToken?: (trace: LiveNodeTrace) => void;
+  onNodeComplete?: (trace: LiveNodeTrace) => void;
+  onMessage?: (edge: GraphEdge, content: string) => void;
+  // Awaited before each node runs; step-by-step controls hook in here
+  beforeNode?: (nodeId: string) => Promise<void>;
+}
+
+export interface LiveRunOptions {
+  patternName?: string;
+  patternDescription?: string;
+  // Upper bound on how often any loop is repeated
+  maxIterations?: number;
+  // Upper bound on model-backed node executions for the whole run
+  maxSteps?: number;
+  signal?: AbortSignal;
+}
+
+export interface LiveRunResult {
+  traces: LiveNodeTrace[];
+  output: string;
+  totalTokens: number;
+  totalLatencyMs: number;
+  truncated: boolean;
+}
+
+const DEFAULT_MAX_ITERATIONS = 3;
+const DEFAULT_MAX_STEPS = 40;
+
+// Node types that are answered without a model call
+const PASSTHROUGH_TYPES = new Set(['input', 'output']);
+
+const formatInputs = (inputs: string[]): string =>
+  inputs.length === 0 ? '(none)' : inputs.map((input, index) => `[${index + 1}] ${input}`).join('\n\n');
+
+const buildPrompt = (
+  nodeType: string | undefined,
+  label: string,
+  query: string,
+  inputs: string[],
+  routeLabels: string[],
+  canFinish: boolean
+): string => {
+  const context = `Task: ${query}\n\nInputs from previous steps:\n${formatInputs(inputs)}`;
+
+  switch (nodeType) {
+    case 'tool':
+      return `Act as the tool "${label}". Return a concise, realistic result for the latest request below. Do not explain that you are simulating.\n\n${context}`;
+    case 'evaluator':
+      return `Review the latest candidate against the task. Reply with APPROVED or NEEDS REVISION on the first line, followed by brief, specific feedback.\n\n${context}`;
+    case 'router':
+      return `Choose the single best route for this task.\n\nOptions:\n${routeLabels.map((route, index) => `${index + 1}. ${route}`).join('\n')}\n\nReply with the option number only.\n\n${context}`;
+    case 'planner':
+      return `Break the task into 3-5 numbered, concrete steps. Revise the plan if the inputs report progress or problems.\n\n${context}`;
+    case 'aggregator':
+      return `Combine the inputs into one coherent result, resolving any conflicts.\n\n${context}`;
+    default:
+      return `${context}\n\nPerform your step ("${label}").${canFinish
+        ? ' If you have enough information to answer the task, start your reply with "FINAL ANSWER:". Otherwise state the next action you need.'
+        : ''}`;
+  }
+};
+
+// Whether a node's response asks for another pass through its loop
+const wantsAnotherPass = (nodeType: string | undefined, response: string): boolean => {
+  if (nodeType === 'evaluator') return !/^\s*\**\s*APPROVED/i.test(response);
+  return !/FINAL ANSWER/i.test(response);
+};
+
+/**
+ * Execute a pattern graph against a real model.
+ *
+ * Control flow mirrors the simulation engine (loops, joins, routers), but branch and
+ * loop decisions are taken from the model's answers instead of a scenario script.
+ */
+export const runLivePattern = async (
+  graph: SimulationGraph,
+  query: string,
+  complete: LLMProvider['complete'],
+  callbacks: LiveRunCallbacks = {},
+  options: LiveRunOptions = {}
+): Promise<LiveRunResult> => {
+  const analysis = analyzePatternGraph(graph);
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  const edges = graph.edges.filter(edge => nodesById.has(edge.source) && nodesById.has(edge.target));
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+
+  const forwardInDegree = new Map<string, number>();
+  const backInDegree = new Map<string, number>();
+  edges.forEach(edge => {
+    const degrees = analysis.backEdgeIds.has(edge.id) ? backInDegree : forwardInDegree;
+    degrees.set(edge.target, (degrees.get(edge.target) ?? 0) + 1);
+  });
+
+  const traces: LiveNodeTrace[] = [];
+  const inbox = new Map<string, string[]>();
+  const visits = new Map<string, number>();
+  const loopCounts = new Map<string, number>();
+  const queue: string[] = [...analysis.entryNodeIds];
+  const pendingJoins = new Set<string>();
+  let output = '';
+  let steps = 0;
+  let truncated = false;
+
+  const labelOf = (nodeId: string) => nodesById.get(nodeId)?.data?.label || nodeId;
+  const loopOpen = (edgeId: string) => (loopCounts.get(edgeId) ?? 0) < maxIterations;
+
+  const send = (edge: GraphEdge, content: string) => {
+    if (analysis.backEdgeIds.has(edge.id)) {
+      loopCounts.set(edge.id, (loopCounts.get(edge.id) ?? 0) + 1);
+    }
+    inbox.set(edge.target, [...(inbox.get(edge.target) ?? []), content]);
+    callbacks.onMessage?.(edge, content);
+
+    const inDegree = analysis.backEdgeIds.has(edge.id) ? backInDegree : forwardInDegree;
+    if ((inDegree.get(edge.target) ?? 0) > 1) pendingJoins.add(edge.target);
+    else queue.push(edge.target);
+  };
+
+  // Pick outgoing edges from the node type and the model's answer
+  const chooseEdges = (nodeId: string, nodeType: string | undefined, response: string): GraphEdge[] => {
+    const outgoing = edges.filter(edge => edge.source === nodeId);
+    const backEdges = outgoing.filter(edge => analysis.backEdgeIds.has(edge.id));
+    const forwardEdges = outgoing.filter(edge => !analysis.backEdgeIds.has(edge.id));
+    const again = wantsAnotherPass(nodeType, response);
+
+    if (backEdges.length > 0) {
+      const openBackEdge = backEdges.find(edge => loopOpen(edge.id));
+      return again && openBackEdge ? [openBackEdge] : forwardEdges;
+    }
+
+    const loopChoice = classifyLoopEdges({ nodes: graph.nodes, edges }, analysis, nodeId);
+    if (loopChoice) {
+      const stay = loopChoice.laterExit || (again && loopChoice.loopEdgeIds.some(loopOpen));
+      return stay
+        ? [...loopChoice.bodyEdges, ...loopChoice.sideEdges]
+        : [...loopChoice.exitEdges, ...loopChoice.sideEdges];
+    }
+
+    if (nodeType === 'router' && forwardEdges.length > 1) {
+      const choice = Number.parseInt(response.match(/\d+/)?.[0] ?? '', 10);
+      const routed = forwardEdges[choice - 1] ?? forwardEdges.find(edge =>
+        response.toLowerCase().includes(labelOf(edge.target).toLowerCase())
+      );
+      return [routed ?? forwardEdges[0]];
+    }
+
+    return forwardEdges;
+  };
+
+  const runNode = async (nodeId: string) => {
+    const node = nodesById.get(nodeId);
+    if (!node) return;
+    const nodeType = getSimulationNodeType(node);
+    const label = labelOf(nodeId);
+    const visit = (visits.get(nodeId) ?? 0) + 1;
+    visits.set(nodeId, visit);
+    const inputs = inbox.get(nodeId) ?? [];
+    inbox.set(nodeId, []);
+
+    await callbacks.beforeNode?.(nodeId);
+    if (options.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+    const trace: LiveNodeTrace = {
+      id: `${nodeId}#${visit}`,
+      nodeId,
+      label,
+      nodeType,
+      visit,
+      status: 'running',
+      response: ''
+    };
+
+    if (PASSTHROUGH_TYPES.has(nodeType ?? '') || analysis.entryNodeIds.includes(nodeId)) {
+      trace.response = analysis.entryNodeIds.includes(nodeId) ? query : inputs[inputs.length - 1] ?? '';
+      trace.status = 'complete';
+      callbacks.onNodeStart?.(trace);
+      callbacks.onNodeComplete?.({ ...trace });
+    } else {
+      const routeLabels = edges
+        .filter(edge => edge.source === nodeId && !analysis.backEdgeIds.has(edge.id))
+        .map(edge => labelOf(edge.target));
+      const canFinish = edges.some(edge => edge.source === nodeId && analysis.backEdgeIds.has(edge.id))
+        || classifyLoopEdges({ nodes: graph.nodes, edges }, analysis, nodeId) !== null;
+      trace.prompt = buildPrompt(nodeType, label, query, inputs, routeLabels, canFinish);
+      callbacks.onNodeStart?.({ ...trace });
+
+      try {
+        const result = await complete(trace.prompt, {
+          systemPrompt: `You are the "${label}" step of a ${options.patternName ?? 'multi-step'} agent.${options.patternDescription ? ` ${options.patternDescription}` : ''} Keep your answer under 120 words.`,
+          signal: options.signal,
+          onToken: (_delta, textSoFar) => {
+            trace.response = textSoFar;
+            callbacks.onNodeToken?.({ ...trace });
+          }
+        });
+        trace.response = result.text;
+        trace.model = result.model;
+        trace.usage = result.usage;
+        trace.latencyMs = result.latencyMs;
+        trace.status = 'complete';
+      } catch (error) {
+        trace.status = 'failed';
+        trace.error = error instanceof Error ? error.message : 'Unknown error';
+        traces.push(trace);
+        callbacks.onNodeComplete?.({ ...trace });
+        throw error;
+      }
+      callbacks.onNodeComplete?.({ ...trace });
+    }
+
+    traces.push(trace);
+    if (nodeType === 'output' || analysis.exitNodeIds.includes(nodeId)) {
+      output = trace.response;
+    }
+    chooseEdges(nodeId, nodeType, trace.response).forEach(edge => send(edge, trace.response));
+  };
+
+  while (queue.length > 0 || pendingJoins.size > 0) {
+    if (steps >= maxSteps) {
+      truncated = true;
+      break;
+    }
+
+    const nodeId = queue.shift();
+    if (nodeId) {
+      steps++;
+      await runNode(nodeId);
+    }
+
+    // Joins run once nothing still queued can reach them
+    [...pendingJoins].forEach(joinId => {
+      const blocked = queue.some(id => id === joinId || analysis.reachable.get(id)?.has(joinId));
+      if (!blocked) {
+        pendingJoins.delete(joinId);
+        queue.push(joinId);
+      }
+    });
+  }
+
+  return {
+    traces,
+    output,
+    totalTokens: traces.reduce((sum, trace) => sum + (trace.usage?.totalTokens ?? 0), 0),
+    totalLatencyMs: traces.reduce((sum, trace) => sum + (trace.latencyMs ?? 0), 0),
+    truncated
+  };
+};
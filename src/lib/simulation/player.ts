@@ -0,0 +1,55 @@
+import { SimulationEvent } from './types';
+
+export interface SimulationPlaybackOptions {
+  // Playback speed multiplier; 2 plays twice as fast
+  speed?: number;
+  // Skip events before this simulation time in ms
+  startAt?: number;
+  onComplete?: () => void;
+}
+
+export interface SimulationPlayback {
+  cleanup: () => void;
+}
+
+/**
+ * Replay a simulation event stream in real time
+ */
+export const playSimulation = (
+  events: SimulationEvent[],
+  onEvent: (event: SimulationEvent) => void,
+  { speed = 1, startAt = 0, onComplete }: SimulationPlaybackOptions = {}
+): SimulationPlayback => {
+  let cancelled = false;
+  const timeouts: number[] = [];
+
+  events
+    .filter(event => event.time >= startAt)
+    .forEach(event => {
+      timeouts.push(window.setTimeout(() => {
+        if (cancelled) return;
+        onEvent(event);
+        if (event.kind === 'simulation_complete') onComplete?.();
+      }, (event.time - startAt) / speed));
+    });
+
+  return {
+    cleanup: () => {
+      cancelled = true;
+      timeouts.forEach(timeout => window.clearTimeout(timeout));
+    }
+  };
+};
+
+/**
+ * Group events that happen at the same instant, for step-by-step controls
+ */
+export const groupSimulationSteps = (events: SimulationEvent[]): SimulationEvent[][] => {
+  const steps: SimulationEvent[][] = [];
+  events.forEach(event => {
+    const last = steps[steps.length - 1];
+    if (last && last[0].time === event.time) last.push(event);
+    else steps.push([event]);
+  });
+  return steps;
+};
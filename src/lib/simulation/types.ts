@@ -0,0 +1,127 @@
+import { DataFlowType } from '../utils/dataFlowUtils';
+
+/**
+ * Minimal graph shape the simulation engine needs. `PatternData` satisfies it
+ * directly, and so do ReactFlow node/edge arrays built from a pattern.
+ */
+export interface SimulationGraph {
+  nodes: Array<{
+    id: string;
+    type?: string;
+    data?: { label?: string; nodeType?: string; [key: string]: any };
+  }>;
+  edges: Array<{
+    id: string;
+    source: string;
+    target: string;
+    label?: any;
+  }>;
+}
+
+/**
+ * Scenario script that steers a simulation run
+ */
+export interface SimulationScenario {
+  id?: string;
+  // User query carried by the messages leaving entry nodes
+  query?: string;
+  // How often each back edge is taken; a number applies to every loop
+  loopIterations?: number | Record<string, number>;
+  // Router node id -> target node id(s) to follow
+  routes?: Record<string, string | string[]>;
+  // Edge id -> message content override
+  messages?: Record<string, string>;
+  // Node id or nodeType -> processing time in ms
+  nodeDurations?: Record<string, number>;
+  // Time a message spends on an edge in ms
+  transitDuration?: number;
+  // Hard stop for runaway graphs
+  maxEvents?: number;
+}
+
+interface SimulationEventBase {
+  seq: number;
+  time: number;
+}
+
+export interface NodeEnterEvent extends SimulationEventBase {
+  kind: 'node_enter';
+  nodeId: string;
+  nodeType?: string;
+  // 1-based count of how often this node has been entered
+  visit: number;
+}
+
+export interface NodeExitEvent extends SimulationEventBase {
+  kind: 'node_exit';
+  nodeId: string;
+  nodeType?: string;
+  duration: number;
+}
+
+export interface MessageSendEvent extends SimulationEventBase {
+  kind: 'message_send';
+  messageId: string;
+  edgeId: string;
+  source: string;
+  target: string;
+  content: string;
+  messageType: DataFlowType;
+}
+
+export interface MessageDeliverEvent extends SimulationEventBase {
+  kind: 'message_deliver';
+  messageId: string;
+  edgeId: string;
+  source: string;
+  target: string;
+}
+
+export interface LoopIterationEvent extends SimulationEventBase {
+  kind: 'loop_iteration';
+  edgeId: string;
+  // Node the loop jumps back to
+  headerId: string;
+  iteration: number;
+  maxIterations: number;
+}
+
+export interface BranchDecisionEvent extends SimulationEventBase {
+  kind: 'branch_decision';
+  nodeId: string;
+  chosenEdgeIds: string[];
+  skippedEdgeIds: string[];
+  reason: 'route' | 'loop-continue' | 'loop-exit';
+}
+
+export interface SimulationCompleteEvent extends SimulationEventBase {
+  kind: 'simulation_complete';
+  truncated: boolean;
+}
+
+export type SimulationEvent =
+  | NodeEnterEvent
+  | NodeExitEvent
+  | MessageSendEvent
+  | MessageDeliverEvent
+  | LoopIterationEvent
+  | BranchDecisionEvent
+  | SimulationCompleteEvent;
+
+export type SimulationEventKind = SimulationEvent['kind'];
+
+/**
+ * Structural facts about a pattern graph derived once per simulation
+ */
+export interface PatternGraphAnalysis {
+  entryNodeIds: string[];
+  exitNodeIds: string[];
+  // Edges that close a cycle, found by depth-first search from the entry nodes
+  backEdgeIds: Set<string>;
+  // Back edge id -> ids of the nodes inside that loop (header and latch included)
+  loopBodies: Map<string, Set<string>>;
+  // Node id -> node ids reachable from it over any edge
+  reachable: Map<string, Set<string>>;
+  // Same as `reachable` but without following back edges
+  forwardReachable: Map<string, Set<string>>;
+}
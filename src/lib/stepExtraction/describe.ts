@@ -0,0 +1,120 @@
+import { CodeExecutionStep } from '@/components/code-playbook/CodeStepVisualizer';
+import { AssignedVariable, CodeUnit } from './types';
+
+const MAX_VALUE_LENGTH = 40;
+// Plain statements are merged until a group reaches this size
+const MAX_GROUP_LINES = 8;
+const MAX_GROUP_UNITS = 4;
+// Keeps long examples steppable; later units are folded into the last step
+const MAX_STEPS = 80;
+
+const LLM_CALLEE = /llm|openai|anthropic|completions?\.create|responses\.create|messages\.create|generate_?text|invoke_?model|\bchat\b/i;
+// Matched against the called function's own name, so e.g. searchQueries.map isn't a tool call
+const TOOL_NAME = /execute_?action|run_?action|search|retriev|fetch|calculat|lookup|query_?(db|database|store)|mcp/i;
+
+export const truncate = (text: string, maxLength = MAX_VALUE_LENGTH) => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+};
+
+/**
+ * Decide whether a call is to the model or to a tool from the callee's text,
+ * e.g. 'self.client.chat.completions.create' or 'tools[toolName]'
+ */
+export const classifyCallee = (callee: string): 'llm-call' | 'tool-call' | null => {
+  if (LLM_CALLEE.test(callee)) return 'llm-call';
+  const name = callee.replace(/\[[^\]]*\]/g, '').split('.').pop() ?? '';
+  if (/tool/i.test(callee) || TOOL_NAME.test(name)) return 'tool-call';
+  return null;
+};
+
+export const isLogCallee = (callee: string) => /^(console\.(log|info|warn|error|debug)|print|logger\.\w+|logging\.\w+)$/.test(callee);
+
+export const callValue = (kind: 'llm-call' | 'tool-call', callee: string) =>
+  kind === 'llm-call' ? 'LLM response' : `Result of ${truncate(callee, 30)}`;
+
+// Strip the quotes and interpolation markers from a logged string literal
+export const logText = (literal: string): string | undefined => {
+  const match = literal.trim().match(/^[fFrRbB]?(`|'''|"""|'|")([\s\S]*)\1$/);
+  return match ? truncate(match[2].replace(/\$\{([^}]*)\}/g, '{$1}'), 120) : undefined;
+};
+
+const joinNames = (names: string[]) =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+const uniqueNames = (assigned: AssignedVariable[]) => Array.from(new Set(assigned.map(variable => variable.name)));
+
+// `seen` holds names assigned by earlier steps, so reassignments read as updates
+const groupDescription = (units: CodeUnit[], codeLines: string[], seen: Set<string>) => {
+  const names = uniqueNames(units.flatMap(unit => unit.assigned));
+  if (names.length > 0) {
+    const verb = names.every(name => seen.has(name)) ? 'Update' : 'Set up';
+    return names.length > 4
+      ? `${verb} ${joinNames(names.slice(0, 3))} and ${names.length - 3} more`
+      : `${verb} ${joinNames(names)}`;
+  }
+  if (units.length === 1) return units[0].description;
+  const firstLog = units.find(unit => unit.kind === 'log');
+  if (firstLog && units.every(unit => unit.kind === 'log')) return firstLog.description;
+  return `Run ${truncate(codeLines[units[0].lineStart] ?? '', 50)} and the next ${units.length - 1} statements`;
+};
+
+const toVariableState = (assigned: AssignedVariable[]): Record<string, string> | undefined => {
+  if (assigned.length === 0) return undefined;
+  return Object.fromEntries(assigned.map(variable => [variable.name, variable.value]));
+};
+
+// Log lines are folded into the statements around them
+const isMergeable = (unit: CodeUnit) => unit.kind === 'statement' || unit.kind === 'log';
+
+const canMerge = (group: CodeUnit[], unit: CodeUnit) => {
+  const first = group[0];
+  const last = group[group.length - 1];
+  return isMergeable(unit)
+    && isMergeable(first)
+    && unit.blockId === first.blockId
+    && group.length < MAX_GROUP_UNITS
+    && unit.lineEnd - first.lineStart < MAX_GROUP_LINES
+    && unit.lineStart - last.lineEnd <= 2;
+};
+
+const groupToStep = (group: CodeUnit[], codeLines: string[], seen: Set<string>): CodeExecutionStep => {
+  const output = group.map(unit => unit.output).filter(Boolean).join('\n');
+  return {
+    lineStart: group[0].lineStart,
+    lineEnd: group[group.length - 1].lineEnd,
+    description: isMergeable(group[0]) ? groupDescription(group, codeLines, seen) : group[0].description,
+    output: output || undefined,
+    variableState: toVariableState(group.flatMap(unit => unit.assigned))
+  };
+};
+
+/**
+ * Merge runs of plain statements in the same block into one step; LLM calls, tool calls,
+ * definitions, loops and branches always get a step of their own
+ */
+export const buildSteps = (units: CodeUnit[], code: string): CodeExecutionStep[] => {
+  const codeLines = code.split('\n');
+  const groups: CodeUnit[][] = [];
+  units.forEach(unit => {
+    const current = groups[groups.length - 1];
+    if (current && canMerge(current, unit)) current.push(unit);
+    else groups.push([unit]);
+  });
+  const seen = new Set<string>();
+  const steps = groups.map(group => {
+    const step = groupToStep(group, codeLines, seen);
+    group.forEach(unit => unit.assigned.forEach(variable => seen.add(variable.name)));
+    return step;
+  });
+  if (steps.length <= MAX_STEPS) return steps;
+  const rest = steps.slice(MAX_STEPS - 1);
+  return [
+    ...steps.slice(0, MAX_STEPS - 1),
+    {
+      lineStart: rest[0].lineStart,
+      lineEnd: rest[rest.length - 1].lineEnd,
+      description: `Remaining ${rest.length} steps`
+    }
+  ];
+};
@@ -0,0 +1,31 @@
+import { CodeExecutionStep } from '@/components/code-playbook/CodeStepVisualizer';
+import { buildSteps } from './describe';
+import { extractPythonUnits } from './python';
+import { extractTypeScriptUnits } from './typescript';
+import { CodeScope, CodeUnit } from './types';
+
+export type { CodeUnit, CodeUnitKind, AssignedVariable, CodeScope } from './types';
+export { buildSteps, classifyCallee } from './describe';
+export { extractPythonUnits } from './python';
+
+// The TypeScript compiler is large, so it is only fetched the first time TypeScript is analyzed
+const extractUnits = async (code: string, language: string): Promise<CodeUnit[]> => {
+  if (language === 'python') return extractPythonUnits(code);
+  const ts = await import('typescript');
+  return extractTypeScriptUnits(ts, code);
+};
+
+/**
+ * Derive visualizer steps from source: definitions, loops, branches, LLM calls and tool calls
+ * get a step each, plain statements are grouped, and assignments become tracked variables
+ */
+export const extractSteps = async (code: string, language: string): Promise<CodeExecutionStep[]> =>
+  buildSteps(await extractUnits(code, language), code);
+
+/**
+ * Classes and functions with the lines they span, outermost first
+ */
+export const extractScopes = async (code: string, language: string): Promise<CodeScope[]> =>
+  (await extractUnits(code, language))
+    .filter(unit => unit.scopeName !== undefined && unit.scopeEnd !== undefined)
+    .map(unit => ({ name: unit.scopeName, lineStart: unit.lineStart, lineEnd: unit.scopeEnd }));
@@ -0,0 +1,279 @@
+import { pythonLanguage } from '@codemirror/lang-python';
+import type { SyntaxNode } from '@lezer/common';
+import { callValue, classifyCallee, isLogCallee, logText, truncate } from './describe';
+import { AssignedVariable, CodeUnit, CodeUnitKind } from './types';
+
+// Clause keywords of compound statements; each is followed by its Body
+const CLAUSE_KEYWORDS = new Set(['if', 'elif', 'else', 'for', 'while', 'try', 'except', 'finally', 'with']);
+const PUNCTUATION = new Set([',', '(', ')', '[', ']', '{', '}', ':', 'Comment']);
+
+const childrenOf = (node: SyntaxNode): SyntaxNode[] => {
+  const children: SyntaxNode[] = [];
+  for (let child = node.firstChild; child; child = child.nextSibling) children.push(child);
+  return children;
+};
+
+/**
+ * List the statements of a Python example as units, using the Lezer grammar the code
+ * editor already ships. It recovers from syntax errors, so partial code still gets steps.
+ */
+export const extractPythonUnits = (code: string): CodeUnit[] => {
+  const tree = pythonLanguage.parser.parse(code);
+  const units: CodeUnit[] = [];
+  let nextBlockId = 0;
+
+  const lineStarts = [0];
+  for (let index = 0; index < code.length; index++) {
+    if (code[index] === '\n') lineStarts.push(index + 1);
+  }
+  const lineOf = (position: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= position) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  };
+  const textOf = (node: SyntaxNode) => code.slice(node.from, node.to);
+  // Statement nodes end after their trailing newline
+  const endLine = (node: SyntaxNode) => lineOf(Math.max(node.from, node.to - 1));
+
+  const add = (node: SyntaxNode, kind: CodeUnitKind, blockId: number, description: string, extra: Partial<CodeUnit> = {}) =>
+    units.push({
+      kind,
+      lineStart: lineOf(node.from),
+      lineEnd: endLine(node),
+      blockId,
+      description,
+      assigned: [],
+      ...extra
+    });
+
+  const calleeOf = (call: SyntaxNode) => (call.firstChild ? textOf(call.firstChild).replace(/\s+/g, '') : '');
+
+  // Every call in an expression, outermost first, without looking inside lambdas
+  const callsIn = (node: SyntaxNode): SyntaxNode[] => {
+    const calls: SyntaxNode[] = [];
+    const visit = (current: SyntaxNode) => {
+      if (current.name === 'LambdaExpression') return;
+      if (current.name === 'CallExpression') calls.push(current);
+      childrenOf(current).forEach(visit);
+    };
+    visit(node);
+    return calls;
+  };
+
+  const classifiedCall = (nodes: SyntaxNode[]) => {
+    const calls = nodes.flatMap(callsIn).map(call => ({ callee: calleeOf(call), kind: classifyCallee(calleeOf(call)) }));
+    return calls.find(call => call.kind === 'llm-call') ?? calls.find(call => call.kind === 'tool-call');
+  };
+
+  const unwrap = (node: SyntaxNode) => (node.name === 'AwaitExpression' && node.lastChild ? node.lastChild : node);
+
+  const describeValue = (nodes: SyntaxNode[]): string => {
+    if (nodes.length === 0) return 'None';
+    const call = classifiedCall(nodes);
+    if (call?.kind) return callValue(call.kind, call.callee);
+    const text = code.slice(nodes[0].from, nodes[nodes.length - 1].to);
+    if (nodes.length > 1) return truncate(text);
+    const value = unwrap(nodes[0]);
+    if (value.name === 'LambdaExpression') return 'function';
+    if (value.name === 'CallExpression' && /^[A-Z]\w*$/.test(calleeOf(value))) return `${calleeOf(value)} instance`;
+    if (text.length <= 40) return truncate(text);
+    if (value.name === 'ArrayExpression') {
+      return `[${childrenOf(value).filter(child => !PUNCTUATION.has(child.name)).length} items]`;
+    }
+    if (value.name === 'DictionaryExpression') {
+      const children = childrenOf(value);
+      const keys = children.filter((child, index) => children[index + 1]?.name === ':').map(textOf);
+      return `{ ${keys.slice(0, 4).join(', ')}${keys.length > 4 ? ', …' : ''} }`;
+    }
+    return truncate(text);
+  };
+
+  const visitCallStatement = (node: SyntaxNode, valueNodes: SyntaxNode[], blockId: number, assigned: AssignedVariable[]) => {
+    const call = classifiedCall(valueNodes);
+    const target = assigned.map(variable => variable.name).join(', ');
+    if (call?.kind === 'llm-call') {
+      add(node, 'llm-call', blockId, target ? `Call the LLM to produce ${target}` : 'Call the LLM', { assigned });
+      return;
+    }
+    if (call?.kind === 'tool-call') {
+      add(node, 'tool-call', blockId, `Call ${truncate(call.callee, 30)}${target ? ` and store the result in ${target}` : ''}`, { assigned });
+      return;
+    }
+    const outer = valueNodes.length === 1 ? unwrap(valueNodes[0]) : undefined;
+    if (outer?.name === 'CallExpression' && isLogCallee(calleeOf(outer))) {
+      const firstArgument = childrenOf(outer.lastChild ?? outer).find(child => !PUNCTUATION.has(child.name));
+      const output = firstArgument && /String/.test(firstArgument.name) ? logText(textOf(firstArgument)) : undefined;
+      add(node, 'log', blockId, output ? `Log "${truncate(output, 50)}"` : 'Log progress', { output });
+      return;
+    }
+    add(node, 'statement', blockId, truncate(textOf(node), 60), { assigned });
+  };
+
+  const visitAssignment = (node: SyntaxNode, blockId: number) => {
+    const children = childrenOf(node);
+    const lastOperator = children.map(child => child.name).lastIndexOf(node.name === 'UpdateStatement' ? 'UpdateOp' : 'AssignOp');
+    const targets = children
+      .slice(0, Math.max(lastOperator, 0))
+      .filter(child => !PUNCTUATION.has(child.name) && child.name !== 'TypeDef' && child.name !== 'AssignOp');
+    const valueNodes = children.slice(lastOperator + 1).filter(child => !PUNCTUATION.has(child.name));
+    const operator = children[lastOperator];
+    const value = node.name === 'UpdateStatement' && operator && targets.length === 1
+      ? truncate(`${textOf(targets[0])} ${textOf(operator).replace('=', '')} ${code.slice(valueNodes[0]?.from ?? operator.to, node.to)}`)
+      : describeValue(valueNodes);
+    const assigned = targets.map(target => ({
+      name: textOf(target),
+      value: targets.length > 1 ? `from ${truncate(code.slice(valueNodes[0]?.from ?? node.from, node.to), 30)}` : value
+    }));
+    visitCallStatement(node, valueNodes, blockId, assigned);
+  };
+
+  const parameterState = (paramList: SyntaxNode | undefined): { names: string[]; assigned: AssignedVariable[] } => {
+    const names: string[] = [];
+    const assigned: AssignedVariable[] = [];
+    const children = paramList ? childrenOf(paramList) : [];
+    children.forEach((child, index) => {
+      const previous = children[index - 1]?.name;
+      // A name after '=' is a default value, not a parameter
+      if (child.name !== 'VariableName' || previous === 'AssignOp') return;
+      const name = `${previous === '*' || previous === '**' ? previous : ''}${textOf(child)}`;
+      names.push(name);
+      if (name === 'self' || name === 'cls') return;
+      let value = 'parameter';
+      for (let next = index + 1; next < children.length && children[next].name !== ','; next++) {
+        if (children[next].name === 'TypeDef') value = `${textOf(children[next]).replace(/^:\s*/, '')} parameter`;
+        if (children[next].name === 'AssignOp' && children[next + 1]) value = `${truncate(textOf(children[next + 1]), 30)} (default)`;
+      }
+      assigned.push({ name, value });
+    });
+    return { names, assigned };
+  };
+
+  const bodyOf = (node: SyntaxNode) => childrenOf(node).find(child => child.name === 'Body');
+
+  const visitBody = (body: SyntaxNode | undefined) => {
+    if (!body) return;
+    const blockId = nextBlockId++;
+    childrenOf(body).forEach(statement => visitStatement(statement, blockId));
+  };
+
+  const visitDefinition = (node: SyntaxNode, blockId: number, isMethod: boolean) => {
+    const children = childrenOf(node);
+    const body = bodyOf(node);
+    const name = children.find(child => child.name === 'VariableName');
+    const scopeName = name ? textOf(name) : 'anonymous';
+    const headerEnd = body ? lineOf(body.from) : endLine(node);
+    if (node.name === 'ClassDefinition') {
+      add(node, 'class', blockId, `Define class ${scopeName}`, { lineEnd: headerEnd, scopeName, scopeEnd: endLine(node) });
+      const memberBlock = nextBlockId++;
+      childrenOf(body ?? node).forEach(member => visitStatement(member, memberBlock, true));
+      return;
+    }
+    const isAsync = children.some(child => child.name === 'async');
+    const { names, assigned } = parameterState(children.find(child => child.name === 'ParamList'));
+    const label = `${isAsync ? 'async ' : ''}${isMethod ? 'method' : 'function'} ${scopeName}(${names.filter(param => param !== 'self').join(', ')})`;
+    add(node, 'function', blockId, `Define ${label}`, { lineEnd: headerEnd, assigned, scopeName, scopeEnd: endLine(node) });
+    visitBody(body);
+  };
+
+  // if/elif/else, for/while(/else), try/except/finally and with: one unit per clause header
+  const visitCompound = (node: SyntaxNode, blockId: number) => {
+    const children = childrenOf(node);
+    let clauseStart: SyntaxNode | null = null;
+    children.forEach((child, index) => {
+      if (CLAUSE_KEYWORDS.has(child.name)) {
+        clauseStart = child;
+        return;
+      }
+      if (child.name !== 'Body' || !clauseStart) return;
+      const keyword = clauseStart.name;
+      const header = code.slice(clauseStart.to, child.from).trim();
+      const lineStart = lineOf(clauseStart.from);
+      const extra = { lineStart, lineEnd: Math.max(lineStart, lineOf(child.from)) };
+      const between = children.slice(children.indexOf(clauseStart) + 1, index);
+      if (keyword === 'if' || keyword === 'elif') {
+        add(node, 'branch', blockId, `${keyword === 'if' ? 'Check' : 'Otherwise check'} ${truncate(header, 60)}`, extra);
+      } else if (keyword === 'for') {
+        const inIndex = between.findIndex(item => item.name === 'in');
+        const targets = between.slice(0, Math.max(inIndex, 0)).filter(item => !PUNCTUATION.has(item.name)).map(textOf);
+        const source = truncate(code.slice(between[inIndex + 1]?.from ?? child.from, child.from), 30);
+        add(node, 'loop', blockId, `Loop over ${source}`, {
+          ...extra,
+          assigned: targets.map(target => ({ name: target, value: `each item of ${source}` }))
+        });
+      } else if (keyword === 'while') {
+        add(node, 'loop', blockId, `Repeat while ${truncate(header, 50)}`, extra);
+      } else if (keyword === 'except') {
+        const asIndex = between.findIndex(item => item.name === 'as');
+        const errorName = asIndex >= 0 && between[asIndex + 1] ? textOf(between[asIndex + 1]) : undefined;
+        add(node, 'branch', blockId, header ? `Handle ${truncate(header.replace(/\s+as\s+\w+$/, ''), 40)}` : 'Handle errors', {
+          ...extra,
+          assigned: errorName ? [{ name: errorName, value: 'caught exception' }] : []
+        });
+      } else if (keyword === 'with') {
+        const call = classifiedCall(between);
+        add(node, call?.kind ?? 'statement', blockId, `Open ${truncate(header, 50)}`, extra);
+      }
+      // else, try and finally have no header worth a step; their bodies follow directly
+      visitBody(child);
+      clauseStart = null;
+    });
+  };
+
+  const visitStatement = (node: SyntaxNode, blockId: number, isMember = false) => {
+    switch (node.name) {
+      case 'DecoratedStatement': {
+        const definition = childrenOf(node).find(child => child.name === 'FunctionDefinition' || child.name === 'ClassDefinition');
+        if (definition) visitDefinition(definition, blockId, isMember);
+        return;
+      }
+      case 'FunctionDefinition':
+      case 'ClassDefinition':
+        visitDefinition(node, blockId, isMember);
+        return;
+      case 'AssignStatement':
+      case 'UpdateStatement':
+        visitAssignment(node, blockId);
+        return;
+      case 'ExpressionStatement': {
+        const expressions = childrenOf(node).filter(child => !PUNCTUATION.has(child.name));
+        // Docstrings describe the code rather than run
+        if (expressions.length === 1 && expressions[0].name === 'String') return;
+        visitCallStatement(node, expressions, blockId, []);
+        return;
+      }
+      case 'IfStatement':
+      case 'ForStatement':
+      case 'WhileStatement':
+      case 'TryStatement':
+      case 'WithStatement':
+        visitCompound(node, blockId);
+        return;
+      case 'ReturnStatement': {
+        const values = childrenOf(node).filter(child => child.name !== 'return' && !PUNCTUATION.has(child.name));
+        const call = classifiedCall(values);
+        add(node, call?.kind ?? 'return', blockId, values.length > 0 ? `Return ${describeValue(values)}` : 'Return');
+        return;
+      }
+      case 'RaiseStatement':
+        add(node, 'return', blockId, `Raise ${truncate(textOf(node).replace(/^raise\s*/, ''), 50) || 'the current exception'}`);
+        return;
+      case 'ImportStatement':
+      case 'PassStatement':
+      case 'Comment':
+      case ':':
+        return;
+      default:
+        if (node.type.isError) return;
+        add(node, 'statement', blockId, truncate(textOf(node), 60));
+    }
+  };
+
+  const topBlock = nextBlockId++;
+  childrenOf(tree.topNode).forEach(statement => visitStatement(statement, topBlock));
+  return units;
+};
@@ -0,0 +1,46 @@
+export type CodeUnitKind =
+  | 'class'
+  | 'function'
+  | 'loop'
+  | 'branch'
+  | 'llm-call'
+  | 'tool-call'
+  | 'log'
+  | 'return'
+  | 'statement';
+
+export interface AssignedVariable {
+  name: string;
+  // Short description of the value, e.g. '[]', 'LLM response', 'Result of tools.search'
+  value: string;
+}
+
+/**
+ * One statement (or the header of a compound statement) found by a language front end.
+ * Units are listed in source order; buildSteps groups them into visualizer steps.
+ */
+export interface CodeUnit {
+  kind: CodeUnitKind;
+  // 0-based, inclusive
+  lineStart: number;
+  lineEnd: number;
+  // Units in the same block can be merged; different blocks never are
+  blockId: number;
+  // What the step does, e.g. 'Define method execute(query, max_cycles)'
+  description: string;
+  assigned: AssignedVariable[];
+  // Text a log/print statement writes, when it can be read from the source
+  output?: string;
+  // Name and last line of the definition, for class and function units
+  scopeName?: string;
+  scopeEnd?: number;
+}
+
+/**
+ * A function, method or class and the lines it spans (0-based, inclusive)
+ */
+export interface CodeScope {
+  name: string;
+  lineStart: number;
+  lineEnd: number;
+}
@@ -0,0 +1,255 @@
+import type * as TS from 'typescript';
+import { callValue, classifyCallee, isLogCallee, logText, truncate } from './describe';
+import { AssignedVariable, CodeUnit, CodeUnitKind } from './types';
+
+type TypeScriptModule = typeof TS;
+
+/**
+ * Walk a TypeScript/JavaScript example with the compiler's parser (no type checking) and list
+ * its statements as units. The compiler is passed in so callers control when it is loaded.
+ */
+export const extractTypeScriptUnits = (ts: TypeScriptModule, code: string): CodeUnit[] => {
+  const sourceFile = ts.createSourceFile('pattern.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const units: CodeUnit[] = [];
+  let nextBlockId = 0;
+
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line;
+  const textOf = (node: TS.Node) => node.getText(sourceFile);
+  const startLine = (node: TS.Node) => lineOf(node.getStart(sourceFile));
+  const endLine = (node: TS.Node) => lineOf(node.getEnd());
+  // Compound statements are stepped through by their header; the body gets its own units
+  const headerEnd = (node: TS.Node, body: TS.Node | undefined) =>
+    body ? Math.max(startLine(node), lineOf(body.getStart(sourceFile))) : endLine(node);
+
+  const add = (node: TS.Node, kind: CodeUnitKind, blockId: number, description: string, extra: Partial<CodeUnit> = {}) =>
+    units.push({
+      kind,
+      lineStart: startLine(node),
+      lineEnd: endLine(node),
+      blockId,
+      description,
+      assigned: [],
+      ...extra
+    });
+
+  const isFunctionLike = (node: TS.Node | undefined): node is TS.ArrowFunction | TS.FunctionExpression =>
+    !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+
+  const unwrap = (node: TS.Expression): TS.Expression => {
+    let current = node;
+    while (ts.isAwaitExpression(current) || ts.isParenthesizedExpression(current) || ts.isAsExpression(current)) {
+      current = current.expression;
+    }
+    return current;
+  };
+
+  // Every call in an expression, outermost first, without looking inside nested functions
+  const callsIn = (node: TS.Node): TS.CallExpression[] => {
+    const calls: TS.CallExpression[] = [];
+    const visit = (child: TS.Node) => {
+      if (isFunctionLike(child) || ts.isFunctionDeclaration(child)) return;
+      if (ts.isCallExpression(child)) calls.push(child);
+      ts.forEachChild(child, visit);
+    };
+    visit(node);
+    return calls;
+  };
+
+  const calleeOf = (call: TS.CallExpression) => textOf(call.expression).replace(/\s+/g, '');
+
+  const classifiedCall = (node: TS.Node) => {
+    const calls = callsIn(node).map(call => ({ callee: calleeOf(call), kind: classifyCallee(calleeOf(call)) }));
+    return calls.find(call => call.kind === 'llm-call') ?? calls.find(call => call.kind === 'tool-call');
+  };
+
+  const describeValue = (expression: TS.Expression | undefined): string => {
+    if (!expression) return 'undefined';
+    const call = classifiedCall(expression);
+    if (call?.kind) return callValue(call.kind, call.callee);
+    const value = unwrap(expression);
+    if (isFunctionLike(value)) return 'function';
+    if (ts.isNewExpression(value)) return `${textOf(value.expression)} instance`;
+    const text = textOf(value);
+    if (text.length <= 40) return truncate(text);
+    if (ts.isArrayLiteralExpression(value)) return `[${value.elements.length} items]`;
+    if (ts.isObjectLiteralExpression(value)) {
+      const keys = value.properties.map(property => (property.name ? textOf(property.name) : '…'));
+      return `{ ${keys.slice(0, 4).join(', ')}${keys.length > 4 ? ', …' : ''} }`;
+    }
+    return truncate(text);
+  };
+
+  const bindingNames = (name: TS.BindingName): string[] => {
+    if (ts.isIdentifier(name)) return [name.text];
+    return name.elements.flatMap(element => (ts.isOmittedExpression(element) ? [] : bindingNames(element.name)));
+  };
+
+  const parameterList = (parameters: TS.NodeArray<TS.ParameterDeclaration>) =>
+    parameters.map(parameter => textOf(parameter.name)).join(', ');
+
+  const parameterState = (parameters: TS.NodeArray<TS.ParameterDeclaration>): AssignedVariable[] =>
+    parameters.flatMap(parameter =>
+      bindingNames(parameter.name).map(name => ({
+        name,
+        value: parameter.initializer
+          ? `${truncate(textOf(parameter.initializer), 30)} (default)`
+          : parameter.type ? `${textOf(parameter.type)} parameter` : 'parameter'
+      }))
+    );
+
+  const visitFunction = (
+    node: TS.Node,
+    name: string,
+    fn: TS.SignatureDeclarationBase & { body?: TS.ConciseBody },
+    blockId: number,
+    kind: 'function' | 'method'
+  ) => {
+    const isAsync = ts.canHaveModifiers(fn) && ts.getModifiers(fn)?.some(modifier => modifier.kind === ts.SyntaxKind.AsyncKeyword);
+    const label = `${isAsync ? 'async ' : ''}${kind} ${name}(${parameterList(fn.parameters)})`;
+    add(node, 'function', blockId, `Define ${label}`, {
+      lineEnd: headerEnd(node, fn.body),
+      assigned: parameterState(fn.parameters),
+      scopeName: name,
+      scopeEnd: endLine(node)
+    });
+    if (!fn.body) return;
+    if (ts.isBlock(fn.body)) visitStatements(fn.body.statements, nextBlockId++);
+    else visitExpressionBody(fn.body, nextBlockId++);
+  };
+
+  // Arrow functions with an expression body are one step
+  const visitExpressionBody = (body: TS.Expression, blockId: number) => {
+    const call = classifiedCall(body);
+    add(body, call?.kind ?? 'return', blockId, `Return ${truncate(textOf(body), 50)}`);
+  };
+
+  const visitCallStatement = (node: TS.Node, expression: TS.Expression, blockId: number, assigned: AssignedVariable[]) => {
+    const call = classifiedCall(expression);
+    const target = assigned.map(variable => variable.name).join(', ');
+    if (call?.kind === 'llm-call') {
+      add(node, 'llm-call', blockId, target ? `Call the LLM to produce ${target}` : 'Call the LLM', { assigned });
+      return;
+    }
+    if (call?.kind === 'tool-call') {
+      add(node, 'tool-call', blockId, `Call ${truncate(call.callee, 30)}${target ? ` and store the result in ${target}` : ''}`, { assigned });
+      return;
+    }
+    const outer = unwrap(expression);
+    if (ts.isCallExpression(outer) && isLogCallee(calleeOf(outer))) {
+      const output = outer.arguments[0] ? logText(textOf(outer.arguments[0])) : undefined;
+      add(node, 'log', blockId, output ? `Log "${truncate(output, 50)}"` : 'Log progress', { output });
+      return;
+    }
+    add(node, 'statement', blockId, truncate(textOf(node), 60), { assigned });
+  };
+
+  const visitVariableStatement = (node: TS.VariableStatement, blockId: number) => {
+    node.declarationList.declarations.forEach(declaration => {
+      const initializer = declaration.initializer ? unwrap(declaration.initializer) : undefined;
+      if (isFunctionLike(initializer) && ts.isIdentifier(declaration.name)) {
+        visitFunction(node.declarationList.declarations.length === 1 ? node : declaration, declaration.name.text, initializer, blockId, 'function');
+        return;
+      }
+      const value = describeValue(declaration.initializer);
+      const assigned = bindingNames(declaration.name).map(name => ({
+        name,
+        value: ts.isIdentifier(declaration.name) ? value : `from ${truncate(textOf(declaration.initializer ?? declaration.name), 30)}`
+      }));
+      const target = node.declarationList.declarations.length === 1 ? node : declaration;
+      if (declaration.initializer) visitCallStatement(target, declaration.initializer, blockId, assigned);
+      else add(target, 'statement', blockId, `Declare ${assigned.map(variable => variable.name).join(', ')}`, { assigned });
+    });
+  };
+
+  const visitExpressionStatement = (node: TS.ExpressionStatement, blockId: number) => {
+    const expression = node.expression;
+    if (ts.isBinaryExpression(expression) && expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      const assigned = [{ name: textOf(expression.left), value: describeValue(expression.right) }];
+      visitCallStatement(node, expression.right, blockId, assigned);
+      return;
+    }
+    visitCallStatement(node, expression, blockId, []);
+  };
+
+  const visitLoop = (node: TS.IterationStatement, header: string, blockId: number, assigned: AssignedVariable[] = []) => {
+    add(node, 'loop', blockId, header, { lineEnd: headerEnd(node, node.statement), assigned });
+    visitBody(node.statement);
+  };
+
+  const visitIf = (node: TS.IfStatement, blockId: number, prefix = 'Check') => {
+    add(node, 'branch', blockId, `${prefix} ${truncate(textOf(node.expression), 60)}`, { lineEnd: headerEnd(node, node.thenStatement) });
+    visitBody(node.thenStatement);
+    if (!node.elseStatement) return;
+    if (ts.isIfStatement(node.elseStatement)) visitIf(node.elseStatement, blockId, 'Otherwise check');
+    else visitBody(node.elseStatement);
+  };
+
+  const visitBody = (statement: TS.Statement) => {
+    if (ts.isBlock(statement)) visitStatements(statement.statements, nextBlockId++);
+    else visitStatement(statement, nextBlockId++);
+  };
+
+  const visitStatement = (node: TS.Statement, blockId: number) => {
+    if (ts.isFunctionDeclaration(node)) {
+      visitFunction(node, node.name?.text ?? 'anonymous', node, blockId, 'function');
+    } else if (ts.isClassDeclaration(node)) {
+      const className = node.name?.text ?? 'anonymous';
+      add(node, 'class', blockId, `Define class ${className}`, { lineEnd: startLine(node), scopeName: className, scopeEnd: endLine(node) });
+      const memberBlock = nextBlockId++;
+      node.members.forEach(member => {
+        if ((ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member)) && member.body) {
+          visitFunction(member, ts.isConstructorDeclaration(member) ? 'constructor' : textOf(member.name), member, memberBlock, 'method');
+        } else if (ts.isPropertyDeclaration(member)) {
+          add(member, 'statement', memberBlock, `Declare ${textOf(member.name)}`, {
+            assigned: [{ name: `this.${textOf(member.name)}`, value: describeValue(member.initializer) }]
+          });
+        }
+      });
+    } else if (ts.isVariableStatement(node)) {
+      visitVariableStatement(node, blockId);
+    } else if (ts.isExpressionStatement(node)) {
+      visitExpressionStatement(node, blockId);
+    } else if (ts.isIfStatement(node)) {
+      visitIf(node, blockId);
+    } else if (ts.isForOfStatement(node) || ts.isForInStatement(node)) {
+      const names = ts.isVariableDeclarationList(node.initializer)
+        ? node.initializer.declarations.flatMap(declaration => bindingNames(declaration.name))
+        : [textOf(node.initializer)];
+      const source = truncate(textOf(node.expression), 30);
+      visitLoop(node, `Loop over ${source}`, blockId, names.map(name => ({ name, value: `each item of ${source}` })));
+    } else if (ts.isForStatement(node)) {
+      visitLoop(node, `Loop while ${truncate(node.condition ? textOf(node.condition) : 'true', 50)}`, blockId);
+    } else if (ts.isWhileStatement(node) || ts.isDoStatement(node)) {
+      visitLoop(node, `Repeat while ${truncate(textOf(node.expression), 50)}`, blockId);
+    } else if (ts.isTryStatement(node)) {
+      visitStatements(node.tryBlock.statements, blockId);
+      if (node.catchClause) {
+        const errorName = node.catchClause.variableDeclaration ? textOf(node.catchClause.variableDeclaration.name) : undefined;
+        add(node.catchClause, 'branch', blockId, 'Handle errors', {
+          lineEnd: headerEnd(node.catchClause, node.catchClause.block),
+          assigned: errorName ? [{ name: errorName, value: 'caught error' }] : []
+        });
+        visitStatements(node.catchClause.block.statements, nextBlockId++);
+      }
+      if (node.finallyBlock) visitStatements(node.finallyBlock.statements, nextBlockId++);
+    } else if (ts.isSwitchStatement(node)) {
+      add(node, 'branch', blockId, `Switch on ${truncate(textOf(node.expression), 50)}`, { lineEnd: headerEnd(node, node.caseBlock) });
+      node.caseBlock.clauses.forEach(clause => visitStatements(clause.statements, nextBlockId++));
+    } else if (ts.isReturnStatement(node)) {
+      const call = node.expression ? classifiedCall(node.expression) : undefined;
+      add(node, call?.kind ?? 'return', blockId, node.expression ? `Return ${describeValue(node.expression)}` : 'Return');
+    } else if (ts.isThrowStatement(node)) {
+      add(node, 'return', blockId, `Throw ${truncate(textOf(node.expression), 50)}`);
+    } else if (ts.isBlock(node)) {
+      visitStatements(node.statements, blockId);
+    } else if (!ts.isEmptyStatement(node) && !ts.isImportDeclaration(node)) {
+      add(node, 'statement', blockId, truncate(textOf(node), 60));
+    }
+  };
+
+  const visitStatements = (statements: TS.NodeArray<TS.Statement>, blockId: number) =>
+    statements.forEach(statement => visitStatement(statement, blockId));
+
+  visitStatements(sourceFile.statements, nextBlockId++);
+  return units;
+};
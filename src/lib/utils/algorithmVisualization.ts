@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import type { AlgorithmStep } from '@/components/visualization/AlgorithmVisualizer';
+import type { PatternId } from '@/lib/data/patternRegistry';
 
 // Algorithm visualization data type
 export interface AlgorithmVisualizationData {
@@ -16,6 +17,12 @@ interface AlgorithmVisualizationCache {
 }
 
 const visualizationCache: AlgorithmVisualizationCache = {};
+
+// Algorithm walkthroughs available for each pattern
+export const patternAlgorithmIds: Partial<Record<PatternId, string>> = {
+  'react-agent': 'react-pattern',
+  'codeact-agent': 'codeact-pattern'
+};
 const CACHE_TTL = 60 * 1000; // 1 minute cache lifetime
 
 /**
@@ -2,13 +2,8 @@
  * Debug examples for step-by-step code execution
  * These provide detailed debugging information for interactive visualization
  */
-
-interface DebuggerStep {
-  lineNumbers: number[];
-  variables: Record<string, any>;
-  output?: string;
-  explanation: string;
-}
+import { lookupByPatternId } from '@/lib/data/patternRegistry';
+import type { DebuggerStep } from '@/components/code-playbook/CodeDebugger';
 
 interface DebugExample {
   code: string;
@@ -78,6 +73,7 @@ const reactAgent = async (query: string) => {
             'function': 'reactAgent',
             'parameters': 'query: string'
           },
+          callStack: [],
           explanation: 'Define the ReAct agent function that takes a user query as input.'
         },
         {
@@ -87,6 +83,7 @@ const reactAgent = async (query: string) => {
             'contextHistory': '["Query: Calculate distance between two points"]'
           },
           output: 'Initializing ReAct agent with query...',
+          callStack: ['reactAgent'],
           explanation: 'Initialize the context array and add the user query to track the interaction history.'
         },
         {
@@ -95,6 +92,7 @@ const reactAgent = async (query: string) => {
             'thinkingPrompt': 'Task: Calculate distance between two points\nThink step by step about how to solve this.'
           },
           output: 'Generating reasoning step...',
+          callStack: ['reactAgent'],
           explanation: 'Create a prompt to generate reasoning about how to solve the problem.'
         },
         {
@@ -103,6 +101,7 @@ const reactAgent = async (query: string) => {
             'thoughts': 'To calculate the distance between two points, I need to use the Pythagorean theorem. If the points are (x1,y1) and (x2,y2), then the distance is sqrt((x2-x1)^2 + (y2-y1)^2).'
           },
           output: 'LLM response: Generated reasoning about distance calculation',
+          callStack: ['reactAgent'],
           explanation: 'The language model generates reasoning about how to approach the problem using the Pythagorean theorem.'
         },
         {
@@ -110,6 +109,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'contextHistory': '["Query: Calculate distance between two points", "Reasoning: To calculate the distance between two points..."]'
           },
+          callStack: ['reactAgent'],
           explanation: 'Add the reasoning to the context history to maintain the agent\'s thought process.'
         },
         {
@@ -118,6 +118,7 @@ const reactAgent = async (query: string) => {
             'action': '"calculate_distance"',
             'actionInput': '{x1: 0, y1: 0, x2: 3, y2: 4}'
           },
+          callStack: ['reactAgent'],
           explanation: 'Based on the reasoning, determine the appropriate action to take and its inputs.'
         },
         {
@@ -125,6 +126,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'contextHistory': '["Query: Calculate distance...", "Reasoning: To calculate...", "Action: calculate_distance({"x1":0,"y1":0,"x2":3,"y2":4})"]'
           },
+          callStack: ['reactAgent'],
           explanation: 'Add the chosen action and its inputs to the context history.'
         },
         {
@@ -132,6 +134,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'executeAction': 'function(action, input)'
           },
+          callStack: ['reactAgent'],
           explanation: 'Define a function to execute the chosen action based on its type and inputs.'
         },
         {
@@ -140,6 +143,7 @@ const reactAgent = async (query: string) => {
             'observation': '5'
           },
           output: 'Executing action: calculate_distance...\nResult: 5',
+          callStack: ['reactAgent', 'executeAction'],
           explanation: 'Execute the action to calculate the distance between points (0,0) and (3,4), getting result 5.'
         },
         {
@@ -147,6 +151,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'contextHistory': '[...previous items..., "Observation: 5"]'
           },
+          callStack: ['reactAgent'],
           explanation: 'Add the observation (result of the action) to the context history.'
         },
         {
@@ -154,6 +159,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'responsePrompt': 'Task: Calculate distance between two points\nContext: Query: Calculate...\nReasoning: To calculate...\nAction: calculate_distance...\nObservation: 5\nProvide a final answer based on the observation.'
           },
+          callStack: ['reactAgent'],
           explanation: 'Create a prompt for generating the final response based on all the gathered context.'
         },
         {
@@ -162,6 +168,7 @@ const reactAgent = async (query: string) => {
             'finalResponse': 'The distance between the points (0,0) and (3,4) is 5 units.'
           },
           output: 'LLM response: Generated final answer',
+          callStack: ['reactAgent'],
           explanation: 'The language model generates a final response using all the context collected throughout the ReAct process.'
         },
         {
@@ -170,6 +177,7 @@ const reactAgent = async (query: string) => {
             'return value': 'The distance between the points (0,0) and (3,4) is 5 units.'
           },
           output: 'ReAct agent execution complete',
+          callStack: ['reactAgent'],
           explanation: 'Return the final response to the user, completing the ReAct pattern execution.'
         }
       ]
@@ -229,6 +237,7 @@ const reactAgent = async (query: string) => {
             'function': 'react_agent',
             'parameters': 'query, max_steps=3'
           },
+          callStack: [],
           explanation: 'Define the ReAct agent function with query input and optional max_steps parameter.'
         },
         {
@@ -239,6 +248,7 @@ const reactAgent = async (query: string) => {
             'context': '["Query: Calculate distance between two points"]'
           },
           output: 'Initializing ReAct agent...',
+          callStack: ['react_agent'],
           explanation: 'Initialize the context list and add the user query to it.'
         },
         {
@@ -246,6 +256,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'thinking_prompt': 'Task: Calculate distance between two points\nThink step by step about how to solve this.'
           },
+          callStack: ['react_agent'],
           explanation: 'Create a prompt for the LLM to generate reasoning about the problem.'
         },
         {
@@ -254,6 +265,7 @@ const reactAgent = async (query: string) => {
             'thoughts': 'To calculate distance between two points (x1,y1) and (x2,y2), I need to use the distance formula derived from the Pythagorean theorem: sqrt((x2-x1)^2 + (y2-y1)^2)'
           },
           output: 'LLM thinking about how to solve the problem...',
+          callStack: ['react_agent'],
           explanation: 'The language model provides reasoning about using the Pythagorean theorem to calculate distance.'
         },
         {
@@ -261,6 +273,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'context': '["Query: Calculate distance between two points", "Reasoning: To calculate distance..."]'
           },
+          callStack: ['react_agent'],
           explanation: 'Add the reasoning to the context history.'
         },
         {
@@ -269,6 +282,7 @@ const reactAgent = async (query: string) => {
             'action': '"calculate_distance"',
             'action_input': '{"x1": 0, "y1": 0, "x2": 3, "y2": 4}'
           },
+          callStack: ['react_agent'],
           explanation: 'Based on the reasoning, determine the appropriate action and its inputs.'
         },
         {
@@ -276,6 +290,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'context': '["Query: Calculate distance...", "Reasoning: To calculate...", "Action: calculate_distance(...)"]'
           },
+          callStack: ['react_agent'],
           explanation: 'Add the chosen action to the context history.'
         },
         {
@@ -283,6 +298,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'execute_action': 'function(action_name, params)'
           },
+          callStack: ['react_agent'],
           explanation: 'Define a helper function to execute the chosen action.'
         },
         {
@@ -291,6 +307,7 @@ const reactAgent = async (query: string) => {
             'observation': '5.0'
           },
           output: 'Calculating distance: sqrt((3-0)^2 + (4-0)^2) = 5.0',
+          callStack: ['react_agent', 'execute_action'],
           explanation: 'Execute the action to calculate the distance between points (0,0) and (3,4).'
         },
         {
@@ -298,6 +315,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'context': '[...previous items..., "Observation: 5.0"]'
           },
+          callStack: ['react_agent'],
           explanation: 'Add the observation (result of the action) to the context.'
         },
         {
@@ -305,6 +323,7 @@ const reactAgent = async (query: string) => {
           variables: {
             'response_prompt': 'Task: Calculate distance between two points\nContext:\n["Query: ...", "Reasoning: ...", "Action: ...", "Observation: 5.0"]\nProvide a final answer based on the observation.'
           },
+          callStack: ['react_agent'],
           explanation: 'Create a prompt for generating the final response based on the context.'
         },
         {
@@ -313,6 +332,7 @@ const reactAgent = async (query: string) => {
             'final_response': 'The distance between the points (0,0) and (3,4) is 5.0 units.'
           },
           output: 'Generating final response...',
+          callStack: ['react_agent'],
           explanation: 'The language model generates a final answer using the collected context.'
         },
         {
@@ -321,6 +341,7 @@ const reactAgent = async (query: string) => {
             'return value': 'The distance between the points (0,0) and (3,4) is 5.0 units.'
           },
           output: 'ReAct agent execution complete',
+          callStack: ['react_agent'],
           explanation: 'Return the final response to the user.'
         }
       ]
@@ -402,6 +423,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
             'function': 'codeActAgent',
             'parameters': 'query: string, maxIter = 3'
           },
+          callStack: [],
           explanation: 'Define the CodeAct agent function with query input and maximum iterations parameter.'
         },
         {
@@ -409,6 +431,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
           variables: {
             'executeCode': 'function(code: string): Promise<string>',
           },
+          callStack: ['codeActAgent'],
           explanation: 'Define the code execution environment that will run the generated code safely.'
         },
         {
@@ -421,6 +444,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
             'context': '["User query: Write a function to calculate factorial"]'
           },
           output: 'Initializing CodeAct agent...',
+          callStack: ['codeActAgent'],
           explanation: 'Initialize variables to track the state of the execution process.'
         },
         {
@@ -428,6 +452,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
           variables: {
             'iterations': '1'
           },
+          callStack: ['codeActAgent'],
           explanation: 'Start the main iteration loop and increment the iteration counter.'
         },
         {
@@ -436,6 +461,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
             'codePrompt': 'You are a coding assistant. Write code to solve:\nWrite a function to calculate factorial\n\nWrite a complete solution as code.'
           },
           output: 'Generating code solution...',
+          callStack: ['codeActAgent'],
           explanation: 'Create a prompt for the LLM to generate code that solves the problem.'
         },
         {
@@ -444,6 +470,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
             'response': '```javascript\nfunction factorial(n) {\n  if (n === 0 || n === 1) {\n    return 1;\n  } else {\n    return n * factorial(n - 1);\n  }\n}\n```'
           },
           output: 'LLM generated code solution',
+          callStack: ['codeActAgent'],
           explanation: 'The language model generates code for a factorial function using recursion.'
         },
         {
@@ -451,6 +478,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
           variables: {
             'context': '["User query: Write a function to calculate factorial", "Iteration 1: ```javascript\nfunction factorial(n) {...}```"]'
           },
+          callStack: ['codeActAgent'],
           explanation: 'Add the LLM\'s response to the context history.'
         },
         {
@@ -458,6 +486,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
           variables: {
             'codeMatch': 'Array(2) ["```javascript\nfunction factorial(n) {...}```", "function factorial(n) {...}"]'
           },
+          callStack: ['codeActAgent'],
           explanation: 'Extract the actual code from the LLM\'s response by matching the code block.'
         },
         {
@@ -465,6 +494,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
           variables: {
             'code': 'function factorial(n) {\n  if (n === 0 || n === 1) {\n    return 1;\n  } else {\n    return n * factorial(n - 1);\n  }\n}'
           },
+          callStack: ['codeActAgent'],
           explanation: 'Get the clean code without the markdown code block delimiters.'
         },
         {
@@ -473,6 +503,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
             'executionResult': 'Function defined successfully. Example: factorial(5) = 120'
           },
           output: 'Executing code:\nfunction factorial(n) {\n  if (n === 0 || n === 1) {\n    return 1;\n  } else {\n    return n * factorial(n - 1);\n  }\n}',
+          callStack: ['codeActAgent', 'executeCode'],
           explanation: 'Execute the generated code in the simulated environment to test it.'
         },
         {
@@ -480,6 +511,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
           variables: {
             'context': '[...previous items..., "Execution result: Function defined successfully. Example: factorial(5) = 120"]'
           },
+          callStack: ['codeActAgent'],
           explanation: 'Add the execution result to the context history.'
         },
         {
@@ -488,6 +520,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
             'finalCode': 'function factorial(n) {\n  if (n === 0 || n === 1) {\n    return 1;\n  } else {\n    return n * factorial(n - 1);\n  }\n}',
             'isDone': 'true'
           },
+          callStack: ['codeActAgent'],
           explanation: 'Since the execution was successful, save the code and mark the process as done.'
         },
         {
@@ -496,6 +529,7 @@ const codeActAgent = async (query: string, maxIter = 3) => {
             'return value': '{iterations: 1, successful: true, code: "function factorial(n) {...}", executionHistory: [...]}',
           },
           output: 'CodeAct agent execution complete',
+          callStack: ['codeActAgent'],
           explanation: 'Return the final result with the generated code and execution history.'
         }
       ]
@@ -507,5 +541,5 @@ const codeActAgent = async (query: string, maxIter = 3) => {
  * Get debug steps for a specific pattern and language
  */
 export function getDebugExample(patternId: string, language: 'typescript' | 'python') {
-  return debugExamples[patternId]?.[language];
+  return lookupByPatternId(debugExamples, patternId)?.[language];
 }
\ No newline at end of file
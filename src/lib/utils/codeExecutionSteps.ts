@@ -1,4 +1,5 @@
 import { CodeExecutionStep } from '@/components/code-playbook/CodeStepVisualizer';
+import { lookupByPatternId } from '@/lib/data/patternRegistry';
 
 interface StepData {
   [patternId: string]: {
@@ -584,7 +585,7 @@ export const codeExecutionSteps: StepData = {
  * Gets the code execution steps for a specific pattern and language
  */
 export function getCodeExecutionSteps(patternId: string, language: 'python' | 'typescript'): CodeExecutionStep[] | undefined {
-  const patternSteps = codeExecutionSteps[patternId];
+  const patternSteps = lookupByPatternId(codeExecutionSteps, patternId);
   if (!patternSteps) return undefined;
   return patternSteps[language];
 }
\ No newline at end of file
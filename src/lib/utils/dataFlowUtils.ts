@@ -1,6 +1,9 @@
 /**
  * Utility functions for managing data flows in visualizations
  */
+import { simulatePattern } from '../simulation/engine';
+import { playSimulation, groupSimulationSteps } from '../simulation/player';
+import { SimulationEvent, SimulationGraph, SimulationScenario } from '../simulation/types';
 
 // Export type for data flow message types
 export type DataFlowType = 
@@ -181,78 +184,71 @@ export const truncateFlowContent = (content: string, maxLength: number = 30): st
   return content.substring(0, maxLength) + '...';
 };
 
+export interface PatternFlowOptions {
+  // User query carried by the messages leaving the entry nodes
+  query?: string;
+  scenario?: SimulationScenario;
+  // Playback speed; 2 plays twice as fast
+  speedFactor?: number;
+  // Step mode: each instant of the run is handed to onAddStep instead of being timed
+  stepMode?: boolean;
+  onAddStep?: (stepFn: () => void) => void;
+  onComplete?: () => void;
+}
+
 /**
- * Simulates a pattern flow with specific messages
+ * Simulate a pattern with the simulation engine and report the run as node
+ * statuses, edge animations and data flows
  */
 export const simulatePatternFlow = (
-  nodes: any[],
-  edges: any[],
+  nodes: SimulationGraph['nodes'],
+  edges: SimulationGraph['edges'],
   onNodeStatus: (nodeId: string, status: string | null) => void,
   onEdgeStatus: (edgeId: string, animated: boolean) => void,
   onAddFlow: (flow: BaseDataFlow) => void,
-  userQuery?: string,
-  onAddStep?: (stepFn: () => void) => (NodeJS.Timeout | null),
-  speedFactor: number = 1
+  { query, scenario, speedFactor = 1, stepMode = false, onAddStep, onComplete }: PatternFlowOptions = {}
 ) => {
-  const timeouts: (NodeJS.Timeout | null)[] = [];
-  
-  // Function to create a flow
-  const createFlow = (
-    source: string,
-    target: string,
-    content: string,
-    type: DataFlowType,
-    delay: number,
-    label?: string
-  ) => {
-    const id = `flow-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-    const edgeId = `${source}-${target}`;
-    
-    // Get source node ready
-    const sourceTimeout = setTimeout(() => {
-      onNodeStatus(source, 'active');
-    }, delay);
-    timeouts.push(sourceTimeout);
-    
-    // Create flow after a short delay
-    const flowTimeout = setTimeout(() => {
-      const flow: BaseDataFlow = {
-        id,
-        edgeId,
-        source,
-        target,
-        content,
-        timestamp: Date.now(),
-        type,
-        progress: 0,
-        label: label || content
-      };
-      
-      onAddFlow(flow);
-      
-      // Activate target node after flow completes
-      const targetTimeout = setTimeout(() => {
-        onNodeStatus(target, 'active');
-      }, 2000 / speedFactor);
-      timeouts.push(targetTimeout);
-      
-    }, delay + 200);
-    timeouts.push(flowTimeout);
-  };
-  
-  // Reset all flows and timeouts
-  const cleanup = () => {
-    timeouts.forEach(timeout => {
-      if (timeout) clearTimeout(timeout);
-    });
-  };
-  
-  // Return flow control functions
-  return {
-    createDataFlow: createFlow,
-    resetDataFlow: cleanup,
-    cleanup
+  const events = simulatePattern({ nodes, edges }, { ...scenario, query: query ?? scenario?.query });
+
+  const apply = (event: SimulationEvent) => {
+    switch (event.kind) {
+      case 'node_enter':
+        onNodeStatus(event.nodeId, 'processing');
+        break;
+      case 'node_exit':
+        onNodeStatus(event.nodeId, 'success');
+        break;
+      case 'message_send':
+        onEdgeStatus(event.edgeId, true);
+        onAddFlow({
+          id: event.messageId,
+          edgeId: event.edgeId,
+          source: event.source,
+          target: event.target,
+          content: event.content,
+          timestamp: Date.now(),
+          type: event.messageType,
+          progress: 0,
+          label: event.content
+        });
+        break;
+      case 'message_deliver':
+        onEdgeStatus(event.edgeId, false);
+        break;
+      case 'simulation_complete':
+        onComplete?.();
+        break;
+    }
   };
+
+  const duration = events[events.length - 1].time;
+  if (stepMode && onAddStep) {
+    groupSimulationSteps(events).forEach(step => onAddStep(() => step.forEach(apply)));
+    return { duration, cleanup: () => {} };
+  }
+
+  const { cleanup } = playSimulation(events, apply, { speed: speedFactor });
+  return { duration, cleanup };
 };
 
 // Helper to create a flow
@@ -0,0 +1,141 @@
+import type { DebuggerStep } from '@/components/code-playbook/CodeDebugger';
+import type { CodeScope } from '@/lib/stepExtraction';
+
+/**
+ * Debugger state is derived from the step list rather than accumulated as the user steps,
+ * so stepping back (or jumping to any step) rewinds the console and variables exactly.
+ */
+
+export interface WatchResult {
+  value?: string;
+  error?: string;
+}
+
+// Each step lists only the variables it changed; later steps override earlier ones
+export const variablesAt = (steps: DebuggerStep[], index: number): Record<string, any> =>
+  steps.slice(0, index + 1).reduce((state, step) => ({ ...state, ...step.variables }), {} as Record<string, any>);
+
+export const consoleAt = (steps: DebuggerStep[], index: number): string[] =>
+  steps.slice(0, index + 1).map(step => step.output).filter((output): output is string => Boolean(output));
+
+export const hitsBreakpoint = (step: DebuggerStep | undefined, breakpoints: Set<number>) =>
+  !!step && step.lineNumbers.some(line => breakpoints.has(line));
+
+/**
+ * Index of the next step after `fromIndex` that stops on a breakpoint, or the last step if none does
+ */
+export const nextBreakpointIndex = (steps: DebuggerStep[], fromIndex: number, breakpoints: Set<number>): number => {
+  for (let index = fromIndex + 1; index < steps.length; index++) {
+    if (hitsBreakpoint(steps[index], breakpoints)) return index;
+  }
+  return steps.length - 1;
+};
+
+/**
+ * Index of the closest earlier step that stops on a breakpoint, or the first step if none does
+ */
+export const previousBreakpointIndex = (steps: DebuggerStep[], fromIndex: number, breakpoints: Set<number>): number => {
+  for (let index = fromIndex - 1; index >= 0; index--) {
+    if (hitsBreakpoint(steps[index], breakpoints)) return index;
+  }
+  return 0;
+};
+
+// Example values are mostly display strings; JSON-looking ones are parsed so watches can index into them
+const parseValue = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  if (!/^[[{"]|^-?\d/.test(trimmed)) return value;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+};
+
+export const formatWatchValue = (value: unknown): string => {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'function') return 'function';
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const PATH_SEGMENT = /^(?:\.([A-Za-z_$][\w$]*)|\[\s*(-?\d+|"[^"]*"|'[^']*')\s*\])/;
+
+/**
+ * Evaluate a watch expression such as `contextHistory.length`, `actionInput.x2` or
+ * `context[0]` against the variables at the current step. Only variable names, property
+ * access, indexes and len(x) are supported, so nothing in the expression is executed.
+ */
+export const evaluateWatch = (expression: string, variables: Record<string, any>): WatchResult => {
+  const trimmed = expression.trim();
+  if (!trimmed) return { error: 'Empty expression' };
+  if (trimmed in variables) return { value: formatWatchValue(variables[trimmed]) };
+
+  const lenMatch = trimmed.match(/^len\((.+)\)$/);
+  const source = lenMatch ? lenMatch[1].trim() : trimmed;
+  const root = source.match(/^[A-Za-z_$][\w$]*/);
+  if (!root) return { error: 'Expected a variable name' };
+  if (!(root[0] in variables)) return { error: `${root[0]} is not set at this step` };
+
+  let current: unknown = parseValue(variables[root[0]]);
+  let rest = source.slice(root[0].length);
+  while (rest.length > 0) {
+    const segment = rest.match(PATH_SEGMENT);
+    if (!segment) return { error: `Can't evaluate "${rest}"` };
+    const key = segment[1] ?? segment[2].replace(/^['"]|['"]$/g, '');
+    if (current === null || current === undefined) return { error: `Can't read ${key} of ${current}` };
+    const container = current as any;
+    if (key === 'length' && (typeof container === 'string' || Array.isArray(container))) {
+      current = container.length;
+    } else {
+      const index = Number(key);
+      current = Array.isArray(container) && Number.isInteger(index) && index < 0
+        ? container[container.length + index]
+        : parseValue(container[key]);
+    }
+    rest = rest.slice(segment[0].length);
+  }
+
+  if (lenMatch) {
+    if (typeof current === 'string' || Array.isArray(current)) return { value: String(current.length) };
+    if (current && typeof current === 'object') return { value: String(Object.keys(current).length) };
+    return { error: `${source} has no length` };
+  }
+  return { value: formatWatchValue(current) };
+};
+
+/**
+ * The call stack at a step, outermost frame first: the step's own callStack when the example
+ * records one, otherwise inferred from the code. A function is a frame when the step runs inside
+ * its body, not when the step only defines it, and a function called on the step's lines is
+ * pushed on top.
+ */
+export const callStackAt = (
+  step: DebuggerStep | undefined,
+  scopes: CodeScope[],
+  code: string
+): { frames: string[]; inferred: boolean } => {
+  if (!step) return { frames: [], inferred: false };
+  if (step.callStack) return { frames: step.callStack, inferred: false };
+  const firstLine = Math.min(...step.lineNumbers);
+  const frames = scopes
+    .filter(scope => firstLine > scope.lineStart && firstLine <= scope.lineEnd)
+    .sort((a, b) => a.lineStart - b.lineStart)
+    .map(scope => scope.name);
+
+  // Lines of a definition made in this step don't run, so calls on them don't count
+  const defined = scopes.filter(scope => step.lineNumbers.includes(scope.lineStart));
+  const sourceLines = code.split('\n');
+  const runLines = step.lineNumbers
+    .filter(line => !defined.some(scope => line >= scope.lineStart && line <= scope.lineEnd))
+    .map(line => sourceLines[line] ?? '');
+  const called = scopes.filter(scope =>
+    runLines.some(line => new RegExp(`\\b${scope.name.replace(/[$]/g, '\\$&')}\\s*\\(`).test(line))
+  );
+  return { frames: [...frames, ...called.map(scope => scope.name)], inferred: true };
+};
@@ -1,5 +1,4 @@
-import { Node, Edge } from 'reactflow';
-import { PatternData } from '../data/patterns';
+import { simulatePattern, SimulationEvent, SimulationGraph, SimulationScenario } from '../simulation';
 
 // The speed at which flow animations happen
 export type FlowSpeed = 'slow' | 'normal' | 'fast';
@@ -143,25 +142,38 @@ export const truncateFlowContent = (content: string, maxLength: number = 30): st
 };
 
 /**
- * Generate sample flow data for a pattern
+ * Convert a simulation event stream into flow messages
  */
-export const generateSampleFlowData = (pattern: any): FlowMessage[] => {
-  const messages: FlowMessage[] = [];
-  
-  // Simple flow generation based on edges
-  pattern.edges.forEach((edge: any, index: number) => {
-    messages.push({
-      id: `sample-${index}`,
-      source: edge.source,
-      target: edge.target,
-      content: `Sample ${edge.label || 'message'} ${index + 1}`,
-      startTime: (index + 1) * 1000,
-      delivered: true,
-      type: index % 3 === 0 ? 'query' : index % 3 === 1 ? 'response' : 'tool_call'
-    });
+export const eventsToFlowMessages = (events: SimulationEvent[]): FlowMessage[] => {
+  const messages = new Map<string, FlowMessage>();
+
+  events.forEach(event => {
+    if (event.kind === 'message_send') {
+      messages.set(event.messageId, {
+        id: event.messageId,
+        source: event.source,
+        target: event.target,
+        content: event.content,
+        startTime: event.time,
+        delivered: false,
+        type: event.messageType
+      });
+    } else if (event.kind === 'message_deliver') {
+      const message = messages.get(event.messageId);
+      if (message) {
+        messages.set(event.messageId, { ...message, endTime: event.time, delivered: true });
+      }
+    }
   });
-  
-  return messages;
+
+  return Array.from(messages.values());
+};
+
+/**
+ * Generate sample flow data for a pattern
+ */
+export const generateSampleFlowData = (pattern: SimulationGraph, scenario?: SimulationScenario): FlowMessage[] => {
+  return eventsToFlowMessages(simulatePattern(pattern, scenario));
 };
 
 /**
@@ -268,241 +280,3 @@ export const getNodeDataFlowParams = (
       return defaultParams;
   }
 };
-
-/**
- * Simulate the flow of data through a pattern
- */
-export const simulatePatternFlow = (
-  pattern: PatternData,
-  nodes: Node[],
-  edges: Edge[],
-  onUpdate: (state: Partial<DataFlowState>) => void,
-  speedSetting: FlowSpeed = 'normal',
-  stepMode: boolean = false
-) => {
-  const timeouts: (number | null)[] = [];
-  let cancelled = false;
-  const speedMultiplier = getFixedSpeedMultiplier(speedSetting);
-  let currentTime = 0;
-  
-  // Find nodes and edges in the simulation
-  const getNode = (id: string) => nodes.find(n => n.id === id);
-  
-  // New messages array for the simulation
-  const messages: FlowMessage[] = [];
-  
-  // Core simulation functions
-  const startSimulation = () => {
-    // Reset state
-    onUpdate({
-      messages: [],
-      activeNodes: new Set(),
-      activeEdges: new Set(),
-      currentTime: 0,
-      duration: 0,
-      hasSimulationRun: true
-    });
-
-    // Find the input node(s)
-    const inputNodes = nodes.filter(node => 
-      (node.type === 'input' || (node.data?.nodeType === 'input')) ||
-      !edges.some(e => e.target === node.id)
-    );
-    
-    if (inputNodes.length === 0) {
-      console.error('No input nodes found in the pattern');
-      return;
-    }
-    
-    // Start with the input nodes
-    inputNodes.forEach(node => {
-      simulateNodeProcessing(node.id, 0);
-    });
-  };
-  
-  // Process a node and its outgoing edges
-  const simulateNodeProcessing = (nodeId: string, startTime: number) => {
-    const node = getNode(nodeId);
-    if (!node || cancelled) return;
-    
-    // Calculate node processing time
-    const processingTime = calculateNodeProcessingTime(node);
-    const processedTime = startTime + processingTime;
-    
-    // Activate the node with a delay
-    const activateNode = () => {
-      if (cancelled) return;
-      
-      onUpdate(prevState => ({
-        activeNodes: new Set([...prevState.activeNodes, nodeId])
-      }));
-      
-      // Schedule the node to finish processing and send data to connected nodes
-      timeouts.push(window.setTimeout(processNode, processingTime / speedMultiplier));
-    };
-    
-    // Process outgoing edges from this node
-    const processNode = () => {
-      if (cancelled) return;
-      
-      const outEdges = edges.filter(e => e.source === nodeId);
-      
-      // If there are no outgoing edges, we're done with this branch
-      if (outEdges.length === 0) return;
-      
-      // Send data along each edge
-      outEdges.forEach((edge, index) => {
-        const targetNode = getNode(edge.target);
-        if (!targetNode) return;
-        
-        // Calculate delay for this edge based on index (for visual effect)
-        const edgeDelay = 300 * index;
-        
-        // Send data along this edge
-        const sendData = () => {
-          if (cancelled) return;
-          
-          // Create a data flow message
-          const flow = createDataFlow(
-            nodeId,
-            edge.target,
-            generateMessageContent(nodeId, edge.target),
-            determineMessageType(node, targetNode),
-            0,
-            1000
-          );
-          
-          const message: FlowMessage = {
-            ...flow,
-            id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            startTime: processedTime + edgeDelay,
-            delivered: false
-          };
-          
-          messages.push(message);
-          onUpdate({ messages: [...messages] });
-          
-          // Process the target node after the message is delivered
-          const processTarget = () => {
-            if (cancelled) return;
-            
-            // Mark message as delivered
-            const updatedMessages = messages.map(m => 
-              m.id === message.id 
-                ? { ...m, delivered: true, endTime: message.startTime + 1000 } 
-                : m
-            );
-            
-            messages.splice(0, messages.length, ...updatedMessages);
-            onUpdate({ messages: [...messages] });
-            
-            // Process the next node 
-            simulateNodeProcessing(edge.target, processedTime + edgeDelay + 1000);
-          };
-          
-          // Schedule the next node to process
-          timeouts.push(window.setTimeout(processTarget, 1000 / speedMultiplier));
-        };
-        
-        // Schedule sending data with the edge delay
-        timeouts.push(window.setTimeout(sendData, edgeDelay / speedMultiplier));
-      });
-    };
-    
-    // Start activating this node
-    timeouts.push(window.setTimeout(activateNode, 0));
-  };
-  
-  // Helper to calculate node processing time based on node type
-  const calculateNodeProcessingTime = (node: Node): number => {
-    const nodeType = node.data?.nodeType || node.type;
-    
-    // Different processing times for different types of nodes
-    switch (nodeType) {
-      case 'llm': return 2000; // LLM nodes take longer to process
-      case 'tool': return 1500; // Tool calls take a medium amount of time
-      case 'evaluator': return 1800; // Evaluators take a bit more time
-      case 'router': return 1000; // Routers are relatively quick
-      case 'aggregator': return 1500; // Aggregators take a medium amount of time
-      default: return 800; // Default processing time
-    }
-  };
-  
-  // Generate content for messages between nodes
-  const generateMessageContent = (sourceId: string, targetId: string): string => {
-    const sourceNode = getNode(sourceId);
-    const targetNode = getNode(targetId);
-    
-    if (!sourceNode || !targetNode) return 'Data';
-    
-    const sourceType = sourceNode.data?.nodeType || sourceNode.type;
-    const targetType = targetNode.data?.nodeType || targetNode.type;
-    
-    // Generate different content based on node types
-    if (sourceType === 'input' && targetType === 'llm') {
-      return 'User query';
-    } else if (sourceType === 'llm' && targetType === 'tool') {
-      return 'Tool request';
-    } else if (sourceType === 'tool' && targetType === 'llm') {
-      return 'Tool response';
-    } else if (sourceType === 'llm' && targetType === 'output') {
-      return 'Final response';
-    } else if (sourceType === 'router') {
-      return 'Routing decision';
-    } else if (targetType === 'evaluator') {
-      return 'Evaluation request';
-    } else if (sourceType === 'evaluator') {
-      return 'Evaluation result';
-    } else if (sourceType === 'planner' && targetType === 'executor') {
-      return 'Execution plan';
-    } else if (sourceType === 'executor') {
-      return 'Execution result';
-    }
-    
-    return 'Data transfer';
-  };
-  
-  // Determine the message type based on source and target nodes
-  const determineMessageType = (
-    sourceNode: Node,
-    targetNode: Node
-  ): 'query' | 'response' | 'tool_call' | 'observation' | 'reflection' | 'plan' | 'message' | 'data' | 'error' => {
-    const sourceType = sourceNode.data?.nodeType || sourceNode.type;
-    const targetType = targetNode.data?.nodeType || targetNode.type;
-    
-    if (sourceType === 'input' || sourceNode.id === 'input') {
-      return 'query';
-    } else if (targetType === 'output' || targetNode.id === 'output' || targetNode.id === 'result') {
-      return 'response';
-    } else if (sourceType === 'llm' && targetType === 'tool') {
-      return 'tool_call';
-    } else if (sourceType === 'tool' && targetType === 'llm') {
-      return 'observation';
-    } else if (targetType === 'evaluator' || sourceType === 'evaluator') {
-      return 'reflection';
-    } else if (sourceType === 'planner') {
-      return 'plan';
-    }
-    
-    return 'message';
-  };
-  
-  // Complete the entire node to show it's done processing
-  const completeNode = () => {};
-  
-  // Start the simulation
-  startSimulation();
-  
-  // Return a cleanup function
-  return {
-    cleanup: () => {
-      cancelled = true;
-      // Clear all timeouts
-      timeouts.forEach(timeout => {
-        if (timeout !== null && typeof window !== 'undefined') {
-          window.clearTimeout(timeout);
-        }
-      });
-    }
-  };
-};
\ No newline at end of file
@@ -18,6 +18,9 @@ if (import.meta.env.DEV) {
   import('./lib/utils/reactFlowDebugger').then(module => {
     module.exposeReactFlowDebugTools();
   });
+  import('./lib/data/patternReferences').then(module => {
+    module.reportPatternReferenceIssues();
+  });
 }
 
 createRoot(document.getElementById('root')!).render(
@@ -5,6 +5,7 @@
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react-swc";
 import { defineConfig, PluginOption } from "vite";
+import { VitePWA } from "vite-plugin-pwa";
 
 import { createLogToFileLogger } from "@github/spark/logToFileLogger";
 import { runtimeTelemetryPlugin } from "@github/spark/telemetryPlugin";
@@ -28,6 +29,67 @@ export default defineConfig({
     sparkAgent({ serverURL: process.env.SPARK_AGENT_URL }) as PluginOption,
     tagSourcePlugin() as PluginOption, 
     designerHost() as PluginOption,
+    // Offline support for workshops: the bundle and content packs are precached, fonts,
+    // the Pyodide runtime and KV reads are cached the first time they are fetched
+    VitePWA({
+      registerType: "prompt",
+      includeAssets: ["pwa-icon.svg", "resizeObserverPolyfill.js"],
+      manifest: {
+        name: "AI Agent School",
+        short_name: "Agent School",
+        description: "Interactive educational platform where AI agent concepts come to life",
+        theme_color: "#0f172a",
+        background_color: "#ffffff",
+        display: "standalone",
+        // start_url and scope are left to the plugin, which takes them from Vite's base
+        // so an install from a sub-path deploy opens that sub-path
+        icons: [
+          { src: "pwa-icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any maskable" }
+        ]
+      },
+      workbox: {
+        // yaml/yml so content packs written in YAML load offline too
+        globPatterns: ["**/*.{js,css,html,svg,png,ico,json,yaml,yml,woff2}"],
+        // The TypeScript compiler chunk used by the code tools is several MB
+        maximumFileSizeToCacheInBytes: 12 * 1024 * 1024,
+        navigateFallback: "index.html",
+        navigateFallbackDenylist: [/^\/_spark\//],
+        runtimeCaching: [
+          {
+            urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/,
+            handler: "StaleWhileRevalidate",
+            options: { cacheName: "google-fonts-stylesheets" }
+          },
+          {
+            urlPattern: /^https:\/\/fonts\.gstatic\.com\/.*/,
+            handler: "CacheFirst",
+            options: {
+              cacheName: "google-fonts-webfonts",
+              expiration: { maxEntries: 30, maxAgeSeconds: 60 * 60 * 24 * 365 },
+              cacheableResponse: { statuses: [0, 200] }
+            }
+          },
+          {
+            urlPattern: /^https:\/\/cdn\.jsdelivr\.net\/pyodide\/.*/,
+            handler: "CacheFirst",
+            options: {
+              cacheName: "pyodide-runtime",
+              expiration: { maxEntries: 60 },
+              cacheableResponse: { statuses: [0, 200] }
+            }
+          },
+          {
+            urlPattern: ({ url, request }) => url.pathname.startsWith("/_spark/kv") && request.method === "GET",
+            handler: "NetworkFirst",
+            options: {
+              cacheName: "spark-kv",
+              networkTimeoutSeconds: 5,
+              cacheableResponse: { statuses: [200] }
+            }
+          }
+        ]
+      }
+    }),
   ],
   build: {
     outDir: process.env.OUTPUT_DIR || 'dist'